@@ -32,6 +32,12 @@ const externalDependencies = [
   // Dynamic imports that should be external
   'nanoid',
   
+  // Native media renderers for vault thumbnails (ship platform binaries)
+  'sharp',
+  'ffmpeg-static',
+  'pdfjs-dist',
+  '@napi-rs/canvas',
+  
   // Node.js built-in modules
   'crypto',
   'fs',
@@ -0,0 +1,95 @@
+/**
+ * Tests for the calendar feed endpoint
+ * Runs the HTTP handler with the rate limiter mocked
+ */
+
+import {describe, it, expect, beforeEach, jest} from "@jest/globals";
+
+const mockCheckRateLimit = jest.fn(async (_options: {type: string; identifier: string}) => ({
+  success: true,
+  limit: 60,
+  remaining: 59,
+  reset: Date.now() + 300 * 1000,
+}));
+
+jest.mock("../services/rateLimitService", () => ({
+  checkRateLimit: mockCheckRateLimit,
+}));
+
+jest.mock("firebase-admin/firestore", () => ({
+  getFirestore: jest.fn(),
+  Timestamp: {now: jest.fn()},
+}));
+
+jest.mock("firebase-functions/v2/https", () => ({
+  ...jest.requireActual<typeof import("firebase-functions/v2/https")>("firebase-functions/v2/https"),
+  onCall: jest.fn((_config: unknown, handler: unknown) => handler),
+  onRequest: jest.fn((_config: unknown, handler: unknown) => handler),
+}));
+
+import {getFirestore} from "firebase-admin/firestore";
+import {calendarFeed} from "../calendarFeed";
+
+type RequestHandler = (request: unknown, response: unknown) => Promise<void>;
+
+interface MockResponse {
+  status: jest.Mock<(code: number) => MockResponse>;
+  send: jest.Mock<(body?: unknown) => void>;
+  setHeader: jest.Mock<(name: string, value: string) => void>;
+}
+
+const createResponse = () => {
+  const response: MockResponse = {
+    status: jest.fn((_code: number) => response),
+    send: jest.fn(),
+    setHeader: jest.fn(),
+  };
+  return response;
+};
+
+const getFeed = (request: Record<string, unknown>) => {
+  const response = createResponse();
+  const run = (calendarFeed as unknown as RequestHandler)({
+    method: "GET",
+    query: {token: "not-a-token"},
+    headers: {},
+    ...request,
+  }, response);
+  return {run, response};
+};
+
+describe("calendarFeed", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("should rate limit by the client IP", async () => {
+    const {run, response} = getFeed({ip: "203.0.113.1"});
+    await run;
+
+    expect(mockCheckRateLimit).toHaveBeenCalledWith(expect.objectContaining({
+      type: "api",
+      identifier: "ip:203.0.113.1",
+    }));
+    expect(response.status).toHaveBeenCalledWith(404);
+  });
+
+  it("should fall back to the forwarded IP", async () => {
+    const {run} = getFeed({headers: {"x-forwarded-for": "198.51.100.7, 10.0.0.1"}});
+    await run;
+
+    expect(mockCheckRateLimit).toHaveBeenCalledWith(expect.objectContaining({
+      identifier: "ip:198.51.100.7",
+    }));
+  });
+
+  it("should turn away a client over the limit before reading any feed", async () => {
+    mockCheckRateLimit.mockRejectedValueOnce({code: "RATE_LIMIT_EXCEEDED", message: "Too many requests"});
+
+    const {run, response} = getFeed({ip: "203.0.113.1"});
+    await run;
+
+    expect(response.status).toHaveBeenCalledWith(429);
+    expect(getFirestore).not.toHaveBeenCalled();
+  });
+});
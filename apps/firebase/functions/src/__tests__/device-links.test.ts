@@ -0,0 +1,143 @@
+/**
+ * Tests for the device listing and device link handlers
+ * Runs the callables and the expiry sweep against the Firestore mocks
+ */
+
+import {describe, it, expect, beforeEach, jest} from "@jest/globals";
+import {createMockFirestore} from "./factories/firebaseMocks";
+
+const mockFirestore = createMockFirestore();
+const mockDeleteFile = jest.fn(async (_options?: unknown) => undefined);
+const mockFile = jest.fn((_path: string) => ({delete: mockDeleteFile}));
+
+const timestamp = (millis: number) => ({toMillis: () => millis, toDate: () => new Date(millis)});
+
+jest.mock("firebase-admin", () => ({
+  apps: [{}],
+  initializeApp: jest.fn(),
+  storage: jest.fn(() => ({bucket: () => ({file: mockFile})})),
+}));
+
+jest.mock("firebase-admin/firestore", () => ({
+  getFirestore: jest.fn(() => mockFirestore),
+  Timestamp: {
+    now: jest.fn(() => timestamp(Date.now())),
+    fromMillis: jest.fn((millis: number) => timestamp(millis)),
+    fromDate: jest.fn((date: Date) => timestamp(date.getTime())),
+  },
+  FieldValue: {
+    serverTimestamp: jest.fn(() => "server-timestamp"),
+    delete: jest.fn(() => "deleted"),
+  },
+}));
+
+jest.mock("firebase-functions/v2/https", () => ({
+  onCall: jest.fn((config: unknown, handler?: unknown) => typeof config === "function" ? config : handler),
+  HttpsError: class MockHttpsError extends Error {
+    constructor(public code: string, message: string) {
+      super(message);
+      this.name = "HttpsError";
+    }
+  },
+}));
+
+jest.mock("firebase-functions/v2/scheduler", () => ({
+  onSchedule: jest.fn((_config: unknown, handler: unknown) => handler),
+}));
+
+jest.mock("../middleware/auth", () => ({
+  ...jest.requireActual<typeof import("../middleware/auth")>("../middleware/auth"),
+  withAuth: jest.fn((handler: unknown) => handler),
+}));
+
+import {getUserDevices, cancelDeviceLink, expireDeviceLinks} from "../encryption";
+
+type CallableHandler = (request: unknown) => Promise<Record<string, any>>;
+type ScheduledHandler = () => Promise<void>;
+
+const LINK_ID = "link_1760900000000_0123456789abcdef";
+const ARCHIVE_PATH = `encrypted-backups/alice/device-link-${LINK_ID}`;
+
+const call = (handler: unknown, uid: string, data: Record<string, unknown>) =>
+  (handler as CallableHandler)({auth: {uid}, data});
+
+const storeDeviceLink = (link: Record<string, unknown> = {}) => {
+  mockFirestore._setData(`users/alice/deviceLinks/${LINK_ID}`, {
+    linkId: LINK_ID,
+    status: "pending",
+    expiresAt: timestamp(Date.now() + 10 * 60 * 1000),
+    ...link,
+  });
+};
+
+describe("Device links", () => {
+  beforeEach(() => {
+    mockFirestore._clear();
+    jest.clearAllMocks();
+    mockFirestore._setData("users/alice/devices/phone", {
+      deviceId: "phone",
+      deviceName: "Alice's phone",
+      deviceInfo: {platform: "ios", signalDeviceId: 1},
+      isActive: true,
+      registeredAt: timestamp(Date.now()),
+    });
+    mockFirestore._setData("chats/chat-1", {participants: ["alice", "bob"]});
+  });
+
+  describe("getUserDevices", () => {
+    it("should list a chat member's devices without their details", async () => {
+      const {devices} = await call(getUserDevices, "bob", {userId: "alice"});
+
+      expect(devices).toEqual([
+        expect.objectContaining({deviceId: "phone", platform: "ios", signalDeviceId: 1}),
+      ]);
+      expect(devices[0]).not.toHaveProperty("deviceName");
+    });
+
+    it("should not list the devices of someone the caller doesn't chat with", async () => {
+      await expect(call(getUserDevices, "mallory", {userId: "alice"}))
+        .rejects.toMatchObject({code: "permission-denied"});
+    });
+  });
+
+  describe("cancelDeviceLink", () => {
+    it("should cancel the link and delete its archive", async () => {
+      storeDeviceLink({status: "approved", envelope: "sealed"});
+
+      await call(cancelDeviceLink, "alice", {linkId: LINK_ID});
+
+      expect(mockFirestore._getData().get(`users/alice/deviceLinks/${LINK_ID}`)).toMatchObject({
+        status: "cancelled",
+        envelope: "deleted",
+      });
+      expect(mockFile).toHaveBeenCalledWith(ARCHIVE_PATH);
+      expect(mockDeleteFile).toHaveBeenCalledWith({ignoreNotFound: true});
+    });
+
+    it("should not cancel a completed link", async () => {
+      storeDeviceLink({status: "completed"});
+
+      await expect(call(cancelDeviceLink, "alice", {linkId: LINK_ID}))
+        .rejects.toMatchObject({code: "failed-precondition"});
+      expect(mockDeleteFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("expireDeviceLinks", () => {
+    it("should delete expired links and their archives", async () => {
+      storeDeviceLink({expiresAt: timestamp(Date.now() - 1000)});
+      mockFirestore._setData("users/alice/deviceLinks/link-open", {
+        status: "pending",
+        expiresAt: timestamp(Date.now() + 10 * 60 * 1000),
+      });
+
+      await (expireDeviceLinks as unknown as ScheduledHandler)();
+
+      const data = mockFirestore._getData();
+      expect(data.has(`users/alice/deviceLinks/${LINK_ID}`)).toBe(false);
+      expect(data.has("users/alice/deviceLinks/link-open")).toBe(true);
+      expect(mockFile).toHaveBeenCalledTimes(1);
+      expect(mockFile).toHaveBeenCalledWith(ARCHIVE_PATH);
+    });
+  });
+});
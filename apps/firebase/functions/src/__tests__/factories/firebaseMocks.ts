@@ -12,15 +12,19 @@ export function createMockFirestore() {
   const mockData = new Map<string, any>();
   
   // Mock document reference
-  const createMockDocRef = (path: string) => ({
+  const createMockDocRef = (path: string): any => ({
     id: path.split('/').pop() || '',
     path,
+    get parent() {
+      return createMockCollectionRef(path.split('/').slice(0, -1).join('/'));
+    },
     get: jest.fn(async () => ({
       exists: mockData.has(path),
       id: path.split('/').pop() || '',
       data: () => mockData.get(path),
-      ref: { path },
+      ref: createMockDocRef(path),
     })),
+    collection: jest.fn((collectionId: string) => createMockCollectionRef(`${path}/${collectionId}`)),
     set: jest.fn(async (data: any) => {
       mockData.set(path, { ...data, _createdAt: Timestamp.now() });
       return { writeTime: Timestamp.now() };
@@ -36,8 +40,13 @@ export function createMockFirestore() {
     }),
   });
 
-  // Mock query
-  const createMockQuery = () => {
+  const compareValues = (a: any, b: any) => {
+    const value = (item: any) => (typeof item?.toMillis === 'function' ? item.toMillis() : item);
+    return value(a) < value(b) ? -1 : value(a) > value(b) ? 1 : 0;
+  };
+
+  // Mock query, over the documents whose path is in scope
+  const createMockQuery = (inScope: (path: string) => boolean = () => true) => {
     const conditions: any[] = [];
     const query: any = {
       where: jest.fn((field: string, op: string, value: any) => {
@@ -51,17 +60,20 @@ export function createMockFirestore() {
         // Simple filtering implementation
         const docs: any[] = [];
         mockData.forEach((data, path) => {
-          let matches = true;
+          let matches = inScope(path);
           conditions.forEach(({ field, op, value }) => {
             const fieldValue = data[field];
             if (op === '==' && fieldValue !== value) matches = false;
             if (op === 'in' && !value.includes(fieldValue)) matches = false;
+            if (op === 'array-contains' && !(Array.isArray(fieldValue) && fieldValue.includes(value))) matches = false;
+            if (op === '<' && !(fieldValue !== undefined && compareValues(fieldValue, value) < 0)) matches = false;
+            if (op === '<=' && !(fieldValue !== undefined && compareValues(fieldValue, value) <= 0)) matches = false;
           });
           if (matches) {
             docs.push({
               id: path.split('/').pop() || '',
               data: () => data,
-              ref: { path },
+              ref: createMockDocRef(path),
             });
           }
         });
@@ -71,10 +83,18 @@ export function createMockFirestore() {
     return query;
   };
 
+  const isInCollection = (collectionPath: string) => (path: string) =>
+    path.startsWith(collectionPath + '/') && !path.slice(collectionPath.length + 1).includes('/');
+
   // Mock collection reference
-  const createMockCollectionRef = (collectionPath: string) => ({
-    id: collectionPath,
+  const createMockCollectionRef = (collectionPath: string): any => ({
+    id: collectionPath.split('/').pop() || '',
     path: collectionPath,
+    get parent() {
+      return collectionPath.includes('/') ?
+        createMockDocRef(collectionPath.split('/').slice(0, -1).join('/')) :
+        null;
+    },
     doc: jest.fn((docId?: string) => {
       const id = docId || `auto_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
       return createMockDocRef(`${collectionPath}/${id}`);
@@ -86,10 +106,10 @@ export function createMockFirestore() {
       return createMockDocRef(path);
     }),
     where: jest.fn((field: string, op: string, value: any) => 
-      createMockQuery().where(field, op, value)
+      createMockQuery(isInCollection(collectionPath)).where(field, op, value)
     ),
-    orderBy: jest.fn(() => createMockQuery()),
-    limit: jest.fn(() => createMockQuery()),
+    orderBy: jest.fn(() => createMockQuery(isInCollection(collectionPath))),
+    limit: jest.fn(() => createMockQuery(isInCollection(collectionPath))),
     get: jest.fn(async () => {
       const docs: any[] = [];
       mockData.forEach((data, path) => {
@@ -153,6 +173,9 @@ export function createMockFirestore() {
 
   const mockFirestore = {
     collection: jest.fn((path: string) => createMockCollectionRef(path)),
+    collectionGroup: jest.fn((collectionId: string) =>
+      createMockQuery((path) => path.split('/').slice(-2)[0] === collectionId)
+    ),
     doc: jest.fn((path: string) => createMockDocRef(path)),
     batch: jest.fn(() => createMockBatch()),
     runTransaction: jest.fn(async (callback: any) => {
@@ -0,0 +1,86 @@
+/**
+ * Tests for updating family relationships
+ * Runs the callable against the Firestore mocks
+ */
+
+import {describe, it, expect, beforeEach, jest} from "@jest/globals";
+import {createMockFirestore} from "./factories/firebaseMocks";
+
+const mockFirestore = createMockFirestore();
+
+jest.mock("firebase-admin/firestore", () => ({
+  getFirestore: jest.fn(() => mockFirestore),
+  Timestamp: {
+    now: jest.fn(() => ({toMillis: () => Date.now(), toDate: () => new Date()})),
+  },
+  FieldValue: {
+    serverTimestamp: jest.fn(() => "server-timestamp"),
+    delete: jest.fn(() => "deleted"),
+  },
+}));
+
+jest.mock("firebase-admin/storage", () => ({
+  getStorage: jest.fn(),
+}));
+
+jest.mock("firebase-functions/v2/https", () => ({
+  onCall: jest.fn((_config: unknown, handler: unknown) => handler),
+  HttpsError: class MockHttpsError extends Error {
+    constructor(public code: string, message: string) {
+      super(message);
+      this.name = "HttpsError";
+    }
+  },
+}));
+
+jest.mock("../middleware", () => ({
+  ...jest.requireActual<typeof import("../middleware")>("../middleware"),
+  withResourceAccess: jest.fn((handler: unknown) => handler),
+}));
+
+import {updateFamilyRelationships} from "../familyTree";
+
+type ResourceHandler = (request: unknown, resource: unknown) => Promise<Record<string, unknown>>;
+
+const TREE_ID = "tree-1";
+const MARRIAGE = {status: "married", startDate: "2001-06-09", endDate: null};
+
+const updateRelationships = (updates: Record<string, unknown>) =>
+  (updateFamilyRelationships as unknown as ResourceHandler)(
+    {auth: {uid: "alice"}, data: {userId: "alice", updates}},
+    mockFirestore._getData().get("users/alice")
+  );
+
+describe("updateFamilyRelationships", () => {
+  beforeEach(() => {
+    mockFirestore._clear();
+    jest.clearAllMocks();
+    mockFirestore._setData("users/alice", {familyTreeId: TREE_ID, spouseIds: ["bob"]});
+    mockFirestore._setData("users/bob", {familyTreeId: TREE_ID, spouseIds: ["alice"]});
+  });
+
+  it("should mirror relationship details onto the spouse", async () => {
+    await updateRelationships({spouseRelationships: {bob: MARRIAGE}});
+
+    expect(mockFirestore._getData().get("users/alice")).toMatchObject({"spouseRelationships.bob": MARRIAGE});
+    expect(mockFirestore._getData().get("users/bob")).toMatchObject({"spouseRelationships.alice": MARRIAGE});
+  });
+
+  it("should delete the details from both spouses when one is removed", async () => {
+    await updateRelationships({removeSpouses: ["bob"]});
+
+    expect(mockFirestore._getData().get("users/alice")).toMatchObject({
+      "spouseIds": [],
+      "spouseRelationships.bob": "deleted",
+    });
+    expect(mockFirestore._getData().get("users/bob")).toMatchObject({"spouseRelationships.alice": "deleted"});
+  });
+
+  it("should leave people outside the family tree alone", async () => {
+    mockFirestore._setData("users/bob", {familyTreeId: "tree-2"});
+
+    await updateRelationships({removeSpouses: ["bob"]});
+
+    expect(mockFirestore._getData().get("users/bob")).toEqual({familyTreeId: "tree-2"});
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for the message cleanup jobs
+ * Runs the expiry purge and the archive callable against the Firestore mocks
+ */
+
+import {describe, it, expect, beforeEach, jest} from "@jest/globals";
+import {createMockFirestore} from "./factories/firebaseMocks";
+
+const mockFirestore = createMockFirestore();
+const mockDeleteFile = jest.fn(async (_options?: unknown) => undefined);
+const mockFile = jest.fn((_path: string) => ({delete: mockDeleteFile}));
+
+const timestamp = (millis: number) => ({toMillis: () => millis, toDate: () => new Date(millis)});
+
+jest.mock("firebase-admin", () => ({
+  apps: [{}],
+  initializeApp: jest.fn(),
+  storage: jest.fn(() => ({bucket: () => ({name: "dynasty.appspot.com", file: mockFile})})),
+}));
+
+jest.mock("firebase-admin/firestore", () => ({
+  getFirestore: jest.fn(() => mockFirestore),
+  Timestamp: {
+    now: jest.fn(() => timestamp(Date.now())),
+    fromMillis: jest.fn((millis: number) => timestamp(millis)),
+    fromDate: jest.fn((date: Date) => timestamp(date.getTime())),
+  },
+  FieldValue: {
+    serverTimestamp: jest.fn(() => "server-timestamp"),
+    delete: jest.fn(() => "deleted"),
+  },
+}));
+
+jest.mock("firebase-functions/v2/https", () => ({
+  onCall: jest.fn((config: unknown, handler?: unknown) => typeof config === "function" ? config : handler),
+  HttpsError: class MockHttpsError extends Error {
+    constructor(public code: string, message: string) {
+      super(message);
+      this.name = "HttpsError";
+    }
+  },
+}));
+
+jest.mock("firebase-functions/v2/scheduler", () => ({
+  onSchedule: jest.fn((_config: unknown, handler: unknown) => handler),
+}));
+
+jest.mock("../middleware/auth", () => ({
+  ...jest.requireActual<typeof import("../middleware/auth")>("../middleware/auth"),
+  withAuth: jest.fn((handler: unknown) => handler),
+}));
+
+import {purgeExpiredMessages, cleanupOldMessages} from "../encryption";
+
+type CallableHandler = (request: unknown) => Promise<Record<string, unknown>>;
+type ScheduledHandler = () => Promise<void>;
+
+const MEDIA_PATH = "chats/chat-1/media/photo.enc";
+const MEDIA_URL = `https://firebasestorage.googleapis.com/v0/b/dynasty.appspot.com/o/${encodeURIComponent(MEDIA_PATH)}?alt=media`;
+
+describe("Message cleanup", () => {
+  beforeEach(() => {
+    mockFirestore._clear();
+    jest.clearAllMocks();
+  });
+
+  describe("purgeExpiredMessages", () => {
+    it("should delete expired messages and their attachments", async () => {
+      mockFirestore._setData("chats/chat-1/messages/expired", {
+        expiresAt: timestamp(Date.now() - 1000),
+        media: {encryptedUrl: MEDIA_URL},
+      });
+      mockFirestore._setData("chats/chat-1/messages/current", {
+        expiresAt: timestamp(Date.now() + 60 * 60 * 1000),
+      });
+      mockFirestore._setData("chats/chat-1/messages/kept", {text: "No timer"});
+
+      await (purgeExpiredMessages as unknown as ScheduledHandler)();
+
+      const data = mockFirestore._getData();
+      expect(data.has("chats/chat-1/messages/expired")).toBe(false);
+      expect(data.has("chats/chat-1/messages/current")).toBe(true);
+      expect(data.has("chats/chat-1/messages/kept")).toBe(true);
+      expect(mockFile).toHaveBeenCalledWith(MEDIA_PATH);
+      expect(mockDeleteFile).toHaveBeenCalledWith({ignoreNotFound: true});
+    });
+  });
+
+  describe("cleanupOldMessages", () => {
+    it("should only run for an admin", async () => {
+      mockFirestore._setData("users/alice", {isAdmin: false});
+
+      await expect((cleanupOldMessages as unknown as CallableHandler)({auth: {uid: "alice"}, data: {}}))
+        .rejects.toMatchObject({code: "permission-denied"});
+    });
+  });
+});
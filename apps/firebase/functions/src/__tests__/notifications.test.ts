@@ -0,0 +1,114 @@
+/**
+ * Tests for the chat message trigger
+ * Runs onMessageCreated against the Firestore mocks
+ */
+
+import {describe, it, expect, beforeEach, jest} from "@jest/globals";
+import {createMockFirestore} from "./factories/firebaseMocks";
+
+const mockFirestore = createMockFirestore();
+
+const timestamp = (millis: number) => ({toMillis: () => millis, toDate: () => new Date(millis)});
+
+jest.mock("firebase-admin/firestore", () => ({
+  getFirestore: jest.fn(() => mockFirestore),
+  Timestamp: {
+    now: jest.fn(() => timestamp(Date.now())),
+    fromDate: jest.fn((date: Date) => timestamp(date.getTime())),
+  },
+  FieldValue: {
+    serverTimestamp: jest.fn(() => "server-timestamp"),
+    increment: jest.fn((amount: number) => ({increment: amount})),
+    delete: jest.fn(() => "deleted"),
+  },
+}));
+
+jest.mock("firebase-admin/messaging", () => ({
+  getMessaging: jest.fn(() => ({send: jest.fn()})),
+}));
+
+jest.mock("firebase-functions/v2/firestore", () => ({
+  onDocumentCreated: jest.fn((_config: unknown, handler: unknown) => handler),
+  onDocumentUpdated: jest.fn((_config: unknown, handler: unknown) => handler),
+}));
+
+jest.mock("firebase-functions/v2/scheduler", () => ({
+  onSchedule: jest.fn((_config: unknown, handler: unknown) => handler),
+}));
+
+import {onMessageCreated} from "../notifications";
+
+type MessageCreatedHandler = (event: unknown) => Promise<void>;
+
+const CHAT_ID = "chat-1";
+const CHAT_PATH = `chats/${CHAT_ID}`;
+
+const createMessage = async (messageId: string, message: Record<string, unknown>) => {
+  const path = `${CHAT_PATH}/messages/${messageId}`;
+  mockFirestore._setData(path, message);
+  await (onMessageCreated as unknown as MessageCreatedHandler)({
+    data: {id: messageId, data: () => message, ref: mockFirestore.doc(path)},
+    params: {chatId: CHAT_ID, messageId},
+  });
+};
+
+const getNotifications = () =>
+  Array.from(mockFirestore._getData().entries())
+    .filter(([path]) => path.startsWith("notifications/"))
+    .map(([, notification]) => notification);
+
+describe("onMessageCreated", () => {
+  beforeEach(() => {
+    mockFirestore._clear();
+    jest.clearAllMocks();
+    mockFirestore._setData(CHAT_PATH, {
+      type: "group",
+      participants: ["alice", "bob", "carol"],
+    });
+    mockFirestore._setData("users/alice", {displayName: "Alice"});
+  });
+
+  it("should count a message and notify the other participants once", async () => {
+    await createMessage("message-1", {
+      senderId: "alice",
+      type: "text",
+      text: "Dinner at six",
+      timestamp: timestamp(Date.now()),
+    });
+
+    expect(mockFirestore._getData().get(CHAT_PATH)).toMatchObject({
+      messageCount: {increment: 1},
+    });
+    expect(getNotifications().map((notification) => notification.userId).sort()).toEqual(["bob", "carol"]);
+  });
+
+  it("should only notify the author of a message about a reaction to it", async () => {
+    mockFirestore._setData(`${CHAT_PATH}/messages/message-1`, {senderId: "bob", type: "text"});
+
+    await createMessage("reaction-1", {
+      senderId: "alice",
+      type: "reaction",
+      targetMessageId: "message-1",
+      timestamp: timestamp(Date.now()),
+    });
+
+    expect(mockFirestore._getData().get(CHAT_PATH)).not.toHaveProperty("messageCount");
+    expect(getNotifications()).toEqual([
+      expect.objectContaining({userId: "bob", body: "Reacted to your message"}),
+    ]);
+  });
+
+  it("should stamp when a message in a disappearing chat expires", async () => {
+    const sentAt = Date.now();
+    mockFirestore._setData(CHAT_PATH, {
+      type: "group",
+      participants: ["alice", "bob"],
+      disappearingMessagesSeconds: 3600,
+    });
+
+    await createMessage("message-1", {senderId: "alice", type: "text", timestamp: timestamp(sentAt)});
+
+    const message = mockFirestore._getData().get(`${CHAT_PATH}/messages/message-1`);
+    expect(message.expiresAt.toMillis()).toBe(sentAt + 3600 * 1000);
+  });
+});
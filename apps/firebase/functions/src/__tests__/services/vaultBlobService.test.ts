@@ -0,0 +1,114 @@
+/**
+ * Tests for the vault blob reference counting
+ * Covers releasing references against the Firestore mocks, including deleting the
+ * stored object with the last one
+ */
+
+import {describe, it, expect, beforeEach, jest} from "@jest/globals";
+import {createMockFirestore} from "../factories/firebaseMocks";
+
+const mockFirestore = createMockFirestore();
+const mockDeleteFile = jest.fn(async (_object: unknown): Promise<void> => undefined);
+const mockDeleteThumbnails = jest.fn(async (_object: unknown): Promise<void> => undefined);
+
+jest.mock("firebase-admin/firestore", () => ({
+  getFirestore: jest.fn(() => mockFirestore),
+  Timestamp: {
+    now: jest.fn(() => ({toMillis: () => Date.now()})),
+  },
+  FieldValue: {
+    increment: jest.fn((amount: number) => ({increment: amount})),
+  },
+}));
+
+jest.mock("../../services/storageAdapter", () => ({
+  getStorageAdapter: jest.fn(() => ({deleteFile: mockDeleteFile})),
+}));
+
+jest.mock("../../services/vaultThumbnailService", () => ({
+  getVaultThumbnailService: jest.fn(() => ({deleteThumbnails: mockDeleteThumbnails})),
+}));
+
+import {getVaultBlobService, VAULT_BLOBS_COLLECTION} from "../../services/vaultBlobService";
+
+const CONTENT_HASH = "a".repeat(64);
+const BLOB_PATH = `${VAULT_BLOBS_COLLECTION}/${CONTENT_HASH}`;
+
+const storeBlob = (refCount: number) => {
+  mockFirestore._setData(BLOB_PATH, {
+    contentHash: CONTENT_HASH,
+    storageProvider: "r2",
+    bucket: "vault-bucket",
+    key: `vault/blobs/${CONTENT_HASH}/first-upload`,
+    size: 1024,
+    refCount,
+  });
+};
+
+describe("VaultBlobService", () => {
+  beforeEach(() => {
+    mockFirestore._clear();
+    jest.clearAllMocks();
+  });
+
+  describe("releaseReference", () => {
+    it("should only drop a reference while other files share the blob", async () => {
+      storeBlob(2);
+
+      const deleted = await getVaultBlobService().releaseReference(CONTENT_HASH);
+
+      expect(deleted).toBe(false);
+      expect(mockFirestore._getData().get(BLOB_PATH)).toMatchObject({refCount: {increment: -1}});
+      expect(mockDeleteFile).not.toHaveBeenCalled();
+    });
+
+    it("should delete the blob and its stored object with the last reference", async () => {
+      storeBlob(1);
+
+      const deleted = await getVaultBlobService().releaseReference(CONTENT_HASH);
+
+      expect(deleted).toBe(true);
+      expect(mockFirestore._getData().has(BLOB_PATH)).toBe(false);
+      const object = {
+        path: `vault/blobs/${CONTENT_HASH}/first-upload`,
+        bucket: "vault-bucket",
+        provider: "r2",
+      };
+      expect(mockDeleteFile).toHaveBeenCalledWith(object);
+      expect(mockDeleteThumbnails).toHaveBeenCalledWith(object);
+    });
+
+    it("should leave a blob registered during the delete alone", async () => {
+      storeBlob(1);
+      // Another upload of the same contents registers its own copy before the
+      // stored object of the released blob is deleted
+      mockDeleteFile.mockImplementationOnce(async (): Promise<void> => {
+        mockFirestore._setData(BLOB_PATH, {
+          contentHash: CONTENT_HASH,
+          storageProvider: "r2",
+          bucket: "vault-bucket",
+          key: `vault/blobs/${CONTENT_HASH}/second-upload`,
+          size: 1024,
+          refCount: 1,
+        });
+      });
+
+      await getVaultBlobService().releaseReference(CONTENT_HASH);
+
+      expect(mockDeleteFile).toHaveBeenCalledTimes(1);
+      expect(mockDeleteFile).toHaveBeenCalledWith(expect.objectContaining({
+        path: `vault/blobs/${CONTENT_HASH}/first-upload`,
+      }));
+      expect(mockFirestore._getData().get(BLOB_PATH)).toMatchObject({
+        key: `vault/blobs/${CONTENT_HASH}/second-upload`,
+      });
+    });
+
+    it("should do nothing for a blob that doesn't exist", async () => {
+      const deleted = await getVaultBlobService().releaseReference(CONTENT_HASH);
+
+      expect(deleted).toBe(false);
+      expect(mockDeleteFile).not.toHaveBeenCalled();
+    });
+  });
+});
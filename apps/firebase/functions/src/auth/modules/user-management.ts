@@ -11,6 +11,7 @@ import {MAX_OPERATIONS_PER_BATCH} from "../config/constants";
 import {validateRequest} from "../../utils/request-validator";
 import {VALIDATION_SCHEMAS} from "../../config/validation-schemas";
 import {SECURITY_CONFIG} from "../../config/security-config";
+import {getFamilyVaultMemberRemoval, getFamilyVaultOwnerId} from "../../utils/familyVault";
 
 /**
  * Handles cleanup when a user deletes their account.
@@ -20,6 +21,7 @@ import {SECURITY_CONFIG} from "../../config/security-config";
  * - Stories
  * - Profile picture
  * - Family tree (if owner)
+ * - Family vault role and plan link (family vault items belong to the tree and stay)
  */
 export const handleAccountDeletion = onCall(
   {
@@ -112,6 +114,30 @@ export const handleAccountDeletion = onCall(
             await commitBatchIfNeeded();
           }
 
+          // Nobody is left to use the family vault. Its items go to the trash, where the
+          // scheduled cleanup deletes them with their files.
+          const familyVaultItemsSnapshot = await db.collection("vaultItems")
+            .where("userId", "==", getFamilyVaultOwnerId(familyTreeId))
+            .where("isDeleted", "==", false)
+            .get();
+
+          for (const doc of familyVaultItemsSnapshot.docs) {
+            batch.update(doc.ref, {
+              isDeleted: true,
+              deletedAt: Timestamp.now(),
+              updatedAt: Timestamp.now(),
+            });
+            operationCount++;
+            await commitBatchIfNeeded();
+          }
+
+          const familyVaultDocRef = db.collection("familyVaults").doc(familyTreeId);
+          if ((await familyVaultDocRef.get()).exists) {
+            batch.delete(familyVaultDocRef);
+            operationCount++;
+            await commitBatchIfNeeded();
+          }
+
           // Delete family tree document
           const familyTreeDocRef = db.collection("familyTrees").doc(familyTreeId);
           const familyTreeDoc = await familyTreeDocRef.get();
@@ -151,6 +177,18 @@ export const handleAccountDeletion = onCall(
             await commitBatchIfNeeded();
           }
 
+          // The family vault and everything in it stays with the tree
+          const familyVaultDocRef = db.collection("familyVaults").doc(familyTreeId);
+          const familyVaultDoc = await familyVaultDocRef.get();
+          const familyVaultRemoval = familyVaultDoc.exists ?
+            getFamilyVaultMemberRemoval(familyVaultDoc.data()!, userId) :
+            null;
+          if (familyVaultRemoval) {
+            batch.update(familyVaultDocRef, {...familyVaultRemoval, updatedAt: Timestamp.now()});
+            operationCount++;
+            await commitBatchIfNeeded();
+          }
+
           // Update relationships for all family members
           for (const memberDoc of familyMembers.docs) {
             if (memberDoc.id === userId) continue;
@@ -174,6 +212,18 @@ export const handleAccountDeletion = onCall(
         }
       }
 
+      // Family vaults of other trees can be linked to this user's family plan
+      const linkedFamilyVaultsSnapshot = await db.collection("familyVaults")
+        .where("planOwnerId", "==", userId)
+        .get();
+
+      for (const doc of linkedFamilyVaultsSnapshot.docs) {
+        if (doc.id === familyTreeId) continue;
+        batch.update(doc.ref, {planOwnerId: null, updatedAt: Timestamp.now()});
+        operationCount++;
+        await commitBatchIfNeeded();
+      }
+
       // Delete user's own stories
       const userStoriesSnapshot = await db.collection("stories")
         .where("authorID", "==", userId)
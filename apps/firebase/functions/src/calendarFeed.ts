@@ -0,0 +1,357 @@
+import {HttpsError, onCall, onRequest} from "firebase-functions/v2/https";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {logger} from "firebase-functions/v2";
+import * as crypto from "crypto";
+import {DEFAULT_REGION, FUNCTION_TIMEOUT, DEFAULT_MEMORY} from "./common";
+import {withErrorHandling} from "./utils/errors";
+import {withAuth, RateLimitType, checkRateLimitByIP} from "./middleware";
+import {SECURITY_CONFIG} from "./config/security-config";
+import {buildICalendarFeed, ICalFeedEvent, ICalRsvpStatus} from "./utils/icalendar";
+import {addDaysToDate, expandEventOccurrences} from "./utils/recurrence";
+import type {EventData, EventInvitation} from "./events-service";
+
+// MARK: - Constants
+
+const CALENDAR_FEED_TOKENS_COLLECTION = "calendarFeedTokens";
+const CALENDAR_FEED_TOKEN_REGEX = /^[a-f0-9]{64}$/;
+// Include recent past events so calendars keep a short history
+const CALENDAR_FEED_LOOKBACK_DAYS = 90;
+const CALENDAR_FEED_MAX_EVENTS_PER_QUERY = 500;
+// Recurring events are expanded up to a year ahead
+const CALENDAR_FEED_RECURRENCE_DAYS = 365;
+const EVENT_URL_BASE = "https://mydynastyapp.com/events";
+
+// MARK: - Helper Functions
+
+const hashFeedToken = (token: string): string =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Occurrences of a recurring event need their own ID so each gets a stable UID
+const getFeedEventId = (event: EventData): string =>
+  event.occurrenceDate ? `${event.id}-${event.occurrenceDate.replace(/-/g, "")}` : event.id!;
+
+/**
+ * Builds the https and webcal URLs for a feed token
+ */
+function getCalendarFeedUrls(token: string): {feedUrl: string; webcalUrl: string} {
+  const functionsUrl =
+    process.env.FUNCTIONS_URL || `https://${DEFAULT_REGION}-${process.env.GCLOUD_PROJECT}.cloudfunctions.net`;
+  const feedUrl = `${functionsUrl}/calendarFeed?token=${token}`;
+  return {feedUrl, webcalUrl: feedUrl.replace(/^https?:\/\//, "webcal://")};
+}
+
+/**
+ * Deletes every feed token issued to a user
+ */
+async function revokeFeedTokensForUser(
+  db: FirebaseFirestore.Firestore,
+  userId: string
+): Promise<number> {
+  const snapshot = await db
+    .collection(CALENDAR_FEED_TOKENS_COLLECTION)
+    .where("userId", "==", userId)
+    .get();
+
+  if (snapshot.empty) return 0;
+
+  const batch = db.batch();
+  snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+  return snapshot.size;
+}
+
+/**
+ * Loads the events a user hosts or is invited to (explicitly or through their family tree),
+ * with recurring events expanded into their occurrences
+ */
+async function getCalendarEventsForUser(
+  db: FirebaseFirestore.Firestore,
+  userId: string,
+  familyTreeId?: string
+): Promise<EventData[]> {
+  const since = new Date(Date.now() - CALENDAR_FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .split("T")[0];
+
+  const queries = [
+    db.collection("events").where("hostId", "==", userId),
+    db.collection("events").where("invitedMemberIds", "array-contains", userId),
+  ];
+  if (familyTreeId) {
+    queries.push(
+      db
+        .collection("events")
+        .where("privacy", "==", "family_tree")
+        .where("familyTreeId", "==", familyTreeId)
+    );
+  }
+
+  const snapshots = await Promise.all([
+    ...queries.map((query) =>
+      query.where("eventDate", ">=", since).orderBy("eventDate", "asc").limit(CALENDAR_FEED_MAX_EVENTS_PER_QUERY).get()
+    ),
+    ...queries.map((query) =>
+      query
+        .where("isRecurring", "==", true)
+        .where("recurrenceEndDate", ">=", since)
+        .limit(CALENDAR_FEED_MAX_EVENTS_PER_QUERY)
+        .get()
+    ),
+  ]);
+
+  const eventsById = new Map<string, EventData>();
+  snapshots.forEach((snapshot) => {
+    snapshot.docs.forEach((doc) => {
+      if (!eventsById.has(doc.id)) {
+        eventsById.set(doc.id, {id: doc.id, ...doc.data()} as EventData);
+      }
+    });
+  });
+
+  const until = addDaysToDate(since, CALENDAR_FEED_LOOKBACK_DAYS + CALENDAR_FEED_RECURRENCE_DAYS);
+  return Array.from(eventsById.values())
+    .flatMap((event) => (event.recurrence ? expandEventOccurrences(event, since, until) : [event]))
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate));
+}
+
+/**
+ * Fetches the user's RSVP for each event (or occurrence) from the rsvps subcollections,
+ * keyed by feed event ID
+ */
+async function getRsvpStatuses(
+  db: FirebaseFirestore.Firestore,
+  userId: string,
+  events: EventData[]
+): Promise<Record<string, ICalRsvpStatus>> {
+  const eventIds = [...new Set(events.map((event) => event.id!))];
+  const rsvpsByEventId = new Map<string, EventInvitation>();
+
+  for (let i = 0; i < eventIds.length; i += 100) {
+    const refs = eventIds
+      .slice(i, i + 100)
+      .map((eventId) => db.collection("events").doc(eventId).collection("rsvps").doc(userId));
+    const snapshots = await db.getAll(...refs);
+    snapshots.forEach((snap) => {
+      if (snap.exists) {
+        rsvpsByEventId.set(snap.ref.parent.parent!.id, snap.data() as EventInvitation);
+      }
+    });
+  }
+
+  const statuses: Record<string, ICalRsvpStatus> = {};
+  events.forEach((event) => {
+    const rsvp = rsvpsByEventId.get(event.id!);
+    const status = (event.occurrenceDate && rsvp?.occurrenceStatuses?.[event.occurrenceDate]?.status) || rsvp?.status;
+    if (status) {
+      statuses[getFeedEventId(event)] = status;
+    }
+  });
+
+  return statuses;
+}
+
+// MARK: - Cloud Functions
+
+/**
+ * Serves a user's events as an iCalendar feed for Google/Apple Calendar subscriptions.
+ * Authenticated by the secret token in the feed URL rather than Firebase Auth, since
+ * calendar clients cannot sign in.
+ */
+export const calendarFeed = onRequest(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withErrorHandling(async (request, response) => {
+    // Apply rate limiting for DoS protection. The IP is read from a callable's raw
+    // request, which for an HTTP function is the request itself.
+    try {
+      await checkRateLimitByIP({rawRequest: request}, {
+        type: RateLimitType.API,
+        maxRequests: 60,
+        windowSeconds: 300, // 60 requests per 5 minutes per IP
+      });
+    } catch (error) {
+      if (error instanceof HttpsError && error.code === "resource-exhausted") {
+        response.status(429).send("Too many requests");
+        return;
+      }
+      throw error;
+    }
+
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      response.status(405).send("Method not allowed");
+      return;
+    }
+
+    const token = typeof request.query.token === "string" ? request.query.token : "";
+    if (!CALENDAR_FEED_TOKEN_REGEX.test(token)) {
+      response.status(404).send("Calendar feed not found");
+      return;
+    }
+
+    const db = getFirestore();
+    const tokenRef = db.collection(CALENDAR_FEED_TOKENS_COLLECTION).doc(hashFeedToken(token));
+    const tokenDoc = await tokenRef.get();
+    if (!tokenDoc.exists) {
+      response.status(404).send("Calendar feed not found");
+      return;
+    }
+
+    const {userId} = tokenDoc.data() as {userId: string};
+    const userDoc = await db.collection("users").doc(userId).get();
+    if (!userDoc.exists) {
+      await tokenRef.delete();
+      response.status(404).send("Calendar feed not found");
+      return;
+    }
+    const userData = userDoc.data()!;
+
+    const events = await getCalendarEventsForUser(db, userId, userData.familyTreeId);
+    const rsvpStatuses = await getRsvpStatuses(db, userId, events);
+
+    // Hosts are attending their own events
+    events
+      .filter((event) => event.hostId === userId && !rsvpStatuses[getFeedEventId(event)])
+      .forEach((event) => {
+        rsvpStatuses[getFeedEventId(event)] = "accepted";
+      });
+
+    const feedEvents: ICalFeedEvent[] = events.map((event) => ({
+      id: getFeedEventId(event),
+      title: event.title,
+      description: event.description,
+      eventDate: event.eventDate,
+      endDate: event.endDate,
+      startTime: event.startTime,
+      endTime: event.endTime,
+      timezone: event.timezone,
+      daySpecificTimes: event.daySpecificTimes,
+      location: event.location,
+      isVirtual: event.isVirtual,
+      virtualLink: event.virtualLink,
+      status: event.status,
+      url: `${EVENT_URL_BASE}/${event.id}`,
+      updatedAt: event.updatedAt?.toDate(),
+    }));
+
+    const displayName =
+      userData.displayName || `${userData.firstName || ""} ${userData.lastName || ""}`.trim();
+    const content = buildICalendarFeed(feedEvents, {
+      name: "Dynasty Family Events",
+      attendee: userData.email ? {email: userData.email, name: displayName || undefined} : undefined,
+      rsvpStatuses,
+    });
+
+    await tokenRef.update({lastAccessedAt: Timestamp.now()});
+
+    response.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    response.setHeader("Content-Disposition", "inline; filename=\"dynasty-events.ics\"");
+    response.setHeader("Cache-Control", "private, max-age=900");
+    response.status(200).send(content);
+  }, "calendarFeed")
+);
+
+/**
+ * Issues a new calendar feed token for the current user, revoking any previous token.
+ * The token is only returned once; the server keeps its SHA-256 hash.
+ */
+export const createCalendarFeedToken = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = request.auth!.uid;
+      const db = getFirestore();
+
+      const revokedCount = await revokeFeedTokensForUser(db, uid);
+
+      const token = crypto.randomBytes(32).toString("hex");
+      const createdAt = Timestamp.now();
+      await db.collection(CALENDAR_FEED_TOKENS_COLLECTION).doc(hashFeedToken(token)).set({
+        userId: uid,
+        createdAt,
+        lastAccessedAt: null,
+      });
+
+      logger.info(`Issued calendar feed token for user ${uid}`, {revokedCount});
+
+      return {
+        ...getCalendarFeedUrls(token),
+        createdAt: createdAt.toDate().toISOString(),
+      };
+    },
+    "createCalendarFeedToken",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * Revokes the current user's calendar feed so subscribed calendars stop updating
+ */
+export const revokeCalendarFeedToken = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = request.auth!.uid;
+      const revokedCount = await revokeFeedTokensForUser(getFirestore(), uid);
+
+      logger.info(`Revoked calendar feed tokens for user ${uid}`, {revokedCount});
+
+      return {success: true, revokedCount};
+    },
+    "revokeCalendarFeedToken",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * Returns whether the current user has an active calendar feed
+ */
+export const getCalendarFeedStatus = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = request.auth!.uid;
+      const snapshot = await getFirestore()
+        .collection(CALENDAR_FEED_TOKENS_COLLECTION)
+        .where("userId", "==", uid)
+        .limit(1)
+        .get();
+
+      if (snapshot.empty) {
+        return {active: false};
+      }
+
+      const data = snapshot.docs[0].data();
+      return {
+        active: true,
+        createdAt: data.createdAt?.toDate().toISOString(),
+        lastAccessedAt: data.lastAccessedAt?.toDate().toISOString() || null,
+      };
+    },
+    "getCalendarFeedStatus",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.api,
+    }
+  )
+);
@@ -4,6 +4,7 @@ import {withAuth, withResourceAccess, PermissionLevel, RateLimitType} from "./mi
 import {createError, ErrorCode, handleError} from "./utils/errors";
 import {validateRequest} from "./utils/request-validator";
 import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
+import {getDisappearingTimerMessage, isDisappearingMessageDuration} from "./utils/disappearingMessages";
 
 // Initialize if not already done
 if (!admin.apps.length) {
@@ -189,6 +190,17 @@ export const updateChatSettings = onCall(withResourceAccess(async (request, reso
       }
     }
 
+    // Disappearing message timer in seconds, 0 to turn it off
+    let timerChanged = false;
+    if ("disappearingMessagesSeconds" in settings) {
+      const seconds = settings.disappearingMessagesSeconds;
+      if (!isDisappearingMessageDuration(seconds)) {
+        throw createError(ErrorCode.INVALID_ARGUMENT, "Unsupported disappearing message timer");
+      }
+      timerChanged = seconds !== (chat.disappearingMessagesSeconds || 0);
+      updateData.disappearingMessagesSeconds = seconds;
+    }
+
     if (Object.keys(updateData).length === 0) {
       throw createError(ErrorCode.INVALID_ARGUMENT, "No valid settings to update");
     }
@@ -200,6 +212,16 @@ export const updateChatSettings = onCall(withResourceAccess(async (request, reso
       updatedBy: userId,
     });
 
+    if (timerChanged) {
+      const userDoc = await db.collection("users").doc(userId).get();
+      const userName = userDoc.data()?.displayName || "Someone";
+      await sendSystemMessage(
+        chatId,
+        getDisappearingTimerMessage(updateData.disappearingMessagesSeconds, userName),
+        {disappearingMessagesSeconds: updateData.disappearingMessagesSeconds}
+      );
+    }
+
     return {success: true};
   } catch (error) {
     return handleError(error, "updateChatSettings");
@@ -637,9 +659,10 @@ export const getChatDetails = onCall(withResourceAccess(async (request, resource
 }));
 
 // Helper function to send system messages
-async function sendSystemMessage(chatId: string, text: string) {
+async function sendSystemMessage(chatId: string, text: string, extra: Record<string, unknown> = {}) {
   try {
     await db.collection("chats").doc(chatId).collection("messages").add({
+      ...extra,
       type: "system",
       text,
       timestamp: admin.firestore.FieldValue.serverTimestamp(),
@@ -1,5 +1,75 @@
 import {ValidationSchema} from "../utils/request-validator";
-import {FILE_SIZE_LIMITS} from "../common";
+import {FAMILY_DATE_LEAD_DAY_OPTIONS} from "../utils/familyOccasions";
+import {isValidContentHash} from "../utils/vaultBlobs";
+import {MAX_SHARE_LINK_ACCESS_COUNT} from "../utils/shareLinks";
+import {MAX_VAULT_TAGS, SmartCollectionRules, validateSmartCollectionRules} from "../utils/vaultCollections";
+
+const validateContentHash = (value: unknown) => {
+  if (!isValidContentHash(value)) {
+    throw new Error("Content hash must be a lowercase hex SHA-256 digest");
+  }
+};
+
+const validatePartNumbers = (value: unknown[]) => {
+  if (!value.every((partNumber) => Number.isInteger(partNumber) && (partNumber as number) >= 1)) {
+    throw new Error("Part numbers must be positive integers");
+  }
+};
+
+const validateUploadedParts = (value: unknown[]) => {
+  const valid = value.every((part) => {
+    if (!part || typeof part !== "object") return false;
+    const {partNumber, etag} = part as {partNumber?: unknown; etag?: unknown};
+    return Number.isInteger(partNumber) && (partNumber as number) >= 1 &&
+      typeof etag === "string" && etag.length > 0 && etag.length <= 200;
+  });
+  if (!valid) {
+    throw new Error("Each part needs a positive partNumber and an etag");
+  }
+};
+
+const validateMaxAccessCount = (value: unknown) => {
+  if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > MAX_SHARE_LINK_ACCESS_COUNT) {
+    throw new Error(`Access limit must be a whole number between 1 and ${MAX_SHARE_LINK_ACCESS_COUNT}`);
+  }
+};
+
+const validateTagList = (value: unknown[]) => {
+  if (!value.every((tag) => typeof tag === "string" && tag.length <= 100)) {
+    throw new Error("Tags must be strings of at most 100 characters");
+  }
+};
+
+const validateIdList = (value: unknown[]) => {
+  if (!value.every((id) => typeof id === "string" && id.length > 0 && id.length <= 128)) {
+    throw new Error("Must be a list of ids");
+  }
+};
+
+const validateCollectionRules = (value: Record<string, unknown>) => {
+  const listFields = ["fileTypes", "peopleTagged", "uploadedBy", "tags"];
+  const numberFields = ["createdAfter", "createdBefore", "minSize", "maxSize"];
+  const unknownField = Object.keys(value).find((key) => !listFields.includes(key) && !numberFields.includes(key));
+  if (unknownField) {
+    throw new Error(`Unknown smart collection rule: ${unknownField}`);
+  }
+  listFields.forEach((field) => {
+    const list = value[field];
+    if (list !== undefined && (!Array.isArray(list) || !list.every((entry) => typeof entry === "string"))) {
+      throw new Error(`${field} must be a list of strings`);
+    }
+  });
+  numberFields.forEach((field) => {
+    const number = value[field];
+    if (number !== undefined && (typeof number !== "number" || !Number.isFinite(number))) {
+      throw new Error(`${field} must be a number`);
+    }
+  });
+  const problem = validateSmartCollectionRules(value as SmartCollectionRules);
+  if (problem) {
+    throw new Error(problem);
+  }
+};
 
 export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
   // Migration schemas
@@ -50,6 +120,7 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
       {field: "capacity", type: "number"},
       {field: "shareEventLink", type: "boolean"},
       {field: "coverPhotoStoragePaths", type: "array", maxSize: 5},
+      {field: "recurrence", type: "object"},
     ],
     xssCheck: true,
   },
@@ -79,6 +150,11 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
       {field: "capacity", type: "number"},
       {field: "shareEventLink", type: "boolean"},
       {field: "coverPhotoStoragePaths", type: "array", maxSize: 5},
+      {field: "status", type: "enum", enumValues: ["active", "cancelled"]},
+      {field: "recurrence", type: "object"},
+      {field: "isRecurring", type: "boolean"},
+      {field: "editScope", type: "enum", enumValues: ["this", "following", "all"]},
+      {field: "occurrenceDate", type: "string"},
     ],
     xssCheck: true,
   },
@@ -98,6 +174,44 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
     xssCheck: true,
   },
 
+  getStoryRevisions: {
+    rules: [
+      {field: "storyId", type: "id", required: true},
+      {field: "limit", type: "number"},
+      {field: "startAfterRevision", type: "number"},
+    ],
+  },
+
+  getStoryRevision: {
+    rules: [
+      {field: "storyId", type: "id", required: true},
+      {field: "revisionId", type: "id", required: true},
+    ],
+  },
+
+  restoreStoryRevision: {
+    rules: [
+      {field: "storyId", type: "id", required: true},
+      {field: "revisionId", type: "id", required: true},
+    ],
+  },
+
+  requestHistoryBook: {
+    rules: [
+      {field: "title", type: "string", required: true, maxLength: 120},
+      {field: "subtitle", type: "string", maxLength: 200},
+      {field: "storyIds", type: "array", required: true, maxSize: 200},
+      {field: "includeFamilyTree", type: "boolean"},
+      {field: "includeTimeline", type: "boolean"},
+    ],
+    xssCheck: true,
+  },
+
+  getHistoryBook: {
+    rules: [{field: "bookId", type: "id", required: true}],
+    xssCheck: false, // No user content
+  },
+
   createFamilyMember: {
     rules: [
       {field: "userData", type: "object", required: true},
@@ -140,11 +254,12 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
   sendMessage: {
     rules: [
       {field: "chatId", type: "id", required: true},
+      {field: "message", type: "object"},
       {field: "text", type: "string", maxLength: 10000},
       {
         field: "type",
         type: "enum",
-        enumValues: ["text", "image", "video", "audio", "voice", "file"],
+        enumValues: ["text", "image", "video", "audio", "voice", "file", "reaction", "edit", "delete"],
       },
       {field: "attachments", type: "array", maxSize: 10},
       {field: "mediaIds", type: "array", maxSize: 10},
@@ -160,6 +275,7 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
       {field: "name", type: "string", required: true, maxLength: 100},
       {field: "description", type: "string", maxLength: 500},
       {field: "parentFolderId", type: "id"},
+      {field: "familyTreeId", type: "id"},
     ],
     xssCheck: true,
   },
@@ -294,6 +410,15 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
 
   updateNotificationPreferences: {
     rules: [
+      {field: "enabled", type: "boolean"},
+      {field: "stories", type: "boolean"},
+      {field: "comments", type: "boolean"},
+      {field: "events", type: "boolean"},
+      {field: "messages", type: "boolean"},
+      {field: "family", type: "boolean"},
+      {field: "system", type: "boolean"},
+      {field: "familyDates", type: "boolean"},
+      {field: "familyDatesLeadDays", type: "enum", enumValues: FAMILY_DATE_LEAD_DAY_OPTIONS},
       {field: "email", type: "object"},
       {field: "push", type: "object"},
       {field: "inApp", type: "object"},
@@ -347,6 +472,17 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
     xssCheck: false,
   },
 
+  importGedcom: {
+    rules: [
+      {field: "familyTreeId", type: "id", required: true},
+      // GEDCOM text is parsed and sanitized per field, so skip whole-payload sanitization
+      {field: "gedcomContent", type: "string", required: true, maxLength: 8 * 1024 * 1024, sanitize: false},
+      {field: "dryRun", type: "boolean"},
+      {field: "resolutions", type: "object"},
+    ],
+    xssCheck: false,
+  },
+
   // Vault Management
 
   renameVaultItem: {
@@ -427,6 +563,105 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
     xssCheck: false,
   },
 
+  getVaultItemSharingInfo: {
+    rules: [
+      {field: "itemId", type: "id", required: true},
+    ],
+    xssCheck: false,
+  },
+
+  createFamilyVault: {
+    rules: [
+      {field: "familyTreeId", type: "id", required: true},
+      {field: "defaultRole", type: "enum", enumValues: ["viewer", "contributor", "manager"]},
+    ],
+    xssCheck: false,
+  },
+
+  getFamilyVault: {
+    rules: [
+      {field: "familyTreeId", type: "id", required: true},
+    ],
+    xssCheck: false,
+  },
+
+  updateFamilyVaultMemberRole: {
+    rules: [
+      {field: "familyTreeId", type: "id", required: true},
+      {field: "userId", type: "id", required: true},
+      {field: "role", type: "enum", required: true, enumValues: ["viewer", "contributor", "manager"]},
+    ],
+    xssCheck: false,
+  },
+
+  updateVaultItemTags: {
+    rules: [
+      {field: "itemId", type: "id", required: true},
+      {field: "tags", type: "array", maxSize: MAX_VAULT_TAGS, custom: validateTagList},
+      {field: "peopleTags", type: "array", maxSize: MAX_VAULT_TAGS, custom: validateIdList},
+    ],
+    xssCheck: true,
+  },
+
+  createVaultAlbum: {
+    rules: [
+      {field: "name", type: "string", required: true, maxLength: 100},
+      {field: "description", type: "string", maxLength: 500},
+      {field: "itemIds", type: "array", maxSize: 100, custom: validateIdList},
+    ],
+    xssCheck: true,
+  },
+
+  updateVaultAlbum: {
+    rules: [
+      {field: "albumId", type: "id", required: true},
+      {field: "name", type: "string", maxLength: 100},
+      {field: "description", type: "string", maxLength: 500},
+      {field: "coverItemId", type: "id"},
+    ],
+    xssCheck: true,
+  },
+
+  deleteVaultAlbum: {
+    rules: [
+      {field: "albumId", type: "id", required: true},
+    ],
+    xssCheck: false,
+  },
+
+  updateVaultAlbumItems: {
+    rules: [
+      {field: "albumId", type: "id", required: true},
+      {field: "addItemIds", type: "array", maxSize: 100, custom: validateIdList},
+      {field: "removeItemIds", type: "array", maxSize: 100, custom: validateIdList},
+    ],
+    xssCheck: false,
+  },
+
+  createVaultSmartCollection: {
+    rules: [
+      {field: "name", type: "string", required: true, maxLength: 100},
+      {field: "rules", type: "object", required: true, custom: validateCollectionRules},
+    ],
+    xssCheck: true,
+  },
+
+  updateVaultSmartCollection: {
+    rules: [
+      {field: "collectionId", type: "id", required: true},
+      {field: "name", type: "string", maxLength: 100},
+      {field: "rules", type: "object", custom: validateCollectionRules},
+    ],
+    xssCheck: true,
+  },
+
+  deleteVaultSmartCollection: {
+    rules: [
+      {field: "collectionId", type: "id", required: true},
+    ],
+    xssCheck: false,
+  },
+
   searchVaultItems: {
     rules: [
       {field: "query", type: "string", maxLength: 100},
@@ -437,6 +672,9 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
       {field: "sortOrder", type: "enum", enumValues: ["asc", "desc"]},
       {field: "limit", type: "number"},
       {field: "filters", type: "object"},
+      {field: "tags", type: "array", maxSize: 10, custom: validateTagList},
+      {field: "albumId", type: "id"},
+      {field: "collectionId", type: "id"},
     ],
     xssCheck: true,
   },
@@ -448,6 +686,8 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
       {field: "fileSize", type: "number", required: true},
       {field: "parentId", type: "id"},
       {field: "isEncrypted", type: "boolean"},
+      {field: "contentHash", type: "string", maxLength: 64, custom: validateContentHash},
+      {field: "familyTreeId", type: "id"},
     ],
     xssCheck: true,
   },
@@ -456,15 +696,23 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
     rules: [
       {field: "parentId", type: "id"},
       {field: "includeDeleted", type: "boolean"},
+      {field: "familyTreeId", type: "id"},
     ],
     xssCheck: false,
   },
 
-  getDeletedVaultItems: {
+  getSharedWithMeVaultItems: {
     rules: [],
     xssCheck: false,
   },
 
+  getDeletedVaultItems: {
+    rules: [
+      {field: "familyTreeId", type: "id"},
+    ],
+    xssCheck: false,
+  },
+
   getVaultStorageInfo: {
     rules: [],
     xssCheck: false,
@@ -474,6 +722,7 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
     rules: [
       {field: "itemId", type: "id", required: true},
       {field: "encryptionMetadata", type: "object", required: true},
+      {field: "thumbnail", type: "object"},
     ],
     xssCheck: false,
   },
@@ -489,10 +738,17 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
       {field: "expiresAt", type: "string"},
       {field: "allowDownload", type: "boolean"},
       {field: "password", type: "string", maxLength: 100},
+      {field: "maxAccessCount", type: "number", custom: validateMaxAccessCount},
+      {field: "oneTime", type: "boolean"},
     ],
     xssCheck: false,
   },
 
+  revokeVaultShareLink: {
+    rules: [{field: "shareId", type: "string", required: true, maxLength: 50}],
+    xssCheck: false,
+  },
+
   accessVaultShareLink: {
     rules: [
       {field: "shareId", type: "string", required: true, maxLength: 50},
@@ -772,6 +1028,43 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
     xssCheck: false, // No user content
   },
 
+  getRelationship: {
+    rules: [
+      {field: "fromUserId", type: "id"},
+      {field: "toUserId", type: "id", required: true},
+    ],
+    xssCheck: false, // No user content
+  },
+
+  exportGedcom: {
+    rules: [
+      {field: "familyTreeId", type: "id", required: true},
+      {field: "includeMedia", type: "boolean"},
+    ],
+    xssCheck: false, // No user content
+  },
+
+  findDuplicateMembers: {
+    rules: [{field: "familyTreeId", type: "id", required: true}],
+    xssCheck: false, // No user content
+  },
+
+  mergeFamilyMembers: {
+    rules: [
+      {field: "familyTreeId", type: "id", required: true},
+      {field: "sourceMemberId", type: "id", required: true},
+      {field: "targetMemberId", type: "id", required: true},
+      {field: "fieldChoices", type: "object"},
+      {field: "dryRun", type: "boolean"},
+    ],
+    xssCheck: false, // No user content
+  },
+
+  undoMemberMerge: {
+    rules: [{field: "mergeId", type: "id", required: true}],
+    xssCheck: false, // No user content
+  },
+
   // Encryption schemas
   generateUserKeys: {
     rules: [
@@ -856,10 +1149,39 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
       {field: "deviceName", type: "string", required: true, maxLength: 100},
       {field: "devicePublicKey", type: "string", required: true, maxLength: 5000},
       {field: "deviceInfo", type: "object"},
+      {field: "linkId", type: "id"},
     ],
     xssCheck: true,
   },
 
+  getUserDevices: {
+    rules: [{field: "userId", type: "id"}],
+    xssCheck: false,
+  },
+
+  createDeviceLink: {
+    rules: [
+      {field: "deviceName", type: "string", required: true, maxLength: 100},
+      {field: "platform", type: "enum", required: true, enumValues: ["ios", "android", "web"]},
+    ],
+    xssCheck: true,
+  },
+
+  approveDeviceLink: {
+    rules: [
+      {field: "linkId", type: "id", required: true},
+      {field: "deviceId", type: "string", required: true, maxLength: 200},
+      {field: "ephemeralPublicKey", type: "string", required: true, maxLength: 1000},
+      {field: "envelope", type: "string", required: true, maxLength: 20000},
+    ],
+    xssCheck: false,
+  },
+
+  cancelDeviceLink: {
+    rules: [{field: "linkId", type: "id", required: true}],
+    xssCheck: false,
+  },
+
   syncDeviceMessages: {
     rules: [
       {field: "deviceId", type: "string", required: true, maxLength: 200},
@@ -1128,7 +1450,7 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
         field: "operation",
         type: "enum",
         required: true,
-        enumValues: ["encrypt", "decrypt", "share", "unshare", "delete", "restore", "move"],
+        enumValues: ["encrypt", "decrypt", "share", "unshare", "delete", "restore", "move", "tag"],
       },
       {field: "itemIds", type: "array", required: true, maxSize: 100},
       {field: "metadata", type: "object"},
@@ -1138,18 +1460,89 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
 
   updateVaultFile: {
     rules: [
-      {field: "itemId", type: "string", required: true, maxLength: 100},
-      {field: "fileData", type: "string", required: true, maxLength: FILE_SIZE_LIMITS.MAX_FILE_SIZE}, // 1GB base64
+      {field: "itemId", type: "id", required: true},
       {field: "fileName", type: "string", required: true, maxLength: 255},
+      {field: "mimeType", type: "string", required: true, maxLength: 100, sanitize: false},
+      {field: "fileSize", type: "number", required: true},
+      {field: "checksum", type: "string", maxLength: 128},
+      {field: "contentHash", type: "string", maxLength: 64, custom: validateContentHash},
+      {field: "isEncrypted", type: "boolean"},
     ],
     xssCheck: true,
   },
 
+  getVaultItemVersions: {
+    rules: [
+      {field: "itemId", type: "id", required: true},
+    ],
+    xssCheck: false,
+  },
+
+  getVaultVersionDownloadUrl: {
+    rules: [
+      {field: "itemId", type: "id", required: true},
+      {field: "versionId", type: "id", required: true},
+    ],
+    xssCheck: false,
+  },
+
+  restoreVaultItemVersion: {
+    rules: [
+      {field: "itemId", type: "id", required: true},
+      {field: "versionId", type: "id", required: true},
+    ],
+    xssCheck: false,
+  },
+
+  createVaultUploadSession: {
+    rules: [
+      {field: "fileName", type: "string", required: true, maxLength: 255},
+      {field: "mimeType", type: "string", required: true, maxLength: 100, sanitize: false},
+      {field: "fileSize", type: "number", required: true},
+      {field: "parentId", type: "id"},
+      {field: "isEncrypted", type: "boolean"},
+      {field: "contentHash", type: "string", maxLength: 64, custom: validateContentHash},
+      {field: "familyTreeId", type: "id"},
+    ],
+    xssCheck: true,
+  },
+
+  getVaultUploadSession: {
+    rules: [
+      {field: "uploadId", type: "id", required: true},
+    ],
+    xssCheck: false,
+  },
+
+  getVaultUploadPartUrls: {
+    rules: [
+      {field: "uploadId", type: "id", required: true},
+      {field: "partNumbers", type: "array", required: true, maxSize: 100, custom: validatePartNumbers},
+    ],
+    xssCheck: false,
+  },
+
+  reportVaultUploadParts: {
+    rules: [
+      {field: "uploadId", type: "id", required: true},
+      {field: "parts", type: "array", required: true, maxSize: 100, custom: validateUploadedParts},
+    ],
+    xssCheck: false,
+  },
+
+  abortVaultUploadSession: {
+    rules: [
+      {field: "uploadId", type: "id", required: true},
+    ],
+    xssCheck: false,
+  },
+
   completeVaultFileUpload: {
     rules: [
       {field: "uploadId", type: "string", required: true, maxLength: 100},
       {field: "itemId", type: "string", required: true, maxLength: 100},
-      {field: "parts", type: "array", required: true, maxSize: 10000},
+      {field: "parts", type: "array", maxSize: 10000, custom: validateUploadedParts},
+      {field: "contentHash", type: "string", maxLength: 64, custom: validateContentHash},
     ],
     xssCheck: false,
   },
@@ -1266,6 +1659,11 @@ export const VALIDATION_SCHEMAS: Record<string, ValidationSchema> = {
     xssCheck: false,
   },
 
+  getUserSignalDevices: {
+    rules: [{field: "userId", type: "id", required: true}],
+    xssCheck: false,
+  },
+
   publishSignedPreKey: {
     rules: [
       {field: "signedPreKey", type: "object", required: true},
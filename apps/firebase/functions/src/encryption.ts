@@ -1,10 +1,13 @@
 import {onCall} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
 import * as admin from "firebase-admin";
 import {getFirestore, Timestamp, FieldValue} from "firebase-admin/firestore";
 import {createError, ErrorCode, handleError} from "./utils/errors";
 import {withAuth, withResourceAccess, PermissionLevel} from "./middleware/auth";
 import {validateRequest} from "./utils/request-validator";
 import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
+import {SECURITY_CONFIG} from "./config/security-config";
+import {getChatMediaStoragePath} from "./utils/disappearingMessages";
 import {
   randomBytes,
   createHash,
@@ -61,6 +64,30 @@ const pbkdf2Async = promisify(pbkdf2);
  *    - Returns: Multiple status flags for compatibility
  */
 
+// Device linking requests expire if the QR code isn't scanned in time
+const DEVICE_LINK_TTL_MS = 10 * 60 * 1000;
+const DEVICE_LINK_CLEANUP_BATCH_SIZE = 100;
+// Deletes per write batch when purging expired disappearing messages
+const EXPIRED_MESSAGE_BATCH_SIZE = 500;
+
+/**
+ * A device registered for multi-device support, at users/{userId}/devices/{deviceId}
+ */
+interface DeviceRecord {
+  deviceId: string;
+  deviceName: string;
+  devicePublicKey: string;
+  deviceInfo: Record<string, unknown>;
+  userId: string;
+  registeredAt: FieldValue;
+  lastActive: FieldValue;
+  isActive: boolean;
+  isTrusted: boolean;
+  // Devices provisioned from an existing one by a device link
+  linkedFrom?: string;
+  linkedAt?: FieldValue;
+}
+
 // Encryption configuration
 const PBKDF2_ITERATIONS = 210000; // Updated to OWASP 2024 recommendation for PBKDF2 with SHA256
 const SALT_LENGTH = 32; // 256 bits
@@ -951,18 +978,72 @@ export const updateMessageDelivery = onCall(
 );
 
 /**
- * Clean up old messages (scheduled function)
+ * Scheduled function to purge disappearing messages past their expiry. Their ciphertext
+ * and attachments are deleted outright rather than archived.
+ */
+export const purgeExpiredMessages = onSchedule({
+  schedule: "every 15 minutes",
+  timeoutSeconds: 540,
+}, async () => {
+  const bucket = admin.storage().bucket();
+  let totalExpired = 0;
+
+  while (true) {
+    const expiredMessagesQuery = await db
+      .collectionGroup("messages")
+      .where("expiresAt", "<=", Timestamp.now())
+      .limit(EXPIRED_MESSAGE_BATCH_SIZE)
+      .get();
+
+    if (expiredMessagesQuery.empty) {
+      break;
+    }
+
+    const expiredBatch = db.batch();
+    for (const doc of expiredMessagesQuery.docs) {
+      const chatId = doc.ref.parent.parent?.id;
+      const mediaPath = chatId ?
+        getChatMediaStoragePath(doc.data().media?.encryptedUrl, chatId, bucket.name) :
+        undefined;
+      if (mediaPath) {
+        await bucket.file(mediaPath).delete({ignoreNotFound: true}).catch((error) => {
+          console.error(`Failed to delete expired media file: ${mediaPath}`, error);
+        });
+      }
+
+      expiredBatch.delete(doc.ref);
+    }
+
+    await expiredBatch.commit();
+    totalExpired += expiredMessagesQuery.size;
+
+    if (expiredMessagesQuery.size < EXPIRED_MESSAGE_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  console.log(`Purged ${totalExpired} expired messages`);
+});
+
+/**
+ * Archive messages older than 30 days and delete empty chats. Admin only; disappearing
+ * messages are purged by purgeExpiredMessages.
  */
 export const cleanupOldMessages = onCall(
   {
     timeoutSeconds: 300, // Increased for batch operations
   },
-  async (request) => {
+  withAuth(async (request) => {
+    const userDoc = await db.collection("users").doc(request.auth!.uid).get();
+    if (!userDoc.data()?.isAdmin) {
+      throw createError(ErrorCode.PERMISSION_DENIED, "Admin access required");
+    }
+
     // Validate request (even if empty) for consistency
     validateRequest(
       request.data || {},
       VALIDATION_SCHEMAS.cleanupOldMessages,
-      "system"
+      request.auth!.uid
     );
 
     try {
@@ -989,6 +1070,11 @@ export const cleanupOldMessages = onCall(
           const messageData = doc.data();
           const chatId = doc.ref.parent.parent?.id;
 
+          // Disappearing messages are purged by purgeExpiredMessages, never archived
+          if (messageData.expiresAt) {
+            continue;
+          }
+
           if (chatId) {
             // Archive message to cold storage collection
             const archiveRef = db.collection("archivedMessages").doc(doc.id);
@@ -1105,7 +1191,7 @@ export const cleanupOldMessages = onCall(
       console.error("Failed to cleanup messages:", error);
       throw createError(ErrorCode.INTERNAL, "Message cleanup failed");
     }
-  }
+  }, "cleanupOldMessages")
 );
 
 /**
@@ -1175,9 +1261,9 @@ export const registerDevice = onCall(
       userId
     );
 
-    const {deviceId, deviceName, devicePublicKey, deviceInfo} = validatedData;
+    const {deviceId, deviceName, devicePublicKey, deviceInfo, linkId} = validatedData;
 
-    const deviceData = {
+    const deviceData: DeviceRecord = {
       deviceId,
       deviceName,
       devicePublicKey,
@@ -1189,6 +1275,31 @@ export const registerDevice = onCall(
       isTrusted: false, // Requires verification
     };
 
+    // A device provisioned from an existing one is trusted through it
+    if (linkId) {
+      const linkRef = db.doc(`users/${userId}/deviceLinks/${linkId}`);
+      const linkDoc = await linkRef.get();
+      const link = linkDoc.data();
+      if (!link || link.status !== "approved") {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "Device link has not been approved");
+      }
+      if (link.expiresAt.toMillis() < Date.now()) {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "Device link has expired");
+      }
+
+      deviceData.isTrusted = true;
+      deviceData.linkedFrom = link.approvedBy;
+      deviceData.linkedAt = FieldValue.serverTimestamp();
+
+      // The envelope carries the identity key, so it isn't kept once delivered
+      await linkRef.update({
+        status: "completed",
+        deviceId,
+        envelope: FieldValue.delete(),
+        completedAt: FieldValue.serverTimestamp(),
+      });
+    }
+
     await db.doc(`users/${userId}/devices/${deviceId}`).set(deviceData);
 
     // Store in global collection for querying
@@ -1619,28 +1730,65 @@ export const removeDevice = onCall(
 );
 
 /**
- * Get user's devices
+ * Whether two users are in a chat together
+ */
+async function sharesChat(userId: string, otherUserId: string): Promise<boolean> {
+  const chatsSnapshot = await db
+    .collection("chats")
+    .where("participants", "array-contains", userId)
+    .get();
+
+  return chatsSnapshot.docs.some((doc) => {
+    const participants = doc.data().participants as string[] | undefined;
+    return !!participants?.includes(otherUserId);
+  });
+}
+
+/**
+ * Get user's devices. The devices of someone the user shares a chat with are listed
+ * without their details, so contacts can tell when someone links a new device.
  */
 export const getUserDevices = onCall(
   {
     timeoutSeconds: 60,
   },
   withAuth(async (request) => {
-    const userId = request.auth!.uid;
+    const requesterId = request.auth!.uid;
 
     // Validate request (even if empty) for consistency
-    validateRequest(
+    const validatedData = validateRequest(
       request.data || {},
       VALIDATION_SCHEMAS.getUserDevices,
-      userId
+      requesterId
     );
 
+    const userId = validatedData.userId || requesterId;
+
+    if (userId !== requesterId && !(await sharesChat(requesterId, userId))) {
+      throw createError(ErrorCode.PERMISSION_DENIED, "You can only see the devices of people you chat with");
+    }
+
     const devicesSnapshot = await db
       .collection(`users/${userId}/devices`)
       .where("isActive", "==", true)
       .orderBy("lastActive", "desc")
       .get();
 
+    if (userId !== requesterId) {
+      const devices = devicesSnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          deviceId: data.deviceId,
+          platform: data.deviceInfo?.platform || null,
+          signalDeviceId: data.deviceInfo?.signalDeviceId ?? null,
+          linkedFrom: data.linkedFrom || null,
+          registeredAt: data.registeredAt,
+        };
+      });
+      return {devices};
+    }
+
     const devices = devicesSnapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
@@ -1650,6 +1798,193 @@ export const getUserDevices = onCall(
   }, "getUserDevices")
 );
 
+/**
+ * Start linking a new device. The new device shows the returned link ID in a QR code
+ * for one of the user's existing devices to scan.
+ */
+export const createDeviceLink = onCall(
+  {
+    timeoutSeconds: 60,
+  },
+  withAuth(async (request) => {
+    const userId = request.auth!.uid;
+
+    const validatedData = validateRequest(
+      request.data,
+      VALIDATION_SCHEMAS.createDeviceLink,
+      userId
+    );
+
+    const {deviceName, platform} = validatedData;
+
+    const linkId = `link_${Date.now()}_${randomBytes(8).toString("hex")}`;
+    const expiresAt = Timestamp.fromMillis(Date.now() + DEVICE_LINK_TTL_MS);
+
+    await db.doc(`users/${userId}/deviceLinks/${linkId}`).set({
+      linkId,
+      status: "pending",
+      deviceName,
+      platform,
+      createdAt: FieldValue.serverTimestamp(),
+      expiresAt,
+    });
+
+    return {linkId, expiresAt: expiresAt.toMillis()};
+  }, "createDeviceLink", {
+    authLevel: "verified",
+    rateLimitConfig: SECURITY_CONFIG.rateLimits.signal_maintenance,
+  })
+);
+
+/**
+ * Approve a device link from an existing device, handing over the provisioning
+ * envelope. The envelope is encrypted with a key only the two devices can derive.
+ */
+export const approveDeviceLink = onCall(
+  {
+    timeoutSeconds: 60,
+  },
+  withAuth(async (request) => {
+    const userId = request.auth!.uid;
+
+    const validatedData = validateRequest(
+      request.data,
+      VALIDATION_SCHEMAS.approveDeviceLink,
+      userId
+    );
+
+    const {linkId, deviceId, ephemeralPublicKey, envelope} = validatedData;
+
+    const linkRef = db.doc(`users/${userId}/deviceLinks/${linkId}`);
+    await db.runTransaction(async (transaction) => {
+      const linkDoc = await transaction.get(linkRef);
+      const link = linkDoc.data();
+
+      if (!link) {
+        throw createError(ErrorCode.NOT_FOUND, "Device link not found");
+      }
+      if (link.status === "cancelled") {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "Device link was cancelled");
+      }
+      if (link.status !== "pending") {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "Device link has already been used");
+      }
+      if (link.expiresAt.toMillis() < Date.now()) {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "Device link has expired");
+      }
+
+      transaction.update(linkRef, {
+        status: "approved",
+        approvedBy: deviceId,
+        ephemeralPublicKey,
+        envelope,
+        approvedAt: FieldValue.serverTimestamp(),
+      });
+    });
+
+    return {success: true};
+  }, "approveDeviceLink", {
+    authLevel: "verified",
+    rateLimitConfig: SECURITY_CONFIG.rateLimits.signal_maintenance,
+  })
+);
+
+/**
+ * Cancel linking a new device, from the device being linked. A message history archive
+ * already uploaded for the link is deleted.
+ */
+export const cancelDeviceLink = onCall(
+  {
+    timeoutSeconds: 60,
+  },
+  withAuth(async (request) => {
+    const userId = request.auth!.uid;
+
+    const validatedData = validateRequest(
+      request.data,
+      VALIDATION_SCHEMAS.cancelDeviceLink,
+      userId
+    );
+
+    const {linkId} = validatedData;
+
+    const linkRef = db.doc(`users/${userId}/deviceLinks/${linkId}`);
+    await db.runTransaction(async (transaction) => {
+      const linkDoc = await transaction.get(linkRef);
+      const link = linkDoc.data();
+
+      if (!link) {
+        throw createError(ErrorCode.NOT_FOUND, "Device link not found");
+      }
+      if (link.status === "completed") {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "Device link has already been completed");
+      }
+
+      // Kept until it expires, so an archive uploaded after this is deleted then
+      transaction.update(linkRef, {
+        status: "cancelled",
+        envelope: FieldValue.delete(),
+        cancelledAt: FieldValue.serverTimestamp(),
+      });
+    });
+
+    await deleteDeviceLinkArchive(userId, linkId);
+
+    return {success: true};
+  }, "cancelDeviceLink", {
+    authLevel: "verified",
+    rateLimitConfig: SECURITY_CONFIG.rateLimits.signal_maintenance,
+  })
+);
+
+/**
+ * Scheduled function to delete expired device links, along with any message history
+ * archive uploaded for them that the new device didn't take
+ */
+export const expireDeviceLinks = onSchedule("every 1 hours", async () => {
+  let totalExpired = 0;
+
+  while (true) {
+    const expiredLinksSnapshot = await db
+      .collectionGroup("deviceLinks")
+      .where("expiresAt", "<=", Timestamp.now())
+      .limit(DEVICE_LINK_CLEANUP_BATCH_SIZE)
+      .get();
+
+    let expired = 0;
+    for (const doc of expiredLinksSnapshot.docs) {
+      const userId = doc.ref.parent.parent?.id;
+      try {
+        if (userId) {
+          await deleteDeviceLinkArchive(userId, doc.id);
+        }
+        await doc.ref.delete();
+        expired++;
+      } catch (error) {
+        console.error(`Failed to delete expired device link: ${doc.ref.path}`, error);
+      }
+    }
+
+    totalExpired += expired;
+    // Stop on the last page, or when none of a page could be deleted
+    if (expiredLinksSnapshot.size < DEVICE_LINK_CLEANUP_BATCH_SIZE || expired === 0) {
+      break;
+    }
+  }
+
+  console.log(`Deleted ${totalExpired} expired device links`);
+});
+
+/**
+ * Delete the message history archive an existing device uploaded for a device link,
+ * at the path DeviceLinkingService uploads it to
+ */
+async function deleteDeviceLinkArchive(userId: string, linkId: string): Promise<void> {
+  await admin.storage().bucket()
+    .file(`encrypted-backups/${userId}/device-link-${linkId}`)
+    .delete({ignoreNotFound: true});
+}
+
 /**
  * Consume one-time pre-key
  */
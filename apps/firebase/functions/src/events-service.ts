@@ -16,6 +16,17 @@ import {validateRequest} from "./utils/request-validator";
 import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
 import {validateLocation as validateLocationCoords} from "./utils/validation-extended";
 import {generateEventSearchFields} from "./utils/searchHelpers";
+import {
+  EventOccurrenceOverride,
+  EventRecurrence,
+  RecurrenceEditScope,
+  addDaysToDate,
+  expandEventOccurrences,
+  getRecurrenceEndDate,
+  isOccurrenceDate,
+  normalizeRecurrence,
+  splitRecurrence,
+} from "./utils/recurrence";
 
 // Initialize Firebase Admin SDK if not already initialized
 if (admin.apps.length === 0) {
@@ -67,10 +78,25 @@ export interface EventData {
   // Tracking
   invitedMemberIds?: string[]; // Users explicitly invited
   familyTreeId?: string | null; // If privacy is 'family_tree'
+  status?: "active" | "cancelled" | null; // Cancelled events stay visible in calendar feeds
+  // Recurring series; eventDate is the first occurrence
+  recurrence?: EventRecurrence | null;
+  recurrenceOverrides?: Record<string, EventOccurrenceOverride> | null; // Key is the original occurrence date
+  isRecurring?: boolean;
+  recurrenceEndDate?: string | null; // YYYY-MM-DD of the last occurrence, for range queries
+  seriesId?: string | null; // Original series when split by a "this and following" edit
+  occurrenceDate?: string; // Set on expanded occurrences only, never stored
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
 
+export interface EventOccurrenceRsvp {
+  status: "pending" | "accepted" | "declined" | "maybe";
+  plusOne?: boolean;
+  plusOneName?: string | null;
+  respondedAt?: Timestamp;
+}
+
 export interface EventInvitation {
   id?: string; // document ID
   eventId: string;
@@ -79,6 +105,8 @@ export interface EventInvitation {
   plusOne?: boolean;
   plusOneName?: string | null;
   respondedAt?: Timestamp;
+  // Responses to individual occurrences of a recurring event, keyed by occurrence date
+  occurrenceStatuses?: Record<string, EventOccurrenceRsvp>;
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
@@ -154,6 +182,49 @@ function validateTimezone(timezone: string): boolean {
   }
 }
 
+/**
+ * Ensures a date is an occurrence of a recurring event.
+ */
+function validateOccurrenceDate(eventData: EventData, occurrenceDate: string): void {
+  if (!eventData.recurrence || !isOccurrenceDate(eventData.eventDate, eventData.recurrence, occurrenceDate)) {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Invalid occurrence date for this event.");
+  }
+}
+
+/**
+ * Returns a user's response for an event, preferring their response to the given
+ * occurrence of a recurring event over the series-wide one.
+ */
+function getRsvpForOccurrence(rsvp: EventInvitation, occurrenceDate?: string): EventOccurrenceRsvp {
+  return (occurrenceDate && rsvp.occurrenceStatuses?.[occurrenceDate]) || rsvp;
+}
+
+/**
+ * Builds the RSVP document write for a response, to be saved with merge. Responses
+ * to a single occurrence are nested under occurrenceStatuses so the series-wide
+ * status is left untouched.
+ */
+function buildRsvpWrite(
+  eventId: string,
+  userId: string,
+  response: Omit<EventOccurrenceRsvp, "respondedAt">,
+  occurrenceDate: string | undefined,
+  isNew: boolean
+): Partial<EventInvitation> {
+  const now = Timestamp.now();
+  const rsvpData: Partial<EventInvitation> = occurrenceDate ?
+    {eventId, userId, occurrenceStatuses: {[occurrenceDate]: {...response, respondedAt: now}}, updatedAt: now} :
+    {eventId, userId, ...response, respondedAt: now, updatedAt: now};
+
+  if (isNew) {
+    rsvpData.createdAt = now;
+    if (occurrenceDate) {
+      rsvpData.status = "pending";
+    }
+  }
+  return rsvpData;
+}
+
 /**
  * Optimized function to enrich events with user data using batch fetching.
  */
@@ -165,7 +236,8 @@ async function enrichEventListOptimized(
 
   // Collect all unique host IDs
   const hostIds = [...new Set(events.map((event) => event.hostId))];
-  const eventIds = events.map((event) => event.id).filter(Boolean) as string[];
+  // Occurrences of a recurring event share its ID
+  const eventIds = [...new Set(events.map((event) => event.id).filter(Boolean))] as string[];
 
   // Batch fetch host data
   const hostDataMap = new Map<string, any>();
@@ -261,8 +333,9 @@ async function enrichEventListOptimized(
     // Add RSVP status from batch data
     const rsvpData = rsvpDataMap.get(event.id);
     if (rsvpData) {
-      enrichedEvent.userRsvpStatus = rsvpData.status;
-      enrichedEvent.userHasPlusOne = rsvpData.plusOne;
+      const response = getRsvpForOccurrence(rsvpData, event.occurrenceDate);
+      enrichedEvent.userRsvpStatus = response.status;
+      enrichedEvent.userHasPlusOne = response.plusOne;
     }
 
     enrichedEvents.push(enrichedEvent);
@@ -498,6 +571,131 @@ async function handleEventCommentCascadeDeletion(
   }
 }
 
+// Fields that can be changed on a single occurrence of a recurring event
+const OCCURRENCE_OVERRIDE_FIELDS: (keyof EventOccurrenceOverride)[] = [
+  "eventDate",
+  "endDate",
+  "startTime",
+  "endTime",
+  "title",
+  "description",
+  "location",
+  "isVirtual",
+  "virtualLink",
+  "status",
+];
+
+/**
+ * Saves changes to a single occurrence of a recurring event as an override.
+ */
+async function updateEventOccurrence(
+  eventId: string,
+  eventData: EventData,
+  occurrenceDate: string,
+  updates: Partial<EventData>
+): Promise<void> {
+  const unsupportedFields = Object.keys(updates).filter(
+    (field) => !OCCURRENCE_OVERRIDE_FIELDS.includes(field as keyof EventOccurrenceOverride)
+  );
+  if (unsupportedFields.length > 0) {
+    throw createError(
+      ErrorCode.INVALID_ARGUMENT,
+      `These fields can only be changed for the whole series: ${unsupportedFields.join(", ")}`
+    );
+  }
+
+  const override: EventOccurrenceOverride = {
+    ...eventData.recurrenceOverrides?.[occurrenceDate],
+    ...(updates as EventOccurrenceOverride),
+  };
+  if (override.endDate && override.endDate < (override.eventDate || occurrenceDate)) {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "End date cannot be before start date.");
+  }
+
+  await db.collection("events").doc(eventId).update({
+    [`recurrenceOverrides.${occurrenceDate}`]: override,
+    updatedAt: Timestamp.now(),
+  });
+}
+
+/**
+ * Applies a "this and following" edit: the series ends before the occurrence and
+ * continues as a new series with the changes. RSVPs are copied to the new series.
+ * Returns the ID of the new series.
+ */
+async function splitEventSeries(
+  eventId: string,
+  eventData: EventData,
+  occurrenceDate: string,
+  updates: Partial<EventData>
+): Promise<string> {
+  const {before, after} = splitRecurrence(eventData.eventDate, eventData.recurrence!, occurrenceDate);
+  const overrides = Object.entries(eventData.recurrenceOverrides || {});
+
+  // Start the new series from the occurrence so multi-day ranges and day times carry over
+  const [firstOccurrence] = expandEventOccurrences(
+    {...eventData, recurrenceOverrides: null},
+    occurrenceDate,
+    occurrenceDate,
+    1
+  );
+  const newEventDate = updates.eventDate || occurrenceDate;
+  const recurrence = normalizeRecurrence(updates.recurrence || after, newEventDate);
+
+  const eventRef = db.collection("events").doc(eventId);
+  const newEventRef = db.collection("events").doc();
+  const newEventData: EventData = {
+    ...firstOccurrence,
+    ...updates,
+    id: newEventRef.id,
+    eventDate: newEventDate,
+    recurrence,
+    recurrenceOverrides: Object.fromEntries(overrides.filter(([date]) => date >= occurrenceDate)),
+    isRecurring: true,
+    recurrenceEndDate: getRecurrenceEndDate(newEventDate, recurrence),
+    seriesId: eventData.seriesId || eventId,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+  delete newEventData.occurrenceDate;
+  delete newEventData.coverPhotoUrls;
+
+  const searchFields = generateEventSearchFields(
+    newEventData.title,
+    newEventData.description,
+    newEventData.location?.address
+  );
+
+  const batch = db.batch();
+  batch.set(newEventRef, {...newEventData, ...searchFields});
+  batch.update(eventRef, {
+    recurrence: before,
+    recurrenceOverrides: Object.fromEntries(overrides.filter(([date]) => date < occurrenceDate)),
+    recurrenceEndDate: getRecurrenceEndDate(eventData.eventDate, before),
+    updatedAt: Timestamp.now(),
+  });
+  await batch.commit();
+
+  const rsvpsSnapshot = await eventRef.collection("rsvps").get();
+  for (let i = 0; i < rsvpsSnapshot.docs.length; i += 490) {
+    const rsvpBatch = db.batch();
+    rsvpsSnapshot.docs.slice(i, i + 490).forEach((doc) => {
+      const rsvp = doc.data() as EventInvitation;
+      rsvpBatch.set(newEventRef.collection("rsvps").doc(doc.id), {
+        ...rsvp,
+        eventId: newEventRef.id,
+        occurrenceStatuses: Object.fromEntries(
+          Object.entries(rsvp.occurrenceStatuses || {}).filter(([date]) => date >= occurrenceDate)
+        ),
+      });
+    });
+    await rsvpBatch.commit();
+  }
+
+  logger.info(`Split recurring event ${eventId} at ${occurrenceDate} into ${newEventRef.id}.`);
+  return newEventRef.id;
+}
+
 // MARK: - Event CRUD Functions
 
 export const createEvent = onCall(
@@ -599,6 +797,11 @@ export const createEvent = onCall(
         }
       }
 
+      // Normalize the repeat rule of recurring events
+      if (eventData.recurrence) {
+        eventData.recurrence = normalizeRecurrence(eventData.recurrence, eventData.eventDate);
+      }
+
       const newEventRef = db.collection("events").doc();
       const newEventId = newEventRef.id;
 
@@ -608,6 +811,10 @@ export const createEvent = onCall(
         hostId: uid,
         // Ensure coverPhotoUrls is not directly set, it's generated on fetch
         coverPhotoStoragePaths: eventData.coverPhotoStoragePaths || [],
+        isRecurring: !!eventData.recurrence,
+        recurrenceEndDate: eventData.recurrence ?
+          getRecurrenceEndDate(eventData.eventDate, eventData.recurrence) :
+          null,
         createdAt: Timestamp.now(),
         updatedAt: Timestamp.now(),
       };
@@ -718,12 +925,18 @@ export const getEventDetails = onCall(
     if (!uid) {
       throw createError(ErrorCode.UNAUTHENTICATED, "Authentication required.");
     }
-    const {eventId} = request.data;
+    const {eventId, occurrenceDate} = request.data as {eventId: string; occurrenceDate?: string};
     if (!eventId || typeof eventId !== "string") {
       throw createError(ErrorCode.MISSING_PARAMETERS, "Event ID is required.");
     }
 
-    const eventData = await ensureEventAccess(eventId, uid, "view"); // Basic view access check
+    let eventData = await ensureEventAccess(eventId, uid, "view"); // Basic view access check
+
+    // Resolve a single occurrence of a recurring event
+    if (occurrenceDate) {
+      validateOccurrenceDate(eventData, occurrenceDate);
+      [eventData] = expandEventOccurrences(eventData, occurrenceDate, occurrenceDate, 1);
+    }
 
     // Enrich with dynamic coverPhotoUrls
     if (eventData.coverPhotoStoragePaths && eventData.coverPhotoStoragePaths.length > 0) {
@@ -753,7 +966,7 @@ export const getEventDetails = onCall(
     try {
       const rsvpDoc = await db.collection("events").doc(eventId).collection("rsvps").doc(uid).get();
       if (rsvpDoc.exists) {
-        const rsvpData = rsvpDoc.data() as EventInvitation;
+        const rsvpData = getRsvpForOccurrence(rsvpDoc.data() as EventInvitation, occurrenceDate);
         userRsvpStatus = rsvpData.status;
         userHasPlusOne = rsvpData.plusOne;
       }
@@ -785,7 +998,11 @@ export const updateEvent = onCall(
       // Validate and sanitize input using centralized validator
       const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.updateEvent, uid);
 
-      const {eventId, ...updates} = validatedData as Partial<EventData> & { eventId: string };
+      const {eventId, editScope, occurrenceDate, ...fields} = validatedData as Partial<EventData> & {
+        eventId: string;
+        editScope?: RecurrenceEditScope;
+      };
+      const updates: Partial<EventData> = fields;
 
       await ensureEventAccess(eventId, uid, "edit"); // Ensures user is host
 
@@ -823,39 +1040,84 @@ export const updateEvent = onCall(
       const currentEventDoc = await eventRef.get();
       const currentEventData = currentEventDoc.data() as EventData;
 
-      const updatePayload: Partial<EventData> = {
-        ...updates,
-        updatedAt: Timestamp.now(),
-      };
-      // Explicitly remove coverPhotoUrls if client sends it, as it should be generated on fetch
-      delete updatePayload.coverPhotoUrls;
-      // Client should send coverPhotoStoragePaths if they change
-
-      // Regenerate searchable fields if title, description, or location are updated
-      if (updates.title || updates.description || updates.location?.address) {
-        const finalTitle = updates.title || currentEventData.title;
-        const finalDescription =
-          updates.description !== undefined ? updates.description : currentEventData.description;
-        const finalLocationAddress =
-          updates.location?.address || currentEventData.location?.address;
-
-        const searchFields = generateEventSearchFields(
-          finalTitle,
-          finalDescription,
-          finalLocationAddress
-        );
-        Object.assign(updatePayload, searchFields);
-      }
+      // Editing "this" or "this and following" occurrences of a recurring event.
+      // Editing from the first occurrence onward is the same as editing the whole series.
+      const isPartialSeriesEdit =
+        !!currentEventData.recurrence &&
+        (editScope === "this" || (editScope === "following" && occurrenceDate !== currentEventData.eventDate));
+      let targetEventId = eventId;
+      let previousEventData = currentEventData;
+
+      if (isPartialSeriesEdit) {
+        if (!occurrenceDate) {
+          throw createError(
+            ErrorCode.MISSING_PARAMETERS,
+            "Occurrence date is required to edit part of a recurring event."
+          );
+        }
+        validateOccurrenceDate(currentEventData, occurrenceDate);
+        [previousEventData] = expandEventOccurrences(currentEventData, occurrenceDate, occurrenceDate, 1);
 
-      await eventRef.update(updatePayload);
-      logger.info(`Event ${eventId} updated by ${uid}.`, {updates: Object.keys(updates)});
+        if (editScope === "this") {
+          await updateEventOccurrence(eventId, currentEventData, occurrenceDate, updates);
+        } else {
+          targetEventId = await splitEventSeries(eventId, currentEventData, occurrenceDate, updates);
+        }
+      } else {
+        // Stop repeating, or re-validate the rule when the series changes
+        if (updates.isRecurring === false) {
+          Object.assign(updates, {
+            recurrence: null,
+            recurrenceOverrides: null,
+            isRecurring: false,
+            recurrenceEndDate: null,
+          });
+        } else if (updates.recurrence || (currentEventData.recurrence && updates.eventDate)) {
+          const seriesStartDate = updates.eventDate || currentEventData.eventDate;
+          updates.recurrence = normalizeRecurrence(
+            updates.recurrence || currentEventData.recurrence,
+            seriesStartDate
+          );
+          updates.isRecurring = true;
+          updates.recurrenceEndDate = getRecurrenceEndDate(seriesStartDate, updates.recurrence);
+        } else {
+          delete updates.isRecurring;
+        }
+
+        const updatePayload: Partial<EventData> = {
+          ...updates,
+          updatedAt: Timestamp.now(),
+        };
+        // Explicitly remove coverPhotoUrls if client sends it, as it should be generated on fetch
+        delete updatePayload.coverPhotoUrls;
+        // Client should send coverPhotoStoragePaths if they change
+
+        // Regenerate searchable fields if title, description, or location are updated
+        if (updates.title || updates.description || updates.location?.address) {
+          const finalTitle = updates.title || currentEventData.title;
+          const finalDescription =
+            updates.description !== undefined ? updates.description : currentEventData.description;
+          const finalLocationAddress =
+            updates.location?.address || currentEventData.location?.address;
+
+          const searchFields = generateEventSearchFields(
+            finalTitle,
+            finalDescription,
+            finalLocationAddress
+          );
+          Object.assign(updatePayload, searchFields);
+        }
+
+        await eventRef.update(updatePayload);
+      }
+      logger.info(`Event ${eventId} updated by ${uid}.`, {updates: Object.keys(updates), editScope, occurrenceDate});
 
       // Send SMS notifications for significant changes
       const significantChanges = ["eventDate", "startTime", "location", "isVirtual"];
       const hasSignificantChange = significantChanges.some(
         (field) =>
           updates[field as keyof EventData] !== undefined &&
-          updates[field as keyof EventData] !== currentEventData[field as keyof EventData]
+          updates[field as keyof EventData] !== previousEventData[field as keyof EventData]
       );
 
       if (hasSignificantChange) {
@@ -884,7 +1146,7 @@ export const updateEvent = onCall(
             let changeText = "Event updated: ";
             const changes: string[] = [];
 
-            if (updates.eventDate && updates.eventDate !== currentEventData.eventDate) {
+            if (updates.eventDate && updates.eventDate !== previousEventData.eventDate) {
               const newDate = new Date(updates.eventDate);
               changes.push(
                 `new date ${newDate.toLocaleDateString("en-US", {
@@ -893,25 +1155,25 @@ export const updateEvent = onCall(
                 })}`
               );
             }
-            if (updates.startTime && updates.startTime !== currentEventData.startTime) {
+            if (updates.startTime && updates.startTime !== previousEventData.startTime) {
               changes.push(`new time ${updates.startTime}`);
             }
             if (
               updates.location &&
-              currentEventData.location &&
-              updates.location.address !== currentEventData.location.address
+              previousEventData.location &&
+              updates.location.address !== previousEventData.location.address
             ) {
               changes.push("location changed");
             }
             if (
               updates.isVirtual !== undefined &&
-              updates.isVirtual !== currentEventData.isVirtual
+              updates.isVirtual !== previousEventData.isVirtual
             ) {
               changes.push(updates.isVirtual ? "now virtual" : "now in-person");
             }
 
             changeText += changes.join(", ");
-            const eventLink = `https://mydynastyapp.com/events/${eventId}`;
+            const eventLink = `https://mydynastyapp.com/events/${targetEventId}`;
 
             // Send SMS to each user with SMS enabled
             const smsPromises = usersSnapshot.docs.map(async (userDoc) => {
@@ -925,7 +1187,7 @@ export const updateEvent = onCall(
                   await awsSmsService.sendSms(
                     {
                       to: userData.phoneNumber,
-                      body: `"${currentEventData.title}" - ${changeText}. Details: ${eventLink}`,
+                      body: `"${previousEventData.title}" - ${changeText}. Details: ${eventLink}`,
                     },
                     uid,
                     "event_update",
@@ -949,7 +1211,7 @@ export const updateEvent = onCall(
         }
       }
 
-      return {success: true, eventId};
+      return {success: true, eventId: targetEventId};
     },
     "updateEvent",
     {
@@ -1037,11 +1299,12 @@ export const rsvpToEvent = onCall(
     async (request) => {
       const uid = request.auth?.uid || "";
 
-      const {eventId, status, plusOne, plusOneName} = request.data as {
+      const {eventId, status, plusOne, plusOneName, occurrenceDate} = request.data as {
         eventId: string;
         status: EventInvitation["status"];
         plusOne?: boolean;
         plusOneName?: string;
+        occurrenceDate?: string; // RSVP to one occurrence of a recurring event
       };
 
       if (!eventId || !status) {
@@ -1052,6 +1315,9 @@ export const rsvpToEvent = onCall(
       }
 
       const eventData = await ensureEventAccess(eventId, uid, "view"); // Check if user can view/interact
+      if (occurrenceDate) {
+        validateOccurrenceDate(eventData, occurrenceDate);
+      }
 
       if (!eventData.requireRsvp) {
         logger.info(
@@ -1086,25 +1352,20 @@ export const rsvpToEvent = onCall(
 
       const rsvpRef = db.collection("events").doc(eventId).collection("rsvps").doc(uid);
 
-      const rsvpData: Partial<EventInvitation> = {
-        eventId,
-        userId: uid,
+      const response = {
         status,
         plusOne: plusOne ?? false,
         plusOneName: plusOne ? plusOneName || null : null,
-        respondedAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
       };
 
       // Check if RSVP already exists to set createdAt appropriately
       const existingRsvp = await rsvpRef.get();
-      if (!existingRsvp.exists) {
-        rsvpData.createdAt = Timestamp.now();
-      }
+      const rsvpData = buildRsvpWrite(eventId, uid, response, occurrenceDate, !existingRsvp.exists);
 
       await rsvpRef.set(rsvpData, {merge: true});
       logger.info(
-        `User ${uid} RSVPed to event ${eventId} with status: ${status}. Plus one: ${rsvpData.plusOne}`
+        `User ${uid} RSVPed to event ${eventId} with status: ${status}. Plus one: ${response.plusOne}`,
+        {occurrenceDate}
       );
 
       // Send SMS confirmation if user has SMS enabled
@@ -1121,7 +1382,7 @@ export const rsvpToEvent = onCall(
             const {getAWSSmsService} = await import("./services/awsSmsService");
             const awsSmsService = getAWSSmsService();
 
-            const eventDate = new Date(eventData.eventDate);
+            const eventDate = new Date(occurrenceDate || eventData.eventDate);
             const dateString = eventDate.toLocaleDateString("en-US", {
               month: "short",
               day: "numeric",
@@ -1161,7 +1422,7 @@ export const rsvpToEvent = onCall(
         }
       }
 
-      return {success: true, eventId, rsvpStatus: status, plusOne: rsvpData.plusOne};
+      return {success: true, eventId, rsvpStatus: status, plusOne: response.plusOne, occurrenceDate};
     },
     "rsvpToEvent",
     {
@@ -1488,6 +1749,44 @@ async function fetchRawEventsPage(
   return {docs, rawEvents};
 }
 
+// How far ahead recurring events are expanded into occurrences
+const RECURRENCE_HORIZON_DAYS = 365;
+const MAX_RECURRING_SERIES_PER_QUERY = 100;
+
+/**
+ * Fetches the recurring series matched by audience queries that are still running on
+ * or after startDate, and expands them into occurrences within the recurrence horizon.
+ */
+async function fetchRecurringOccurrences(
+  audienceQueries: FirebaseFirestore.Query<FirebaseFirestore.DocumentData>[],
+  startDate: string,
+  maxOccurrencesPerSeries: number
+): Promise<EventData[]> {
+  const seriesById = new Map<string, EventData>();
+
+  for (const audienceQuery of audienceQueries) {
+    try {
+      const snapshot = await audienceQuery
+        .where("isRecurring", "==", true)
+        .where("recurrenceEndDate", ">=", startDate)
+        .limit(MAX_RECURRING_SERIES_PER_QUERY)
+        .get();
+      snapshot.docs.forEach((doc) => {
+        seriesById.set(doc.id, {id: doc.id, ...doc.data()} as EventData);
+      });
+    } catch (queryError) {
+      logger.warn("Error executing recurring events query:", queryError);
+    }
+  }
+
+  const horizon = addDaysToDate(startDate, RECURRENCE_HORIZON_DAYS);
+  return Array.from(seriesById.values()).flatMap((series) =>
+    expandEventOccurrences(series, startDate, horizon, maxOccurrencesPerSeries)
+      // Overrides can move an occurrence before the range
+      .filter((occurrence) => occurrence.eventDate >= startDate)
+  );
+}
+
 export const getUpcomingEventsForUser = onCall(
   {
     region: DEFAULT_REGION,
@@ -1512,7 +1811,7 @@ export const getUpcomingEventsForUser = onCall(
 
     const nowString = new Date().toISOString().split("T")[0]; // YYYY-MM-DD
 
-    const queries: FirebaseFirestore.Query<FirebaseFirestore.DocumentData>[] = [];
+    const audienceQueries: FirebaseFirestore.Query<FirebaseFirestore.DocumentData>[] = [];
 
     // Base date filter: if lastEventDate is provided, start from there, otherwise from now.
     // For "upcoming", we always want events >= now, but if paginating, also >= lastEventDate.
@@ -1521,40 +1820,26 @@ export const getUpcomingEventsForUser = onCall(
       lastEventDate && lastEventDate > nowString ? lastEventDate : nowString;
 
     // Query for events hosted by the user
-    queries.push(
-      db
-        .collection("events")
-        .where("hostId", "==", uid)
-        .where("eventDate", ">=", effectiveStartDate)
-    );
+    audienceQueries.push(db.collection("events").where("hostId", "==", uid));
 
     // Query for events user is explicitly invited to
-    queries.push(
-      db
-        .collection("events")
-        .where("invitedMemberIds", "array-contains", uid)
-        .where("eventDate", ">=", effectiveStartDate)
-    );
+    audienceQueries.push(db.collection("events").where("invitedMemberIds", "array-contains", uid));
 
     // Query for public events
-    queries.push(
-      db
-        .collection("events")
-        .where("privacy", "==", "public")
-        .where("eventDate", ">=", effectiveStartDate)
-    );
+    audienceQueries.push(db.collection("events").where("privacy", "==", "public"));
 
     // Query for family_tree events
     if (userFamilyTreeId) {
-      queries.push(
+      audienceQueries.push(
         db
           .collection("events")
           .where("privacy", "==", "family_tree")
           .where("familyTreeId", "==", userFamilyTreeId)
-          .where("eventDate", ">=", effectiveStartDate)
       );
     }
 
+    const queries = audienceQueries.map((query) => query.where("eventDate", ">=", effectiveStartDate));
+
     // Fetch a bit more than limit from each query to ensure we have enough after merging and filtering
     const fetchLimitPerQuery = limit + 10; // Fetch a buffer
 
@@ -1583,14 +1868,18 @@ export const getUpcomingEventsForUser = onCall(
         "asc",
         startValues
       );
-      allRawEvents.push(...categoryEvents);
+      // Recurring series are listed as their expanded occurrences below
+      allRawEvents.push(...categoryEvents.filter((event) => !event.isRecurring));
     }
 
-    // Deduplicate events by ID
+    allRawEvents.push(...(await fetchRecurringOccurrences(audienceQueries, effectiveStartDate, limit + 1)));
+
+    // Deduplicate events by ID (and occurrence for recurring events)
     const uniqueEventsMap = new Map<string, EventData>();
     allRawEvents.forEach((event) => {
-      if (event.id && !uniqueEventsMap.has(event.id)) {
-        uniqueEventsMap.set(event.id, event);
+      const key = event.occurrenceDate ? `${event.id}_${event.occurrenceDate}` : event.id;
+      if (key && !uniqueEventsMap.has(key)) {
+        uniqueEventsMap.set(key, event);
       }
     });
 
@@ -2411,11 +2700,12 @@ export const respondToInvitation = onCall(
     async (request) => {
       const uid = request.auth?.uid || "";
 
-      const {eventId, status, plusOne, plusOneName} = request.data as {
+      const {eventId, status, plusOne, plusOneName, occurrenceDate} = request.data as {
         eventId: string;
         status: "accepted" | "declined" | "maybe";
         plusOne?: boolean;
         plusOneName?: string;
+        occurrenceDate?: string; // Respond to one occurrence of a recurring event
       };
 
       if (!eventId || !status) {
@@ -2438,6 +2728,9 @@ export const respondToInvitation = onCall(
       }
 
       const eventData = await ensureEventAccess(eventId, uid, "view");
+      if (occurrenceDate) {
+        validateOccurrenceDate(eventData, occurrenceDate);
+      }
 
       // Validate plus one if provided
       if (plusOne && !eventData.allowGuestPlusOne) {
@@ -2460,17 +2753,15 @@ export const respondToInvitation = onCall(
       }
 
       // Update the invitation
-      const updateData: Partial<EventInvitation> = {
+      const updateData = {
         status,
         plusOne: plusOne || false,
         plusOneName: plusOne ? plusOneName || null : null,
-        respondedAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
       };
 
-      await inviteRef.update(updateData);
+      await inviteRef.set(buildRsvpWrite(eventId, uid, updateData, occurrenceDate, false), {merge: true});
 
-      logger.info(`User ${uid} responded to event ${eventId} invitation with status: ${status}`);
+      logger.info(`User ${uid} responded to event ${eventId} invitation with status: ${status}`, {occurrenceDate});
 
       return {
         success: true,
@@ -2478,6 +2769,7 @@ export const respondToInvitation = onCall(
         status,
         plusOne: updateData.plusOne,
         plusOneName: updateData.plusOneName,
+        occurrenceDate,
       };
     },
     "respondToInvitation",
@@ -2600,9 +2892,10 @@ export const updateEventRsvpApi = onCall(
     async (request) => {
       const uid = request.auth?.uid || "";
 
-      const {eventId, status} = request.data as {
+      const {eventId, status, occurrenceDate} = request.data as {
         eventId: string;
         status: "yes" | "maybe" | "no";
+        occurrenceDate?: string; // RSVP to one occurrence of a recurring event
       };
 
       if (!eventId || !status) {
@@ -2614,6 +2907,9 @@ export const updateEventRsvpApi = onCall(
 
       // Reuse the logic from rsvpToEvent
       const eventData = await ensureEventAccess(eventId, uid, "view");
+      if (occurrenceDate) {
+        validateOccurrenceDate(eventData, occurrenceDate);
+      }
 
       if (!eventData.requireRsvp) {
         logger.info(
@@ -2638,24 +2934,18 @@ export const updateEventRsvpApi = onCall(
 
       const rsvpRef = db.collection("events").doc(eventId).collection("rsvps").doc(uid);
 
-      const rsvpData: Partial<EventInvitation> = {
-        eventId,
-        userId: uid,
-        status: mappedStatus as EventInvitation["status"],
-        plusOne: false,
-        plusOneName: null,
-        respondedAt: Timestamp.now(),
-        updatedAt: Timestamp.now(),
-      };
-
       // Check if RSVP already exists to set createdAt appropriately
       const existingRsvp = await rsvpRef.get();
-      if (!existingRsvp.exists) {
-        rsvpData.createdAt = Timestamp.now();
-      }
+      const rsvpData = buildRsvpWrite(
+        eventId,
+        uid,
+        {status: mappedStatus as EventInvitation["status"], plusOne: false, plusOneName: null},
+        occurrenceDate,
+        !existingRsvp.exists
+      );
 
       await rsvpRef.set(rsvpData, {merge: true});
-      logger.info(`User ${uid} RSVPed to event ${eventId} with status: ${mappedStatus}`);
+      logger.info(`User ${uid} RSVPed to event ${eventId} with status: ${mappedStatus}`, {occurrenceDate});
 
       return {success: true};
     },
@@ -2802,37 +3092,25 @@ export const getEventsForFeedPaginated = onCall(
     const nowString = new Date().toISOString().split("T")[0];
     const startDate = lastEventDate || nowString;
     
-    const queries: FirebaseFirestore.Query<FirebaseFirestore.DocumentData>[] = [];
+    const audienceQueries: FirebaseFirestore.Query<FirebaseFirestore.DocumentData>[] = [];
 
     // Get upcoming events only for the feed with pagination
     // Query for events in the family tree
-    queries.push(
+    audienceQueries.push(
       db
         .collection("events")
         .where("privacy", "==", "family_tree")
         .where("familyTreeId", "==", familyTreeId)
-        .where("eventDate", ">=", startDate)
-        .orderBy("eventDate", "asc")
-        .limit(validatedLimit)
     );
 
     // Query for public events
-    queries.push(
-      db.collection("events")
-        .where("privacy", "==", "public")
-        .where("eventDate", ">=", startDate)
-        .orderBy("eventDate", "asc")
-        .limit(validatedLimit)
-    );
+    audienceQueries.push(db.collection("events").where("privacy", "==", "public"));
 
     // Query for events user is explicitly invited to
-    queries.push(
-      db
-        .collection("events")
-        .where("invitedMemberIds", "array-contains", userId)
-        .where("eventDate", ">=", startDate)
-        .orderBy("eventDate", "asc")
-        .limit(validatedLimit)
+    audienceQueries.push(db.collection("events").where("invitedMemberIds", "array-contains", userId));
+
+    const queries = audienceQueries.map((query) =>
+      query.where("eventDate", ">=", startDate).orderBy("eventDate", "asc").limit(validatedLimit)
     );
 
     const allRawEvents: EventData[] = [];
@@ -2847,17 +3125,22 @@ export const getEventsForFeedPaginated = onCall(
               ...doc.data(),
             } as EventData)
         );
-        allRawEvents.push(...events);
+        // Recurring series are listed as their expanded occurrences below
+        allRawEvents.push(...events.filter((event) => !event.isRecurring));
       } catch (queryError) {
         logger.warn("Error executing paginated feed events query:", queryError);
       }
     }
 
-    // Deduplicate events by ID
+    // Only the next occurrence of each recurring event, so weekly events don't crowd out the feed
+    allRawEvents.push(...(await fetchRecurringOccurrences(audienceQueries, startDate, 1)));
+
+    // Deduplicate events by ID (and occurrence for recurring events)
     const uniqueEventsMap = new Map<string, EventData>();
     allRawEvents.forEach((event) => {
-      if (event.id && !uniqueEventsMap.has(event.id)) {
-        uniqueEventsMap.set(event.id, event);
+      const key = event.occurrenceDate ? `${event.id}_${event.occurrenceDate}` : event.id;
+      if (key && !uniqueEventsMap.has(key)) {
+        uniqueEventsMap.set(key, event);
       }
     });
 
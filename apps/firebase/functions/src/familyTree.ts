@@ -1,7 +1,9 @@
 import {onCall} from "firebase-functions/v2/https";
 import {getFirestore, FieldValue, Timestamp} from "firebase-admin/firestore";
+import {getStorage} from "firebase-admin/storage";
 import {logger} from "firebase-functions/v2";
 import * as crypto from "crypto";
+import JSZip from "jszip";
 import {DEFAULT_REGION, FUNCTION_TIMEOUT, DEFAULT_MEMORY} from "./common";
 import {createError, ErrorCode} from "./utils/errors";
 import {withAuth, withResourceAccess, PermissionLevel, RateLimitType} from "./middleware";
@@ -9,6 +11,34 @@ import {FRONTEND_URL} from "./auth/config/secrets";
 import {sendEmailUniversal} from "./auth/config/emailConfig";
 import {validateRequest} from "./utils/request-validator";
 import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
+import {
+  parseGedcom,
+  buildGedcomImportPlan,
+  serializeGedcom,
+  shouldRedactForExport,
+  ExistingMemberSummary,
+  GedcomExportPerson,
+  GedcomExportStory,
+  GedcomImportResolution,
+} from "./utils/gedcom";
+import {
+  calculateRelationship,
+  getParentLinkType,
+  isLineageParentLink,
+  ParentLinkType,
+  RelationshipGender,
+  SpouseRelationship,
+  PARENT_LINK_TYPES,
+  SPOUSE_STATUSES,
+} from "./utils/relationships";
+import {
+  findDuplicateCandidates,
+  planProfileMerge,
+  DuplicateMemberSummary,
+  MergeFieldChoice,
+  MERGEABLE_PROFILE_FIELDS,
+} from "./utils/memberMerge";
+import {getFamilyVaultMemberRemoval} from "./utils/familyVault";
 
 // MARK: - Function Configuration
 
@@ -37,13 +67,26 @@ const hashToken = (token: string): string => {
 
 // MARK: - Types
 
+// `type` is the relatives-tree relation type used for layout; `linkType` and
+// `status` carry the full detail for display
+interface ParentChildRelation {
+  id: string;
+  type: "blood" | "adopted";
+  linkType: ParentLinkType;
+}
+
+interface SpouseRelation extends SpouseRelationship {
+  id: string;
+  type: "married" | "divorced";
+}
+
 interface FamilyMember {
   id: string;
   gender: "male" | "female" | "other";
-  parents: Array<{ id: string; type: "blood" }>;
-  children: Array<{ id: string; type: "blood" }>;
+  parents: ParentChildRelation[];
+  children: ParentChildRelation[];
   siblings: Array<{ id: string; type: "blood" }>;
-  spouses: Array<{ id: string; type: "married" }>;
+  spouses: SpouseRelation[];
   attributes?: {
     displayName: string;
     profilePicture?: string;
@@ -60,6 +103,8 @@ interface UserDocument {
   spouseIds?: string[];
   parentIds?: string[];
   childrenIds?: string[];
+  parentLinkTypes?: Record<string, ParentLinkType>; // Keyed by parent ID; missing means biological
+  spouseRelationships?: Record<string, SpouseRelationship>; // Keyed by spouse ID; missing means married
   [key: string]: any;
 }
 
@@ -102,11 +147,14 @@ interface RelationshipMaps {
   childToParentsMap: Map<string, Set<string>>;
   parentToChildrenMap: Map<string, Set<string>>;
   personToSpousesMap: Map<string, Set<string>>;
+  parentLinkTypes: Map<string, Map<string, ParentLinkType>>;
+  spouseRelationships: Map<string, Map<string, SpouseRelationship>>;
   validUserIds: Set<string>;
 }
 
 /**
  * Gets all blood-related members from the current user using BFS
+ * Only biological and adoptive links are followed; step, foster and guardian links are not.
  * Performance optimization: O(V + E) instead of O(n * (V + E))
  */
 function getBloodRelatedSet(
@@ -141,8 +189,14 @@ function getBloodRelatedSet(
 
     const data = docsMap.get(id);
     if (!data) continue;
-    // Enqueue parents and children
-    const relatives = [...(data.parentIds || []), ...(data.childrenIds || [])];
+    // Enqueue parents and children linked by blood or adoption
+    const parents = (data.parentIds || []).filter((parentId: string) =>
+      isLineageParentLink(data.parentLinkTypes?.[parentId] || "biological")
+    );
+    const children = (data.childrenIds || []).filter((childId: string) =>
+      isLineageParentLink(docsMap.get(childId)?.parentLinkTypes?.[id] || "biological")
+    );
+    const relatives = [...parents, ...children];
     for (const relId of relatives) {
       if (!visited.has(relId)) queue.push({id: relId, depth: depth + 1});
     }
@@ -159,6 +213,8 @@ function buildRelationshipMaps(docs: FirebaseFirestore.QueryDocumentSnapshot[]):
   const childToParentsMap = new Map<string, Set<string>>();
   const parentToChildrenMap = new Map<string, Set<string>>();
   const personToSpousesMap = new Map<string, Set<string>>();
+  const parentLinkTypes = new Map<string, Map<string, ParentLinkType>>();
+  const spouseRelationships = new Map<string, Map<string, SpouseRelationship>>();
   const validUserIds = new Set<string>();
 
   // First pass: collect all valid user IDs
@@ -197,6 +253,23 @@ function buildRelationshipMaps(docs: FirebaseFirestore.QueryDocumentSnapshot[]):
       });
     }
 
+    // Parent link types are stored on the child and spouse details on both partners
+    if (data.parentLinkTypes) {
+      parentLinkTypes.set(userId, new Map(Object.entries(data.parentLinkTypes)));
+    }
+    if (data.spouseRelationships) {
+      Object.entries(data.spouseRelationships as Record<string, SpouseRelationship>).forEach(
+        ([spouseId, relationship]) => {
+          if (!spouseRelationships.has(userId)) spouseRelationships.set(userId, new Map());
+          if (!spouseRelationships.has(spouseId)) spouseRelationships.set(spouseId, new Map());
+          spouseRelationships.get(userId)!.set(spouseId, relationship);
+          if (!spouseRelationships.get(spouseId)!.has(userId)) {
+            spouseRelationships.get(spouseId)!.set(userId, relationship);
+          }
+        }
+      );
+    }
+
     // Build spouse relationships (bidirectional)
     if (data.spouseIds?.length > 0) {
       data.spouseIds.forEach((spouseId: string) => {
@@ -217,10 +290,89 @@ function buildRelationshipMaps(docs: FirebaseFirestore.QueryDocumentSnapshot[]):
     childToParentsMap,
     parentToChildrenMap,
     personToSpousesMap,
+    parentLinkTypes,
+    spouseRelationships,
     validUserIds,
   };
 }
 
+/**
+ * Lists a member's parents or children with how each is linked
+ */
+function getParentChildRelations(
+  userId: string,
+  direction: "parents" | "children",
+  relationshipMaps: RelationshipMaps
+): ParentChildRelation[] {
+  const relatedIds = direction === "parents" ?
+    relationshipMaps.childToParentsMap.get(userId) :
+    relationshipMaps.parentToChildrenMap.get(userId);
+
+  return Array.from(relatedIds || [])
+    .filter((id) => relationshipMaps.validUserIds.has(id))
+    .map((id) => {
+      const linkType = direction === "parents" ?
+        getParentLinkType(relationshipMaps, userId, id) :
+        getParentLinkType(relationshipMaps, id, userId);
+      return {id, type: linkType === "biological" ? "blood" as const : "adopted" as const, linkType};
+    });
+}
+
+/**
+ * Lists a member's spouses and partners with status and dates
+ */
+function getSpouseRelations(userId: string, relationshipMaps: RelationshipMaps): SpouseRelation[] {
+  return Array.from(relationshipMaps.personToSpousesMap.get(userId) || [])
+    .filter((id) => relationshipMaps.validUserIds.has(id))
+    .map((id) => {
+      const relationship = relationshipMaps.spouseRelationships.get(userId)?.get(id);
+      const status = relationship?.status || "married";
+      return {
+        id,
+        type: status === "divorced" ? "divorced" as const : "married" as const,
+        status,
+        startDate: relationship?.startDate || null,
+        endDate: relationship?.endDate || null,
+      };
+    });
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validates spouse relationship details from a request
+ */
+function parseSpouseRelationship(raw: any): SpouseRelationship {
+  if (!raw || typeof raw !== "object" || !SPOUSE_STATUSES.includes(raw.status)) {
+    throw createError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Spouse relationship status must be one of: ${SPOUSE_STATUSES.join(", ")}`
+    );
+  }
+  for (const field of ["startDate", "endDate"] as const) {
+    if (raw[field] != null && (typeof raw[field] !== "string" || !ISO_DATE_PATTERN.test(raw[field]))) {
+      throw createError(ErrorCode.INVALID_ARGUMENT, `${field} must be a date in YYYY-MM-DD format`);
+    }
+  }
+  if (raw.startDate && raw.endDate && raw.endDate < raw.startDate) {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "A relationship cannot end before it starts");
+  }
+  return {status: raw.status, startDate: raw.startDate || null, endDate: raw.endDate || null};
+}
+
+/**
+ * Validates a parent link type from a request
+ */
+function parseParentLinkType(raw: any): ParentLinkType {
+  if (!PARENT_LINK_TYPES.includes(raw)) {
+    throw createError(
+      ErrorCode.INVALID_ARGUMENT,
+      `Parent link type must be one of: ${PARENT_LINK_TYPES.join(", ")}`
+    );
+  }
+  return raw;
+}
+
 /**
  * Finds siblings by checking for shared parents
  * Performance: O(p) where p is number of parents (typically small)
@@ -249,6 +401,22 @@ function findSiblings(
   return siblings;
 }
 
+const MAX_MERGE_REDIRECTS = 5;
+
+/**
+ * Follows the redirects left behind by member merges so old member IDs keep working
+ */
+async function resolveMergedMemberId(db: FirebaseFirestore.Firestore, memberId: string): Promise<string> {
+  let currentId = memberId;
+  for (let hops = 0; hops < MAX_MERGE_REDIRECTS; hops++) {
+    const memberDoc = await db.collection("users").doc(currentId).get();
+    const mergedInto = memberDoc.data()?.mergedInto;
+    if (!mergedInto) break;
+    currentId = mergedInto;
+  }
+  return currentId;
+}
+
 // MARK: - Cloud Functions
 
 /**
@@ -293,6 +461,8 @@ export const getFamilyTreeData = onCall(
           "parentIds",
           "childrenIds",
           "spouseIds",
+          "parentLinkTypes",
+          "spouseRelationships",
           "displayName",
           "firstName",
           "lastName",
@@ -319,8 +489,7 @@ export const getFamilyTreeData = onCall(
 
       // Performance optimization: Pre-compute relationship maps for O(1) lookups
       const relationshipMaps = buildRelationshipMaps(validUserDocs);
-      const {childToParentsMap, parentToChildrenMap, personToSpousesMap, validUserIds} =
-        relationshipMaps;
+      const {childToParentsMap, parentToChildrenMap, validUserIds} = relationshipMaps;
 
       // Transform user data into relatives-tree Node format
       const treeNodes = validUserDocs.map((userDoc) => {
@@ -336,23 +505,10 @@ export const getFamilyTreeData = onCall(
             type: "blood" as const,
           }));
 
-        // Get parents using pre-computed map - O(1) lookup
-        const parentSet = childToParentsMap.get(userDocId) || new Set<string>();
-        const parents = Array.from(parentSet)
-          .filter((id) => validUserIds.has(id))
-          .map((id) => ({id, type: "blood" as const}));
-
-        // Get children using pre-computed map - O(1) lookup
-        const childrenSet = parentToChildrenMap.get(userDocId) || new Set<string>();
-        const children = Array.from(childrenSet)
-          .filter((id) => validUserIds.has(id))
-          .map((id) => ({id, type: "blood" as const}));
-
-        // Get spouses using pre-computed map - O(1) lookup
-        const spouseSet = personToSpousesMap.get(userDocId) || new Set<string>();
-        const spouses = Array.from(spouseSet)
-          .filter((id) => validUserIds.has(id))
-          .map((id) => ({id, type: "married" as const}));
+        // Get parents, children and spouses using pre-computed maps - O(1) lookup
+        const parents = getParentChildRelations(userDocId, "parents", relationshipMaps);
+        const children = getParentChildRelations(userDocId, "children", relationshipMaps);
+        const spouses = getSpouseRelations(userDocId, relationshipMaps);
 
         const gender = (data.gender || "other").toLowerCase();
         const validGender = gender === "male" || gender === "female" ? gender : "other";
@@ -387,8 +543,315 @@ export const getFamilyTreeData = onCall(
   )
 );
 
+/**
+ * Describes how one family tree member is related to another ("how are we related?")
+ * Defaults to describing the member relative to the caller.
+ */
+export const getRelationship = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const currentUserId = request.auth!.uid;
+
+      // Validate and sanitize input using centralized validator
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.getRelationship,
+        currentUserId
+      );
+
+      const db = getFirestore();
+      const fromUserId = await resolveMergedMemberId(db, validatedData.fromUserId || currentUserId);
+      const toUserId = await resolveMergedMemberId(db, validatedData.toUserId);
+
+      const userDoc = await db.collection("users").doc(currentUserId).get();
+      const familyTreeId = userDoc.data()?.familyTreeId;
+      if (!familyTreeId) {
+        throw createError(ErrorCode.NOT_FOUND, "No family tree found for this user");
+      }
+
+      const usersSnapshot = await db
+        .collection("users")
+        .where("familyTreeId", "==", familyTreeId)
+        .select(
+          "parentIds",
+          "childrenIds",
+          "spouseIds",
+          "parentLinkTypes",
+          "spouseRelationships",
+          "displayName",
+          "firstName",
+          "lastName",
+          "gender"
+        )
+        .get();
+
+      const validUserDocs = usersSnapshot.docs.filter((doc) => doc.exists);
+      const relationshipMaps = buildRelationshipMaps(validUserDocs);
+      if (!relationshipMaps.validUserIds.has(fromUserId) || !relationshipMaps.validUserIds.has(toUserId)) {
+        throw createError(ErrorCode.NOT_FOUND, "Both members must belong to your family tree");
+      }
+
+      const names = new Map<string, string>();
+      const genders = new Map<string, RelationshipGender>();
+      validUserDocs.forEach((doc) => {
+        const data = doc.data();
+        names.set(doc.id, data.displayName || `${data.firstName || ""} ${data.lastName || ""}`.trim());
+        const gender = (data.gender || "other").toLowerCase();
+        genders.set(doc.id, gender === "male" || gender === "female" ? gender : "other");
+      });
+
+      const result = calculateRelationship(relationshipMaps, genders, fromUserId, toUserId);
+
+      return {
+        relationship: result?.relationship || null,
+        isBloodRelated: result?.isBloodRelated || false,
+        path: (result?.path || []).map((step) => ({
+          id: step.id,
+          name: names.get(step.id) || "Unknown member",
+          relation: step.relation,
+        })),
+      };
+    },
+    "getRelationship",
+    "verified",
+    {type: RateLimitType.API}
+  )
+);
+
+const GEDCOM_EXPORT_URL_EXPIRY_MS = 60 * 60 * 1000; // 1 hour
+
+const GEDCOM_MEDIA_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  heic: "image/heic",
+};
+
+/**
+ * Resolves the Storage path of a profile picture from its stored path or Firebase download URL.
+ * Pictures hosted elsewhere return undefined and are exported as URL references only.
+ */
+function getProfilePictureStoragePath(profilePicture: any, bucketName: string): string | undefined {
+  if (profilePicture?.path) return profilePicture.path;
+
+  const url = typeof profilePicture === "string" ? profilePicture : profilePicture?.url;
+  if (!url) return undefined;
+
+  const match = url.match(/^https:\/\/firebasestorage\.googleapis\.com\/v0\/b\/([^/]+)\/o\/([^?]+)/);
+  if (!match || match[1] !== bucketName) return undefined;
+  return decodeURIComponent(match[2]);
+}
+
+/**
+ * Exports a family tree as a GEDCOM 7.0 file, or as a GEDZIP bundle with profile photos
+ * when includeMedia is set. Living members with private profiles are redacted, except
+ * for the member running the export. Only stories the caller can read are referenced.
+ */
+export const exportGedcom = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.LARGE,
+    timeoutSeconds: FUNCTION_TIMEOUT.LONG,
+    secrets: [FRONTEND_URL],
+  },
+  withAuth(
+    async (request) => {
+      const currentUserId = request.auth!.uid;
+
+      // Validate and sanitize input using centralized validator
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.exportGedcom,
+        currentUserId
+      );
+
+      const {familyTreeId} = validatedData;
+      const includeMedia = validatedData.includeMedia === true;
+      const db = getFirestore();
+
+      const treeDoc = await db.collection("familyTrees").doc(familyTreeId).get();
+      if (!treeDoc.exists) {
+        throw createError(ErrorCode.NOT_FOUND, "Family tree not found");
+      }
+      const treeData = treeDoc.data() as FamilyTreeDocument;
+
+      if (
+        !treeData.memberUserIds?.includes(currentUserId) &&
+        !treeData.adminUserIds?.includes(currentUserId) &&
+        treeData.ownerUserId !== currentUserId
+      ) {
+        throw createError(ErrorCode.PERMISSION_DENIED, "You are not a member of this family tree.");
+      }
+
+      const [membersSnapshot, storiesSnapshot] = await Promise.all([
+        db
+          .collection("users")
+          .where("familyTreeId", "==", familyTreeId)
+          .select(
+            "firstName",
+            "lastName",
+            "displayName",
+            "gender",
+            "dateOfBirth",
+            "dateOfDeath",
+            "birthDateText",
+            "deathDateText",
+            "placeOfBirth",
+            "placeOfDeath",
+            "isDeceased",
+            "notes",
+            "parentIds",
+            "childrenIds",
+            "spouseIds",
+            "profilePicture",
+            "privacySettings"
+          )
+          .get(),
+        db
+          .collection("stories")
+          .where("familyTreeId", "==", familyTreeId)
+          .where("isDeleted", "==", false)
+          .select("title", "authorID", "privacy", "customAccessMembers", "peopleInvolved")
+          .get(),
+      ]);
+
+      const bucket = getStorage().bucket();
+      const zip = includeMedia ? new JSZip() : null;
+
+      const people: GedcomExportPerson[] = [];
+      for (const doc of membersSnapshot.docs) {
+        const data = doc.data();
+        const dateOfDeath = toDateOrNull(data.dateOfDeath);
+        const redacted = doc.id !== currentUserId && shouldRedactForExport({
+          profileVisibility: data.privacySettings?.profileVisibility,
+          isDeceased: data.isDeceased,
+          dateOfDeath,
+        });
+
+        const person: GedcomExportPerson = {
+          id: doc.id,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          displayName: data.displayName,
+          gender: data.gender,
+          dateOfBirth: toDateOrNull(data.dateOfBirth),
+          dateOfDeath,
+          birthDateText: data.birthDateText,
+          deathDateText: data.deathDateText,
+          placeOfBirth: data.placeOfBirth,
+          placeOfDeath: data.placeOfDeath,
+          isDeceased: data.isDeceased === true,
+          notes: Array.isArray(data.notes) ? data.notes : [],
+          parentIds: data.parentIds || [],
+          childrenIds: data.childrenIds || [],
+          spouseIds: data.spouseIds || [],
+          redacted,
+        };
+
+        const photoUrl = typeof data.profilePicture === "string" ? data.profilePicture : data.profilePicture?.url;
+        const storagePath = getProfilePictureStoragePath(data.profilePicture, bucket.name);
+        if (!redacted && (photoUrl || storagePath)) {
+          const extension = (storagePath || photoUrl).split("?")[0].split(".").pop()?.toLowerCase() || "";
+          const mediaType = GEDCOM_MEDIA_TYPES[extension] || "image/jpeg";
+
+          if (zip && storagePath) {
+            try {
+              const [contents] = await bucket.file(storagePath).download();
+              const fileName = `media/${doc.id}.${extension in GEDCOM_MEDIA_TYPES ? extension : "jpg"}`;
+              zip.file(fileName, contents);
+              person.photo = {file: fileName, mediaType};
+            } catch (error) {
+              logger.warn(`Failed to bundle profile picture for member ${doc.id}`, error);
+            }
+          }
+          if (!person.photo && photoUrl) {
+            person.photo = {file: photoUrl, mediaType};
+          }
+        }
+
+        people.push(person);
+      }
+
+      let frontendUrl: string | undefined;
+      try {
+        frontendUrl = FRONTEND_URL.value() || undefined;
+      } catch {
+        frontendUrl = process.env.FRONTEND_URL;
+      }
+
+      const authorNames = new Map(
+        membersSnapshot.docs.map((doc) => [doc.id, doc.data().displayName as string | undefined])
+      );
+      const stories: GedcomExportStory[] = storiesSnapshot.docs
+        .map((doc) => ({id: doc.id, ...doc.data()} as any))
+        .filter((story) =>
+          story.authorID === currentUserId ||
+          story.privacy === "family" ||
+          (story.privacy === "custom" && story.customAccessMembers?.includes(currentUserId))
+        )
+        .map((story) => ({
+          id: story.id,
+          title: story.title || "",
+          authorName: authorNames.get(story.authorID),
+          url: frontendUrl ? `${frontendUrl}/story/${story.id}` : undefined,
+          peopleInvolved: story.peopleInvolved || [],
+        }));
+
+      const {content, summary} = serializeGedcom(people, stories, {treeName: treeData.treeName});
+      const baseName = (treeData.treeName || "family-tree").replace(/[^a-zA-Z0-9_-]+/g, "-").toLowerCase();
+
+      logger.info(`Exported GEDCOM for family tree ${familyTreeId}`, {
+        userId: currentUserId,
+        includeMedia,
+        ...summary,
+      });
+
+      if (!zip) {
+        return {format: "gedcom", fileName: `${baseName}.ged`, content, summary};
+      }
+
+      // GEDZIP bundles keep the dataset at the archive root as gedcom.ged
+      zip.file("gedcom.ged", content);
+      const archive = await zip.generateAsync({type: "nodebuffer", compression: "DEFLATE"});
+      const storagePath = `exports/gedcom/${currentUserId}/${Date.now()}_${baseName}.gdz`;
+      const file = bucket.file(storagePath);
+      await file.save(archive, {contentType: "application/zip"});
+
+      const expiresAt = Date.now() + GEDCOM_EXPORT_URL_EXPIRY_MS;
+      const [downloadUrl] = await file.getSignedUrl({
+        version: "v4",
+        action: "read",
+        expires: expiresAt,
+        responseDisposition: `attachment; filename="${baseName}.gdz"`,
+      });
+
+      return {
+        format: "gedzip",
+        fileName: `${baseName}.gdz`,
+        downloadUrl,
+        expiresAt: new Date(expiresAt).toISOString(),
+        summary,
+      };
+    },
+    "exportGedcom",
+    "verified",
+    {type: RateLimitType.MEDIA}
+  )
+);
+
 /**
  * Updates family relationships (parents, children, spouses)
+ * `parentLinkTypes` sets how the member is linked to each parent (biological, adoptive,
+ * step, foster or guardian) and `spouseRelationships` sets status and dates for each
+ * spouse or partner, which are mirrored onto the partner's document. Removing a spouse
+ * deletes the details from both documents.
  */
 export const updateFamilyRelationships = onCall(
   {
@@ -411,11 +874,7 @@ export const updateFamilyRelationships = onCall(
       const userRef = db.collection("users").doc(userId);
 
       // Use the pre-fetched resource instead of making another database call
-      const userData = resource as {
-        parentIds?: string[];
-        childrenIds?: string[];
-        spouseIds?: string[];
-      };
+      const userData = resource as UserDocument;
       const batch = db.batch();
 
       // Update parents
@@ -442,6 +901,51 @@ export const updateFamilyRelationships = onCall(
         batch.update(userRef, {spouseIds: Array.from(currentSpouses)});
       }
 
+      // Update parent link types and spouse relationship details
+      const parentIds = new Set(userData.parentIds || []);
+      updates.addParents?.forEach((id: string) => parentIds.add(id));
+      updates.removeParents?.forEach((id: string) => parentIds.delete(id));
+      const spouseIds = new Set(userData.spouseIds || []);
+      updates.addSpouses?.forEach((id: string) => spouseIds.add(id));
+      updates.removeSpouses?.forEach((id: string) => spouseIds.delete(id));
+
+      const linkUpdates: {[key: string]: any} = {};
+      Object.entries(updates.parentLinkTypes || {}).forEach(([parentId, rawType]) => {
+        if (!parentIds.has(parentId)) {
+          throw createError(ErrorCode.INVALID_ARGUMENT, "Link types can only be set for the member's parents");
+        }
+        linkUpdates[`parentLinkTypes.${parentId}`] = parseParentLinkType(rawType);
+      });
+      updates.removeParents?.forEach((id: string) => {
+        linkUpdates[`parentLinkTypes.${id}`] = FieldValue.delete();
+      });
+
+      const spouseRelationshipEntries = Object.entries(updates.spouseRelationships || {}).map(
+        ([spouseId, raw]) => [spouseId, parseSpouseRelationship(raw)] as const
+      );
+      for (const [spouseId, relationship] of spouseRelationshipEntries) {
+        if (!spouseIds.has(spouseId)) {
+          throw createError(ErrorCode.INVALID_ARGUMENT, "Relationship details can only be set for the member's spouses");
+        }
+        const spouseDoc = await db.collection("users").doc(spouseId).get();
+        if (!spouseDoc.exists || spouseDoc.data()?.familyTreeId !== userData.familyTreeId) {
+          throw createError(ErrorCode.NOT_FOUND, "Spouse not found in this family tree");
+        }
+        linkUpdates[`spouseRelationships.${spouseId}`] = relationship;
+        batch.update(spouseDoc.ref, {[`spouseRelationships.${userId}`]: relationship});
+      }
+      for (const spouseId of updates.removeSpouses || []) {
+        linkUpdates[`spouseRelationships.${spouseId}`] = FieldValue.delete();
+        const spouseDoc = await db.collection("users").doc(spouseId).get();
+        if (spouseDoc.exists && spouseDoc.data()?.familyTreeId === userData.familyTreeId) {
+          batch.update(spouseDoc.ref, {[`spouseRelationships.${userId}`]: FieldValue.delete()});
+        }
+      }
+
+      if (Object.keys(linkUpdates).length > 0) {
+        batch.update(userRef, linkUpdates);
+      }
+
       await batch.commit();
       return {success: true};
     },
@@ -459,6 +963,8 @@ export const updateFamilyRelationships = onCall(
 
 /**
  * Creates a new family member and updates all related relationships in one atomic operation
+ * `options.parentLinkType` sets how a new parent or child is linked (defaults to biological) and
+ * `options.spouseRelationship` sets status and dates for a new spouse or partner.
  */
 export const createFamilyMember = onCall(
   {
@@ -516,10 +1022,19 @@ export const createFamilyMember = onCall(
       }
       const inviterName = currentUserData.displayName || "A family member";
 
+      const parentLinkType = options?.parentLinkType ?
+        parseParentLinkType(options.parentLinkType) :
+        "biological";
+      const spouseRelationship = options?.spouseRelationship ?
+        parseSpouseRelationship(options.spouseRelationship) :
+        null;
+
       // Initialize relationship arrays
       let parentIds: string[] = [];
       let childrenIds: string[] = [];
       let spouseIds: string[] = [];
+      const parentLinkTypes: Record<string, ParentLinkType> = {};
+      const spouseRelationships: Record<string, SpouseRelationship> = {};
 
       // Set up relationships based on type
       if (relationType === "child") {
@@ -528,6 +1043,11 @@ export const createFamilyMember = onCall(
         if (options?.connectToSpouse && spouseId) {
           parentIds.push(spouseId);
         }
+        if (parentLinkType !== "biological") {
+          parentIds.forEach((parentId) => {
+            parentLinkTypes[parentId] = parentLinkType;
+          });
+        }
       } else if (relationType === "parent") {
         childrenIds = [selectedNodeId];
         const existingParentId = selectedNodeData.parentIds?.[0];
@@ -539,6 +1059,9 @@ export const createFamilyMember = onCall(
         if (options?.connectToChildren) {
           childrenIds = selectedNodeData.childrenIds || [];
         }
+        if (spouseRelationship) {
+          spouseRelationships[selectedNodeId] = spouseRelationship;
+        }
       }
 
       // Create the new user document
@@ -548,6 +1071,8 @@ export const createFamilyMember = onCall(
         parentIds,
         childrenIds,
         spouseIds,
+        parentLinkTypes,
+        spouseRelationships,
         createdAt: FieldValue.serverTimestamp(),
         updatedAt: FieldValue.serverTimestamp(),
         isPendingSignUp: !!userData.email, // Mark as pending if email is provided
@@ -561,10 +1086,16 @@ export const createFamilyMember = onCall(
 
       if (relationType === "parent") {
         selectedNodeUpdates.parentIds = FieldValue.arrayUnion(newUserId);
+        if (parentLinkType !== "biological") {
+          selectedNodeUpdates[`parentLinkTypes.${newUserId}`] = parentLinkType;
+        }
       } else if (relationType === "child") {
         selectedNodeUpdates.childrenIds = FieldValue.arrayUnion(newUserId);
       } else if (relationType === "spouse") {
         selectedNodeUpdates.spouseIds = FieldValue.arrayUnion(newUserId);
+        if (spouseRelationship) {
+          selectedNodeUpdates[`spouseRelationships.${newUserId}`] = spouseRelationship;
+        }
       }
       const selectedNodeRef = db.collection("users").doc(selectedNodeId);
       batch.update(selectedNodeRef, selectedNodeUpdates);
@@ -890,6 +1421,16 @@ export const deleteFamilyMember = onCall(
         lastUpdatedBy: currentUserId,
       });
 
+      // The family vault and everything in it stays with the tree
+      const familyVaultRef = db.collection("familyVaults").doc(familyTreeId);
+      const familyVaultDoc = await familyVaultRef.get();
+      const familyVaultRemoval = familyVaultDoc.exists ?
+        getFamilyVaultMemberRemoval(familyVaultDoc.data()!, memberId) :
+        null;
+      if (familyVaultRemoval) {
+        batch.update(familyVaultRef, {...familyVaultRemoval, updatedAt: FieldValue.serverTimestamp()});
+      }
+
       // Delete the member document
       const memberRef = db.collection("users").doc(memberId);
       batch.delete(memberRef);
@@ -910,8 +1451,7 @@ export const deleteFamilyMember = onCall(
 
       // Performance optimization: Pre-compute relationship maps for O(1) lookups
       const relationshipMaps = buildRelationshipMaps(validUserDocs);
-      const {childToParentsMap, parentToChildrenMap, personToSpousesMap, validUserIds} =
-        relationshipMaps;
+      const {childToParentsMap, parentToChildrenMap, validUserIds} = relationshipMaps;
 
       // Transform user data into relatives-tree Node format
       const treeNodes = validUserDocs.map((userDoc) => {
@@ -927,23 +1467,10 @@ export const deleteFamilyMember = onCall(
             type: "blood" as const,
           }));
 
-        // Get parents using pre-computed map - O(1) lookup
-        const parentSet = childToParentsMap.get(userDocId) || new Set<string>();
-        const parents = Array.from(parentSet)
-          .filter((id) => validUserIds.has(id))
-          .map((id) => ({id, type: "blood" as const}));
-
-        // Get children using pre-computed map - O(1) lookup
-        const childrenSet = parentToChildrenMap.get(userDocId) || new Set<string>();
-        const children = Array.from(childrenSet)
-          .filter((id) => validUserIds.has(id))
-          .map((id) => ({id, type: "blood" as const}));
-
-        // Get spouses using pre-computed map - O(1) lookup
-        const spouseSet = personToSpousesMap.get(userDocId) || new Set<string>();
-        const spouses = Array.from(spouseSet)
-          .filter((id) => validUserIds.has(id))
-          .map((id) => ({id, type: "married" as const}));
+        // Get parents, children and spouses using pre-computed maps - O(1) lookup
+        const parents = getParentChildRelations(userDocId, "parents", relationshipMaps);
+        const children = getParentChildRelations(userDocId, "children", relationshipMaps);
+        const spouses = getSpouseRelations(userDocId, relationshipMaps);
 
         const gender = (data.gender || "other").toLowerCase();
         const validGender = gender === "male" || gender === "female" ? gender : "other";
@@ -1585,3 +2112,792 @@ export const getFamilyManagementData = onCall(
     {type: RateLimitType.API}
   )
 );
+
+// MARK: - GEDCOM Import
+
+const MAX_GEDCOM_IMPORT_INDIVIDUALS = 5000;
+const GEDCOM_IMPORT_BATCH_SIZE = 400;
+
+/**
+ * Converts a stored date value (Timestamp, Date or string) to a Date
+ */
+function toDateOrNull(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value.toDate === "function") return value.toDate();
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validates the client supplied duplicate/conflict resolutions keyed by GEDCOM xref
+ */
+function parseGedcomResolutions(raw: any): Record<string, GedcomImportResolution> {
+  const resolutions: Record<string, GedcomImportResolution> = {};
+  if (!raw) return resolutions;
+
+  Object.entries(raw).forEach(([xref, value]: [string, any]) => {
+    if (!value || !["create", "link", "skip"].includes(value.action)) {
+      throw createError(ErrorCode.INVALID_ARGUMENT, `Invalid resolution for ${xref}`);
+    }
+    if (value.action === "link" && typeof value.existingMemberId !== "string") {
+      throw createError(ErrorCode.INVALID_ARGUMENT, `Resolution for ${xref} is missing existingMemberId`);
+    }
+    resolutions[xref] = {action: value.action, existingMemberId: value.existingMemberId};
+  });
+
+  return resolutions;
+}
+
+/**
+ * Imports individuals and families from a GEDCOM 5.5.1 / 7.0 file into a family tree.
+ *
+ * With dryRun (the default) nothing is written and the import plan is returned: new
+ * members, duplicates matched against existing members, name conflicts needing a decision
+ * and the relationships that would be added. Resolutions for conflicts are passed back
+ * keyed by GEDCOM xref when committing with dryRun set to false.
+ */
+export const importGedcom = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.MEDIUM,
+    timeoutSeconds: FUNCTION_TIMEOUT.MEDIUM,
+  },
+  withAuth(
+    async (request) => {
+      const auth = request.auth!;
+      const currentUserId = auth.uid;
+
+      // Validate and sanitize input using centralized validator
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.importGedcom,
+        currentUserId
+      );
+
+      const {familyTreeId, gedcomContent} = validatedData;
+      const dryRun = validatedData.dryRun !== false;
+      const resolutions = parseGedcomResolutions(validatedData.resolutions);
+      const db = getFirestore();
+
+      const treeRef = db.collection("familyTrees").doc(familyTreeId);
+      const treeDoc = await treeRef.get();
+      if (!treeDoc.exists) {
+        throw createError(ErrorCode.NOT_FOUND, "Family tree not found");
+      }
+      const treeData = treeDoc.data() as FamilyTreeDocument;
+
+      if (
+        !treeData.adminUserIds?.includes(currentUserId) &&
+        treeData.ownerUserId !== currentUserId
+      ) {
+        throw createError(
+          ErrorCode.PERMISSION_DENIED,
+          "Only tree administrators can import GEDCOM files into this tree."
+        );
+      }
+
+      const gedcomDocument = parseGedcom(gedcomContent);
+      if (gedcomDocument.individuals.length === 0) {
+        throw createError(ErrorCode.INVALID_ARGUMENT, "No individuals were found in the GEDCOM file.");
+      }
+      if (gedcomDocument.individuals.length > MAX_GEDCOM_IMPORT_INDIVIDUALS) {
+        throw createError(
+          ErrorCode.INVALID_ARGUMENT,
+          `GEDCOM files are limited to ${MAX_GEDCOM_IMPORT_INDIVIDUALS} individuals per import.`
+        );
+      }
+
+      // Load existing members for duplicate detection
+      const membersSnapshot = await db
+        .collection("users")
+        .where("familyTreeId", "==", familyTreeId)
+        .select("firstName", "lastName", "displayName", "dateOfBirth", "parentIds", "childrenIds", "spouseIds")
+        .get();
+
+      const existingMembers: ExistingMemberSummary[] = membersSnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          displayName: data.displayName,
+          dateOfBirth: toDateOrNull(data.dateOfBirth),
+          parentIds: data.parentIds || [],
+          childrenIds: data.childrenIds || [],
+          spouseIds: data.spouseIds || [],
+        };
+      });
+
+      const plan = buildGedcomImportPlan(gedcomDocument, existingMembers, resolutions);
+
+      if (dryRun) {
+        return {dryRun: true, plan};
+      }
+
+      const importRef = db.collection("gedcomImports").doc();
+
+      // Resolve every imported individual to a member ID
+      const memberIdByXref = new Map<string, string>();
+      const newMemberIds = new Set<string>();
+      plan.people.forEach((person) => {
+        if (person.action === "create") {
+          const newId = db.collection("users").doc().id;
+          memberIdByXref.set(person.xref, newId);
+          newMemberIds.add(newId);
+        } else if (person.action === "link" && person.existingMemberId) {
+          memberIdByXref.set(person.xref, person.existingMemberId);
+        }
+      });
+
+      // Collect relationship changes for new and existing members
+      type RelationshipField = "parentIds" | "childrenIds" | "spouseIds";
+      const relationshipChanges = new Map<string, Record<RelationshipField, Set<string>>>();
+      const addRelationship = (memberId: string, field: RelationshipField, relatedId: string) => {
+        if (!relationshipChanges.has(memberId)) {
+          relationshipChanges.set(memberId, {
+            parentIds: new Set(),
+            childrenIds: new Set(),
+            spouseIds: new Set(),
+          });
+        }
+        relationshipChanges.get(memberId)![field].add(relatedId);
+      };
+
+      // Marriages with a known date, keyed by member and then spouse
+      const spouseRelationships = new Map<string, Record<string, SpouseRelationship>>();
+      plan.relationships
+        .filter((relationship) => relationship.type === "spouse" && relationship.marriageDate)
+        .forEach((relationship) => {
+          const fromId = memberIdByXref.get(relationship.fromXref);
+          const toId = memberIdByXref.get(relationship.toXref);
+          if (!fromId || !toId) return;
+          const marriage: SpouseRelationship = {status: "married", startDate: relationship.marriageDate!};
+          spouseRelationships.set(fromId, {...spouseRelationships.get(fromId), [toId]: marriage});
+          spouseRelationships.set(toId, {...spouseRelationships.get(toId), [fromId]: marriage});
+        });
+
+      plan.relationships
+        .filter((relationship) => !relationship.alreadyExists)
+        .forEach((relationship) => {
+          const fromId = memberIdByXref.get(relationship.fromXref);
+          const toId = memberIdByXref.get(relationship.toXref);
+          if (!fromId || !toId) return;
+
+          if (relationship.type === "parent_child") {
+            addRelationship(fromId, "childrenIds", toId);
+            addRelationship(toId, "parentIds", fromId);
+          } else {
+            addRelationship(fromId, "spouseIds", toId);
+            addRelationship(toId, "spouseIds", fromId);
+          }
+        });
+
+      const writes: Array<(batch: FirebaseFirestore.WriteBatch) => void> = [];
+
+      plan.people
+        .filter((person) => person.action === "create")
+        .forEach((person) => {
+          const memberId = memberIdByXref.get(person.xref)!;
+          const changes = relationshipChanges.get(memberId);
+          const memberRef = db.collection("users").doc(memberId);
+
+          writes.push((batch) =>
+            batch.set(memberRef, {
+              id: memberId,
+              firstName: person.firstName,
+              lastName: person.lastName,
+              displayName: person.displayName,
+              gender: person.gender,
+              dateOfBirth: person.dateOfBirth ? Timestamp.fromDate(new Date(person.dateOfBirth)) : null,
+              dateOfDeath: person.dateOfDeath ? Timestamp.fromDate(new Date(person.dateOfDeath)) : null,
+              birthDateText: person.birthDateText || null,
+              deathDateText: person.deathDateText || null,
+              placeOfBirth: person.placeOfBirth || null,
+              placeOfDeath: person.placeOfDeath || null,
+              isDeceased: person.isDeceased,
+              notes: person.notes,
+              sources: person.sources,
+              familyTreeId,
+              parentIds: Array.from(changes?.parentIds || []),
+              childrenIds: Array.from(changes?.childrenIds || []),
+              spouseIds: Array.from(changes?.spouseIds || []),
+              spouseRelationships: spouseRelationships.get(memberId) || {},
+              status: "pending",
+              isPendingSignUp: false,
+              importSource: {type: "gedcom", importId: importRef.id, xref: person.xref},
+              createdAt: FieldValue.serverTimestamp(),
+              updatedAt: FieldValue.serverTimestamp(),
+            })
+          );
+        });
+
+      new Set([...relationshipChanges.keys(), ...spouseRelationships.keys()]).forEach((memberId) => {
+        if (newMemberIds.has(memberId)) return;
+
+        const updates: {[key: string]: any} = {
+          updatedAt: FieldValue.serverTimestamp(),
+        };
+        const changes = relationshipChanges.get(memberId);
+        if (changes) {
+          (Object.keys(changes) as RelationshipField[]).forEach((field) => {
+            if (changes[field].size > 0) {
+              updates[field] = FieldValue.arrayUnion(...Array.from(changes[field]));
+            }
+          });
+        }
+        Object.entries(spouseRelationships.get(memberId) || {}).forEach(([spouseId, relationship]) => {
+          updates[`spouseRelationships.${spouseId}`] = relationship;
+        });
+        const memberRef = db.collection("users").doc(memberId);
+        writes.push((batch) => batch.update(memberRef, updates));
+      });
+
+      const createdMemberIds = Array.from(newMemberIds);
+      for (let i = 0; i < createdMemberIds.length; i += GEDCOM_IMPORT_BATCH_SIZE) {
+        const memberIds = createdMemberIds.slice(i, i + GEDCOM_IMPORT_BATCH_SIZE);
+        writes.push((batch) =>
+          batch.update(treeRef, {
+            memberUserIds: FieldValue.arrayUnion(...memberIds),
+            updatedAt: FieldValue.serverTimestamp(),
+            lastUpdatedBy: currentUserId,
+          })
+        );
+      }
+
+      // Audit record for the import
+      writes.push((batch) =>
+        batch.set(importRef, {
+          id: importRef.id,
+          familyTreeId,
+          importedBy: currentUserId,
+          gedcomVersion: plan.version,
+          summary: plan.summary,
+          createdMemberIds,
+          linkedMemberIds: plan.people
+            .filter((person) => person.action === "link" && person.existingMemberId)
+            .map((person) => person.existingMemberId),
+          warningCount: plan.warnings.length,
+          createdAt: FieldValue.serverTimestamp(),
+        })
+      );
+
+      // Firestore batches are limited to 500 writes, so commit in chunks
+      for (let i = 0; i < writes.length; i += GEDCOM_IMPORT_BATCH_SIZE) {
+        const batch = db.batch();
+        writes.slice(i, i + GEDCOM_IMPORT_BATCH_SIZE).forEach((write) => write(batch));
+        await batch.commit();
+      }
+
+      logger.info(
+        `User ${currentUserId} imported GEDCOM into family tree ${familyTreeId}: ` +
+          `${createdMemberIds.length} created, ${plan.summary.toLink} linked`
+      );
+
+      return {
+        dryRun: false,
+        plan,
+        importId: importRef.id,
+        createdMemberIds,
+      };
+    },
+    "importGedcom",
+    "verified",
+    {type: RateLimitType.WRITE}
+  )
+);
+
+// MARK: - Member Merging
+
+const MEMBER_MERGE_UNDO_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MEMBER_MERGE_BATCH_SIZE = 400;
+
+const MEMBER_RELATIONSHIP_FIELDS = ["parentIds", "childrenIds", "spouseIds"] as const;
+const MEMBER_RELATIONSHIP_MAP_FIELDS = ["parentLinkTypes", "spouseRelationships"] as const;
+
+// Array fields outside the users collection that reference members by ID
+const MEMBER_REFERENCE_FIELDS: Record<string, string[]> = {
+  stories: ["peopleInvolved", "customAccessMembers"],
+  events: ["invitedMemberIds"],
+  vaultItems: ["sharedWith", "permissions.canRead", "permissions.canWrite"],
+};
+
+// A reference moved from the source to the target member, recorded so the merge can be undone
+interface MemberMergeChange {
+  path: string;
+  field: string;
+  kind: "array" | "map";
+  hadTarget: boolean; // The target was already referenced, so undo must leave it in place
+  value?: unknown; // Map entry that was keyed by the source member
+}
+
+type MergeWrite = (batch: FirebaseFirestore.WriteBatch) => void;
+
+/**
+ * Builds the writes that move one reference from the source member to the target, or back on undo
+ */
+function buildMergeChangeWrites(
+  db: FirebaseFirestore.Firestore,
+  change: MemberMergeChange,
+  sourceId: string,
+  targetId: string,
+  direction: "merge" | "undo"
+): MergeWrite[] {
+  const ref = db.doc(change.path);
+
+  if (change.kind === "map") {
+    const updates: {[key: string]: any} = {
+      [`${change.field}.${sourceId}`]: direction === "merge" ? FieldValue.delete() : change.value,
+    };
+    if (!change.hadTarget) {
+      updates[`${change.field}.${targetId}`] = direction === "merge" ? change.value : FieldValue.delete();
+    }
+    return [(batch) => batch.update(ref, updates)];
+  }
+
+  // arrayRemove and arrayUnion can't target the same field in one update
+  const writes: MergeWrite[] = [
+    (batch) => batch.update(ref, {
+      [change.field]: direction === "merge" ? FieldValue.arrayRemove(sourceId) : FieldValue.arrayUnion(sourceId),
+    }),
+  ];
+  if (!change.hadTarget) {
+    writes.push((batch) => batch.update(ref, {
+      [change.field]: direction === "merge" ? FieldValue.arrayUnion(targetId) : FieldValue.arrayRemove(targetId),
+    }));
+  }
+  return writes;
+}
+
+/**
+ * Commits writes in chunks, since Firestore batches are limited to 500 writes
+ */
+async function commitMergeWrites(db: FirebaseFirestore.Firestore, writes: MergeWrite[]): Promise<void> {
+  for (let i = 0; i < writes.length; i += MEMBER_MERGE_BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + MEMBER_MERGE_BATCH_SIZE).forEach((write) => write(batch));
+    await batch.commit();
+  }
+}
+
+/**
+ * Converts Firestore timestamps to ISO strings so conflicts can be shown to the client
+ */
+function toMergeResponseValue(value: unknown): unknown {
+  return value instanceof Timestamp ? value.toDate().toISOString() : value;
+}
+
+function parseMergeFieldChoices(raw: any): Record<string, MergeFieldChoice> {
+  const choices: Record<string, MergeFieldChoice> = {};
+  Object.entries(raw || {}).forEach(([field, choice]) => {
+    if (!(MERGEABLE_PROFILE_FIELDS as readonly string[]).includes(field)) {
+      throw createError(ErrorCode.INVALID_ARGUMENT, `Field "${field}" can't be chosen when merging members.`);
+    }
+    if (choice !== "source" && choice !== "target") {
+      throw createError(ErrorCode.INVALID_ARGUMENT, "Field choices must be \"source\" or \"target\".");
+    }
+    choices[field] = choice;
+  });
+  return choices;
+}
+
+/**
+ * Ensures the caller administers the family tree and returns its data
+ */
+async function getAdministeredFamilyTree(
+  db: FirebaseFirestore.Firestore,
+  familyTreeId: string,
+  currentUserId: string
+): Promise<FamilyTreeDocument> {
+  const treeDoc = await db.collection("familyTrees").doc(familyTreeId).get();
+  if (!treeDoc.exists) {
+    throw createError(ErrorCode.NOT_FOUND, "Family tree not found");
+  }
+  const treeData = treeDoc.data() as FamilyTreeDocument;
+  if (
+    !treeData.adminUserIds?.includes(currentUserId) &&
+    treeData.ownerUserId !== currentUserId
+  ) {
+    throw createError(
+      ErrorCode.PERMISSION_DENIED,
+      "Only tree administrators can merge members of this tree."
+    );
+  }
+  return treeData;
+}
+
+/**
+ * Lists pairs of members that look like the same person (similar name and birth date)
+ */
+export const findDuplicateMembers = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const currentUserId = request.auth!.uid;
+
+      // Validate and sanitize input using centralized validator
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.findDuplicateMembers,
+        currentUserId
+      );
+
+      const {familyTreeId} = validatedData;
+      const db = getFirestore();
+      await getAdministeredFamilyTree(db, familyTreeId, currentUserId);
+
+      const membersSnapshot = await db
+        .collection("users")
+        .where("familyTreeId", "==", familyTreeId)
+        .select("firstName", "lastName", "displayName", "dateOfBirth", "status", ...MEMBER_RELATIONSHIP_FIELDS)
+        .get();
+
+      const members: DuplicateMemberSummary[] = membersSnapshot.docs.map((doc) => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          firstName: data.firstName,
+          lastName: data.lastName,
+          displayName: data.displayName,
+          dateOfBirth: toDateOrNull(data.dateOfBirth),
+          hasAccount: !!data.status && data.status !== "pending",
+          relatedIds: [...(data.parentIds || []), ...(data.childrenIds || []), ...(data.spouseIds || [])],
+        };
+      });
+
+      return {candidates: findDuplicateCandidates(members)};
+    },
+    "findDuplicateMembers",
+    "verified",
+    {type: RateLimitType.API}
+  )
+);
+
+/**
+ * Merges a duplicate member (source) into another member (target)
+ * Relationships, story tags, event invitations and vault shares move to the target, profile
+ * fields are combined using `fieldChoices` for conflicts, and the source document is kept as
+ * a redirect. With `dryRun` (the default) only the conflicts and affected counts are returned.
+ * The merge can be undone with undoMemberMerge for 30 days.
+ */
+export const mergeFamilyMembers = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.MEDIUM,
+  },
+  withAuth(
+    async (request) => {
+      const currentUserId = request.auth!.uid;
+
+      // Validate and sanitize input using centralized validator
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.mergeFamilyMembers,
+        currentUserId
+      );
+
+      const {familyTreeId, sourceMemberId, targetMemberId} = validatedData;
+      const dryRun = validatedData.dryRun !== false;
+      const fieldChoices = parseMergeFieldChoices(validatedData.fieldChoices);
+      const db = getFirestore();
+
+      if (sourceMemberId === targetMemberId) {
+        throw createError(ErrorCode.INVALID_ARGUMENT, "A member can't be merged into themselves.");
+      }
+      await getAdministeredFamilyTree(db, familyTreeId, currentUserId);
+
+      const [sourceDoc, targetDoc] = await Promise.all([
+        db.collection("users").doc(sourceMemberId).get(),
+        db.collection("users").doc(targetMemberId).get(),
+      ]);
+      const sourceData = sourceDoc.data() as UserDocument | undefined;
+      const targetData = targetDoc.data() as UserDocument | undefined;
+      if (
+        !sourceData || !targetData ||
+        sourceData.familyTreeId !== familyTreeId || targetData.familyTreeId !== familyTreeId
+      ) {
+        throw createError(ErrorCode.NOT_FOUND, "Both members must belong to this family tree.");
+      }
+      if (sourceData.status && sourceData.status !== "pending") {
+        throw createError(
+          ErrorCode.FAILED_PRECONDITION,
+          "This member has an active account. Merge the duplicate into them instead."
+        );
+      }
+      const sourceRelatedIds = MEMBER_RELATIONSHIP_FIELDS.flatMap((field) => sourceData[field] || []);
+      if (sourceRelatedIds.includes(targetMemberId)) {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "Directly related members can't be merged.");
+      }
+
+      const changes: MemberMergeChange[] = [];
+
+      // Relationships stored on other members of the tree
+      const membersSnapshot = await db
+        .collection("users")
+        .where("familyTreeId", "==", familyTreeId)
+        .select(...MEMBER_RELATIONSHIP_FIELDS, ...MEMBER_RELATIONSHIP_MAP_FIELDS)
+        .get();
+      membersSnapshot.docs
+        .filter((doc) => doc.id !== sourceMemberId && doc.id !== targetMemberId)
+        .forEach((doc) => {
+          const data = doc.data();
+          MEMBER_RELATIONSHIP_FIELDS.forEach((field) => {
+            if (data[field]?.includes(sourceMemberId)) {
+              changes.push({
+                path: doc.ref.path,
+                field,
+                kind: "array",
+                hadTarget: data[field].includes(targetMemberId),
+              });
+            }
+          });
+          MEMBER_RELATIONSHIP_MAP_FIELDS.forEach((field) => {
+            if (data[field]?.[sourceMemberId] !== undefined) {
+              changes.push({
+                path: doc.ref.path,
+                field,
+                kind: "map",
+                hadTarget: data[field][targetMemberId] !== undefined,
+                value: data[field][sourceMemberId],
+              });
+            }
+          });
+        });
+
+      // Story tags, event invitations and vault shares
+      for (const [collection, fields] of Object.entries(MEMBER_REFERENCE_FIELDS)) {
+        for (const field of fields) {
+          const snapshot = await db.collection(collection).where(field, "array-contains", sourceMemberId).get();
+          snapshot.docs.forEach((doc) => {
+            changes.push({
+              path: doc.ref.path,
+              field,
+              kind: "array",
+              hadTarget: (doc.get(field) || []).includes(targetMemberId),
+            });
+          });
+        }
+      }
+
+      // Tree membership and admin lists
+      const treeRef = db.collection("familyTrees").doc(familyTreeId);
+      const treeData = (await treeRef.get()).data() as FamilyTreeDocument;
+      (["memberUserIds", "adminUserIds"] as const).forEach((field) => {
+        if (treeData[field]?.includes(sourceMemberId)) {
+          changes.push({
+            path: treeRef.path,
+            field,
+            kind: "array",
+            hadTarget: treeData[field].includes(targetMemberId),
+          });
+        }
+      });
+
+      // Profile fields, then the source's own relationships
+      const {updates: targetUpdates, conflicts} = planProfileMerge(sourceData, targetData, fieldChoices);
+      MEMBER_RELATIONSHIP_FIELDS.forEach((field) => {
+        const merged = new Set([...(targetData[field] || []), ...(sourceData[field] || [])]);
+        if (merged.size > (targetData[field] || []).length) {
+          targetUpdates[field] = Array.from(merged);
+        }
+      });
+      MEMBER_RELATIONSHIP_MAP_FIELDS.forEach((field) => {
+        const sourceEntries = Object.entries(sourceData[field] || {})
+          .filter(([memberId]) => targetData[field]?.[memberId] === undefined);
+        if (sourceEntries.length > 0) {
+          targetUpdates[field] = {...Object.fromEntries(sourceEntries), ...targetData[field]};
+        }
+      });
+
+      if (dryRun) {
+        return {
+          dryRun: true,
+          conflicts: conflicts.map((conflict) => ({
+            field: conflict.field,
+            sourceValue: toMergeResponseValue(conflict.sourceValue),
+            targetValue: toMergeResponseValue(conflict.targetValue),
+          })),
+          updatedFields: Object.keys(targetUpdates),
+          referenceCount: changes.length,
+        };
+      }
+
+      // Previous values of every target field that changes, so undo can restore them
+      const targetFields = Object.keys(targetUpdates);
+      const targetBefore: Record<string, unknown> = {};
+      targetFields.forEach((field) => {
+        if (targetData[field] !== undefined) targetBefore[field] = targetData[field];
+      });
+
+      const mergeRef = db.collection("memberMerges").doc();
+      const auditRef = db.collection("familyTreeAuditLogs").doc();
+      const undoExpiresAt = Timestamp.fromMillis(Date.now() + MEMBER_MERGE_UNDO_WINDOW_MS);
+
+      // The merge record is written first so a partially applied merge can still be undone
+      const writes: MergeWrite[] = [
+        (batch) => batch.set(mergeRef, {
+          id: mergeRef.id,
+          familyTreeId,
+          sourceMemberId,
+          targetMemberId,
+          mergedBy: currentUserId,
+          fieldChoices,
+          sourceSnapshot: sourceData,
+          targetFields,
+          targetBefore,
+          changes,
+          status: "completed",
+          createdAt: FieldValue.serverTimestamp(),
+          undoExpiresAt,
+        }),
+        (batch) => batch.update(targetDoc.ref, {
+          ...targetUpdates,
+          updatedAt: FieldValue.serverTimestamp(),
+        }),
+        // The source becomes a redirect and drops out of the tree
+        (batch) => batch.update(sourceDoc.ref, {
+          mergedInto: targetMemberId,
+          mergeId: mergeRef.id,
+          mergedAt: FieldValue.serverTimestamp(),
+          familyTreeId: FieldValue.delete(),
+          updatedAt: FieldValue.serverTimestamp(),
+        }),
+        (batch) => batch.set(auditRef, {
+          familyTreeId,
+          action: "merge_members",
+          performedBy: currentUserId,
+          targetUserId: targetMemberId,
+          timestamp: FieldValue.serverTimestamp(),
+          metadata: {
+            mergeId: mergeRef.id,
+            sourceMemberId,
+            updatedFields: targetFields,
+            referenceCount: changes.length,
+          },
+        }),
+      ];
+      changes.forEach((change) => {
+        writes.push(...buildMergeChangeWrites(db, change, sourceMemberId, targetMemberId, "merge"));
+      });
+      await commitMergeWrites(db, writes);
+
+      logger.info(
+        `User ${currentUserId} merged member ${sourceMemberId} into ${targetMemberId} ` +
+          `in family tree ${familyTreeId} (${changes.length} references moved)`
+      );
+
+      return {
+        dryRun: false,
+        mergeId: mergeRef.id,
+        targetMemberId,
+        referenceCount: changes.length,
+        undoExpiresAt: undoExpiresAt.toDate().toISOString(),
+      };
+    },
+    "mergeFamilyMembers",
+    "verified",
+    {type: RateLimitType.WRITE}
+  )
+);
+
+/**
+ * Reverses a member merge within the undo window, restoring the source member and every
+ * reference that was moved to the target
+ */
+export const undoMemberMerge = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.MEDIUM,
+  },
+  withAuth(
+    async (request) => {
+      const currentUserId = request.auth!.uid;
+
+      // Validate and sanitize input using centralized validator
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.undoMemberMerge,
+        currentUserId
+      );
+
+      const {mergeId} = validatedData;
+      const db = getFirestore();
+
+      const mergeRef = db.collection("memberMerges").doc(mergeId);
+      const mergeDoc = await mergeRef.get();
+      if (!mergeDoc.exists) {
+        throw createError(ErrorCode.NOT_FOUND, "Merge not found");
+      }
+      const merge = mergeDoc.data()!;
+      await getAdministeredFamilyTree(db, merge.familyTreeId, currentUserId);
+
+      if (merge.status !== "completed") {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "This merge has already been undone.");
+      }
+      if ((merge.undoExpiresAt as Timestamp).toMillis() < Date.now()) {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "This merge can no longer be undone.");
+      }
+
+      const {sourceMemberId, targetMemberId} = merge;
+      const changes = merge.changes as MemberMergeChange[];
+
+      // Skip references on documents that were deleted since the merge
+      const changedRefs = Array.from(new Set(changes.map((change) => change.path))).map((path) => db.doc(path));
+      const existingPaths = new Set(
+        changedRefs.length > 0 ?
+          (await db.getAll(...changedRefs)).filter((doc) => doc.exists).map((doc) => doc.ref.path) :
+          []
+      );
+
+      const targetRestore: {[key: string]: any} = {updatedAt: FieldValue.serverTimestamp()};
+      (merge.targetFields as string[]).forEach((field) => {
+        targetRestore[field] = field in merge.targetBefore ? merge.targetBefore[field] : FieldValue.delete();
+      });
+
+      const auditRef = db.collection("familyTreeAuditLogs").doc();
+      const writes: MergeWrite[] = [
+        (batch) => batch.update(db.collection("users").doc(targetMemberId), targetRestore),
+        (batch) => batch.update(db.collection("users").doc(sourceMemberId), {
+          familyTreeId: merge.familyTreeId,
+          mergedInto: FieldValue.delete(),
+          mergeId: FieldValue.delete(),
+          mergedAt: FieldValue.delete(),
+          updatedAt: FieldValue.serverTimestamp(),
+        }),
+      ];
+      changes
+        .filter((change) => existingPaths.has(change.path))
+        .forEach((change) => {
+          writes.push(...buildMergeChangeWrites(db, change, sourceMemberId, targetMemberId, "undo"));
+        });
+      writes.push(
+        (batch) => batch.update(mergeRef, {
+          status: "undone",
+          undoneBy: currentUserId,
+          undoneAt: FieldValue.serverTimestamp(),
+        }),
+        (batch) => batch.set(auditRef, {
+          familyTreeId: merge.familyTreeId,
+          action: "undo_merge_members",
+          performedBy: currentUserId,
+          targetUserId: targetMemberId,
+          timestamp: FieldValue.serverTimestamp(),
+          metadata: {mergeId, sourceMemberId},
+        })
+      );
+      await commitMergeWrites(db, writes);
+
+      logger.info(`User ${currentUserId} undid member merge ${mergeId} in family tree ${merge.familyTreeId}`);
+
+      return {success: true, sourceMemberId, targetMemberId};
+    },
+    "undoMemberMerge",
+    "verified",
+    {type: RateLimitType.WRITE}
+  )
+);
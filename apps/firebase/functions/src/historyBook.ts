@@ -0,0 +1,398 @@
+import {onCall} from "firebase-functions/v2/https";
+import {onDocumentCreated} from "firebase-functions/v2/firestore";
+import {getFirestore, FieldValue, Timestamp} from "firebase-admin/firestore";
+import {getStorage} from "firebase-admin/storage";
+import {logger} from "firebase-functions/v2";
+import {DEFAULT_REGION, FUNCTION_TIMEOUT, DEFAULT_MEMORY} from "./common";
+import {createError, ErrorCode} from "./utils/errors";
+import {withAuth, RateLimitType} from "./middleware";
+import {validateRequest} from "./utils/request-validator";
+import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
+import {shouldRedactForExport} from "./utils/gedcom";
+import {
+  assignGenerations,
+  buildTimeline,
+  groupStoriesByDecade,
+  HistoryBookMember,
+  HistoryBookStory,
+} from "./utils/historyBook";
+import {renderHistoryBookPdf} from "./utils/historyBookPdf";
+
+// MARK: - Types
+
+type HistoryBookStatus = "queued" | "processing" | "completed" | "failed";
+
+interface HistoryBookJob {
+  id: string;
+  userId: string;
+  familyTreeId: string;
+  title: string;
+  subtitle?: string | null;
+  storyIds: string[];
+  includeFamilyTree: boolean;
+  includeTimeline: boolean;
+  status: HistoryBookStatus;
+  progress: number; // 0-100
+  stage: string;
+  storagePath?: string;
+  pageCount?: number;
+  error?: string;
+  createdAt: Timestamp;
+  completedAt?: Timestamp;
+}
+
+// MARK: - Constants
+
+const HISTORY_BOOKS_COLLECTION = "historyBooks";
+const HISTORY_BOOK_URL_EXPIRY_MS = 60 * 60 * 1000; // 1 hour
+const HISTORY_BOOK_LIST_LIMIT = 10;
+const HISTORY_BOOK_MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const HISTORY_BOOK_IMAGE_TIMEOUT_MS = 15000;
+const FIRESTORE_GET_ALL_CHUNK = 100;
+
+// MARK: - Helper Functions
+
+const toDateOrNull = (value: any): Date | null => {
+  if (!value) return null;
+  const date = typeof value.toDate === "function" ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const getMemberName = (data: FirebaseFirestore.DocumentData): string =>
+  data.displayName || `${data.firstName || ""} ${data.lastName || ""}`.trim() || "Unknown member";
+
+/**
+ * Reads documents by ID in chunks, skipping any that don't exist
+ */
+async function getDocsById(
+  db: FirebaseFirestore.Firestore,
+  collection: string,
+  ids: string[]
+): Promise<Map<string, FirebaseFirestore.DocumentData>> {
+  const docs = new Map<string, FirebaseFirestore.DocumentData>();
+  for (let i = 0; i < ids.length; i += FIRESTORE_GET_ALL_CHUNK) {
+    const refs = ids.slice(i, i + FIRESTORE_GET_ALL_CHUNK).map((id) => db.collection(collection).doc(id));
+    const snapshots = refs.length > 0 ? await db.getAll(...refs) : [];
+    snapshots.forEach((snapshot) => {
+      if (snapshot.exists) docs.set(snapshot.id, snapshot.data()!);
+    });
+  }
+  return docs;
+}
+
+/**
+ * Whether a user can read a story (same rules as the story feed)
+ */
+function canReadStory(story: FirebaseFirestore.DocumentData, userId: string, familyTreeId: string): boolean {
+  if (story.isDeleted) return false;
+  if (story.authorID === userId) return true;
+  if (story.familyTreeId !== familyTreeId) return false;
+  return story.privacy === "family" ||
+    (story.privacy === "custom" && story.customAccessMembers?.includes(userId));
+}
+
+/**
+ * Downloads a story image for embedding, giving up on slow or oversized files
+ */
+async function loadStoryImage(url: string): Promise<Uint8Array | null> {
+  try {
+    const response = await fetch(url, {signal: AbortSignal.timeout(HISTORY_BOOK_IMAGE_TIMEOUT_MS)});
+    if (!response.ok) return null;
+    if (Number(response.headers.get("content-length") || 0) > HISTORY_BOOK_MAX_IMAGE_BYTES) return null;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return bytes.length > HISTORY_BOOK_MAX_IMAGE_BYTES ? null : bytes;
+  } catch (error) {
+    logger.warn("Failed to load story image for history book", {url, error});
+    return null;
+  }
+}
+
+/**
+ * Shapes a job for clients, with a download link once the PDF is ready
+ */
+async function toHistoryBookResponse(job: HistoryBookJob) {
+  let downloadUrl: string | undefined;
+  let expiresAt: string | undefined;
+  if (job.status === "completed" && job.storagePath) {
+    const expires = Date.now() + HISTORY_BOOK_URL_EXPIRY_MS;
+    const fileName = `${job.title.replace(/[^a-zA-Z0-9_-]+/g, "-").toLowerCase() || "history-book"}.pdf`;
+    [downloadUrl] = await getStorage().bucket().file(job.storagePath).getSignedUrl({
+      version: "v4",
+      action: "read",
+      expires,
+      responseDisposition: `attachment; filename="${fileName}"`,
+    });
+    expiresAt = new Date(expires).toISOString();
+  }
+
+  return {
+    id: job.id,
+    title: job.title,
+    status: job.status,
+    progress: job.progress,
+    stage: job.stage,
+    storyCount: job.storyIds.length,
+    pageCount: job.pageCount || null,
+    error: job.error || null,
+    createdAt: job.createdAt?.toDate().toISOString() || null,
+    downloadUrl,
+    expiresAt,
+  };
+}
+
+// MARK: - Cloud Functions
+
+/**
+ * Queues a printable History Book PDF made from selected stories
+ * The PDF is generated in the background; poll getHistoryBook for progress.
+ */
+export const requestHistoryBook = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const currentUserId = request.auth!.uid;
+
+      // Validate and sanitize input using centralized validator
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.requestHistoryBook,
+        currentUserId
+      );
+
+      const storyIds: string[] = Array.from(new Set(validatedData.storyIds));
+      if (storyIds.length === 0 || storyIds.some((id) => typeof id !== "string" || !id)) {
+        throw createError(ErrorCode.INVALID_ARGUMENT, "Select at least one story for the book.");
+      }
+      const db = getFirestore();
+
+      const userDoc = await db.collection("users").doc(currentUserId).get();
+      const familyTreeId = userDoc.data()?.familyTreeId;
+      if (!familyTreeId) {
+        throw createError(ErrorCode.NOT_FOUND, "No family tree found for this user");
+      }
+
+      const stories = await getDocsById(db, "stories", storyIds);
+      const unreadable = storyIds.filter((id) => !stories.has(id) || !canReadStory(stories.get(id)!, currentUserId, familyTreeId));
+      if (unreadable.length > 0) {
+        throw createError(ErrorCode.PERMISSION_DENIED, "Some of the selected stories are not available to you.");
+      }
+
+      const bookRef = db.collection(HISTORY_BOOKS_COLLECTION).doc();
+      await bookRef.set({
+        id: bookRef.id,
+        userId: currentUserId,
+        familyTreeId,
+        title: validatedData.title,
+        subtitle: validatedData.subtitle || null,
+        storyIds,
+        includeFamilyTree: validatedData.includeFamilyTree !== false,
+        includeTimeline: validatedData.includeTimeline !== false,
+        status: "queued",
+        progress: 0,
+        stage: "Waiting to start",
+        createdAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+
+      logger.info(`User ${currentUserId} requested history book ${bookRef.id} with ${storyIds.length} stories`);
+      return {bookId: bookRef.id};
+    },
+    "requestHistoryBook",
+    "verified",
+    {type: RateLimitType.MEDIA}
+  )
+);
+
+/**
+ * Generates the PDF for a queued History Book, reporting progress on the job document
+ */
+export const generateHistoryBook = onDocumentCreated(
+  {
+    document: `${HISTORY_BOOKS_COLLECTION}/{bookId}`,
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.LARGE,
+    timeoutSeconds: FUNCTION_TIMEOUT.LONG,
+  },
+  async (event) => {
+    const snapshot = event.data;
+    if (!snapshot) {
+      logger.error("No data associated with the event");
+      return;
+    }
+
+    const job = snapshot.data() as HistoryBookJob;
+    const bookRef = snapshot.ref;
+    const db = getFirestore();
+
+    // Progress writes are throttled to one per 5%
+    let lastProgress = -1;
+    const reportProgress = async (progress: number, stage: string) => {
+      const percent = Math.round(progress * 100);
+      if (percent - lastProgress < 5 && percent < 100) return;
+      lastProgress = percent;
+      await bookRef.update({status: "processing", progress: percent, stage, updatedAt: FieldValue.serverTimestamp()});
+    };
+
+    try {
+      await reportProgress(0, "Gathering stories");
+
+      const storyDocs = await getDocsById(db, "stories", job.storyIds);
+      const authorIds = Array.from(new Set(Array.from(storyDocs.values()).map((story) => story.authorID)));
+      const [authors, membersSnapshot] = await Promise.all([
+        getDocsById(db, "users", authorIds.filter(Boolean)),
+        job.includeFamilyTree || job.includeTimeline ?
+          db
+            .collection("users")
+            .where("familyTreeId", "==", job.familyTreeId)
+            .select(
+              "firstName",
+              "lastName",
+              "displayName",
+              "dateOfBirth",
+              "dateOfDeath",
+              "isDeceased",
+              "parentIds",
+              "spouseIds",
+              "privacySettings"
+            )
+            .get() :
+          null,
+      ]);
+
+      const stories: HistoryBookStory[] = job.storyIds
+        .filter((id) => storyDocs.has(id) && !storyDocs.get(id)!.isDeleted)
+        .map((id) => {
+          const story = storyDocs.get(id)!;
+          const author = authors.get(story.authorID);
+          return {
+            id,
+            title: story.title || "Untitled story",
+            subtitle: story.subtitle,
+            authorName: author ? getMemberName(author) : undefined,
+            date: toDateOrNull(story.eventDate) || toDateOrNull(story.createdAt),
+            location: story.location?.address,
+            // Encrypted media can't be read on the server
+            blocks: (story.blocks || []).filter((block: any) => !block.isEncrypted),
+          };
+        });
+
+      // Living members with private profiles are left out, as in GEDCOM exports
+      const members: HistoryBookMember[] = (membersSnapshot?.docs || [])
+        .filter((doc) => doc.id === job.userId || !shouldRedactForExport({
+          profileVisibility: doc.data().privacySettings?.profileVisibility,
+          isDeceased: doc.data().isDeceased,
+          dateOfDeath: toDateOrNull(doc.data().dateOfDeath),
+        }))
+        .map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            name: getMemberName(data),
+            dateOfBirth: toDateOrNull(data.dateOfBirth),
+            dateOfDeath: toDateOrNull(data.dateOfDeath),
+            parentIds: data.parentIds || [],
+            spouseIds: data.spouseIds || [],
+          };
+        });
+
+      const {pdf, pageCount} = await renderHistoryBookPdf(
+        {
+          title: job.title,
+          subtitle: job.subtitle || undefined,
+          chapters: groupStoriesByDecade(stories),
+          familyTree: job.includeFamilyTree ? assignGenerations(members) : undefined,
+          timeline: job.includeTimeline ? buildTimeline(members, stories) : undefined,
+        },
+        {loadImage: loadStoryImage, onProgress: reportProgress}
+      );
+
+      const storagePath = `exports/history-books/${job.userId}/${job.id}.pdf`;
+      await getStorage().bucket().file(storagePath).save(Buffer.from(pdf), {contentType: "application/pdf"});
+
+      await bookRef.update({
+        status: "completed",
+        progress: 100,
+        stage: "Ready to download",
+        storagePath,
+        pageCount,
+        fileSize: pdf.length,
+        completedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      logger.info(`Generated history book ${job.id}`, {userId: job.userId, pageCount, stories: stories.length});
+    } catch (error) {
+      logger.error(`Failed to generate history book ${job.id}`, error);
+      await bookRef.update({
+        status: "failed",
+        stage: "Failed",
+        error: "The book could not be generated. Please try again.",
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    }
+  }
+);
+
+/**
+ * Returns the progress of a History Book and a download link once it is ready
+ */
+export const getHistoryBook = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const currentUserId = request.auth!.uid;
+
+      // Validate and sanitize input using centralized validator
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.getHistoryBook,
+        currentUserId
+      );
+
+      const bookDoc = await getFirestore().collection(HISTORY_BOOKS_COLLECTION).doc(validatedData.bookId).get();
+      const job = bookDoc.data() as HistoryBookJob | undefined;
+      if (!job || job.userId !== currentUserId) {
+        throw createError(ErrorCode.NOT_FOUND, "History book not found");
+      }
+
+      return toHistoryBookResponse(job);
+    },
+    "getHistoryBook",
+    "verified",
+    {type: RateLimitType.API}
+  )
+);
+
+/**
+ * Lists the caller's most recent History Books
+ */
+export const getHistoryBooks = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.SHORT,
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const snapshot = await getFirestore()
+        .collection(HISTORY_BOOKS_COLLECTION)
+        .where("userId", "==", request.auth!.uid)
+        .orderBy("createdAt", "desc")
+        .limit(HISTORY_BOOK_LIST_LIMIT)
+        .get();
+
+      const books = await Promise.all(snapshot.docs.map((doc) => toHistoryBookResponse(doc.data() as HistoryBookJob)));
+      return {books};
+    },
+    "getHistoryBooks",
+    "verified",
+    {type: RateLimitType.API}
+  )
+);
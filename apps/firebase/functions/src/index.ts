@@ -75,13 +75,17 @@ if (!admin.apps.length) {
 // Export all functions
 export * from "./familyTree";
 export * from "./stories";
+export * from "./historyBook"; // Printable History Book PDFs
 export * from "./auth/index"; // Modular auth functions (user management, authentication, passwords, etc.)
 export * from "./api"; // HTTP API endpoints
 export * from "./events-service"; // Consolidated event management functions
+export * from "./calendarFeed"; // Subscribable iCalendar feeds of family events
 export * from "./notifications"; // Notification functions
 export * from "./vault"; // V1 Vault functions (legacy) - V2 handlers available via versioned router
 export * from "./vault-scan-hooks"; // Vault malware scanning webhooks
 export * from "./vault-scanning"; // Vault scanning processing functions
+export * from "./vault-thumbnails"; // Thumbnails and previews for unencrypted vault media
+export * from "./vault-bulk-operations"; // Bulk vault operations (delete, move, share, tag, ...)
 export * from "./placesApi";
 export * from "./encryption"; // End-to-end encryption functions
 export * from "./support"; // Support and contact functions
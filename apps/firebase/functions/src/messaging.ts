@@ -5,6 +5,7 @@ import {createError, ErrorCode, handleError} from "./utils/errors";
 import {sanitizeUserInput, detectXSSPatterns, logXSSAttempt} from "./utils/xssSanitization";
 import {validateRequest} from "./utils/request-validator";
 import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
+import {getMessageEventError, isMessageEventType, MessageEventTarget} from "./utils/messageEvents";
 
 // Initialize if not already done
 if (!admin.apps.length) {
@@ -17,9 +18,11 @@ const messaging = admin.messaging();
 interface MessageData {
   text?: string;
   mediaUrls?: string[];
-  type: "text" | "media" | "voice" | "file";
+  type: "text" | "media" | "voice" | "file" | "reaction" | "edit" | "delete";
   encryptedContent?: Record<string, string>; // For E2EE messages
   metadata?: any;
+  targetMessageId?: string; // Message a reaction, edit or deletion applies to
+  replyToId?: string;
 }
 
 /**
@@ -37,12 +40,26 @@ export const sendMessage = onCall(
       const {chatId, message} = validatedData;
 
       // Validate message structure
-      const {text, mediaUrls, type = "text", encryptedContent, metadata} = message as MessageData;
-
-      if (!type || !["text", "media", "voice", "file"].includes(type)) {
+      const {
+        text,
+        mediaUrls,
+        type = "text",
+        encryptedContent,
+        metadata,
+        targetMessageId,
+        replyToId,
+      } = message as MessageData;
+
+      if (!type || (!["text", "media", "voice", "file"].includes(type) && !isMessageEventType(type))) {
         throw createError(ErrorCode.INVALID_ARGUMENT, "Invalid message type");
       }
 
+      // Reactions, edits and deletions are encrypted and must point at a message
+      const isEvent = isMessageEventType(type);
+      if (isEvent && (!encryptedContent || !targetMessageId)) {
+        throw createError(ErrorCode.INVALID_ARGUMENT, "Message events need encrypted content and a target");
+      }
+
       // Get chat details
       const chatDoc = await db.collection("chats").doc(chatId).get();
       if (!chatDoc.exists) {
@@ -56,6 +73,17 @@ export const sendMessage = onCall(
         throw createError(ErrorCode.PERMISSION_DENIED, "You are not a participant in this chat");
       }
 
+      if (isEvent) {
+        const targetDoc = await chatDoc.ref.collection("messages").doc(targetMessageId!).get();
+        const eventError = getMessageEventError(type, senderId, targetDoc.data() as MessageEventTarget | undefined);
+        if (eventError) {
+          throw createError(
+            targetDoc.exists ? ErrorCode.PERMISSION_DENIED : ErrorCode.NOT_FOUND,
+            eventError
+          );
+        }
+      }
+
       // Get sender details
       const senderDoc = await db.collection("users").doc(senderId).get();
       const senderData = senderDoc.data()!;
@@ -71,8 +99,18 @@ export const sendMessage = onCall(
         metadata: metadata || {},
       };
 
+      if (isEvent) {
+        messageData.targetMessageId = targetMessageId;
+      } else if (replyToId) {
+        messageData.replyToId = replyToId;
+      }
+
       // Handle different message types
-      if (chat.encryptionEnabled && encryptedContent) {
+      if (isEvent) {
+        // The onMessageCreated trigger applies the event and sends any notification
+        messageData.isEncrypted = true;
+        messageData.encryptedContent = encryptedContent;
+      } else if (chat.encryptionEnabled && encryptedContent) {
         // Encrypted message
         messageData.isEncrypted = true;
         messageData.encryptedContent = encryptedContent;
@@ -121,57 +159,25 @@ export const sendMessage = onCall(
         .collection("messages")
         .add(messageData);
 
-      // Update chat metadata
-      await db
-        .collection("chats")
-        .doc(chatId)
-        .update({
-          lastMessage: messageData,
-          lastMessageAt: admin.firestore.FieldValue.serverTimestamp(),
-          messageCount: admin.firestore.FieldValue.increment(1),
-        });
+      if (isEvent) {
+        return {
+          success: true,
+          messageId: messageRef.id,
+          timestamp: admin.firestore.FieldValue.serverTimestamp(),
+        };
+      }
+
+      // The onMessageCreated trigger counts the message, keeps lastMessageAt and
+      // notifies the other participants, so only the preview is kept here
+      await db.collection("chats").doc(chatId).update({
+        lastMessage: messageData,
+      });
 
       // Update last read for sender
       await db.collection("users").doc(senderId).collection("chats").doc(chatId).update({
         lastRead: admin.firestore.FieldValue.serverTimestamp(),
       });
 
-      // Trigger push notifications for other participants
-      try {
-        const {createAndSendNotification} = await import("./utils/notificationHelpers");
-        const senderDoc = await db.collection("users").doc(senderId).get();
-        const senderName = senderDoc.exists 
-          ? senderDoc.data()?.displayName || senderDoc.data()?.email 
-          : "Someone";
-
-        // Send notifications to all participants except the sender
-        const recipientIds = participants.filter(id => id !== senderId);
-        const notificationPromises = recipientIds.map(userId => 
-          createAndSendNotification({
-            userId,
-            title: chat.type === "direct" ? senderName : chat.name || "Group Chat",
-            body: sanitizedMessageData.text?.substring(0, 100) || 
-                  (sanitizedMessageData.media ? "Sent a photo" : "Sent a message"),
-            type: "message:new",
-            relatedItemId: chatId,
-            link: `/chat/${chatId}`,
-            data: {
-              chatId,
-              messageId: messageRef.id,
-              senderId,
-              senderName,
-              chatType: chat.type,
-            },
-          })
-        );
-
-        await Promise.all(notificationPromises);
-        logger.info(`Sent ${recipientIds.length} message notifications`);
-      } catch (error) {
-        logger.error("Failed to send message notifications", {error});
-        // Don't fail the message send if notifications fail
-      }
-
       return {
         success: true,
         messageId: messageRef.id,
@@ -227,12 +233,24 @@ export const sendMessageNotification = onCall(
 
       const message = messageDoc.data()!;
 
+      // Edits and deletions are silent
+      if (message.type === "edit" || message.type === "delete") {
+        return {success: true, sent: 0};
+      }
+
       // Get sender details
       const senderDoc = await db.collection("users").doc(senderId).get();
       const senderName = senderDoc.data()?.displayName || "Someone";
 
       // Get recipients (all participants except sender)
-      const recipients = chat.participants.filter((p: string) => p !== senderId);
+      let recipients = chat.participants.filter((p: string) => p !== senderId);
+
+      // A reaction only notifies the author of the message reacted to
+      if (message.type === "reaction") {
+        const targetDoc = await chatDoc.ref.collection("messages").doc(message.targetMessageId).get();
+        const targetSenderId = targetDoc.data()?.senderId;
+        recipients = recipients.filter((p: string) => p === targetSenderId);
+      }
 
       // MARK: - Optimized FCM Token Fetching
       // Reduced from O(m) to O(ceil(m/10)) database reads using Firestore 'in' queries
@@ -515,6 +533,8 @@ function getNotificationBody(messageType: string): string {
     return "📷 Sent a photo";
   case "file":
     return "📎 Sent a file";
+  case "reaction":
+    return "Reacted to your message";
   default:
     return "Sent you a message";
   }
@@ -433,12 +433,12 @@ export async function checkRateLimit(
 
 /**
  * Check rate limit for unauthenticated requests using IP address
- * @param request Firebase callable request
+ * @param request Firebase callable request, or `{rawRequest: request}` in an HTTP function
  * @param config Rate limit configuration
  * @throws HttpsError if rate limit is exceeded
  */
 export async function checkRateLimitByIP(
-  request: CallableRequest,
+  request: Pick<CallableRequest, "rawRequest">,
   config: RateLimitConfig = {}
 ): Promise<void> {
   const {type = RateLimitType.AUTH} = config;
@@ -2,7 +2,7 @@
 
 import {onCall} from "firebase-functions/v2/https";
 import {logger} from "firebase-functions/v2";
-import {getFirestore, FieldValue} from "firebase-admin/firestore";
+import {getFirestore, FieldValue, Timestamp} from "firebase-admin/firestore";
 import {getMessaging} from "firebase-admin/messaging";
 import {DEFAULT_REGION, FUNCTION_TIMEOUT} from "./common";
 import {createError, withErrorHandling, ErrorCode} from "./utils/errors";
@@ -10,6 +10,19 @@ import {onDocumentCreated, onDocumentUpdated} from "firebase-functions/v2/firest
 import {onSchedule} from "firebase-functions/v2/scheduler";
 import {validateRequest} from "./utils/request-validator";
 import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
+import {
+  DEFAULT_FAMILY_DATE_LEAD_DAYS,
+  FamilyOccasionMember,
+  describeFamilyOccasion,
+  getFamilyOccasionsBetween,
+  getFamilyOccasionsOn,
+} from "./utils/familyOccasions";
+import {
+  applyMessageEvent,
+  getMessageEventNotificationBody,
+  isMessageEventType,
+} from "./utils/messageEvents";
+import {getMessageExpiry} from "./utils/disappearingMessages";
 
 const db = getFirestore();
 const messaging = getMessaging();
@@ -31,6 +44,45 @@ function getTokenPreview(token: string | undefined | null): string {
   return `${token.substring(0, 5)}...`;
 }
 
+/**
+ * Converts a stored date value (Timestamp, Date or string) to a Date
+ */
+function toDateOrNull(value: any): Date | null {
+  if (!value) return null;
+  if (typeof value.toDate === "function") return value.toDate();
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Loads the members of a family tree with the dates used for occasion reminders
+ */
+async function getFamilyOccasionMembers(familyTreeId: string): Promise<FamilyOccasionMember[]> {
+  const membersSnapshot = await db.collection("users")
+    .where("familyTreeId", "==", familyTreeId)
+    .select("firstName", "lastName", "displayName", "dateOfBirth", "dateOfDeath", "isDeceased", "spouseRelationships")
+    .get();
+
+  return membersSnapshot.docs.map((doc) => {
+    const data = doc.data();
+    // Only current marriages are celebrated; divorced, widowed and partner links are skipped
+    const marriageDates: Record<string, Date | null> = {};
+    Object.entries(data.spouseRelationships || {}).forEach(([spouseId, relationship]: [string, any]) => {
+      if (relationship?.status === "married" && relationship.startDate) {
+        marriageDates[spouseId] = toDateOrNull(relationship.startDate);
+      }
+    });
+    return {
+      id: doc.id,
+      name: data.displayName || `${data.firstName || ""} ${data.lastName || ""}`.trim() || "A family member",
+      dateOfBirth: toDateOrNull(data.dateOfBirth),
+      dateOfDeath: toDateOrNull(data.dateOfDeath),
+      isDeceased: data.isDeceased === true,
+      marriageDates,
+    };
+  });
+}
+
 // MARK: - Types
 
 interface NotificationData {
@@ -58,6 +110,7 @@ type NotificationType =
   | "event:reminder"
   | "event:rsvp"
   | "family:invitation"
+  | "family:occasion"
   | "system:announcement"
   | "message:new";
 
@@ -69,6 +122,10 @@ interface UserDevice {
   lastActive: any;
 }
 
+// Days covered by the "This week in your family" feed card
+const FAMILY_OCCASION_WINDOW_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 // MARK: - Helper Functions
 
 /**
@@ -513,6 +570,59 @@ export const sendTestNotification = onCall({
   };
 }, "sendTestNotification"));
 
+/**
+ * Save the user's notification preferences, including family date reminders
+ */
+export const updateNotificationPreferences = onCall({
+  region: DEFAULT_REGION,
+  timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+}, withErrorHandling(async (request) => {
+  const {auth} = request;
+
+  if (!auth) {
+    throw createError(ErrorCode.UNAUTHENTICATED, "You must be logged in to update notification preferences");
+  }
+
+  // Validate and sanitize input using centralized validator
+  const validatedData = validateRequest(
+    request.data,
+    VALIDATION_SCHEMAS.updateNotificationPreferences,
+    auth.uid
+  );
+
+  await db.collection("users").doc(auth.uid).set({
+    notificationPreferences: validatedData,
+    notificationPreferencesUpdatedAt: FieldValue.serverTimestamp(),
+  }, {merge: true});
+  return {success: true, message: "Notification preferences updated"};
+}, "updateNotificationPreferences"));
+
+/**
+ * Get the birthdays, anniversaries and remembrance days in the user's family tree this week
+ */
+export const getUpcomingFamilyOccasions = onCall({
+  region: DEFAULT_REGION,
+  timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+}, withErrorHandling(async (request) => {
+  const {auth} = request;
+
+  if (!auth) {
+    throw createError(ErrorCode.UNAUTHENTICATED, "You must be logged in to view family occasions");
+  }
+
+  const userDoc = await db.collection("users").doc(auth.uid).get();
+  const familyTreeId = userDoc.data()?.familyTreeId;
+  if (!familyTreeId) {
+    return {success: true, occasions: []};
+  }
+
+  const members = await getFamilyOccasionMembers(familyTreeId);
+  return {
+    success: true,
+    occasions: getFamilyOccasionsBetween(members, new Date(), FAMILY_OCCASION_WINDOW_DAYS),
+  };
+}, "getUpcomingFamilyOccasions"));
+
 /**
  * Cleanup duplicate device tokens - keeps only the most recent token per user
  * This function is callable manually when needed
@@ -960,10 +1070,85 @@ export const sendEventReminders = onSchedule({
 });
 
 /**
- * Create notification when a new message is sent
+ * Create birthday, wedding anniversary and remembrance-day reminders for members
+ * who opted in, sent the number of days ahead chosen in their preferences
+ */
+export const sendFamilyDateReminders = onSchedule({
+  schedule: "every day 08:00",
+  timeZone: "UTC",
+  region: DEFAULT_REGION,
+  timeoutSeconds: FUNCTION_TIMEOUT.LONG,
+}, async () => {
+  try {
+    const now = new Date();
+
+    const recipientsSnapshot = await db.collection("users")
+      .where("notificationPreferences.familyDates", "==", true)
+      .select("familyTreeId", "notificationPreferences")
+      .get();
+
+    if (recipientsSnapshot.empty) {
+      logger.info("No users opted in to family date reminders");
+      return;
+    }
+
+    // Group recipients by tree so each tree's members are loaded once
+    const recipientsByTree = new Map<string, Array<{userId: string; leadDays: number}>>();
+    recipientsSnapshot.docs.forEach((doc) => {
+      const data = doc.data();
+      if (!data.familyTreeId || data.notificationPreferences?.enabled === false) {
+        return;
+      }
+      const recipients = recipientsByTree.get(data.familyTreeId) || [];
+      recipients.push({
+        userId: doc.id,
+        leadDays: data.notificationPreferences?.familyDatesLeadDays ?? DEFAULT_FAMILY_DATE_LEAD_DAYS,
+      });
+      recipientsByTree.set(data.familyTreeId, recipients);
+    });
+
+    let sentCount = 0;
+    for (const [familyTreeId, recipients] of recipientsByTree) {
+      const members = await getFamilyOccasionMembers(familyTreeId);
+
+      for (const {userId, leadDays} of recipients) {
+        const occasions = getFamilyOccasionsOn(members, new Date(now.getTime() + leadDays * DAY_MS));
+
+        for (const occasion of occasions) {
+          // Nobody needs reminding of their own birthday or anniversary
+          if (occasion.type !== "memorial" && occasion.memberIds.includes(userId)) {
+            continue;
+          }
+
+          const {title, body} = describeFamilyOccasion(occasion, leadDays);
+          const notification: NotificationData = {
+            userId,
+            title,
+            body,
+            type: "family:occasion",
+            relatedItemId: occasion.memberIds[0],
+            link: `/member-profile/${occasion.memberIds[0]}`,
+            isRead: false,
+          };
+
+          await createAndSendNotification(notification);
+          sentCount++;
+        }
+      }
+    }
+
+    logger.info(`Sent ${sentCount} family date reminders across ${recipientsByTree.size} family trees`);
+  } catch (error) {
+    logger.error("Error sending family date reminders:", error);
+  }
+});
+
+/**
+ * Create notification when a new message is sent. Message content is end-to-end
+ * encrypted, so notifications only say what kind of message arrived.
  */
 export const onMessageCreated = onDocumentCreated({
-  document: "messages/{messageId}",
+  document: "chats/{chatId}/messages/{messageId}",
   region: DEFAULT_REGION,
 }, async (_event) => {
   try {
@@ -974,7 +1159,7 @@ export const onMessageCreated = onDocumentCreated({
     }
 
     const messageData = snapshot.data();
-    const chatId = messageData.chatId;
+    const chatId = _event.params.chatId;
     const senderId = messageData.senderId;
     const messageText = messageData.text || "New message";
     const messageType = messageData.type || "text";
@@ -988,6 +1173,43 @@ export const onMessageCreated = onDocumentCreated({
 
     const chatData = chatDoc.data();
     const participants = chatData?.participants || [];
+    let recipientIds: string[] = participants.filter((participantId: string) => participantId !== senderId);
+    let eventBody: string | null = null;
+
+    // Stamp when the ciphertext of a disappearing message is purged by purgeExpiredMessages
+    const expiresAt = getMessageExpiry(
+      messageData.timestamp?.toDate() || new Date(),
+      chatData?.disappearingMessagesSeconds
+    );
+    if (expiresAt && !messageData.system) {
+      await snapshot.ref.update({expiresAt: Timestamp.fromDate(expiresAt)});
+    }
+
+    if (isMessageEventType(messageType)) {
+      // Reactions, edits and deletions change an earlier message rather than adding one
+      const result = await applyMessageEvent(chatDoc.ref.collection("messages"), {
+        type: messageType,
+        senderId,
+        targetMessageId: messageData.targetMessageId,
+      });
+      if (!result) {
+        logger.warn(`Ignoring ${messageType} event ${snapshot.id} in chat ${chatId}`);
+        return;
+      }
+
+      // Only the author of the message hears about a reaction to it
+      eventBody = getMessageEventNotificationBody(messageType);
+      if (!eventBody || result.targetSenderId === senderId) {
+        return;
+      }
+      recipientIds = [result.targetSenderId];
+    } else {
+      // Clients can't write the chat document, so keep its activity time here
+      await chatDoc.ref.update({
+        lastMessageAt: messageData.timestamp || FieldValue.serverTimestamp(),
+        messageCount: FieldValue.increment(1),
+      });
+    }
 
     // Get sender info
     const senderDoc = await db.collection("users").doc(senderId).get();
@@ -1000,8 +1222,8 @@ export const onMessageCreated = onDocumentCreated({
     const senderName = senderData?.displayName || senderData?.firstName || "Someone";
 
     // Determine notification body based on message type
-    let notificationBody = messageText;
-    if (messageType === "image") {
+    let notificationBody = eventBody || messageText;
+    if (messageType === "image" || messageType === "media") {
       notificationBody = "📷 Sent a photo";
     } else if (messageType === "video") {
       notificationBody = "📹 Sent a video";
@@ -1012,8 +1234,7 @@ export const onMessageCreated = onDocumentCreated({
     }
 
     // Send notifications to all participants except the sender
-    const notificationPromises = participants
-      .filter((participantId: string) => participantId !== senderId)
+    const notificationPromises = recipientIds
       .map(async (recipientId: string) => {
         const notification: NotificationData = {
           userId: recipientId,
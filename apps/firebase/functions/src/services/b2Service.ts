@@ -1,4 +1,16 @@
-import {S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand, ListObjectsV2Command, CopyObjectCommand} from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
 import {getSignedUrl} from "@aws-sdk/s3-request-presigner";
 import {logger} from "firebase-functions/v2";
 import {getB2Config, getB2S3Config, validateB2Config} from "../config/b2Config";
@@ -34,6 +46,19 @@ export interface B2DownloadOptions {
   expiresIn?: number;
 }
 
+export interface B2UploadPartOptions {
+  bucket: string;
+  key: string;
+  uploadId: string;
+  partNumber: number;
+  expiresIn?: number;
+}
+
+export interface B2CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
 /**
  * B2Service provides S3-compatible interface for Backblaze B2
  * Uses AWS SDK S3 client with B2's S3-compatible endpoint
@@ -277,6 +302,129 @@ export class B2Service {
     }, "deleteObject");
   }
 
+  /**
+   * Start a multipart upload in B2 (S3-compatible large file API)
+   * @returns The multipart upload ID
+   */
+  async createMultipartUpload(options: Omit<B2UploadOptions, "expiresIn" | "checksumSHA1">): Promise<string> {
+    return this.withRetry(async () => {
+      const {bucket, key, contentType, metadata} = options;
+
+      const command = new CreateMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        ContentType: contentType,
+        Metadata: metadata,
+      });
+
+      try {
+        const response = await this.s3Client.send(command);
+        if (!response.UploadId) {
+          throw new Error("B2 did not return a multipart upload ID");
+        }
+        logger.info("Created B2 multipart upload", {bucket, key});
+        return response.UploadId;
+      } catch (error) {
+        logger.error("Failed to create B2 multipart upload", {bucket, key, error});
+        throw error;
+      }
+    }, "createMultipartUpload");
+  }
+
+  /**
+   * Generate a signed URL for uploading one part of a multipart upload
+   */
+  async generateUploadPartUrl(options: B2UploadPartOptions): Promise<string> {
+    return this.withRetry(async () => {
+      const {bucket, key, uploadId, partNumber, expiresIn = 3600} = options;
+      const actualExpiresIn = Math.min(expiresIn, B2_DEFAULTS.maxSignedUrlExpiry);
+
+      const command = new UploadPartCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+      });
+
+      try {
+        return await getSignedUrl(this.s3Client, command, {expiresIn: actualExpiresIn});
+      } catch (error) {
+        logger.error("Failed to generate B2 upload part URL", {bucket, key, partNumber, error});
+        throw error;
+      }
+    }, "generateUploadPartUrl");
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object
+   */
+  async completeMultipartUpload(
+    bucket: string,
+    key: string,
+    uploadId: string,
+    parts: B2CompletedPart[]
+  ): Promise<void> {
+    return this.withRetry(async () => {
+      const command = new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: parts.map((part) => ({PartNumber: part.partNumber, ETag: part.etag})),
+        },
+      });
+
+      try {
+        const startTime = Date.now();
+        await this.s3Client.send(command);
+        const latency = Date.now() - startTime;
+
+        logger.info("Completed B2 multipart upload", {bucket, key, partCount: parts.length});
+
+        // Track successful operation
+        await B2Monitoring.trackOperation("upload", true, {
+          latency,
+          bucket,
+        });
+      } catch (error) {
+        logger.error("Failed to complete B2 multipart upload", {bucket, key, error});
+
+        // Track failed operation
+        await B2Monitoring.trackOperation("upload", false, {
+          bucket,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+
+        throw error;
+      }
+    }, "completeMultipartUpload");
+  }
+
+  /**
+   * Abort a multipart upload and discard its parts. Uploads that no longer exist
+   * are treated as already aborted.
+   */
+  async abortMultipartUpload(bucket: string, key: string, uploadId: string): Promise<void> {
+    return this.withRetry(async () => {
+      const command = new AbortMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+      });
+
+      try {
+        await this.s3Client.send(command);
+        logger.info("Aborted B2 multipart upload", {bucket, key});
+      } catch (error: any) {
+        if (error.name === "NoSuchUpload" || error.$metadata?.httpStatusCode === 404) {
+          return;
+        }
+        logger.error("Failed to abort B2 multipart upload", {bucket, key, error});
+        throw error;
+      }
+    }, "abortMultipartUpload");
+  }
+
   /**
    * Check if an object exists in B2
    */
@@ -3,6 +3,7 @@
  * Handles file movement between staging, quarantine, and final storage buckets
  */
 
+import {randomUUID} from "crypto";
 import {logger} from "firebase-functions/v2";
 import {getFirestore, Timestamp} from "firebase-admin/firestore";
 import {getStorageAdapter} from "./storageAdapter";
@@ -10,6 +11,8 @@ import {getVaultScanConfig} from "../config/vaultScanSecrets";
 import {createError, ErrorCode} from "../utils/errors";
 import {createLogContext, formatErrorForLogging} from "../utils/sanitization";
 import {VirusScanResult} from "./cloudmersiveService";
+import {getVaultBlobService} from "./vaultBlobService";
+import {canDeduplicateVaultFile, computeContentHash} from "../utils/vaultBlobs";
 
 export interface QuarantineItem {
   vaultItemId: string;
@@ -34,6 +37,16 @@ export interface FileTransferResult {
   transferDurationMs?: number;
 }
 
+interface FinalStorageObject {
+  storageProvider: "r2" | "b2";
+  bucket: string;
+  key: string;
+  // Content hash of the shared blob, set for deduplicated plaintext files
+  blobId: string | null;
+  // Whether an existing blob was referenced instead of keeping this upload's copy
+  reused: boolean;
+}
+
 /**
  * Quarantine Management Service
  * Manages the lifecycle of files through staging, scanning, and final placement
@@ -167,26 +180,32 @@ export class QuarantineService {
 
       const fileBuffer = Buffer.from(await response.arrayBuffer());
       const fileSize = fileBuffer.length;
+      const contentType = response.headers.get("content-type") || "application/octet-stream";
+
+      // Hash the bytes that were actually uploaded. A hash declared by the client is only
+      // ever checked against this, never trusted to pick existing content.
+      const contentHash = computeContentHash(fileBuffer);
+      const itemDoc = await this.getDb().collection("vaultItems").doc(vaultItemId).get();
+      if (!itemDoc.exists) {
+        throw new Error("Vault item not found");
+      }
+      const item = itemDoc.data()!;
+      if (item.contentHash && item.contentHash !== contentHash) {
+        throw new Error("Uploaded content does not match the declared content hash");
+      }
 
-      // Upload to final storage (B2)
-      const uploadUrl = await this.getStorageAdapter().generateUploadUrl({
-        path: finalKey,
-        bucket: this.getFinalStorageBucket(),
-        provider: this.getConfig().finalStorageProvider,
-        expiresIn: 300,
-        contentType: response.headers.get("content-type") || "application/octet-stream",
-      });
-
-      const uploadResponse = await fetch(uploadUrl.signedUrl, {
-        method: "PUT",
-        body: fileBuffer,
-        headers: {
-          "Content-Type": response.headers.get("content-type") || "application/octet-stream",
-        },
-      });
-
-      if (!uploadResponse.ok) {
-        throw new Error(`Failed to upload to final storage: ${uploadResponse.statusText}`);
+      let finalObject: FinalStorageObject;
+      if (canDeduplicateVaultFile(item)) {
+        finalObject = await this.storeDeduplicatedContent(contentHash, fileBuffer, contentType);
+      } else {
+        await this.uploadToFinalStorage(finalKey, fileBuffer, contentType);
+        finalObject = {
+          storageProvider: this.getConfig().finalStorageProvider,
+          bucket: this.getFinalStorageBucket(),
+          key: finalKey,
+          blobId: null,
+          reused: false,
+        };
       }
 
       // Delete from staging bucket
@@ -197,13 +216,22 @@ export class QuarantineService {
       });
 
       // Update vault item with final storage information
-      await this.updateVaultItemFinalStorage(vaultItemId, finalKey, fileSize);
+      try {
+        await this.updateVaultItemFinalStorage(vaultItemId, finalObject, fileSize, contentHash);
+      } catch (error) {
+        if (finalObject.blobId) {
+          await getVaultBlobService().releaseReference(finalObject.blobId);
+        }
+        throw error;
+      }
 
       const duration = Date.now() - startTime;
       
       logger.info("File moved to final storage successfully", createLogContext({
         vaultItemId,
-        finalKey,
+        finalKey: finalObject.key,
+        blobId: finalObject.blobId,
+        deduplicated: finalObject.reused,
         fileSize,
         transferDurationMs: duration,
         userId,
@@ -237,6 +265,80 @@ export class QuarantineService {
     }
   }
 
+  /**
+   * Upload file contents to the final storage bucket
+   */
+  private async uploadToFinalStorage(key: string, fileBuffer: Buffer<ArrayBuffer>, contentType: string): Promise<void> {
+    const uploadUrl = await this.getStorageAdapter().generateUploadUrl({
+      path: key,
+      bucket: this.getFinalStorageBucket(),
+      provider: this.getConfig().finalStorageProvider,
+      expiresIn: 300,
+      contentType,
+    });
+
+    const uploadResponse = await fetch(uploadUrl.signedUrl, {
+      method: "PUT",
+      body: fileBuffer,
+      headers: {
+        "Content-Type": contentType,
+      },
+    });
+
+    if (!uploadResponse.ok) {
+      throw new Error(`Failed to upload to final storage: ${uploadResponse.statusText}`);
+    }
+  }
+
+  /**
+   * Store plaintext contents once per content hash. Contents already in final storage
+   * gain a reference instead of a second copy.
+   */
+  private async storeDeduplicatedContent(
+    contentHash: string,
+    fileBuffer: Buffer<ArrayBuffer>,
+    contentType: string
+  ): Promise<FinalStorageObject> {
+    const blobService = getVaultBlobService();
+
+    const existing = await blobService.addReference(contentHash);
+    if (existing) {
+      return {
+        storageProvider: existing.storageProvider,
+        bucket: existing.bucket,
+        key: existing.key,
+        blobId: contentHash,
+        reused: true,
+      };
+    }
+
+    const stored = {
+      storageProvider: this.getConfig().finalStorageProvider,
+      bucket: this.getFinalStorageBucket(),
+      key: this.generateBlobStorageKey(contentHash),
+    };
+    await this.uploadToFinalStorage(stored.key, fileBuffer, contentType);
+
+    // Another upload of the same contents may have registered first. Every upload has
+    // its own key, so dropping this copy never touches the one that won.
+    const {blob, created} = await blobService.registerBlob(contentHash, stored, fileBuffer.length);
+    if (!created) {
+      await this.getStorageAdapter().deleteFile({
+        path: stored.key,
+        bucket: stored.bucket,
+        provider: stored.storageProvider,
+      });
+    }
+
+    return {
+      storageProvider: blob.storageProvider,
+      bucket: blob.bucket,
+      key: blob.key,
+      blobId: contentHash,
+      reused: !created,
+    };
+  }
+
   /**
    * Move infected file from R2 staging to R2 quarantine bucket
    * @param vaultItemId Vault item ID
@@ -371,6 +473,15 @@ export class QuarantineService {
     return `vault/${userId}/${timestamp}_${fileName}`;
   }
 
+  /**
+   * Generate storage key for deduplicated contents. The random suffix keeps a copy
+   * uploaded while an earlier blob for the same hash is being deleted from landing on
+   * the key that delete is about to remove.
+   */
+  private generateBlobStorageKey(contentHash: string): string {
+    return `vault/blobs/${contentHash}/${randomUUID()}`;
+  }
+
   /**
    * Generate quarantine storage key
    */
@@ -396,24 +507,31 @@ export class QuarantineService {
   /**
    * Update vault item with final storage information
    */
-  private async updateVaultItemFinalStorage(vaultItemId: string, finalKey: string, fileSize: number): Promise<void> {
+  private async updateVaultItemFinalStorage(
+    vaultItemId: string,
+    finalObject: FinalStorageObject,
+    fileSize: number,
+    contentHash: string
+  ): Promise<void> {
     const updateData: any = {
       scanStatus: "clean",
       updatedAt: Timestamp.now(),
       size: fileSize,
+      contentHash,
+      blobId: finalObject.blobId,
     };
 
-    if (this.getConfig().finalStorageProvider === "b2") {
+    if (finalObject.storageProvider === "b2") {
       updateData.storageProvider = "b2";
-      updateData.b2Key = finalKey;
-      updateData.b2Bucket = this.getFinalStorageBucket();
+      updateData.b2Key = finalObject.key;
+      updateData.b2Bucket = finalObject.bucket;
       // Clear R2 staging info
       updateData.r2Key = null;
       updateData.r2Bucket = null;
     } else {
       updateData.storageProvider = "r2";
-      updateData.r2Key = finalKey;
-      updateData.r2Bucket = this.getFinalStorageBucket();
+      updateData.r2Key = finalObject.key;
+      updateData.r2Bucket = finalObject.bucket;
     }
 
     await this.getDb().collection("vaultItems").doc(vaultItemId).update(updateData);
@@ -1,4 +1,15 @@
-import {S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand, HeadObjectCommand, ListObjectsV2Command} from "@aws-sdk/client-s3";
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
 import {getSignedUrl} from "@aws-sdk/s3-request-presigner";
 import {logger} from "firebase-functions/v2";
 import {getR2Config} from "../config/r2Config";
@@ -29,6 +40,19 @@ export interface R2DownloadOptions {
   expiresIn?: number;
 }
 
+export interface R2UploadPartOptions {
+  bucket: string;
+  key: string;
+  uploadId: string;
+  partNumber: number;
+  expiresIn?: number;
+}
+
+export interface R2CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
 export class R2Service {
   private s3Client: S3Client;
   private config: R2Config;
@@ -175,6 +199,112 @@ export class R2Service {
     }, "deleteObject");
   }
 
+  /**
+   * Start a multipart upload in R2
+   * @returns The multipart upload ID
+   */
+  async createMultipartUpload(options: Omit<R2UploadOptions, "expiresIn">): Promise<string> {
+    return this.withRetry(async () => {
+      const {bucket, key, contentType, metadata} = options;
+
+      const command = new CreateMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        ContentType: contentType,
+        Metadata: metadata,
+      });
+
+      try {
+        const response = await this.s3Client.send(command);
+        if (!response.UploadId) {
+          throw new Error("R2 did not return a multipart upload ID");
+        }
+        logger.info("Created multipart upload", {bucket, key});
+        return response.UploadId;
+      } catch (error) {
+        logger.error("Failed to create multipart upload", {bucket, key, error});
+        throw error;
+      }
+    }, "createMultipartUpload");
+  }
+
+  /**
+   * Generate a signed URL for uploading one part of a multipart upload
+   */
+  async generateUploadPartUrl(options: R2UploadPartOptions): Promise<string> {
+    return this.withRetry(async () => {
+      const {bucket, key, uploadId, partNumber, expiresIn = 3600} = options;
+
+      const command = new UploadPartCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+      });
+
+      try {
+        return await getSignedUrl(this.s3Client, command, {expiresIn});
+      } catch (error) {
+        logger.error("Failed to generate upload part URL", {bucket, key, partNumber, error});
+        throw error;
+      }
+    }, "generateUploadPartUrl");
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object
+   */
+  async completeMultipartUpload(
+    bucket: string,
+    key: string,
+    uploadId: string,
+    parts: R2CompletedPart[]
+  ): Promise<void> {
+    return this.withRetry(async () => {
+      const command = new CompleteMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: parts.map((part) => ({PartNumber: part.partNumber, ETag: part.etag})),
+        },
+      });
+
+      try {
+        await this.s3Client.send(command);
+        logger.info("Completed multipart upload", {bucket, key, partCount: parts.length});
+      } catch (error) {
+        logger.error("Failed to complete multipart upload", {bucket, key, error});
+        throw error;
+      }
+    }, "completeMultipartUpload");
+  }
+
+  /**
+   * Abort a multipart upload and discard its parts. Uploads that no longer exist
+   * are treated as already aborted.
+   */
+  async abortMultipartUpload(bucket: string, key: string, uploadId: string): Promise<void> {
+    return this.withRetry(async () => {
+      const command = new AbortMultipartUploadCommand({
+        Bucket: bucket,
+        Key: key,
+        UploadId: uploadId,
+      });
+
+      try {
+        await this.s3Client.send(command);
+        logger.info("Aborted multipart upload", {bucket, key});
+      } catch (error: any) {
+        if (error.name === "NoSuchUpload" || error.$metadata?.httpStatusCode === 404) {
+          return;
+        }
+        logger.error("Failed to abort multipart upload", {bucket, key, error});
+        throw error;
+      }
+    }, "abortMultipartUpload");
+  }
+
   /**
    * Check if an object exists in R2
    */
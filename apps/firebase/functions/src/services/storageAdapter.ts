@@ -7,6 +7,11 @@ import {getEnvironmentBucketName as getB2EnvironmentBucketName} from "../config/
 
 export type StorageProvider = "firebase" | "r2" | "b2";
 
+export interface MultipartUploadPart {
+  partNumber: number;
+  etag: string;
+}
+
 export interface StorageAdapterConfig {
   provider: StorageProvider;
   enableMigration?: boolean;
@@ -359,6 +364,114 @@ export class StorageAdapter {
     }
   }
 
+  /**
+   * Resolve the service and bucket for a multipart upload
+   * Multipart uploads are only supported on R2 and B2
+   */
+  private async getMultipartTarget(
+    provider: StorageProvider,
+    bucket?: string
+  ): Promise<{ service: R2Service | B2Service; bucket: string; provider: StorageProvider }> {
+    // Ensure provider is available before operations
+    await this.ensureProviderAvailability();
+
+    // Use the actual provider after connectivity check
+    const actualProvider = (provider === "r2" || provider === "b2") ? this.provider : provider;
+
+    if (actualProvider === "r2" && this.r2Service) {
+      const r2Bucket = bucket || this.config.r2Config?.defaultBucket;
+      if (!r2Bucket) {
+        throw new Error("R2 bucket not configured");
+      }
+      return {service: this.r2Service, bucket: r2Bucket, provider: actualProvider};
+    } else if (actualProvider === "b2" && this.b2Service) {
+      const b2Bucket = bucket || this.config.b2Config?.defaultBucket;
+      if (!b2Bucket) {
+        throw new Error("B2 bucket not configured");
+      }
+      return {service: this.b2Service, bucket: b2Bucket, provider: actualProvider};
+    }
+
+    throw new Error("Multipart uploads require R2 or B2 storage");
+  }
+
+  /**
+   * Start a multipart upload for a large file
+   */
+  async createMultipartUpload(options: {
+    path: string;
+    contentType?: string;
+    metadata?: Record<string, string>;
+    bucket?: string;
+    provider?: StorageProvider;
+  }): Promise<{ uploadId: string; provider: StorageProvider; bucket: string }> {
+    const {path, contentType = "application/octet-stream", metadata, bucket, provider = this.provider} = options;
+    const target = await this.getMultipartTarget(provider, bucket);
+
+    const uploadId = await target.service.createMultipartUpload({
+      bucket: target.bucket,
+      key: path,
+      contentType,
+      metadata,
+    });
+
+    return {uploadId, provider: target.provider, bucket: target.bucket};
+  }
+
+  /**
+   * Generate a signed URL for uploading one part of a multipart upload
+   */
+  async generateUploadPartUrl(options: {
+    path: string;
+    uploadId: string;
+    partNumber: number;
+    expiresIn?: number;
+    bucket?: string;
+    provider?: StorageProvider;
+  }): Promise<string> {
+    const {path, uploadId, partNumber, expiresIn = 3600, bucket, provider = this.provider} = options;
+    const target = await this.getMultipartTarget(provider, bucket);
+
+    return target.service.generateUploadPartUrl({
+      bucket: target.bucket,
+      key: path,
+      uploadId,
+      partNumber,
+      expiresIn,
+    });
+  }
+
+  /**
+   * Assemble uploaded parts into the final object
+   */
+  async completeMultipartUpload(options: {
+    path: string;
+    uploadId: string;
+    parts: MultipartUploadPart[];
+    bucket?: string;
+    provider?: StorageProvider;
+  }): Promise<void> {
+    const {path, uploadId, parts, bucket, provider = this.provider} = options;
+    const target = await this.getMultipartTarget(provider, bucket);
+
+    await target.service.completeMultipartUpload(target.bucket, path, uploadId, parts);
+  }
+
+  /**
+   * Abort a multipart upload and discard the uploaded parts
+   */
+  async abortMultipartUpload(options: {
+    path: string;
+    uploadId: string;
+    bucket?: string;
+    provider?: StorageProvider;
+  }): Promise<void> {
+    const {path, uploadId, bucket, provider = this.provider} = options;
+    const target = await this.getMultipartTarget(provider, bucket);
+
+    await target.service.abortMultipartUpload(target.bucket, path, uploadId);
+  }
+
   /**
    * Check if a file exists
    */
@@ -394,6 +507,50 @@ export class StorageAdapter {
     }
   }
 
+  /**
+   * Download a file into memory through a short-lived signed URL
+   */
+  async downloadBuffer(options: {
+    path: string;
+    bucket?: string;
+    provider?: StorageProvider;
+  }): Promise<Buffer> {
+    const downloadResult = await this.generateDownloadUrl({...options, expiresIn: 300});
+
+    const response = await fetch(downloadResult.signedUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to download file: ${response.statusText}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  /**
+   * Upload in-memory contents through a short-lived signed URL
+   */
+  async uploadBuffer(options: {
+    path: string;
+    body: Buffer;
+    contentType: string;
+    bucket?: string;
+    provider?: StorageProvider;
+  }): Promise<void> {
+    const {body, ...target} = options;
+    const uploadUrlResult = await this.generateUploadUrl({...target, expiresIn: 300});
+
+    const uploadResponse = await fetch(uploadUrlResult.signedUrl, {
+      method: "PUT",
+      body: new Uint8Array(body),
+      headers: {
+        "Content-Type": options.contentType,
+      },
+    });
+
+    if (!uploadResponse.ok) {
+      throw new Error(`Failed to upload file: ${uploadResponse.statusText}`);
+    }
+  }
+
   /**
    * Copy a file from one provider to another (useful for migration)
    */
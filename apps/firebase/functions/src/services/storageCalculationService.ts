@@ -15,6 +15,8 @@ import {
 } from "../config/stripeProducts";
 import {createError, ErrorCode} from "../utils/errors";
 import {storageNotificationService} from "./storageNotificationService";
+import {summarizeVaultStorageUsage, VaultStorageUsage} from "../utils/vaultBlobs";
+import {getFamilyVaultOwnerId} from "../utils/familyVault";
 
 export interface StorageCalculationResult {
   basePlanGB: number;
@@ -37,6 +39,8 @@ export interface FamilyStorageBreakdown {
     usageBytes: number;
     usagePercentage: number;
   }>;
+  // Included in sharedUsageBytes; family vaults are owned by their tree, not a member
+  familyVaultUsageBytes: number;
   availableBytes: number;
 }
 
@@ -262,12 +266,23 @@ export class StorageCalculationService {
       }
     }
 
+    // Add the family vaults linked to this plan
+    const familyVaults = await this.db.collection("familyVaults")
+      .where("planOwnerId", "==", familyOwnerId)
+      .get();
+    let familyVaultUsageBytes = 0;
+    for (const vaultDoc of familyVaults.docs) {
+      familyVaultUsageBytes += (await this.getFamilyVaultUsage(vaultDoc.id)).logicalBytes;
+    }
+    sharedUsageBytes += familyVaultUsageBytes;
+
     const availableBytes = Math.max(0, totalFamilyStorageBytes - sharedUsageBytes);
 
     return {
       totalFamilyStorageGB,
       sharedUsageBytes,
       memberBreakdown,
+      familyVaultUsageBytes,
       availableBytes,
     };
   }
@@ -327,6 +342,22 @@ export class StorageCalculationService {
     }
   }
 
+  /**
+   * Validate an upload to a family vault against the family plan it's linked to
+   */
+  async validateFamilyVaultStorageLimit(
+    planOwnerId: string,
+    uploadSizeBytes: number
+  ): Promise<{
+    allowed: boolean;
+    reason?: string;
+    currentUsageBytes: number;
+    limitBytes: number;
+    availableBytes: number;
+  }> {
+    return this.validateFamilyStorageLimit(planOwnerId, planOwnerId, uploadSizeBytes);
+  }
+
   /**
    * Validate family storage limit
    */
@@ -388,13 +419,8 @@ export class StorageCalculationService {
       .where("isDeleted", "==", false)
       .get();
 
-    let totalBytes = 0;
-    vaultItems.forEach((doc) => {
-      const item = doc.data();
-      if (item.type === "file" && item.size) {
-        totalBytes += item.size;
-      }
-    });
+    // Quotas apply to logical usage, so deduplicated files still count in full
+    const totalBytes = summarizeVaultStorageUsage(vaultItems.docs.map((doc) => doc.data())).logicalBytes;
 
     // Update cache
     await this.db.collection("users").doc(userId).update({
@@ -405,6 +431,35 @@ export class StorageCalculationService {
     return totalBytes;
   }
 
+  /**
+   * Get user's logical and physical storage usage. Logical usage counts every file and
+   * version in full and is what quotas apply to. Physical usage counts plaintext files
+   * sharing deduplicated contents once.
+   */
+  async getUserStorageBreakdown(userId: string): Promise<VaultStorageUsage> {
+    const vaultItems = await this.db.collection("vaultItems")
+      .where("userId", "==", userId)
+      .where("isDeleted", "==", false)
+      .select("type", "size", "versionsSize", "blobId")
+      .get();
+
+    return summarizeVaultStorageUsage(vaultItems.docs.map((doc) => doc.data()));
+  }
+
+  /**
+   * Get a family vault's logical and physical storage usage. It isn't cached like member
+   * usage, since any contributor can add to it.
+   */
+  async getFamilyVaultUsage(familyTreeId: string): Promise<VaultStorageUsage> {
+    const vaultItems = await this.db.collection("vaultItems")
+      .where("userId", "==", getFamilyVaultOwnerId(familyTreeId))
+      .where("isDeleted", "==", false)
+      .select("type", "size", "versionsSize", "blobId")
+      .get();
+
+    return summarizeVaultStorageUsage(vaultItems.docs.map((doc) => doc.data()));
+  }
+
   /**
    * Get user's referral info
    */
@@ -471,7 +526,10 @@ export class StorageCalculationService {
 
       await this.db.runTransaction(async (transaction) => {
         const userDoc = await transaction.get(userRef);
-        const currentUsage = userDoc.data()?.storageUsedBytes || 0;
+        const currentUsage = userDoc.data()?.storageUsedBytes;
+        // Nothing cached yet; the next read calculates usage from vault items
+        if (currentUsage === undefined) return;
+
         const newUsage = Math.max(0, currentUsage + deltaBytes);
 
         transaction.update(userRef, {
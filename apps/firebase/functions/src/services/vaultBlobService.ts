@@ -0,0 +1,200 @@
+/**
+ * Vault Blob Service
+ * Keeps one stored object per distinct plaintext file content, reference counted in the
+ * vaultBlobs collection so the object is only deleted when its last file goes away
+ */
+
+import {logger} from "firebase-functions/v2";
+import {getFirestore, FieldValue, Timestamp} from "firebase-admin/firestore";
+import {getStorageAdapter} from "./storageAdapter";
+import {getVaultThumbnailService} from "./vaultThumbnailService";
+import {createLogContext} from "../utils/sanitization";
+import {
+  VaultStorageLocation,
+  VaultStorageObject,
+  getVaultStorageObject,
+} from "../utils/vaultVersions";
+
+export const VAULT_BLOBS_COLLECTION = "vaultBlobs";
+
+export interface VaultBlob {
+  contentHash: string;
+  storageProvider: "r2" | "b2";
+  bucket: string;
+  key: string;
+  size: number;
+  refCount: number;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface VaultBlobReference {
+  blob: VaultBlob;
+  // False when the content was already stored and only a reference was added
+  created: boolean;
+}
+
+/**
+ * Vault Blob Service
+ * Adds and releases references to content-addressed vault objects
+ */
+export class VaultBlobService {
+  private static instance: VaultBlobService;
+  private db: ReturnType<typeof getFirestore> | undefined;
+
+  private constructor() {}
+
+  static getInstance(): VaultBlobService {
+    if (!VaultBlobService.instance) {
+      VaultBlobService.instance = new VaultBlobService();
+    }
+    return VaultBlobService.instance;
+  }
+
+  private getDb() {
+    if (!this.db) {
+      this.db = getFirestore();
+    }
+    return this.db;
+  }
+
+  private getBlobRef(contentHash: string) {
+    return this.getDb().collection(VAULT_BLOBS_COLLECTION).doc(contentHash);
+  }
+
+  /**
+   * Adds a reference to already stored content
+   * @param contentHash Server-computed SHA-256 of the content
+   * @returns The blob, or null when the content isn't stored yet
+   */
+  async addReference(contentHash: string): Promise<VaultBlob | null> {
+    const blobRef = this.getBlobRef(contentHash);
+
+    return this.getDb().runTransaction(async (transaction) => {
+      const blobDoc = await transaction.get(blobRef);
+      if (!blobDoc.exists) return null;
+
+      transaction.update(blobRef, {
+        refCount: FieldValue.increment(1),
+        updatedAt: Timestamp.now(),
+      });
+      const blob = blobDoc.data() as VaultBlob;
+      return {...blob, refCount: blob.refCount + 1};
+    });
+  }
+
+  /**
+   * Registers a newly stored object as the blob for its content. If another upload
+   * registered the same content first, a reference to that blob is added instead and
+   * the caller should delete its own copy.
+   * @param contentHash Server-computed SHA-256 of the content
+   * @param object The object the caller just stored
+   * @param size Content size in bytes
+   */
+  async registerBlob(
+    contentHash: string,
+    object: {storageProvider: "r2" | "b2"; bucket: string; key: string},
+    size: number
+  ): Promise<VaultBlobReference> {
+    const blobRef = this.getBlobRef(contentHash);
+
+    return this.getDb().runTransaction(async (transaction) => {
+      const blobDoc = await transaction.get(blobRef);
+      const now = Timestamp.now();
+
+      if (blobDoc.exists) {
+        transaction.update(blobRef, {
+          refCount: FieldValue.increment(1),
+          updatedAt: now,
+        });
+        const existing = blobDoc.data() as VaultBlob;
+        return {blob: {...existing, refCount: existing.refCount + 1}, created: false};
+      }
+
+      const blob: VaultBlob = {
+        contentHash,
+        ...object,
+        size,
+        refCount: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      transaction.set(blobRef, blob);
+      return {blob, created: true};
+    });
+  }
+
+  /**
+   * Drops one reference to a blob, deleting the stored object with the last one
+   * @param contentHash Blob to release
+   * @returns Whether the stored object was deleted
+   */
+  async releaseReference(contentHash: string): Promise<boolean> {
+    const blobRef = this.getBlobRef(contentHash);
+
+    const orphaned = await this.getDb().runTransaction(async (transaction) => {
+      const blobDoc = await transaction.get(blobRef);
+      if (!blobDoc.exists) return null;
+
+      const blob = blobDoc.data() as VaultBlob;
+      if (blob.refCount > 1) {
+        transaction.update(blobRef, {
+          refCount: FieldValue.increment(-1),
+          updatedAt: Timestamp.now(),
+        });
+        return null;
+      }
+
+      transaction.delete(blobRef);
+      return blob;
+    });
+
+    if (!orphaned) return false;
+
+    const object = {path: orphaned.key, bucket: orphaned.bucket, provider: orphaned.storageProvider};
+    await getStorageAdapter().deleteFile(object);
+    await getVaultThumbnailService().deleteThumbnails(object);
+
+    logger.info("Deleted unreferenced vault blob", createLogContext({
+      contentHash,
+      provider: orphaned.storageProvider,
+      size: orphaned.size,
+    }));
+
+    return true;
+  }
+
+  /**
+   * Releases the bytes behind a vault file or version. Shared content loses a reference
+   * and everything else is deleted directly. Failures are logged rather than thrown so
+   * a missing object never blocks cleanup.
+   * @param location Storage location of the file or version
+   * @param context Identifiers included in the warning log
+   */
+  async releaseStorage(location: VaultStorageLocation, context: Record<string, unknown> = {}): Promise<void> {
+    let object: VaultStorageObject | null = null;
+
+    try {
+      if (location.blobId) {
+        await this.releaseReference(location.blobId);
+        return;
+      }
+
+      object = getVaultStorageObject(location);
+      if (object) {
+        await getStorageAdapter().deleteFile(object);
+        await getVaultThumbnailService().deleteThumbnails(object);
+      }
+    } catch (error) {
+      logger.warn("Failed to release vault file storage", createLogContext({
+        ...context,
+        blobId: location.blobId,
+        provider: object?.provider,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+    }
+  }
+}
+
+// Export singleton getter to avoid initialization at module load time
+export const getVaultBlobService = () => VaultBlobService.getInstance();
@@ -0,0 +1,320 @@
+/**
+ * Vault Thumbnail Service
+ * Renders WebP thumbnails for vault files that aren't end-to-end encrypted and stores
+ * them beside the file's object. The native renderers are loaded on first use so other
+ * functions don't pay for them at cold start.
+ */
+
+import {spawn} from "child_process";
+import {logger} from "firebase-functions/v2";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {getStorageAdapter} from "./storageAdapter";
+import {createLogContext} from "../utils/sanitization";
+import {VaultStorageObject} from "../utils/vaultVersions";
+import {
+  VAULT_THUMBNAIL_CONTENT_TYPE,
+  VAULT_THUMBNAIL_SIZES,
+  VaultEncryptedThumbnail,
+  VaultPreviewKind,
+  VaultThumbnails,
+  getVaultPreviewKind,
+  getVaultThumbnailKey,
+  getVaultThumbnailKeys,
+} from "../utils/vaultThumbnails";
+
+// Signed thumbnail URLs are handed to list views, which may stay open for a while
+const THUMBNAIL_URL_EXPIRY_SECONDS = 3600;
+
+// Encrypted thumbnails live in the default R2 bucket, apart from the file they belong to
+const ENCRYPTED_THUMBNAIL_PROVIDER = "r2";
+
+// Guards against decompression bombs in uploaded images
+const MAX_INPUT_PIXELS = 100 * 1000 * 1000;
+
+// PDF pages are rendered so their longest edge matches the largest thumbnail
+const PDF_RENDER_EDGE = Math.max(...VAULT_THUMBNAIL_SIZES);
+
+/**
+ * Vault Thumbnail Service
+ * Generates, signs and deletes the thumbnails of vault files
+ */
+export class VaultThumbnailService {
+  private static instance: VaultThumbnailService;
+  private db: ReturnType<typeof getFirestore> | undefined;
+
+  private constructor() {}
+
+  static getInstance(): VaultThumbnailService {
+    if (!VaultThumbnailService.instance) {
+      VaultThumbnailService.instance = new VaultThumbnailService();
+    }
+    return VaultThumbnailService.instance;
+  }
+
+  private getDb() {
+    if (!this.db) {
+      this.db = getFirestore();
+    }
+    return this.db;
+  }
+
+  /**
+   * Renders and stores every thumbnail size for a file, then records the result on the
+   * vault item. A failure is recorded too, so the same object isn't retried.
+   * @param itemId Vault item the thumbnails belong to
+   * @param source Object holding the file's bytes
+   * @param mimeType MIME type of the file
+   */
+  async generateThumbnails(itemId: string, source: VaultStorageObject, mimeType: string): Promise<VaultThumbnails> {
+    const kind = getVaultPreviewKind(mimeType);
+    if (!kind) {
+      throw new Error(`No preview for ${mimeType} files`);
+    }
+
+    const startTime = Date.now();
+    let thumbnails: VaultThumbnails;
+
+    try {
+      // Files with deduplicated content share one object, so its thumbnails may exist already
+      const existing = await Promise.all(VAULT_THUMBNAIL_SIZES.map((size) => getStorageAdapter().fileExists({
+        path: getVaultThumbnailKey(source.path, size),
+        bucket: source.bucket,
+        provider: source.provider,
+      })));
+
+      if (existing.some((exists) => !exists)) {
+        const frame = await this.renderFrame(kind, source);
+        await this.storeThumbnails(frame, source);
+      }
+
+      thumbnails = {status: "ready", kind, sizes: VAULT_THUMBNAIL_SIZES, sourceKey: source.path};
+
+      logger.info("Generated vault thumbnails", createLogContext({
+        itemId,
+        kind,
+        reused: existing.every(Boolean),
+        durationMs: Date.now() - startTime,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      thumbnails = {status: "failed", kind, sizes: [], sourceKey: source.path, error: message};
+
+      logger.warn("Failed to generate vault thumbnails", createLogContext({
+        itemId,
+        kind,
+        error: message,
+      }));
+    }
+
+    await this.getDb().collection("vaultItems").doc(itemId).update({
+      thumbnails: {...thumbnails, generatedAt: Timestamp.now()},
+    });
+
+    return thumbnails;
+  }
+
+  /**
+   * Signed URLs for each stored thumbnail size, keyed by size
+   */
+  async getThumbnailUrls(source: VaultStorageObject, sizes: number[]): Promise<Record<string, string>> {
+    const urls: Record<string, string> = {};
+    await Promise.all(sizes.map(async (size) => {
+      const result = await getStorageAdapter().generateDownloadUrl({
+        path: getVaultThumbnailKey(source.path, size),
+        bucket: source.bucket,
+        provider: source.provider,
+        expiresIn: THUMBNAIL_URL_EXPIRY_SECONDS,
+      });
+      urls[String(size)] = result.signedUrl;
+    }));
+    return urls;
+  }
+
+  /**
+   * Deletes the thumbnails stored beside an object. Most objects have none, so missing
+   * thumbnails are not an error.
+   */
+  async deleteThumbnails(source: VaultStorageObject): Promise<void> {
+    await Promise.allSettled(getVaultThumbnailKeys(source.path).map((path) =>
+      getStorageAdapter().deleteFile({path, bucket: source.bucket, provider: source.provider})
+    ));
+  }
+
+  // MARK: - Encrypted Thumbnails
+
+  /**
+   * Signed URL the client uploads an encrypted thumbnail to
+   */
+  async getEncryptedThumbnailUploadUrl(thumbnail: VaultEncryptedThumbnail): Promise<string> {
+    const result = await getStorageAdapter().generateUploadUrl({
+      path: thumbnail.path,
+      contentType: "application/octet-stream",
+      expiresIn: 300,
+      provider: ENCRYPTED_THUMBNAIL_PROVIDER,
+    });
+    return result.signedUrl;
+  }
+
+  /**
+   * Signed URL for downloading an encrypted thumbnail, which only the client can decrypt
+   */
+  async getEncryptedThumbnailUrl(thumbnail: VaultEncryptedThumbnail): Promise<string> {
+    const result = await getStorageAdapter().generateDownloadUrl({
+      path: thumbnail.path,
+      expiresIn: THUMBNAIL_URL_EXPIRY_SECONDS,
+      provider: ENCRYPTED_THUMBNAIL_PROVIDER,
+    });
+    return result.signedUrl;
+  }
+
+  /**
+   * Deletes the encrypted thumbnail of a file. It may never have been uploaded, so
+   * failures are logged rather than thrown.
+   */
+  async deleteEncryptedThumbnail(thumbnail: VaultEncryptedThumbnail): Promise<void> {
+    try {
+      await getStorageAdapter().deleteFile({path: thumbnail.path, provider: ENCRYPTED_THUMBNAIL_PROVIDER});
+    } catch (error) {
+      logger.warn("Failed to delete encrypted vault thumbnail", createLogContext({
+        path: thumbnail.path,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }));
+    }
+  }
+
+  // MARK: - Rendering
+
+  /**
+   * A full-size still of the file that every thumbnail size is scaled from
+   */
+  private async renderFrame(kind: VaultPreviewKind, source: VaultStorageObject): Promise<Buffer> {
+    switch (kind) {
+    case "image":
+      return getStorageAdapter().downloadBuffer(source);
+    case "video":
+      return this.renderVideoPoster(source);
+    case "pdf":
+      return this.renderPdfFirstPage(await getStorageAdapter().downloadBuffer(source));
+    }
+  }
+
+  /**
+   * Picks a representative frame near the start of the video. ffmpeg reads the file
+   * through a signed URL, so only the bytes it needs are transferred.
+   */
+  private async renderVideoPoster(source: VaultStorageObject): Promise<Buffer> {
+    const {default: ffmpegPath} = await import("ffmpeg-static");
+    if (!ffmpegPath) {
+      throw new Error("ffmpeg is not available on this platform");
+    }
+
+    const {signedUrl} = await getStorageAdapter().generateDownloadUrl({...source, expiresIn: 300});
+
+    return new Promise((resolve, reject) => {
+      const ffmpeg = spawn(ffmpegPath, [
+        "-hide_banner",
+        "-loglevel", "error",
+        "-i", signedUrl,
+        "-vf", "thumbnail",
+        "-frames:v", "1",
+        "-f", "image2pipe",
+        "-vcodec", "png",
+        "pipe:1",
+      ]);
+
+      const chunks: Buffer[] = [];
+      let stderr = "";
+      ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+      ffmpeg.stderr.on("data", (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+      ffmpeg.on("error", reject);
+      ffmpeg.on("close", (code) => {
+        if (code === 0 && chunks.length > 0) {
+          resolve(Buffer.concat(chunks));
+        } else {
+          reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim().slice(0, 200)}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Renders the first page of a PDF to PNG
+   */
+  private async renderPdfFirstPage(pdfBuffer: Buffer): Promise<Buffer> {
+    const pdfjs = await import("pdfjs-dist/legacy/build/pdf.js");
+    const {createCanvas} = await import("@napi-rs/canvas");
+
+    const canvasFactory = {
+      create: (width: number, height: number) => {
+        const canvas = createCanvas(width, height);
+        return {canvas, context: canvas.getContext("2d")};
+      },
+      reset: (target: {canvas: {width: number; height: number}}, width: number, height: number) => {
+        target.canvas.width = width;
+        target.canvas.height = height;
+      },
+      destroy: (target: {canvas: {width: number; height: number}}) => {
+        target.canvas.width = 0;
+        target.canvas.height = 0;
+      },
+    };
+
+    const document = await pdfjs.getDocument({
+      data: new Uint8Array(pdfBuffer),
+      canvasFactory,
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+    }).promise;
+
+    try {
+      const page = await document.getPage(1);
+      const unscaled = page.getViewport({scale: 1});
+      const viewport = page.getViewport({
+        scale: PDF_RENDER_EDGE / Math.max(unscaled.width, unscaled.height),
+      });
+
+      const {canvas, context} = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      // Pages without a background would otherwise render onto transparency
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+
+      return canvas.toBuffer("image/png");
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  /**
+   * Scales the still to every thumbnail size and uploads them beside the source object
+   */
+  private async storeThumbnails(frame: Buffer, source: VaultStorageObject): Promise<void> {
+    const {default: sharp} = await import("sharp");
+
+    for (const size of VAULT_THUMBNAIL_SIZES) {
+      const body = await sharp(frame, {limitInputPixels: MAX_INPUT_PIXELS})
+        .rotate()
+        .resize(size, size, {fit: "inside", withoutEnlargement: true})
+        .webp({quality: 80})
+        .toBuffer();
+
+      await getStorageAdapter().uploadBuffer({
+        path: getVaultThumbnailKey(source.path, size),
+        body,
+        contentType: VAULT_THUMBNAIL_CONTENT_TYPE,
+        bucket: source.bucket,
+        provider: source.provider,
+      });
+    }
+  }
+}
+
+// Export singleton getter to avoid initialization at module load time
+export const getVaultThumbnailService = () => VaultThumbnailService.getInstance();
@@ -11,6 +11,17 @@ import {createError, ErrorCode} from "./utils/errors";
 
 const db = getFirestore();
 
+// The first device to publish keys is the account's primary device; its identity key is
+// the one contacts verify. Linked devices (web, tablets) have identities of their own.
+const DEFAULT_DEVICE_ID = 1;
+
+/**
+ * Prekey documents of the primary device keep their historical ids; other devices
+ * prefix theirs, since every device numbers its prekeys from 1
+ */
+function getPreKeyDocId(deviceId: number, keyId: number): string {
+  return deviceId === DEFAULT_DEVICE_ID ? keyId.toString() : `${deviceId}_${keyId}`;
+}
 
 /**
  * Publish Signal Protocol keys for a user
@@ -27,25 +38,36 @@ export const publishSignalKeys = onCall(withAuth(async (request) => {
       signedPreKey,
       preKeys,
       registrationId,
-      deviceId = 1,
+      deviceId = DEFAULT_DEVICE_ID,
     } = validatedData;
 
+    const identityRef = db.collection("signalKeys").doc(userId);
+    const identityDoc = await identityRef.get();
+    const primaryDeviceId = identityDoc.exists ?
+      identityDoc.data()!.primaryDeviceId ?? DEFAULT_DEVICE_ID :
+      deviceId;
+
     // Start a batch write
     const batch = db.batch();
 
-    // Store identity key
-    const identityRef = db.collection("signalKeys").doc(userId);
-    batch.set(identityRef, {
-      userId,
-      identityKey,
-      registrationId,
-      lastUpdated: FieldValue.serverTimestamp(),
-    }, {merge: true});
+    // Only the primary device may replace the account's identity key; changing it
+    // alerts every contact
+    if (deviceId === primaryDeviceId) {
+      batch.set(identityRef, {
+        userId,
+        identityKey,
+        registrationId,
+        primaryDeviceId,
+        lastUpdated: FieldValue.serverTimestamp(),
+      }, {merge: true});
+    }
 
     // Store device-specific keys
     const deviceRef = identityRef.collection("devices").doc(deviceId.toString());
     batch.set(deviceRef, {
       deviceId,
+      identityKey,
+      registrationId,
       signedPreKey: {
         keyId: signedPreKey.id,
         publicKey: signedPreKey.publicKey,
@@ -61,7 +83,7 @@ export const publishSignalKeys = onCall(withAuth(async (request) => {
         .collection("users")
         .doc(userId)
         .collection("prekeys")
-        .doc(preKey.id.toString());
+        .doc(getPreKeyDocId(deviceId, preKey.id));
 
       batch.set(preKeyRef, {
         userId,
@@ -74,7 +96,7 @@ export const publishSignalKeys = onCall(withAuth(async (request) => {
 
     await batch.commit();
 
-    logger.info(`Published Signal keys for user ${userId}`);
+    logger.info(`Published Signal keys for user ${userId} device ${deviceId}`);
     return {success: true};
   } catch (error) {
     logger.error("Error publishing Signal keys:", error);
@@ -97,7 +119,7 @@ export const getUserSignalBundle = onCall(withAuth(async (request) => {
 
     // Validate request data
     const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.getUserSignalBundle, requesterId);
-    const {userId, deviceId = 1} = validatedData;
+    const {userId, deviceId = DEFAULT_DEVICE_ID} = validatedData;
 
     // Get identity key
     const identityDoc = await db.collection("signalKeys").doc(userId).get();
@@ -164,10 +186,11 @@ export const getUserSignalBundle = onCall(withAuth(async (request) => {
       }
     }
 
+    // Devices published before keys were stored per device share the account identity
     return {
-      registrationId: identityData.registrationId,
+      registrationId: deviceData.registrationId ?? identityData.registrationId,
       deviceId,
-      identityKey: identityData.identityKey,
+      identityKey: deviceData.identityKey ?? identityData.identityKey,
       signedPreKey: deviceData.signedPreKey,
       preKey, // May be null if no prekeys available
     };
@@ -183,6 +206,49 @@ export const getUserSignalBundle = onCall(withAuth(async (request) => {
   rateLimitConfig: SECURITY_CONFIG.rateLimits.signal_key_retrieve,
 }));
 
+/**
+ * List the devices a user has published Signal keys for, so senders can encrypt a
+ * message for each of them
+ */
+export const getUserSignalDevices = onCall(withAuth(async (request) => {
+  try {
+    const requesterId = request.auth!.uid;
+
+    // Validate request data
+    const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.getUserSignalDevices, requesterId);
+    const {userId} = validatedData;
+
+    const identityDoc = await db.collection("signalKeys").doc(userId).get();
+    if (!identityDoc.exists) {
+      return {devices: []};
+    }
+
+    const identityData = identityDoc.data()!;
+    const devicesSnapshot = await identityDoc.ref.collection("devices").get();
+
+    const devices = devicesSnapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        deviceId: data.deviceId ?? Number(doc.id),
+        registrationId: data.registrationId ?? identityData.registrationId,
+        identityKey: data.identityKey ?? identityData.identityKey,
+        isPrimary: (data.deviceId ?? Number(doc.id)) === (identityData.primaryDeviceId ?? DEFAULT_DEVICE_ID),
+      };
+    });
+
+    return {devices};
+  } catch (error) {
+    logger.error("Error getting Signal devices:", error);
+    if (error && typeof error === "object" && "code" in error && "message" in error) {
+      throw error;
+    }
+    throw createError(ErrorCode.INTERNAL, "Failed to get Signal devices");
+  }
+}, "getUserSignalDevices", {
+  authLevel: "verified",
+  rateLimitConfig: SECURITY_CONFIG.rateLimits.signal_key_retrieve,
+}));
+
 /**
  * Publish new signed prekey
  */
@@ -192,7 +258,7 @@ export const publishSignedPreKey = onCall(withAuth(async (request) => {
 
     // Validate request data
     const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.publishSignedPreKey, userId);
-    const {signedPreKey, deviceId = 1} = validatedData;
+    const {signedPreKey, deviceId = DEFAULT_DEVICE_ID} = validatedData;
 
     // Update device's signed prekey
     const deviceRef = db
@@ -234,7 +300,7 @@ export const publishPreKeys = onCall(withAuth(async (request) => {
 
     // Validate request data
     const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.publishPreKeys, userId);
-    const {preKeys, deviceId = 1} = validatedData;
+    const {preKeys, deviceId = DEFAULT_DEVICE_ID} = validatedData;
 
     const batch = db.batch();
 
@@ -243,7 +309,7 @@ export const publishPreKeys = onCall(withAuth(async (request) => {
         .collection("users")
         .doc(userId)
         .collection("prekeys")
-        .doc(preKey.id.toString());
+        .doc(getPreKeyDocId(deviceId, preKey.id));
 
       batch.set(preKeyRef, {
         userId,
@@ -362,7 +428,7 @@ export const getPreKeyCount = onCall(withAuth(async (request) => {
 
     // Validate request data
     const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.getPreKeyCount, userId);
-    const {deviceId = 1} = validatedData;
+    const {deviceId = DEFAULT_DEVICE_ID} = validatedData;
 
     const snapshot = await db
       .collection("users")
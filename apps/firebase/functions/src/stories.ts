@@ -9,6 +9,14 @@ import {sanitizeUserInput} from "./utils/xssSanitization";
 import {validateRequest} from "./utils/request-validator";
 import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
 import {generateStorySearchFields} from "./utils/searchHelpers";
+import {
+  diffStoryBlocks,
+  diffStoryFields,
+  getRevisionContent,
+  summarizeRevision,
+  StoryBlockChange,
+  StoryRevisionField,
+} from "./utils/storyRevisions";
 
 // MARK: - Types
 
@@ -39,6 +47,21 @@ interface Story {
   peopleInvolved: string[];
   isDeleted: boolean;
   coverImageURL?: string;
+  revisionCount?: number; // Missing on stories created before revision history
+}
+
+// Immutable snapshot stored in stories/{storyId}/revisions after every content change
+interface StoryRevision {
+  id: string;
+  storyId: string;
+  revisionNumber: number;
+  editedBy: string;
+  editedAt: Timestamp;
+  content: Record<StoryRevisionField, unknown>;
+  changedFields: StoryRevisionField[];
+  blockChanges: StoryBlockChange[];
+  summary: string;
+  restoredFrom: number | null;
 }
 
 // Used in the cloud functions
@@ -48,6 +71,11 @@ interface UserInfo {
   profilePicture?: string;
 }
 
+// MARK: - Constants
+
+const STORY_REVISIONS_SUBCOLLECTION = "revisions";
+const MAX_STORY_REVISIONS_PAGE = 50;
+
 // MARK: - Helper Functions
 
 /**
@@ -339,6 +367,117 @@ async function handleCascadeCommentDeletion(
   }
 }
 
+/**
+ * Applies content updates to a story and records the result as a new revision in the
+ * same transaction. Stories created before revision history get their current content
+ * saved as revision 1 first, so the original is never lost.
+ * @returns false if the updates didn't change any revisioned content
+ */
+async function updateStoryWithRevision(
+  db: FirebaseFirestore.Firestore,
+  storyId: string,
+  updates: Record<string, any>,
+  editorId: string,
+  restoredFrom?: number
+): Promise<boolean> {
+  const storyRef = db.collection("stories").doc(storyId);
+  const revisionsRef = storyRef.collection(STORY_REVISIONS_SUBCOLLECTION);
+
+  return db.runTransaction(async (transaction) => {
+    const storyDoc = await transaction.get(storyRef);
+    if (!storyDoc.exists) {
+      throw createError(ErrorCode.NOT_FOUND, "Story not found.");
+    }
+    const story = storyDoc.data() as Story;
+    const before = getRevisionContent(story);
+    const after = getRevisionContent({...story, ...updates});
+    const changedFields = diffStoryFields(before, after);
+
+    if (changedFields.length === 0) {
+      transaction.update(storyRef, updates);
+      return false;
+    }
+
+    let revisionCount = story.revisionCount || 0;
+    if (revisionCount === 0) {
+      revisionCount = 1;
+      const baselineRef = revisionsRef.doc();
+      transaction.set(baselineRef, buildStoryRevision(baselineRef.id, storyId, {
+        revisionNumber: revisionCount,
+        editedBy: story.authorID,
+        editedAt: story.createdAt || Timestamp.now(),
+        before: null,
+        after: before,
+      }));
+    }
+
+    revisionCount += 1;
+    const revisionRef = revisionsRef.doc();
+    transaction.set(revisionRef, buildStoryRevision(revisionRef.id, storyId, {
+      revisionNumber: revisionCount,
+      editedBy: editorId,
+      editedAt: Timestamp.now(),
+      before,
+      after,
+      restoredFrom,
+    }));
+    transaction.update(storyRef, {...updates, revisionCount});
+    return true;
+  });
+}
+
+/**
+ * Builds a revision document, diffing against the previous content when there is one
+ */
+function buildStoryRevision(
+  id: string,
+  storyId: string,
+  options: {
+    revisionNumber: number;
+    editedBy: string;
+    editedAt: Timestamp;
+    before: Record<StoryRevisionField, unknown> | null;
+    after: Record<StoryRevisionField, unknown>;
+    restoredFrom?: number;
+  }
+): StoryRevision {
+  const {before, after} = options;
+  const changedFields = before ? diffStoryFields(before, after) : [];
+  const blockChanges = before ?
+    diffStoryBlocks(before.blocks as StorageBlock[], after.blocks as StorageBlock[]) :
+    [];
+
+  return {
+    id,
+    storyId,
+    revisionNumber: options.revisionNumber,
+    editedBy: options.editedBy,
+    editedAt: options.editedAt,
+    content: after,
+    changedFields,
+    blockChanges,
+    summary: before ? summarizeRevision(changedFields, blockChanges, options.restoredFrom) : "Original version",
+    restoredFrom: options.restoredFrom ?? null,
+  };
+}
+
+/**
+ * Formats a revision for callable responses, leaving out the content unless requested
+ */
+function toStoryRevisionResponse(
+  revision: StoryRevision,
+  userInfoMap: Map<string, UserInfo>,
+  includeContent: boolean
+) {
+  const {content, editedAt, ...summary} = revision;
+  const eventDate = content.eventDate as Timestamp | null;
+  return {
+    ...summary,
+    editedAt: editedAt.toDate().toISOString(),
+    editor: userInfoMap.get(revision.editedBy) || {id: revision.editedBy, displayName: "Unknown User"},
+    ...(includeContent ? {content: {...content, eventDate: eventDate ? eventDate.toDate().toISOString() : null}} : {}),
+  };
+}
 
 // MARK: - Cloud Functions
 
@@ -783,16 +922,30 @@ export const createStory = onCall(
           peopleInvolved: peopleInvolved || [],
           isDeleted: false,
           coverImageURL: coverImageURL || undefined,
+          revisionCount: 1,
         };
 
         // Generate searchable fields for optimized search
         const searchFields = generateStorySearchFields(title, subtitle, blocks);
 
+        // The original content is the first revision
+        const revisionRef = newStoryRef.collection(STORY_REVISIONS_SUBCOLLECTION).doc();
+        const revision = buildStoryRevision(revisionRef.id, newStoryRef.id, {
+          revisionNumber: 1,
+          editedBy: callerUid,
+          editedAt: newStory.createdAt,
+          before: null,
+          after: getRevisionContent(newStory),
+        });
+
         try {
-          await newStoryRef.set({
+          const batch = db.batch();
+          batch.set(newStoryRef, {
             ...newStory,
             ...searchFields,
           });
+          batch.set(revisionRef, revision);
+          await batch.commit();
           logger.info(`Story created with ID: ${newStoryRef.id} by user ${callerUid}`);
 
           // Potentially, enrich and return the created story
@@ -907,8 +1060,8 @@ export const updateStory = onCall(
         Object.assign(updates, searchFields);
       }
 
-      await storyRef.update(updates);
-      logger.info(`Story ${storyId} updated by user ${request.auth?.uid}.`);
+      const revised = await updateStoryWithRevision(db, storyId, updates, request.auth!.uid);
+      logger.info(`Story ${storyId} updated by user ${request.auth?.uid}.`, {revised});
 
       const updatedStoryDoc = await storyRef.get();
       const updatedStoryData = {id: updatedStoryDoc.id, ...updatedStoryDoc.data()} as Story;
@@ -921,6 +1074,7 @@ export const updateStory = onCall(
       resourceConfig: {
         resourceType: "story",
         resourceIdField: "storyId",
+        ownerIdField: "authorID",
         requiredLevel: PermissionLevel.ADMIN, // Only story author can update
       },
     }
@@ -984,6 +1138,166 @@ export const deleteStory = onCall(
   )
 );
 
+// MARK: - Revisions
+
+/**
+ * Lists a story's revisions, newest first, without their content
+ */
+export const getStoryRevisions = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withResourceAccess(
+    async (request, story) => {
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.getStoryRevisions,
+        request.auth?.uid
+      );
+      const {storyId, startAfterRevision} = validatedData;
+      const limit = Math.min(Math.max(validatedData.limit || 20, 1), MAX_STORY_REVISIONS_PAGE);
+
+      if (story.isDeleted) {
+        throw createError(ErrorCode.NOT_FOUND, "Story not found or has been deleted.");
+      }
+
+      const db = getFirestore();
+      let query = db
+        .collection("stories")
+        .doc(storyId)
+        .collection(STORY_REVISIONS_SUBCOLLECTION)
+        .orderBy("revisionNumber", "desc");
+      if (startAfterRevision) {
+        query = query.startAfter(startAfterRevision);
+      }
+      const snapshot = await query.limit(limit + 1).get();
+
+      const revisions = snapshot.docs.slice(0, limit).map((doc) => doc.data() as StoryRevision);
+      const userInfoMap = await batchGetUserInfo(db, revisions.map((revision) => revision.editedBy));
+
+      return {
+        revisions: revisions.map((revision) => toStoryRevisionResponse(revision, userInfoMap, false)),
+        hasMore: snapshot.docs.length > limit,
+      };
+    },
+    "getStoryRevisions",
+    {
+      resourceConfig: {
+        resourceType: "story",
+        resourceIdField: "storyId",
+        ownerIdField: "authorID",
+        requiredLevel: PermissionLevel.ADMIN, // Only the author sees past versions
+      },
+    }
+  )
+);
+
+/**
+ * Fetches a single revision with its full content and the changes it made
+ */
+export const getStoryRevision = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withResourceAccess(
+    async (request) => {
+      const {storyId, revisionId} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.getStoryRevision,
+        request.auth?.uid
+      );
+
+      const db = getFirestore();
+      const revisionDoc = await db
+        .collection("stories")
+        .doc(storyId)
+        .collection(STORY_REVISIONS_SUBCOLLECTION)
+        .doc(revisionId)
+        .get();
+      if (!revisionDoc.exists) {
+        throw createError(ErrorCode.NOT_FOUND, "Revision not found.");
+      }
+
+      const revision = revisionDoc.data() as StoryRevision;
+      const userInfoMap = await batchGetUserInfo(db, [revision.editedBy]);
+      return {revision: toStoryRevisionResponse(revision, userInfoMap, true)};
+    },
+    "getStoryRevision",
+    {
+      resourceConfig: {
+        resourceType: "story",
+        resourceIdField: "storyId",
+        ownerIdField: "authorID",
+        requiredLevel: PermissionLevel.ADMIN,
+      },
+    }
+  )
+);
+
+/**
+ * Restores a story's content to a past revision. The restore is itself recorded as a
+ * new revision, so it can be undone by restoring the revision before it.
+ */
+export const restoreStoryRevision = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "512MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.MEDIUM,
+  },
+  withResourceAccess(
+    async (request, story) => {
+      const {storyId, revisionId} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.restoreStoryRevision,
+        request.auth?.uid
+      );
+
+      if (story.isDeleted) {
+        throw createError(ErrorCode.ABORTED, "Cannot restore a deleted story. Restore it first.");
+      }
+
+      const db = getFirestore();
+      const storyRef = db.collection("stories").doc(storyId);
+      const revisionDoc = await storyRef.collection(STORY_REVISIONS_SUBCOLLECTION).doc(revisionId).get();
+      if (!revisionDoc.exists) {
+        throw createError(ErrorCode.NOT_FOUND, "Revision not found.");
+      }
+
+      const revision = revisionDoc.data() as StoryRevision;
+      const {title, subtitle, blocks} = revision.content as {title: string; subtitle: string | null; blocks: StorageBlock[]};
+      const updates = {
+        ...revision.content,
+        ...generateStorySearchFields(title, subtitle || undefined, blocks),
+      };
+
+      const revised = await updateStoryWithRevision(db, storyId, updates, request.auth!.uid, revision.revisionNumber);
+      logger.info(`Story ${storyId} restored to revision ${revision.revisionNumber} by user ${request.auth?.uid}.`, {
+        revised,
+      });
+
+      const updatedStoryDoc = await storyRef.get();
+      const updatedStoryData = {id: updatedStoryDoc.id, ...updatedStoryDoc.data()} as Story;
+      return {story: await enrichStoryWithUserInfo(db, updatedStoryData), restored: revised};
+    },
+    "restoreStoryRevision",
+    {
+      resourceConfig: {
+        resourceType: "story",
+        resourceIdField: "storyId",
+        ownerIdField: "authorID",
+        requiredLevel: PermissionLevel.ADMIN,
+      },
+      rateLimitConfig: {
+        type: RateLimitType.WRITE,
+      },
+    }
+  )
+);
+
 // MARK: - Likes
 
 /**
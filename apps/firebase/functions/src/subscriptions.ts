@@ -1470,6 +1470,7 @@ export const getStorageInfo = onCall(
     try {
       // Calculate storage for the user
       const storageInfo = await storageService.calculateUserStorage(uid);
+      const usage = await storageService.getUserStorageBreakdown(uid);
 
       logger.info("Storage info retrieved", {
         userId: uid,
@@ -1481,6 +1482,8 @@ export const getStorageInfo = onCall(
         storage: {
           totalGB: storageInfo.totalGB,
           usedBytes: storageInfo.usedBytes,
+          physicalUsedBytes: usage.physicalBytes,
+          dedupedBytes: usage.dedupedBytes,
           availableBytes: storageInfo.availableBytes,
           usagePercentage: storageInfo.usagePercentage,
           breakdown: {
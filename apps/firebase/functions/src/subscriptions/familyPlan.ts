@@ -47,6 +47,8 @@ export interface FamilyStorageReport {
   usedStorageGB: number;
   availableStorageGB: number;
   usagePercentage: number;
+  // Family tree vaults linked to the plan, counted in usedStorageGB
+  familyVaultUsageGB: number;
   memberUsage: Array<{
     userId: string;
     email: string;
@@ -446,6 +448,8 @@ export class FamilyPlanService {
         availableStorageGB:
           Math.round((familyStorage.availableBytes / (1024 * 1024 * 1024)) * 100) / 100,
         usagePercentage,
+        familyVaultUsageGB:
+          Math.round((familyStorage.familyVaultUsageBytes / (1024 * 1024 * 1024)) * 100) / 100,
         memberUsage,
         storageWarnings: warnings,
       };
@@ -0,0 +1,64 @@
+import {
+  getChatMediaStoragePath,
+  getDisappearingTimerMessage,
+  getMessageExpiry,
+  isDisappearingMessageDuration,
+} from "../disappearingMessages";
+
+describe("Disappearing message utilities", () => {
+  describe("isDisappearingMessageDuration", () => {
+    it("should accept the supported timers and off", () => {
+      expect(isDisappearingMessageDuration(0)).toBe(true);
+      expect(isDisappearingMessageDuration(86400)).toBe(true);
+    });
+
+    it("should reject other values", () => {
+      expect(isDisappearingMessageDuration(5)).toBe(false);
+      expect(isDisappearingMessageDuration(-3600)).toBe(false);
+      expect(isDisappearingMessageDuration("3600")).toBe(false);
+    });
+  });
+
+  describe("getMessageExpiry", () => {
+    const sentAt = new Date("2024-06-01T12:00:00Z");
+
+    it("should add the timer to the send time", () => {
+      expect(getMessageExpiry(sentAt, 3600)).toEqual(new Date("2024-06-01T13:00:00Z"));
+    });
+
+    it("should not expire messages when the timer is off", () => {
+      expect(getMessageExpiry(sentAt, 0)).toBeNull();
+      expect(getMessageExpiry(sentAt, undefined)).toBeNull();
+    });
+  });
+
+  describe("getChatMediaStoragePath", () => {
+    const url = (path: string) =>
+      `https://firebasestorage.googleapis.com/v0/b/dynasty.appspot.com/o/${encodeURIComponent(path)}?alt=media`;
+
+    it("should resolve attachments of the chat", () => {
+      expect(getChatMediaStoragePath(url("chats/chat1/media/abc.enc"), "chat1", "dynasty.appspot.com"))
+        .toBe("chats/chat1/media/abc.enc");
+    });
+
+    it("should ignore files outside the chat's media folder", () => {
+      expect(getChatMediaStoragePath(url("chats/chat2/media/abc.enc"), "chat1", "dynasty.appspot.com"))
+        .toBeUndefined();
+      expect(getChatMediaStoragePath(url("vault/user1/file"), "chat1", "dynasty.appspot.com")).toBeUndefined();
+      expect(getChatMediaStoragePath(url("chats/chat1/media/abc.enc"), "chat1", "other.appspot.com"))
+        .toBeUndefined();
+      expect(getChatMediaStoragePath(undefined, "chat1", "dynasty.appspot.com")).toBeUndefined();
+    });
+  });
+
+  describe("getDisappearingTimerMessage", () => {
+    it("should describe the new timer", () => {
+      expect(getDisappearingTimerMessage(604800, "Grandma"))
+        .toBe("Grandma set messages to disappear after 1 week");
+    });
+
+    it("should say when the timer is turned off", () => {
+      expect(getDisappearingTimerMessage(0, "Grandma")).toBe("Grandma turned off disappearing messages");
+    });
+  });
+});
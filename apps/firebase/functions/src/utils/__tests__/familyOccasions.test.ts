@@ -0,0 +1,89 @@
+import {
+  describeFamilyOccasion,
+  getFamilyOccasionsBetween,
+  getFamilyOccasionsOn,
+  FamilyOccasionMember,
+} from "../familyOccasions";
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe("Family occasion utilities", () => {
+  const members: FamilyOccasionMember[] = [
+    {
+      id: "alice",
+      name: "Alice Smith",
+      dateOfBirth: utc("1980-06-14"),
+      marriageDates: {bob: utc("2005-06-18")},
+    },
+    {
+      id: "bob",
+      name: "Bob Smith",
+      dateOfBirth: utc("1978-06-16"),
+      marriageDates: {alice: utc("2005-06-18")},
+    },
+    {
+      id: "grandpa",
+      name: "George Smith",
+      dateOfBirth: utc("1920-06-15"),
+      dateOfDeath: utc("2010-06-17"),
+      isDeceased: true,
+    },
+    {
+      id: "leap",
+      name: "Lea Smith",
+      dateOfBirth: utc("2000-02-29"),
+    },
+  ];
+
+  describe("getFamilyOccasionsOn", () => {
+    it("should list birthdays of living members only", () => {
+      expect(getFamilyOccasionsOn(members, utc("2024-06-14"))).toEqual([
+        {type: "birthday", date: "2024-06-14", memberIds: ["alice"], names: ["Alice Smith"], years: 44},
+      ]);
+      expect(getFamilyOccasionsOn(members, utc("2024-06-15"))).toEqual([]);
+    });
+
+    it("should list each couple's anniversary once", () => {
+      expect(getFamilyOccasionsOn(members, utc("2024-06-18"))).toEqual([
+        {
+          type: "anniversary",
+          date: "2024-06-18",
+          memberIds: ["alice", "bob"],
+          names: ["Alice Smith", "Bob Smith"],
+          years: 19,
+        },
+      ]);
+    });
+
+    it("should remember deceased members on the anniversary of their passing", () => {
+      expect(getFamilyOccasionsOn(members, utc("2024-06-17"))).toMatchObject([
+        {type: "memorial", memberIds: ["grandpa"], years: 14},
+      ]);
+    });
+
+    it("should move February 29 birthdays to February 28 in non-leap years", () => {
+      expect(getFamilyOccasionsOn(members, utc("2023-02-28"))).toMatchObject([{type: "birthday", years: 23}]);
+      expect(getFamilyOccasionsOn(members, utc("2024-02-28"))).toEqual([]);
+      expect(getFamilyOccasionsOn(members, utc("2024-02-29"))).toMatchObject([{type: "birthday", years: 24}]);
+    });
+  });
+
+  describe("getFamilyOccasionsBetween", () => {
+    it("should list a week of occasions in date order", () => {
+      expect(getFamilyOccasionsBetween(members, utc("2024-06-13"), 7).map((occasion) => occasion.type))
+        .toEqual(["birthday", "birthday", "memorial", "anniversary"]);
+    });
+  });
+
+  describe("describeFamilyOccasion", () => {
+    it("should describe occasions relative to today", () => {
+      const [anniversary] = getFamilyOccasionsOn(members, utc("2024-06-18"));
+      expect(describeFamilyOccasion(anniversary, 3)).toEqual({
+        title: "Wedding anniversary",
+        body: "Alice Smith and Bob Smith celebrate 19 years of marriage in 3 days",
+      });
+      const [birthday] = getFamilyOccasionsOn(members, utc("2024-06-16"));
+      expect(describeFamilyOccasion(birthday, 1).body).toBe("Bob Smith turns 46 tomorrow");
+    });
+  });
+});
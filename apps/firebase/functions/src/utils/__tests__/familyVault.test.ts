@@ -0,0 +1,72 @@
+import {
+  canModifyFamilyVaultItem,
+  getFamilyTreeIdFromOwner,
+  getFamilyVaultMemberRemoval,
+  getFamilyVaultOwnerId,
+  hasFamilyVaultRole,
+  resolveFamilyVaultRole,
+} from "../familyVault";
+
+describe("Family vault utilities", () => {
+  const tree = {
+    ownerUserId: "owner",
+    adminUserIds: ["admin"],
+    memberUserIds: ["owner", "admin", "member", "helper"],
+  };
+
+  describe("getFamilyVaultOwnerId", () => {
+    it("should round-trip the family tree id", () => {
+      expect(getFamilyTreeIdFromOwner(getFamilyVaultOwnerId("tree1"))).toBe("tree1");
+      expect(getFamilyTreeIdFromOwner("user1")).toBeNull();
+    });
+  });
+
+  describe("resolveFamilyVaultRole", () => {
+    it("should make tree admins managers regardless of assigned roles", () => {
+      expect(resolveFamilyVaultRole(tree, {roles: {admin: "viewer"}}, "owner")).toBe("manager");
+      expect(resolveFamilyVaultRole(tree, {roles: {admin: "viewer"}}, "admin")).toBe("manager");
+    });
+
+    it("should fall back to the default role for members", () => {
+      const vault = {defaultRole: "contributor" as const, roles: {helper: "manager" as const}};
+      expect(resolveFamilyVaultRole(tree, vault, "member")).toBe("contributor");
+      expect(resolveFamilyVaultRole(tree, vault, "helper")).toBe("manager");
+      expect(resolveFamilyVaultRole(tree, undefined, "member")).toBe("viewer");
+    });
+
+    it("should give non-members no role", () => {
+      expect(resolveFamilyVaultRole(tree, {roles: {stranger: "manager"}}, "stranger")).toBeNull();
+    });
+  });
+
+  describe("hasFamilyVaultRole", () => {
+    it("should rank roles", () => {
+      expect(hasFamilyVaultRole("manager", "contributor")).toBe(true);
+      expect(hasFamilyVaultRole("viewer", "contributor")).toBe(false);
+      expect(hasFamilyVaultRole(null, "viewer")).toBe(false);
+    });
+  });
+
+  describe("canModifyFamilyVaultItem", () => {
+    it("should limit contributors to the items they added", () => {
+      expect(canModifyFamilyVaultItem("contributor", {uploadedBy: "member"}, "member")).toBe(true);
+      expect(canModifyFamilyVaultItem("contributor", {createdBy: "helper"}, "member")).toBe(false);
+      expect(canModifyFamilyVaultItem("manager", {createdBy: "helper"}, "member")).toBe(true);
+      expect(canModifyFamilyVaultItem("viewer", {uploadedBy: "member"}, "member")).toBe(false);
+    });
+  });
+
+  describe("getFamilyVaultMemberRemoval", () => {
+    it("should drop the member's role and unlink their family plan", () => {
+      const vault = {planOwnerId: "member", roles: {member: "contributor" as const, helper: "viewer" as const}};
+      expect(getFamilyVaultMemberRemoval(vault, "member")).toEqual({
+        roles: {helper: "viewer"},
+        planOwnerId: null,
+      });
+      expect(getFamilyVaultMemberRemoval(vault, "helper")).toEqual({
+        roles: {member: "contributor"},
+      });
+      expect(getFamilyVaultMemberRemoval(vault, "stranger")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  parseGedcom,
+  parseGedcomDate,
+  gedcomDateToIso,
+  buildGedcomImportPlan,
+  serializeGedcom,
+  shouldRedactForExport,
+  GedcomExportPerson,
+} from "../gedcom";
+
+const SAMPLE_GEDCOM = [
+  "0 HEAD",
+  "1 GEDC",
+  "2 VERS 5.5.1",
+  "1 CHAR UTF-8",
+  "0 @I1@ INDI",
+  "1 NAME John /Smith/",
+  "1 SEX M",
+  "1 BIRT",
+  "2 DATE 12 JAN 1920",
+  "2 PLAC Boston, Massachusetts, USA",
+  "1 DEAT",
+  "2 DATE ABT 1990",
+  "1 NOTE Served in the navy",
+  "2 CONT and later ran a bakery.",
+  "1 SOUR @S1@",
+  "0 @I2@ INDI",
+  "1 NAME Mary /Jones/",
+  "1 SEX F",
+  "1 BIRT",
+  "2 DATE 3 MAR 1922",
+  "0 @I3@ INDI",
+  "1 NAME Robert /Smith/",
+  "1 SEX M",
+  "1 NOTE @N1@",
+  "0 @F1@ FAM",
+  "1 HUSB @I1@",
+  "1 WIFE @I2@",
+  "1 CHIL @I3@",
+  "1 MARR",
+  "2 DATE 5 JUN 1945",
+  "2 PLAC Chicago",
+  "0 @N1@ NOTE Named after his ",
+  "1 CONC grandfather",
+  "0 @S1@ SOUR",
+  "1 TITL 1940 US Census",
+  "0 TRLR",
+].join("\r\n");
+
+describe("GEDCOM utilities", () => {
+  describe("parseGedcomDate", () => {
+    it("should parse exact dates", () => {
+      const date = parseGedcomDate("12 JAN 1920");
+      expect(date).toMatchObject({year: 1920, month: 1, day: 12});
+      expect(gedcomDateToIso(date)).toBe("1920-01-12");
+    });
+
+    it("should keep qualifiers and not produce ISO dates for approximations", () => {
+      const date = parseGedcomDate("ABT 1850");
+      expect(date).toMatchObject({year: 1850, qualifier: "ABT"});
+      expect(gedcomDateToIso(date)).toBeUndefined();
+    });
+
+    it("should use the first date of a range", () => {
+      expect(parseGedcomDate("BET 1900 AND 1910")).toMatchObject({year: 1900, qualifier: "BET"});
+    });
+
+    it("should strip calendar escapes", () => {
+      expect(parseGedcomDate("@#DGREGORIAN@ 1 FEB 1800")).toMatchObject({year: 1800, month: 2, day: 1});
+      expect(parseGedcomDate("GREGORIAN 1 FEB 1800")).toMatchObject({year: 1800, month: 2, day: 1});
+    });
+  });
+
+  describe("parseGedcom", () => {
+    it("should parse individuals, events, notes and sources", () => {
+      const document = parseGedcom(SAMPLE_GEDCOM);
+
+      expect(document.version).toBe("5.5.1");
+      expect(document.individuals).toHaveLength(3);
+
+      const john = document.individuals[0];
+      expect(john).toMatchObject({
+        xref: "@I1@",
+        firstName: "John",
+        lastName: "Smith",
+        displayName: "John Smith",
+        gender: "male",
+        isDeceased: true,
+      });
+      expect(john.birth?.place).toBe("Boston, Massachusetts, USA");
+      expect(john.notes).toEqual(["Served in the navy\nand later ran a bakery."]);
+      expect(john.sources).toEqual(["1940 US Census"]);
+
+      expect(document.individuals[2].notes).toEqual(["Named after his grandfather"]);
+    });
+
+    it("should parse families", () => {
+      const document = parseGedcom(SAMPLE_GEDCOM);
+
+      expect(document.families).toEqual([
+        expect.objectContaining({
+          xref: "@F1@",
+          husbandXref: "@I1@",
+          wifeXref: "@I2@",
+          childXrefs: ["@I3@"],
+        }),
+      ]);
+      expect(document.families[0].marriage?.place).toBe("Chicago");
+    });
+
+    it("should read the GEDCOM 7 version and shared notes", () => {
+      const document = parseGedcom([
+        "0 HEAD",
+        "1 GEDC",
+        "2 VERS 7.0",
+        "0 @I1@ INDI",
+        "1 NAME Ada /Lovelace/",
+        "1 SNOTE @N1@",
+        "0 @N1@ SNOTE Mathematician",
+        "0 TRLR",
+      ].join("\n"));
+
+      expect(document.version).toBe("7.0");
+      expect(document.individuals[0].notes).toEqual(["Mathematician"]);
+    });
+
+    it("should report malformed lines as warnings", () => {
+      const document = parseGedcom("0 HEAD\nnot a gedcom line\n0 TRLR");
+      expect(document.warnings).toHaveLength(1);
+    });
+  });
+
+  describe("buildGedcomImportPlan", () => {
+    it("should plan new members and relationships", () => {
+      const plan = buildGedcomImportPlan(parseGedcom(SAMPLE_GEDCOM), []);
+
+      expect(plan.summary).toMatchObject({
+        individuals: 3,
+        families: 1,
+        toCreate: 3,
+        toLink: 0,
+        conflicts: 0,
+        newRelationships: 3,
+      });
+      expect(plan.relationships).toContainEqual(
+        expect.objectContaining({type: "spouse", fromXref: "@I1@", toXref: "@I2@", marriageDate: "1945-06-05"})
+      );
+    });
+
+    it("should link exact duplicates and skip existing relationships", () => {
+      const plan = buildGedcomImportPlan(parseGedcom(SAMPLE_GEDCOM), [
+        {id: "john", firstName: "John", lastName: "Smith", dateOfBirth: new Date("1920-01-12T00:00:00Z"), spouseIds: ["mary"]},
+        {id: "mary", firstName: "Mary", lastName: "Jones", dateOfBirth: new Date("1922-03-03T00:00:00Z"), spouseIds: ["john"]},
+      ]);
+
+      expect(plan.people[0]).toMatchObject({matchStatus: "duplicate", action: "link", existingMemberId: "john"});
+      expect(plan.people[1]).toMatchObject({matchStatus: "duplicate", action: "link", existingMemberId: "mary"});
+      expect(plan.relationships.find((relationship) => relationship.type === "spouse")?.alreadyExists).toBe(true);
+      expect(plan.summary.newRelationships).toBe(2);
+    });
+
+    it("should report name-only matches as conflicts and honour resolutions", () => {
+      const existing = [{id: "robert", firstName: "Robert", lastName: "Smith"}];
+      const document = parseGedcom(SAMPLE_GEDCOM);
+
+      const plan = buildGedcomImportPlan(document, existing);
+      expect(plan.people[2]).toMatchObject({matchStatus: "conflict", action: "create"});
+      expect(plan.people[2].candidates).toEqual([
+        {memberId: "robert", displayName: "Robert Smith", reason: "name_only"},
+      ]);
+
+      const resolved = buildGedcomImportPlan(document, existing, {
+        "@I3@": {action: "link", existingMemberId: "robert"},
+      });
+      expect(resolved.people[2]).toMatchObject({action: "link", existingMemberId: "robert"});
+    });
+
+    it("should drop relationships of skipped individuals", () => {
+      const plan = buildGedcomImportPlan(parseGedcom(SAMPLE_GEDCOM), [], {
+        "@I3@": {action: "skip"},
+      });
+
+      expect(plan.summary.toSkip).toBe(1);
+      expect(plan.relationships).toHaveLength(1);
+    });
+  });
+
+  describe("serializeGedcom", () => {
+    const people: GedcomExportPerson[] = [
+      {
+        id: "john",
+        firstName: "John",
+        lastName: "Smith",
+        gender: "male",
+        dateOfBirth: new Date("1920-01-12T00:00:00Z"),
+        placeOfBirth: "Boston",
+        isDeceased: true,
+        deathDateText: "@#DGREGORIAN@ ABT 1990",
+        notes: ["Served in the navy\nand later ran a bakery."],
+        spouseIds: ["mary"],
+        childrenIds: ["robert"],
+        photo: {file: "media/john.jpg", mediaType: "image/jpeg"},
+      },
+      {id: "mary", firstName: "Mary", lastName: "Jones", gender: "female", spouseIds: ["john"]},
+      {id: "robert", firstName: "Robert", lastName: "Smith", gender: "male", parentIds: ["john", "mary"]},
+    ];
+
+    it("should write a GEDCOM 7 file that round-trips through the parser", () => {
+      const {content, summary} = serializeGedcom(people, [], {exportedAt: new Date("2024-05-01T10:00:00Z")});
+
+      expect(content).toContain("2 VERS 7.0");
+      expect(content).toContain("1 DATE 1 MAY 2024");
+      expect(content).toContain("2 CONT and later ran a bakery.");
+      expect(content).toContain("2 DATE ABT 1990");
+      expect(content.trim().endsWith("0 TRLR")).toBe(true);
+      expect(summary).toMatchObject({individuals: 3, families: 1, media: 1, redacted: 0});
+
+      const document = parseGedcom(content);
+      expect(document.version).toBe("7.0");
+      expect(document.individuals[0]).toMatchObject({displayName: "John Smith", gender: "male", isDeceased: true});
+      expect(gedcomDateToIso(document.individuals[0].birth?.date)).toBe("1920-01-12");
+      expect(document.families).toEqual([
+        expect.objectContaining({husbandXref: "@I1@", wifeXref: "@I2@", childXrefs: ["@I3@"]}),
+      ]);
+    });
+
+    it("should cite stories and link profile photos", () => {
+      const {content} = serializeGedcom(people, [
+        {id: "story1", title: "Wedding day", authorName: "Mary Jones", peopleInvolved: ["john", "mary"]},
+      ]);
+
+      expect(content).toContain("0 @S1@ SOUR\n1 TITL Wedding day\n1 AUTH Mary Jones\n1 REFN story1");
+      expect(content.match(/1 SOUR @S1@/g)).toHaveLength(2);
+      expect(content).toContain("1 OBJE @O1@");
+      expect(content).toContain("0 @O1@ OBJE\n1 FILE media/john.jpg\n2 FORM image/jpeg");
+    });
+
+    it("should redact private members but keep their relationships", () => {
+      const {content, summary} = serializeGedcom(
+        people.map((person) => person.id === "john" ? {...person, redacted: true} : person),
+        [{id: "story1", title: "Navy years", peopleInvolved: ["john"]}]
+      );
+
+      expect(summary).toMatchObject({redacted: 1, media: 0, stories: 0});
+      expect(content).not.toContain("John");
+      expect(content).not.toContain("Boston");
+      expect(content).not.toContain("Navy years");
+      expect(content).toContain("0 @I1@ INDI\n1 RESN PRIVACY\n1 NAME Private\n1 FAMS @F1@");
+      expect(content).toContain("1 CHIL @I3@");
+    });
+
+    it("should escape leading @ in text values", () => {
+      const {content} = serializeGedcom([{id: "a", firstName: "Ann", notes: ["@handle on social media"]}]);
+      expect(content).toContain("1 NOTE @@handle on social media");
+    });
+  });
+
+  describe("shouldRedactForExport", () => {
+    it("should only redact living members with private profiles", () => {
+      expect(shouldRedactForExport({profileVisibility: "Private"})).toBe(true);
+      expect(shouldRedactForExport({profileVisibility: "private"})).toBe(true);
+      expect(shouldRedactForExport({profileVisibility: "family"})).toBe(false);
+      expect(shouldRedactForExport({profileVisibility: "Private", isDeceased: true})).toBe(false);
+      expect(shouldRedactForExport({profileVisibility: "private", dateOfDeath: new Date("2001-01-01")})).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import {PDFDocument} from "pdf-lib";
+import {
+  assignGenerations,
+  buildTimeline,
+  getStoryContent,
+  groupStoriesByDecade,
+  htmlToParagraphs,
+  toPdfSafeText,
+  HistoryBookMember,
+  HistoryBookStory,
+} from "../historyBook";
+import {renderHistoryBookPdf} from "../historyBookPdf";
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe("History book utilities", () => {
+  const stories: HistoryBookStory[] = [
+    {
+      id: "wedding",
+      title: "Our Wedding Day",
+      authorName: "Margaret Jones",
+      date: utc("1962-06-02"),
+      blocks: [
+        {type: "text", data: "<p>It rained &amp; we <b>danced</b> anyway.</p><p>Line one<br>line two</p>"},
+        {type: "image", data: ["https://example.com/wedding.jpg"]},
+      ],
+    },
+    {
+      id: "farm",
+      title: "Life on the Farm",
+      date: utc("1958-03-10"),
+      blocks: [
+        {type: "audio", data: "https://example.com/farm.m4a", transcript: "We milked the cows at dawn."},
+        {type: "video", data: "https://example.com/farm.mp4"},
+      ],
+    },
+    {id: "recipes", title: "Family Recipes", date: null, blocks: [{type: "audio", data: "https://example.com/r.m4a"}]},
+  ];
+
+  const members: HistoryBookMember[] = [
+    {id: "kid", name: "Susan Jones", dateOfBirth: utc("1965-01-05"), dateOfDeath: null, parentIds: ["mum", "dad"], spouseIds: []},
+    {id: "dad", name: "Tom Jones", dateOfBirth: utc("1938-04-01"), dateOfDeath: utc("2010-09-09"), parentIds: [], spouseIds: ["mum"]},
+    {id: "mum", name: "Margaret Jones", dateOfBirth: null, dateOfDeath: null, parentIds: ["nan"], spouseIds: ["dad"]},
+    {id: "nan", name: "Edith Brown", dateOfBirth: null, dateOfDeath: null, parentIds: [], spouseIds: []},
+  ];
+
+  describe("text", () => {
+    it("should split story HTML into paragraphs and keep line breaks", () => {
+      expect(htmlToParagraphs(stories[0].blocks[0].data as string)).toEqual([
+        "It rained & we danced anyway.",
+        "Line one\nline two",
+      ]);
+    });
+
+    it("should replace characters the standard PDF fonts can't draw", () => {
+      expect(toPdfSafeText("“Zoë” – Žofie 你")).toBe("\"Zoë\" - Zofie ?");
+    });
+  });
+
+  describe("groupStoriesByDecade", () => {
+    it("should order chapters by decade with undated stories last", () => {
+      expect(groupStoriesByDecade(stories).map((chapter) => [chapter.title, chapter.stories.map((s) => s.id)]))
+        .toEqual([["The 1950s", ["farm"]], ["The 1960s", ["wedding"]], ["Undated Stories", ["recipes"]]]);
+    });
+  });
+
+  describe("getStoryContent", () => {
+    it("should print transcripts and leave notes for media that can't be printed", () => {
+      expect(getStoryContent(stories[1])).toEqual([
+        {kind: "transcript", text: "We milked the cows at dawn."},
+        {kind: "note", text: "A video is included with the online story."},
+      ]);
+      expect(getStoryContent(stories[0]).map((content) => content.kind)).toEqual(["paragraph", "paragraph", "image"]);
+    });
+  });
+
+  describe("buildTimeline", () => {
+    it("should list births, deaths and dated stories in order", () => {
+      expect(buildTimeline(members, stories).map((entry) => entry.label)).toEqual([
+        "Tom Jones was born",
+        "Life on the Farm",
+        "Our Wedding Day",
+        "Susan Jones was born",
+        "Tom Jones passed away",
+      ]);
+    });
+  });
+
+  describe("assignGenerations", () => {
+    it("should put spouses on the same row and children below their parents", () => {
+      expect(assignGenerations(members).map((row) => row.map((member) => member.id)))
+        .toEqual([["nan"], ["mum", "dad"], ["kid"]]);
+    });
+  });
+
+  describe("renderHistoryBookPdf", () => {
+    it("should render the cover, contents, chapters, chart and timeline", async () => {
+      const progress: number[] = [];
+      const {pdf, pageCount} = await renderHistoryBookPdf(
+        {
+          title: "The Jones Family",
+          subtitle: "1938 - today",
+          chapters: groupStoriesByDecade(stories),
+          familyTree: assignGenerations(members),
+          timeline: buildTimeline(members, stories),
+        },
+        {
+          loadImage: async () => null,
+          onProgress: (value) => {
+            progress.push(value);
+          },
+        }
+      );
+
+      // Cover, contents, 3 chapter pages, 3 stories, tree chart and timeline
+      expect(pageCount).toBe(10);
+      expect((await PDFDocument.load(pdf)).getPageCount()).toBe(10);
+      expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  buildICalendarFeed,
+  escapeICalText,
+  foldICalLine,
+  zonedTimeToUtc,
+  ICalFeedEvent,
+} from "../icalendar";
+
+const GENERATED_AT = new Date("2024-05-01T12:00:00Z");
+
+const unfold = (content: string) => content.replace(/\r\n /g, "");
+
+describe("iCalendar utilities", () => {
+  describe("zonedTimeToUtc", () => {
+    it("should convert wall clock times using the event timezone", () => {
+      expect(zonedTimeToUtc("2024-07-04", "18:00", "America/New_York").toISOString())
+        .toBe("2024-07-04T22:00:00.000Z");
+      expect(zonedTimeToUtc("2024-01-15", "18:00", "America/New_York").toISOString())
+        .toBe("2024-01-15T23:00:00.000Z");
+    });
+
+    it("should fall back to UTC for missing or unknown timezones", () => {
+      expect(zonedTimeToUtc("2024-07-04", "18:00").toISOString()).toBe("2024-07-04T18:00:00.000Z");
+      expect(zonedTimeToUtc("2024-07-04", "18:00", "Not/AZone").toISOString()).toBe("2024-07-04T18:00:00.000Z");
+    });
+  });
+
+  describe("formatting", () => {
+    it("should escape text values", () => {
+      expect(escapeICalText("Bring chips, dip; and \\ napkins\nThanks")).toBe(
+        "Bring chips\\, dip\\; and \\\\ napkins\\nThanks"
+      );
+    });
+
+    it("should fold long lines at 75 octets", () => {
+      const folded = foldICalLine(`SUMMARY:${"é".repeat(60)}`);
+      folded.split("\r\n").forEach((line) => {
+        expect(Buffer.byteLength(line, "utf8")).toBeLessThanOrEqual(75);
+      });
+      expect(unfold(folded)).toBe(`SUMMARY:${"é".repeat(60)}`);
+    });
+  });
+
+  describe("buildICalendarFeed", () => {
+    const dinner: ICalFeedEvent = {
+      id: "dinner",
+      title: "Sunday Dinner",
+      description: "At grandma's",
+      eventDate: "2024-07-07",
+      startTime: "17:30",
+      endTime: "20:00",
+      timezone: "America/Chicago",
+      location: {address: "12 Oak St, Springfield"},
+      url: "https://mydynastyapp.com/events/dinner",
+    };
+
+    it("should write timed events in UTC with the subscriber's RSVP", () => {
+      const content = unfold(buildICalendarFeed([dinner], {
+        name: "Family Events",
+        attendee: {email: "sam@example.com", name: "Sam Smith"},
+        rsvpStatuses: {dinner: "maybe"},
+        generatedAt: GENERATED_AT,
+      }));
+
+      expect(content.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+      expect(content).toContain("UID:dinner@mydynastyapp.com");
+      expect(content).toContain("DTSTAMP:20240501T120000Z");
+      expect(content).toContain("DTSTART:20240707T223000Z");
+      expect(content).toContain("DTEND:20240708T010000Z");
+      expect(content).toContain("LOCATION:12 Oak St\\, Springfield");
+      expect(content).toContain("STATUS:CONFIRMED");
+      expect(content).toContain("ATTENDEE;CN=Sam Smith;PARTSTAT=TENTATIVE:mailto:sam@example.com");
+      expect(content.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    });
+
+    it("should mark cancelled events and default RSVPs to needs action", () => {
+      const content = buildICalendarFeed([{...dinner, status: "cancelled"}], {
+        name: "Family Events",
+        attendee: {email: "sam@example.com"},
+      });
+
+      expect(content).toContain("STATUS:CANCELLED");
+      expect(content).toContain("ATTENDEE;PARTSTAT=NEEDS-ACTION:mailto:sam@example.com");
+    });
+
+    it("should write all-day events with an exclusive end date", () => {
+      const content = buildICalendarFeed([
+        {id: "reunion", title: "Reunion", eventDate: "2024-08-30", endDate: "2024-09-01"},
+      ], {name: "Family Events"});
+
+      expect(content).toContain("DTSTART;VALUE=DATE:20240830");
+      expect(content).toContain("DTEND;VALUE=DATE:20240902");
+    });
+
+    it("should split multi-day events with day specific times into one VEVENT per day", () => {
+      const content = buildICalendarFeed([{
+        id: "trip",
+        title: "Family Trip",
+        eventDate: "2024-06-01",
+        endDate: "2024-06-02",
+        startTime: "09:00",
+        endTime: "17:00",
+        timezone: "UTC",
+        daySpecificTimes: {"2024-06-02": {startTime: "10:00", endTime: "12:00"}},
+      }], {name: "Family Events"});
+
+      expect(content.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(content).toContain("UID:trip-20240601@mydynastyapp.com\r\nDTSTAMP");
+      expect(content).toContain("DTSTART:20240601T090000Z\r\nDTEND:20240601T170000Z");
+      expect(content).toContain("DTSTART:20240602T100000Z\r\nDTEND:20240602T120000Z");
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  findDuplicateCandidates,
+  nameSimilarity,
+  planProfileMerge,
+  DuplicateMemberSummary,
+} from "../memberMerge";
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+describe("Member merge utilities", () => {
+  describe("nameSimilarity", () => {
+    it("should treat reordered names as identical and score typos highly", () => {
+      expect(nameSimilarity("mary smith", "smith mary")).toBe(1);
+      expect(nameSimilarity("margaret jones", "margret jones")).toBeGreaterThan(0.9);
+      expect(nameSimilarity("mary smith", "john brown")).toBeLessThan(0.5);
+    });
+  });
+
+  describe("findDuplicateCandidates", () => {
+    const member = (overrides: Partial<DuplicateMemberSummary> & {id: string}): DuplicateMemberSummary => ({
+      hasAccount: false,
+      relatedIds: [],
+      ...overrides,
+    });
+
+    it("should rank exact name and birth date matches first", () => {
+      const candidates = findDuplicateCandidates([
+        member({id: "grandma1", firstName: "Margaret", lastName: "Jones", dateOfBirth: utc("1940-03-02")}),
+        member({id: "grandma2", firstName: "Margret", lastName: "Jones", dateOfBirth: utc("1940-03-02")}),
+        member({id: "grandma3", displayName: "Margaret Jones"}),
+      ]);
+
+      expect(candidates[0]).toEqual({
+        memberIds: ["grandma1", "grandma2"],
+        names: ["Margaret Jones", "Margret Jones"],
+        score: expect.any(Number),
+        reasons: ["similar_name", "same_birth_date"],
+      });
+      expect(candidates.map((candidate) => candidate.memberIds)).toContainEqual(["grandma1", "grandma3"]);
+    });
+
+    it("should skip clashing birth years, direct relatives and pairs of account holders", () => {
+      expect(findDuplicateCandidates([
+        member({id: "a", displayName: "John Smith", dateOfBirth: utc("1950-01-01")}),
+        member({id: "b", displayName: "John Smith", dateOfBirth: utc("1980-01-01")}),
+      ])).toEqual([]);
+      expect(findDuplicateCandidates([
+        member({id: "a", displayName: "John Smith", relatedIds: ["b"]}),
+        member({id: "b", displayName: "John Smith"}),
+      ])).toEqual([]);
+      expect(findDuplicateCandidates([
+        member({id: "a", displayName: "John Smith", hasAccount: true}),
+        member({id: "b", displayName: "John Smith", hasAccount: true}),
+      ])).toEqual([]);
+    });
+  });
+
+  describe("planProfileMerge", () => {
+    it("should fill empty fields and report conflicts", () => {
+      const result = planProfileMerge(
+        {firstName: "Margaret", placeOfBirth: "Leeds", phoneNumber: "555-0100", bio: ""},
+        {firstName: "Maggie", placeOfBirth: null, phoneNumber: "555-0100", bio: "Loves gardening"}
+      );
+
+      expect(result.updates).toEqual({placeOfBirth: "Leeds"});
+      expect(result.conflicts).toEqual([{field: "firstName", sourceValue: "Margaret", targetValue: "Maggie"}]);
+    });
+
+    it("should take the source value when chosen", () => {
+      const result = planProfileMerge({firstName: "Margaret"}, {firstName: "Maggie"}, {firstName: "source"});
+      expect(result.updates).toEqual({firstName: "Margaret"});
+    });
+
+    it("should compare dates by value", () => {
+      const result = planProfileMerge({dateOfBirth: utc("1940-03-02")}, {dateOfBirth: utc("1940-03-02")});
+      expect(result.conflicts).toEqual([]);
+    });
+  });
+});
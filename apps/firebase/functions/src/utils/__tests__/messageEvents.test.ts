@@ -0,0 +1,45 @@
+import {
+  getMessageEventError,
+  getMessageEventNotificationBody,
+  isMessageEventType,
+} from "../messageEvents";
+
+describe("Message event utilities", () => {
+  describe("isMessageEventType", () => {
+    it("should recognize events and reject regular message types", () => {
+      expect(isMessageEventType("reaction")).toBe(true);
+      expect(isMessageEventType("delete")).toBe(true);
+      expect(isMessageEventType("text")).toBe(false);
+      expect(isMessageEventType(undefined)).toBe(false);
+    });
+  });
+
+  describe("getMessageEventError", () => {
+    const target = {senderId: "alice"};
+
+    it("should let any participant react", () => {
+      expect(getMessageEventError("reaction", "bob", target)).toBeNull();
+    });
+
+    it("should only let the sender edit or delete", () => {
+      expect(getMessageEventError("edit", "alice", target)).toBeNull();
+      expect(getMessageEventError("delete", "alice", target)).toBeNull();
+      expect(getMessageEventError("edit", "bob", target)).toBe("Only the sender can change this message");
+      expect(getMessageEventError("delete", "bob", target)).toBe("Only the sender can change this message");
+    });
+
+    it("should reject events for missing or deleted messages", () => {
+      expect(getMessageEventError("reaction", "bob", undefined)).toBe("Message not found");
+      expect(getMessageEventError("edit", "alice", {senderId: "alice", deletedForEveryone: true}))
+        .toBe("Message was deleted");
+    });
+  });
+
+  describe("getMessageEventNotificationBody", () => {
+    it("should only notify for reactions", () => {
+      expect(getMessageEventNotificationBody("reaction")).toBe("Reacted to your message");
+      expect(getMessageEventNotificationBody("edit")).toBeNull();
+      expect(getMessageEventNotificationBody("delete")).toBeNull();
+    });
+  });
+});
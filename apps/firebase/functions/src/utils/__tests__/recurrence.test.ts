@@ -0,0 +1,93 @@
+import {
+  expandEventOccurrences,
+  expandOccurrenceDates,
+  getRecurrenceEndDate,
+  isOccurrenceDate,
+  normalizeRecurrence,
+  splitRecurrence,
+  OPEN_ENDED_RECURRENCE_END,
+} from "../recurrence";
+
+describe("Recurrence utilities", () => {
+  describe("normalizeRecurrence", () => {
+    it("should canonicalize rules and exception dates", () => {
+      expect(normalizeRecurrence({rrule: "rrule:freq=weekly;byday=su", exdates: ["2024-07-21", "2024-07-14", "2024-07-21"]}, "2024-07-07"))
+        .toEqual({rrule: "FREQ=WEEKLY;BYDAY=SU", exdates: ["2024-07-14", "2024-07-21"]});
+    });
+
+    it("should reject invalid or sub-daily rules", () => {
+      expect(() => normalizeRecurrence({rrule: "FREQ=HOURLY"}, "2024-07-07")).toThrow();
+      expect(() => normalizeRecurrence({rrule: "FOO=BAR"}, "2024-07-07")).toThrow();
+      expect(() => normalizeRecurrence({rrule: "DTSTART:20240101T000000Z\nRRULE:FREQ=DAILY"}, "2024-07-07")).toThrow();
+      expect(() => normalizeRecurrence({rrule: "FREQ=DAILY;UNTIL=20240101"}, "2024-07-07")).toThrow();
+      expect(() => normalizeRecurrence({rrule: "FREQ=DAILY", exdates: ["July 4"]}, "2024-07-07")).toThrow();
+    });
+  });
+
+  describe("getRecurrenceEndDate", () => {
+    it("should use UNTIL, the last COUNT occurrence or an open-ended sentinel", () => {
+      expect(getRecurrenceEndDate("2024-07-07", {rrule: "FREQ=WEEKLY;UNTIL=20240901T000000Z"})).toBe("2024-09-01");
+      expect(getRecurrenceEndDate("2024-07-07", {rrule: "FREQ=WEEKLY;COUNT=3"})).toBe("2024-07-21");
+      expect(getRecurrenceEndDate("2024-07-07", {rrule: "FREQ=YEARLY"})).toBe(OPEN_ENDED_RECURRENCE_END);
+    });
+  });
+
+  describe("expandOccurrenceDates", () => {
+    const weekly = {rrule: "FREQ=WEEKLY;BYDAY=SU", exdates: ["2024-07-14"]};
+
+    it("should list occurrences within the range and skip exceptions", () => {
+      expect(expandOccurrenceDates("2024-07-07", weekly, "2024-07-01", "2024-07-28"))
+        .toEqual(["2024-07-07", "2024-07-21", "2024-07-28"]);
+      expect(expandOccurrenceDates("2024-07-07", weekly, "2024-07-01", "2024-12-31", 2))
+        .toEqual(["2024-07-07", "2024-07-21"]);
+    });
+
+    it("should check individual occurrence dates", () => {
+      expect(isOccurrenceDate("2024-07-07", weekly, "2024-07-21")).toBe(true);
+      expect(isOccurrenceDate("2024-07-07", weekly, "2024-07-14")).toBe(false);
+      expect(isOccurrenceDate("2024-07-07", weekly, "2024-07-22")).toBe(false);
+    });
+  });
+
+  describe("expandEventOccurrences", () => {
+    it("should shift multi-day ranges and apply per-occurrence overrides", () => {
+      const occurrences = expandEventOccurrences({
+        id: "reunion",
+        title: "Reunion",
+        eventDate: "2024-08-02",
+        endDate: "2024-08-04",
+        daySpecificTimes: {"2024-08-03": {startTime: "10:00", endTime: "12:00"}},
+        recurrence: {rrule: "FREQ=YEARLY"},
+        recurrenceOverrides: {"2025-08-02": {title: "Reunion (moved)", eventDate: "2025-08-09", endDate: "2025-08-11"}},
+      }, "2024-01-01", "2025-12-31");
+
+      expect(occurrences).toHaveLength(2);
+      expect(occurrences[0]).toMatchObject({eventDate: "2024-08-02", endDate: "2024-08-04", occurrenceDate: "2024-08-02"});
+      expect(occurrences[1]).toMatchObject({
+        title: "Reunion (moved)",
+        eventDate: "2025-08-09",
+        endDate: "2025-08-11",
+        occurrenceDate: "2025-08-02",
+      });
+      expect(Object.keys(occurrences[1].daySpecificTimes!)).toEqual(["2025-08-03"]);
+    });
+  });
+
+  describe("splitRecurrence", () => {
+    it("should end the original series before the split and carry exceptions forward", () => {
+      const {before, after} = splitRecurrence(
+        "2024-07-07",
+        {rrule: "FREQ=WEEKLY;BYDAY=SU", exdates: ["2024-07-14", "2024-08-04"]},
+        "2024-07-28"
+      );
+      expect(before).toEqual({rrule: "FREQ=WEEKLY;BYDAY=SU;UNTIL=20240727T000000Z", exdates: ["2024-07-14"]});
+      expect(after).toEqual({rrule: "FREQ=WEEKLY;BYDAY=SU", exdates: ["2024-08-04"]});
+    });
+
+    it("should reduce COUNT by the occurrences before the split", () => {
+      const {before, after} = splitRecurrence("2024-07-07", {rrule: "FREQ=WEEKLY;COUNT=10"}, "2024-07-28");
+      expect(before.rrule).toBe("FREQ=WEEKLY;UNTIL=20240727T000000Z");
+      expect(after.rrule).toBe("FREQ=WEEKLY;COUNT=7");
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  calculateRelationship,
+  describeBloodRelationship,
+  ParentLinkType,
+  RelationshipGender,
+  RelationshipGraph,
+  SpouseRelationship,
+} from "../relationships";
+
+/**
+ * Builds a relationship graph from [child, parent] and [spouse, spouse] pairs
+ */
+function buildGraph(parentLinks: Array<[string, string]>, marriages: Array<[string, string]>): RelationshipGraph {
+  const graph: RelationshipGraph = {
+    childToParentsMap: new Map(),
+    parentToChildrenMap: new Map(),
+    personToSpousesMap: new Map(),
+  };
+  const link = (map: Map<string, Set<string>>, from: string, to: string) => {
+    if (!map.has(from)) map.set(from, new Set());
+    map.get(from)!.add(to);
+  };
+  parentLinks.forEach(([child, parent]) => {
+    link(graph.childToParentsMap, child, parent);
+    link(graph.parentToChildrenMap, parent, child);
+  });
+  marriages.forEach(([first, second]) => {
+    link(graph.personToSpousesMap, first, second);
+    link(graph.personToSpousesMap, second, first);
+  });
+  return graph;
+}
+
+describe("Relationship utilities", () => {
+  describe("describeBloodRelationship", () => {
+    it("should name direct ancestors and descendants", () => {
+      expect(describeBloodRelationship(1, 0, "female")).toBe("mother");
+      expect(describeBloodRelationship(3, 0, "male")).toBe("great-grandfather");
+      expect(describeBloodRelationship(0, 2, "other")).toBe("grandchild");
+    });
+
+    it("should name siblings, aunts and nieces", () => {
+      expect(describeBloodRelationship(1, 1, "male", true)).toBe("half-brother");
+      expect(describeBloodRelationship(3, 1, "female")).toBe("great-aunt");
+      expect(describeBloodRelationship(1, 2, "male")).toBe("nephew");
+    });
+
+    it("should name cousins by degree and removal", () => {
+      expect(describeBloodRelationship(2, 2, "other")).toBe("first cousin");
+      expect(describeBloodRelationship(3, 4, "other")).toBe("second cousin once removed");
+      expect(describeBloodRelationship(2, 4, "other")).toBe("first cousin twice removed");
+    });
+  });
+
+  describe("calculateRelationship", () => {
+    // Three generations with a half-brother, an in-law cousin and mom's earlier marriage
+    const graph = buildGraph(
+      [
+        ["dad", "gpa"], ["dad", "gma"], ["aunt", "gpa"], ["aunt", "gma"],
+        ["me", "dad"], ["me", "mom"], ["sis", "dad"], ["half", "dad"],
+        ["niece", "sis"], ["cousin", "aunt"], ["cousin", "uncle"], ["baby", "cousin"],
+        ["stepSis", "momEx"],
+      ],
+      [["gpa", "gma"], ["dad", "mom"], ["aunt", "uncle"], ["cousin", "cousinWife"], ["mom", "momEx"], ["me", "wife"]]
+    );
+    graph.childToParentsMap.get("sis")!.add("mom");
+    graph.parentToChildrenMap.get("mom")!.add("sis");
+    const genders = new Map<string, RelationshipGender>([
+      ["sis", "female"], ["half", "male"], ["aunt", "female"], ["uncle", "male"], ["stepSis", "female"],
+      ["cousinWife", "female"], ["wife", "female"], ["momEx", "male"], ["gpa", "male"],
+    ]);
+
+    it("should name blood relatives with the path through the tree", () => {
+      expect(calculateRelationship(graph, genders, "me", "baby")).toEqual({
+        relationship: "first cousin once removed",
+        isBloodRelated: true,
+        path: [
+          {id: "me", relation: "self"},
+          {id: "dad", relation: "parent"},
+          {id: expect.any(String), relation: "parent"},
+          {id: "aunt", relation: "child"},
+          {id: "cousin", relation: "child"},
+          {id: "baby", relation: "child"},
+        ],
+      });
+      expect(calculateRelationship(graph, genders, "me", "gpa")?.relationship).toBe("grandfather");
+    });
+
+    it("should tell full and half siblings apart", () => {
+      expect(calculateRelationship(graph, genders, "me", "sis")?.relationship).toBe("sister");
+      expect(calculateRelationship(graph, genders, "me", "half")?.relationship).toBe("half-brother");
+    });
+
+    it("should name spouses, in-laws and relatives by marriage", () => {
+      expect(calculateRelationship(graph, genders, "me", "wife")?.relationship).toBe("wife");
+      expect(calculateRelationship(graph, genders, "wife", "sis")?.relationship).toBe("sister-in-law");
+      expect(calculateRelationship(graph, genders, "me", "uncle")?.relationship).toBe("uncle by marriage");
+      expect(calculateRelationship(graph, genders, "me", "cousinWife")?.relationship).toBe("first cousin by marriage");
+    });
+
+    it("should name step-relatives", () => {
+      expect(calculateRelationship(graph, genders, "me", "momEx")?.relationship).toBe("step-father");
+      expect(calculateRelationship(graph, genders, "me", "stepSis")).toEqual({
+        relationship: "step-sister",
+        isBloodRelated: false,
+        path: [
+          {id: "me", relation: "self"},
+          {id: "mom", relation: "parent"},
+          {id: "momEx", relation: "spouse"},
+          {id: "stepSis", relation: "child"},
+        ],
+      });
+    });
+
+    it("should fall back to relatives by marriage and return null when unconnected", () => {
+      expect(calculateRelationship(graph, genders, "wife", "stepSis")?.relationship).toBe("relative by marriage");
+      expect(calculateRelationship(graph, genders, "me", "stranger")).toBeNull();
+    });
+
+    it("should follow adoptive links and name step, foster and guardian links", () => {
+      const linkedGraph = buildGraph(
+        [["kid", "mum"], ["kid", "stepDad"], ["kid", "fosterMum"], ["adoptee", "mum"], ["mum", "nan"], ["fosterKid", "fosterMum"]],
+        [["mum", "exHusband"], ["mum", "stepDad"]]
+      );
+      linkedGraph.parentLinkTypes = new Map([
+        ["kid", new Map<string, ParentLinkType>([["stepDad", "step"], ["fosterMum", "foster"]])],
+        ["adoptee", new Map<string, ParentLinkType>([["mum", "adoptive"]])],
+      ]);
+      linkedGraph.spouseRelationships = new Map([
+        ["mum", new Map<string, SpouseRelationship>([["exHusband", {status: "divorced", endDate: "2001-05-01"}]])],
+      ]);
+      const linkedGenders = new Map<string, RelationshipGender>([
+        ["mum", "female"], ["stepDad", "male"], ["fosterMum", "female"], ["exHusband", "male"], ["nan", "female"],
+        ["fosterKid", "male"],
+      ]);
+
+      expect(calculateRelationship(linkedGraph, linkedGenders, "adoptee", "mum")?.relationship).toBe("adoptive mother");
+      expect(calculateRelationship(linkedGraph, linkedGenders, "adoptee", "nan")?.relationship).toBe("grandmother");
+      expect(calculateRelationship(linkedGraph, linkedGenders, "kid", "stepDad")?.relationship).toBe("step-father");
+      expect(calculateRelationship(linkedGraph, linkedGenders, "stepDad", "kid")?.relationship).toBe("step-child");
+      expect(calculateRelationship(linkedGraph, linkedGenders, "kid", "fosterMum")).toMatchObject({
+        relationship: "foster mother",
+        isBloodRelated: false,
+      });
+      expect(calculateRelationship(linkedGraph, linkedGenders, "kid", "fosterKid")?.relationship).toBe("foster brother");
+      expect(calculateRelationship(linkedGraph, linkedGenders, "mum", "exHusband")?.relationship).toBe("ex-husband");
+    });
+  });
+});
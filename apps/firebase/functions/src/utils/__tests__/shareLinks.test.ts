@@ -0,0 +1,171 @@
+import {
+  MAX_SHARE_PASSWORD_ATTEMPTS,
+  MAX_SHARE_PASSWORD_LOCKOUT_MS,
+  SHARE_PASSWORD_LOCKOUT_MS,
+  getPasswordLockoutMs,
+  getPasswordShareLinkInfo,
+  getRemainingAccesses,
+  getRequestCountry,
+  getShareLinkAccessor,
+  getShareLinkDenial,
+  getShareLinkInfo,
+  getShareLinkLockedUntil,
+  getShareLinkStatus,
+  maskIpAddress,
+  resolveMaxAccessCount,
+} from "../shareLinks";
+
+const at = (millis: number) => ({toMillis: () => millis});
+
+describe("Vault share link utilities", () => {
+  describe("resolveMaxAccessCount", () => {
+    it("should allow a single access for one-time links", () => {
+      expect(resolveMaxAccessCount({oneTime: true, maxAccessCount: 10})).toBe(1);
+      expect(resolveMaxAccessCount({maxAccessCount: 10})).toBe(10);
+      expect(resolveMaxAccessCount({})).toBeNull();
+    });
+  });
+
+  describe("getShareLinkStatus", () => {
+    const link = {accessCount: 0, maxAccessCount: null, expiresAt: null, revokedAt: null};
+
+    it("should report revoked, expired and used up links", () => {
+      expect(getShareLinkStatus(link, 1000)).toBe("active");
+      expect(getShareLinkStatus({...link, revokedAt: at(500)}, 1000)).toBe("revoked");
+      expect(getShareLinkStatus({...link, expiresAt: at(999)}, 1000)).toBe("expired");
+      expect(getShareLinkStatus({...link, expiresAt: at(2000)}, 1000)).toBe("active");
+      expect(getShareLinkStatus({...link, accessCount: 1, maxAccessCount: 1}, 1000)).toBe("exhausted");
+    });
+
+    it("should report revocation before expiry", () => {
+      expect(getShareLinkStatus({...link, revokedAt: at(500), expiresAt: at(600)}, 1000)).toBe("revoked");
+    });
+  });
+
+  describe("getRemainingAccesses", () => {
+    it("should count down to zero and leave unlimited links unlimited", () => {
+      expect(getRemainingAccesses({accessCount: 2, maxAccessCount: 5})).toBe(3);
+      expect(getRemainingAccesses({accessCount: 7, maxAccessCount: 5})).toBe(0);
+      expect(getRemainingAccesses({accessCount: 7, maxAccessCount: null})).toBeNull();
+    });
+  });
+
+  describe("getPasswordLockoutMs", () => {
+    it("should lock after every batch of failed attempts, doubling each time", () => {
+      expect(getPasswordLockoutMs(MAX_SHARE_PASSWORD_ATTEMPTS - 1)).toBe(0);
+      expect(getPasswordLockoutMs(MAX_SHARE_PASSWORD_ATTEMPTS)).toBe(SHARE_PASSWORD_LOCKOUT_MS);
+      expect(getPasswordLockoutMs(MAX_SHARE_PASSWORD_ATTEMPTS + 1)).toBe(0);
+      expect(getPasswordLockoutMs(MAX_SHARE_PASSWORD_ATTEMPTS * 2)).toBe(SHARE_PASSWORD_LOCKOUT_MS * 2);
+      expect(getPasswordLockoutMs(MAX_SHARE_PASSWORD_ATTEMPTS * 20)).toBe(MAX_SHARE_PASSWORD_LOCKOUT_MS);
+    });
+  });
+
+  describe("getShareLinkDenial", () => {
+    const link = {accessCount: 0, maxAccessCount: null, passwordHash: "salt:hash"};
+
+    it("should turn away links that can't be opened before anything else", () => {
+      expect(getShareLinkDenial({...link, revokedAt: at(500), lockedUntil: at(2000)}, true, 1000)).toBe("revoked");
+      expect(getShareLinkDenial({...link, expiresAt: at(999)}, true, 1000)).toBe("expired");
+    });
+
+    it("should turn away a one-time link once it has been opened", () => {
+      const oneTime = {...link, passwordHash: null, maxAccessCount: resolveMaxAccessCount({oneTime: true})};
+
+      expect(getShareLinkDenial(oneTime, false, 1000)).toBeNull();
+      expect(getShareLinkDenial({...oneTime, accessCount: 1}, false, 1000)).toBe("exhausted");
+    });
+
+    it("should keep a locked link locked until the lockout ends, even with a password", () => {
+      expect(getShareLinkDenial({...link, lockedUntil: at(2000)}, true, 1000)).toBe("locked");
+      expect(getShareLinkDenial({...link, lockedUntil: at(2000)}, true, 2001)).toBeNull();
+    });
+
+    it("should ask for the password of a protected link", () => {
+      expect(getShareLinkDenial(link, false, 1000)).toBe("password_required");
+      expect(getShareLinkDenial({...link, passwordHash: null}, false, 1000)).toBeNull();
+    });
+  });
+
+  describe("getShareLinkInfo", () => {
+    const link = {accessCount: 1, maxAccessCount: 3, expiresAt: at(5000), allowDownload: false};
+    const item = {name: "reunion.jpg", mimeType: "image/jpeg", fileType: "image", size: 2048};
+
+    it("should describe the file behind an open link", () => {
+      expect(getShareLinkInfo(link, item)).toEqual({
+        status: "active",
+        requiresPassword: false,
+        fileName: "reunion.jpg",
+        mimeType: "image/jpeg",
+        fileType: "image",
+        size: 2048,
+        isEncrypted: false,
+        allowDownload: false,
+        expiresAt: 5000,
+        remainingAccesses: 2,
+      });
+    });
+
+    it("should only say a password is needed for a password-protected link", () => {
+      const protectedLink = {...link, passwordHash: "salt:hash", lockedUntil: at(2000)};
+
+      expect(getPasswordShareLinkInfo(protectedLink, 1000)).toEqual({
+        status: "active",
+        requiresPassword: true,
+        expiresAt: 5000,
+        lockedUntil: 2000,
+      });
+      expect(getPasswordShareLinkInfo(protectedLink, 3000).lockedUntil).toBeNull();
+    });
+  });
+
+  describe("getShareLinkLockedUntil", () => {
+    it("should only report a lockout that hasn't ended", () => {
+      const link = {accessCount: 0, maxAccessCount: null};
+
+      expect(getShareLinkLockedUntil({...link, lockedUntil: at(2000)}, 1000)).toBe(2000);
+      expect(getShareLinkLockedUntil({...link, lockedUntil: at(500)}, 1000)).toBeNull();
+      expect(getShareLinkLockedUntil(link, 1000)).toBeNull();
+    });
+  });
+
+  describe("getShareLinkAccessor", () => {
+    const headers = {"user-agent": "Mozilla/5.0", "cf-ipcountry": "nz"};
+
+    it("should record anonymous accessors by their masked IP", () => {
+      expect(getShareLinkAccessor({ip: "203.0.113.42", headers})).toEqual({
+        accessorId: "203.0.113.0",
+        ip: "203.0.113.0",
+        country: "NZ",
+        userAgent: "Mozilla/5.0",
+      });
+      expect(getShareLinkAccessor({headers: {}}).accessorId).toBe("anonymous");
+    });
+
+    it("should record signed-in accessors by their ID and cap the user agent", () => {
+      const accessor = getShareLinkAccessor({ip: "203.0.113.42", headers: {"user-agent": "x".repeat(300)}}, "user-1");
+
+      expect(accessor.accessorId).toBe("user-1");
+      expect(accessor.userAgent).toHaveLength(256);
+    });
+  });
+
+  describe("maskIpAddress", () => {
+    it("should drop the host part of IPv4 and IPv6 addresses", () => {
+      expect(maskIpAddress("203.0.113.42")).toBe("203.0.113.0");
+      expect(maskIpAddress("::ffff:203.0.113.42")).toBe("203.0.113.0");
+      expect(maskIpAddress("2001:db8:85a3:8d3:1319:8a2e:370:7348")).toBe("2001:db8:85a3::");
+      expect(maskIpAddress(undefined)).toBeNull();
+      expect(maskIpAddress("unknown")).toBeNull();
+    });
+  });
+
+  describe("getRequestCountry", () => {
+    it("should read the first known geo header", () => {
+      expect(getRequestCountry({"cf-ipcountry": "nz"})).toBe("NZ");
+      expect(getRequestCountry({"x-appengine-country": "US"})).toBe("US");
+      expect(getRequestCountry({"cf-ipcountry": "XX", "x-client-geo-country": "DE"})).toBe("DE");
+      expect(getRequestCountry({"x-client-geo-country": "Germany"})).toBeNull();
+      expect(getRequestCountry(undefined)).toBeNull();
+    });
+  });
+});
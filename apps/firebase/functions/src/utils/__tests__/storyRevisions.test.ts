@@ -0,0 +1,76 @@
+import {
+  diffStoryBlocks,
+  diffStoryFields,
+  getRevisionContent,
+  summarizeRevision,
+  RevisionBlock,
+} from "../storyRevisions";
+
+const text = (localId: string, data: string): RevisionBlock => ({type: "text", data, localId});
+
+describe("Story revision utilities", () => {
+  describe("getRevisionContent", () => {
+    it("should keep only revisioned fields and fill in missing values", () => {
+      expect(getRevisionContent({
+        title: "Grandma's Kitchen",
+        privacy: "family",
+        blocks: [text("a", "<p>Flour everywhere</p>")],
+      })).toEqual({
+        title: "Grandma's Kitchen",
+        subtitle: null,
+        eventDate: null,
+        location: null,
+        coverImageURL: null,
+        peopleInvolved: [],
+        blocks: [text("a", "<p>Flour everywhere</p>")],
+      });
+    });
+  });
+
+  describe("diffStoryFields", () => {
+    it("should report changed fields and ignore key order and empty values", () => {
+      const before = {title: "Summer 1962", subtitle: "", location: {lat: 1, lng: 2, address: "Lake"}};
+      const after = {title: "Summer of 1962", location: {address: "Lake", lng: 2, lat: 1}};
+      expect(diffStoryFields(before, after)).toEqual(["title"]);
+    });
+  });
+
+  describe("diffStoryBlocks", () => {
+    it("should detect added, removed and modified blocks", () => {
+      const changes = diffStoryBlocks(
+        [text("a", "First"), text("b", "Second"), text("c", "Third")],
+        [text("a", "First"), text("c", "Third, revised"), {type: "image", data: ["photo.jpg"], localId: "d"}]
+      );
+      expect(changes).toEqual([
+        {localId: "c", type: "text", kind: "modified", index: 1, previousIndex: 2},
+        {localId: "d", type: "image", kind: "added", index: 2},
+        {localId: "b", type: "text", kind: "removed", index: 1},
+      ]);
+    });
+
+    it("should only report the block that moved when one block is reordered", () => {
+      const changes = diffStoryBlocks(
+        [text("a", "One"), text("b", "Two"), text("c", "Three"), text("d", "Four")],
+        [text("d", "Four"), text("a", "One"), text("b", "Two"), text("c", "Three")]
+      );
+      expect(changes).toEqual([{localId: "d", type: "text", kind: "moved", index: 0, previousIndex: 3}]);
+    });
+
+    it("should return no changes for identical blocks", () => {
+      const blocks = [text("a", "One"), {type: "image" as const, data: ["x.jpg", "y.jpg"], localId: "b"}];
+      expect(diffStoryBlocks(blocks, blocks.map((block) => ({...block})))).toEqual([]);
+    });
+  });
+
+  describe("summarizeRevision", () => {
+    it("should describe field and block changes", () => {
+      expect(summarizeRevision(["title", "blocks"], [
+        {localId: "a", type: "text", kind: "added", index: 0},
+        {localId: "b", type: "text", kind: "added", index: 1},
+        {localId: "c", type: "text", kind: "modified", index: 2, previousIndex: 0},
+      ])).toBe("Edited title; 2 blocks added, 1 block modified");
+      expect(summarizeRevision([], [])).toBe("No changes");
+      expect(summarizeRevision(["title"], [], 3)).toBe("Restored revision 3");
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  DEFAULT_UPLOAD_PART_SIZE,
+  MAX_UPLOAD_PARTS,
+  findMissingParts,
+  isValidPartNumber,
+  mergeUploadedParts,
+  planUploadParts,
+} from "../uploadSessions";
+
+const MB = 1024 * 1024;
+
+describe("Resumable upload utilities", () => {
+  describe("planUploadParts", () => {
+    it("should use the default part size for typical files", () => {
+      expect(planUploadParts(2048 * MB)).toEqual({partSize: DEFAULT_UPLOAD_PART_SIZE, partCount: 256});
+      expect(planUploadParts(1)).toEqual({partSize: DEFAULT_UPLOAD_PART_SIZE, partCount: 1});
+    });
+
+    it("should grow the part size to stay within the part limit", () => {
+      const plan = planUploadParts(100 * 1024 * MB);
+      expect(plan.partSize % MB).toBe(0);
+      expect(plan.partCount).toBeLessThanOrEqual(MAX_UPLOAD_PARTS);
+      expect(plan.partSize * plan.partCount).toBeGreaterThanOrEqual(100 * 1024 * MB);
+    });
+  });
+
+  describe("isValidPartNumber", () => {
+    it("should accept whole part numbers within the session", () => {
+      expect(isValidPartNumber(1, 3)).toBe(true);
+      expect(isValidPartNumber(3, 3)).toBe(true);
+      expect(isValidPartNumber(0, 3)).toBe(false);
+      expect(isValidPartNumber(4, 3)).toBe(false);
+      expect(isValidPartNumber(1.5, 3)).toBe(false);
+      expect(isValidPartNumber("1", 3)).toBe(false);
+    });
+  });
+
+  describe("mergeUploadedParts", () => {
+    it("should keep the latest ETag for re-uploaded parts in part order", () => {
+      expect(mergeUploadedParts(
+        [{partNumber: 2, etag: "b"}, {partNumber: 1, etag: "a"}],
+        [{partNumber: 2, etag: "b2"}, {partNumber: 3, etag: "c"}]
+      )).toEqual([
+        {partNumber: 1, etag: "a"},
+        {partNumber: 2, etag: "b2"},
+        {partNumber: 3, etag: "c"},
+      ]);
+    });
+  });
+
+  describe("findMissingParts", () => {
+    it("should list parts that haven't been acknowledged", () => {
+      expect(findMissingParts(4, [{partNumber: 1, etag: "a"}, {partNumber: 3, etag: "c"}])).toEqual([2, 4]);
+      expect(findMissingParts(1, [{partNumber: 1, etag: "a"}])).toEqual([]);
+    });
+  });
+});
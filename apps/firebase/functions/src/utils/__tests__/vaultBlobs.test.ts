@@ -0,0 +1,48 @@
+import {
+  canDeduplicateVaultFile,
+  computeContentHash,
+  isValidContentHash,
+  summarizeVaultStorageUsage,
+} from "../vaultBlobs";
+
+describe("Vault content addressing utilities", () => {
+  describe("computeContentHash", () => {
+    it("should return the hex SHA-256 of the content", () => {
+      expect(computeContentHash(Buffer.from("abc")))
+        .toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+      expect(isValidContentHash(computeContentHash(Buffer.alloc(0)))).toBe(true);
+    });
+  });
+
+  describe("isValidContentHash", () => {
+    it("should only accept lowercase 64 character hex digests", () => {
+      expect(isValidContentHash("a".repeat(64))).toBe(true);
+      expect(isValidContentHash("A".repeat(64))).toBe(false);
+      expect(isValidContentHash("a".repeat(63))).toBe(false);
+      expect(isValidContentHash(null)).toBe(false);
+    });
+  });
+
+  describe("canDeduplicateVaultFile", () => {
+    it("should only share plaintext files", () => {
+      expect(canDeduplicateVaultFile({isEncrypted: false})).toBe(true);
+      expect(canDeduplicateVaultFile({})).toBe(true);
+      expect(canDeduplicateVaultFile({isEncrypted: true})).toBe(false);
+    });
+  });
+
+  describe("summarizeVaultStorageUsage", () => {
+    it("should count shared blobs once towards physical usage", () => {
+      expect(summarizeVaultStorageUsage([
+        {type: "file", size: 100, blobId: "h1"},
+        {type: "file", size: 100, blobId: "h1", versionsSize: 40},
+        {type: "file", size: 30},
+        {type: "folder", size: 999},
+      ])).toEqual({logicalBytes: 270, physicalBytes: 170, dedupedBytes: 100});
+    });
+
+    it("should report zero usage for no files", () => {
+      expect(summarizeVaultStorageUsage([])).toEqual({logicalBytes: 0, physicalBytes: 0, dedupedBytes: 0});
+    });
+  });
+});
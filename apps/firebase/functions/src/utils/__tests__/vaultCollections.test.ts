@@ -0,0 +1,93 @@
+import {
+  applyVaultTagChanges,
+  matchesSmartCollectionRules,
+  matchesVaultQuery,
+  normalizeSmartCollectionRules,
+  normalizeVaultTags,
+  validateSmartCollectionRules,
+} from "../vaultCollections";
+
+describe("Vault collection utilities", () => {
+  const photo = {
+    type: "file" as const,
+    userId: "owner",
+    fileType: "image",
+    size: 2048,
+    createdAt: Date.UTC(2024, 5, 1),
+    tags: ["wedding", "summer"],
+    peopleTags: ["grandma"],
+    uploadedBy: "cousin",
+  };
+
+  describe("normalizeVaultTags", () => {
+    it("should trim, lowercase and drop duplicate tags", () => {
+      expect(normalizeVaultTags(["  Wedding ", "wedding", "Summer  Trip", ""])).toEqual(["wedding", "summer trip"]);
+      expect(normalizeVaultTags(undefined)).toEqual([]);
+    });
+  });
+
+  describe("applyVaultTagChanges", () => {
+    it("should add and remove tags", () => {
+      expect(applyVaultTagChanges(["wedding"], ["Summer", "wedding"], ["WEDDING"])).toEqual(["summer"]);
+    });
+  });
+
+  describe("matchesVaultQuery", () => {
+    it("should match names and tags", () => {
+      expect(matchesVaultQuery({name: "IMG_001.jpg", tags: ["wedding"]}, "Wed")).toBe(true);
+      expect(matchesVaultQuery({name: "IMG_001.jpg", tags: ["wedding"]}, "img")).toBe(true);
+      expect(matchesVaultQuery({name: "IMG_001.jpg"}, "beach")).toBe(false);
+    });
+  });
+
+  describe("validateSmartCollectionRules", () => {
+    it("should require at least one rule", () => {
+      expect(validateSmartCollectionRules({})).not.toBeNull();
+      expect(validateSmartCollectionRules({fileTypes: []})).not.toBeNull();
+      expect(validateSmartCollectionRules({fileTypes: ["image"]})).toBeNull();
+    });
+
+    it("should reject inverted ranges", () => {
+      expect(validateSmartCollectionRules({createdAfter: 2, createdBefore: 1})).not.toBeNull();
+      expect(validateSmartCollectionRules({minSize: 10, maxSize: 5})).not.toBeNull();
+      expect(validateSmartCollectionRules({minSize: 0, maxSize: 0})).toBeNull();
+    });
+  });
+
+  describe("normalizeSmartCollectionRules", () => {
+    it("should normalize tags and drop empty rules", () => {
+      expect(normalizeSmartCollectionRules({
+        fileTypes: ["image", "image"],
+        tags: [" Wedding "],
+        peopleTagged: [],
+        minSize: 0,
+      })).toEqual({fileTypes: ["image"], tags: ["wedding"], minSize: 0});
+    });
+  });
+
+  describe("matchesSmartCollectionRules", () => {
+    it("should require every rule to match", () => {
+      expect(matchesSmartCollectionRules(photo, {fileTypes: ["image"], peopleTagged: ["grandma"]})).toBe(true);
+      expect(matchesSmartCollectionRules(photo, {fileTypes: ["image"], peopleTagged: ["grandpa"]})).toBe(false);
+    });
+
+    it("should match any of the values a rule lists", () => {
+      expect(matchesSmartCollectionRules(photo, {tags: ["Birthday", "Wedding"]})).toBe(true);
+      expect(matchesSmartCollectionRules(photo, {uploadedBy: ["cousin", "aunt"]})).toBe(true);
+      expect(matchesSmartCollectionRules({...photo, uploadedBy: undefined}, {uploadedBy: ["owner"]})).toBe(true);
+    });
+
+    it("should apply date and size ranges", () => {
+      expect(matchesSmartCollectionRules(photo, {
+        createdAfter: Date.UTC(2024, 0, 1),
+        createdBefore: Date.UTC(2024, 11, 31),
+      })).toBe(true);
+      expect(matchesSmartCollectionRules(photo, {createdAfter: Date.UTC(2025, 0, 1)})).toBe(false);
+      expect(matchesSmartCollectionRules(photo, {minSize: 4096})).toBe(false);
+    });
+
+    it("should never collect folders", () => {
+      expect(matchesSmartCollectionRules({...photo, type: "folder"}, {tags: ["wedding"]})).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  getAccessLevel,
+  getExplicitGrants,
+  grantAccess,
+  isSharedRoot,
+  isSharingChanged,
+  normalizeGrants,
+  resolveVaultSharing,
+  revokeAccess,
+  setAccess,
+} from "../vaultPermissions";
+
+describe("Vault permission utilities", () => {
+  describe("normalizeGrants", () => {
+    it("should give writers read access and drop duplicates", () => {
+      expect(normalizeGrants({canRead: ["a", "a"], canWrite: ["b"]})).toEqual({
+        canRead: ["a", "b"],
+        canWrite: ["b"],
+      });
+      expect(normalizeGrants(undefined)).toEqual({canRead: [], canWrite: []});
+    });
+  });
+
+  describe("grantAccess and setAccess", () => {
+    it("should keep write access when granting read", () => {
+      const grants = grantAccess({canWrite: ["a"]}, ["a", "b"], "read");
+      expect(getAccessLevel(grants, "a")).toBe("write");
+      expect(getAccessLevel(grants, "b")).toBe("read");
+    });
+
+    it("should downgrade when setting a lower level", () => {
+      const grants = setAccess({canWrite: ["a"]}, "a", "read");
+      expect(getAccessLevel(grants, "a")).toBe("read");
+    });
+  });
+
+  describe("revokeAccess", () => {
+    it("should remove users from both levels", () => {
+      const grants = revokeAccess({canRead: ["a", "b"], canWrite: ["a"]}, ["a"]);
+      expect(grants).toEqual({canRead: ["b"], canWrite: []});
+    });
+  });
+
+  describe("resolveVaultSharing", () => {
+    it("should combine explicit and inherited grants, keeping the higher level", () => {
+      const resolved = resolveVaultSharing({canRead: ["a"]}, {canWrite: ["a"], canRead: ["b"]});
+      expect(resolved.sharedWith.sort()).toEqual(["a", "b"]);
+      expect(resolved.permissions.canWrite).toEqual(["a"]);
+      expect(resolved.explicitPermissions).toEqual({canRead: ["a"], canWrite: []});
+      expect(resolved.inheritedPermissions).toEqual({canRead: ["b", "a"], canWrite: ["a"]});
+    });
+
+    it("should drop inherited grants when the item leaves a shared folder", () => {
+      const item = resolveVaultSharing({canRead: ["a"]}, {canRead: ["b"]});
+      const moved = resolveVaultSharing(getExplicitGrants(item), undefined);
+      expect(moved.sharedWith).toEqual(["a"]);
+      expect(isSharingChanged(item, moved)).toBe(true);
+      expect(isSharingChanged(moved, moved)).toBe(false);
+    });
+  });
+
+  describe("getExplicitGrants", () => {
+    it("should treat the grants of items shared before inheritance as explicit", () => {
+      expect(getExplicitGrants({permissions: {canRead: ["a"]}})).toEqual({canRead: ["a"], canWrite: []});
+      expect(getExplicitGrants({permissions: {canRead: ["a"]}, inheritedPermissions: {canRead: ["a"]}})).toEqual({
+        canRead: [],
+        canWrite: [],
+      });
+    });
+  });
+
+  describe("isSharedRoot", () => {
+    it("should list only items shared directly rather than through a folder", () => {
+      expect(isSharedRoot(resolveVaultSharing({canRead: ["a"]}, undefined), "a")).toBe(true);
+      expect(isSharedRoot(resolveVaultSharing(undefined, {canRead: ["a"]}), "a")).toBe(false);
+      expect(isSharedRoot(resolveVaultSharing({canRead: ["a"]}, {canRead: ["a"]}), "a")).toBe(false);
+      expect(isSharedRoot(resolveVaultSharing({canRead: ["b"]}, undefined), "a")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  MAX_ENCRYPTED_THUMBNAIL_BYTES,
+  VAULT_THUMBNAIL_SIZES,
+  getEncryptedVaultThumbnailKey,
+  getVaultPreviewKind,
+  getVaultThumbnailKey,
+  getVaultThumbnailKeys,
+  shouldGenerateVaultThumbnails,
+  validateEncryptedThumbnail,
+} from "../vaultThumbnails";
+
+describe("Vault thumbnail utilities", () => {
+  const photo = {
+    type: "file" as const,
+    mimeType: "image/jpeg",
+    size: 2048,
+    isEncrypted: false,
+    isDeleted: false,
+    scanStatus: "clean",
+  };
+
+  describe("getVaultPreviewKind", () => {
+    it("should recognize images, videos and PDFs", () => {
+      expect(getVaultPreviewKind("image/JPEG")).toBe("image");
+      expect(getVaultPreviewKind("video/quicktime")).toBe("video");
+      expect(getVaultPreviewKind("application/pdf")).toBe("pdf");
+    });
+
+    it("should skip formats without a preview", () => {
+      expect(getVaultPreviewKind("image/heic")).toBeNull();
+      expect(getVaultPreviewKind("text/plain")).toBeNull();
+      expect(getVaultPreviewKind(undefined)).toBeNull();
+    });
+  });
+
+  describe("shouldGenerateVaultThumbnails", () => {
+    it("should generate for clean, unencrypted media in final storage", () => {
+      expect(shouldGenerateVaultThumbnails(photo, "vault/photo.jpg")).toBe(true);
+    });
+
+    it("should skip encrypted, unscanned and unstored files", () => {
+      expect(shouldGenerateVaultThumbnails({...photo, isEncrypted: true}, "vault/photo.jpg")).toBe(false);
+      expect(shouldGenerateVaultThumbnails({...photo, scanStatus: "pending"}, "vault/photo.jpg")).toBe(false);
+      expect(shouldGenerateVaultThumbnails(photo, null)).toBe(false);
+    });
+
+    it("should skip sources that are too large to read", () => {
+      expect(shouldGenerateVaultThumbnails({...photo, size: 200 * 1024 * 1024}, "vault/photo.jpg")).toBe(false);
+      expect(shouldGenerateVaultThumbnails(
+        {...photo, mimeType: "video/mp4", size: 200 * 1024 * 1024},
+        "vault/clip.mp4"
+      )).toBe(true);
+    });
+
+    it("should only generate once per stored object", () => {
+      const done = {...photo, thumbnails: {status: "ready" as const, sourceKey: "vault/photo.jpg"}};
+      expect(shouldGenerateVaultThumbnails(done, "vault/photo.jpg")).toBe(false);
+      expect(shouldGenerateVaultThumbnails(done, "vault/photo-v2.jpg")).toBe(true);
+    });
+  });
+
+  describe("getVaultThumbnailKeys", () => {
+    it("should store thumbnails beside their source object", () => {
+      expect(getVaultThumbnailKey("blobs/ab/abcd", 256)).toBe("blobs/ab/abcd.thumb-256.webp");
+      expect(getVaultThumbnailKeys("blobs/ab/abcd")).toHaveLength(VAULT_THUMBNAIL_SIZES.length);
+    });
+
+    it("should keep encrypted thumbnails with the owner's files", () => {
+      expect(getEncryptedVaultThumbnailKey("owner", "item1")).toBe("vault/owner/thumbnails/item1.thumb.enc");
+    });
+  });
+
+  describe("validateEncryptedThumbnail", () => {
+    const nonce = Buffer.alloc(24, 7).toString("base64");
+
+    it("should accept a small thumbnail with a secretbox nonce", () => {
+      expect(validateEncryptedThumbnail({nonce, size: 4096})).toBeNull();
+    });
+
+    it("should reject malformed nonces", () => {
+      expect(validateEncryptedThumbnail({nonce: Buffer.alloc(12).toString("base64"), size: 4096})).not.toBeNull();
+      expect(validateEncryptedThumbnail({nonce: "!".repeat(32), size: 4096})).not.toBeNull();
+      expect(validateEncryptedThumbnail({size: 4096})).not.toBeNull();
+    });
+
+    it("should reject empty and oversized thumbnails", () => {
+      expect(validateEncryptedThumbnail({nonce, size: 0})).not.toBeNull();
+      expect(validateEncryptedThumbnail({nonce, size: MAX_ENCRYPTED_THUMBNAIL_BYTES + 1})).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  getVaultStorageLocation,
+  getVaultStorageObject,
+  selectVersionsToPrune,
+} from "../vaultVersions";
+
+describe("Vault version utilities", () => {
+  describe("getVaultStorageLocation", () => {
+    it("should fill in missing fields and default to Firebase Storage", () => {
+      expect(getVaultStorageLocation({storagePath: "vault/u1/will.pdf", size: 10})).toEqual({
+        storageProvider: "firebase",
+        storagePath: "vault/u1/will.pdf",
+        r2Bucket: null,
+        r2Key: null,
+        b2Bucket: null,
+        b2Key: null,
+        blobId: null,
+      });
+    });
+  });
+
+  describe("getVaultStorageObject", () => {
+    it("should resolve the object for each provider", () => {
+      expect(getVaultStorageObject(getVaultStorageLocation({
+        storageProvider: "b2",
+        b2Bucket: "dynastyprod",
+        b2Key: "vault/u1/1_will.pdf",
+        r2Key: "stale-key",
+      }))).toEqual({path: "vault/u1/1_will.pdf", bucket: "dynastyprod", provider: "b2"});
+
+      expect(getVaultStorageObject(getVaultStorageLocation({
+        storageProvider: "r2",
+        r2Bucket: "dynasty-final-prod",
+        r2Key: "vault/u1/2_will.pdf",
+      }))).toEqual({path: "vault/u1/2_will.pdf", bucket: "dynasty-final-prod", provider: "r2"});
+
+      expect(getVaultStorageObject(getVaultStorageLocation({storagePath: "vault/u1/will.pdf"})))
+        .toEqual({path: "vault/u1/will.pdf", provider: "firebase"});
+    });
+
+    it("should not resolve staged uploads or items without a key", () => {
+      expect(getVaultStorageObject(getVaultStorageLocation({
+        storageProvider: "r2_staging",
+        storagePath: "staging/u1/will.pdf",
+      }))).toBeNull();
+      expect(getVaultStorageObject(getVaultStorageLocation({storageProvider: "r2"}))).toBeNull();
+    });
+  });
+
+  describe("selectVersionsToPrune", () => {
+    it("should return the oldest versions over the limit", () => {
+      const versions = [{versionNumber: 4}, {versionNumber: 1}, {versionNumber: 3}, {versionNumber: 2}];
+      expect(selectVersionsToPrune(versions, 2)).toEqual([{versionNumber: 1}, {versionNumber: 2}]);
+      expect(selectVersionsToPrune(versions, 4)).toEqual([]);
+    });
+  });
+});
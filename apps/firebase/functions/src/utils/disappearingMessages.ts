@@ -0,0 +1,67 @@
+/**
+ * Disappearing messages
+ * A chat can set a timer after which its messages are deleted on every device and their
+ * ciphertext is purged from the server. Each encrypted payload carries the timer, so
+ * devices don't depend on the server for it; the server keeps the chat's timer only to
+ * know when to purge.
+ */
+
+// MARK: - Durations
+
+// Seconds; 0 turns the timer off. Kept under the 30 day archive cutoff of
+// cleanupOldMessages so disappearing messages are never archived.
+export const DISAPPEARING_MESSAGE_DURATIONS = [0, 3600, 28800, 86400, 604800, 2419200];
+
+const DURATION_LABELS: Record<number, string> = {
+  3600: "1 hour",
+  28800: "8 hours",
+  86400: "1 day",
+  604800: "1 week",
+  2419200: "4 weeks",
+};
+
+export function isDisappearingMessageDuration(value: unknown): value is number {
+  return typeof value === "number" && DISAPPEARING_MESSAGE_DURATIONS.includes(value);
+}
+
+// MARK: - Expiry
+
+/**
+ * When a message sent at `sentAt` expires under a chat's timer
+ * @returns null if the timer is off
+ */
+export function getMessageExpiry(sentAt: Date, seconds: number | undefined): Date | null {
+  if (!seconds || seconds <= 0) {
+    return null;
+  }
+  return new Date(sentAt.getTime() + seconds * 1000);
+}
+
+/**
+ * Storage path of an expired message's encrypted attachment, from its download URL.
+ * Only files under the chat's media folder are returned, so a crafted URL can't point
+ * the purge at anything else.
+ */
+export function getChatMediaStoragePath(
+  encryptedUrl: string | undefined,
+  chatId: string,
+  bucketName: string
+): string | undefined {
+  const match = encryptedUrl?.match(/^https:\/\/firebasestorage\.googleapis\.com\/v0\/b\/([^/]+)\/o\/([^?]+)/);
+  if (!match || match[1] !== bucketName) return undefined;
+
+  const path = decodeURIComponent(match[2]);
+  return path.startsWith(`chats/${chatId}/media/`) && !path.includes("..") ? path : undefined;
+}
+
+// MARK: - System Messages
+
+/**
+ * Text of the system message posted when a chat's timer changes
+ */
+export function getDisappearingTimerMessage(seconds: number, changedBy: string): string {
+  if (!seconds) {
+    return `${changedBy} turned off disappearing messages`;
+  }
+  return `${changedBy} set messages to disappear after ${DURATION_LABELS[seconds]}`;
+}
@@ -0,0 +1,166 @@
+/**
+ * Birthday, wedding anniversary and remembrance-day helpers for family tree members
+ * Dates are compared by UTC month and day; occasions on February 29 fall on
+ * February 28 in non-leap years.
+ */
+
+// MARK: - Types
+
+export type FamilyOccasionType = "birthday" | "anniversary" | "memorial";
+
+export interface FamilyOccasionMember {
+  id: string;
+  name: string;
+  dateOfBirth?: Date | null;
+  dateOfDeath?: Date | null;
+  isDeceased?: boolean;
+  marriageDates?: Record<string, Date | null>; // Keyed by spouse member ID
+}
+
+export interface FamilyOccasion {
+  type: FamilyOccasionType;
+  date: string; // YYYY-MM-DD of this year's occurrence
+  memberIds: string[];
+  names: string[];
+  years: number; // Age, years married or years since passing
+}
+
+// MARK: - Constants
+
+// Days ahead of an occasion that reminders can be sent
+export const FAMILY_DATE_LEAD_DAY_OPTIONS = [0, 1, 3, 7] as const;
+export const DEFAULT_FAMILY_DATE_LEAD_DAYS = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// MARK: - Helpers
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * Returns the day a yearly occasion falls on in the given year
+ */
+function getOccurrenceInYear(original: Date, year: number): Date {
+  const month = original.getUTCMonth();
+  const day = month === 1 && original.getUTCDate() === 29 && !isLeapYear(year) ?
+    28 :
+    original.getUTCDate();
+  return new Date(Date.UTC(year, month, day));
+}
+
+function pluralizeYears(years: number): string {
+  return years === 1 ? "1 year" : `${years} years`;
+}
+
+function describeDaysAway(daysAway: number): string {
+  if (daysAway === 0) return "today";
+  if (daysAway === 1) return "tomorrow";
+  return `in ${daysAway} days`;
+}
+
+// MARK: - Occasions
+
+/**
+ * Lists the occasions that fall on a single day. Birthdays and anniversaries are
+ * only listed for living members; deceased members are remembered on the
+ * anniversary of their passing instead.
+ */
+export function getFamilyOccasionsOn(members: FamilyOccasionMember[], date: Date): FamilyOccasion[] {
+  const year = date.getUTCFullYear();
+  const target = toIsoDate(date);
+  const membersById = new Map(members.map((member) => [member.id, member]));
+  const isDeceased = (member: FamilyOccasionMember) => member.isDeceased === true || !!member.dateOfDeath;
+  const fallsOnTarget = (original?: Date | null): original is Date =>
+    !!original &&
+    !isNaN(original.getTime()) &&
+    original.getUTCFullYear() < year &&
+    toIsoDate(getOccurrenceInYear(original, year)) === target;
+
+  const occasions: FamilyOccasion[] = [];
+  for (const member of members) {
+    if (!isDeceased(member) && fallsOnTarget(member.dateOfBirth)) {
+      occasions.push({
+        type: "birthday",
+        date: target,
+        memberIds: [member.id],
+        names: [member.name],
+        years: year - member.dateOfBirth.getUTCFullYear(),
+      });
+    }
+
+    if (isDeceased(member) && fallsOnTarget(member.dateOfDeath)) {
+      occasions.push({
+        type: "memorial",
+        date: target,
+        memberIds: [member.id],
+        names: [member.name],
+        years: year - member.dateOfDeath.getUTCFullYear(),
+      });
+    }
+
+    for (const [spouseId, marriageDate] of Object.entries(member.marriageDates || {})) {
+      const spouse = membersById.get(spouseId);
+      // Each couple is listed once, from the member with the lower ID
+      if (!spouse || member.id > spouse.id || isDeceased(member) || isDeceased(spouse)) continue;
+      if (!fallsOnTarget(marriageDate)) continue;
+      occasions.push({
+        type: "anniversary",
+        date: target,
+        memberIds: [member.id, spouse.id],
+        names: [member.name, spouse.name],
+        years: year - marriageDate.getUTCFullYear(),
+      });
+    }
+  }
+  return occasions;
+}
+
+/**
+ * Lists the occasions in the given number of days starting from `start`, in date order
+ */
+export function getFamilyOccasionsBetween(
+  members: FamilyOccasionMember[],
+  start: Date,
+  days: number
+): FamilyOccasion[] {
+  const startDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const occasions: FamilyOccasion[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    occasions.push(...getFamilyOccasionsOn(members, new Date(startDay + offset * DAY_MS)));
+  }
+  return occasions;
+}
+
+/**
+ * Builds the notification title and body for an occasion
+ */
+export function describeFamilyOccasion(
+  occasion: FamilyOccasion,
+  daysAway: number
+): {title: string; body: string} {
+  const when = describeDaysAway(daysAway);
+  switch (occasion.type) {
+  case "birthday":
+    return {
+      title: "Birthday reminder",
+      body: `${occasion.names[0]} turns ${occasion.years} ${when}`,
+    };
+  case "anniversary":
+    return {
+      title: "Wedding anniversary",
+      body: `${occasion.names[0]} and ${occasion.names[1]} celebrate ` +
+        `${pluralizeYears(occasion.years)} of marriage ${when}`,
+    };
+  case "memorial":
+    return {
+      title: "Remembrance day",
+      body: `Remembering ${occasion.names[0]} ${when}, ${pluralizeYears(occasion.years)} after their passing`,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Family vault helpers
+ * A family vault is a shared vault space owned by a family tree rather than a member.
+ * Its items are stored under a synthetic owner id derived from the tree, so they outlive
+ * the members who uploaded them, and members act on them through roles managed by the
+ * tree admins.
+ */
+
+// MARK: - Types
+
+export type FamilyVaultRole = "viewer" | "contributor" | "manager";
+
+export interface FamilyVaultTree {
+  ownerUserId: string;
+  memberUserIds?: string[];
+  adminUserIds?: string[];
+  treeName?: string;
+}
+
+export interface FamilyVaultSettings {
+  defaultRole?: FamilyVaultRole;
+  roles?: Record<string, FamilyVaultRole>;
+  planOwnerId?: string | null;
+}
+
+export interface FamilyVaultItemState {
+  uploadedBy?: string;
+  createdBy?: string;
+}
+
+// MARK: - Constants
+
+export const FAMILY_VAULT_ROLES: FamilyVaultRole[] = ["viewer", "contributor", "manager"];
+
+export const DEFAULT_FAMILY_VAULT_ROLE: FamilyVaultRole = "viewer";
+
+const FAMILY_VAULT_OWNER_PREFIX = "familyTree:";
+
+const ROLE_RANK: Record<FamilyVaultRole, number> = {
+  viewer: 1,
+  contributor: 2,
+  manager: 3,
+};
+
+// MARK: - Ownership
+
+/**
+ * The userId stored on family vault items. The prefix can't appear in a Firebase Auth
+ * uid, so no member ever passes an owner check on a family item by accident.
+ */
+export function getFamilyVaultOwnerId(familyTreeId: string): string {
+  return `${FAMILY_VAULT_OWNER_PREFIX}${familyTreeId}`;
+}
+
+/**
+ * The family tree that owns the items of a vault owner id, or null for a member's own vault
+ */
+export function getFamilyTreeIdFromOwner(ownerId: string): string | null {
+  return ownerId.startsWith(FAMILY_VAULT_OWNER_PREFIX) ?
+    ownerId.slice(FAMILY_VAULT_OWNER_PREFIX.length) || null :
+    null;
+}
+
+// MARK: - Roles
+
+export function isFamilyTreeAdmin(tree: FamilyVaultTree, userId: string): boolean {
+  return tree.ownerUserId === userId || (tree.adminUserIds || []).includes(userId);
+}
+
+/**
+ * The role a user has in the family vault. Tree admins always manage the vault; other
+ * members get the role the admins gave them, or the vault's default role.
+ * @returns null for users who aren't members of the tree
+ */
+export function resolveFamilyVaultRole(
+  tree: FamilyVaultTree,
+  vault: FamilyVaultSettings | undefined,
+  userId: string
+): FamilyVaultRole | null {
+  if (isFamilyTreeAdmin(tree, userId)) return "manager";
+  if (!(tree.memberUserIds || []).includes(userId)) return null;
+  return vault?.roles?.[userId] ?? vault?.defaultRole ?? DEFAULT_FAMILY_VAULT_ROLE;
+}
+
+export function hasFamilyVaultRole(role: FamilyVaultRole | null, required: FamilyVaultRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Whether a member can rename, move or delete a family vault item. Managers can change
+ * anything; contributors only what they added themselves.
+ */
+export function canModifyFamilyVaultItem(
+  role: FamilyVaultRole | null,
+  item: FamilyVaultItemState,
+  userId: string
+): boolean {
+  if (hasFamilyVaultRole(role, "manager")) return true;
+  return hasFamilyVaultRole(role, "contributor") &&
+    (item.uploadedBy === userId || item.createdBy === userId);
+}
+
+// MARK: - Members Leaving
+
+/**
+ * The update that detaches a member leaving the tree, or deleting their account, from the
+ * family vault. The vault's items belong to the tree and stay; the member's role goes, and
+ * the vault stops counting against their family plan.
+ * @returns null when the member has nothing in the vault to remove
+ */
+export function getFamilyVaultMemberRemoval(
+  vault: FamilyVaultSettings,
+  userId: string
+): {roles: Record<string, FamilyVaultRole>; planOwnerId?: null} | null {
+  const hasRole = vault.roles?.[userId] !== undefined;
+  const ownsPlan = vault.planOwnerId === userId;
+  if (!hasRole && !ownsPlan) return null;
+
+  const roles = {...vault.roles};
+  delete roles[userId];
+  return ownsPlan ? {roles, planOwnerId: null} : {roles};
+}
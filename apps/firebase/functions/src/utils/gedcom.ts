@@ -0,0 +1,932 @@
+/**
+ * GEDCOM utilities for family tree import and export
+ * Supports lineage-linked GEDCOM 5.5.1 and 7.0 files (INDI/FAM records,
+ * BIRT/DEAT/MARR events, NOTE/SNOTE and SOUR references). Exports are written as GEDCOM 7.0.
+ */
+
+import {normalizeSearchText} from "./searchHelpers";
+import {stripAllHtml} from "./xssSanitization";
+
+// MARK: - Types
+
+export interface GedcomNode {
+  level: number;
+  xref?: string;
+  tag: string;
+  value: string;
+  children: GedcomNode[];
+}
+
+export interface GedcomDate {
+  raw: string;
+  year?: number;
+  month?: number;
+  day?: number;
+  qualifier?: string;
+}
+
+export interface GedcomEvent {
+  date?: GedcomDate;
+  place?: string;
+}
+
+export interface GedcomIndividual {
+  xref: string;
+  firstName: string;
+  lastName: string;
+  displayName: string;
+  gender: "male" | "female" | "other";
+  birth?: GedcomEvent;
+  death?: GedcomEvent;
+  isDeceased: boolean;
+  notes: string[];
+  sources: string[];
+}
+
+export interface GedcomFamily {
+  xref: string;
+  husbandXref?: string;
+  wifeXref?: string;
+  childXrefs: string[];
+  marriage?: GedcomEvent;
+}
+
+export interface GedcomDocument {
+  version: string;
+  individuals: GedcomIndividual[];
+  families: GedcomFamily[];
+  warnings: string[];
+}
+
+export interface ExistingMemberSummary {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  dateOfBirth?: Date | null;
+  parentIds?: string[];
+  childrenIds?: string[];
+  spouseIds?: string[];
+}
+
+export type GedcomImportAction = "create" | "link" | "skip";
+
+export interface GedcomMatchCandidate {
+  memberId: string;
+  displayName: string;
+  reason: "name_and_birth_date" | "name_only" | "name_birth_date_mismatch";
+}
+
+export interface GedcomImportPerson {
+  xref: string;
+  firstName: string;
+  lastName: string;
+  displayName: string;
+  gender: "male" | "female" | "other";
+  dateOfBirth?: string;
+  dateOfDeath?: string;
+  birthDateText?: string;
+  deathDateText?: string;
+  placeOfBirth?: string;
+  placeOfDeath?: string;
+  isDeceased: boolean;
+  notes: string[];
+  sources: string[];
+  matchStatus: "new" | "duplicate" | "conflict";
+  action: GedcomImportAction;
+  existingMemberId?: string;
+  candidates: GedcomMatchCandidate[];
+}
+
+export interface GedcomImportRelationship {
+  type: "parent_child" | "spouse";
+  // For parent_child, fromXref is the parent and toXref the child
+  fromXref: string;
+  toXref: string;
+  marriageDate?: string;
+  marriagePlace?: string;
+  alreadyExists: boolean;
+}
+
+export interface GedcomImportPlan {
+  version: string;
+  people: GedcomImportPerson[];
+  relationships: GedcomImportRelationship[];
+  warnings: string[];
+  summary: {
+    individuals: number;
+    families: number;
+    toCreate: number;
+    toLink: number;
+    toSkip: number;
+    conflicts: number;
+    newRelationships: number;
+  };
+}
+
+export interface GedcomImportResolution {
+  action: GedcomImportAction;
+  existingMemberId?: string;
+}
+
+export interface GedcomExportMedia {
+  // A URL, or a path relative to the GEDZIP root when the file is bundled
+  file: string;
+  mediaType: string;
+  title?: string;
+}
+
+export interface GedcomExportPerson {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  gender?: string;
+  dateOfBirth?: Date | null;
+  dateOfDeath?: Date | null;
+  birthDateText?: string | null;
+  deathDateText?: string | null;
+  placeOfBirth?: string | null;
+  placeOfDeath?: string | null;
+  isDeceased?: boolean;
+  notes?: string[];
+  parentIds?: string[];
+  childrenIds?: string[];
+  spouseIds?: string[];
+  photo?: GedcomExportMedia;
+  // Redacted people keep their relationships but no names, dates, places, notes or media
+  redacted?: boolean;
+}
+
+export interface GedcomExportStory {
+  id: string;
+  title: string;
+  authorName?: string;
+  url?: string;
+  peopleInvolved: string[];
+}
+
+export interface GedcomExportOptions {
+  treeName?: string;
+  exportedAt?: Date;
+}
+
+export interface GedcomExportResult {
+  content: string;
+  summary: {
+    individuals: number;
+    families: number;
+    stories: number;
+    media: number;
+    redacted: number;
+  };
+}
+
+// MARK: - Constants
+
+const GEDCOM_LINE_REGEX = /^\s*(\d+)\s+(?:(@[^@\s]+@)\s+)?([A-Za-z0-9_]+)(?:\s(.*))?$/;
+
+const GEDCOM_MONTHS: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6,
+  JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+const DATE_QUALIFIERS = ["ABT", "CAL", "EST", "BEF", "AFT", "INT", "BET", "FROM", "TO"];
+
+const GEDCOM_EXPORT_VERSION = "7.0";
+const GEDCOM_EXPORT_SOURCE = "DYNASTY";
+
+const MAX_TEXT_LENGTH = 5000;
+const MAX_NAME_LENGTH = 100;
+
+// MARK: - Parsing
+
+/**
+ * Parses raw GEDCOM text into a tree of nodes keyed by level
+ */
+export function parseGedcomNodes(content: string): {nodes: GedcomNode[]; warnings: string[]} {
+  const roots: GedcomNode[] = [];
+  const warnings: string[] = [];
+  const stack: GedcomNode[] = [];
+
+  const lines = content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const match = GEDCOM_LINE_REGEX.exec(line);
+    if (!match) {
+      warnings.push(`Line ${index + 1}: unrecognized GEDCOM line skipped`);
+      return;
+    }
+
+    const level = parseInt(match[1], 10);
+    let value = match[4] ?? "";
+    // GEDCOM 7 escapes a leading "@" in payloads as "@@"
+    if (value.startsWith("@@")) {
+      value = value.substring(1);
+    }
+
+    const node: GedcomNode = {
+      level,
+      xref: match[2],
+      tag: match[3].toUpperCase(),
+      value,
+      children: [],
+    };
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+
+    if (level === 0) {
+      roots.push(node);
+    } else if (stack.length === 0 || stack[stack.length - 1].level !== level - 1) {
+      warnings.push(`Line ${index + 1}: invalid level ${level}, line skipped`);
+      return;
+    } else {
+      stack[stack.length - 1].children.push(node);
+    }
+
+    stack.push(node);
+  });
+
+  return {nodes: roots, warnings};
+}
+
+/**
+ * Returns the payload of a node with CONT/CONC continuation lines applied
+ */
+function getNodeText(node: GedcomNode): string {
+  let text = node.value;
+  for (const child of node.children) {
+    if (child.tag === "CONT") {
+      text += "\n" + child.value;
+    } else if (child.tag === "CONC") {
+      text += child.value;
+    }
+  }
+  return text;
+}
+
+function findChild(node: GedcomNode, tag: string): GedcomNode | undefined {
+  return node.children.find((child) => child.tag === tag);
+}
+
+function findChildren(node: GedcomNode, tag: string): GedcomNode[] {
+  return node.children.filter((child) => child.tag === tag);
+}
+
+function isPointer(value: string): boolean {
+  return /^@[^@\s]+@$/.test(value.trim()) && value.trim() !== "@VOID@";
+}
+
+function cleanText(value: string | undefined, maxLength: number = MAX_TEXT_LENGTH): string {
+  if (!value) return "";
+  // eslint-disable-next-line no-control-regex
+  return stripAllHtml(value).replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, "").substring(0, maxLength);
+}
+
+/**
+ * Parses a GEDCOM date value (e.g. "12 JAN 1900", "ABT 1850", "BET 1900 AND 1910")
+ * Only the first date of a range is used for the structured fields.
+ */
+export function parseGedcomDate(raw: string | undefined): GedcomDate | undefined {
+  if (!raw || !raw.trim()) return undefined;
+
+  const original = raw.trim();
+  // Strip calendar escapes (5.5.1 "@#DGREGORIAN@", 7.0 "GREGORIAN") and parenthesised phrases
+  let text = original
+    .replace(/@#D[A-Z ]+@/g, "")
+    .replace(/\b(GREGORIAN|JULIAN|FRENCH_R|HEBREW)\b/g, "")
+    .replace(/\(.*\)/g, "")
+    .trim()
+    .toUpperCase();
+
+  let qualifier: string | undefined;
+  const firstWord = text.split(/\s+/)[0];
+  if (DATE_QUALIFIERS.includes(firstWord)) {
+    qualifier = firstWord;
+    text = text.substring(firstWord.length).trim();
+  }
+  // Keep only the first half of ranges
+  text = text.split(/\s+(AND|TO)\s+/)[0].trim();
+
+  const parts = text.split(/\s+/).filter(Boolean);
+  const result: GedcomDate = {raw: cleanText(original, 100), qualifier};
+
+  const yearPart = parts[parts.length - 1];
+  const year = yearPart ? parseInt(yearPart.split("/")[0], 10) : NaN;
+  if (isNaN(year)) {
+    return result;
+  }
+  result.year = year;
+
+  if (parts.length >= 2) {
+    const month = GEDCOM_MONTHS[parts[parts.length - 2]];
+    if (month) {
+      result.month = month;
+      if (parts.length >= 3) {
+        const day = parseInt(parts[parts.length - 3], 10);
+        if (!isNaN(day) && day >= 1 && day <= 31) {
+          result.day = day;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Converts a parsed GEDCOM date to an ISO date string (YYYY-MM-DD)
+ * Returns undefined unless the exact day is known and the date is not qualified.
+ */
+export function gedcomDateToIso(date: GedcomDate | undefined): string | undefined {
+  if (!date?.year || !date.month || !date.day) return undefined;
+  if (date.qualifier && date.qualifier !== "INT") return undefined;
+
+  const month = String(date.month).padStart(2, "0");
+  const day = String(date.day).padStart(2, "0");
+  return `${String(date.year).padStart(4, "0")}-${month}-${day}`;
+}
+
+function parseEvent(node: GedcomNode | undefined): GedcomEvent | undefined {
+  if (!node) return undefined;
+  const dateNode = findChild(node, "DATE");
+  const placeNode = findChild(node, "PLAC");
+  return {
+    date: parseGedcomDate(dateNode?.value),
+    place: placeNode ? cleanText(getNodeText(placeNode), 500) || undefined : undefined,
+  };
+}
+
+function parseName(node: GedcomNode): {firstName: string; lastName: string; displayName: string} {
+  const nameNode = findChild(node, "NAME");
+  if (!nameNode) {
+    return {firstName: "", lastName: "", displayName: ""};
+  }
+
+  const givenNode = findChild(nameNode, "GIVN");
+  const surnameNode = findChild(nameNode, "SURN");
+
+  // NAME values look like "John Paul /Smith/ Jr."
+  const surnameMatch = /\/([^/]*)\//.exec(nameNode.value);
+  const surname = surnameNode?.value ?? surnameMatch?.[1] ?? "";
+  const given = givenNode?.value ?? nameNode.value.replace(/\/[^/]*\//, "").trim();
+
+  const firstName = cleanText(given.replace(/\s+/g, " ").trim(), MAX_NAME_LENGTH);
+  const lastName = cleanText(surname.trim(), MAX_NAME_LENGTH);
+  const displayName = `${firstName} ${lastName}`.trim();
+
+  return {firstName, lastName, displayName};
+}
+
+/**
+ * Parses GEDCOM text into individuals and families
+ */
+export function parseGedcom(content: string): GedcomDocument {
+  const {nodes, warnings} = parseGedcomNodes(content);
+
+  const header = nodes.find((node) => node.tag === "HEAD");
+  const version = header ?
+    findChild(findChild(header, "GEDC") || header, "VERS")?.value || "5.5.1" :
+    "5.5.1";
+
+  // Index shared notes and sources so pointers can be resolved
+  const notesByXref = new Map<string, string>();
+  const sourcesByXref = new Map<string, string>();
+  nodes.forEach((node) => {
+    if (!node.xref) return;
+    if (node.tag === "NOTE" || node.tag === "SNOTE") {
+      notesByXref.set(node.xref, cleanText(getNodeText(node)));
+    } else if (node.tag === "SOUR") {
+      const title = findChild(node, "TITL");
+      const text = title ? getNodeText(title) : getNodeText(node);
+      sourcesByXref.set(node.xref, cleanText(text, 500) || node.xref);
+    }
+  });
+
+  const resolveNotes = (node: GedcomNode): string[] => {
+    return [...findChildren(node, "NOTE"), ...findChildren(node, "SNOTE")]
+      .map((noteNode) => {
+        if (isPointer(noteNode.value)) {
+          return notesByXref.get(noteNode.value.trim()) || "";
+        }
+        return cleanText(getNodeText(noteNode));
+      })
+      .filter(Boolean);
+  };
+
+  const resolveSources = (node: GedcomNode): string[] => {
+    return findChildren(node, "SOUR")
+      .map((sourceNode) => {
+        if (isPointer(sourceNode.value)) {
+          return sourcesByXref.get(sourceNode.value.trim()) || "";
+        }
+        return cleanText(getNodeText(sourceNode), 500);
+      })
+      .filter(Boolean);
+  };
+
+  const individuals: GedcomIndividual[] = [];
+  const families: GedcomFamily[] = [];
+
+  nodes.forEach((node) => {
+    if (node.tag === "INDI") {
+      if (!node.xref) {
+        warnings.push("Individual record without identifier skipped");
+        return;
+      }
+
+      const name = parseName(node);
+      const sex = (findChild(node, "SEX")?.value || "").trim().toUpperCase();
+      const deathNode = findChild(node, "DEAT");
+
+      individuals.push({
+        xref: node.xref,
+        ...name,
+        gender: sex === "M" ? "male" : sex === "F" ? "female" : "other",
+        birth: parseEvent(findChild(node, "BIRT")),
+        death: parseEvent(deathNode),
+        isDeceased: !!deathNode,
+        notes: resolveNotes(node),
+        sources: [
+          ...resolveSources(node),
+          ...node.children
+            .filter((child) => ["BIRT", "DEAT"].includes(child.tag))
+            .flatMap((event) => resolveSources(event)),
+        ],
+      });
+    } else if (node.tag === "FAM") {
+      if (!node.xref) {
+        warnings.push("Family record without identifier skipped");
+        return;
+      }
+
+      const pointerOf = (child: GedcomNode | undefined) =>
+        child && isPointer(child.value) ? child.value.trim() : undefined;
+
+      families.push({
+        xref: node.xref,
+        husbandXref: pointerOf(findChild(node, "HUSB")),
+        wifeXref: pointerOf(findChild(node, "WIFE")),
+        childXrefs: findChildren(node, "CHIL")
+          .map((child) => pointerOf(child))
+          .filter((xref): xref is string => !!xref),
+        marriage: parseEvent(findChild(node, "MARR")),
+      });
+    }
+  });
+
+  return {version, individuals, families, warnings};
+}
+
+// MARK: - Import Planning
+
+function sameBirthDate(date: GedcomDate | undefined, existing: Date | null | undefined): boolean | undefined {
+  if (!date?.year || !existing || isNaN(existing.getTime())) return undefined;
+  if (date.year !== existing.getUTCFullYear()) return false;
+  if (date.month && date.month !== existing.getUTCMonth() + 1) return false;
+  if (date.day && date.day !== existing.getUTCDate()) return false;
+  return true;
+}
+
+function memberNameKey(member: ExistingMemberSummary): string {
+  const fullName = member.firstName || member.lastName ?
+    `${member.firstName || ""} ${member.lastName || ""}` :
+    member.displayName || "";
+  return normalizeSearchText(fullName);
+}
+
+/**
+ * Finds existing members that look like the same person as a GEDCOM individual
+ */
+function findCandidates(
+  individual: GedcomIndividual,
+  existingMembers: ExistingMemberSummary[]
+): GedcomMatchCandidate[] {
+  const nameKey = normalizeSearchText(individual.displayName);
+  if (!nameKey) return [];
+
+  const candidates: GedcomMatchCandidate[] = [];
+  existingMembers.forEach((member) => {
+    if (memberNameKey(member) !== nameKey) return;
+
+    const dateMatch = sameBirthDate(individual.birth?.date, member.dateOfBirth);
+    candidates.push({
+      memberId: member.id,
+      displayName: member.displayName || `${member.firstName || ""} ${member.lastName || ""}`.trim(),
+      reason: dateMatch === true ?
+        "name_and_birth_date" :
+        dateMatch === false ? "name_birth_date_mismatch" : "name_only",
+    });
+  });
+
+  return candidates;
+}
+
+/**
+ * Builds a dry-run import plan: which individuals will be created, which map onto
+ * existing members, and which relationships will be added.
+ *
+ * Individuals matching exactly one existing member by name and birth date are linked
+ * to that member. Any other name match is reported as a conflict and defaults to
+ * creating a new member unless a resolution is supplied.
+ */
+export function buildGedcomImportPlan(
+  document: GedcomDocument,
+  existingMembers: ExistingMemberSummary[],
+  resolutions: Record<string, GedcomImportResolution> = {}
+): GedcomImportPlan {
+  const warnings = [...document.warnings];
+  const existingById = new Map(existingMembers.map((member) => [member.id, member]));
+
+  const people: GedcomImportPerson[] = document.individuals.map((individual) => {
+    const candidates = findCandidates(individual, existingMembers);
+    const exactMatches = candidates.filter((candidate) => candidate.reason === "name_and_birth_date");
+
+    let matchStatus: GedcomImportPerson["matchStatus"] = "new";
+    let action: GedcomImportAction = "create";
+    let existingMemberId: string | undefined;
+
+    if (exactMatches.length === 1) {
+      matchStatus = "duplicate";
+      action = "link";
+      existingMemberId = exactMatches[0].memberId;
+    } else if (candidates.length > 0) {
+      matchStatus = "conflict";
+    }
+
+    const resolution = resolutions[individual.xref];
+    if (resolution) {
+      if (resolution.action === "link") {
+        if (resolution.existingMemberId && existingById.has(resolution.existingMemberId)) {
+          action = "link";
+          existingMemberId = resolution.existingMemberId;
+        } else {
+          warnings.push(`${individual.xref}: link target not found in this tree, creating a new member instead`);
+          action = "create";
+          existingMemberId = undefined;
+        }
+      } else {
+        action = resolution.action;
+        existingMemberId = undefined;
+      }
+    }
+
+    if (!individual.displayName && action === "create") {
+      warnings.push(`${individual.xref}: individual has no name and was skipped`);
+      action = "skip";
+    }
+
+    return {
+      xref: individual.xref,
+      firstName: individual.firstName,
+      lastName: individual.lastName,
+      displayName: individual.displayName,
+      gender: individual.gender,
+      dateOfBirth: gedcomDateToIso(individual.birth?.date),
+      dateOfDeath: gedcomDateToIso(individual.death?.date),
+      birthDateText: individual.birth?.date?.raw,
+      deathDateText: individual.death?.date?.raw,
+      placeOfBirth: individual.birth?.place,
+      placeOfDeath: individual.death?.place,
+      isDeceased: individual.isDeceased,
+      notes: individual.notes,
+      sources: individual.sources,
+      matchStatus,
+      action,
+      existingMemberId,
+      candidates,
+    };
+  });
+
+  const peopleByXref = new Map(people.map((person) => [person.xref, person]));
+  const relationships: GedcomImportRelationship[] = [];
+  const seen = new Set<string>();
+
+  const relationshipExists = (
+    type: GedcomImportRelationship["type"],
+    from: GedcomImportPerson,
+    to: GedcomImportPerson
+  ): boolean => {
+    if (!from.existingMemberId || !to.existingMemberId) return false;
+    const existing = existingById.get(from.existingMemberId);
+    if (!existing) return false;
+    if (type === "spouse") {
+      return (existing.spouseIds || []).includes(to.existingMemberId);
+    }
+    return (existing.childrenIds || []).includes(to.existingMemberId);
+  };
+
+  const addRelationship = (
+    type: GedcomImportRelationship["type"],
+    fromXref: string,
+    toXref: string,
+    marriage?: GedcomEvent
+  ) => {
+    const from = peopleByXref.get(fromXref);
+    const to = peopleByXref.get(toXref);
+    if (!from || !to) {
+      warnings.push(`Relationship ${fromXref} -> ${toXref} references an unknown individual`);
+      return;
+    }
+    if (from.action === "skip" || to.action === "skip") return;
+    if (from.existingMemberId && from.existingMemberId === to.existingMemberId) return;
+
+    const key = type === "spouse" ?
+      `spouse:${[fromXref, toXref].sort().join(":")}` :
+      `parent_child:${fromXref}:${toXref}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    relationships.push({
+      type,
+      fromXref,
+      toXref,
+      marriageDate: marriage ? gedcomDateToIso(marriage.date) : undefined,
+      marriagePlace: marriage?.place,
+      alreadyExists: relationshipExists(type, from, to),
+    });
+  };
+
+  document.families.forEach((family) => {
+    const parents = [family.husbandXref, family.wifeXref].filter((xref): xref is string => !!xref);
+    if (parents.length === 2) {
+      addRelationship("spouse", parents[0], parents[1], family.marriage);
+    }
+    parents.forEach((parentXref) => {
+      family.childXrefs.forEach((childXref) => addRelationship("parent_child", parentXref, childXref));
+    });
+  });
+
+  return {
+    version: document.version,
+    people,
+    relationships,
+    warnings,
+    summary: {
+      individuals: document.individuals.length,
+      families: document.families.length,
+      toCreate: people.filter((person) => person.action === "create").length,
+      toLink: people.filter((person) => person.action === "link").length,
+      toSkip: people.filter((person) => person.action === "skip").length,
+      conflicts: people.filter((person) => person.matchStatus === "conflict").length,
+      newRelationships: relationships.filter((relationship) => !relationship.alreadyExists).length,
+    },
+  };
+}
+
+// MARK: - Export
+
+/**
+ * Whether a member must be redacted from exports: living members whose
+ * profile visibility is private ("Private" on mobile, "private" on web)
+ */
+export function shouldRedactForExport(member: {
+  profileVisibility?: string | null;
+  isDeceased?: boolean;
+  dateOfDeath?: Date | null;
+}): boolean {
+  const isLiving = !member.isDeceased && !member.dateOfDeath;
+  return isLiving && member.profileVisibility?.toLowerCase() === "private";
+}
+
+/**
+ * Formats a Date as a GEDCOM date value (e.g. "12 JAN 1920") using UTC parts
+ */
+export function formatGedcomDate(date: Date): string {
+  const month = Object.keys(GEDCOM_MONTHS)[date.getUTCMonth()];
+  return `${date.getUTCDate()} ${month} ${date.getUTCFullYear()}`;
+}
+
+/**
+ * Converts free text dates kept from imports (e.g. "@#DGREGORIAN@ ABT 1850") to
+ * GEDCOM 7 date syntax. Returns undefined when the text is not a recognisable date.
+ */
+function normalizeExportDateText(text: string | null | undefined): string | undefined {
+  if (!text || !parseGedcomDate(text)?.year) return undefined;
+  const normalized = text
+    .replace(/@#D[A-Z ]+@/g, "")
+    .replace(/\(.*\)/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toUpperCase();
+  return /^[A-Z0-9 /_]+$/.test(normalized) ? normalized : undefined;
+}
+
+/**
+ * Collects GEDCOM lines, escaping leading "@" and splitting multi-line text into CONT lines
+ */
+class GedcomWriter {
+  private lines: string[] = [];
+
+  line(level: number, tag: string, value?: string, xref?: string): void {
+    const prefix = xref ? `${level} ${xref} ${tag}` : `${level} ${tag}`;
+    this.lines.push(value ? `${prefix} ${value}` : prefix);
+  }
+
+  text(level: number, tag: string, text: string, xref?: string): void {
+    const [first, ...rest] = text.replace(/\r\n?/g, "\n").split("\n").map((part) => part.replace(/^@/, "@@"));
+    this.line(level, tag, first, xref);
+    rest.forEach((part) => this.line(level + 1, "CONT", part));
+  }
+
+  toString(): string {
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+interface ExportFamily {
+  xref: string;
+  parentIds: string[];
+  childIds: string[];
+}
+
+/**
+ * Groups parent/child and spouse links into GEDCOM families. Children are placed in
+ * the family of their parent couple; parents without a spouse link get a single parent family.
+ */
+function buildExportFamilies(people: GedcomExportPerson[]): ExportFamily[] {
+  const ids = new Set(people.map((person) => person.id));
+  const families = new Map<string, ExportFamily>();
+  const spousePairs = new Set<string>();
+
+  const pairKey = (parentIds: string[]) => [...parentIds].sort().join("|");
+  const getFamily = (parentIds: string[]) => {
+    const key = pairKey(parentIds);
+    if (!families.has(key)) {
+      families.set(key, {xref: `@F${families.size + 1}@`, parentIds, childIds: []});
+    }
+    return families.get(key)!;
+  };
+
+  people.forEach((person) => {
+    (person.spouseIds || []).filter((id) => ids.has(id) && id !== person.id).forEach((spouseId) => {
+      spousePairs.add(pairKey([person.id, spouseId]));
+      getFamily([person.id, spouseId].sort());
+    });
+  });
+
+  // Relationships may only be recorded on one side, so merge parentIds and childrenIds
+  const parentsByChild = new Map<string, string[]>();
+  const addParent = (childId: string, parentId: string) => {
+    if (!ids.has(childId) || !ids.has(parentId) || childId === parentId) return;
+    const parents = parentsByChild.get(childId) || [];
+    if (!parents.includes(parentId)) parents.push(parentId);
+    parentsByChild.set(childId, parents);
+  };
+  people.forEach((person) => {
+    (person.parentIds || []).forEach((parentId) => addParent(person.id, parentId));
+    (person.childrenIds || []).forEach((childId) => addParent(childId, person.id));
+  });
+
+  people.forEach((child) => {
+    const remaining = [...(parentsByChild.get(child.id) || [])];
+    while (remaining.length > 0) {
+      const parentId = remaining.shift()!;
+      const partnerIndex = remaining.findIndex((otherId) => spousePairs.has(pairKey([parentId, otherId])));
+      const parents = partnerIndex >= 0 ? [parentId, remaining.splice(partnerIndex, 1)[0]] : [parentId];
+      getFamily(parents).childIds.push(child.id);
+    }
+  });
+
+  return Array.from(families.values());
+}
+
+/**
+ * Serializes family tree members into a GEDCOM 7.0 file. Stories are written as SOUR
+ * records cited by the people involved and profile photos as OBJE records.
+ */
+export function serializeGedcom(
+  people: GedcomExportPerson[],
+  stories: GedcomExportStory[] = [],
+  options: GedcomExportOptions = {}
+): GedcomExportResult {
+  const writer = new GedcomWriter();
+  const exportedAt = options.exportedAt || new Date();
+
+  const individualXrefs = new Map(people.map((person, index) => [person.id, `@I${index + 1}@`]));
+  const families = buildExportFamilies(people);
+  const visibleIds = new Set(people.filter((person) => !person.redacted).map((person) => person.id));
+
+  const exportedStories = stories.filter((story) => story.peopleInvolved.some((id) => visibleIds.has(id)));
+  const sourceXrefs = new Map(exportedStories.map((story, index) => [story.id, `@S${index + 1}@`]));
+
+  const mediaPeople = people.filter((person) => !person.redacted && person.photo);
+  const mediaXrefs = new Map(mediaPeople.map((person, index) => [person.id, `@O${index + 1}@`]));
+
+  writer.line(0, "HEAD");
+  writer.line(1, "GEDC");
+  writer.line(2, "VERS", GEDCOM_EXPORT_VERSION);
+  writer.line(1, "SOUR", GEDCOM_EXPORT_SOURCE);
+  writer.line(2, "NAME", "Dynasty");
+  writer.line(1, "DATE", formatGedcomDate(exportedAt));
+  writer.line(2, "TIME", `${exportedAt.toISOString().substring(11, 19)}Z`);
+  if (options.treeName) {
+    writer.text(1, "NOTE", options.treeName);
+  }
+
+  people.forEach((person) => {
+    const xref = individualXrefs.get(person.id)!;
+    const famc = families.filter((family) => family.childIds.includes(person.id));
+    const fams = families.filter((family) => family.parentIds.includes(person.id));
+
+    writer.line(0, "INDI", undefined, xref);
+
+    if (person.redacted) {
+      writer.line(1, "RESN", "PRIVACY");
+      writer.line(1, "NAME", "Private");
+    } else {
+      const firstName = cleanText(person.firstName, MAX_NAME_LENGTH).replace(/\//g, "");
+      const lastName = cleanText(person.lastName, MAX_NAME_LENGTH).replace(/\//g, "");
+      const name = firstName || lastName ?
+        `${firstName} /${lastName}/`.trim() :
+        cleanText(person.displayName, MAX_NAME_LENGTH).replace(/\//g, "");
+      writer.text(1, "NAME", name);
+      if (firstName) writer.text(2, "GIVN", firstName);
+      if (lastName) writer.text(2, "SURN", lastName);
+
+      const gender = person.gender?.toLowerCase();
+      writer.line(1, "SEX", gender === "male" ? "M" : gender === "female" ? "F" : gender === "other" ? "X" : "U");
+
+      const writeEvent = (tag: string, date?: Date | null, dateText?: string | null, place?: string | null) => {
+        const dateValue = date ? formatGedcomDate(date) : normalizeExportDateText(dateText);
+        const placeValue = cleanText(place || undefined);
+        if (!dateValue && !placeValue) return false;
+        writer.line(1, tag);
+        if (dateValue) writer.line(2, "DATE", dateValue);
+        if (placeValue) writer.text(2, "PLAC", placeValue);
+        return true;
+      };
+
+      writeEvent("BIRT", person.dateOfBirth, person.birthDateText, person.placeOfBirth);
+      const hasDeath = writeEvent("DEAT", person.dateOfDeath, person.deathDateText, person.placeOfDeath);
+      if (!hasDeath && person.isDeceased) {
+        writer.line(1, "DEAT", "Y");
+      }
+    }
+
+    famc.forEach((family) => writer.line(1, "FAMC", family.xref));
+    fams.forEach((family) => writer.line(1, "FAMS", family.xref));
+
+    if (person.redacted) return;
+
+    (person.notes || []).map((note) => cleanText(note)).filter(Boolean).forEach((note) => writer.text(1, "NOTE", note));
+    exportedStories
+      .filter((story) => story.peopleInvolved.includes(person.id))
+      .forEach((story) => writer.line(1, "SOUR", sourceXrefs.get(story.id)));
+    if (mediaXrefs.has(person.id)) {
+      writer.line(1, "OBJE", mediaXrefs.get(person.id));
+    }
+  });
+
+  families.forEach((family) => {
+    writer.line(0, "FAM", undefined, family.xref);
+
+    // HUSB/WIFE are roles in GEDCOM 7; prefer gender when it tells the partners apart
+    const parents = family.parentIds.map((id) => people.find((person) => person.id === id)!);
+    const isFemale = (person: GedcomExportPerson) => !person.redacted && person.gender?.toLowerCase() === "female";
+    if (parents.length === 2 && isFemale(parents[0]) && !isFemale(parents[1])) {
+      parents.reverse();
+    }
+    if (parents.length === 1 && isFemale(parents[0])) {
+      writer.line(1, "WIFE", individualXrefs.get(parents[0].id));
+    } else {
+      parents.forEach((parent, index) => writer.line(1, index === 0 ? "HUSB" : "WIFE", individualXrefs.get(parent.id)));
+    }
+    family.childIds.forEach((childId) => writer.line(1, "CHIL", individualXrefs.get(childId)));
+  });
+
+  exportedStories.forEach((story) => {
+    writer.line(0, "SOUR", undefined, sourceXrefs.get(story.id));
+    writer.text(1, "TITL", cleanText(story.title, MAX_NAME_LENGTH * 2) || "Untitled story");
+    if (story.authorName) writer.text(1, "AUTH", cleanText(story.authorName, MAX_NAME_LENGTH));
+    writer.text(1, "REFN", story.id);
+    writer.line(2, "TYPE", "DYNASTY_STORY");
+    if (story.url) writer.text(1, "NOTE", story.url);
+  });
+
+  mediaPeople.forEach((person) => {
+    const photo = person.photo!;
+    writer.line(0, "OBJE", undefined, mediaXrefs.get(person.id));
+    writer.text(1, "FILE", photo.file);
+    writer.line(2, "FORM", photo.mediaType);
+    writer.line(3, "MEDI", "PHOTO");
+    writer.text(2, "TITL", photo.title || "Profile photo");
+  });
+
+  writer.line(0, "TRLR");
+
+  return {
+    content: writer.toString(),
+    summary: {
+      individuals: people.length,
+      families: families.length,
+      stories: exportedStories.length,
+      media: mediaPeople.length,
+      redacted: people.filter((person) => person.redacted).length,
+    },
+  };
+}
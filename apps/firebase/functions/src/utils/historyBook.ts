@@ -0,0 +1,270 @@
+/**
+ * Layout planning for printable History Books
+ * Turns stories and family members into chapters by decade, story content, a timeline
+ * and family tree chart rows. Rendering to PDF lives in historyBookPdf.ts.
+ */
+
+// MARK: - Types
+
+export interface HistoryBookBlock {
+  type: "text" | "image" | "video" | "audio";
+  data: string | string[];
+  transcript?: string; // Audio transcript, when one has been provided
+}
+
+export interface HistoryBookStory {
+  id: string;
+  title: string;
+  subtitle?: string;
+  authorName?: string;
+  date: Date | null; // Event date, falling back to when the story was written
+  location?: string;
+  blocks: HistoryBookBlock[];
+}
+
+export interface HistoryBookMember {
+  id: string;
+  name: string;
+  dateOfBirth: Date | null;
+  dateOfDeath: Date | null;
+  parentIds: string[];
+  spouseIds: string[];
+}
+
+export interface HistoryBookChapter {
+  title: string;
+  decade: number | null; // null for undated stories
+  stories: HistoryBookStory[];
+}
+
+export type HistoryBookContent =
+  | {kind: "paragraph"; text: string}
+  | {kind: "image"; url: string}
+  | {kind: "transcript"; text: string}
+  | {kind: "note"; text: string};
+
+export interface HistoryBookTimelineEntry {
+  date: Date;
+  kind: "birth" | "death" | "story";
+  label: string;
+}
+
+// MARK: - Constants
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": "\"",
+  "&#39;": "'",
+  "&apos;": "'",
+  "&nbsp;": " ",
+};
+
+// Typographic characters mapped to ASCII so they render with the standard PDF fonts
+const TYPOGRAPHIC_REPLACEMENTS: Record<string, string> = {
+  "\u2018": "'",
+  "\u2019": "'",
+  "\u201c": "\"",
+  "\u201d": "\"",
+  "\u2013": "-",
+  "\u2014": "-",
+  "\u2026": "...",
+  "\u2022": "-",
+};
+
+// MARK: - Text
+
+/**
+ * Makes text safe for the standard PDF fonts (WinAnsi encoding): accents outside Latin-1
+ * are stripped and anything else unsupported becomes "?"
+ */
+export function toPdfSafeText(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || char === "\n") return char;
+      if (TYPOGRAPHIC_REPLACEMENTS[char]) return TYPOGRAPHIC_REPLACEMENTS[char];
+      if (char === "\t") return " ";
+      const stripped = char.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+      return stripped && stripped.charCodeAt(0) <= 0xff ? stripped : "?";
+    })
+    .join("");
+}
+
+/**
+ * Splits story HTML (limited to p, br, blockquote and inline formatting) into plain paragraphs
+ */
+export function htmlToParagraphs(html: string): string[] {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|blockquote|div)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&[a-z#0-9]+;/gi, (entity) => HTML_ENTITIES[entity.toLowerCase()] ?? entity)
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/[ \t]+/g, " ").replace(/ ?\n ?/g, "\n").trim())
+    .filter((paragraph) => paragraph.length > 0);
+}
+
+/**
+ * Formats a date for print, e.g. "2 March 1940"
+ */
+export function formatBookDate(date: Date): string {
+  return `${date.getUTCDate()} ${MONTH_NAMES[date.getUTCMonth()]} ${date.getUTCFullYear()}`;
+}
+
+// MARK: - Chapters
+
+/**
+ * Groups stories into chapters by decade, oldest first, with undated stories last
+ */
+export function groupStoriesByDecade(stories: HistoryBookStory[]): HistoryBookChapter[] {
+  const chapters = new Map<number | null, HistoryBookStory[]>();
+  [...stories]
+    .sort((a, b) => (a.date?.getTime() ?? Infinity) - (b.date?.getTime() ?? Infinity))
+    .forEach((story) => {
+      const decade = story.date ? Math.floor(story.date.getUTCFullYear() / 10) * 10 : null;
+      if (!chapters.has(decade)) chapters.set(decade, []);
+      chapters.get(decade)!.push(story);
+    });
+
+  return Array.from(chapters.entries()).map(([decade, chapterStories]) => ({
+    title: decade === null ? "Undated Stories" : `The ${decade}s`,
+    decade,
+    stories: chapterStories,
+  }));
+}
+
+/**
+ * Lists the printable content of a story in block order. Videos can't be printed,
+ * so they are replaced by a short note, as are audio recordings without a transcript.
+ */
+export function getStoryContent(story: HistoryBookStory): HistoryBookContent[] {
+  const content: HistoryBookContent[] = [];
+  story.blocks.forEach((block) => {
+    const values = Array.isArray(block.data) ? block.data : [block.data];
+    switch (block.type) {
+    case "text":
+      values.forEach((html) => {
+        if (typeof html !== "string") return;
+        htmlToParagraphs(html).forEach((text) => content.push({kind: "paragraph", text}));
+      });
+      break;
+    case "image":
+      values.forEach((url) => {
+        if (typeof url === "string" && url) content.push({kind: "image", url});
+      });
+      break;
+    case "audio":
+      if (block.transcript?.trim()) {
+        content.push({kind: "transcript", text: block.transcript.trim()});
+      } else {
+        content.push({kind: "note", text: "An audio recording is included with the online story."});
+      }
+      break;
+    case "video":
+      content.push({kind: "note", text: "A video is included with the online story."});
+      break;
+    }
+  });
+  return content;
+}
+
+// MARK: - Timeline
+
+/**
+ * Builds a chronological timeline of births, deaths and dated stories
+ */
+export function buildTimeline(
+  members: HistoryBookMember[],
+  stories: HistoryBookStory[]
+): HistoryBookTimelineEntry[] {
+  const entries: HistoryBookTimelineEntry[] = [];
+  members.forEach((member) => {
+    if (member.dateOfBirth) {
+      entries.push({date: member.dateOfBirth, kind: "birth", label: `${member.name} was born`});
+    }
+    if (member.dateOfDeath) {
+      entries.push({date: member.dateOfDeath, kind: "death", label: `${member.name} passed away`});
+    }
+  });
+  stories.forEach((story) => {
+    if (story.date) entries.push({date: story.date, kind: "story", label: story.title});
+  });
+  return entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// MARK: - Family Tree Chart
+
+/**
+ * Arranges members into generation rows for the family tree chart. Children sit one row
+ * below their lowest parent, spouses share a row, and each row is ordered so that
+ * children follow their parents and spouses sit side by side.
+ */
+export function assignGenerations(members: HistoryBookMember[]): HistoryBookMember[][] {
+  const byId = new Map(members.map((member) => [member.id, member]));
+  const generation = new Map(members.map((member) => [member.id, 0]));
+
+  // Relax until stable; bounded by the member count so cycles in bad data can't loop forever
+  for (let pass = 0; pass < members.length; pass++) {
+    let changed = false;
+    members.forEach((member) => {
+      let level = generation.get(member.id)!;
+      member.parentIds.forEach((parentId) => {
+        if (byId.has(parentId)) level = Math.max(level, generation.get(parentId)! + 1);
+      });
+      member.spouseIds.forEach((spouseId) => {
+        if (byId.has(spouseId)) level = Math.max(level, generation.get(spouseId)!);
+      });
+      if (level !== generation.get(member.id)) {
+        generation.set(member.id, level);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  const rows: HistoryBookMember[][] = [];
+  members.forEach((member) => {
+    const level = generation.get(member.id)!;
+    while (rows.length <= level) rows.push([]);
+    rows[level].push(member);
+  });
+
+  // Order each row by the position of its parents in the row above
+  const position = new Map<string, number>();
+  return rows.filter((row) => row.length > 0).map((row) => {
+    const parentPosition = (member: HistoryBookMember) => {
+      const positions = member.parentIds.filter((id) => position.has(id)).map((id) => position.get(id)!);
+      return positions.length > 0 ? Math.min(...positions) : Infinity;
+    };
+    const sorted = [...row].sort((a, b) =>
+      parentPosition(a) - parentPosition(b) ||
+      (a.dateOfBirth?.getTime() ?? Infinity) - (b.dateOfBirth?.getTime() ?? Infinity) ||
+      a.name.localeCompare(b.name)
+    );
+
+    // Pull spouses next to their partner
+    const ordered: HistoryBookMember[] = [];
+    const placed = new Set<string>();
+    sorted.forEach((member) => {
+      if (placed.has(member.id)) return;
+      ordered.push(member);
+      placed.add(member.id);
+      sorted
+        .filter((other) => !placed.has(other.id) && member.spouseIds.includes(other.id))
+        .forEach((spouse) => {
+          ordered.push(spouse);
+          placed.add(spouse.id);
+        });
+    });
+
+    ordered.forEach((member, index) => position.set(member.id, index));
+    return ordered;
+  });
+}
@@ -0,0 +1,413 @@
+/**
+ * Renders a History Book to a print-ready PDF
+ * 6x9 inch pages with a cover, table of contents, one chapter per decade, a landscape
+ * family tree chart and a timeline. Layout decisions are made in historyBook.ts.
+ */
+
+import {PDFDocument, PDFFont, PDFPage, RGB, StandardFonts, rgb} from "pdf-lib";
+import {
+  formatBookDate,
+  getStoryContent,
+  toPdfSafeText,
+  HistoryBookChapter,
+  HistoryBookMember,
+  HistoryBookTimelineEntry,
+} from "./historyBook";
+
+// MARK: - Types
+
+export interface HistoryBookInput {
+  title: string;
+  subtitle?: string;
+  chapters: HistoryBookChapter[];
+  familyTree?: HistoryBookMember[][]; // Generation rows from assignGenerations
+  timeline?: HistoryBookTimelineEntry[];
+}
+
+export interface HistoryBookRenderOptions {
+  loadImage?: (url: string) => Promise<Uint8Array | null>;
+  onProgress?: (progress: number, stage: string) => Promise<void> | void; // progress is 0-1
+}
+
+interface BookFonts {
+  body: PDFFont;
+  bodyBold: PDFFont;
+  bodyItalic: PDFFont;
+  sans: PDFFont;
+  sansBold: PDFFont;
+}
+
+interface TocEntry {
+  title: string;
+  level: 0 | 1;
+  pageIndex: number;
+}
+
+// MARK: - Constants
+
+const PAGE_WIDTH = 432; // 6 x 9 inch trim size
+const PAGE_HEIGHT = 648;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TOC_ENTRIES_PER_PAGE = 24;
+const MAX_IMAGE_HEIGHT = 280;
+
+const CHART_MARGIN = 36;
+const CHART_BOX_WIDTH = 86;
+const CHART_BOX_HEIGHT = 34;
+const CHART_GAP_X = 10;
+const CHART_GAP_Y = 30;
+
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1);
+const MUTED_COLOR = rgb(0.45, 0.45, 0.45);
+const ACCENT_COLOR = rgb(0.04, 0.36, 0.21); // Dynasty green
+
+// MARK: - Text Helpers
+
+/**
+ * Wraps text to a width, keeping explicit line breaks and splitting words that are too long
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  toPdfSafeText(text).split("\n").forEach((paragraph) => {
+    let line = "";
+    paragraph.split(" ").filter(Boolean).forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (font.widthOfTextAtSize(line, size) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+}
+
+function truncateText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  let result = toPdfSafeText(text);
+  if (font.widthOfTextAtSize(result, size) <= maxWidth) return result;
+  while (result.length > 1 && font.widthOfTextAtSize(`${result}...`, size) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result.trimEnd()}...`;
+}
+
+function drawCentered(page: PDFPage, text: string, y: number, font: PDFFont, size: number, color: RGB) {
+  const safeText = truncateText(text, font, size, page.getWidth() - MARGIN * 2);
+  page.drawText(safeText, {
+    x: (page.getWidth() - font.widthOfTextAtSize(safeText, size)) / 2,
+    y,
+    size,
+    font,
+    color,
+  });
+}
+
+function detectImageType(bytes: Uint8Array): "png" | "jpg" | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "jpg";
+  return null;
+}
+
+function lifespan(member: HistoryBookMember): string {
+  const birth = member.dateOfBirth?.getUTCFullYear();
+  const death = member.dateOfDeath?.getUTCFullYear();
+  if (!birth && !death) return "";
+  return `${birth || "?"} - ${death || ""}`.trim();
+}
+
+// MARK: - Page Writer
+
+/**
+ * Flows text and images down portrait pages, starting a new page when one fills up
+ */
+class PageWriter {
+  page: PDFPage;
+  y = 0;
+
+  constructor(private doc: PDFDocument, private fonts: BookFonts) {
+    this.page = this.newPage();
+  }
+
+  newPage(): PDFPage {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    return this.page;
+  }
+
+  currentPageIndex(): number {
+    return this.doc.getPageCount() - 1;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN) this.newPage();
+  }
+
+  text(
+    text: string,
+    options: {font?: PDFFont; size?: number; leading?: number; indent?: number; color?: RGB; after?: number} = {}
+  ) {
+    const font = options.font || this.fonts.body;
+    const size = options.size || 11;
+    const leading = options.leading || size * 1.4;
+    const indent = options.indent || 0;
+    wrapText(text, font, size, CONTENT_WIDTH - indent).forEach((line) => {
+      this.ensureSpace(leading);
+      this.y -= leading;
+      this.page.drawText(line, {x: MARGIN + indent, y: this.y, size, font, color: options.color || TEXT_COLOR});
+    });
+    this.y -= options.after ?? 6;
+  }
+
+  async image(bytes: Uint8Array) {
+    const type = detectImageType(bytes);
+    if (!type) return;
+    const image = type === "png" ? await this.doc.embedPng(bytes) : await this.doc.embedJpg(bytes);
+    const scale = Math.min(1, CONTENT_WIDTH / image.width, MAX_IMAGE_HEIGHT / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    this.ensureSpace(height + 12);
+    this.y -= height + 6;
+    this.page.drawImage(image, {x: MARGIN + (CONTENT_WIDTH - width) / 2, y: this.y, width, height});
+    this.y -= 12;
+  }
+}
+
+// MARK: - Sections
+
+async function renderChapters(
+  writer: PageWriter,
+  fonts: BookFonts,
+  input: HistoryBookInput,
+  toc: TocEntry[],
+  options: HistoryBookRenderOptions
+) {
+  const storyCount = input.chapters.reduce((total, chapter) => total + chapter.stories.length, 0);
+  let storiesDone = 0;
+
+  for (const chapter of input.chapters) {
+    const chapterPage = writer.newPage();
+    toc.push({title: chapter.title, level: 0, pageIndex: writer.currentPageIndex()});
+    drawCentered(chapterPage, chapter.title, PAGE_HEIGHT * 0.6, fonts.bodyBold, 28, ACCENT_COLOR);
+    drawCentered(
+      chapterPage,
+      `${chapter.stories.length} ${chapter.stories.length === 1 ? "story" : "stories"}`,
+      PAGE_HEIGHT * 0.6 - 30,
+      fonts.bodyItalic,
+      12,
+      MUTED_COLOR
+    );
+
+    for (const story of chapter.stories) {
+      writer.newPage();
+      toc.push({title: story.title, level: 1, pageIndex: writer.currentPageIndex()});
+      writer.text(story.title, {font: fonts.bodyBold, size: 18, after: 2});
+      if (story.subtitle) writer.text(story.subtitle, {font: fonts.bodyItalic, size: 12, after: 2});
+      const meta = [
+        story.authorName ? `By ${story.authorName}` : "",
+        story.date ? formatBookDate(story.date) : "",
+        story.location || "",
+      ].filter(Boolean).join("  \u00b7  ");
+      if (meta) writer.text(meta, {font: fonts.sans, size: 9, color: MUTED_COLOR});
+      writer.y -= 10;
+
+      for (const content of getStoryContent(story)) {
+        switch (content.kind) {
+        case "paragraph":
+          writer.text(content.text);
+          break;
+        case "transcript":
+          writer.text("Transcript", {font: fonts.sansBold, size: 9, color: MUTED_COLOR, after: 2});
+          writer.text(content.text, {font: fonts.bodyItalic, indent: 12});
+          break;
+        case "note":
+          writer.text(content.text, {font: fonts.sans, size: 9, color: MUTED_COLOR});
+          break;
+        case "image": {
+          const bytes = options.loadImage ? await options.loadImage(content.url) : null;
+          if (bytes) {
+            // Unsupported or corrupt images are left out rather than failing the whole book
+            await writer.image(bytes).catch(() => undefined);
+          }
+          break;
+        }
+        }
+      }
+
+      storiesDone++;
+      await options.onProgress?.(0.1 + 0.7 * (storiesDone / Math.max(storyCount, 1)), "Laying out stories");
+    }
+  }
+}
+
+function renderFamilyTree(doc: PDFDocument, fonts: BookFonts, rows: HistoryBookMember[][], toc: TocEntry[]) {
+  const pageWidth = PAGE_HEIGHT; // Landscape
+  const pageHeight = PAGE_WIDTH;
+  const perRow = Math.floor((pageWidth - CHART_MARGIN * 2 + CHART_GAP_X) / (CHART_BOX_WIDTH + CHART_GAP_X));
+  const top = pageHeight - CHART_MARGIN - 40;
+
+  // Generations wider than the page wrap onto extra lines
+  const lines = rows.flatMap((row) => {
+    const chunks: HistoryBookMember[][] = [];
+    for (let i = 0; i < row.length; i += perRow) chunks.push(row.slice(i, i + perRow));
+    return chunks;
+  });
+  const linesPerPage = Math.max(1, Math.floor((top - CHART_MARGIN + CHART_GAP_Y) / (CHART_BOX_HEIGHT + CHART_GAP_Y)));
+
+  const positions = new Map<string, {page: PDFPage; x: number; y: number}>();
+  let page: PDFPage | null = null;
+  lines.forEach((line, lineIndex) => {
+    if (lineIndex % linesPerPage === 0) {
+      page = doc.addPage([pageWidth, pageHeight]);
+      if (lineIndex === 0) toc.push({title: "Family Tree", level: 0, pageIndex: doc.getPageCount() - 1});
+      drawCentered(page, lineIndex === 0 ? "Family Tree" : "Family Tree (continued)",
+        pageHeight - CHART_MARGIN - 16, fonts.bodyBold, 18, ACCENT_COLOR);
+    }
+    const y = top - (lineIndex % linesPerPage) * (CHART_BOX_HEIGHT + CHART_GAP_Y) - CHART_BOX_HEIGHT;
+    const lineWidth = line.length * (CHART_BOX_WIDTH + CHART_GAP_X) - CHART_GAP_X;
+    line.forEach((member, index) => {
+      const x = (pageWidth - lineWidth) / 2 + index * (CHART_BOX_WIDTH + CHART_GAP_X);
+      page!.drawRectangle({
+        x, y, width: CHART_BOX_WIDTH, height: CHART_BOX_HEIGHT,
+        borderColor: ACCENT_COLOR, borderWidth: 0.75, color: rgb(1, 1, 1),
+      });
+      page!.drawText(truncateText(member.name, fonts.sansBold, 8, CHART_BOX_WIDTH - 8), {
+        x: x + 4, y: y + CHART_BOX_HEIGHT - 13, size: 8, font: fonts.sansBold, color: TEXT_COLOR,
+      });
+      page!.drawText(lifespan(member), {x: x + 4, y: y + 7, size: 7, font: fonts.sans, color: MUTED_COLOR});
+      positions.set(member.id, {page: page!, x, y});
+    });
+  });
+
+  // Connect children to parents drawn on the same page
+  rows.flat().forEach((member) => {
+    const child = positions.get(member.id)!;
+    member.parentIds.forEach((parentId) => {
+      const parent = positions.get(parentId);
+      if (!parent || parent.page !== child.page || parent.y <= child.y) return;
+      child.page.drawLine({
+        start: {x: child.x + CHART_BOX_WIDTH / 2, y: child.y + CHART_BOX_HEIGHT},
+        end: {x: parent.x + CHART_BOX_WIDTH / 2, y: parent.y},
+        thickness: 0.5,
+        color: MUTED_COLOR,
+      });
+    });
+  });
+}
+
+function renderTimeline(writer: PageWriter, fonts: BookFonts, timeline: HistoryBookTimelineEntry[], toc: TocEntry[]) {
+  writer.newPage();
+  toc.push({title: "Timeline", level: 0, pageIndex: writer.currentPageIndex()});
+  writer.text("Timeline", {font: fonts.bodyBold, size: 20, color: ACCENT_COLOR, after: 14});
+
+  const dateWidth = 96;
+  timeline.forEach((entry) => {
+    const lines = wrapText(entry.label, fonts.body, 10, CONTENT_WIDTH - dateWidth);
+    writer.ensureSpace(lines.length * 14 + 4);
+    writer.page.drawText(formatBookDate(entry.date), {
+      x: MARGIN, y: writer.y - 14, size: 9, font: fonts.sansBold, color: ACCENT_COLOR,
+    });
+    lines.forEach((line) => {
+      writer.y -= 14;
+      writer.page.drawText(line, {
+        x: MARGIN + dateWidth, y: writer.y, size: 10,
+        font: entry.kind === "story" ? fonts.bodyItalic : fonts.body, color: TEXT_COLOR,
+      });
+    });
+    writer.y -= 4;
+  });
+}
+
+function renderTableOfContents(doc: PDFDocument, fonts: BookFonts, toc: TocEntry[], tocPageCount: number) {
+  for (let pageNumber = 0; pageNumber < tocPageCount; pageNumber++) {
+    const page = doc.getPage(1 + pageNumber);
+    let y = PAGE_HEIGHT - MARGIN;
+    if (pageNumber === 0) {
+      page.drawText("Contents", {x: MARGIN, y: y - 20, size: 20, font: fonts.bodyBold, color: ACCENT_COLOR});
+      y -= 40;
+    }
+    toc.slice(pageNumber * TOC_ENTRIES_PER_PAGE, (pageNumber + 1) * TOC_ENTRIES_PER_PAGE).forEach((entry) => {
+      y -= 20;
+      const font = entry.level === 0 ? fonts.bodyBold : fonts.body;
+      const size = entry.level === 0 ? 12 : 10;
+      const indent = entry.level === 0 ? 0 : 14;
+      const number = String(entry.pageIndex + 1);
+      const numberWidth = font.widthOfTextAtSize(number, size);
+      page.drawText(truncateText(entry.title, font, size, CONTENT_WIDTH - indent - numberWidth - 16), {
+        x: MARGIN + indent, y, size, font, color: TEXT_COLOR,
+      });
+      page.drawText(number, {x: PAGE_WIDTH - MARGIN - numberWidth, y, size, font, color: TEXT_COLOR});
+    });
+  }
+}
+
+// MARK: - Book
+
+/**
+ * Renders the book. Images are fetched through `loadImage` so callers control where
+ * media comes from; PNG and JPEG images are supported.
+ */
+export async function renderHistoryBookPdf(
+  input: HistoryBookInput,
+  options: HistoryBookRenderOptions = {}
+): Promise<{pdf: Uint8Array; pageCount: number}> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(toPdfSafeText(input.title));
+  doc.setCreator("Dynasty");
+  const fonts: BookFonts = {
+    body: await doc.embedFont(StandardFonts.TimesRoman),
+    bodyBold: await doc.embedFont(StandardFonts.TimesRomanBold),
+    bodyItalic: await doc.embedFont(StandardFonts.TimesRomanItalic),
+    sans: await doc.embedFont(StandardFonts.Helvetica),
+    sansBold: await doc.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  // Cover
+  const writer = new PageWriter(doc, fonts);
+  const cover = writer.page;
+  cover.drawRectangle({x: 0, y: PAGE_HEIGHT - 12, width: PAGE_WIDTH, height: 12, color: ACCENT_COLOR});
+  wrapText(input.title, fonts.bodyBold, 30, CONTENT_WIDTH).forEach((line, index) => {
+    drawCentered(cover, line, PAGE_HEIGHT * 0.62 - index * 36, fonts.bodyBold, 30, ACCENT_COLOR);
+  });
+  if (input.subtitle) {
+    drawCentered(cover, input.subtitle, PAGE_HEIGHT * 0.62 - 60, fonts.bodyItalic, 14, MUTED_COLOR);
+  }
+  drawCentered(cover, "A Dynasty History Book", MARGIN, fonts.sans, 9, MUTED_COLOR);
+
+  // Reserve table of contents pages; they are filled in once page numbers are known
+  const tocEntryCount = input.chapters.reduce((total, chapter) => total + 1 + chapter.stories.length, 0) +
+    (input.familyTree?.length ? 1 : 0) +
+    (input.timeline?.length ? 1 : 0);
+  const tocPageCount = Math.max(1, Math.ceil(tocEntryCount / TOC_ENTRIES_PER_PAGE));
+  for (let i = 0; i < tocPageCount; i++) writer.newPage();
+
+  const toc: TocEntry[] = [];
+  await options.onProgress?.(0.1, "Laying out stories");
+  await renderChapters(writer, fonts, input, toc, options);
+
+  if (input.familyTree?.length) {
+    await options.onProgress?.(0.85, "Drawing family tree");
+    renderFamilyTree(doc, fonts, input.familyTree, toc);
+  }
+  if (input.timeline?.length) {
+    await options.onProgress?.(0.9, "Building timeline");
+    renderTimeline(writer, fonts, input.timeline, toc);
+  }
+
+  await options.onProgress?.(0.95, "Finishing");
+  renderTableOfContents(doc, fonts, toc, tocPageCount);
+  doc.getPages().forEach((page, index) => {
+    if (index === 0) return;
+    drawCentered(page, String(index + 1), MARGIN / 2, fonts.sans, 9, MUTED_COLOR);
+  });
+
+  return {pdf: await doc.save(), pageCount: doc.getPageCount()};
+}
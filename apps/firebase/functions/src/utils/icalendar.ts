@@ -0,0 +1,261 @@
+/**
+ * iCalendar (RFC 5545) utilities for subscribable event feeds
+ * Times are converted from the event's IANA timezone to UTC so no VTIMEZONE
+ * components are needed; all-day events use VALUE=DATE.
+ */
+
+// MARK: - Types
+
+export type ICalRsvpStatus = "pending" | "accepted" | "declined" | "maybe";
+
+export interface ICalDayTimes {
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+export interface ICalFeedEvent {
+  id: string;
+  title: string;
+  description?: string | null;
+  eventDate: string; // YYYY-MM-DD
+  endDate?: string | null; // YYYY-MM-DD
+  startTime?: string | null; // HH:mm
+  endTime?: string | null; // HH:mm
+  timezone?: string | null;
+  daySpecificTimes?: Record<string, ICalDayTimes> | null;
+  location?: {address: string} | null;
+  isVirtual?: boolean;
+  virtualLink?: string | null;
+  status?: "active" | "cancelled" | null;
+  hostName?: string;
+  url?: string;
+  updatedAt?: Date | null;
+}
+
+export interface ICalAttendee {
+  email: string;
+  name?: string;
+}
+
+export interface ICalFeedOptions {
+  name: string;
+  attendee?: ICalAttendee;
+  // Maps event IDs to the subscriber's RSVP status
+  rsvpStatuses?: Record<string, ICalRsvpStatus>;
+  generatedAt?: Date;
+}
+
+// MARK: - Constants
+
+const ICAL_PRODID = "-//Dynasty//Family Events//EN";
+const ICAL_UID_DOMAIN = "mydynastyapp.com";
+const ICAL_LINE_LIMIT = 75;
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PARTSTAT_BY_RSVP: Record<ICalRsvpStatus, string> = {
+  pending: "NEEDS-ACTION",
+  accepted: "ACCEPTED",
+  declined: "DECLINED",
+  maybe: "TENTATIVE",
+};
+
+// MARK: - Date Helpers
+
+/**
+ * Offset of a timezone from UTC at the given instant, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value || 0);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converts a wall clock date and time in an IANA timezone to a UTC instant.
+ * Unknown timezones fall back to UTC.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone?: string | null): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+  if (!timeZone) return new Date(wallClock);
+
+  try {
+    const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+    // Re-check the offset at the candidate instant to handle DST transitions
+    const adjustedOffset = getTimeZoneOffset(new Date(wallClock - offset), timeZone);
+    return new Date(wallClock - adjustedOffset);
+  } catch {
+    return new Date(wallClock);
+  }
+}
+
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().substring(0, 10);
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatDateValue(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+// MARK: - Formatting Helpers
+
+/**
+ * Escapes TEXT property values (RFC 5545 section 3.3.11)
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function escapeParamValue(value: string): string {
+  const cleaned = value.replace(/["\r\n]/g, "");
+  return /[;:,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Folds a content line at 75 octets without splitting multi-byte characters
+ */
+export function foldICalLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, "utf8");
+    const limit = chunks.length === 0 ? ICAL_LINE_LIMIT : ICAL_LINE_LIMIT - 1;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+// MARK: - Feed Builder
+
+interface EventOccurrence {
+  uid: string;
+  start: string;
+  end: string;
+}
+
+/**
+ * Splits an event into calendar occurrences. Multi-day events with day specific
+ * times become one VEVENT per day, other events a single VEVENT.
+ */
+function getEventOccurrences(event: ICalFeedEvent): EventOccurrence[] {
+  const lastDate = event.endDate && event.endDate > event.eventDate ? event.endDate : event.eventDate;
+  const baseUid = `${event.id}@${ICAL_UID_DOMAIN}`;
+
+  const timed = (uid: string, startDate: string, startTime: string, endDate: string, endTime?: string | null) => {
+    const start = zonedTimeToUtc(startDate, startTime, event.timezone);
+    let end = endTime ? zonedTimeToUtc(endDate, endTime, event.timezone) : null;
+    if (!end || end <= start) {
+      end = new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS);
+    }
+    return {uid, start: `DTSTART:${formatUtcDateTime(start)}`, end: `DTEND:${formatUtcDateTime(end)}`};
+  };
+
+  const allDay = (uid: string, startDate: string, endDate: string) => ({
+    uid,
+    start: `DTSTART;VALUE=DATE:${formatDateValue(startDate)}`,
+    end: `DTEND;VALUE=DATE:${formatDateValue(addDays(endDate, 1))}`,
+  });
+
+  if (event.daySpecificTimes && Object.keys(event.daySpecificTimes).length > 0 && lastDate !== event.eventDate) {
+    const occurrences: EventOccurrence[] = [];
+    for (let date = event.eventDate; date <= lastDate; date = addDays(date, 1)) {
+      const times = event.daySpecificTimes[date];
+      const startTime = times?.startTime || event.startTime;
+      const endTime = times?.endTime || event.endTime;
+      const uid = `${event.id}-${formatDateValue(date)}@${ICAL_UID_DOMAIN}`;
+      occurrences.push(startTime ? timed(uid, date, startTime, date, endTime) : allDay(uid, date, date));
+    }
+    return occurrences;
+  }
+
+  if (event.startTime) {
+    return [timed(baseUid, event.eventDate, event.startTime, lastDate, event.endTime)];
+  }
+  return [allDay(baseUid, event.eventDate, lastDate)];
+}
+
+function buildEventDescription(event: ICalFeedEvent): string {
+  const lines: string[] = [];
+  if (event.description) lines.push(event.description);
+  if (event.hostName) lines.push(`Hosted by ${event.hostName}`);
+  if (event.isVirtual && event.virtualLink) lines.push(`Join online: ${event.virtualLink}`);
+  if (event.url) lines.push(event.url);
+  return lines.join("\n\n");
+}
+
+/**
+ * Builds a complete VCALENDAR document for a subscriber's events
+ */
+export function buildICalendarFeed(events: ICalFeedEvent[], options: ICalFeedOptions): string {
+  const dtstamp = formatUtcDateTime(options.generatedAt || new Date());
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICAL_PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICalText(options.name)}`,
+    "X-PUBLISHED-TTL:PT1H",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+  ];
+
+  events.forEach((event) => {
+    const description = buildEventDescription(event);
+    const location = event.location?.address || (event.isVirtual ? event.virtualLink : undefined);
+    const rsvpStatus = options.rsvpStatuses?.[event.id];
+
+    getEventOccurrences(event).forEach((occurrence) => {
+      lines.push("BEGIN:VEVENT");
+      lines.push(`UID:${occurrence.uid}`);
+      lines.push(`DTSTAMP:${dtstamp}`);
+      lines.push(occurrence.start);
+      lines.push(occurrence.end);
+      lines.push(`SUMMARY:${escapeICalText(event.title)}`);
+      if (description) lines.push(`DESCRIPTION:${escapeICalText(description)}`);
+      if (location) lines.push(`LOCATION:${escapeICalText(location)}`);
+      if (event.url) lines.push(`URL:${event.url}`);
+      lines.push(`STATUS:${event.status === "cancelled" ? "CANCELLED" : "CONFIRMED"}`);
+      if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.updatedAt)}`);
+      if (options.attendee) {
+        const cn = options.attendee.name ? `;CN=${escapeParamValue(options.attendee.name)}` : "";
+        const partstat = PARTSTAT_BY_RSVP[rsvpStatus || "pending"];
+        lines.push(`ATTENDEE${cn};PARTSTAT=${partstat}:mailto:${options.attendee.email}`);
+      }
+      lines.push("END:VEVENT");
+    });
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
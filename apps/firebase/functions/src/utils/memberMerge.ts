@@ -0,0 +1,206 @@
+/**
+ * Helpers for finding and merging duplicate family tree members
+ * Duplicates usually appear when two relatives each add the same person (e.g. both
+ * invite grandma). Candidates are found by name similarity and birth date; merges
+ * combine profile fields, asking for a choice when both records disagree.
+ */
+
+import {normalizeSearchText} from "./searchHelpers";
+
+// MARK: - Types
+
+export interface DuplicateMemberSummary {
+  id: string;
+  firstName?: string;
+  lastName?: string;
+  displayName?: string;
+  dateOfBirth?: Date | null;
+  hasAccount: boolean;
+  relatedIds: string[]; // Parents, children and spouses
+}
+
+export type DuplicateReason =
+  | "same_name"
+  | "similar_name"
+  | "same_birth_date"
+  | "same_birth_year"
+  | "no_birth_date";
+
+export interface DuplicateCandidate {
+  memberIds: [string, string];
+  names: [string, string];
+  score: number; // 0-1, higher is more likely the same person
+  reasons: DuplicateReason[];
+}
+
+export type MergeFieldChoice = "source" | "target";
+
+export interface ProfileMergeConflict {
+  field: string;
+  sourceValue: unknown;
+  targetValue: unknown;
+}
+
+// MARK: - Constants
+
+// Profile fields combined when merging; relationship fields are merged separately
+export const MERGEABLE_PROFILE_FIELDS = [
+  "firstName",
+  "lastName",
+  "displayName",
+  "gender",
+  "dateOfBirth",
+  "dateOfDeath",
+  "birthDateText",
+  "deathDateText",
+  "placeOfBirth",
+  "placeOfDeath",
+  "isDeceased",
+  "email",
+  "phoneNumber",
+  "bio",
+  "profilePicture",
+  "notes",
+] as const;
+
+export const DUPLICATE_MIN_SCORE = 0.6;
+
+const SIMILAR_NAME_THRESHOLD = 0.8;
+
+// MARK: - Helpers
+
+function memberName(member: DuplicateMemberSummary): string {
+  return member.displayName || `${member.firstName || ""} ${member.lastName || ""}`.trim();
+}
+
+function memberNameKey(member: DuplicateMemberSummary): string {
+  const fullName = member.firstName || member.lastName ?
+    `${member.firstName || ""} ${member.lastName || ""}` :
+    member.displayName || "";
+  return normalizeSearchText(fullName);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({length: b.length + 1}, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Scores how alike two normalized names are, ignoring word order
+ */
+export function nameSimilarity(first: string, second: string): number {
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+  const sortWords = (name: string) => name.split(" ").sort().join(" ");
+  if (sortWords(first) === sortWords(second)) return 1;
+  return 1 - levenshtein(first, second) / Math.max(first.length, second.length);
+}
+
+function toComparable(value: unknown): unknown {
+  if (value && typeof (value as any).toDate === "function") return (value as any).toDate().getTime();
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string") return value.trim();
+  return value;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+// MARK: - Duplicate Detection
+
+/**
+ * Finds pairs of members that are likely the same person. Pairs with clashing birth
+ * years, pairs that are directly related, and pairs where both have accounts are skipped.
+ * @returns Candidates ordered from most to least likely
+ */
+export function findDuplicateCandidates(members: DuplicateMemberSummary[]): DuplicateCandidate[] {
+  const candidates: DuplicateCandidate[] = [];
+  const keys = members.map(memberNameKey);
+
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const first = members[i];
+      const second = members[j];
+      if (first.hasAccount && second.hasAccount) continue;
+      if (first.relatedIds.includes(second.id) || second.relatedIds.includes(first.id)) continue;
+
+      const similarity = nameSimilarity(keys[i], keys[j]);
+      if (similarity < SIMILAR_NAME_THRESHOLD) continue;
+
+      const reasons: DuplicateReason[] = [similarity === 1 ? "same_name" : "similar_name"];
+      let score = similarity * 0.7;
+
+      const firstBirth = first.dateOfBirth;
+      const secondBirth = second.dateOfBirth;
+      if (firstBirth && secondBirth) {
+        if (firstBirth.getUTCFullYear() !== secondBirth.getUTCFullYear()) continue;
+        if (firstBirth.toISOString().slice(0, 10) === secondBirth.toISOString().slice(0, 10)) {
+          reasons.push("same_birth_date");
+          score += 0.3;
+        } else {
+          reasons.push("same_birth_year");
+          score += 0.15;
+        }
+      } else {
+        reasons.push("no_birth_date");
+      }
+
+      if (score < DUPLICATE_MIN_SCORE) continue;
+      candidates.push({
+        memberIds: [first.id, second.id],
+        names: [memberName(first), memberName(second)],
+        score: Math.round(score * 100) / 100,
+        reasons,
+      });
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+// MARK: - Profile Merging
+
+/**
+ * Works out which profile fields the surviving (target) member takes from the merged
+ * (source) member. Fields only the source has are copied; fields both have with
+ * different values are conflicts, kept from the target unless `choices` picks the source.
+ * @returns The target updates and the conflicts that were found
+ */
+export function planProfileMerge(
+  source: Record<string, any>,
+  target: Record<string, any>,
+  choices: Record<string, MergeFieldChoice> = {}
+): {updates: Record<string, unknown>; conflicts: ProfileMergeConflict[]} {
+  const updates: Record<string, unknown> = {};
+  const conflicts: ProfileMergeConflict[] = [];
+
+  MERGEABLE_PROFILE_FIELDS.forEach((field) => {
+    const sourceValue = source[field];
+    const targetValue = target[field];
+    if (isEmpty(sourceValue)) return;
+    if (isEmpty(targetValue)) {
+      updates[field] = sourceValue;
+      return;
+    }
+    if (toComparable(sourceValue) === toComparable(targetValue)) return;
+
+    conflicts.push({field, sourceValue, targetValue});
+    if (choices[field] === "source") {
+      updates[field] = sourceValue;
+    }
+  });
+
+  return {updates, conflicts};
+}
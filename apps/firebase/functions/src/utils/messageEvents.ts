@@ -0,0 +1,99 @@
+/**
+ * Chat message events
+ * Reactions, edits and deletions are end-to-end encrypted messages of their own that
+ * point at the message they change. The server can't read them, but it knows the event
+ * type and target, so it enforces who may change a message and keeps notifications quiet.
+ */
+
+import {CollectionReference, FieldValue} from "firebase-admin/firestore";
+
+// MARK: - Types
+
+export const MESSAGE_EVENT_TYPES = ["reaction", "edit", "delete"] as const;
+
+export type MessageEventType = typeof MESSAGE_EVENT_TYPES[number];
+
+export interface MessageEventTarget {
+  senderId: string;
+  deletedForEveryone?: boolean;
+}
+
+// MARK: - Validation
+
+export function isMessageEventType(type: unknown): type is MessageEventType {
+  return MESSAGE_EVENT_TYPES.includes(type as MessageEventType);
+}
+
+/**
+ * Checks whether an event may change its target. Anyone in the chat can react, but only
+ * the author can edit or delete, and a deleted message can't change any more.
+ * @returns why the event isn't allowed, or null if it is
+ */
+export function getMessageEventError(
+  type: MessageEventType,
+  senderId: string,
+  target: MessageEventTarget | undefined
+): string | null {
+  if (!target) {
+    return "Message not found";
+  }
+  if (target.deletedForEveryone) {
+    return "Message was deleted";
+  }
+  if (type !== "reaction" && target.senderId !== senderId) {
+    return "Only the sender can change this message";
+  }
+  return null;
+}
+
+// MARK: - Notifications
+
+/**
+ * Notification text for an event. Only reactions notify, and only the author of the
+ * message reacted to; edits and deletions are silent.
+ */
+export function getMessageEventNotificationBody(type: MessageEventType): string | null {
+  return type === "reaction" ? "Reacted to your message" : null;
+}
+
+// MARK: - Applying Events
+
+/**
+ * Records what the server can see of an event on its target. A deletion drops the
+ * target's ciphertext and attachment reference so it's gone for everyone, including
+ * devices that haven't decrypted it yet.
+ * @returns the target's sender, or null if the event isn't allowed
+ */
+export async function applyMessageEvent(
+  messagesRef: CollectionReference,
+  event: {type: MessageEventType; senderId: string; targetMessageId?: string}
+): Promise<{targetSenderId: string} | null> {
+  if (!event.targetMessageId) {
+    return null;
+  }
+
+  const targetRef = messagesRef.doc(event.targetMessageId);
+  const targetDoc = await targetRef.get();
+  const target = targetDoc.data() as MessageEventTarget | undefined;
+  if (getMessageEventError(event.type, event.senderId, target)) {
+    return null;
+  }
+
+  if (event.type === "delete") {
+    await targetRef.update({
+      deletedForEveryone: true,
+      deletedAt: FieldValue.serverTimestamp(),
+      signalMetadata: FieldValue.delete(),
+      encryptedMetadata: FieldValue.delete(),
+      encryptedContent: FieldValue.delete(),
+      media: FieldValue.delete(),
+      text: FieldValue.delete(),
+      mediaUrls: FieldValue.delete(),
+      reactions: FieldValue.delete(),
+    });
+  } else if (event.type === "edit") {
+    await targetRef.update({editedAt: FieldValue.serverTimestamp()});
+  }
+
+  return {targetSenderId: target!.senderId};
+}
@@ -0,0 +1,239 @@
+/**
+ * Recurring event utilities (RFC 5545 RRULE with EXDATE exceptions)
+ * Series are stored once with their first occurrence in eventDate; occurrences are
+ * expanded on read. Dates are floating YYYY-MM-DD values evaluated in UTC so that
+ * server and client timezones never shift an occurrence to a neighbouring day.
+ */
+
+import {RRule, Frequency, Options} from "rrule";
+import {createError, ErrorCode} from "./errors";
+
+// MARK: - Types
+
+export interface EventRecurrence {
+  rrule: string; // RRULE value without the "RRULE:" prefix, e.g. "FREQ=WEEKLY;BYDAY=SU"
+  exdates?: string[]; // YYYY-MM-DD occurrences removed from the series
+}
+
+// Fields that can be changed for a single occurrence ("this event" edits)
+export interface EventOccurrenceOverride {
+  eventDate?: string; // Rescheduled date for this occurrence
+  endDate?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  title?: string;
+  description?: string;
+  location?: {address: string; lat?: number; lng?: number} | null;
+  isVirtual?: boolean;
+  virtualLink?: string | null;
+  status?: "active" | "cancelled" | null;
+}
+
+export type RecurrenceEditScope = "this" | "following" | "all";
+
+interface RecurringEventFields {
+  eventDate: string;
+  endDate?: string | null;
+  daySpecificTimes?: Record<string, unknown> | null;
+  recurrence?: EventRecurrence | null;
+  recurrenceOverrides?: Record<string, EventOccurrenceOverride> | null;
+}
+
+// MARK: - Constants
+
+// Stored as recurrenceEndDate for series without COUNT or UNTIL so range queries still match
+export const OPEN_ENDED_RECURRENCE_END = "9999-12-31";
+export const MAX_OCCURRENCES_PER_EXPANSION = 366;
+const MAX_EXDATES = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// MARK: - Date Helpers
+
+function toUtcDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+export function addDaysToDate(date: string, days: number): string {
+  return toDateString(new Date(toUtcDate(date).getTime() + days * DAY_MS));
+}
+
+function daysBetween(start: string, end: string): number {
+  return Math.round((toUtcDate(end).getTime() - toUtcDate(start).getTime()) / DAY_MS);
+}
+
+// MARK: - Rule Parsing
+
+function buildRule(eventDate: string, rule: string, overrides: Partial<Options> = {}): RRule {
+  return new RRule({...RRule.parseString(rule), ...overrides, dtstart: toUtcDate(eventDate)});
+}
+
+function ruleToString(options: Partial<Options>): string {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const {dtstart, ...rest} = options;
+  return RRule.optionsToString(rest).replace(/^RRULE:/, "");
+}
+
+/**
+ * Validates a client supplied recurrence and returns it in canonical form.
+ * Sub-daily frequencies are rejected since events are scheduled by date.
+ */
+export function normalizeRecurrence(recurrence: unknown, eventDate: string): EventRecurrence {
+  if (!recurrence || typeof recurrence !== "object" || typeof (recurrence as EventRecurrence).rrule !== "string") {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Recurrence must include an RRULE");
+  }
+
+  const {rrule, exdates} = recurrence as EventRecurrence;
+  const rule = rrule.trim().replace(/^RRULE:/i, "").toUpperCase();
+  if (!rule || rule.length > 500 || /[:\r\n]/.test(rule)) {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Invalid recurrence rule");
+  }
+
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(rule);
+  } catch {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Invalid recurrence rule");
+  }
+
+  if (typeof options.freq !== "number" || options.freq > Frequency.DAILY) {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Recurrence must repeat daily, weekly, monthly or yearly");
+  }
+  if (options.count !== undefined && options.count !== null && options.count < 1) {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Recurrence count must be at least 1");
+  }
+  if (options.until && toDateString(options.until) < eventDate) {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Recurrence end date cannot be before the event date");
+  }
+
+  if (exdates !== undefined && !Array.isArray(exdates)) {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Recurrence exceptions must be a list of dates");
+  }
+  const normalizedExdates = Array.from(new Set(exdates || [])).sort();
+  if (normalizedExdates.length > MAX_EXDATES || normalizedExdates.some((date) => !DATE_REGEX.test(date))) {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Recurrence exceptions must be YYYY-MM-DD dates");
+  }
+
+  return normalizedExdates.length > 0 ?
+    {rrule: ruleToString(options), exdates: normalizedExdates} :
+    {rrule: ruleToString(options)};
+}
+
+/**
+ * Date of the last occurrence, used to query series that are still running
+ */
+export function getRecurrenceEndDate(eventDate: string, recurrence: EventRecurrence): string {
+  const rule = buildRule(eventDate, recurrence.rrule);
+  if (rule.options.until) {
+    return toDateString(rule.options.until);
+  }
+  if (rule.options.count) {
+    const last = rule.all((_, index) => index < rule.options.count!).pop();
+    return last ? toDateString(last) : eventDate;
+  }
+  return OPEN_ENDED_RECURRENCE_END;
+}
+
+// MARK: - Expansion
+
+/**
+ * Lists occurrence dates between rangeStart and rangeEnd (inclusive), skipping EXDATEs
+ */
+export function expandOccurrenceDates(
+  eventDate: string,
+  recurrence: EventRecurrence,
+  rangeStart: string,
+  rangeEnd: string,
+  limit = MAX_OCCURRENCES_PER_EXPANSION
+): string[] {
+  if (rangeEnd < rangeStart) return [];
+
+  const exdates = new Set(recurrence.exdates || []);
+  const dates: string[] = [];
+  buildRule(eventDate, recurrence.rrule).between(toUtcDate(rangeStart), toUtcDate(rangeEnd), true, (date) => {
+    const value = toDateString(date);
+    if (!exdates.has(value)) dates.push(value);
+    return dates.length < limit;
+  });
+  return dates;
+}
+
+/**
+ * Whether a date is a (non excluded) occurrence of the series
+ */
+export function isOccurrenceDate(eventDate: string, recurrence: EventRecurrence, date: string): boolean {
+  return DATE_REGEX.test(date) && expandOccurrenceDates(eventDate, recurrence, date, date, 1).length === 1;
+}
+
+/**
+ * Expands a recurring event into concrete occurrences within a date range.
+ * Each occurrence keeps the series fields, applies its override and carries the
+ * original occurrence date in occurrenceDate (used for RSVPs and edits).
+ */
+export function expandEventOccurrences<T extends RecurringEventFields>(
+  event: T,
+  rangeStart: string,
+  rangeEnd: string,
+  limit = MAX_OCCURRENCES_PER_EXPANSION
+): Array<T & {occurrenceDate: string}> {
+  if (!event.recurrence) {
+    return [];
+  }
+
+  const durationDays = event.endDate && event.endDate > event.eventDate ? daysBetween(event.eventDate, event.endDate) : 0;
+
+  return expandOccurrenceDates(event.eventDate, event.recurrence, rangeStart, rangeEnd, limit).map((date) => {
+    const offset = daysBetween(event.eventDate, date);
+    const daySpecificTimes = event.daySpecificTimes ?
+      Object.fromEntries(
+        Object.entries(event.daySpecificTimes).map(([day, times]) => [addDaysToDate(day, offset), times])
+      ) :
+      event.daySpecificTimes;
+
+    return {
+      ...event,
+      endDate: durationDays > 0 ? addDaysToDate(date, durationDays) : event.endDate,
+      daySpecificTimes,
+      ...(event.recurrenceOverrides?.[date] || {}),
+      eventDate: event.recurrenceOverrides?.[date]?.eventDate || date,
+      occurrenceDate: date,
+    };
+  });
+}
+
+// MARK: - Series Splitting
+
+/**
+ * Splits a series at an occurrence for "this and following" edits. The original
+ * series ends the day before splitDate; the returned remainder starts at splitDate
+ * and keeps the rule, adjusting COUNT for occurrences already used.
+ */
+export function splitRecurrence(
+  eventDate: string,
+  recurrence: EventRecurrence,
+  splitDate: string
+): {before: EventRecurrence; after: EventRecurrence} {
+  const options = buildRule(eventDate, recurrence.rrule).origOptions;
+  const exdates = recurrence.exdates || [];
+  const withExdates = (rule: string, dates: string[]): EventRecurrence =>
+    dates.length > 0 ? {rrule: rule, exdates: dates} : {rrule: rule};
+
+  const beforeOptions: Partial<Options> = {...options, count: undefined, until: toUtcDate(addDaysToDate(splitDate, -1))};
+  const afterOptions: Partial<Options> = {...options};
+  if (options.count) {
+    // COUNT includes excluded occurrences (RFC 5545 section 3.8.5.1)
+    const used = buildRule(eventDate, recurrence.rrule, {count: undefined})
+      .between(toUtcDate(eventDate), toUtcDate(addDaysToDate(splitDate, -1)), true).length;
+    afterOptions.count = Math.max(options.count - used, 1);
+  }
+
+  return {
+    before: withExdates(ruleToString(beforeOptions), exdates.filter((date) => date < splitDate)),
+    after: withExdates(ruleToString(afterOptions), exdates.filter((date) => date >= splitDate)),
+  };
+}
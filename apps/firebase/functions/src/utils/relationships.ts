@@ -0,0 +1,392 @@
+/**
+ * Relationship calculator for family tree members
+ * Works from the parent/child/spouse maps built for the family tree and names the
+ * relationship of one member to another in plain language, e.g. "second cousin once
+ * removed", "great-aunt", "step-brother" or "brother-in-law".
+ */
+
+// MARK: - Types
+
+export type RelationshipGender = "male" | "female" | "other";
+
+export type ParentLinkType = typeof PARENT_LINK_TYPES[number];
+
+export type SpouseStatus = typeof SPOUSE_STATUSES[number];
+
+/**
+ * Details of a marriage or partnership, stored on both partners keyed by the other's ID
+ */
+export interface SpouseRelationship {
+  status: SpouseStatus;
+  startDate?: string | null; // YYYY-MM-DD
+  endDate?: string | null; // YYYY-MM-DD
+}
+
+/**
+ * Parent, child and spouse lookups for a family tree, keyed by member ID.
+ * Parent links missing from `parentLinkTypes` are biological and spouses missing
+ * from `spouseRelationships` are married.
+ */
+export interface RelationshipGraph {
+  childToParentsMap: Map<string, Set<string>>;
+  parentToChildrenMap: Map<string, Set<string>>;
+  personToSpousesMap: Map<string, Set<string>>;
+  parentLinkTypes?: Map<string, Map<string, ParentLinkType>>; // child ID -> parent ID -> link type
+  spouseRelationships?: Map<string, Map<string, SpouseRelationship>>;
+}
+
+export type RelationshipStepType = "self" | "parent" | "child" | "spouse";
+
+export interface RelationshipPathStep {
+  id: string;
+  relation: RelationshipStepType; // How this member relates to the previous step
+}
+
+export interface RelationshipResult {
+  relationship: string; // What the second member is to the first
+  isBloodRelated: boolean;
+  path: RelationshipPathStep[];
+}
+
+interface BloodRelation {
+  up: number; // Generations from the first member up to the common ancestor
+  down: number; // Generations from the common ancestor down to the second member
+  path: RelationshipPathStep[];
+}
+
+// MARK: - Constants
+
+export const PARENT_LINK_TYPES = ["biological", "adoptive", "step", "foster", "guardian"] as const;
+export const SPOUSE_STATUSES = ["married", "divorced", "widowed", "partner"] as const;
+
+// Adopted children carry the family line like biological children; step, foster and
+// guardian links do not
+const LINEAGE_PARENT_LINK_TYPES: ParentLinkType[] = ["biological", "adoptive"];
+
+const MAX_GENERATIONS = 10;
+const MAX_PATH_LENGTH = 20;
+
+const TERMS: Record<string, Record<RelationshipGender, string>> = {
+  parent: {male: "father", female: "mother", other: "parent"},
+  child: {male: "son", female: "daughter", other: "child"},
+  sibling: {male: "brother", female: "sister", other: "sibling"},
+  spouse: {male: "husband", female: "wife", other: "spouse"},
+  auntUncle: {male: "uncle", female: "aunt", other: "aunt/uncle"},
+  nieceNephew: {male: "nephew", female: "niece", other: "niece/nephew"},
+};
+
+const NON_LINEAGE_PARENT_TERMS: Record<string, Record<RelationshipGender, string>> = {
+  step: {male: "step-father", female: "step-mother", other: "step-parent"},
+  foster: {male: "foster father", female: "foster mother", other: "foster parent"},
+  guardian: {male: "guardian", female: "guardian", other: "guardian"},
+};
+
+const NON_LINEAGE_CHILD_TERMS: Record<string, Record<RelationshipGender, string>> = {
+  step: {male: "step-son", female: "step-daughter", other: "step-child"},
+  foster: {male: "foster son", female: "foster daughter", other: "foster child"},
+  guardian: {male: "ward", female: "ward", other: "ward"},
+};
+
+const ORDINALS = ["first", "second", "third", "fourth", "fifth", "sixth", "seventh", "eighth", "ninth"];
+
+// MARK: - Helpers
+
+function getRelatives(map: Map<string, Set<string>>, id: string): string[] {
+  return Array.from(map.get(id) || []);
+}
+
+/**
+ * Returns how a child is linked to a parent, defaulting to biological
+ */
+export function getParentLinkType(graph: RelationshipGraph, childId: string, parentId: string): ParentLinkType {
+  return graph.parentLinkTypes?.get(childId)?.get(parentId) || "biological";
+}
+
+/**
+ * Returns true if the parent link carries the family line (biological or adoptive)
+ */
+export function isLineageParentLink(type: ParentLinkType): boolean {
+  return LINEAGE_PARENT_LINK_TYPES.includes(type);
+}
+
+function getLineageParents(graph: RelationshipGraph, childId: string): string[] {
+  return getRelatives(graph.childToParentsMap, childId)
+    .filter((parentId) => isLineageParentLink(getParentLinkType(graph, childId, parentId)));
+}
+
+function describeCousin(degree: number, removed: number): string {
+  const ordinal = ORDINALS[degree - 1] || `${degree}th`;
+  if (removed === 0) return `${ordinal} cousin`;
+  const times = removed === 1 ? "once" : removed === 2 ? "twice" : `${removed} times`;
+  return `${ordinal} cousin ${times} removed`;
+}
+
+/**
+ * Walks up the tree from a member, recording the nearest route to each ancestor
+ */
+function getAncestors(
+  graph: RelationshipGraph,
+  startId: string
+): Map<string, {depth: number; childId: string | null}> {
+  const ancestors = new Map<string, {depth: number; childId: string | null}>([
+    [startId, {depth: 0, childId: null}],
+  ]);
+  const queue = [startId];
+
+  while (queue.length) {
+    const id = queue.shift()!;
+    const {depth} = ancestors.get(id)!;
+    if (depth >= MAX_GENERATIONS) continue;
+    for (const parentId of getLineageParents(graph, id)) {
+      if (ancestors.has(parentId)) continue;
+      ancestors.set(parentId, {depth: depth + 1, childId: id});
+      queue.push(parentId);
+    }
+  }
+
+  return ancestors;
+}
+
+function getLineage(
+  ancestors: Map<string, {depth: number; childId: string | null}>,
+  ancestorId: string
+): string[] {
+  const lineage: string[] = [];
+  let current: string | null = ancestorId;
+  while (current) {
+    lineage.push(current);
+    current = ancestors.get(current)!.childId;
+  }
+  return lineage.reverse(); // From the starting member up to the ancestor
+}
+
+/**
+ * Finds the closest common ancestor of two members, if they share one
+ */
+function findBloodRelation(graph: RelationshipGraph, fromId: string, toId: string): BloodRelation | null {
+  const fromAncestors = getAncestors(graph, fromId);
+  const toAncestors = getAncestors(graph, toId);
+
+  let best: {ancestorId: string; up: number; down: number} | null = null;
+  for (const [ancestorId, {depth: up}] of fromAncestors) {
+    const toEntry = toAncestors.get(ancestorId);
+    if (!toEntry) continue;
+    if (!best || up + toEntry.depth < best.up + best.down) {
+      best = {ancestorId, up, down: toEntry.depth};
+    }
+  }
+  if (!best) return null;
+
+  const {ancestorId, up, down} = best;
+  const upIds = getLineage(fromAncestors, ancestorId);
+  const downIds = getLineage(toAncestors, ancestorId).reverse().slice(1);
+  return {
+    up,
+    down,
+    path: [
+      ...upIds.map((id, index) => ({id, relation: (index === 0 ? "self" : "parent") as RelationshipStepType})),
+      ...downIds.map((id) => ({id, relation: "child" as RelationshipStepType})),
+    ],
+  };
+}
+
+function isHalfSibling(graph: RelationshipGraph, firstId: string, secondId: string): boolean {
+  const firstParents = getLineageParents(graph, firstId);
+  const secondParents = getLineageParents(graph, secondId);
+  const shared = firstParents.filter((id) => secondParents.includes(id)).length;
+  return shared < Math.max(firstParents.length, secondParents.length);
+}
+
+/**
+ * Finds any connection between two members through parents, children and spouses
+ */
+function findAnyPath(graph: RelationshipGraph, fromId: string, toId: string): RelationshipPathStep[] | null {
+  const previous = new Map<string, RelationshipPathStep & {from: string | null}>([
+    [fromId, {id: fromId, relation: "self", from: null}],
+  ]);
+  const queue: Array<{id: string; length: number}> = [{id: fromId, length: 0}];
+
+  while (queue.length) {
+    const {id, length} = queue.shift()!;
+    if (id === toId) break;
+    if (length >= MAX_PATH_LENGTH) continue;
+    const neighbours: Array<[string, RelationshipStepType]> = [
+      ...getRelatives(graph.childToParentsMap, id).map((nextId) => [nextId, "parent"] as [string, RelationshipStepType]),
+      ...getRelatives(graph.parentToChildrenMap, id).map((nextId) => [nextId, "child"] as [string, RelationshipStepType]),
+      ...getRelatives(graph.personToSpousesMap, id).map((nextId) => [nextId, "spouse"] as [string, RelationshipStepType]),
+    ];
+    for (const [nextId, relation] of neighbours) {
+      if (previous.has(nextId)) continue;
+      previous.set(nextId, {id: nextId, relation, from: id});
+      queue.push({id: nextId, length: length + 1});
+    }
+  }
+
+  if (!previous.has(toId)) return null;
+  const path: RelationshipPathStep[] = [];
+  let current: string | null = toId;
+  while (current) {
+    const step: RelationshipPathStep & {from: string | null} = previous.get(current)!;
+    path.unshift({id: step.id, relation: step.relation});
+    current = step.from;
+  }
+  return path;
+}
+
+// MARK: - Relationship Names
+
+/**
+ * Names a blood relationship from the number of generations each member is
+ * removed from their closest common ancestor
+ */
+export function describeBloodRelationship(
+  up: number,
+  down: number,
+  gender: RelationshipGender,
+  half = false
+): string {
+  const greats = (count: number) => "great-".repeat(Math.max(count, 0));
+
+  if (up === 0 && down === 0) return "self";
+  if (up === 0) return down === 1 ? TERMS.child[gender] : `${greats(down - 2)}grand${TERMS.child[gender]}`;
+  if (down === 0) return up === 1 ? TERMS.parent[gender] : `${greats(up - 2)}grand${TERMS.parent[gender]}`;
+  if (up === 1 && down === 1) return `${half ? "half-" : ""}${TERMS.sibling[gender]}`;
+  if (up === 1) return `${greats(down - 2)}${TERMS.nieceNephew[gender]}`;
+  if (down === 1) return `${greats(up - 2)}${TERMS.auntUncle[gender]}`;
+  return describeCousin(Math.min(up, down) - 1, Math.abs(up - down));
+}
+
+/**
+ * Works out what `toId` is to `fromId`. Blood relationships take priority, then
+ * step, foster and guardian links, spouses, in-laws and step-siblings. Members
+ * connected only through longer chains of marriages are described as relatives by marriage.
+ * @returns The relationship and the path through the tree, or null if the members are not connected
+ */
+export function calculateRelationship(
+  graph: RelationshipGraph,
+  genders: Map<string, RelationshipGender>,
+  fromId: string,
+  toId: string
+): RelationshipResult | null {
+  const gender = genders.get(toId) || "other";
+
+  const blood = findBloodRelation(graph, fromId, toId);
+  if (blood) {
+    const half = blood.up === 1 && blood.down === 1 && isHalfSibling(graph, fromId, toId);
+    let relationship = describeBloodRelationship(blood.up, blood.down, gender, half);
+    const isAdoptive =
+      (blood.up === 1 && blood.down === 0 && getParentLinkType(graph, fromId, toId) === "adoptive") ||
+      (blood.up === 0 && blood.down === 1 && getParentLinkType(graph, toId, fromId) === "adoptive");
+    if (isAdoptive) {
+      relationship = `adoptive ${relationship}`;
+    }
+    return {relationship, isBloodRelated: true, path: blood.path};
+  }
+
+  // Step, foster and guardian links between parent and child
+  if (getRelatives(graph.childToParentsMap, fromId).includes(toId)) {
+    return {
+      relationship: NON_LINEAGE_PARENT_TERMS[getParentLinkType(graph, fromId, toId)][gender],
+      isBloodRelated: false,
+      path: [{id: fromId, relation: "self"}, {id: toId, relation: "parent"}],
+    };
+  }
+  if (getRelatives(graph.childToParentsMap, toId).includes(fromId)) {
+    return {
+      relationship: NON_LINEAGE_CHILD_TERMS[getParentLinkType(graph, toId, fromId)][gender],
+      isBloodRelated: false,
+      path: [{id: fromId, relation: "self"}, {id: toId, relation: "child"}],
+    };
+  }
+
+  const fromSpouses = getRelatives(graph.personToSpousesMap, fromId);
+  if (fromSpouses.includes(toId)) {
+    const status = graph.spouseRelationships?.get(fromId)?.get(toId)?.status || "married";
+    let relationship = TERMS.spouse[gender];
+    if (status === "divorced") {
+      relationship = `ex-${relationship}`;
+    } else if (status === "partner") {
+      relationship = "partner";
+    }
+    return {
+      relationship,
+      isBloodRelated: false,
+      path: [{id: fromId, relation: "self"}, {id: toId, relation: "spouse"}],
+    };
+  }
+
+  // The second member is married to one of the first member's blood relatives
+  for (const spouseId of getRelatives(graph.personToSpousesMap, toId)) {
+    const relation = findBloodRelation(graph, fromId, spouseId);
+    if (!relation) continue;
+    const {up, down} = relation;
+    let relationship: string;
+    if (down === 0) {
+      relationship = `step-${describeBloodRelationship(up, down, gender)}`;
+    } else if ((up === 0 && down === 1) || (up === 1 && down === 1)) {
+      relationship = `${describeBloodRelationship(up, down, gender)}-in-law`;
+    } else {
+      relationship = `${describeBloodRelationship(up, down, gender)} by marriage`;
+    }
+    return {
+      relationship,
+      isBloodRelated: false,
+      path: [...relation.path, {id: toId, relation: "spouse"}],
+    };
+  }
+
+  // The second member is a blood relative of the first member's spouse
+  for (const spouseId of fromSpouses) {
+    const relation = findBloodRelation(graph, spouseId, toId);
+    if (!relation) continue;
+    const {up, down} = relation;
+    let relationship: string;
+    if (up === 0) {
+      relationship = `step-${describeBloodRelationship(up, down, gender)}`;
+    } else if (down === 0 || (up === 1 && down === 1)) {
+      relationship = `${describeBloodRelationship(up, down, gender)}-in-law`;
+    } else {
+      relationship = `${describeBloodRelationship(up, down, gender)} by marriage`;
+    }
+    return {
+      relationship,
+      isBloodRelated: false,
+      path: [{id: fromId, relation: "self"}, {id: spouseId, relation: "spouse"}, ...relation.path.slice(1)],
+    };
+  }
+
+  // Step and foster siblings share a parent without a common line
+  for (const parentId of getRelatives(graph.childToParentsMap, fromId)) {
+    if (getRelatives(graph.parentToChildrenMap, parentId).includes(toId)) {
+      const isFoster =
+        getParentLinkType(graph, fromId, parentId) === "foster" ||
+        getParentLinkType(graph, toId, parentId) === "foster";
+      return {
+        relationship: `${isFoster ? "foster " : "step-"}${TERMS.sibling[gender]}`,
+        isBloodRelated: false,
+        path: [
+          {id: fromId, relation: "self"},
+          {id: parentId, relation: "parent"},
+          {id: toId, relation: "child"},
+        ],
+      };
+    }
+    for (const stepParentId of getRelatives(graph.personToSpousesMap, parentId)) {
+      if (!getRelatives(graph.parentToChildrenMap, stepParentId).includes(toId)) continue;
+      return {
+        relationship: `step-${TERMS.sibling[gender]}`,
+        isBloodRelated: false,
+        path: [
+          {id: fromId, relation: "self"},
+          {id: parentId, relation: "parent"},
+          {id: stepParentId, relation: "spouse"},
+          {id: toId, relation: "child"},
+        ],
+      };
+    }
+  }
+
+  const path = findAnyPath(graph, fromId, toId);
+  if (!path) return null;
+  return {relationship: "relative by marriage", isBloodRelated: false, path};
+}
@@ -0,0 +1,213 @@
+/**
+ * Vault share link helpers
+ * Decides whether a share link can still be opened, how long a link is locked after
+ * repeated wrong passwords, what its public page shows, and what the owner sees about
+ * each access.
+ */
+
+// MARK: - Types
+
+export type ShareLinkStatus = "active" | "expired" | "exhausted" | "revoked";
+
+export type ShareLinkAccessOutcome =
+  | "granted"
+  | "invalid_password"
+  | "password_required"
+  | "locked"
+  | ShareLinkStatus;
+
+interface MillisTimestamp {
+  toMillis(): number;
+}
+
+export interface ShareLinkState {
+  expiresAt?: MillisTimestamp | null;
+  revokedAt?: MillisTimestamp | null;
+  accessCount: number;
+  maxAccessCount: number | null;
+  passwordHash?: string | null;
+  lockedUntil?: MillisTimestamp | null;
+  allowDownload?: boolean;
+}
+
+// Attempts turned away before a password is checked
+export type ShareLinkDenial = Exclude<ShareLinkAccessOutcome, "active" | "granted" | "invalid_password">;
+
+export interface SharedFile {
+  name: string;
+  mimeType?: string;
+  fileType?: string;
+  size?: number;
+  isEncrypted?: boolean;
+}
+
+export interface ShareLinkRequest {
+  ip?: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+// MARK: - Constants
+
+export const MAX_SHARE_LINK_ACCESS_COUNT = 1000;
+
+// Wrong passwords allowed before the link locks
+export const MAX_SHARE_PASSWORD_ATTEMPTS = 5;
+export const SHARE_PASSWORD_LOCKOUT_MS = 15 * 60 * 1000;
+export const MAX_SHARE_PASSWORD_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+// Headers set by the CDN or load balancer in front of the functions
+const COUNTRY_HEADERS = ["cf-ipcountry", "x-client-geo-country", "x-appengine-country"];
+
+// MARK: - Limits
+
+/**
+ * Resolves the access limit for a new link. One-time links allow a single access.
+ */
+export function resolveMaxAccessCount(options: {oneTime?: boolean; maxAccessCount?: number | null}): number | null {
+  if (options.oneTime) return 1;
+  return options.maxAccessCount ?? null;
+}
+
+/**
+ * Whether a link can still be opened, and if not, why
+ */
+export function getShareLinkStatus(link: ShareLinkState, now: number = Date.now()): ShareLinkStatus {
+  if (link.revokedAt) return "revoked";
+  if (link.expiresAt && link.expiresAt.toMillis() < now) return "expired";
+  if (link.maxAccessCount !== null && link.accessCount >= link.maxAccessCount) return "exhausted";
+  return "active";
+}
+
+/**
+ * Accesses left before the link is used up, or null for unlimited links
+ */
+export function getRemainingAccesses(link: ShareLinkState): number | null {
+  if (link.maxAccessCount === null) return null;
+  return Math.max(0, link.maxAccessCount - link.accessCount);
+}
+
+// MARK: - Brute-force protection
+
+/**
+ * How long to lock a link after this many consecutive wrong passwords. Every
+ * MAX_SHARE_PASSWORD_ATTEMPTS failures lock it again, twice as long as the last time.
+ * @returns Lockout in milliseconds, or 0 when this attempt doesn't lock the link
+ */
+export function getPasswordLockoutMs(failedAttempts: number): number {
+  if (failedAttempts < MAX_SHARE_PASSWORD_ATTEMPTS || failedAttempts % MAX_SHARE_PASSWORD_ATTEMPTS !== 0) {
+    return 0;
+  }
+  const lockouts = failedAttempts / MAX_SHARE_PASSWORD_ATTEMPTS;
+  return Math.min(SHARE_PASSWORD_LOCKOUT_MS * 2 ** (lockouts - 1), MAX_SHARE_PASSWORD_LOCKOUT_MS);
+}
+
+/**
+ * When a link locked by wrong passwords opens again
+ * @returns null if the link isn't locked
+ */
+export function getShareLinkLockedUntil(link: ShareLinkState, now: number = Date.now()): number | null {
+  const lockedUntil = link.lockedUntil?.toMillis() || null;
+  return lockedUntil && lockedUntil > now ? lockedUntil : null;
+}
+
+/**
+ * Why an attempt to open a link is turned away before any password is checked
+ * @returns null if the attempt can go on to the password check, if the link has one
+ */
+export function getShareLinkDenial(
+  link: ShareLinkState,
+  hasPassword: boolean,
+  now: number = Date.now()
+): ShareLinkDenial | null {
+  const status = getShareLinkStatus(link, now);
+  if (status !== "active") return status;
+  if (!link.passwordHash) return null;
+  if (getShareLinkLockedUntil(link, now)) return "locked";
+  if (!hasPassword) return "password_required";
+  return null;
+}
+
+// MARK: - Landing page
+
+/**
+ * What the public page of an active link without a password shows about its file
+ */
+export function getShareLinkInfo(link: ShareLinkState, item: SharedFile) {
+  return {
+    status: "active" as const,
+    requiresPassword: false,
+    fileName: item.name,
+    mimeType: item.mimeType || null,
+    fileType: item.fileType || "other",
+    size: item.size || 0,
+    isEncrypted: !!item.isEncrypted,
+    allowDownload: link.allowDownload !== false,
+    expiresAt: link.expiresAt?.toMillis() || null,
+    remainingAccesses: getRemainingAccesses(link),
+  };
+}
+
+/**
+ * What the public page of an active password-protected link shows. Nothing about the
+ * file; accessing the link with the password returns that.
+ */
+export function getPasswordShareLinkInfo(link: ShareLinkState, now: number = Date.now()) {
+  return {
+    status: "active" as const,
+    requiresPassword: true,
+    expiresAt: link.expiresAt?.toMillis() || null,
+    lockedUntil: getShareLinkLockedUntil(link, now),
+  };
+}
+
+// MARK: - Access log
+
+/**
+ * Drops the host part of an IP address so owners see roughly where an access came
+ * from without the log holding full addresses
+ */
+export function maskIpAddress(ip: string | null | undefined): string | null {
+  if (!ip) return null;
+
+  const address = ip.startsWith("::ffff:") ? ip.slice(7) : ip;
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    return address.split(".").slice(0, 3).concat("0").join(".");
+  }
+  if (address.includes(":")) {
+    return `${address.split(":").slice(0, 3).join(":")}::`;
+  }
+  return null;
+}
+
+/**
+ * Who opened a link, as the owner's access log records it: the signed-in accessor, or
+ * the masked IP for anonymous access
+ */
+export function getShareLinkAccessor(request: ShareLinkRequest, uid?: string) {
+  const ip = maskIpAddress(request.ip);
+  const userAgent = request.headers["user-agent"];
+
+  return {
+    accessorId: uid || ip || "anonymous",
+    ip,
+    country: getRequestCountry(request.headers),
+    userAgent: typeof userAgent === "string" ? userAgent.slice(0, 256) : null,
+  };
+}
+
+/**
+ * Reads the two-letter country of the client from the geo headers, if any
+ */
+export function getRequestCountry(headers: Record<string, string | string[] | undefined> | undefined): string | null {
+  if (!headers) return null;
+
+  for (const header of COUNTRY_HEADERS) {
+    const value = headers[header];
+    const country = (Array.isArray(value) ? value[0] : value)?.trim().toUpperCase();
+    // XX and ZZ mean the country couldn't be determined
+    if (country && /^[A-Z]{2}$/.test(country) && country !== "XX" && country !== "ZZ") {
+      return country;
+    }
+  }
+  return null;
+}
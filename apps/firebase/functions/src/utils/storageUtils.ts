@@ -159,7 +159,7 @@ export async function getUserStorageUsage(userId: string): Promise<number> {
       .where("userId", "==", userId)
       .where("isDeleted", "==", false)
       .where("type", "==", "file")
-      .select("size")
+      .select("size", "versionsSize")
       .get();
 
     let totalUsage = 0;
@@ -168,6 +168,10 @@ export async function getUserStorageUsage(userId: string): Promise<number> {
       if (data.size && typeof data.size === "number") {
         totalUsage += data.size;
       }
+      // Previous file versions count against the quota too
+      if (data.versionsSize && typeof data.versionsSize === "number") {
+        totalUsage += data.versionsSize;
+      }
     });
 
     return totalUsage;
@@ -0,0 +1,185 @@
+/**
+ * Story revision history
+ * Captures the editable content of a story and computes field- and block-level diffs
+ * between revisions. Revisions themselves are stored by stories.ts.
+ */
+
+// MARK: - Types
+
+export interface RevisionBlock {
+  type: "text" | "image" | "video" | "audio";
+  data: string | string[];
+  localId: string;
+}
+
+export type StoryBlockChangeKind = "added" | "removed" | "modified" | "moved";
+
+export interface StoryBlockChange {
+  localId: string;
+  type: RevisionBlock["type"];
+  kind: StoryBlockChangeKind;
+  index: number; // Position in the new blocks, or in the old blocks for removed blocks
+  previousIndex?: number; // Position in the old blocks for modified and moved blocks
+}
+
+// MARK: - Constants
+
+// Story fields captured in each revision and put back on restore. Privacy and sharing are
+// deliberately left out so restoring old content never changes who can see a story.
+export const STORY_REVISION_FIELDS = [
+  "title",
+  "subtitle",
+  "eventDate",
+  "location",
+  "coverImageURL",
+  "peopleInvolved",
+  "blocks",
+] as const;
+
+export type StoryRevisionField = typeof STORY_REVISION_FIELDS[number];
+
+const FIELD_LABELS: Record<StoryRevisionField, string> = {
+  title: "title",
+  subtitle: "subtitle",
+  eventDate: "date",
+  location: "location",
+  coverImageURL: "cover image",
+  peopleInvolved: "people involved",
+  blocks: "content",
+};
+
+// MARK: - Content
+
+/**
+ * Picks the revisioned fields from a story, using null for missing values so the
+ * result can be written to Firestore as-is
+ */
+export function getRevisionContent(story: Record<string, any>): Record<StoryRevisionField, unknown> {
+  const content = {} as Record<StoryRevisionField, unknown>;
+  STORY_REVISION_FIELDS.forEach((field) => {
+    content[field] = story[field] ?? (field === "blocks" || field === "peopleInvolved" ? [] : null);
+  });
+  return content;
+}
+
+/**
+ * Serializes a value with sorted object keys so equal values always compare equal
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined || value === null) return "null";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// MARK: - Diffs
+
+/**
+ * Lists the revisioned fields that differ between two versions of a story.
+ * Empty and missing values are treated as equal.
+ */
+export function diffStoryFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): StoryRevisionField[] {
+  const normalize = (value: unknown) => (value === "" ? null : value);
+  return STORY_REVISION_FIELDS.filter((field) =>
+    stableStringify(normalize(before[field])) !== stableStringify(normalize(after[field]))
+  );
+}
+
+/**
+ * Compares two block lists by localId. Blocks that keep their content but change their
+ * order relative to the others are reported as moved; blocks whose content changed are
+ * reported as modified whether or not they also moved.
+ */
+export function diffStoryBlocks(before: RevisionBlock[], after: RevisionBlock[]): StoryBlockChange[] {
+  const keyOf = (block: RevisionBlock, index: number) => block.localId || `index-${index}`;
+  const beforeKeys = before.map(keyOf);
+  const afterKeys = after.map(keyOf);
+  const beforeIndex = new Map(beforeKeys.map((key, index) => [key, index]));
+  const afterIndex = new Map(afterKeys.map((key, index) => [key, index]));
+
+  // Blocks present in both lists that stay in a longest common order are not moved
+  const common = afterKeys.filter((key) => beforeIndex.has(key));
+  const stable = longestIncreasingRun(common.map((key) => beforeIndex.get(key)!))
+    .map((position) => common[position]);
+  const stableKeys = new Set(stable);
+
+  const changes: StoryBlockChange[] = [];
+  after.forEach((block, index) => {
+    const key = afterKeys[index];
+    const previousIndex = beforeIndex.get(key);
+    if (previousIndex === undefined) {
+      changes.push({localId: key, type: block.type, kind: "added", index});
+      return;
+    }
+    const previous = before[previousIndex];
+    if (previous.type !== block.type || stableStringify(previous.data) !== stableStringify(block.data)) {
+      changes.push({localId: key, type: block.type, kind: "modified", index, previousIndex});
+    } else if (!stableKeys.has(key)) {
+      changes.push({localId: key, type: block.type, kind: "moved", index, previousIndex});
+    }
+  });
+  before.forEach((block, index) => {
+    const key = beforeKeys[index];
+    if (!afterIndex.has(key)) {
+      changes.push({localId: key, type: block.type, kind: "removed", index});
+    }
+  });
+  return changes;
+}
+
+/**
+ * Returns the positions of a longest strictly increasing subsequence
+ */
+function longestIncreasingRun(values: number[]): number[] {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  let best = -1;
+  values.forEach((value, i) => {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+    if (best === -1 || lengths[i] > lengths[best]) best = i;
+  });
+
+  const positions: number[] = [];
+  for (let i = best; i !== -1; i = previous[i]) positions.unshift(i);
+  return positions;
+}
+
+/**
+ * Describes a revision in a short sentence, e.g. "Edited title; 2 blocks added, 1 block modified"
+ */
+export function summarizeRevision(
+  changedFields: StoryRevisionField[],
+  blockChanges: StoryBlockChange[],
+  restoredFrom?: number
+): string {
+  if (restoredFrom !== undefined) return `Restored revision ${restoredFrom}`;
+
+  const parts: string[] = [];
+  const fields = changedFields.filter((field) => field !== "blocks").map((field) => FIELD_LABELS[field]);
+  if (fields.length > 0) parts.push(`Edited ${fields.join(", ")}`);
+
+  const counts = (["added", "removed", "modified", "moved"] as StoryBlockChangeKind[])
+    .map((kind) => {
+      const count = blockChanges.filter((change) => change.kind === kind).length;
+      return count > 0 ? `${count} block${count === 1 ? "" : "s"} ${kind}` : null;
+    })
+    .filter((part): part is string => part !== null);
+  if (counts.length > 0) parts.push(counts.join(", "));
+
+  return parts.length > 0 ? parts.join("; ") : "No changes";
+}
@@ -0,0 +1,80 @@
+/**
+ * Resumable vault upload helpers
+ * Splits large files into S3 multipart parts and tracks which parts the server has
+ * acknowledged, so an interrupted upload resumes from the first missing part.
+ */
+
+// MARK: - Types
+
+export interface UploadPartPlan {
+  partSize: number;
+  partCount: number;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+// MARK: - Constants
+
+const MB = 1024 * 1024;
+
+// S3 rejects parts below 5 MB, except for the last part
+export const MIN_UPLOAD_PART_SIZE = 5 * MB;
+export const DEFAULT_UPLOAD_PART_SIZE = 8 * MB;
+export const MAX_UPLOAD_PARTS = 10000;
+
+// Part URLs are handed out in batches so clients never hold thousands at once
+export const MAX_PART_URLS_PER_REQUEST = 100;
+
+// Sessions without activity for this long are aborted by the scheduled cleanup
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// MARK: - Planning
+
+/**
+ * Picks the part size and count for a file, growing the part size in whole megabytes
+ * when the default would exceed the S3 part limit
+ */
+export function planUploadParts(fileSize: number): UploadPartPlan {
+  const minimumForLimit = Math.ceil(Math.ceil(fileSize / MAX_UPLOAD_PARTS) / MB) * MB;
+  const partSize = Math.max(DEFAULT_UPLOAD_PART_SIZE, minimumForLimit);
+  return {
+    partSize,
+    partCount: Math.max(1, Math.ceil(fileSize / partSize)),
+  };
+}
+
+/**
+ * Whether a part number belongs to a session with the given number of parts
+ */
+export function isValidPartNumber(partNumber: unknown, partCount: number): partNumber is number {
+  return Number.isInteger(partNumber) && (partNumber as number) >= 1 && (partNumber as number) <= partCount;
+}
+
+// MARK: - Progress
+
+/**
+ * Adds newly reported parts to the acknowledged ones. A re-uploaded part replaces the
+ * earlier entry, since only its latest ETag is valid for completion.
+ */
+export function mergeUploadedParts(acknowledged: UploadedPart[], reported: UploadedPart[]): UploadedPart[] {
+  const byNumber = new Map<number, UploadedPart>();
+  [...acknowledged, ...reported].forEach((part) => {
+    byNumber.set(part.partNumber, {partNumber: part.partNumber, etag: part.etag});
+  });
+  return Array.from(byNumber.values()).sort((a, b) => a.partNumber - b.partNumber);
+}
+
+/**
+ * Returns the part numbers that still need uploading, in order
+ */
+export function findMissingParts(partCount: number, acknowledged: UploadedPart[]): number[] {
+  const uploaded = new Set(acknowledged.map((part) => part.partNumber));
+  const missing: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!uploaded.has(partNumber)) missing.push(partNumber);
+  }
+  return missing;
+}
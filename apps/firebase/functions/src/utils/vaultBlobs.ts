@@ -0,0 +1,84 @@
+/**
+ * Vault content addressing helpers
+ * Plaintext vault files are stored once per SHA-256 content hash, and every file or
+ * version holding that content keeps a reference to the shared blob.
+ */
+
+import {createHash} from "crypto";
+
+// MARK: - Types
+
+export interface VaultStorageUsage {
+  // Every file and version at full size; this is what the storage quota applies to
+  logicalBytes: number;
+  // Bytes actually stored, counting content shared between files once
+  physicalBytes: number;
+  // Bytes saved by deduplication
+  dedupedBytes: number;
+}
+
+// MARK: - Hashing
+
+const CONTENT_HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Computes the lowercase hex SHA-256 of a file's bytes
+ */
+export function computeContentHash(content: Buffer | Uint8Array): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Whether a value is a lowercase hex SHA-256 digest
+ */
+export function isValidContentHash(value: unknown): value is string {
+  return typeof value === "string" && CONTENT_HASH_PATTERN.test(value);
+}
+
+/**
+ * Only plaintext files are shared. Encrypted files differ per key even for identical
+ * plaintext, and their bytes must never be handed to another owner's file.
+ */
+export function canDeduplicateVaultFile(item: {isEncrypted?: boolean | null}): boolean {
+  return !item.isEncrypted;
+}
+
+// MARK: - Accounting
+
+/**
+ * Sums logical and physical usage for a set of vault items. Files sharing a blob count
+ * once towards physical usage. Previous versions are counted at full size in both.
+ */
+export function summarizeVaultStorageUsage(
+  items: Array<{type?: string; size?: number | null; versionsSize?: number | null; blobId?: string | null}>
+): VaultStorageUsage {
+  const blobSizes = new Map<string, number>();
+  let logicalBytes = 0;
+  let unsharedBytes = 0;
+
+  items.forEach((item) => {
+    if (item.type !== "file") return;
+
+    const size = item.size || 0;
+    const versionsSize = item.versionsSize || 0;
+    logicalBytes += size + versionsSize;
+    unsharedBytes += versionsSize;
+
+    if (item.blobId) {
+      blobSizes.set(item.blobId, size);
+    } else {
+      unsharedBytes += size;
+    }
+  });
+
+  let physicalBytes = unsharedBytes;
+  blobSizes.forEach((size) => {
+    physicalBytes += size;
+  });
+
+  return {
+    logicalBytes,
+    physicalBytes,
+    dedupedBytes: logicalBytes - physicalBytes,
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Vault tag and smart collection helpers
+ * Tags are free-form labels members put on their items; people tags name the family
+ * members an item shows. Smart collections are saved rules that are evaluated against the
+ * owner's items each time the collection is opened, so new uploads show up on their own.
+ */
+
+// MARK: - Types
+
+export type VaultCollectionFileType = "image" | "video" | "audio" | "document" | "other";
+
+export interface SmartCollectionRules {
+  fileTypes?: VaultCollectionFileType[];
+  // Upload date range, in milliseconds since the epoch
+  createdAfter?: number;
+  createdBefore?: number;
+  peopleTagged?: string[];
+  uploadedBy?: string[];
+  // Size range, in bytes
+  minSize?: number;
+  maxSize?: number;
+  tags?: string[];
+}
+
+export interface SmartCollectionItem {
+  type: "file" | "folder";
+  userId: string;
+  fileType?: string;
+  size?: number;
+  createdAt?: number;
+  tags?: string[];
+  peopleTags?: string[];
+  uploadedBy?: string;
+}
+
+// MARK: - Constants
+
+export const MAX_VAULT_TAGS = 20;
+
+export const MAX_VAULT_TAG_LENGTH = 40;
+
+export const MAX_SMART_COLLECTION_RULE_VALUES = 10;
+
+const SMART_COLLECTION_FILE_TYPES: VaultCollectionFileType[] = ["image", "video", "audio", "document", "other"];
+
+// MARK: - Tags
+
+/**
+ * Tags are matched case-insensitively, so they are stored trimmed and lowercased with
+ * duplicates dropped
+ */
+export function normalizeVaultTags(tags: string[] | undefined): string[] {
+  const normalized = new Set<string>();
+  (tags || []).forEach((tag) => {
+    const value = String(tag).trim().replace(/\s+/g, " ").toLowerCase().slice(0, MAX_VAULT_TAG_LENGTH);
+    if (value) normalized.add(value);
+  });
+  return Array.from(normalized);
+}
+
+/**
+ * The tags an item ends up with after adding and removing some, as bulk tagging does
+ */
+export function applyVaultTagChanges(
+  current: string[] | undefined,
+  add: string[] | undefined,
+  remove: string[] | undefined
+): string[] {
+  const removed = normalizeVaultTags(remove);
+  return normalizeVaultTags([...(current || []), ...normalizeVaultTags(add)])
+    .filter((tag) => !removed.includes(tag));
+}
+
+/**
+ * Whether an item matches a search query by name or by one of its tags
+ */
+export function matchesVaultQuery(item: {name: string; tags?: string[]}, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return item.name.toLowerCase().includes(needle) ||
+    (item.tags || []).some((tag) => tag.includes(needle));
+}
+
+// MARK: - Smart Collections
+
+/**
+ * Checks rules before they are saved
+ * @returns a message describing the problem, or null when the rules are valid
+ */
+export function validateSmartCollectionRules(rules: SmartCollectionRules): string | null {
+  const lists = [rules.fileTypes, rules.peopleTagged, rules.uploadedBy, rules.tags];
+  const hasListRule = lists.some((list) => (list || []).length > 0);
+  const hasRangeRule = [rules.createdAfter, rules.createdBefore, rules.minSize, rules.maxSize]
+    .some((value) => value !== undefined);
+
+  if (!hasListRule && !hasRangeRule) {
+    return "A smart collection needs at least one rule";
+  }
+  if (lists.some((list) => (list || []).length > MAX_SMART_COLLECTION_RULE_VALUES)) {
+    return `Each rule can match at most ${MAX_SMART_COLLECTION_RULE_VALUES} values`;
+  }
+  if ((rules.fileTypes || []).some((fileType) => !SMART_COLLECTION_FILE_TYPES.includes(fileType))) {
+    return "Unknown file type in smart collection rules";
+  }
+  if (rules.createdAfter !== undefined && rules.createdBefore !== undefined &&
+    rules.createdAfter > rules.createdBefore) {
+    return "The date range ends before it starts";
+  }
+  if ((rules.minSize ?? 0) < 0 || (rules.maxSize ?? 0) < 0) {
+    return "File sizes can't be negative";
+  }
+  if (rules.minSize !== undefined && rules.maxSize !== undefined && rules.minSize > rules.maxSize) {
+    return "The minimum size is larger than the maximum size";
+  }
+  return null;
+}
+
+/**
+ * The rules as they are stored: tags normalized like item tags, and rules left empty
+ * dropped, since Firestore won't store undefined values
+ */
+export function normalizeSmartCollectionRules(rules: SmartCollectionRules): SmartCollectionRules {
+  const normalized: SmartCollectionRules = {};
+  if (rules.fileTypes?.length) normalized.fileTypes = [...new Set(rules.fileTypes)];
+  if (rules.peopleTagged?.length) normalized.peopleTagged = [...new Set(rules.peopleTagged)];
+  if (rules.uploadedBy?.length) normalized.uploadedBy = [...new Set(rules.uploadedBy)];
+  const tags = normalizeVaultTags(rules.tags);
+  if (tags.length) normalized.tags = tags;
+  if (rules.createdAfter !== undefined) normalized.createdAfter = rules.createdAfter;
+  if (rules.createdBefore !== undefined) normalized.createdBefore = rules.createdBefore;
+  if (rules.minSize !== undefined) normalized.minSize = rules.minSize;
+  if (rules.maxSize !== undefined) normalized.maxSize = rules.maxSize;
+  return normalized;
+}
+
+/**
+ * Whether a file belongs in a smart collection. Every rule has to match; a rule listing
+ * several values matches any one of them. Folders are never collected.
+ */
+export function matchesSmartCollectionRules(item: SmartCollectionItem, rules: SmartCollectionRules): boolean {
+  if (item.type !== "file") return false;
+
+  const matchesAny = (values: string[] | undefined, candidates: string[]) =>
+    !values?.length || values.some((value) => candidates.includes(value));
+
+  const size = item.size || 0;
+  const createdAt = item.createdAt || 0;
+
+  return matchesAny(rules.fileTypes, item.fileType ? [item.fileType] : []) &&
+    matchesAny(rules.peopleTagged, item.peopleTags || []) &&
+    matchesAny(rules.uploadedBy, [item.uploadedBy || item.userId]) &&
+    matchesAny(normalizeVaultTags(rules.tags), item.tags || []) &&
+    (rules.createdAfter === undefined || createdAt >= rules.createdAfter) &&
+    (rules.createdBefore === undefined || createdAt <= rules.createdBefore) &&
+    (rules.minSize === undefined || size >= rules.minSize) &&
+    (rules.maxSize === undefined || size <= rules.maxSize);
+}
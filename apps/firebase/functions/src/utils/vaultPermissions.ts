@@ -0,0 +1,141 @@
+/**
+ * Vault sharing permission helpers
+ * Items keep the grants made on them directly apart from the grants they inherit from
+ * their folder, so sharing a folder reaches everything filed in it later and moving an
+ * item out of the folder drops only what the folder gave it.
+ */
+
+// MARK: - Types
+
+export type VaultPermissionLevel = "read" | "write";
+
+export interface VaultPermissionGrants {
+  canRead?: string[];
+  canWrite?: string[];
+}
+
+export interface VaultSharingState {
+  sharedWith?: string[];
+  permissions?: VaultPermissionGrants;
+  explicitPermissions?: VaultPermissionGrants;
+  inheritedPermissions?: VaultPermissionGrants;
+}
+
+// The sharing fields written to an item. permissions and sharedWith hold the effective
+// grants, so access checks and the sharedWith queries don't need to know about inheritance.
+export interface ResolvedVaultSharing {
+  sharedWith: string[];
+  permissions: Required<VaultPermissionGrants>;
+  explicitPermissions: Required<VaultPermissionGrants>;
+  inheritedPermissions: Required<VaultPermissionGrants>;
+}
+
+// MARK: - Grants
+
+/**
+ * Deduplicates grants. Write access includes read access.
+ */
+export function normalizeGrants(...grants: (VaultPermissionGrants | undefined)[]): Required<VaultPermissionGrants> {
+  const canWrite = new Set<string>();
+  const canRead = new Set<string>();
+  grants.forEach((grant) => {
+    grant?.canWrite?.forEach((userId) => canWrite.add(userId));
+    grant?.canRead?.forEach((userId) => canRead.add(userId));
+  });
+  canWrite.forEach((userId) => canRead.add(userId));
+  return {canRead: Array.from(canRead), canWrite: Array.from(canWrite)};
+}
+
+/**
+ * Adds users at the given level. Granting read to a user who can already write keeps
+ * their write access.
+ */
+export function grantAccess(
+  grants: VaultPermissionGrants | undefined,
+  userIds: string[],
+  level: VaultPermissionLevel
+): Required<VaultPermissionGrants> {
+  return normalizeGrants(grants, level === "write" ? {canWrite: userIds} : {canRead: userIds});
+}
+
+/**
+ * Sets a user to exactly the given level, downgrading write to read if asked
+ */
+export function setAccess(
+  grants: VaultPermissionGrants | undefined,
+  userId: string,
+  level: VaultPermissionLevel
+): Required<VaultPermissionGrants> {
+  return grantAccess(revokeAccess(grants, [userId]), [userId], level);
+}
+
+export function revokeAccess(grants: VaultPermissionGrants | undefined, userIds: string[]): Required<VaultPermissionGrants> {
+  const normalized = normalizeGrants(grants);
+  return {
+    canRead: normalized.canRead.filter((userId) => !userIds.includes(userId)),
+    canWrite: normalized.canWrite.filter((userId) => !userIds.includes(userId)),
+  };
+}
+
+export function getAccessLevel(grants: VaultPermissionGrants | undefined, userId: string): VaultPermissionLevel | null {
+  if (grants?.canWrite?.includes(userId)) return "write";
+  if (grants?.canRead?.includes(userId)) return "read";
+  return null;
+}
+
+// MARK: - Items
+
+/**
+ * The grants made on the item itself. Items shared before folders passed their grants
+ * down have no explicit grants recorded, so everything they have counts as explicit.
+ */
+export function getExplicitGrants(item: VaultSharingState): Required<VaultPermissionGrants> {
+  return normalizeGrants(item.explicitPermissions ?? (item.inheritedPermissions ? undefined : item.permissions));
+}
+
+export function getInheritedGrants(item: VaultSharingState): Required<VaultPermissionGrants> {
+  return normalizeGrants(item.inheritedPermissions);
+}
+
+/**
+ * Combines explicit and inherited grants into the fields stored on the item
+ */
+export function resolveVaultSharing(
+  explicit: VaultPermissionGrants | undefined,
+  inherited: VaultPermissionGrants | undefined
+): ResolvedVaultSharing {
+  const permissions = normalizeGrants(explicit, inherited);
+  return {
+    sharedWith: permissions.canRead,
+    permissions,
+    explicitPermissions: normalizeGrants(explicit),
+    inheritedPermissions: normalizeGrants(inherited),
+  };
+}
+
+/**
+ * Whether writing the resolved sharing would change what is stored on the item
+ */
+export function isSharingChanged(item: VaultSharingState, resolved: ResolvedVaultSharing): boolean {
+  const sameUsers = (a: string[] | undefined, b: string[]) =>
+    (a || []).length === b.length && b.every((userId) => a?.includes(userId));
+
+  return !(
+    sameUsers(item.sharedWith, resolved.sharedWith) &&
+    sameUsers(item.permissions?.canRead, resolved.permissions.canRead) &&
+    sameUsers(item.permissions?.canWrite, resolved.permissions.canWrite) &&
+    sameUsers(item.explicitPermissions?.canRead, resolved.explicitPermissions.canRead) &&
+    sameUsers(item.explicitPermissions?.canWrite, resolved.explicitPermissions.canWrite) &&
+    sameUsers(item.inheritedPermissions?.canRead, resolved.inheritedPermissions.canRead) &&
+    sameUsers(item.inheritedPermissions?.canWrite, resolved.inheritedPermissions.canWrite)
+  );
+}
+
+/**
+ * Whether the item belongs at the top of the user's "shared with me" view: it was shared
+ * with them directly rather than through a folder they can already open.
+ */
+export function isSharedRoot(item: VaultSharingState, userId: string): boolean {
+  return getAccessLevel(getInheritedGrants(item), userId) === null &&
+    getAccessLevel(getExplicitGrants(item), userId) !== null;
+}
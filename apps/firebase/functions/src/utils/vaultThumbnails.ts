@@ -0,0 +1,144 @@
+/**
+ * Vault thumbnail helpers
+ * Files that aren't end-to-end encrypted get WebP thumbnails in a few sizes once they
+ * reach final storage: images are scaled down, videos use a poster frame and PDFs their
+ * first page. Thumbnails are stored beside the object they were made from, so files
+ * sharing deduplicated content share thumbnails too.
+ *
+ * End-to-end encrypted files can't be read here, so clients make their own small
+ * thumbnail at upload, encrypt it with the file's key and store it as a sidecar object.
+ */
+
+// MARK: - Types
+
+export type VaultPreviewKind = "image" | "video" | "pdf";
+
+export type VaultThumbnailStatus = "ready" | "failed";
+
+export interface VaultThumbnails {
+  status: VaultThumbnailStatus;
+  kind: VaultPreviewKind;
+  // Longest edge of each stored thumbnail, in pixels
+  sizes: number[];
+  // Object the thumbnails were made from; a new version of the file has a new object
+  sourceKey: string;
+  error?: string;
+}
+
+export interface VaultEncryptedThumbnail {
+  path: string;
+  // Base64 secretbox nonce the thumbnail was encrypted with
+  nonce: string;
+  size: number;
+}
+
+export interface VaultThumbnailSource {
+  type: "file" | "folder";
+  mimeType?: string | null;
+  size?: number | null;
+  isEncrypted?: boolean;
+  isDeleted?: boolean;
+  scanStatus?: string;
+  thumbnails?: Partial<VaultThumbnails> | null;
+}
+
+// MARK: - Constants
+
+export const VAULT_THUMBNAIL_SIZES = [256, 1024];
+
+export const VAULT_THUMBNAIL_CONTENT_TYPE = "image/webp";
+
+export const MAX_ENCRYPTED_THUMBNAIL_BYTES = 64 * 1024;
+
+// Length of a base64 encoded 24 byte XSalsa20 nonce
+const ENCRYPTED_THUMBNAIL_NONCE_LENGTH = 32;
+
+// Images and PDFs are read into memory; videos are streamed by ffmpeg, which only reads
+// as far as the poster frame
+const MAX_PREVIEW_SOURCE_BYTES: Record<VaultPreviewKind, number> = {
+  image: 50 * 1024 * 1024,
+  pdf: 50 * 1024 * 1024,
+  video: 5 * 1024 * 1024 * 1024,
+};
+
+// Formats sharp decodes; other images (HEIC, camera raw, ...) keep the generic icon
+const PREVIEWABLE_IMAGE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/avif",
+  "image/tiff",
+  "image/svg+xml",
+];
+
+// MARK: - Preview Kinds
+
+/**
+ * The kind of preview a file gets, or null when it gets none
+ */
+export function getVaultPreviewKind(mimeType: string | null | undefined): VaultPreviewKind | null {
+  const type = (mimeType || "").toLowerCase();
+  if (PREVIEWABLE_IMAGE_TYPES.includes(type)) return "image";
+  if (type.startsWith("video/")) return "video";
+  if (type === "application/pdf") return "pdf";
+  return null;
+}
+
+/**
+ * Whether thumbnails should be made for a file stored at `sourceKey`. Encrypted files are
+ * never readable here, and files waiting on scanning haven't reached final storage.
+ * Thumbnails already made from the same object, or that failed for it, are not retried.
+ */
+export function shouldGenerateVaultThumbnails(item: VaultThumbnailSource, sourceKey: string | null): boolean {
+  if (!sourceKey || item.type !== "file" || item.isEncrypted || item.isDeleted) return false;
+  if (item.scanStatus !== "clean") return false;
+
+  const kind = getVaultPreviewKind(item.mimeType);
+  if (!kind || (item.size || 0) > MAX_PREVIEW_SOURCE_BYTES[kind]) return false;
+
+  return item.thumbnails?.sourceKey !== sourceKey;
+}
+
+// MARK: - Storage Keys
+
+/**
+ * Where the thumbnail of one size is stored, beside the object it was made from
+ */
+export function getVaultThumbnailKey(sourceKey: string, size: number): string {
+  return `${sourceKey}.thumb-${size}.webp`;
+}
+
+/**
+ * Every thumbnail key an object can have, used to clean them up with the object
+ */
+export function getVaultThumbnailKeys(sourceKey: string): string[] {
+  return VAULT_THUMBNAIL_SIZES.map((size) => getVaultThumbnailKey(sourceKey, size));
+}
+
+/**
+ * Where the encrypted thumbnail of an end-to-end encrypted file is stored
+ */
+export function getEncryptedVaultThumbnailKey(ownerId: string, itemId: string): string {
+  return `vault/${ownerId}/thumbnails/${itemId}.thumb.enc`;
+}
+
+// MARK: - Encrypted Thumbnails
+
+/**
+ * Checks the thumbnail a client registers for an encrypted file
+ * @returns a message describing the problem, or null when the thumbnail is valid
+ */
+export function validateEncryptedThumbnail(thumbnail: {nonce?: unknown; size?: unknown}): string | null {
+  if (typeof thumbnail.nonce !== "string" || thumbnail.nonce.length !== ENCRYPTED_THUMBNAIL_NONCE_LENGTH ||
+    !/^[A-Za-z0-9+/]+={0,2}$/.test(thumbnail.nonce)) {
+    return "Thumbnail nonce must be 24 base64 encoded bytes";
+  }
+  if (typeof thumbnail.size !== "number" || !Number.isInteger(thumbnail.size) || thumbnail.size <= 0) {
+    return "Thumbnail size must be a positive number of bytes";
+  }
+  if (thumbnail.size > MAX_ENCRYPTED_THUMBNAIL_BYTES) {
+    return `Thumbnails can be at most ${MAX_ENCRYPTED_THUMBNAIL_BYTES / 1024}KB`;
+  }
+  return null;
+}
@@ -0,0 +1,81 @@
+/**
+ * Vault file version helpers
+ * Describes where a file's bytes live across Firebase Storage, R2 and B2 so previous
+ * versions can be archived, downloaded, restored and deleted the same way.
+ */
+
+// MARK: - Types
+
+export type VaultStorageProvider = "firebase" | "r2" | "b2" | "r2_staging";
+
+export interface VaultStorageLocation {
+  storageProvider: VaultStorageProvider;
+  storagePath: string | null;
+  r2Bucket: string | null;
+  r2Key: string | null;
+  b2Bucket: string | null;
+  b2Key: string | null;
+  // Content hash of the shared blob holding the bytes, for deduplicated plaintext files
+  blobId: string | null;
+}
+
+export interface VaultStorageObject {
+  path: string;
+  bucket?: string;
+  provider: "firebase" | "r2" | "b2";
+}
+
+// MARK: - Constants
+
+// Oldest versions beyond this are deleted when a new one is archived
+export const MAX_VAULT_FILE_VERSIONS = 20;
+
+// MARK: - Storage Locations
+
+/**
+ * Picks the storage location fields from a vault item or version, using null for missing
+ * values so the result can be written to Firestore as-is
+ */
+export function getVaultStorageLocation(item: Record<string, any>): VaultStorageLocation {
+  return {
+    storageProvider: item.storageProvider || "firebase",
+    storagePath: item.storagePath || null,
+    r2Bucket: item.r2Bucket || null,
+    r2Key: item.r2Key || null,
+    b2Bucket: item.b2Bucket || null,
+    b2Key: item.b2Key || null,
+    blobId: item.blobId || null,
+  };
+}
+
+/**
+ * Resolves the object holding a file's bytes. Staged uploads that haven't passed
+ * scanning yet have no permanent object, so they resolve to null.
+ */
+export function getVaultStorageObject(location: VaultStorageLocation): VaultStorageObject | null {
+  switch (location.storageProvider) {
+  case "b2":
+    return location.b2Key ? {path: location.b2Key, bucket: location.b2Bucket || undefined, provider: "b2"} : null;
+  case "r2":
+    return location.r2Key ? {path: location.r2Key, bucket: location.r2Bucket || undefined, provider: "r2"} : null;
+  case "r2_staging":
+    return null;
+  default:
+    return location.storagePath ? {path: location.storagePath, provider: "firebase"} : null;
+  }
+}
+
+// MARK: - Retention
+
+/**
+ * Returns the versions to delete so that at most `maxVersions` remain, oldest first
+ */
+export function selectVersionsToPrune<T extends {versionNumber: number}>(
+  versions: T[],
+  maxVersions: number = MAX_VAULT_FILE_VERSIONS
+): T[] {
+  if (versions.length <= maxVersions) return [];
+  return [...versions]
+    .sort((a, b) => a.versionNumber - b.versionNumber)
+    .slice(0, versions.length - maxVersions);
+}
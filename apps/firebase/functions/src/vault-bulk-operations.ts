@@ -6,8 +6,10 @@ import {createError, ErrorCode, handleError} from "./utils/errors";
 import {withAuth} from "./middleware/auth";
 import {validateRequest} from "./utils/request-validator";
 import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
+import {SECURITY_CONFIG} from "./config/security-config";
 import {DEFAULT_REGION, FUNCTION_TIMEOUT} from "./common";
 import {getStorageAdapter} from "./services/storageAdapter";
+import {applyVaultTagChanges, MAX_VAULT_TAGS} from "./utils/vaultCollections";
 
 // Initialize if not already done
 if (!admin.apps.length) {
@@ -22,7 +24,7 @@ const MAX_OPERATIONS_PER_REQUEST = 100;
 
 // Types
 export interface VaultBulkOperation {
-  operation: "encrypt" | "decrypt" | "share" | "unshare" | "delete" | "restore" | "move";
+  operation: "encrypt" | "decrypt" | "share" | "unshare" | "delete" | "restore" | "move" | "tag";
   itemIds: string[];
   metadata?: Record<string, any>;
 }
@@ -113,6 +115,15 @@ export const executeBulkVaultOperation = onCall(
       case "decrypt":
         result = await executeBulkDecrypt(userId, itemIds, operationId);
         break;
+      case "tag":
+        result = await executeBulkTag(
+          userId,
+          itemIds,
+          metadata.addTags || [],
+          metadata.removeTags || [],
+          operationId
+        );
+        break;
       default:
         throw createError(ErrorCode.INVALID_ARGUMENT, `Unsupported operation: ${operation}`);
       }
@@ -130,6 +141,9 @@ export const executeBulkVaultOperation = onCall(
     } catch (error) {
       return handleError(error, functionName);
     }
+  }, "executeBulkVaultOperation", {
+    authLevel: "onboarded",
+    rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
   })
 );
 
@@ -187,8 +201,9 @@ async function executeBulkDelete(
           updatedAt: Timestamp.now(),
         });
 
-        // Schedule storage deletion if it's a file
-        if (data.type === "file" && data.storagePath) {
+        // Schedule storage deletion if it's a file. Deduplicated contents may be shared,
+        // so their reference is only released on permanent deletion.
+        if (data.type === "file" && data.storagePath && !data.blobId) {
           storageDeletePromises.push(
             deleteFromStorage(data.storagePath, data.storageProvider || "firebase")
               .catch((error) => {
@@ -229,7 +244,7 @@ async function executeBulkDelete(
         if (!result.successfulItems.includes(id)) {
           result.failedItems.push({
             itemId: id,
-            error: error.message || "Unknown error",
+            error: error instanceof Error ? error.message : "Unknown error",
           });
         }
       }
@@ -314,7 +329,7 @@ async function executeBulkRestore(
         if (!result.successfulItems.includes(id)) {
           result.failedItems.push({
             itemId: id,
-            error: error.message || "Unknown error",
+            error: error instanceof Error ? error.message : "Unknown error",
           });
         }
       }
@@ -418,7 +433,7 @@ async function executeBulkShare(
     result.success = false;
     result.failedItems = itemIds.map((id) => ({
       itemId: id,
-      error: error.message || "Unknown error",
+      error: error instanceof Error ? error.message : "Unknown error",
     }));
   }
 
@@ -485,7 +500,7 @@ async function executeBulkUnshare(
       } catch (error) {
         result.failedItems.push({
           itemId,
-          error: error.message || "Unknown error",
+          error: error instanceof Error ? error.message : "Unknown error",
         });
       }
     }
@@ -497,7 +512,7 @@ async function executeBulkUnshare(
     result.success = false;
     result.failedItems = itemIds.map((id) => ({
       itemId: id,
-      error: error.message || "Unknown error",
+      error: error instanceof Error ? error.message : "Unknown error",
     }));
   }
 
@@ -582,7 +597,7 @@ async function executeBulkMove(
     result.success = false;
     result.failedItems = itemIds.map((id) => ({
       itemId: id,
-      error: error.message || "Unknown error",
+      error: error instanceof Error ? error.message : "Unknown error",
     }));
   }
 
@@ -689,7 +704,7 @@ async function executeBulkEncrypt(
         if (!result.successfulItems.includes(id)) {
           result.failedItems.push({
             itemId: id,
-            error: error.message || "Unknown error",
+            error: error instanceof Error ? error.message : "Unknown error",
           });
         }
       }
@@ -799,7 +814,7 @@ async function executeBulkDecrypt(
         if (!result.successfulItems.includes(id)) {
           result.failedItems.push({
             itemId: id,
-            error: error.message || "Unknown error",
+            error: error instanceof Error ? error.message : "Unknown error",
           });
         }
       }
@@ -810,6 +825,100 @@ async function executeBulkDecrypt(
   return result;
 }
 
+/**
+ * Execute bulk tag operation
+ * Adds and removes tags on every item, keeping the tags each item already has
+ */
+async function executeBulkTag(
+  userId: string,
+  itemIds: string[],
+  addTags: string[],
+  removeTags: string[],
+  operationId: string
+): Promise<VaultBulkResult> {
+  const result: VaultBulkResult = {
+    success: true,
+    totalItems: itemIds.length,
+    successfulItems: [],
+    failedItems: [],
+    operationId,
+  };
+
+  if (!Array.isArray(addTags) || !Array.isArray(removeTags) || addTags.length + removeTags.length === 0) {
+    result.success = false;
+    result.failedItems = itemIds.map((id) => ({
+      itemId: id,
+      error: "No tags specified",
+    }));
+    return result;
+  }
+
+  try {
+    const itemRefs = itemIds.map((id) => db.collection("vaultItems").doc(id));
+    const itemDocs = await db.getAll(...itemRefs);
+
+    const batch = db.batch();
+    const foundIds: string[] = [];
+
+    for (const doc of itemDocs) {
+      const data = doc.data();
+
+      if (
+        !doc.exists ||
+        !data ||
+        data.ownerId !== userId ||
+        data.isDeleted !== false
+      ) {
+        result.failedItems.push({
+          itemId: doc.id,
+          error: "Item not found or not owned by user",
+        });
+        continue;
+      }
+
+      foundIds.push(doc.id);
+      const tags = applyVaultTagChanges(data.tags, addTags.map(String), removeTags.map(String));
+      if (tags.length > MAX_VAULT_TAGS) {
+        result.failedItems.push({
+          itemId: doc.id,
+          error: `Items can have at most ${MAX_VAULT_TAGS} tags`,
+        });
+        continue;
+      }
+
+      batch.update(doc.ref, {
+        tags,
+        updatedAt: Timestamp.now(),
+      });
+
+      result.successfulItems.push(doc.id);
+    }
+
+    // Commit batch
+    await batch.commit();
+
+    // Mark items that weren't found as failed
+    const notFoundIds = itemIds.filter((id) => !foundIds.includes(id));
+
+    for (const id of notFoundIds) {
+      result.failedItems.push({
+        itemId: id,
+        error: "Item not found or not owned by user",
+      });
+    }
+  } catch (error) {
+    logger.error("Bulk tag failed:", error);
+    result.success = false;
+    result.failedItems = itemIds.map((id) => ({
+      itemId: id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }));
+  }
+
+  result.success = result.failedItems.length === 0;
+  return result;
+}
+
 /**
  * Helper function to delete from storage
  */
@@ -908,5 +1017,8 @@ export const getBulkOperationStatus = onCall(
     } catch (error) {
       return handleError(error, functionName);
     }
+  }, "getBulkOperationStatus", {
+    authLevel: "onboarded",
+    rateLimitConfig: SECURITY_CONFIG.rateLimits.read,
   })
 );
@@ -0,0 +1,38 @@
+/**
+ * Vault Thumbnail Functions
+ * Generates previews for vault files that aren't end-to-end encrypted once a completed
+ * upload has passed scanning and reached final storage
+ */
+
+import {onDocumentUpdated} from "firebase-functions/v2/firestore";
+import {DEFAULT_MEMORY, DEFAULT_REGION, FUNCTION_TIMEOUT} from "./common";
+import {R2_CONFIG} from "./config/r2Secrets";
+import {getVaultThumbnailService} from "./services/vaultThumbnailService";
+import {getVaultStorageLocation, getVaultStorageObject} from "./utils/vaultVersions";
+import {VaultThumbnailSource, shouldGenerateVaultThumbnails} from "./utils/vaultThumbnails";
+
+/**
+ * Generates thumbnails when a file's bytes land in final storage, which happens after
+ * completeVaultFileUpload once scanning finds the file clean, and again for each new
+ * version of the file
+ */
+export const generateVaultThumbnails = onDocumentUpdated(
+  {
+    document: "vaultItems/{itemId}",
+    region: DEFAULT_REGION,
+    memory: DEFAULT_MEMORY.LARGE,
+    timeoutSeconds: FUNCTION_TIMEOUT.LONG,
+    secrets: [R2_CONFIG],
+  },
+  async (event) => {
+    const item = event.data?.after.data();
+    if (!item) return;
+
+    const source = getVaultStorageObject(getVaultStorageLocation(item));
+    if (!source || !shouldGenerateVaultThumbnails(item as VaultThumbnailSource, source.path)) {
+      return;
+    }
+
+    await getVaultThumbnailService().generateThumbnails(event.params.itemId, source, item.mimeType);
+  }
+);
@@ -4,7 +4,7 @@ import {getFirestore, Timestamp, FieldValue, FieldPath} from "firebase-admin/fir
 import {getStorage} from "firebase-admin/storage";
 import {logger} from "firebase-functions/v2";
 import {DEFAULT_REGION, FUNCTION_TIMEOUT, FILE_SIZE_LIMITS} from "./common";
-import {createError, withErrorHandling, ErrorCode} from "./utils/errors";
+import {createError, withErrorHandling, ErrorCode, SecurityError} from "./utils/errors";
 import {withAuth, requireAuth} from "./middleware";
 import {SECURITY_CONFIG} from "./config/security-config";
 import {getStorageAdapter} from "./services/storageAdapter";
@@ -12,6 +12,7 @@ import {validateUploadRequest, checkUserStorageCapacity} from "./config/r2Securi
 import {R2_CONFIG} from "./config/r2Secrets";
 import {R2Service} from "./services/r2Service";
 import {SubscriptionValidationService} from "./services/subscriptionValidationService";
+import {SubscriptionPlan} from "./types/subscription";
 import {createLogContext, formatErrorForLogging} from "./utils/sanitization";
 import {validateRequest} from "./utils/request-validator";
 import {VALIDATION_SCHEMAS} from "./config/validation-schemas";
@@ -28,6 +29,76 @@ import {
 import {fileSecurityService} from "./services/fileSecurityService";
 import {getVaultScanConfig} from "./config/vaultScanSecrets";
 import {checkRateLimitByIP, RateLimitType} from "./middleware/auth";
+import {checkRateLimit as checkRedisRateLimit} from "./services/rateLimitService";
+import {StorageCalculationService} from "./services/storageCalculationService";
+import {getVaultBlobService} from "./services/vaultBlobService";
+import {getVaultThumbnailService} from "./services/vaultThumbnailService";
+import {
+  VaultEncryptedThumbnail,
+  VaultThumbnails,
+  getEncryptedVaultThumbnailKey,
+  validateEncryptedThumbnail,
+} from "./utils/vaultThumbnails";
+import {summarizeVaultStorageUsage} from "./utils/vaultBlobs";
+import {
+  getVaultStorageLocation,
+  getVaultStorageObject,
+  selectVersionsToPrune,
+  VaultStorageLocation,
+  VaultStorageObject,
+} from "./utils/vaultVersions";
+import {
+  findMissingParts,
+  isValidPartNumber,
+  mergeUploadedParts,
+  planUploadParts,
+  MAX_PART_URLS_PER_REQUEST,
+  UPLOAD_SESSION_TTL_MS,
+  UploadedPart,
+} from "./utils/uploadSessions";
+import {
+  getPasswordLockoutMs,
+  getPasswordShareLinkInfo,
+  getRemainingAccesses,
+  getShareLinkAccessor,
+  getShareLinkDenial,
+  getShareLinkInfo,
+  getShareLinkStatus,
+  maskIpAddress,
+  resolveMaxAccessCount,
+  ShareLinkAccessOutcome,
+  ShareLinkStatus,
+} from "./utils/shareLinks";
+import {
+  getAccessLevel,
+  getExplicitGrants,
+  getInheritedGrants,
+  grantAccess,
+  isSharedRoot,
+  isSharingChanged,
+  resolveVaultSharing,
+  revokeAccess,
+  setAccess,
+  VaultPermissionGrants,
+} from "./utils/vaultPermissions";
+import {
+  canModifyFamilyVaultItem,
+  getFamilyTreeIdFromOwner,
+  getFamilyVaultOwnerId,
+  hasFamilyVaultRole,
+  isFamilyTreeAdmin,
+  resolveFamilyVaultRole,
+  DEFAULT_FAMILY_VAULT_ROLE,
+  FamilyVaultRole,
+  FamilyVaultTree,
+} from "./utils/familyVault";
+import {
+  matchesSmartCollectionRules,
+  matchesVaultQuery,
+  normalizeSmartCollectionRules,
+  normalizeVaultTags,
+  SmartCollectionRules,
+} from "./utils/vaultCollections";
 
 // MARK: - Types
 interface VaultItem {
@@ -50,12 +121,12 @@ interface VaultItem {
   isEncrypted?: boolean;
   encryptionKeyId?: string;
   encryptedBy?: string;
-  // Sharing fields
+  // Sharing fields. sharedWith and permissions hold the effective grants: those made on
+  // the item itself plus those inherited from the folder it's in.
   sharedWith?: string[];
-  permissions?: {
-    canRead?: string[];
-    canWrite?: string[];
-  };
+  permissions?: VaultPermissionGrants;
+  explicitPermissions?: VaultPermissionGrants;
+  inheritedPermissions?: VaultPermissionGrants;
   // Access level for the current user (added during queries)
   accessLevel?: "owner" | "read" | "write";
   // Cloud storage (R2/B2) fields
@@ -82,6 +153,75 @@ interface VaultItem {
     quarantinedAt: Timestamp;
     reason: string;
   };
+  // Versioning fields
+  versionNumber?: number;
+  versionCount?: number; // Previous versions kept in the versions subcollection
+  versionsSize?: number; // Total bytes of previous versions, counted against the quota
+  uploadedBy?: string;
+  uploadedAt?: Timestamp;
+  checksum?: string | null;
+  restoredFromVersion?: number;
+  // Deduplication fields
+  contentHash?: string | null; // SHA-256 of the contents, declared by the client until scanning verifies it
+  blobId?: string | null; // Shared blob holding the contents of deduplicated plaintext files
+  // Resumable upload fields
+  uploadStatus?: "uploading" | "completed";
+  uploadSessionId?: string;
+  // Family vault fields. Family items are owned by the tree (userId is its family vault
+  // owner id) and record the member who added them.
+  familyTreeId?: string;
+  createdBy?: string;
+  // Organization fields. Tags are lowercased labels, people tags are the ids of the family
+  // members an item shows, and albumIds are the caller's albums the item is in.
+  tags?: string[];
+  peopleTags?: string[];
+  albumIds?: string[];
+  // Server-made previews of files that aren't end-to-end encrypted, stored beside the object
+  thumbnails?: VaultThumbnails;
+  // Signed thumbnail URLs (added during listing), keyed by size
+  thumbnailUrl?: string;
+  thumbnailUrls?: Record<string, string>;
+  // Client-made thumbnail of an end-to-end encrypted file, encrypted with the file's key,
+  // and its signed URL (added during listing)
+  encryptedThumbnail?: VaultEncryptedThumbnail;
+  encryptedThumbnailUrl?: string;
+}
+
+interface VaultFileVersion extends VaultStorageLocation {
+  id: string;
+  itemId: string;
+  versionNumber: number;
+  size: number;
+  mimeType: string | null;
+  checksum: string | null;
+  contentHash: string | null;
+  isEncrypted: boolean;
+  encryptionKeyId: string | null;
+  encryptionMetadata: unknown;
+  uploadedBy: string;
+  uploadedAt: Timestamp;
+  restoredFromVersion: number | null;
+  archivedBy: string;
+  archivedAt: Timestamp;
+}
+
+interface VaultUploadSession {
+  userId: string;
+  itemId: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  partSize: number;
+  partCount: number;
+  storageProvider: "r2" | "b2";
+  bucket: string;
+  key: string;
+  multipartUploadId: string; // Upload ID of the S3 multipart upload on R2/B2
+  completedParts: UploadedPart[]; // Parts the client reported as uploaded, in part order
+  status: "active" | "completed" | "aborted" | "expired";
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  expiresAt: Timestamp; // Extended on every part request or report
 }
 
 interface VaultShareLink {
@@ -95,8 +235,56 @@ interface VaultShareLink {
   accessCount: number;
   maxAccessCount: number | null;
   lastAccessedAt?: Timestamp;
+  // Revoked links stay listed with their access history but can't be opened
+  revokedAt?: Timestamp | null;
+  revokedBy?: string;
+  // Consecutive wrong passwords, reset by a successful access
+  failedPasswordAttempts?: number;
+  lockedUntil?: Timestamp | null;
+}
+
+interface VaultShareAccessLog {
+  shareId: string;
+  itemId: string;
+  ownerId: string;
+  // Signed-in accessor, or the masked IP for anonymous access
+  accessorId: string;
+  ip: string | null;
+  country: string | null;
+  userAgent: string | null;
+  outcome: ShareLinkAccessOutcome;
+  timestamp: Timestamp;
+}
+
+// Stored in familyVaults under the id of the family tree that owns the vault
+interface FamilyVaultDocument {
+  familyTreeId: string;
+  // Family plan the vault's storage counts against, or null once its owner has left
+  planOwnerId: string | null;
+  defaultRole: FamilyVaultRole;
+  roles: Record<string, FamilyVaultRole>;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+interface FamilyVaultAccess {
+  familyTreeId: string;
+  ownerId: string;
+  tree: FamilyVaultTree;
+  vault: FamilyVaultDocument | null;
+  role: FamilyVaultRole | null;
 }
 
+// Limit on how far up the folder tree sharing info looks for the folder a grant came from
+const MAX_SHARING_ANCESTORS = 32;
+
+const SHARE_LINK_STATUS_MESSAGES: Record<Exclude<ShareLinkStatus, "active">, string> = {
+  expired: "Share link has expired",
+  exhausted: "Share link has reached its access limit",
+  revoked: "Share link has been revoked",
+};
+
 // MARK: - Access Control Helper Functions
 
 /**
@@ -127,6 +315,19 @@ async function verifyVaultItemAccess(
       return {hasAccess: true, item};
     }
 
+    // Family vault items are governed by the user's role in the family vault
+    if (item.familyTreeId) {
+      const {role} = await getFamilyVaultAccess(db, item.familyTreeId, userId);
+      const hasAccess = requiredPermission === "write" ?
+        canModifyFamilyVaultItem(role, item, userId) :
+        hasFamilyVaultRole(role, "viewer");
+      return {
+        hasAccess,
+        item: hasAccess ? item : undefined,
+        reason: hasAccess ? undefined : "No family vault access",
+      };
+    }
+
     // Check sharing permissions
     const permissions = item.permissions || {canRead: [], canWrite: []};
     const sharedWith = item.sharedWith || [];
@@ -214,6 +415,40 @@ async function getAccessibleVaultItems(
   return Array.from(itemsMap.values());
 }
 
+/**
+ * Adds signed URLs for an item's thumbnails. The smallest size is also returned as
+ * thumbnailUrl for grids; a URL that can't be signed leaves the item without a preview.
+ * Encrypted files get the URL of their encrypted thumbnail for the client to decrypt.
+ */
+async function withVaultThumbnailUrls(item: VaultItem): Promise<VaultItem> {
+  if (item.isEncrypted) {
+    if (!item.encryptedThumbnail) return item;
+    try {
+      const encryptedThumbnailUrl = await getVaultThumbnailService().getEncryptedThumbnailUrl(item.encryptedThumbnail);
+      return {...item, encryptedThumbnailUrl};
+    } catch (error) {
+      const {message, context} = formatErrorForLogging(error, {itemId: item.id});
+      logger.warn("Failed to sign encrypted vault thumbnail URL", {message, ...context});
+      return item;
+    }
+  }
+
+  const thumbnails = item.thumbnails;
+  const source = getVaultStorageObject(getVaultStorageLocation(item));
+  if (thumbnails?.status !== "ready" || !source || thumbnails.sourceKey !== source.path) {
+    return item;
+  }
+
+  try {
+    const thumbnailUrls = await getVaultThumbnailService().getThumbnailUrls(source, thumbnails.sizes);
+    return {...item, thumbnailUrl: thumbnailUrls[String(Math.min(...thumbnails.sizes))], thumbnailUrls};
+  } catch (error) {
+    const {message, context} = formatErrorForLogging(error, {itemId: item.id});
+    logger.warn("Failed to sign vault thumbnail URLs", {message, ...context});
+    return item;
+  }
+}
+
 // Optimized descendant-path updater: single query on path prefix + batched writes
 async function updateDescendantPaths(
   db: FirebaseFirestore.Firestore,
@@ -249,6 +484,263 @@ async function updateDescendantPaths(
   }
 }
 
+// MARK: - Folder Sharing Helpers
+
+/**
+ * Loads the folder a new or moved item goes into. Items can only be filed in folders of
+ * the vault they belong to (the caller's own, or a family vault), so everything inside a
+ * shared folder stays visible to its owner.
+ */
+async function getOwnedParentFolder(
+  db: FirebaseFirestore.Firestore,
+  parentId: string | null,
+  userId: string
+): Promise<VaultItem | null> {
+  if (!parentId) return null;
+
+  const parentDoc = await db.collection("vaultItems").doc(parentId).get();
+  if (!parentDoc.exists) {
+    throw createError(ErrorCode.NOT_FOUND, "Parent folder not found");
+  }
+  const parent = {id: parentDoc.id, ...parentDoc.data()} as VaultItem;
+  if (parent.isDeleted) {
+    throw createError(ErrorCode.NOT_FOUND, "Parent folder not found");
+  }
+  if (parent.type !== "folder") {
+    throw createError(ErrorCode.INVALID_REQUEST, "Parent must be a folder");
+  }
+  if (parent.userId !== userId) {
+    throw createError(
+      ErrorCode.PERMISSION_DENIED,
+      getFamilyTreeIdFromOwner(userId) ?
+        "You can only add items to folders in the family vault" :
+        "You can only add items to your own folders"
+    );
+  }
+  return parent;
+}
+
+/**
+ * Sharing fields for a new item, inherited from the folder it's created in
+ */
+function inheritVaultSharing(parent: VaultItem | null): Partial<VaultItem> {
+  if (!parent?.sharedWith?.length) return {};
+  return resolveVaultSharing(undefined, parent.permissions);
+}
+
+/**
+ * Writes an item's sharing and passes it down the folder tree: each descendant keeps its
+ * explicit grants and inherits the effective grants of its parent. Deleted descendants are
+ * included so they come back with the right access when restored.
+ * @returns Number of items whose sharing changed
+ */
+async function applyVaultSharing(
+  db: FirebaseFirestore.Firestore,
+  itemRef: FirebaseFirestore.DocumentReference,
+  item: VaultItem,
+  explicit: VaultPermissionGrants,
+  inherited: VaultPermissionGrants
+): Promise<number> {
+  let batch = db.batch();
+  let count = 0;
+  let changed = 0;
+  const MAX_BATCH = 490;
+
+  const queue = [{ref: itemRef, item, explicit, inherited}];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    const resolved = resolveVaultSharing(next.explicit, next.inherited);
+
+    // Descendants inherit from this item, so nothing below it changes either
+    if (!isSharingChanged(next.item, resolved)) continue;
+
+    batch.update(next.ref, {...resolved, updatedAt: FieldValue.serverTimestamp()});
+    changed++;
+    count++;
+    if (count >= MAX_BATCH) {
+      await batch.commit();
+      batch = db.batch();
+      count = 0;
+    }
+
+    if (next.item.type === "folder") {
+      const childrenSnapshot = await db
+        .collection("vaultItems")
+        .where("userId", "==", next.item.userId)
+        .where("parentId", "==", next.ref.id)
+        .get();
+
+      childrenSnapshot.docs.forEach((doc) => {
+        const child = doc.data() as VaultItem;
+        queue.push({
+          ref: doc.ref,
+          item: child,
+          explicit: getExplicitGrants(child),
+          inherited: resolved.permissions,
+        });
+      });
+    }
+  }
+
+  if (count > 0) {
+    await batch.commit();
+  }
+  return changed;
+}
+
+// MARK: - Family Vault Helpers
+
+/**
+ * Loads a family tree, its family vault (if one was created) and the user's role in it
+ */
+async function getFamilyVaultAccess(
+  db: FirebaseFirestore.Firestore,
+  familyTreeId: string,
+  userId: string
+): Promise<FamilyVaultAccess> {
+  const [treeDoc, vaultDoc] = await db.getAll(
+    db.collection("familyTrees").doc(familyTreeId),
+    db.collection("familyVaults").doc(familyTreeId)
+  );
+  if (!treeDoc.exists) {
+    throw createError(ErrorCode.NOT_FOUND, "Family tree not found");
+  }
+
+  const tree = treeDoc.data() as FamilyVaultTree;
+  const vault = vaultDoc.exists ? (vaultDoc.data() as FamilyVaultDocument) : null;
+  return {
+    familyTreeId,
+    ownerId: getFamilyVaultOwnerId(familyTreeId),
+    tree,
+    vault,
+    role: vault ? resolveFamilyVaultRole(tree, vault, userId) : null,
+  };
+}
+
+async function requireFamilyVaultRole(
+  db: FirebaseFirestore.Firestore,
+  familyTreeId: string,
+  userId: string,
+  required: FamilyVaultRole
+): Promise<FamilyVaultAccess & {vault: FamilyVaultDocument}> {
+  const access = await getFamilyVaultAccess(db, familyTreeId, userId);
+  if (!access.vault) {
+    throw createError(ErrorCode.NOT_FOUND, "This family tree doesn't have a family vault");
+  }
+  if (!hasFamilyVaultRole(access.role, required)) {
+    throw createError(
+      ErrorCode.PERMISSION_DENIED,
+      `You need ${required} access to the family vault to do this`
+    );
+  }
+  return {...access, vault: access.vault};
+}
+
+/**
+ * The vault a request works in: the caller's own, or the family vault of the given tree
+ * when the caller has the required role in it
+ */
+async function resolveVaultSpace(
+  db: FirebaseFirestore.Firestore,
+  userId: string,
+  familyTreeId: string | null | undefined,
+  required: FamilyVaultRole
+): Promise<{ownerId: string; family: FamilyVaultAccess | null}> {
+  if (!familyTreeId) {
+    return {ownerId: userId, family: null};
+  }
+  const family = await requireFamilyVaultRole(db, familyTreeId, userId, required);
+  return {ownerId: family.ownerId, family};
+}
+
+/**
+ * Rejects renaming, moving, deleting or restoring an item the user doesn't control: their
+ * own items, or family vault items their role lets them change
+ */
+async function requireVaultItemModifyAccess(
+  db: FirebaseFirestore.Firestore,
+  item: VaultItem,
+  userId: string
+): Promise<void> {
+  if (item.familyTreeId) {
+    const {role} = await getFamilyVaultAccess(db, item.familyTreeId, userId);
+    if (!canModifyFamilyVaultItem(role, item, userId)) {
+      throw createError(ErrorCode.PERMISSION_DENIED, "Permission denied");
+    }
+    return;
+  }
+  if (item.userId !== userId) {
+    throw createError(ErrorCode.PERMISSION_DENIED, "Permission denied");
+  }
+}
+
+/**
+ * Checks there's room for an upload in the vault that will hold it. Family vault files
+ * count against the family plan the vault is linked to instead of the uploader's quota.
+ */
+async function validateVaultUploadStorage(
+  db: FirebaseFirestore.Firestore,
+  ownerId: string,
+  fileSize: number,
+  mimeType: string
+): Promise<void> {
+  const familyTreeId = getFamilyTreeIdFromOwner(ownerId);
+  if (familyTreeId) {
+    const vaultDoc = await db.collection("familyVaults").doc(familyTreeId).get();
+    const planOwnerId = (vaultDoc.data() as FamilyVaultDocument | undefined)?.planOwnerId;
+    if (!planOwnerId) {
+      throw createError(
+        ErrorCode.FAILED_PRECONDITION,
+        "This family vault isn't linked to a family plan. Ask a tree admin to link one."
+      );
+    }
+
+    const storageLimit = await new StorageCalculationService().validateFamilyVaultStorageLimit(
+      planOwnerId,
+      fileSize
+    );
+    if (!storageLimit.allowed) {
+      throw createError(ErrorCode.RESOURCE_EXHAUSTED, storageLimit.reason || "Storage limit exceeded");
+    }
+    return;
+  }
+
+  const validationService = new SubscriptionValidationService();
+  const storageValidation = await validationService.validateStorageAllocation(
+    ownerId,
+    fileSize,
+    mimeType
+  );
+
+  if (!storageValidation.isValid) {
+    throw createError(ErrorCode.RESOURCE_EXHAUSTED, storageValidation.errors.join("; "));
+  }
+
+  // Log warnings if any (e.g., usage > 80%)
+  if (storageValidation.warnings && storageValidation.warnings.length > 0) {
+    logger.warn("Storage allocation warnings", {
+      userId: ownerId,
+      warnings: storageValidation.warnings,
+      fileSize,
+    });
+  }
+}
+
+/**
+ * Fields that tie a new item to the family vault it's created in, if any
+ */
+function familyVaultItemFields(
+  family: FamilyVaultAccess | null,
+  userId: string,
+  type: "file" | "folder"
+): Partial<VaultItem> {
+  if (!family) return {};
+  return {
+    familyTreeId: family.familyTreeId,
+    ...(type === "file" ? {uploadedBy: userId} : {createdBy: userId}),
+  };
+}
+
 // MARK: - Cloud Functions
 
 /**
@@ -290,7 +782,8 @@ export const getVaultEncryptionStatus = onCall(
 );
 
 /**
- * Store encryption metadata for a vault item
+ * Store encryption metadata for a vault item. A client-made thumbnail can be registered
+ * with it; the response then carries the URL to upload the encrypted thumbnail to.
  */
 export const storeVaultItemEncryptionMetadata = onCall(
   {
@@ -298,6 +791,7 @@ export const storeVaultItemEncryptionMetadata = onCall(
     region: DEFAULT_REGION,
     memory: "256MiB",
     timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+    secrets: [R2_CONFIG],
   },
   withAuth(
     async (request) => {
@@ -309,7 +803,7 @@ export const storeVaultItemEncryptionMetadata = onCall(
         uid
       );
 
-      const {itemId, encryptionMetadata} = validatedData;
+      const {itemId, encryptionMetadata, thumbnail} = validatedData;
 
       const db = getFirestore();
 
@@ -319,24 +813,49 @@ export const storeVaultItemEncryptionMetadata = onCall(
         throw createError(ErrorCode.PERMISSION_DENIED, "Not authorized to update this item");
       }
 
+      // Only encrypted files need a client-made thumbnail; the rest get one from the server
+      let encryptedThumbnail: VaultEncryptedThumbnail | null = null;
+      if (thumbnail) {
+        if (!itemDoc.data()?.isEncrypted) {
+          throw createError(ErrorCode.FAILED_PRECONDITION, "Only encrypted files can have an encrypted thumbnail");
+        }
+        const thumbnailError = validateEncryptedThumbnail(thumbnail);
+        if (thumbnailError) {
+          throw createError(ErrorCode.INVALID_ARGUMENT, thumbnailError);
+        }
+        encryptedThumbnail = {
+          path: getEncryptedVaultThumbnailKey(uid, itemId),
+          nonce: thumbnail.nonce,
+          size: thumbnail.size,
+        };
+      }
+
       // Store encryption metadata in a separate collection
       await db.collection("vaultEncryptionMetadata").doc(itemId).set({
         userId: uid,
         itemId,
         encryptionMetadata,
+        ...(encryptedThumbnail ? {thumbnail: encryptedThumbnail} : {}),
         createdAt: FieldValue.serverTimestamp(),
         updatedAt: FieldValue.serverTimestamp(),
       });
 
+      let thumbnailUploadUrl: string | undefined;
+      if (encryptedThumbnail) {
+        await itemDoc.ref.update({encryptedThumbnail, updatedAt: FieldValue.serverTimestamp()});
+        thumbnailUploadUrl = await getVaultThumbnailService().getEncryptedThumbnailUploadUrl(encryptedThumbnail);
+      }
+
       logger.info(
         "Stored encryption metadata",
         createLogContext({
           itemId,
           userId: uid,
+          hasThumbnail: !!encryptedThumbnail,
         })
       );
 
-      return {success: true};
+      return thumbnailUploadUrl ? {success: true, thumbnailUploadUrl} : {success: true};
     },
     "storeVaultItemEncryptionMetadata",
     {
@@ -415,33 +934,24 @@ export const getVaultUploadSignedUrl = onCall(
         uid
       );
 
-      const {fileName, mimeType, parentId = null, isEncrypted = false, fileSize} = validatedData;
+      const {
+        fileName,
+        mimeType,
+        parentId = null,
+        isEncrypted = false,
+        fileSize,
+        contentHash = null,
+        familyTreeId = null,
+      } = validatedData;
 
       // Sanitize inputs
       const sanitizedFileName = sanitizeFileName(fileName);
       const sanitizedMimeType = sanitizeMimeType(mimeType);
 
-      // Use the new SubscriptionValidationService for comprehensive storage validation
-      const validationService = new SubscriptionValidationService();
-      const storageValidation = await validationService.validateStorageAllocation(
-        uid,
-        fileSize,
-        sanitizedMimeType
-      );
-
-      if (!storageValidation.isValid) {
-        throw createError(ErrorCode.RESOURCE_EXHAUSTED, storageValidation.errors.join("; "));
-      }
-
-      // Log warnings if any (e.g., usage > 80%)
-      if (storageValidation.warnings && storageValidation.warnings.length > 0) {
-        logger.warn("Storage allocation warnings", {
-          userId: uid,
-          warnings: storageValidation.warnings,
-          fileSize,
-          fileName: sanitizedFileName,
-        });
-      }
+      const db = getFirestore();
+      // Uploads to a family vault need contributor access and count against its family plan
+      const space = await resolveVaultSpace(db, uid, familyTreeId, "contributor");
+      await validateVaultUploadStorage(db, space.ownerId, fileSize, sanitizedMimeType);
 
       // Validate file for security (MIME type, extensions)
       const validation = validateUploadRequest(sanitizedFileName, sanitizedMimeType);
@@ -449,15 +959,8 @@ export const getVaultUploadSignedUrl = onCall(
         throw createError(ErrorCode.INVALID_REQUEST, validation.error || "Invalid upload request");
       }
 
-      const db = getFirestore();
-      let parentPath = "";
-      if (parentId) {
-        const parentDoc = await db.collection("vaultItems").doc(parentId).get();
-        if (!parentDoc.exists) {
-          throw createError(ErrorCode.NOT_FOUND, "Parent folder not found");
-        }
-        parentPath = (parentDoc.data() as VaultItem).path;
-      }
+      const parent = await getOwnedParentFolder(db, parentId, space.ownerId);
+      const parentPath = parent?.path ?? "";
 
       // Initialize storage adapter
       const storageAdapter = getStorageAdapter();
@@ -466,7 +969,7 @@ export const getVaultUploadSignedUrl = onCall(
 
       // Pre-create the vault item BEFORE generating signed URL
       const vaultItemData: Partial<VaultItem> = {
-        userId: uid,
+        userId: space.ownerId,
         name: sanitizedFileName,
         type: "file",
         parentId,
@@ -479,6 +982,9 @@ export const getVaultUploadSignedUrl = onCall(
         isEncrypted,
         storageProvider,
         scanStatus: "pending", // Add scanStatus field
+        contentHash, // Checked against the uploaded bytes before the file leaves staging
+        ...inheritVaultSharing(parent),
+        ...familyVaultItemFields(space.family, uid, "file"),
       };
 
       // Create the item in Firestore first to get the document ID
@@ -547,7 +1053,8 @@ export const getVaultUploadSignedUrl = onCall(
 );
 
 /**
- * Fetch vault items for a user and optional parent folder (includes shared items)
+ * Fetch vault items for a user and optional parent folder (includes shared items), or
+ * the items of a family vault when a family tree is given
  */
 export const getVaultItems = onCall(
   {
@@ -555,6 +1062,7 @@ export const getVaultItems = onCall(
     region: DEFAULT_REGION,
     memory: "256MiB",
     timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+    secrets: [R2_CONFIG],
   },
   withAuth(
     async (request) => {
@@ -564,10 +1072,34 @@ export const getVaultItems = onCall(
       const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.getVaultItems, uid);
 
       const parentId = validatedData.parentId ?? null;
+      const familyTreeId: string | null = validatedData.familyTreeId ?? null;
       const db = getFirestore();
 
-      // Get all accessible items (owned + shared) for the specified parent
-      const items = await getAccessibleVaultItems(db, uid, parentId);
+      let items: VaultItem[];
+      let familyRole: FamilyVaultRole | null = null;
+      if (familyTreeId) {
+        const family = await requireFamilyVaultRole(db, familyTreeId, uid, "viewer");
+        familyRole = family.role;
+        const snapshot = await db
+          .collection("vaultItems")
+          .where("userId", "==", family.ownerId)
+          .where("isDeleted", "==", false)
+          .where("parentId", "==", parentId)
+          .get();
+
+        // Contributors can add to any folder but only change what they added themselves
+        items = snapshot.docs.map((doc) => {
+          const item = {id: doc.id, ...doc.data()} as VaultItem;
+          const accessLevel: "read" | "write" =
+            canModifyFamilyVaultItem(familyRole, item, uid) ? "write" : "read";
+          return {...item, accessLevel};
+        });
+      } else {
+        // Get all accessible items (owned + shared) for the specified parent
+        items = await getAccessibleVaultItems(db, uid, parentId);
+      }
+
+      items = await Promise.all(items.map(withVaultThumbnailUrls));
 
       // Sort: folders first, then by name
       items.sort((a, b) => {
@@ -583,9 +1115,10 @@ export const getVaultItems = onCall(
           itemCount: items.length,
           userId: uid,
           parentId: parentId || "root",
+          familyTreeId,
         })
       );
-      return {items};
+      return familyTreeId ? {items, familyRole} : {items};
     },
     "getVaultItems",
     {
@@ -595,6 +1128,68 @@ export const getVaultItems = onCall(
   )
 );
 
+/**
+ * Fetch the "shared with me" root: items other members shared with the user directly.
+ * Items inside a shared folder are listed by opening that folder with getVaultItems.
+ */
+export const getSharedWithMeVaultItems = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      validateRequest(request.data, VALIDATION_SCHEMAS.getSharedWithMeVaultItems, uid);
+
+      const db = getFirestore();
+      const snapshot = await db
+        .collection("vaultItems")
+        .where("sharedWith", "array-contains", uid)
+        .where("isDeleted", "==", false)
+        .get();
+
+      const sharedItems = snapshot.docs
+        .map((doc) => ({id: doc.id, ...doc.data()} as VaultItem))
+        .filter((item) => item.userId !== uid && isSharedRoot(item, uid));
+
+      const ownerNames = await getVaultUploaderNames(
+        db,
+        sharedItems.map((item) => item.userId)
+      );
+      const items = sharedItems.map((item) => ({
+        ...item,
+        accessLevel: getAccessLevel(item.permissions, uid) ?? "read",
+        ownerName: ownerNames.get(item.userId) || "Unknown User",
+      }));
+
+      // Sort: folders first, then by name
+      items.sort((a, b) => {
+        if (a.type !== b.type) {
+          return a.type === "folder" ? -1 : 1;
+        }
+        return a.name.localeCompare(b.name);
+      });
+
+      logger.info(
+        "Retrieved shared vault items",
+        createLogContext({
+          itemCount: items.length,
+          userId: uid,
+        })
+      );
+      return {items};
+    },
+    "getSharedWithMeVaultItems",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.read,
+    }
+  )
+);
+
 /**
  * Create a new folder in the vault
  */
@@ -616,25 +1211,19 @@ export const createVaultFolder = onCall(
         uid
       );
 
-      const {name, parentFolderId} = validatedData;
+      const {name, parentFolderId, familyTreeId} = validatedData;
       const parentId = parentFolderId ?? null;
 
       // Additional sanitization for folder name
       const sanitizedName = sanitizeFolderName(name);
 
       const db = getFirestore();
+      const space = await resolveVaultSpace(db, uid, familyTreeId, "contributor");
       // Build path with sanitized name
-      let path = `/${sanitizedName}`;
-      if (parentId) {
-        const parentDoc = await db.collection("vaultItems").doc(parentId).get();
-        if (!parentDoc.exists) {
-          throw createError(ErrorCode.NOT_FOUND, "Parent folder not found");
-        }
-        const parentData = parentDoc.data() as VaultItem;
-        path = `${parentData.path}/${sanitizedName}`;
-      }
+      const parent = await getOwnedParentFolder(db, parentId, space.ownerId);
+      const path = parent ? `${parent.path}/${sanitizedName}` : `/${sanitizedName}`;
       const docRef = await db.collection("vaultItems").add({
-        userId: uid,
+        userId: space.ownerId,
         name: sanitizedName,
         type: "folder",
         parentId,
@@ -642,6 +1231,9 @@ export const createVaultFolder = onCall(
         createdAt: FieldValue.serverTimestamp(),
         updatedAt: FieldValue.serverTimestamp(),
         isDeleted: false,
+        // Folders created inside a shared folder are shared the same way
+        ...inheritVaultSharing(parent),
+        ...familyVaultItemFields(space.family, uid, "folder"),
       });
       return {id: docRef.id};
     },
@@ -698,14 +1290,19 @@ export const addVaultFile = onCall(
 
         const existingItem = itemDoc.data() as VaultItem;
 
-        // Verify ownership
-        if (existingItem.userId !== uid) {
+        // Verify ownership, or that this user started the upload of a new version
+        if (existingItem.userId !== uid && existingItem.uploadedBy !== uid) {
           throw createError(
             ErrorCode.PERMISSION_DENIED,
             "You don't have permission to update this item"
           );
         }
 
+        // Resumable uploads have to be completed before the file can be added
+        if (existingItem.uploadStatus === "uploading") {
+          throw createError(ErrorCode.FAILED_PRECONDITION, "File upload hasn't been completed yet");
+        }
+
         // Update the item with final details
         const updateData: any = {
           updatedAt: FieldValue.serverTimestamp(),
@@ -994,9 +1591,7 @@ export const renameVaultItem = onCall(
         throw createError(ErrorCode.NOT_FOUND, "Item not found");
       }
       const data = doc.data() as VaultItem;
-      if (data.userId !== uid) {
-        throw createError(ErrorCode.PERMISSION_DENIED, "Permission denied");
-      }
+      await requireVaultItemModifyAccess(db, data, uid);
 
       // Build new path with sanitized name
       const parentPath = data.parentId ?
@@ -1051,19 +1646,21 @@ export const moveVaultItem = onCall(
         throw createError(ErrorCode.NOT_FOUND, "Item not found");
       }
       const data = doc.data() as VaultItem;
-      if (data.userId !== uid) {
-        throw createError(ErrorCode.PERMISSION_DENIED, "Permission denied");
+      await requireVaultItemModifyAccess(db, data, uid);
+
+      // Items stay in the vault they belong to
+      const newParent = await getOwnedParentFolder(db, newParentId ?? null, data.userId);
+      if (newParent && (newParent.id === itemId || newParent.path.startsWith(`${data.path}/`))) {
+        throw createError(ErrorCode.INVALID_REQUEST, "A folder can't be moved into itself");
       }
 
       // Build new path
-      const parentPath = newParentId ?
-        (await db.collection("vaultItems").doc(newParentId).get()).data()!.path :
-        "";
+      const parentPath = newParent?.path ?? "";
       const newPath = parentPath ? `${parentPath}/${data.name}` : `/${data.name}`;
       
       // Update this item
       await docRef.update({
-        parentId: newParentId,
+        parentId: newParent?.id ?? null,
         path: newPath,
         updatedAt: FieldValue.serverTimestamp(),
       });
@@ -1072,6 +1669,22 @@ export const moveVaultItem = onCall(
       if (data.type === "folder") {
         await updateDescendantPaths(db, data.path, newPath);
       }
+
+      // Access inherited from the old folder goes and the new folder's applies, to the item
+      // and everything in it. Grants made on the items themselves are kept.
+      const sharingChanges = await applyVaultSharing(
+        db,
+        docRef,
+        data,
+        getExplicitGrants(data),
+        newParent?.permissions ?? {}
+      );
+      if (sharingChanges > 0) {
+        logger.info(
+          "Updated sharing of moved vault items",
+          createLogContext({itemId, newParentId: newParent?.id || "root", sharingChanges, userId: uid})
+        );
+      }
       
       return {success: true};
     },
@@ -1183,9 +1796,7 @@ export const deleteVaultItem = onCall(
       }
 
       const item = doc.data() as VaultItem;
-      if (item.userId !== uid) {
-        throw createError(ErrorCode.PERMISSION_DENIED, "Permission denied");
-      }
+      await requireVaultItemModifyAccess(db, item, uid);
 
       // OPTIMIZED: Use path-based query for O(n) complexity instead of O(d × n)
       const itemsToDelete: Array<{
@@ -1199,13 +1810,14 @@ export const deleteVaultItem = onCall(
         r2Key?: string;
         b2Bucket?: string;
         b2Key?: string;
+        blobId?: string | null;
       }> = [];
 
       if (item.type === "folder") {
         // For folders: get all items with paths that start with this folder's path
         const childrenSnapshot = await db
           .collection("vaultItems")
-          .where("userId", "==", uid)
+          .where("userId", "==", item.userId)
           .where("path", ">=", item.path)
           .where("path", "<", item.path + "\uffff")
           .where("isDeleted", "==", false)
@@ -1225,6 +1837,7 @@ export const deleteVaultItem = onCall(
             r2Key: childData.r2Key,
             b2Bucket: childData.b2Bucket,
             b2Key: childData.b2Key,
+            blobId: childData.blobId,
           });
         });
       } else {
@@ -1240,6 +1853,7 @@ export const deleteVaultItem = onCall(
           r2Key: item.r2Key,
           b2Bucket: item.b2Bucket,
           b2Key: item.b2Key,
+          blobId: item.blobId,
         });
       }
 
@@ -1260,19 +1874,18 @@ export const deleteVaultItem = onCall(
         });
         firestoreOpsCount++;
 
-        // Schedule storage deletion for files
-        if (itemDetail.type === "file") {
+        // Schedule storage deletion for files. Deduplicated contents may be shared, so
+        // their reference is only released on permanent deletion.
+        if (itemDetail.type === "file" && !itemDetail.blobId) {
           if (itemDetail.storageProvider === "r2" && itemDetail.r2Bucket && itemDetail.r2Key) {
             // Schedule R2 deletion
             storageDeletePromises.push(
               (async () => {
                 try {
                   const storageAdapter = getStorageAdapter();
-                  await storageAdapter.deleteFile({
-                    path: itemDetail.r2Key!,
-                    bucket: itemDetail.r2Bucket!,
-                    provider: "r2",
-                  });
+                  const object = {path: itemDetail.r2Key!, bucket: itemDetail.r2Bucket!, provider: "r2" as const};
+                  await storageAdapter.deleteFile(object);
+                  await getVaultThumbnailService().deleteThumbnails(object);
                   logger.info(
                     "Deleted R2 file",
                     createLogContext({
@@ -1399,7 +2012,8 @@ export const deleteVaultItem = onCall(
 );
 
 /**
- * Get all deleted (soft-deleted) vault items for the user
+ * Search the user's vault items by name or tag. Results can be narrowed to items with all
+ * of the given tags, to an album, or to the items matching a smart collection's rules.
  */
 export const searchVaultItems = onCall(
   {
@@ -1418,13 +2032,23 @@ export const searchVaultItems = onCall(
         uid
       );
 
-      const { query, fileTypes, parentId, includeDeleted, sortBy, sortOrder, limit } = validatedData;
+      const { query, fileTypes, parentId, includeDeleted, sortBy, sortOrder, limit, albumId, collectionId } = validatedData;
       
       // Sanitize search query
       const sanitizedQuery = query ? sanitizeUserInput(query) : "";
+      const tags = normalizeVaultTags(validatedData.tags);
       
       const db = getFirestore();
 
+      // Albums and smart collections are checked before the search so other users' ids
+      // are reported as not found rather than as a failed search
+      if (albumId) {
+        await getOwnedVaultCollection<VaultAlbum>(db, "vaultAlbums", albumId, uid);
+      }
+      const collectionRules = collectionId ?
+        (await getOwnedVaultCollection<VaultSmartCollection>(db, "vaultSmartCollections", collectionId, uid)).data.rules :
+        null;
+
       try {
         // Build query - using correct collection name
         let vaultQuery = db.collection("vaultItems")
@@ -1438,18 +2062,26 @@ export const searchVaultItems = onCall(
           vaultQuery = vaultQuery.where("parentId", "==", parentId);
         }
 
+        // Firestore allows one array-contains filter per query, so the album or the first
+        // tag narrows the query and the remaining tags are checked below
+        if (albumId) {
+          vaultQuery = vaultQuery.where("albumIds", "array-contains", albumId);
+        } else if (tags.length > 0) {
+          vaultQuery = vaultQuery.where("tags", "array-contains", tags[0]);
+        }
+
         // Execute query
         const snapshot = await vaultQuery.get();
         
-        // Filter by search query and file types
+        // Filter by search query, file types, tags and collection rules
         let items = snapshot.docs
           .map(doc => ({
             id: doc.id,
             ...doc.data(),
-          }))
+          }) as VaultItem & Record<string, any>)
           .filter(item => {
-            // Text search with sanitized query
-            if (sanitizedQuery && !item.name.toLowerCase().includes(sanitizedQuery.toLowerCase())) {
+            // Text search with sanitized query, matching names and tags
+            if (sanitizedQuery && !matchesVaultQuery(item, sanitizedQuery)) {
               return false;
             }
             
@@ -1457,6 +2089,17 @@ export const searchVaultItems = onCall(
             if (fileTypes && fileTypes.length > 0 && !fileTypes.includes(item.fileType)) {
               return false;
             }
+
+            if (!tags.every((tag) => (item.tags || []).includes(tag))) {
+              return false;
+            }
+
+            if (collectionRules && !matchesSmartCollectionRules(
+              {...item, createdAt: item.createdAt?.toMillis()},
+              collectionRules
+            )) {
+              return false;
+            }
             
             return true;
           });
@@ -1491,7 +2134,10 @@ export const searchVaultItems = onCall(
           query: sanitizedQuery,
           resultCount: items.length,
           fileTypes,
-          parentId
+          parentId,
+          tags,
+          albumId,
+          collectionId
         }));
 
         // Log successful operation
@@ -1531,10 +2177,14 @@ export const getDeletedVaultItems = onCall(
       throw createError(ErrorCode.UNAUTHENTICATED, "Authentication required");
     }
 
+    const {familyTreeId} = validateRequest(request.data, VALIDATION_SCHEMAS.getDeletedVaultItems, uid);
+
     const db = getFirestore();
+    // The family vault trash is looked after by its managers
+    const space = await resolveVaultSpace(db, uid, familyTreeId, "manager");
     const snapshot = await db
       .collection("vaultItems")
-      .where("userId", "==", uid)
+      .where("userId", "==", space.ownerId)
       .where("isDeleted", "==", true)
       .orderBy("updatedAt", "desc")
       .limit(100) // Limit to prevent excessive data transfer
@@ -1604,7 +2254,9 @@ export const restoreVaultItem = onCall(
       }
 
       const data = doc.data() as VaultItem;
-      if (data.userId !== uid) {
+      if (data.familyTreeId) {
+        await requireVaultItemModifyAccess(db, data, uid);
+      } else if (data.userId !== uid) {
         throw createError(
           ErrorCode.PERMISSION_DENIED,
           "You don't have permission to restore this item"
@@ -1730,15 +2382,19 @@ export const cleanupDeletedVaultItems = onSchedule(
 
     // Batch delete items and their storage files
     const batch = db.batch();
-    const filesToDelete: string[] = [];
+    const filesToDelete: VaultStorageLocation[] = [];
+    const thumbnailsToDelete: VaultEncryptedThumbnail[] = [];
     let deletedCount = 0;
 
     for (const doc of snapshot.docs) {
       const data = doc.data() as VaultItem;
 
-      // Collect storage paths for deletion
-      if (data.type === "file" && data.storagePath) {
-        filesToDelete.push(data.storagePath);
+      // Collect storage locations for deletion
+      if (data.type === "file") {
+        filesToDelete.push(getVaultStorageLocation(data));
+      }
+      if (data.encryptedThumbnail) {
+        thumbnailsToDelete.push(data.encryptedThumbnail);
       }
 
       // Delete Firestore document
@@ -1749,27 +2405,21 @@ export const cleanupDeletedVaultItems = onSchedule(
     // Commit batch delete
     await batch.commit();
 
-    // Delete files from storage (R2)
-    if (filesToDelete.length > 0) {
-      const storageAdapter = getStorageAdapter();
-      const deletePromises = filesToDelete.map(async (path) => {
-        try {
-          await storageAdapter.deleteFile({
-            path: path,
-          });
-        } catch (error) {
-          logger.warn(
-            "Failed to delete file from storage",
-            createLogContext({
-              path,
-              error: error instanceof Error ? error.message : "Unknown error",
-            })
-          );
-        }
-      });
+    // Delete previous versions of the deleted files
+    await Promise.all(
+      snapshot.docs
+        .filter((doc) => (doc.data() as VaultItem).type === "file")
+        .map((doc) => deleteVaultFileVersions(db, [doc.id], (doc.data() as VaultItem).userId))
+    );
 
-      await Promise.all(deletePromises);
+    // Delete files from storage, keeping deduplicated contents other files still reference
+    if (filesToDelete.length > 0) {
+      const blobService = getVaultBlobService();
+      await Promise.all(filesToDelete.map((location) => blobService.releaseStorage(location)));
     }
+    await Promise.all(thumbnailsToDelete.map((thumbnail) =>
+      getVaultThumbnailService().deleteEncryptedThumbnail(thumbnail)
+    ));
 
     logger.info(
       "Scheduled cleanup completed",
@@ -1826,33 +2476,15 @@ export const shareVaultItem = onCall(
         throw createError(ErrorCode.INVALID_REQUEST, "One or more user IDs are invalid");
       }
 
-      // Update sharing permissions
-      const currentSharedWith = data.sharedWith || [];
-      const currentPermissions = data.permissions || {canRead: [], canWrite: []};
-
-      // Remove duplicates and merge
-      const newSharedWith = Array.from(new Set([...currentSharedWith, ...userIds]));
-      const newPermissions = {
-        canRead:
-          permissions === "read" ?
-            Array.from(new Set([...(currentPermissions.canRead || []), ...userIds])) :
-            currentPermissions.canRead || [],
-        canWrite:
-          permissions === "write" ?
-            Array.from(new Set([...(currentPermissions.canWrite || []), ...userIds])) :
-            currentPermissions.canWrite || [],
-      };
-
-      // If granting write permission, also grant read
-      if (permissions === "write") {
-        newPermissions.canRead = Array.from(new Set([...newPermissions.canRead, ...userIds]));
-      }
-
-      await itemRef.update({
-        sharedWith: newSharedWith,
-        permissions: newPermissions,
-        updatedAt: FieldValue.serverTimestamp(),
-      });
+      // Sharing a folder also shares everything in it, including items added later.
+      // Admin access is write access on vault items.
+      const sharedItemCount = await applyVaultSharing(
+        db,
+        itemRef,
+        data,
+        grantAccess(getExplicitGrants(data), userIds, permissions === "read" ? "read" : "write"),
+        getInheritedGrants(data)
+      );
 
       // Create audit log entries
       const batch = db.batch();
@@ -1878,6 +2510,7 @@ export const shareVaultItem = onCall(
         createLogContext({
           itemId,
           sharedWithCount: userIds.length,
+          sharedItemCount,
           permissions,
           userId: uid,
         })
@@ -1912,7 +2545,7 @@ export const revokeVaultItemAccess = onCall(
         uid
       );
 
-      const {itemId, userIds} = validatedData;
+      const {itemId, userId} = validatedData;
 
       const db = getFirestore();
       const itemRef = db.collection("vaultItems").doc(itemId);
@@ -1930,49 +2563,50 @@ export const revokeVaultItemAccess = onCall(
         );
       }
 
-      // Remove users from sharing permissions
-      const currentSharedWith = data.sharedWith || [];
-      const currentPermissions = data.permissions || {canRead: [], canWrite: []};
+      // Access inherited from a folder can only be revoked on that folder
+      const explicit = getExplicitGrants(data);
+      const inherited = getInheritedGrants(data);
+      if (!getAccessLevel(explicit, userId)) {
+        throw createError(
+          ErrorCode.INVALID_REQUEST,
+          getAccessLevel(inherited, userId) ?
+            "Access comes from a shared folder. Revoke it on that folder instead" :
+            "This item isn't shared with that user"
+        );
+      }
 
-      const newSharedWith = currentSharedWith.filter((userId) => !userIds.includes(userId));
-      const newPermissions = {
-        canRead: (currentPermissions.canRead || []).filter((userId) => !userIds.includes(userId)),
-        canWrite: (currentPermissions.canWrite || []).filter((userId) => !userIds.includes(userId)),
-      };
+      // Revoking on a folder also removes the access its items inherited from it
+      const updatedItemCount = await applyVaultSharing(
+        db,
+        itemRef,
+        data,
+        revokeAccess(explicit, [userId]),
+        inherited
+      );
 
-      await itemRef.update({
-        sharedWith: newSharedWith,
-        permissions: newPermissions,
-        updatedAt: FieldValue.serverTimestamp(),
+      await db.collection("vaultAuditLogs").add({
+        itemId,
+        userId: uid,
+        targetUserId: userId,
+        action: "revoke_access",
+        timestamp: FieldValue.serverTimestamp(),
+        metadata: {
+          itemName: data.name,
+          itemType: data.type,
+        },
       });
 
-      // Create audit log entries
-      const batch = db.batch();
-      for (const userId of userIds) {
-        const auditRef = db.collection("vaultAuditLogs").doc();
-        batch.set(auditRef, {
-          itemId,
-          userId: uid,
-          targetUserId: userId,
-          action: "revoke_access",
-          timestamp: FieldValue.serverTimestamp(),
-          metadata: {
-            itemName: data.name,
-            itemType: data.type,
-          },
-        });
-      }
-      await batch.commit();
-
       logger.info(
         "Revoked vault item access",
         createLogContext({
           itemId,
-          revokedCount: userIds.length,
+          targetUserId: userId,
+          updatedItemCount,
           userId: uid,
         })
       );
-      return {success: true};
+      // A user can keep access through a shared folder the item is in
+      return {success: true, inheritedPermission: getAccessLevel(inherited, userId)};
     },
     "revokeVaultItemAccess",
     {
@@ -2002,7 +2636,7 @@ export const updateVaultItemPermissions = onCall(
         uid
       );
 
-      const {itemId, userPermissions} = validatedData;
+      const {itemId, userId, permissions} = validatedData;
 
       const db = getFirestore();
       const itemRef = db.collection("vaultItems").doc(itemId);
@@ -2020,75 +2654,45 @@ export const updateVaultItemPermissions = onCall(
         );
       }
 
-      // Verify all user IDs exist
-      const userIds = userPermissions.map((up: any) => up.userId);
-      const usersSnapshot = await db
-        .collection("users")
-        .where(FieldPath.documentId(), "in", userIds)
-        .get();
-
-      if (usersSnapshot.size !== userIds.length) {
-        throw createError(ErrorCode.INVALID_REQUEST, "One or more user IDs are invalid");
-      }
-
-      // Update permissions
-      const currentSharedWith = data.sharedWith || [];
-      const newSharedWith = Array.from(new Set([...currentSharedWith, ...userIds]));
-
-      const newPermissions = {
-        canRead: [] as string[],
-        canWrite: [] as string[],
-      };
-
-      // Build new permission arrays
-      for (const userPerm of userPermissions) {
-        if (userPerm.permission === "read") {
-          newPermissions.canRead.push(userPerm.userId);
-        } else if (userPerm.permission === "write") {
-          newPermissions.canWrite.push(userPerm.userId);
-          // Write permission includes read permission
-          newPermissions.canRead.push(userPerm.userId);
-        }
+      const userDoc = await db.collection("users").doc(userId).get();
+      if (!userDoc.exists) {
+        throw createError(ErrorCode.INVALID_REQUEST, "User ID is invalid");
       }
 
-      // Remove duplicates
-      newPermissions.canRead = Array.from(new Set(newPermissions.canRead));
-      newPermissions.canWrite = Array.from(new Set(newPermissions.canWrite));
+      // Sets the access granted on this item; the item's folder can still grant more.
+      // Admin access is write access on vault items.
+      const inherited = getInheritedGrants(data);
+      const updatedItemCount = await applyVaultSharing(
+        db,
+        itemRef,
+        data,
+        setAccess(getExplicitGrants(data), userId, permissions === "read" ? "read" : "write"),
+        inherited
+      );
 
-      await itemRef.update({
-        sharedWith: newSharedWith,
-        permissions: newPermissions,
-        updatedAt: FieldValue.serverTimestamp(),
+      await db.collection("vaultAuditLogs").add({
+        itemId,
+        userId: uid,
+        targetUserId: userId,
+        action: "update_permissions",
+        permissions,
+        timestamp: FieldValue.serverTimestamp(),
+        metadata: {
+          itemName: data.name,
+          itemType: data.type,
+        },
       });
 
-      // Create audit log entries
-      const batch = db.batch();
-      for (const userPerm of userPermissions) {
-        const auditRef = db.collection("vaultAuditLogs").doc();
-        batch.set(auditRef, {
-          itemId,
-          userId: uid,
-          targetUserId: userPerm.userId,
-          action: "update_permissions",
-          permissions: userPerm.permission,
-          timestamp: FieldValue.serverTimestamp(),
-          metadata: {
-            itemName: data.name,
-            itemType: data.type,
-          },
-        });
-      }
-      await batch.commit();
-
       logger.info(
         "Updated vault item permissions",
         createLogContext({
           itemId,
-          updatedCount: userPermissions.length,
+          targetUserId: userId,
+          updatedItemCount,
           userId: uid,
         })
       );
-      return {success: true};
+      return {success: true, inheritedPermission: getAccessLevel(inherited, userId)};
     },
     "updateVaultItemPermissions",
     {
@@ -2135,19 +2739,30 @@ export const getVaultItemSharingInfo = onCall(
 
     const item = accessResult.item!;
     const sharedWith = item.sharedWith || [];
-    const permissions = item.permissions || {canRead: [], canWrite: []};
+    const explicit = getExplicitGrants(item);
+    const inherited = getInheritedGrants(item);
+
+    // Folders the item inherits access from, nearest first
+    const ancestors: VaultItem[] = [];
+    if (inherited.canRead.length > 0) {
+      let parentId = item.parentId;
+      while (parentId && ancestors.length < MAX_SHARING_ANCESTORS) {
+        const parentDoc = await db.collection("vaultItems").doc(parentId).get();
+        if (!parentDoc.exists) break;
+        const parent = {id: parentDoc.id, ...parentDoc.data()} as VaultItem;
+        ancestors.push(parent);
+        parentId = parent.parentId;
+      }
+    }
 
     // Get user information for shared users
     const sharingInfo = [];
     if (sharedWith.length > 0) {
-      const usersSnapshot = await db
-        .collection("users")
-        .where(FieldPath.documentId(), "in", sharedWith)
-        .get();
+      const userDocs = await db.getAll(...sharedWith.map((id) => db.collection("users").doc(id)));
 
       const usersMap = new Map();
-      usersSnapshot.docs.forEach((doc) => {
-        const userData = doc.data();
+      userDocs.filter((doc) => doc.exists).forEach((doc) => {
+        const userData = doc.data()!;
         usersMap.set(doc.id, {
           id: doc.id,
           displayName:
@@ -2162,12 +2777,18 @@ export const getVaultItemSharingInfo = onCall(
       for (const userId of sharedWith) {
         const user = usersMap.get(userId);
         if (user) {
-          const hasWriteAccess = permissions.canWrite?.includes(userId) || false;
-          const permission = hasWriteAccess ? "write" : "read";
+          const inheritedPermission = getAccessLevel(inherited, userId);
+          // The nearest folder that was shared with the user directly
+          const source = inheritedPermission ?
+            ancestors.find((ancestor) => getAccessLevel(getExplicitGrants(ancestor), userId)) :
+            undefined;
 
           sharingInfo.push({
             user,
-            permission,
+            permission: getAccessLevel(item.permissions, userId) ?? "read",
+            explicitPermission: getAccessLevel(explicit, userId),
+            inheritedPermission,
+            inheritedFrom: source ? {id: source.id, name: source.name} : null,
           });
         }
       }
@@ -2374,7 +2995,7 @@ export const createVaultShareLink = onCall(
         uid
       );
 
-      const {itemId, expiresAt, allowDownload, password} = validatedData;
+      const {itemId, expiresAt, allowDownload, password, maxAccessCount, oneTime} = validatedData;
 
       // Validate item ID
       if (!validateItemId(itemId)) {
@@ -2421,7 +3042,10 @@ export const createVaultShareLink = onCall(
         passwordHash,
         createdAt: FieldValue.serverTimestamp() as Timestamp,
         accessCount: 0,
-        maxAccessCount: null,
+        maxAccessCount: resolveMaxAccessCount({oneTime, maxAccessCount}),
+        revokedAt: null,
+        failedPasswordAttempts: 0,
+        lockedUntil: null,
       };
 
       await db.collection("vaultSharedLinks").doc(shareId).set(shareData);
@@ -2437,7 +3061,13 @@ export const createVaultShareLink = onCall(
         userId: uid,
         action: "create_share_link",
         timestamp: FieldValue.serverTimestamp(),
-        metadata: {shareId, expiresAt, passwordProtected: !!password},
+        metadata: {
+          shareId,
+          expiresAt,
+          passwordProtected: !!password,
+          allowDownload: shareData.allowDownload,
+          maxAccessCount: shareData.maxAccessCount,
+        },
       });
 
       logger.info(
@@ -2450,7 +3080,12 @@ export const createVaultShareLink = onCall(
         })
       );
 
-      return {shareId, shareLink};
+      return {
+        shareId,
+        shareLink,
+        allowDownload: shareData.allowDownload,
+        maxAccessCount: shareData.maxAccessCount,
+      };
     },
     "createVaultShareLink",
     {
@@ -2460,6 +3095,111 @@ export const createVaultShareLink = onCall(
   )
 );
 
+/**
+ * Rate limit a single share link across all IPs, so guesses can't be spread over many addresses
+ */
+async function checkShareLinkRateLimit(shareId: string): Promise<void> {
+  try {
+    await checkRedisRateLimit({type: "api", identifier: `share:${shareId}`});
+  } catch (error) {
+    if (error instanceof SecurityError && error.code === "RATE_LIMIT_EXCEEDED") {
+      throw createError(ErrorCode.RESOURCE_EXHAUSTED, "This share link is being opened too often. Please try again later.");
+    }
+    throw error;
+  }
+}
+
+/**
+ * Record an attempt to open a share link for the owner's access log. IPs are masked
+ * before they are stored.
+ */
+async function logShareLinkAccess(
+  db: FirebaseFirestore.Firestore,
+  request: {auth?: {uid: string}; rawRequest: {ip?: string; headers: Record<string, string | string[] | undefined>}},
+  shareId: string,
+  link: VaultShareLink,
+  outcome: ShareLinkAccessOutcome
+): Promise<void> {
+  try {
+    await db.collection("vaultShareAccessLogs").add({
+      shareId,
+      itemId: link.itemId,
+      ownerId: link.ownerId,
+      ...getShareLinkAccessor(request.rawRequest, request.auth?.uid),
+      outcome,
+      timestamp: FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    // The access itself shouldn't fail because the log couldn't be written
+    logger.warn("Failed to log share link access", createLogContext({shareId, outcome, error: String(error)}));
+  }
+}
+
+/**
+ * Load the file behind a share link, rejecting files that were deleted since the link was made
+ */
+async function getSharedVaultItem(db: FirebaseFirestore.Firestore, link: VaultShareLink): Promise<VaultItem> {
+  const itemDoc = await db.collection("vaultItems").doc(link.itemId).get();
+  const item = itemDoc.data() as VaultItem | undefined;
+
+  if (!item || item.isDeleted || item.type !== "file") {
+    throw createError(ErrorCode.NOT_FOUND, "The shared file is no longer available");
+  }
+
+  return item;
+}
+
+/**
+ * Describe a share link for its public landing page without using up an access. Only
+ * reveals the file details once the link is known to be openable, and never for
+ * password-protected links; accessVaultShareLink returns those once the password checks out.
+ */
+export const getVaultShareLinkInfo = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withErrorHandling(async (request) => {
+    await checkRateLimitByIP(request, {
+      type: RateLimitType.API,
+      maxRequests: 60,
+      windowSeconds: 60,
+    });
+
+    const {shareId} = request.data;
+
+    if (!shareId) {
+      throw createError(ErrorCode.MISSING_PARAMETERS, "Share ID is required");
+    }
+
+    if (!validateShareId(shareId)) {
+      throw createError(ErrorCode.INVALID_REQUEST, "Invalid share ID format");
+    }
+
+    const db = getFirestore();
+    const shareDoc = await db.collection("vaultSharedLinks").doc(shareId).get();
+
+    if (!shareDoc.exists) {
+      throw createError(ErrorCode.NOT_FOUND, "Share link not found");
+    }
+
+    const shareData = shareDoc.data() as VaultShareLink;
+    const status = getShareLinkStatus(shareData);
+    if (status !== "active") {
+      return {status, message: SHARE_LINK_STATUS_MESSAGES[status]};
+    }
+
+    if (shareData.passwordHash) {
+      return getPasswordShareLinkInfo(shareData);
+    }
+
+    const item = await getSharedVaultItem(db, shareData);
+    return getShareLinkInfo(shareData, item);
+  }, "getVaultShareLinkInfo")
+);
+
 /**
  * Access a vault item via share link
  */
@@ -2489,31 +3229,44 @@ export const accessVaultShareLink = onCall(
       throw createError(ErrorCode.INVALID_REQUEST, "Invalid share ID format");
     }
 
+    // Per-link limit, so spreading guesses over many IPs doesn't help
+    await checkShareLinkRateLimit(shareId);
+
     // Sanitize password if provided
     const sanitizedPassword = password ? sanitizeSharePassword(password) : null;
 
     const db = getFirestore();
 
     // Get share document
-    const shareDoc = await db.collection("vaultSharedLinks").doc(shareId).get();
+    const shareRef = db.collection("vaultSharedLinks").doc(shareId);
+    const shareDoc = await shareRef.get();
 
     if (!shareDoc.exists) {
       throw createError(ErrorCode.NOT_FOUND, "Share link not found");
     }
 
     const shareData = shareDoc.data() as VaultShareLink;
-
-    // Check expiration
-    if (shareData.expiresAt && shareData.expiresAt.toMillis() < Date.now()) {
-      throw createError(ErrorCode.PERMISSION_DENIED, "Share link has expired");
-    }
-
-    // Check password
-    if (shareData.passwordHash) {
-      if (!sanitizedPassword) {
+    const logAccess = (outcome: ShareLinkAccessOutcome) =>
+      logShareLinkAccess(db, request, shareId, shareData, outcome);
+
+    // Check revocation, expiration, access count and password lockout
+    const denial = getShareLinkDenial(shareData, !!sanitizedPassword);
+    if (denial) {
+      await logAccess(denial);
+      if (denial === "locked") {
+        throw createError(
+          ErrorCode.RESOURCE_EXHAUSTED,
+          "Too many incorrect passwords. Please try again later."
+        );
+      }
+      if (denial === "password_required") {
         throw createError(ErrorCode.PERMISSION_DENIED, "Password required");
       }
+      throw createError(ErrorCode.PERMISSION_DENIED, SHARE_LINK_STATUS_MESSAGES[denial]);
+    }
 
+    // Check password
+    if (shareData.passwordHash && sanitizedPassword) {
       const crypto = await import("crypto");
       // Verify password
       const [salt, storedHash] = shareData.passwordHash.split(":");
@@ -2531,24 +3284,73 @@ export const accessVaultShareLink = onCall(
       })();
 
       if (!isValid) {
+        // Count the failure and lock the link after too many in a row
+        const failedAttempts = await db.runTransaction(async (transaction) => {
+          const current = await transaction.get(shareRef);
+          const attempts = ((current.data() as VaultShareLink).failedPasswordAttempts || 0) + 1;
+          const lockoutMs = getPasswordLockoutMs(attempts);
+          transaction.update(shareRef, {
+            failedPasswordAttempts: attempts,
+            ...(lockoutMs > 0 && {lockedUntil: Timestamp.fromMillis(Date.now() + lockoutMs)}),
+          });
+          return attempts;
+        });
+
+        await logAccess("invalid_password");
+        logger.warn("Invalid share link password", createLogContext({
+          shareId,
+          failedAttempts,
+          ip: maskIpAddress(request.rawRequest.ip),
+        }));
         throw createError(ErrorCode.PERMISSION_DENIED, "Invalid password");
       }
     }
 
-    // Check access count
-    if (shareData.maxAccessCount && shareData.accessCount >= shareData.maxAccessCount) {
-      throw createError(ErrorCode.PERMISSION_DENIED, "Access limit exceeded");
+    const item = await getSharedVaultItem(db, shareData);
+
+    // Encrypted files are decrypted in the browser with the key from the link's URL
+    // fragment, which never reaches the server. The stream header isn't secret.
+    let encryption: {header: number[]; metadata: Record<string, unknown>} | null = null;
+    if (item.isEncrypted) {
+      const metadataDoc = await db.collection("vaultEncryptionMetadata").doc(shareData.itemId).get();
+      const encryptionMetadata = metadataDoc.data()?.encryptionMetadata;
+      if (!encryptionMetadata) {
+        throw createError(ErrorCode.NOT_FOUND, "Encryption metadata not found");
+      }
+      encryption = {header: encryptionMetadata.header, metadata: encryptionMetadata.metadata};
     }
 
-    // Get download URL using the owner's permissions
-    const downloadUrl = await internalGetVaultDownloadUrl(shareData.ownerId, shareData.itemId);
+    // View-only links get a short-lived URL for inline viewing. The page only hides
+    // its download controls: whoever can view the file can still save the URL's
+    // contents, so view-only discourages downloads rather than preventing them.
+    const allowDownload = shareData.allowDownload !== false;
+    const url = await internalGetVaultDownloadUrl(
+      shareData.ownerId,
+      shareData.itemId,
+      allowDownload ? 3600 : 300
+    );
+
+    // Count the access, re-checking the limit so a one-time link can't be used twice
+    // by requests racing each other
+    const accessCount = await db.runTransaction(async (transaction) => {
+      const current = await transaction.get(shareRef);
+      const link = current.data() as VaultShareLink;
+      const currentStatus = getShareLinkStatus(link);
+      if (currentStatus !== "active") {
+        throw createError(ErrorCode.PERMISSION_DENIED, SHARE_LINK_STATUS_MESSAGES[currentStatus]);
+      }
 
-    // Update access count
-    await shareDoc.ref.update({
-      accessCount: FieldValue.increment(1),
-      lastAccessedAt: FieldValue.serverTimestamp(),
+      transaction.update(shareRef, {
+        accessCount: FieldValue.increment(1),
+        lastAccessedAt: FieldValue.serverTimestamp(),
+        failedPasswordAttempts: 0,
+        lockedUntil: null,
+      });
+      return link.accessCount + 1;
     });
 
+    await logAccess("granted");
+
     // Audit log
     await db.collection("vaultAuditLogs").add({
       itemId: shareData.itemId,
@@ -2558,15 +3360,80 @@ export const accessVaultShareLink = onCall(
       metadata: {shareId, ip: request.rawRequest.ip},
     });
 
-    // Return download URL and metadata
+    // Return the URL and link metadata
     return {
-      downloadUrl,
-      allowDownload: shareData.allowDownload,
+      downloadUrl: allowDownload ? url : null,
+      viewUrl: url,
+      allowDownload,
       itemId: shareData.itemId,
+      fileName: item.name,
+      mimeType: item.mimeType || null,
+      size: item.size || 0,
+      isEncrypted: !!item.isEncrypted,
+      encryption,
+      remainingAccesses: getRemainingAccesses({...shareData, accessCount}),
     };
   }, "accessVaultShareLink")
 );
 
+/**
+ * Revoke a share link. The link stays listed with its access history but can't be opened.
+ */
+export const revokeVaultShareLink = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+
+      const {shareId} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.revokeVaultShareLink,
+        uid
+      );
+
+      const db = getFirestore();
+      const shareRef = db.collection("vaultSharedLinks").doc(shareId);
+      const shareDoc = await shareRef.get();
+
+      if (!shareDoc.exists) {
+        throw createError(ErrorCode.NOT_FOUND, "Share link not found");
+      }
+
+      const shareData = shareDoc.data() as VaultShareLink;
+      if (shareData.ownerId !== uid) {
+        throw createError(ErrorCode.PERMISSION_DENIED, "Not authorized to revoke this share link");
+      }
+
+      if (!shareData.revokedAt) {
+        await shareRef.update({
+          revokedAt: FieldValue.serverTimestamp(),
+          revokedBy: uid,
+        });
+
+        await db.collection("vaultAuditLogs").add({
+          itemId: shareData.itemId,
+          userId: uid,
+          action: "revoke_share_link",
+          timestamp: FieldValue.serverTimestamp(),
+          metadata: {shareId},
+        });
+      }
+
+      return {success: true};
+    },
+    "revokeVaultShareLink",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
 /**
  * Get vault statistics for the current user
  * Note: This is scoped to user's own data for security
@@ -2735,6 +3602,7 @@ export const getVaultStorageInfo = onCall(
       .get();
 
     let totalUsed = 0;
+    let versionsUsed = 0;
     let fileCount = 0;
     let folderCount = 0;
     const byFileType: Record<string, { count: number; size: number }> = {
@@ -2754,6 +3622,8 @@ export const getVaultStorageInfo = onCall(
         fileCount++;
         const size = data.size || 0;
         totalUsed += size;
+        // Previous versions count against the quota alongside current contents
+        versionsUsed += data.versionsSize || 0;
 
         const fileType = data.fileType || "other";
         if (byFileType[fileType]) {
@@ -2763,6 +3633,11 @@ export const getVaultStorageInfo = onCall(
       }
     });
 
+    totalUsed += versionsUsed;
+
+    // Deduplicated files share stored bytes, so physical usage can be below totalUsed
+    const usage = summarizeVaultStorageUsage(snapshot.docs.map((doc) => doc.data() as VaultItem));
+
     // Get user's storage quota (using standardized limit)
     const quota = FILE_SIZE_LIMITS.MAX_FILE_SIZE; // 1GB in bytes
 
@@ -2779,6 +3654,9 @@ export const getVaultStorageInfo = onCall(
 
     return {
       totalUsed,
+      versionsUsed,
+      physicalUsed: usage.physicalBytes,
+      dedupedBytes: usage.dedupedBytes,
       fileCount,
       folderCount,
       byFileType,
@@ -2788,91 +3666,1969 @@ export const getVaultStorageInfo = onCall(
   }, "getVaultStorageInfo")
 );
 
+// MARK: - Family Vault
+
 /**
- * Update an existing vault file (e.g., replace content)
+ * The family plan a user's uploads count against: the plan they're a member of, or
+ * their own family plan
  */
-export const updateVaultFile = onCall(
-  {
-    region: DEFAULT_REGION,
-    memory: "512MiB",
-    timeoutSeconds: FUNCTION_TIMEOUT.LONG,
+async function getFamilyPlanOwnerId(
+  db: FirebaseFirestore.Firestore,
+  userId: string
+): Promise<string | null> {
+  const [userDoc, subscriptionDoc] = await db.getAll(
+    db.collection("users").doc(userId),
+    db.collection("subscriptions").doc(userId)
+  );
+  const familyPlanOwnerId = userDoc.data()?.familyPlanOwnerId;
+  if (familyPlanOwnerId) return familyPlanOwnerId;
+  return subscriptionDoc.data()?.plan === SubscriptionPlan.FAMILY ? userId : null;
+}
+
+/**
+ * Create the shared vault of a family tree. Only tree admins can create it, and its
+ * storage counts against their family plan. If the vault exists but lost its plan because
+ * the plan owner left, this links it to the caller's plan instead.
+ */
+export const createFamilyVault = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {familyTreeId, defaultRole} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.createFamilyVault,
+        uid
+      );
+
+      const db = getFirestore();
+      const {tree, vault} = await getFamilyVaultAccess(db, familyTreeId, uid);
+      if (!isFamilyTreeAdmin(tree, uid)) {
+        throw createError(ErrorCode.PERMISSION_DENIED, "Only tree admins can set up the family vault");
+      }
+      if (vault?.planOwnerId) {
+        throw createError(ErrorCode.ALREADY_EXISTS, "This family tree already has a family vault");
+      }
+
+      const planOwnerId = await getFamilyPlanOwnerId(db, uid);
+      if (!planOwnerId) {
+        throw createError(
+          ErrorCode.FAILED_PRECONDITION,
+          "A family plan is needed to store files in a family vault"
+        );
+      }
+
+      const vaultRef = db.collection("familyVaults").doc(familyTreeId);
+      if (vault) {
+        await vaultRef.update({planOwnerId, updatedAt: Timestamp.now()});
+      } else {
+        const newVault: FamilyVaultDocument = {
+          familyTreeId,
+          planOwnerId,
+          defaultRole: defaultRole ?? DEFAULT_FAMILY_VAULT_ROLE,
+          roles: {},
+          createdBy: uid,
+          createdAt: Timestamp.now(),
+          updatedAt: Timestamp.now(),
+        };
+        await vaultRef.set(newVault);
+      }
+
+      await logVaultAuditEvent(uid, vault ? "family_vault_plan_linked" : "family_vault_created", undefined, {
+        familyTreeId,
+        planOwnerId,
+      });
+
+      logger.info(
+        vault ? "Linked family vault to family plan" : "Created family vault",
+        createLogContext({familyTreeId, planOwnerId, userId: uid})
+      );
+      return {success: true, familyTreeId};
+    },
+    "createFamilyVault",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * Get a family vault's settings, the caller's role, each member's role and how much of
+ * the family plan the vault uses. Tree members can call this before the vault exists to
+ * find out whether they can create it.
+ */
+export const getFamilyVault = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {familyTreeId} = validateRequest(request.data, VALIDATION_SCHEMAS.getFamilyVault, uid);
+
+      const db = getFirestore();
+      const {tree, vault, role} = await getFamilyVaultAccess(db, familyTreeId, uid);
+      if (!isFamilyTreeAdmin(tree, uid) && !(tree.memberUserIds || []).includes(uid)) {
+        throw createError(ErrorCode.PERMISSION_DENIED, "You aren't a member of this family tree");
+      }
+
+      const canManage = isFamilyTreeAdmin(tree, uid);
+      const treeName = tree.treeName || "Family";
+      if (!vault) {
+        return {familyTreeId, treeName, exists: false, canManage, role: null};
+      }
+
+      const memberIds = [...new Set([tree.ownerUserId, ...(tree.memberUserIds || [])])];
+      const [memberNames, usage] = await Promise.all([
+        getVaultUploaderNames(db, memberIds),
+        new StorageCalculationService().getFamilyVaultUsage(familyTreeId),
+      ]);
+      const members = memberIds.map((memberId) => ({
+        userId: memberId,
+        displayName: memberNames.get(memberId) || "Unknown User",
+        role: resolveFamilyVaultRole(tree, vault, memberId) ?? vault.defaultRole,
+        isTreeAdmin: isFamilyTreeAdmin(tree, memberId),
+      }));
+
+      return {
+        familyTreeId,
+        treeName,
+        exists: true,
+        canManage,
+        role,
+        defaultRole: vault.defaultRole,
+        planLinked: vault.planOwnerId !== null,
+        usedBytes: usage.logicalBytes,
+        members,
+      };
+    },
+    "getFamilyVault",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.read,
+    }
+  )
+);
+
+/**
+ * Change a member's role in the family vault. Tree admins always manage the vault, so
+ * only other members' roles can be changed.
+ */
+export const updateFamilyVaultMemberRole = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {familyTreeId, userId, role} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.updateFamilyVaultMemberRole,
+        uid
+      );
+
+      const db = getFirestore();
+      const {tree, vault} = await getFamilyVaultAccess(db, familyTreeId, uid);
+      if (!vault) {
+        throw createError(ErrorCode.NOT_FOUND, "This family tree doesn't have a family vault");
+      }
+      if (!isFamilyTreeAdmin(tree, uid)) {
+        throw createError(ErrorCode.PERMISSION_DENIED, "Only tree admins can change family vault roles");
+      }
+      if (isFamilyTreeAdmin(tree, userId)) {
+        throw createError(ErrorCode.INVALID_REQUEST, "Tree admins always manage the family vault");
+      }
+      if (!(tree.memberUserIds || []).includes(userId)) {
+        throw createError(ErrorCode.NOT_FOUND, "Member not found in this family tree");
+      }
+
+      await db.collection("familyVaults").doc(familyTreeId).update({
+        [`roles.${userId}`]: role,
+        updatedAt: Timestamp.now(),
+      });
+
+      await logVaultAuditEvent(uid, "family_vault_role_changed", undefined, {
+        familyTreeId,
+        memberId: userId,
+        previousRole: resolveFamilyVaultRole(tree, vault, userId),
+        role,
+      });
+
+      return {success: true, role};
+    },
+    "updateFamilyVaultMemberRole",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+// MARK: - Tags, Albums and Smart Collections
+
+const MAX_VAULT_ALBUMS = 200;
+const MAX_VAULT_SMART_COLLECTIONS = 50;
+
+// Stored in vaultAlbums. Items record the albums they're in (albumIds), so an item can be
+// in several albums and albums are listed with an array-contains query.
+interface VaultAlbum {
+  userId: string;
+  name: string;
+  description: string | null;
+  coverItemId: string | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Stored in vaultSmartCollections. Only the rules are saved; the items are found when the
+// collection is opened through searchVaultItems.
+interface VaultSmartCollection {
+  userId: string;
+  name: string;
+  rules: SmartCollectionRules;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Loads an album or smart collection the caller owns. Other users' albums and collections
+ * are reported as not found.
+ */
+async function getOwnedVaultCollection<T extends {userId: string}>(
+  db: FirebaseFirestore.Firestore,
+  collectionName: "vaultAlbums" | "vaultSmartCollections",
+  id: string,
+  userId: string
+): Promise<{ref: FirebaseFirestore.DocumentReference; data: T}> {
+  const doc = await db.collection(collectionName).doc(id).get();
+  const data = doc.data() as T | undefined;
+  if (!data || data.userId !== userId) {
+    throw createError(
+      ErrorCode.NOT_FOUND,
+      collectionName === "vaultAlbums" ? "Album not found" : "Smart collection not found"
+    );
+  }
+  return {ref: doc.ref, data};
+}
+
+/**
+ * Adds items to and removes them from an album. Only the caller's own items can be put in
+ * their albums; the ids of other items are returned as skipped.
+ */
+async function updateAlbumMembership(
+  db: FirebaseFirestore.Firestore,
+  albumId: string,
+  userId: string,
+  addItemIds: string[],
+  removeItemIds: string[]
+): Promise<{updated: string[]; skipped: string[]}> {
+  const itemIds = [...new Set([...addItemIds, ...removeItemIds])];
+  if (itemIds.length === 0) return {updated: [], skipped: []};
+
+  const itemDocs = await db.getAll(...itemIds.map((id) => db.collection("vaultItems").doc(id)));
+  const batch = db.batch();
+  const updated: string[] = [];
+  const skipped: string[] = [];
+
+  itemDocs.forEach((doc) => {
+    const item = doc.data() as VaultItem | undefined;
+    if (!item || item.userId !== userId || item.isDeleted) {
+      skipped.push(doc.id);
+      return;
+    }
+    batch.update(doc.ref, {
+      albumIds: removeItemIds.includes(doc.id) ?
+        FieldValue.arrayRemove(albumId) :
+        FieldValue.arrayUnion(albumId),
+      updatedAt: Timestamp.now(),
+    });
+    updated.push(doc.id);
+  });
+
+  if (updated.length > 0) {
+    await batch.commit();
+  }
+  return {updated, skipped};
+}
+
+function toVaultAlbumResponse(id: string, album: VaultAlbum, itemCount: number) {
+  return {
+    id,
+    name: album.name,
+    description: album.description,
+    coverItemId: album.coverItemId,
+    itemCount,
+    createdAt: album.createdAt.toMillis(),
+    updatedAt: album.updatedAt.toMillis(),
+  };
+}
+
+function toVaultSmartCollectionResponse(id: string, collection: VaultSmartCollection) {
+  return {
+    id,
+    name: collection.name,
+    rules: collection.rules,
+    createdAt: collection.createdAt.toMillis(),
+    updatedAt: collection.updatedAt.toMillis(),
+  };
+}
+
+/**
+ * Set the tags and people tags of a vault item. Tags are stored lowercased; either list
+ * can be left out to keep what the item has.
+ */
+export const updateVaultItemTags = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {itemId, tags, peopleTags} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.updateVaultItemTags,
+        uid
+      );
+      if (tags === undefined && peopleTags === undefined) {
+        throw createError(ErrorCode.INVALID_REQUEST, "Provide tags or people tags to update");
+      }
+
+      const db = getFirestore();
+      const docRef = db.collection("vaultItems").doc(itemId);
+      const doc = await docRef.get();
+      const item = doc.data() as VaultItem | undefined;
+      if (!item || item.isDeleted) {
+        throw createError(ErrorCode.NOT_FOUND, "Item not found");
+      }
+      await requireVaultItemModifyAccess(db, item, uid);
+
+      const nextTags = tags === undefined ? item.tags || [] : normalizeVaultTags(tags);
+      const nextPeopleTags = peopleTags === undefined ? item.peopleTags || [] : [...new Set<string>(peopleTags)];
+      await docRef.update({
+        tags: nextTags,
+        peopleTags: nextPeopleTags,
+        updatedAt: Timestamp.now(),
+      });
+
+      await logVaultAuditEvent(uid, "tags_updated", itemId, {
+        tagCount: nextTags.length,
+        peopleTagCount: nextPeopleTags.length,
+      });
+
+      return {success: true, tags: nextTags, peopleTags: nextPeopleTags};
+    },
+    "updateVaultItemTags",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * List the tags used on the caller's vault items, most used first, for suggestions and
+ * tag filters
+ */
+export const getVaultTags = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const db = getFirestore();
+
+      const snapshot = await db.collection("vaultItems")
+        .where("userId", "==", uid)
+        .where("isDeleted", "==", false)
+        .select("tags")
+        .get();
+
+      const counts = new Map<string, number>();
+      snapshot.docs.forEach((doc) => {
+        ((doc.data().tags as string[] | undefined) || []).forEach((tag) => {
+          counts.set(tag, (counts.get(tag) || 0) + 1);
+        });
+      });
+
+      const tags = Array.from(counts, ([tag, count]) => ({tag, count}))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+      return {tags};
+    },
+    "getVaultTags",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.read,
+    }
+  )
+);
+
+/**
+ * Create an album, optionally with the items to put in it
+ */
+export const createVaultAlbum = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {name, description, itemIds = []} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.createVaultAlbum,
+        uid
+      );
+
+      const db = getFirestore();
+      const existing = await db.collection("vaultAlbums").where("userId", "==", uid).count().get();
+      if (existing.data().count >= MAX_VAULT_ALBUMS) {
+        throw createError(ErrorCode.RESOURCE_EXHAUSTED, `You can have at most ${MAX_VAULT_ALBUMS} albums`);
+      }
+
+      const album: VaultAlbum = {
+        userId: uid,
+        name: name.trim(),
+        description: description?.trim() || null,
+        coverItemId: null,
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      };
+      const albumRef = await db.collection("vaultAlbums").add(album);
+      const {updated} = await updateAlbumMembership(db, albumRef.id, uid, itemIds, []);
+
+      await logVaultAuditEvent(uid, "album_created", undefined, {albumId: albumRef.id, itemCount: updated.length});
+
+      return {album: toVaultAlbumResponse(albumRef.id, album, updated.length)};
+    },
+    "createVaultAlbum",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * List the caller's albums with how many items each holds
+ */
+export const getVaultAlbums = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const db = getFirestore();
+
+      const snapshot = await db.collection("vaultAlbums")
+        .where("userId", "==", uid)
+        .orderBy("createdAt", "desc")
+        .get();
+
+      const albums = await Promise.all(snapshot.docs.map(async (doc) => {
+        const count = await db.collection("vaultItems")
+          .where("userId", "==", uid)
+          .where("isDeleted", "==", false)
+          .where("albumIds", "array-contains", doc.id)
+          .count()
+          .get();
+        return toVaultAlbumResponse(doc.id, doc.data() as VaultAlbum, count.data().count);
+      }));
+
+      return {albums};
+    },
+    "getVaultAlbums",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.read,
+    }
+  )
+);
+
+/**
+ * Rename an album, change its description or pick its cover
+ */
+export const updateVaultAlbum = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {albumId, name, description, coverItemId} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.updateVaultAlbum,
+        uid
+      );
+
+      const db = getFirestore();
+      const {ref} = await getOwnedVaultCollection<VaultAlbum>(db, "vaultAlbums", albumId, uid);
+
+      const update: Partial<VaultAlbum> = {updatedAt: Timestamp.now()};
+      if (name !== undefined) update.name = name.trim();
+      if (description !== undefined) update.description = description.trim() || null;
+      if (coverItemId !== undefined) {
+        const cover = (await db.collection("vaultItems").doc(coverItemId).get()).data() as VaultItem | undefined;
+        if (!cover || cover.userId !== uid || !(cover.albumIds || []).includes(albumId)) {
+          throw createError(ErrorCode.INVALID_REQUEST, "The cover has to be an item in the album");
+        }
+        update.coverItemId = coverItemId;
+      }
+
+      await ref.update(update);
+      return {success: true};
+    },
+    "updateVaultAlbum",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * Delete an album. Its items stay in the vault and are only taken out of the album.
+ */
+export const deleteVaultAlbum = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.MEDIUM,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {albumId} = validateRequest(request.data, VALIDATION_SCHEMAS.deleteVaultAlbum, uid);
+
+      const db = getFirestore();
+      const {ref} = await getOwnedVaultCollection<VaultAlbum>(db, "vaultAlbums", albumId, uid);
+
+      // Deleted items keep the album id too, so they don't reappear in another album if restored
+      const itemsSnapshot = await db.collection("vaultItems")
+        .where("userId", "==", uid)
+        .where("albumIds", "array-contains", albumId)
+        .get();
+
+      const BATCH_SIZE = 400;
+      for (let i = 0; i < itemsSnapshot.docs.length; i += BATCH_SIZE) {
+        const batch = db.batch();
+        itemsSnapshot.docs.slice(i, i + BATCH_SIZE).forEach((doc) => {
+          batch.update(doc.ref, {albumIds: FieldValue.arrayRemove(albumId)});
+        });
+        await batch.commit();
+      }
+      await ref.delete();
+
+      await logVaultAuditEvent(uid, "album_deleted", undefined, {albumId, itemCount: itemsSnapshot.size});
+
+      return {success: true};
+    },
+    "deleteVaultAlbum",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * Add items to an album and take others out of it
+ */
+export const updateVaultAlbumItems = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {albumId, addItemIds = [], removeItemIds = []} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.updateVaultAlbumItems,
+        uid
+      );
+
+      const db = getFirestore();
+      const {ref, data: album} = await getOwnedVaultCollection<VaultAlbum>(db, "vaultAlbums", albumId, uid);
+      const {updated, skipped} = await updateAlbumMembership(db, albumId, uid, addItemIds, removeItemIds);
+
+      const albumUpdate: Partial<VaultAlbum> = {updatedAt: Timestamp.now()};
+      if (album.coverItemId && removeItemIds.includes(album.coverItemId)) {
+        albumUpdate.coverItemId = null;
+      }
+      await ref.update(albumUpdate);
+
+      return {success: true, updatedItemIds: updated, skippedItemIds: skipped};
+    },
+    "updateVaultAlbumItems",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * Save a smart collection. Its items are found with searchVaultItems and a collectionId.
+ */
+export const createVaultSmartCollection = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {name, rules} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.createVaultSmartCollection,
+        uid
+      );
+
+      const db = getFirestore();
+      const existing = await db.collection("vaultSmartCollections").where("userId", "==", uid).count().get();
+      if (existing.data().count >= MAX_VAULT_SMART_COLLECTIONS) {
+        throw createError(
+          ErrorCode.RESOURCE_EXHAUSTED,
+          `You can have at most ${MAX_VAULT_SMART_COLLECTIONS} smart collections`
+        );
+      }
+
+      const collection: VaultSmartCollection = {
+        userId: uid,
+        name: name.trim(),
+        rules: normalizeSmartCollectionRules(rules),
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      };
+      const collectionRef = await db.collection("vaultSmartCollections").add(collection);
+
+      return {collection: toVaultSmartCollectionResponse(collectionRef.id, collection)};
+    },
+    "createVaultSmartCollection",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * List the caller's smart collections
+ */
+export const getVaultSmartCollections = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const db = getFirestore();
+
+      const snapshot = await db.collection("vaultSmartCollections")
+        .where("userId", "==", uid)
+        .orderBy("createdAt", "desc")
+        .get();
+
+      return {
+        collections: snapshot.docs.map((doc) =>
+          toVaultSmartCollectionResponse(doc.id, doc.data() as VaultSmartCollection)
+        ),
+      };
+    },
+    "getVaultSmartCollections",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.read,
+    }
+  )
+);
+
+/**
+ * Rename a smart collection or replace its rules
+ */
+export const updateVaultSmartCollection = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {collectionId, name, rules} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.updateVaultSmartCollection,
+        uid
+      );
+
+      const db = getFirestore();
+      const {ref} = await getOwnedVaultCollection<VaultSmartCollection>(
+        db,
+        "vaultSmartCollections",
+        collectionId,
+        uid
+      );
+
+      const update: Partial<VaultSmartCollection> = {updatedAt: Timestamp.now()};
+      if (name !== undefined) update.name = name.trim();
+      if (rules !== undefined) update.rules = normalizeSmartCollectionRules(rules);
+
+      await ref.update(update);
+      return {success: true};
+    },
+    "updateVaultSmartCollection",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+export const deleteVaultSmartCollection = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+      const {collectionId} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.deleteVaultSmartCollection,
+        uid
+      );
+
+      const db = getFirestore();
+      const {ref} = await getOwnedVaultCollection<VaultSmartCollection>(
+        db,
+        "vaultSmartCollections",
+        collectionId,
+        uid
+      );
+      await ref.delete();
+
+      return {success: true};
+    },
+    "deleteVaultSmartCollection",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+// MARK: - File Versions
+
+const VAULT_VERSIONS_SUBCOLLECTION = "versions";
+
+/**
+ * Snapshots an item's current contents as a previous version
+ */
+function buildVaultFileVersion(
+  id: string,
+  item: VaultItem,
+  encryptionMetadata: unknown,
+  archivedBy: string
+): VaultFileVersion {
+  return {
+    id,
+    itemId: item.id,
+    versionNumber: item.versionNumber || 1,
+    ...getVaultStorageLocation(item),
+    size: item.size || 0,
+    mimeType: item.mimeType || null,
+    checksum: item.checksum || null,
+    contentHash: item.contentHash || null,
+    isEncrypted: item.isEncrypted || false,
+    encryptionKeyId: item.encryptionKeyId || null,
+    encryptionMetadata: encryptionMetadata ?? null,
+    uploadedBy: item.uploadedBy || item.userId,
+    uploadedAt: item.uploadedAt || item.createdAt,
+    restoredFromVersion: item.restoredFromVersion ?? null,
+    archivedBy,
+    archivedAt: Timestamp.now(),
+  };
+}
+
+/**
+ * Throws unless the item's current contents have finished uploading and scanning,
+ * since only settled contents can be kept as a version
+ */
+function requireSettledVaultFile(item: VaultItem): void {
+  if (item.type !== "file") {
+    throw createError(ErrorCode.INVALID_ARGUMENT, "Only files have versions");
+  }
+  if (item.isDeleted) {
+    throw createError(ErrorCode.FAILED_PRECONDITION, "Restore this file from the trash first");
+  }
+  if (!getVaultStorageObject(getVaultStorageLocation(item))) {
+    throw createError(
+      ErrorCode.FAILED_PRECONDITION,
+      "This file is still being uploaded or scanned. Try again once it's ready."
+    );
+  }
+}
+
+/**
+ * Generates a short-lived download URL for an object on any storage provider
+ */
+async function generateVaultObjectDownloadUrl(
+  object: VaultStorageObject,
+  expiresInSeconds: number
+): Promise<string> {
+  if (object.provider === "firebase") {
+    const [url] = await getStorage().bucket().file(object.path).getSignedUrl({
+      version: "v4",
+      action: "read",
+      expires: Date.now() + expiresInSeconds * 1000,
+    });
+    return url;
+  }
+
+  const result = await getStorageAdapter().generateDownloadUrl({
+    path: object.path,
+    bucket: object.bucket,
+    provider: object.provider,
+    expiresIn: expiresInSeconds,
+  });
+  return result.signedUrl;
+}
+
+/**
+ * Releases the bytes behind a version. Deduplicated contents are only deleted once no
+ * other file or version references them.
+ */
+async function deleteVaultVersionObject(version: VaultFileVersion): Promise<void> {
+  await getVaultBlobService().releaseStorage(getVaultStorageLocation(version), {
+    itemId: version.itemId,
+    versionNumber: version.versionNumber,
+  });
+}
+
+/**
+ * Applies a change in version bytes to the owner's cached storage usage
+ */
+async function adjustVaultVersionsUsage(ownerId: string, deltaBytes: number): Promise<void> {
+  // Family vault usage isn't cached on a user, it's summed from the vault's items
+  if (deltaBytes === 0 || getFamilyTreeIdFromOwner(ownerId)) return;
+
+  try {
+    await new StorageCalculationService().updateUserStorageUsage(ownerId, deltaBytes);
+  } catch (error) {
+    logger.warn(
+      "Failed to update storage usage for file versions",
+      createLogContext({
+        userId: ownerId,
+        deltaBytes,
+        error: error instanceof Error ? error.message : "Unknown error",
+      })
+    );
+  }
+}
+
+/**
+ * Deletes the oldest versions of an item beyond the retention limit
+ */
+async function pruneVaultFileVersions(
+  db: FirebaseFirestore.Firestore,
+  itemId: string,
+  ownerId: string
+): Promise<void> {
+  const itemRef = db.collection("vaultItems").doc(itemId);
+  const snapshot = await itemRef.collection(VAULT_VERSIONS_SUBCOLLECTION).get();
+  const versionsToPrune = selectVersionsToPrune(
+    snapshot.docs.map((doc) => doc.data() as VaultFileVersion)
+  );
+  if (versionsToPrune.length === 0) return;
+
+  const prunedBytes = versionsToPrune.reduce((total, version) => total + version.size, 0);
+  const batch = db.batch();
+  versionsToPrune.forEach((version) => {
+    batch.delete(itemRef.collection(VAULT_VERSIONS_SUBCOLLECTION).doc(version.id));
+  });
+  batch.update(itemRef, {
+    versionCount: FieldValue.increment(-versionsToPrune.length),
+    versionsSize: FieldValue.increment(-prunedBytes),
+  });
+  await batch.commit();
+
+  await Promise.all(versionsToPrune.map(deleteVaultVersionObject));
+  await adjustVaultVersionsUsage(ownerId, -prunedBytes);
+}
+
+/**
+ * Deletes every previous version of the given items, including their stored bytes.
+ * Used when items are permanently deleted.
+ */
+async function deleteVaultFileVersions(
+  db: FirebaseFirestore.Firestore,
+  itemIds: string[],
+  ownerId: string
+): Promise<void> {
+  const freedBytes = await Promise.all(
+    itemIds.map(async (itemId) => {
+      try {
+        const snapshot = await db
+          .collection("vaultItems")
+          .doc(itemId)
+          .collection(VAULT_VERSIONS_SUBCOLLECTION)
+          .get();
+
+        let itemBytes = 0;
+        await Promise.all(
+          snapshot.docs.map(async (doc) => {
+            const version = doc.data() as VaultFileVersion;
+            await deleteVaultVersionObject(version);
+            await doc.ref.delete();
+            itemBytes += version.size;
+          })
+        );
+        return itemBytes;
+      } catch (error) {
+        logger.warn(
+          "Failed to delete file versions",
+          createLogContext({
+            itemId,
+            userId: ownerId,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        );
+        return 0;
+      }
+    })
+  );
+
+  await adjustVaultVersionsUsage(
+    ownerId,
+    -freedBytes.reduce((total, bytes) => total + bytes, 0)
+  );
+}
+
+/**
+ * Looks up display names for the users who uploaded versions
+ */
+async function getVaultUploaderNames(
+  db: FirebaseFirestore.Firestore,
+  userIds: string[]
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) return names;
+
+  const userDocs = await db.getAll(...uniqueIds.map((id) => db.collection("users").doc(id)));
+  userDocs.forEach((doc) => {
+    const userData = doc.data() || {};
+    names.set(
+      doc.id,
+      userData.displayName ||
+        `${userData.firstName || ""} ${userData.lastName || ""}`.trim() ||
+        "Unknown User"
+    );
+  });
+  return names;
+}
+
+/**
+ * Replace the contents of a vault file. The current contents are kept as a previous
+ * version, and the new contents are uploaded to staging and scanned like a new file.
+ * Clients upload to the returned URL and then call addVaultFile with the item ID.
+ */
+export const updateVaultFile = onCall(
+  {
+    ...getCorsOptions(),
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+    secrets: [R2_CONFIG],
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+
+      // Validate and sanitize input
+      const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.updateVaultFile, uid);
+
+      const {
+        itemId,
+        fileName,
+        mimeType,
+        fileSize,
+        checksum = null,
+        contentHash = null,
+        isEncrypted = false,
+      } = validatedData;
+
+      const sanitizedFileName = sanitizeFileName(fileName);
+      const sanitizedMimeType = sanitizeMimeType(mimeType);
+
+      const db = getFirestore();
+      const accessResult = await verifyVaultItemAccess(db, itemId, uid, "write");
+      if (!accessResult.hasAccess) {
+        throw createError(
+          ErrorCode.PERMISSION_DENIED,
+          `Access denied: ${accessResult.reason || "No write permission"}`
+        );
+      }
+
+      const item = accessResult.item!;
+      requireSettledVaultFile(item);
+
+      // The previous contents stay stored, so the owner needs room for the whole new file
+      await validateVaultUploadStorage(db, item.userId, fileSize, sanitizedMimeType);
+
+      const validation = validateUploadRequest(sanitizedFileName, sanitizedMimeType);
+      if (!validation.valid) {
+        throw createError(ErrorCode.INVALID_REQUEST, validation.error || "Invalid upload request");
+      }
+
+      // New contents go through the staging bucket and scanning like any other upload
+      const scanConfig = getVaultScanConfig();
+      const r2StagingBucket = scanConfig.stagingBucket;
+      const r2StagingKey = `staging/${item.userId}/${Date.now()}_${sanitizedFileName}`;
+
+      const result = await getStorageAdapter().generateUploadUrl({
+        path: r2StagingKey,
+        contentType: sanitizedMimeType,
+        expiresIn: 300, // 5 minutes
+        metadata: {
+          "uploadedby": uid,
+          "originalname": sanitizedFileName,
+          "parentid": item.parentId || "root",
+          "isencrypted": isEncrypted.toString(),
+          "cf-item-id": itemId,
+          "scan-status": "pending",
+          "staging-upload": "true",
+        },
+        bucket: r2StagingBucket,
+        provider: "r2",
+      });
+
+      const itemRef = db.collection("vaultItems").doc(itemId);
+      const encryptionRef = db.collection("vaultEncryptionMetadata").doc(itemId);
+      const versionRef = itemRef.collection(VAULT_VERSIONS_SUBCOLLECTION).doc();
+
+      const archived = await db.runTransaction(async (transaction) => {
+        const [itemDoc, encryptionDoc] = await Promise.all([
+          transaction.get(itemRef),
+          transaction.get(encryptionRef),
+        ]);
+        if (!itemDoc.exists) {
+          throw createError(ErrorCode.NOT_FOUND, "Vault item not found");
+        }
+
+        const current = {...itemDoc.data(), id: itemDoc.id} as VaultItem;
+        requireSettledVaultFile(current);
+
+        const version = buildVaultFileVersion(
+          versionRef.id,
+          current,
+          encryptionDoc.data()?.encryptionMetadata,
+          uid
+        );
+        transaction.set(versionRef, version);
+        transaction.update(itemRef, {
+          storageProvider: "r2_staging",
+          storagePath: r2StagingKey,
+          r2StagingBucket,
+          r2StagingKey,
+          r2Bucket: null,
+          r2Key: null,
+          b2Bucket: null,
+          b2Key: null,
+          blobId: null, // The archived version keeps the blob reference
+          size: fileSize,
+          mimeType: sanitizedMimeType,
+          checksum,
+          contentHash,
+          isEncrypted,
+          encryptionKeyId: FieldValue.delete(),
+          encryptedBy: FieldValue.delete(),
+          scanStatus: "pending",
+          scanResults: FieldValue.delete(),
+          versionNumber: version.versionNumber + 1,
+          versionCount: FieldValue.increment(1),
+          versionsSize: FieldValue.increment(version.size),
+          restoredFromVersion: FieldValue.delete(),
+          uploadedBy: uid,
+          uploadedAt: FieldValue.serverTimestamp(),
+          cachedUploadUrl: result.signedUrl,
+          cachedUploadUrlExpiry: Timestamp.fromMillis(Date.now() + 300000), // 5 minutes
+          cachedDownloadUrl: FieldValue.delete(),
+          cachedDownloadUrlExpiry: FieldValue.delete(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        // Encrypted contents get fresh metadata from the client after upload
+        if (encryptionDoc.exists) {
+          transaction.delete(encryptionRef);
+        }
+        return version;
+      });
+
+      await adjustVaultVersionsUsage(item.userId, archived.size);
+      await pruneVaultFileVersions(db, itemId, item.userId);
+
+      await db.collection("vaultAuditLogs").add({
+        itemId,
+        userId: uid,
+        action: "update_file",
+        timestamp: FieldValue.serverTimestamp(),
+        metadata: {
+          itemName: item.name,
+          archivedVersion: archived.versionNumber,
+          newVersion: archived.versionNumber + 1,
+          fileSize,
+        },
+      });
+
+      logger.info(
+        "Archived vault file version for update",
+        createLogContext({
+          itemId,
+          versionNumber: archived.versionNumber,
+          userId: uid,
+        })
+      );
+
+      return {
+        signedUrl: result.signedUrl,
+        storagePath: r2StagingKey,
+        itemId,
+        versionNumber: archived.versionNumber + 1,
+        isEncrypted,
+      };
+    },
+    "updateVaultFile",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.mediaUpload,
+    }
+  )
+);
+
+/**
+ * List the previous versions of a vault file, newest first
+ */
+export const getVaultItemVersions = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+
+      const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.getVaultItemVersions, uid);
+      const {itemId} = validatedData;
+
+      const db = getFirestore();
+      const accessResult = await verifyVaultItemAccess(db, itemId, uid, "read");
+      if (!accessResult.hasAccess) {
+        throw createError(
+          ErrorCode.PERMISSION_DENIED,
+          `Access denied: ${accessResult.reason || "No read permission"}`
+        );
+      }
+
+      const item = accessResult.item!;
+      if (item.type !== "file") {
+        throw createError(ErrorCode.INVALID_ARGUMENT, "Only files have versions");
+      }
+
+      const snapshot = await db
+        .collection("vaultItems")
+        .doc(itemId)
+        .collection(VAULT_VERSIONS_SUBCOLLECTION)
+        .orderBy("versionNumber", "desc")
+        .get();
+      const versions = snapshot.docs.map((doc) => doc.data() as VaultFileVersion);
+
+      const currentUploader = item.uploadedBy || item.userId;
+      const uploaderNames = await getVaultUploaderNames(db, [
+        currentUploader,
+        ...versions.map((version) => version.uploadedBy),
+      ]);
+
+      return {
+        current: {
+          versionNumber: item.versionNumber || 1,
+          size: item.size || 0,
+          mimeType: item.mimeType || null,
+          uploadedBy: {id: currentUploader, displayName: uploaderNames.get(currentUploader) || "Unknown User"},
+          uploadedAt: (item.uploadedAt || item.createdAt)?.toDate().toISOString() || null,
+          restoredFromVersion: item.restoredFromVersion ?? null,
+          scanStatus: item.scanStatus || null,
+        },
+        versions: versions.map((version) => ({
+          id: version.id,
+          versionNumber: version.versionNumber,
+          size: version.size,
+          mimeType: version.mimeType,
+          checksum: version.checksum,
+          isEncrypted: version.isEncrypted,
+          uploadedBy: {
+            id: version.uploadedBy,
+            displayName: uploaderNames.get(version.uploadedBy) || "Unknown User",
+          },
+          uploadedAt: version.uploadedAt?.toDate().toISOString() || null,
+          archivedAt: version.archivedAt.toDate().toISOString(),
+          restoredFromVersion: version.restoredFromVersion,
+        })),
+        versionsSize: item.versionsSize || 0,
+        canRestore: item.userId === uid || item.permissions?.canWrite?.includes(uid) || false,
+      };
+    },
+    "getVaultItemVersions",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.read,
+    }
+  )
+);
+
+/**
+ * Get a download URL for a previous version of a vault file
+ */
+export const getVaultVersionDownloadUrl = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+    secrets: [R2_CONFIG],
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.getVaultVersionDownloadUrl,
+        uid
+      );
+      const {itemId, versionId} = validatedData;
+
+      const db = getFirestore();
+      const accessResult = await verifyVaultItemAccess(db, itemId, uid, "read");
+      if (!accessResult.hasAccess) {
+        throw createError(
+          ErrorCode.PERMISSION_DENIED,
+          `Access denied: ${accessResult.reason || "No read permission"}`
+        );
+      }
+
+      const item = accessResult.item!;
+      const versionDoc = await db
+        .collection("vaultItems")
+        .doc(itemId)
+        .collection(VAULT_VERSIONS_SUBCOLLECTION)
+        .doc(versionId)
+        .get();
+      if (!versionDoc.exists) {
+        throw createError(ErrorCode.NOT_FOUND, "Version not found");
+      }
+
+      const version = versionDoc.data() as VaultFileVersion;
+      const object = getVaultStorageObject(getVaultStorageLocation(version));
+      if (!object) {
+        throw createError(ErrorCode.NOT_FOUND, "This version's file is no longer stored");
+      }
+
+      let downloadUrl: string;
+      try {
+        downloadUrl = await generateVaultObjectDownloadUrl(object, 3600); // 1 hour
+      } catch (error) {
+        const {message, context} = formatErrorForLogging(error, {
+          itemId,
+          versionNumber: version.versionNumber,
+          userId: uid,
+          storageProvider: object.provider,
+        });
+        logger.error("Error generating version download URL", {message, ...context});
+        throw createError(ErrorCode.INTERNAL, "Failed to generate download URL");
+      }
+
+      await db.collection("vaultAuditLogs").add({
+        itemId,
+        userId: uid,
+        action: "download_version",
+        timestamp: FieldValue.serverTimestamp(),
+        metadata: {
+          itemName: item.name,
+          versionNumber: version.versionNumber,
+          accessLevel: item.userId === uid ? "owner" : "shared",
+          isEncrypted: version.isEncrypted,
+          storageProvider: object.provider,
+        },
+      });
+
+      return {
+        downloadUrl,
+        versionNumber: version.versionNumber,
+        isEncrypted: version.isEncrypted,
+        encryptionMetadata: version.encryptionMetadata,
+      };
+    },
+    "getVaultVersionDownloadUrl",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.read,
+    }
+  )
+);
+
+/**
+ * Make a previous version the current contents of a vault file. The contents it
+ * replaces are kept as a version, so a restore can always be undone.
+ */
+export const restoreVaultItemVersion = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.restoreVaultItemVersion,
+        uid
+      );
+      const {itemId, versionId} = validatedData;
+
+      const db = getFirestore();
+      const accessResult = await verifyVaultItemAccess(db, itemId, uid, "write");
+      if (!accessResult.hasAccess) {
+        throw createError(
+          ErrorCode.PERMISSION_DENIED,
+          `Access denied: ${accessResult.reason || "No write permission"}`
+        );
+      }
+
+      const itemRef = db.collection("vaultItems").doc(itemId);
+      const encryptionRef = db.collection("vaultEncryptionMetadata").doc(itemId);
+      const restoredRef = itemRef.collection(VAULT_VERSIONS_SUBCOLLECTION).doc(versionId);
+      const archivedRef = itemRef.collection(VAULT_VERSIONS_SUBCOLLECTION).doc();
+
+      const {current, restored} = await db.runTransaction(async (transaction) => {
+        const [itemDoc, restoredDoc, encryptionDoc] = await Promise.all([
+          transaction.get(itemRef),
+          transaction.get(restoredRef),
+          transaction.get(encryptionRef),
+        ]);
+        if (!itemDoc.exists) {
+          throw createError(ErrorCode.NOT_FOUND, "Vault item not found");
+        }
+        if (!restoredDoc.exists) {
+          throw createError(ErrorCode.NOT_FOUND, "Version not found");
+        }
+
+        const item = {...itemDoc.data(), id: itemDoc.id} as VaultItem;
+        requireSettledVaultFile(item);
+
+        const version = restoredDoc.data() as VaultFileVersion;
+        const archived = buildVaultFileVersion(
+          archivedRef.id,
+          item,
+          encryptionDoc.data()?.encryptionMetadata,
+          uid
+        );
+
+        // Swap the stored objects: the current contents become a version and the
+        // chosen version's object becomes the current contents
+        transaction.set(archivedRef, archived);
+        transaction.delete(restoredRef);
+        transaction.update(itemRef, {
+          ...getVaultStorageLocation(version),
+          size: version.size,
+          mimeType: version.mimeType || FieldValue.delete(),
+          checksum: version.checksum,
+          contentHash: version.contentHash ?? null,
+          isEncrypted: version.isEncrypted,
+          encryptionKeyId: version.encryptionKeyId || FieldValue.delete(),
+          scanStatus: "clean",
+          versionNumber: archived.versionNumber + 1,
+          versionsSize: FieldValue.increment(archived.size - version.size),
+          restoredFromVersion: version.versionNumber,
+          uploadedBy: version.uploadedBy,
+          uploadedAt: version.uploadedAt,
+          cachedDownloadUrl: FieldValue.delete(),
+          cachedDownloadUrlExpiry: FieldValue.delete(),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        if (version.encryptionMetadata) {
+          transaction.set(encryptionRef, {
+            userId: item.userId,
+            itemId,
+            encryptionMetadata: version.encryptionMetadata,
+            createdAt: encryptionDoc.data()?.createdAt || FieldValue.serverTimestamp(),
+            updatedAt: FieldValue.serverTimestamp(),
+          });
+        } else if (encryptionDoc.exists) {
+          transaction.delete(encryptionRef);
+        }
+
+        return {current: item, restored: version};
+      });
+
+      await adjustVaultVersionsUsage(current.userId, (current.size || 0) - restored.size);
+
+      await db.collection("vaultAuditLogs").add({
+        itemId,
+        userId: uid,
+        action: "restore_version",
+        timestamp: FieldValue.serverTimestamp(),
+        metadata: {
+          itemName: current.name,
+          restoredVersion: restored.versionNumber,
+          archivedVersion: current.versionNumber || 1,
+        },
+      });
+
+      logger.info(
+        "Restored vault file version",
+        createLogContext({
+          itemId,
+          restoredVersion: restored.versionNumber,
+          userId: uid,
+        })
+      );
+
+      return {
+        success: true,
+        itemId,
+        versionNumber: (current.versionNumber || 1) + 1,
+        restoredFromVersion: restored.versionNumber,
+      };
+    },
+    "restoreVaultItemVersion",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
+    }
+  )
+);
+
+/**
+ * Look up an upload session and check that it belongs to the caller
+ */
+async function getOwnedUploadSession(
+  db: FirebaseFirestore.Firestore,
+  uploadId: string,
+  uid: string
+): Promise<{uploadRef: FirebaseFirestore.DocumentReference; session: VaultUploadSession}> {
+  const uploadRef = db.collection("vaultUploads").doc(uploadId);
+  const uploadDoc = await uploadRef.get();
+
+  if (!uploadDoc.exists) {
+    throw createError(ErrorCode.NOT_FOUND, "Upload session not found");
+  }
+
+  const session = uploadDoc.data() as VaultUploadSession;
+  if (session.userId !== uid) {
+    throw createError(ErrorCode.PERMISSION_DENIED, "Not authorized for this upload");
+  }
+
+  return {uploadRef, session};
+}
+
+/**
+ * Reject uploads to sessions that finished, were aborted or ran out of time
+ */
+function requireActiveUploadSession(session: VaultUploadSession): void {
+  if (session.status === "completed") {
+    throw createError(ErrorCode.ALREADY_EXISTS, "Upload already completed");
+  }
+  if (session.status !== "active" || session.expiresAt.toMillis() <= Date.now()) {
+    throw createError(ErrorCode.FAILED_PRECONDITION, "Upload session has expired or was aborted");
+  }
+}
+
+/**
+ * Abort the multipart upload behind a session, discard its parts and remove the
+ * placeholder vault item if the file never finished uploading
+ */
+async function abandonUploadSession(
+  db: FirebaseFirestore.Firestore,
+  uploadRef: FirebaseFirestore.DocumentReference,
+  session: VaultUploadSession,
+  status: "aborted" | "expired"
+): Promise<void> {
+  await getStorageAdapter().abortMultipartUpload({
+    path: session.key,
+    uploadId: session.multipartUploadId,
+    bucket: session.bucket,
+    provider: session.storageProvider,
+  });
+
+  const batch = db.batch();
+  batch.update(uploadRef, {
+    status,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+
+  const itemRef = db.collection("vaultItems").doc(session.itemId);
+  const itemDoc = await itemRef.get();
+  if (itemDoc.exists && (itemDoc.data() as VaultItem).uploadStatus === "uploading") {
+    batch.delete(itemRef);
+  }
+
+  await batch.commit();
+}
+
+/**
+ * Start a resumable upload. The file is uploaded to the staging bucket in parts, and the
+ * session remembers which parts arrived so an interrupted upload continues where it stopped.
+ */
+export const createVaultUploadSession = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+    secrets: [R2_CONFIG],
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+
+      const validatedData = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.createVaultUploadSession,
+        uid
+      );
+
+      const {
+        fileName,
+        mimeType,
+        parentId = null,
+        isEncrypted = false,
+        fileSize,
+        contentHash = null,
+        familyTreeId = null,
+      } = validatedData;
+
+      const sanitizedFileName = sanitizeFileName(fileName);
+      const sanitizedMimeType = sanitizeMimeType(mimeType);
+
+      const db = getFirestore();
+      const space = await resolveVaultSpace(db, uid, familyTreeId, "contributor");
+      await validateVaultUploadStorage(db, space.ownerId, fileSize, sanitizedMimeType);
+
+      const validation = validateUploadRequest(sanitizedFileName, sanitizedMimeType);
+      if (!validation.valid) {
+        throw createError(ErrorCode.INVALID_REQUEST, validation.error || "Invalid upload request");
+      }
+
+      const parent = await getOwnedParentFolder(db, parentId, space.ownerId);
+      const parentPath = parent?.path ?? "";
+
+      const uploadRef = db.collection("vaultUploads").doc();
+
+      // The item stays out of the scan queue until the last part is in, since scanning
+      // only picks up staged items with a pending scan status
+      const vaultItemData: Partial<VaultItem> = {
+        userId: space.ownerId,
+        name: sanitizedFileName,
+        type: "file",
+        parentId,
+        path: parentPath ? `${parentPath}/${sanitizedFileName}` : `/${sanitizedFileName}`,
+        createdAt: FieldValue.serverTimestamp() as Timestamp,
+        updatedAt: FieldValue.serverTimestamp() as Timestamp,
+        size: fileSize,
+        mimeType: sanitizedMimeType,
+        isDeleted: false,
+        isEncrypted,
+        storageProvider: "r2",
+        uploadStatus: "uploading",
+        uploadSessionId: uploadRef.id,
+        contentHash,
+        ...inheritVaultSharing(parent),
+        ...familyVaultItemFields(space.family, uid, "file"),
+      };
+
+      const itemRef = await db.collection("vaultItems").add(vaultItemData);
+
+      const scanConfig = getVaultScanConfig();
+      const r2StagingBucket = scanConfig.stagingBucket;
+      const r2StagingKey = `staging/${uid}/${Date.now()}_${sanitizedFileName}`;
+
+      let multipartUploadId: string;
+      try {
+        const multipart = await getStorageAdapter().createMultipartUpload({
+          path: r2StagingKey,
+          contentType: sanitizedMimeType,
+          metadata: {
+            "uploadedby": uid,
+            "originalname": sanitizedFileName,
+            "parentid": parentId || "root",
+            "isencrypted": isEncrypted.toString(),
+            "cf-item-id": itemRef.id,
+            "scan-status": "pending",
+            "staging-upload": "true",
+          },
+          bucket: r2StagingBucket,
+          provider: "r2",
+        });
+        multipartUploadId = multipart.uploadId;
+      } catch (error) {
+        await itemRef.delete();
+        throw error;
+      }
+
+      const plan = planUploadParts(fileSize);
+      const expiresAt = Timestamp.fromMillis(Date.now() + UPLOAD_SESSION_TTL_MS);
+      const session: VaultUploadSession = {
+        userId: uid,
+        itemId: itemRef.id,
+        fileName: sanitizedFileName,
+        mimeType: sanitizedMimeType,
+        fileSize,
+        partSize: plan.partSize,
+        partCount: plan.partCount,
+        storageProvider: "r2",
+        bucket: r2StagingBucket,
+        key: r2StagingKey,
+        multipartUploadId,
+        completedParts: [],
+        status: "active",
+        createdAt: Timestamp.now(),
+        updatedAt: Timestamp.now(),
+        expiresAt,
+      };
+
+      const batch = db.batch();
+      batch.set(uploadRef, session);
+      batch.update(itemRef, {
+        storagePath: r2StagingKey,
+        r2StagingBucket,
+        r2StagingKey,
+        storageProvider: "r2_staging",
+      });
+      await batch.commit();
+
+      logger.info("Created vault upload session", createLogContext({
+        uploadId: uploadRef.id,
+        itemId: itemRef.id,
+        fileSize,
+        partCount: plan.partCount,
+        userId: uid,
+      }));
+
+      return {
+        uploadId: uploadRef.id,
+        itemId: itemRef.id,
+        storagePath: r2StagingKey,
+        partSize: plan.partSize,
+        partCount: plan.partCount,
+        expiresAt: expiresAt.toMillis(),
+      };
+    },
+    "createVaultUploadSession",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.mediaUpload,
+    }
+  )
+);
+
+/**
+ * Get the state of an upload session, used by clients to resume from the first missing part
+ */
+export const getVaultUploadSession = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
   },
   withAuth(
     async (request) => {
       const uid = requireAuth(request);
 
-      // Validate and sanitize input
-      const validatedData = validateRequest(request.data, VALIDATION_SCHEMAS.updateVaultFile, uid);
+      const {uploadId} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.getVaultUploadSession,
+        uid
+      );
+
+      const db = getFirestore();
+      const {session} = await getOwnedUploadSession(db, uploadId, uid);
+      const expired = session.status === "active" && session.expiresAt.toMillis() <= Date.now();
+
+      return {
+        uploadId,
+        itemId: session.itemId,
+        storagePath: session.key,
+        status: expired ? "expired" : session.status,
+        fileName: session.fileName,
+        fileSize: session.fileSize,
+        partSize: session.partSize,
+        partCount: session.partCount,
+        completedParts: session.completedParts,
+        missingParts: findMissingParts(session.partCount, session.completedParts),
+        expiresAt: session.expiresAt.toMillis(),
+      };
+    },
+    "getVaultUploadSession",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.api,
+    }
+  )
+);
+
+/**
+ * Get presigned URLs for uploading parts of an upload session
+ */
+export const getVaultUploadPartUrls = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+    secrets: [R2_CONFIG],
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
 
-      const {itemId, fileName} = validatedData;
-      // const fileData = validatedData.fileData; // Commented out as R2 upload is disabled
+      const {uploadId, partNumbers} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.getVaultUploadPartUrls,
+        uid
+      );
 
       const db = getFirestore();
-      const itemRef = db.collection("vaultItems").doc(itemId);
-      const doc = await itemRef.get();
+      const {uploadRef, session} = await getOwnedUploadSession(db, uploadId, uid);
+      requireActiveUploadSession(session);
 
-      if (!doc.exists) {
-        throw createError(ErrorCode.NOT_FOUND, "Vault item not found");
+      const requested = Array.from(new Set<number>(partNumbers)).slice(0, MAX_PART_URLS_PER_REQUEST);
+      if (!requested.every((partNumber) => isValidPartNumber(partNumber, session.partCount))) {
+        throw createError(ErrorCode.INVALID_ARGUMENT, `Part numbers must be between 1 and ${session.partCount}`);
       }
 
-      const item = doc.data() as VaultItem;
-      if (item.userId !== uid && !item.sharedWith?.includes(uid)) {
-        throw createError(
-          ErrorCode.PERMISSION_DENIED,
-          "You don't have permission to update this file"
-        );
-      }
+      const storageAdapter = getStorageAdapter();
+      const parts = await Promise.all(requested.map(async (partNumber) => ({
+        partNumber,
+        signedUrl: await storageAdapter.generateUploadPartUrl({
+          path: session.key,
+          uploadId: session.multipartUploadId,
+          partNumber,
+          expiresIn: 3600, // 1 hour
+          bucket: session.bucket,
+          provider: session.storageProvider,
+        }),
+      })));
+
+      // Activity keeps the session alive
+      const expiresAt = Timestamp.fromMillis(Date.now() + UPLOAD_SESSION_TTL_MS);
+      await uploadRef.update({
+        updatedAt: FieldValue.serverTimestamp(),
+        expiresAt,
+      });
 
-      if (item.type !== "file") {
-        throw createError(ErrorCode.INVALID_ARGUMENT, "Can only update files, not folders");
-      }
+      return {parts, expiresAt: expiresAt.toMillis()};
+    },
+    "getVaultUploadPartUrls",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.api,
+    }
+  )
+);
+
+/**
+ * Record parts the client finished uploading. Acknowledged parts are skipped on resume.
+ */
+export const reportVaultUploadParts = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+
+      const {uploadId, parts} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.reportVaultUploadParts,
+        uid
+      );
+
+      const db = getFirestore();
+      const uploadRef = db.collection("vaultUploads").doc(uploadId);
+
+      const completedParts = await db.runTransaction(async (transaction) => {
+        const uploadDoc = await transaction.get(uploadRef);
+        if (!uploadDoc.exists) {
+          throw createError(ErrorCode.NOT_FOUND, "Upload session not found");
+        }
+
+        const session = uploadDoc.data() as VaultUploadSession;
+        if (session.userId !== uid) {
+          throw createError(ErrorCode.PERMISSION_DENIED, "Not authorized for this upload");
+        }
+        requireActiveUploadSession(session);
 
-      // Update file in storage
-      if (item.storagePath) {
-        // const storageAdapter = new StorageAdapter();
-        // const r2Service = await storageAdapter.getR2Service();
-
-        // Delete old file
-        // await r2Service.deleteObject(item.storagePath);
-
-        // Upload new file
-        // const buffer = Buffer.from(fileData, "base64");
-        const newStoragePath = `vault/${uid}/${itemId}/${sanitizeFileName(fileName)}`;
-
-        // await r2Service.uploadObject(newStoragePath, buffer, {
-        //   contentType: item.mimeType,
-        //   metadata: {
-        //     userId: uid,
-        //     vaultItemId: itemId,
-        //   },
-        // });
-
-        // Update database
-        await itemRef.update({
-          storagePath: newStoragePath,
+        const reported = parts as UploadedPart[];
+        if (!reported.every((part) => isValidPartNumber(part.partNumber, session.partCount))) {
+          throw createError(ErrorCode.INVALID_ARGUMENT, `Part numbers must be between 1 and ${session.partCount}`);
+        }
+
+        const merged = mergeUploadedParts(session.completedParts, reported);
+        transaction.update(uploadRef, {
+          completedParts: merged,
           updatedAt: FieldValue.serverTimestamp(),
-          // size: buffer.length, // Commented out as buffer is not available
+          expiresAt: Timestamp.fromMillis(Date.now() + UPLOAD_SESSION_TTL_MS),
         });
+        return merged;
+      });
+
+      return {
+        success: true,
+        completedParts: completedParts.map((part) => part.partNumber),
+      };
+    },
+    "reportVaultUploadParts",
+    {
+      authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.api,
+    }
+  )
+);
+
+/**
+ * Cancel an upload session and discard the parts uploaded so far
+ */
+export const abortVaultUploadSession = onCall(
+  {
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+    secrets: [R2_CONFIG],
+  },
+  withAuth(
+    async (request) => {
+      const uid = requireAuth(request);
+
+      const {uploadId} = validateRequest(
+        request.data,
+        VALIDATION_SCHEMAS.abortVaultUploadSession,
+        uid
+      );
+
+      const db = getFirestore();
+      const {uploadRef, session} = await getOwnedUploadSession(db, uploadId, uid);
+
+      if (session.status === "completed") {
+        throw createError(ErrorCode.FAILED_PRECONDITION, "Upload already completed");
       }
 
-      return {success: true, itemId};
+      if (session.status === "active") {
+        await abandonUploadSession(db, uploadRef, session, "aborted");
+      }
+
+      return {success: true};
     },
-    "updateVaultFile",
+    "abortVaultUploadSession",
     {
       authLevel: "onboarded",
-      rateLimitConfig: SECURITY_CONFIG.rateLimits.mediaUpload,
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
     }
   )
 );
 
 /**
- * Complete a multipart file upload
+ * Scheduled function to abort upload sessions that saw no activity before they expired
+ */
+export const expireVaultUploadSessions = onSchedule(
+  {
+    schedule: "every 1 hours",
+    region: DEFAULT_REGION,
+    memory: "256MiB",
+    timeoutSeconds: FUNCTION_TIMEOUT.LONG,
+    retryCount: 3,
+    secrets: [R2_CONFIG],
+  },
+  async (event) => {
+    const db = getFirestore();
+
+    const snapshot = await db
+      .collection("vaultUploads")
+      .where("status", "==", "active")
+      .where("expiresAt", "<=", Timestamp.now())
+      .limit(500)
+      .get();
+
+    let expiredCount = 0;
+    for (const doc of snapshot.docs) {
+      try {
+        await abandonUploadSession(db, doc.ref, doc.data() as VaultUploadSession, "expired");
+        expiredCount++;
+      } catch (error) {
+        logger.warn("Failed to expire vault upload session", createLogContext({
+          uploadId: doc.id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }));
+      }
+    }
+
+    logger.info("Expired abandoned vault upload sessions", createLogContext({
+      expiredCount,
+      checked: snapshot.size,
+      scheduledTime: event.scheduleTime,
+    }));
+  }
+);
+
+/**
+ * Complete a multipart file upload once every part has been acknowledged
  */
 export const completeVaultFileUpload = onCall(
   {
     region: DEFAULT_REGION,
     memory: "256MiB",
     timeoutSeconds: FUNCTION_TIMEOUT.SHORT,
+    secrets: [R2_CONFIG],
   },
   withAuth(
     async (request) => {
@@ -2884,53 +5640,76 @@ export const completeVaultFileUpload = onCall(
         uid
       );
 
-      const {uploadId, itemId} = validatedData;
-      // const parts = validatedData.parts; // Commented out as R2 service is disabled
+      const {uploadId, itemId, parts = [], contentHash = null} = validatedData;
 
       const db = getFirestore();
-      const uploadRef = db.collection("vaultUploads").doc(uploadId);
-      const uploadDoc = await uploadRef.get();
+      const {uploadRef, session} = await getOwnedUploadSession(db, uploadId, uid);
+      requireActiveUploadSession(session);
 
-      if (!uploadDoc.exists) {
-        throw createError(ErrorCode.NOT_FOUND, "Upload session not found");
+      if (session.itemId !== itemId) {
+        throw createError(ErrorCode.INVALID_ARGUMENT, "Upload session belongs to a different item");
       }
 
-      const uploadData = uploadDoc.data();
-      if (uploadData && uploadData.userId !== uid) {
-        throw createError(ErrorCode.PERMISSION_DENIED, "Not authorized for this upload");
+      // Parts may be reported here as well, covering a last report that never arrived
+      const reported = parts as UploadedPart[];
+      if (!reported.every((part) => isValidPartNumber(part.partNumber, session.partCount))) {
+        throw createError(ErrorCode.INVALID_ARGUMENT, `Part numbers must be between 1 and ${session.partCount}`);
       }
+      const completedParts = mergeUploadedParts(session.completedParts, reported);
 
-      if (uploadData && uploadData.status === "completed") {
-        throw createError(ErrorCode.ALREADY_EXISTS, "Upload already completed");
+      const missingParts = findMissingParts(session.partCount, completedParts);
+      if (missingParts.length > 0) {
+        throw createError(
+          ErrorCode.FAILED_PRECONDITION,
+          `Upload is missing ${missingParts.length} part(s), starting with part ${missingParts[0]}`
+        );
       }
 
-      // Complete multipart upload in R2
-      // const storageAdapter = new StorageAdapter();
-      // const r2Service = await storageAdapter.getR2Service();
-
-      // await r2Service.completeMultipartUpload(
-      //   uploadData.storagePath,
-      //   uploadData.uploadId,
-      //   parts
-      // );
+      await getStorageAdapter().completeMultipartUpload({
+        path: session.key,
+        uploadId: session.multipartUploadId,
+        parts: completedParts,
+        bucket: session.bucket,
+        provider: session.storageProvider,
+      });
 
       // Update upload status
       await uploadRef.update({
         status: "completed",
+        completedParts,
         completedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
       });
 
-      // Update vault item
-      await db.collection("vaultItems").doc(itemId).update({
+      // The staged file is complete, so it can join the scan queue
+      const itemUpdate: Record<string, unknown> = {
         uploadStatus: "completed",
+        scanStatus: "pending",
         updatedAt: FieldValue.serverTimestamp(),
-      });
+      };
+
+      // A declared content hash is checked against the uploaded bytes during scanning,
+      // so it can only be set before the file has left staging
+      if (contentHash) {
+        const itemDoc = await db.collection("vaultItems").doc(itemId).get();
+        const item = itemDoc.data() as VaultItem | undefined;
+        if (!item || (item.userId !== uid && item.uploadedBy !== uid)) {
+          throw createError(ErrorCode.PERMISSION_DENIED, "Not authorized for this item");
+        }
+        if (!item.scanStatus || item.scanStatus === "pending") {
+          itemUpdate.contentHash = contentHash;
+        }
+      }
+
+      // Update vault item
+      await db.collection("vaultItems").doc(itemId).update(itemUpdate);
 
       return {success: true};
     },
     "completeVaultFileUpload",
     {
       authLevel: "onboarded",
+      rateLimitConfig: SECURITY_CONFIG.rateLimits.write,
     }
   )
 );
@@ -3007,30 +5786,12 @@ export const permanentlyDeleteVaultItem = onCall(
           );
         }
 
-        // Delete from storage
+        // Delete from storage, keeping deduplicated contents other files still reference
         if (item.type === "file") {
-          try {
-            const storageAdapter = getStorageAdapter();
-            if (item.storageProvider === "r2" && item.r2Bucket && item.r2Key) {
-              await storageAdapter.deleteFile({
-                path: item.r2Key,
-                bucket: item.r2Bucket,
-                provider: "r2" as any,
-              });
-            } else if (item.storagePath) {
-              await storageAdapter.deleteFile({
-                path: item.storagePath,
-              });
-            }
-          } catch (error) {
-            logger.warn(
-              "Failed to delete file from storage",
-              createLogContext({
-                itemId,
-                error: error instanceof Error ? error.message : "Unknown error",
-              })
-            );
-          }
+          await getVaultBlobService().releaseStorage(getVaultStorageLocation(item), {itemId});
+        }
+        if (item.encryptedThumbnail) {
+          await getVaultThumbnailService().deleteEncryptedThumbnail(item.encryptedThumbnail);
         }
 
         // Collect all item IDs for cleanup
@@ -3057,6 +5818,7 @@ export const permanentlyDeleteVaultItem = onCall(
 
         // Clean up related collections
         await cleanupRelatedCollections(db, itemIdsToCleanup, uid);
+        await deleteVaultFileVersions(db, itemIdsToCleanup, uid);
 
         // Create audit log
         await db.collection("vaultAuditLogs").add({
@@ -3187,9 +5949,10 @@ export const permanentlyDeleteVaultItems = onCall(
 
       // Process deletions
       const batch = db.batch();
-      const storageAdapter = getStorageAdapter();
-      const filesToDelete: Array<{ path: string; bucket?: string; provider?: string }> = [];
+      const filesToDelete: VaultStorageLocation[] = [];
+      const thumbnailsToDelete: VaultEncryptedThumbnail[] = [];
       const folderPaths: string[] = [];
+      const childItemIds: string[] = [];
       let deletedCount = 0;
 
       // Collect items to delete and prepare batch
@@ -3197,18 +5960,11 @@ export const permanentlyDeleteVaultItems = onCall(
         const item = doc.data() as VaultItem;
 
         // Collect storage files for deletion
+        if (item.encryptedThumbnail) {
+          thumbnailsToDelete.push(item.encryptedThumbnail);
+        }
         if (item.type === "file") {
-          if (item.storageProvider === "r2" && item.r2Bucket && item.r2Key) {
-            filesToDelete.push({
-              path: item.r2Key,
-              bucket: item.r2Bucket,
-              provider: "r2",
-            });
-          } else if (item.storagePath) {
-            filesToDelete.push({
-              path: item.storagePath,
-            });
-          }
+          filesToDelete.push(getVaultStorageLocation(item));
         } else if (item.type === "folder") {
           // Collect folder paths to delete children
           folderPaths.push(item.path);
@@ -3233,19 +5989,13 @@ export const permanentlyDeleteVaultItems = onCall(
 
             // Add child files to deletion list
             if (childItem.type === "file") {
-              if (childItem.storageProvider === "r2" && childItem.r2Bucket && childItem.r2Key) {
-                filesToDelete.push({
-                  path: childItem.r2Key,
-                  bucket: childItem.r2Bucket,
-                  provider: "r2",
-                });
-              } else if (childItem.storagePath) {
-                filesToDelete.push({
-                  path: childItem.storagePath,
-                });
-              }
+              filesToDelete.push(getVaultStorageLocation(childItem));
+            }
+            if (childItem.encryptedThumbnail) {
+              thumbnailsToDelete.push(childItem.encryptedThumbnail);
             }
 
+            childItemIds.push(childDoc.id);
             batch.delete(childDoc.ref);
             deletedCount++;
           });
@@ -3260,38 +6010,16 @@ export const permanentlyDeleteVaultItems = onCall(
 
       // Clean up related collections for all deleted items
       await cleanupRelatedCollections(db, allItemIds, uid);
+      await deleteVaultFileVersions(db, [...allItemIds, ...childItemIds], uid);
 
-      // Delete files from storage
+      // Delete files from storage, keeping deduplicated contents other files still reference
       if (filesToDelete.length > 0) {
-        const deletePromises = filesToDelete.map(async (file) => {
-          try {
-            if (file.provider === "r2") {
-              await storageAdapter.deleteFile({
-                path: file.path,
-                bucket: file.bucket,
-                provider: "r2" as any,
-              });
-            } else {
-              // Try R2 first for backward compatibility
-              await storageAdapter.deleteFile({
-                path: file.path,
-              });
-            }
-          } catch (error) {
-            logger.warn(
-              "Failed to delete file from storage",
-              createLogContext({
-                path: file.path,
-                bucket: file.bucket,
-                provider: file.provider,
-                error: error instanceof Error ? error.message : "Unknown error",
-              })
-            );
-          }
-        });
-
-        await Promise.all(deletePromises);
+        const blobService = getVaultBlobService();
+        await Promise.all(filesToDelete.map((location) => blobService.releaseStorage(location)));
       }
+      await Promise.all(thumbnailsToDelete.map((thumbnail) =>
+        getVaultThumbnailService().deleteEncryptedThumbnail(thumbnail)
+      ));
 
       // Create audit logs for all deleted items
       const auditPromises = itemsToDelete.map((doc) => {
@@ -3883,17 +6611,16 @@ export const getShareLinkAnalytics = onCall(
       const db = getFirestore();
 
       try {
-        // Get time range (default to last 30 days)
+        // View statistics cover the last 30 days
         const endDate = new Date();
         const startDate = new Date();
         startDate.setDate(startDate.getDate() - 30);
 
-        // Get all share links created in the time range
+        // Every link that can still be opened is listed however old it is. Revoked
+        // links stay listed for the window so their access history remains visible.
         const shareLinksSnapshot = await db
           .collection("vaultSharedLinks")
           .where("ownerId", "==", uid)
-          .where("createdAt", ">=", Timestamp.fromDate(startDate))
-          .where("createdAt", "<=", Timestamp.fromDate(endDate))
           .orderBy("createdAt", "desc")
           .get();
 
@@ -3907,15 +6634,19 @@ export const getShareLinkAnalytics = onCall(
           .get();
 
         // Analyze data
-        const shareLinks = shareLinksSnapshot.docs.map((doc) => {
-          const data = doc.data() as VaultShareLink;
-          return {
-            ...data,
-            shareId: doc.id,
-          };
-        });
+        const shareLinks = shareLinksSnapshot.docs
+          .map((doc) => {
+            const data = doc.data() as VaultShareLink;
+            return {
+              ...data,
+              shareId: doc.id,
+            };
+          })
+          .filter((link) => !link.revokedAt || link.revokedAt.toMillis() >= startDate.getTime());
 
-        const accessLogs = accessLogsSnapshot.docs.map((doc) => doc.data());
+        const allAccessLogs = accessLogsSnapshot.docs.map((doc) => doc.data() as VaultShareAccessLog);
+        // Only successful opens count as accesses; the rest are failed attempts
+        const accessLogs = allAccessLogs.filter((log) => log.outcome === "granted");
 
         // Calculate daily statistics
         const dailyStats = new Map<
@@ -3923,27 +6654,33 @@ export const getShareLinkAnalytics = onCall(
           {
             created: number;
             accessed: number;
+            failed: number;
             uniqueAccessors: Set<string>;
           }
         >();
 
         // Process share link creation
         shareLinks.forEach((link) => {
+          if (link.createdAt.toMillis() < startDate.getTime()) return;
           const date = new Date(link.createdAt.toMillis()).toISOString().split("T")[0];
           if (!dailyStats.has(date)) {
-            dailyStats.set(date, {created: 0, accessed: 0, uniqueAccessors: new Set()});
+            dailyStats.set(date, {created: 0, accessed: 0, failed: 0, uniqueAccessors: new Set()});
           }
           const stats = dailyStats.get(date)!;
           stats.created++;
         });
 
         // Process access logs
-        accessLogs.forEach((log) => {
+        allAccessLogs.forEach((log) => {
           const date = new Date(log.timestamp.toMillis()).toISOString().split("T")[0];
           if (!dailyStats.has(date)) {
-            dailyStats.set(date, {created: 0, accessed: 0, uniqueAccessors: new Set()});
+            dailyStats.set(date, {created: 0, accessed: 0, failed: 0, uniqueAccessors: new Set()});
           }
           const stats = dailyStats.get(date)!;
+          if (log.outcome !== "granted") {
+            stats.failed++;
+            return;
+          }
           stats.accessed++;
           if (log.accessorId) {
             stats.uniqueAccessors.add(log.accessorId);
@@ -3956,6 +6693,7 @@ export const getShareLinkAnalytics = onCall(
             date,
             created: stats.created,
             accessed: stats.accessed,
+            failed: stats.failed,
             uniqueAccessors: stats.uniqueAccessors.size,
           }))
           .sort((a, b) => a.date.localeCompare(b.date));
@@ -3972,18 +6710,64 @@ export const getShareLinkAnalytics = onCall(
           .slice(0, 10)
           .map(([itemId, count]) => ({itemId, accessCount: count}));
 
+        // Per-link status and access log, newest entries first
+        const logsByShare = new Map<string, VaultShareAccessLog[]>();
+        allAccessLogs.forEach((log) => {
+          const logs = logsByShare.get(log.shareId) || [];
+          logs.push(log);
+          logsByShare.set(log.shareId, logs);
+        });
+
+        const itemIds = Array.from(new Set(shareLinks.map((link) => link.itemId)));
+        const itemDocs = itemIds.length > 0 ?
+          await db.getAll(...itemIds.map((itemId) => db.collection("vaultItems").doc(itemId))) :
+          [];
+        const itemNames = new Map(itemDocs.map((doc) => [doc.id, doc.exists ? doc.data()?.name : null]));
+
+        const links = shareLinks.map((link) => {
+          const logs = logsByShare.get(link.shareId) || [];
+          return {
+            shareId: link.shareId,
+            itemId: link.itemId,
+            itemName: itemNames.get(link.itemId) || null,
+            status: getShareLinkStatus(link),
+            allowDownload: link.allowDownload !== false,
+            passwordProtected: !!link.passwordHash,
+            accessCount: link.accessCount,
+            maxAccessCount: link.maxAccessCount,
+            remainingAccesses: getRemainingAccesses(link),
+            failedAttempts: logs.filter((log) => log.outcome !== "granted").length,
+            createdAt: link.createdAt.toMillis(),
+            expiresAt: link.expiresAt?.toMillis() || null,
+            revokedAt: link.revokedAt?.toMillis() || null,
+            lastAccessedAt: link.lastAccessedAt?.toMillis() || null,
+            accessLog: logs.slice(0, 20).map((log) => ({
+              timestamp: log.timestamp.toMillis(),
+              outcome: log.outcome,
+              ip: log.ip,
+              country: log.country,
+              userAgent: log.userAgent,
+              signedIn: log.accessorId !== log.ip && log.accessorId !== "anonymous",
+            })),
+          };
+        });
+
         return {
           summary: {
             totalShareLinks: shareLinks.length,
             totalAccesses: accessLogs.length,
-            activeLinks: shareLinks.filter(
-              (link) => !link.expiresAt || link.expiresAt.toMillis() > Date.now()
-            ).length,
-            passwordProtectedLinks: shareLinks.filter((link) => link.passwordHash).length,
+            failedAttempts: allAccessLogs.length - accessLogs.length,
+            activeLinks: links.filter((link) => link.status === "active").length,
+            passwordProtectedLinks: links.filter((link) => link.passwordProtected).length,
           },
           dailyAnalytics,
           topAccessedItems,
-          recentShares: shareLinks.slice(0, 10),
+          links,
+          // Never hand password hashes back to the client
+          recentShares: shareLinks.slice(0, 10).map(({passwordHash, ...link}) => ({
+            ...link,
+            passwordProtected: !!passwordHash,
+          })),
         };
       } catch (error) {
         const {message, context} = formatErrorForLogging(error, {userId: uid});
@@ -4220,7 +7004,7 @@ async function checkAdminRole(uid: string): Promise<boolean> {
 }
 
 // Internal function to get download URL
-async function internalGetVaultDownloadUrl(uid: string, itemId: string): Promise<string> {
+async function internalGetVaultDownloadUrl(uid: string, itemId: string, expiresIn = 3600): Promise<string> {
   const db = getFirestore();
   const docRef = db.collection("vaultItems").doc(itemId);
   const doc = await docRef.get();
@@ -4232,7 +7016,8 @@ async function internalGetVaultDownloadUrl(uid: string, itemId: string): Promise
   const item = doc.data() as VaultItem;
 
   // Check permission
-  if (item.ownerId !== uid && (!item.sharedWith || !item.sharedWith.includes(uid))) {
+  const isOwner = item.userId === uid || item.ownerId === uid;
+  if (!isOwner && (!item.sharedWith || !item.sharedWith.includes(uid))) {
     throw createError(ErrorCode.PERMISSION_DENIED, "No access to this vault item");
   }
 
@@ -4245,7 +7030,7 @@ async function internalGetVaultDownloadUrl(uid: string, itemId: string): Promise
 
   const result = await storageAdapter.generateDownloadUrl({
     path: item.storagePath!,
-    expiresIn: 3600, // 1 hour
+    expiresIn,
     provider: item.storageProvider, // Pass the provider from the vault item
   });
 
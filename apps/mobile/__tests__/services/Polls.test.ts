@@ -0,0 +1,97 @@
+import {
+  Poll,
+  PollState,
+  applyPollAction,
+  getPollError,
+  tallyPoll,
+} from '../../src/services/encryption/Polls';
+
+const createState = (poll: Partial<Poll> = {}): PollState => ({
+  poll: {
+    kind: 'poll',
+    question: 'Where should we hold the reunion?',
+    options: [
+      { id: 'a', text: 'The lake house' },
+      { id: 'b', text: 'Grandma\'s' },
+    ],
+    multipleChoice: false,
+    hideVoters: false,
+    ...poll,
+  },
+  creatorId: 'creator',
+  createdAt: 1000,
+  votes: [],
+});
+
+describe('Polls', () => {
+  it('should replace a voter\'s earlier vote', () => {
+    let state = createState();
+    state = applyPollAction(state, { type: 'vote', pollId: 'p', optionIds: ['a'] }, 'alice', 2000)!;
+    state = applyPollAction(state, { type: 'vote', pollId: 'p', optionIds: ['b'] }, 'alice', 3000)!;
+
+    const results = tallyPoll(state, 'alice');
+    expect(results.totalVoters).toBe(1);
+    expect(results.myOptionIds).toEqual(['b']);
+    expect(results.leadingOptionIds).toEqual(['b']);
+  });
+
+  it('should ignore an older vote that arrives late', () => {
+    let state = createState();
+    state = applyPollAction(state, { type: 'vote', pollId: 'p', optionIds: ['b'] }, 'alice', 3000)!;
+
+    expect(applyPollAction(state, { type: 'vote', pollId: 'p', optionIds: ['a'] }, 'alice', 2000)).toBeNull();
+  });
+
+  it('should reject several choices in a single choice poll', () => {
+    const state = createState();
+
+    expect(applyPollAction(state, { type: 'vote', pollId: 'p', optionIds: ['a', 'b'] }, 'alice', 2000)).toBeNull();
+  });
+
+  it('should only let the creator close a poll', () => {
+    const state = createState();
+
+    expect(applyPollAction(state, { type: 'close', pollId: 'p' }, 'alice', 2000)).toBeNull();
+    expect(applyPollAction(state, { type: 'close', pollId: 'p' }, 'creator', 2000)?.closedAt).toBe(2000);
+  });
+
+  it('should not count votes cast after the poll closed', () => {
+    let state = createState();
+    state = applyPollAction(state, { type: 'vote', pollId: 'p', optionIds: ['a'] }, 'alice', 3000)!;
+    state = applyPollAction(state, { type: 'close', pollId: 'p' }, 'creator', 2000)!;
+
+    const results = tallyPoll(state, 'creator');
+    expect(results.totalVoters).toBe(0);
+    expect(results.closed).toBe(true);
+  });
+
+  it('should give sign-up slots to whoever signed up first', () => {
+    let state = createState({
+      kind: 'signup',
+      multipleChoice: true,
+      options: [{ id: 'pie', text: 'Apple pie', slots: 1 }],
+    });
+    state = applyPollAction(state, { type: 'vote', pollId: 'p', optionIds: ['pie'] }, 'bob', 3000)!;
+    state = applyPollAction(state, { type: 'vote', pollId: 'p', optionIds: ['pie'] }, 'alice', 2000)!;
+
+    const [pie] = tallyPoll(state, 'alice').options;
+    expect(pie.voterIds).toEqual(['alice']);
+    expect(pie.waitlistIds).toEqual(['bob']);
+    expect(pie.full).toBe(true);
+  });
+
+  it('should hide voters when the poll asks to', () => {
+    let state = createState({ hideVoters: true });
+    state = applyPollAction(state, { type: 'vote', pollId: 'p', optionIds: ['a'] }, 'alice', 2000)!;
+
+    const [lakeHouse] = tallyPoll(state, 'alice').options;
+    expect(lakeHouse.count).toBe(1);
+    expect(lakeHouse.voterIds).toEqual([]);
+  });
+
+  it('should require a question and enough options', () => {
+    expect(getPollError(createState({ question: ' ' }).poll)).toBe('Add a question');
+    expect(getPollError(createState({ options: [{ id: 'a', text: 'Yes' }] }).poll)).toBe('Add at least two options');
+    expect(getPollError(createState().poll)).toBeNull();
+  });
+});
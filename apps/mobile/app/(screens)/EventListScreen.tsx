@@ -43,6 +43,7 @@ interface Event {
   status?: 'Going' | 'Invited' | null;
   description?: string;
   createdBy?: string;
+  occurrenceDate?: string; // Set for occurrences of recurring events
 }
 
 // --- EventCard Component ---
@@ -315,7 +316,8 @@ const EventListScreen = () => {
         organizerName: event.host?.name || 'Unknown Host',
         description: event.description || '',
         createdBy: event.hostId,
-        status: eventStatus
+        status: eventStatus,
+        occurrenceDate: event.occurrenceDate
       };
     });
   };
@@ -458,11 +460,11 @@ const EventListScreen = () => {
           ) : (
             displayedEvents.map((event: Event) => (
               <EventCard
-                key={event.id}
+                key={event.occurrenceDate ? `${event.id}_${event.occurrenceDate}` : event.id}
                 event={event}
                 onPress={withErrorHandling(async () => {
                   try {
-                    router.push({ pathname: '/(screens)/eventDetail', params: { eventId: event.id } });
+                    router.push({ pathname: '/(screens)/eventDetail', params: { eventId: event.id, occurrenceDate: event.occurrenceDate } });
                   } catch (error) {
                     handleError(error, { 
                       action: 'navigate_event_detail', 
@@ -35,7 +35,16 @@ import ChatMediaGallery from '../../components/ui/ChatMediaGallery';
 import TypingIndicator from '../../components/ui/TypingIndicator';
 import { TypingService } from '../../src/services/TypingService';
 import { MessageReactions, ReactionPicker } from '../../components/ui/MessageReactions';
+import { PollCard } from '../../components/ui/PollCard';
+import { PollComposer } from '../../components/ui/PollComposer';
 import { ChatEncryptionService } from '../../src/services/encryption/ChatEncryptionService';
+import { MessageReply, createReplyPreview } from '../../src/services/encryption/MessageEvents';
+import { getDisappearingTimerLabel } from '../../src/services/encryption/DisappearingMessages';
+import GroupE2EEService from '../../src/services/encryption/GroupE2EEService';
+import { Poll, PollResults, PollState, getPollEventDetails } from '../../src/services/encryption/Polls';
+import { createEventMobile } from '../../src/lib/eventUtils';
+import { getMessageSyncService } from '../../src/services/MessageSyncService';
+import { getFirebaseDb } from '../../src/lib/firebase';
 import { logger } from '../../src/services/LoggingService';
 import ChatHeader from '../../components/ui/ChatHeader';
 import { SafetyNumberService } from '../../src/services/SafetyNumberService';
@@ -64,16 +73,22 @@ export default function ChatDetailScreen() {
   const [selectedMessage, setSelectedMessage] = useState<any>(null);
   const [showMessageActions, setShowMessageActions] = useState(false);
   const [editingMessage, setEditingMessage] = useState<any>(null);
+  const [replyingTo, setReplyingTo] = useState<MessageReply | null>(null);
   const [showVoiceRecorder, setShowVoiceRecorder] = useState(false);
   const [showMediaGallery, setShowMediaGallery] = useState(false);
   const [typingUsers, setTypingUsers] = useState<string[]>([]);
   const [typingUserNames, setTypingUserNames] = useState<string[]>([]);
   const [showReactionPicker, setShowReactionPicker] = useState(false);
   const [reactionPickerPosition, setReactionPickerPosition] = useState<{ x: number; y: number } | undefined>();
-  const [reactionMessageId, setReactionMessageId] = useState<string | null>(null);
+  const [reactionMessage, setReactionMessage] = useState<any>(null);
   const [verificationStatus, setVerificationStatus] = useState<'verified' | 'unverified' | 'changed'>('unverified');
   const [showKeyChangeNotification, setShowKeyChangeNotification] = useState(false);
   const [keyChangeUserId, setKeyChangeUserId] = useState<string | null>(null);
+  const [disappearingSeconds, setDisappearingSeconds] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [polls, setPolls] = useState<{ id: string; state: PollState }[]>([]);
+  const [showPollComposer, setShowPollComposer] = useState(false);
+  const [memberNames, setMemberNames] = useState<Record<string, string>>({});
   const messageListRef = useRef<any>(null);
   const typingTimerRef = useRef<NodeJS.Timeout>();
 
@@ -87,12 +102,19 @@ export default function ChatDetailScreen() {
   }, []);
   
   const handleMessageReply = useCallback(() => {
-    // TODO: Implement reply functionality
-    Alert.alert('Reply', 'Reply feature coming soon');
-  }, []);
+    if (!selectedMessage || selectedMessage.deletedForEveryone) return;
+    
+    setEditingMessage(null);
+    setReplyingTo({
+      messageId: selectedMessage.id,
+      senderId: selectedMessage.senderId,
+      preview: createReplyPreview(selectedMessage.text, 'Attachment'),
+    });
+  }, [selectedMessage]);
   
   const handleMessageEdit = useCallback(() => {
-    if (selectedMessage) {
+    if (selectedMessage && selectedMessage.type === 'text' && !selectedMessage.deletedForEveryone) {
+      setReplyingTo(null);
       setEditingMessage(selectedMessage);
       setInputText(selectedMessage.text || '');
     }
@@ -100,18 +122,33 @@ export default function ChatDetailScreen() {
   
   const handleMessageDelete = useCallback(async (forEveryone: boolean) => {
     if (!selectedMessage) return;
+    const message = selectedMessage;
     
-    try {
-      // TODO: Implement delete functionality
-      Alert.alert(
-        'Delete Message',
-        `Message will be deleted ${forEveryone ? 'for everyone' : 'for you'}.`,
-        [{ text: 'OK' }]
-      );
-    } catch (error) {
-      handleError(error);
-    }
-  }, [selectedMessage, handleError]);
+    Alert.alert(
+      'Delete Message',
+      forEveryone
+        ? 'This message will be deleted for everyone in the chat.'
+        : 'This message will be deleted from this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              if (forEveryone) {
+                await ChatEncryptionService.getInstance().deleteMessageForEveryone(params.chatId, message.id);
+              } else {
+                await ChatEncryptionService.getInstance().deleteMessage(message.id);
+              }
+            } catch (error) {
+              handleError(error);
+            }
+          }
+        }
+      ]
+    );
+  }, [selectedMessage, params.chatId, handleError]);
   
   const handleSend = useCallback(async () => {
     const text = inputText.trim();
@@ -119,9 +156,11 @@ export default function ChatDetailScreen() {
     
     try {
       if (editingMessage) {
-        // TODO: Implement message editing
-        Alert.alert('Edit', 'Message editing feature coming soon');
+        await ChatEncryptionService.getInstance().editMessage(params.chatId, editingMessage.id, text);
         setEditingMessage(null);
+      } else if (replyingTo) {
+        await ChatEncryptionService.getInstance().sendTextMessage(params.chatId, text, { replyTo: replyingTo });
+        setReplyingTo(null);
       } else {
         await sendMessage(text);
       }
@@ -129,7 +168,7 @@ export default function ChatDetailScreen() {
     } catch (error) {
       handleError(error);
     }
-  }, [inputText, editingMessage, sendMessage, handleError]);
+  }, [inputText, editingMessage, replyingTo, params.chatId, sendMessage, handleError]);
   
   const handleVoiceRecordingComplete = useCallback(async (uri: string, duration: number) => {
     try {
@@ -146,14 +185,21 @@ export default function ChatDetailScreen() {
     }
   }, [sendMediaMessage, handleError]);
   
-  // Handle reaction
-  const handleReaction = useCallback(async (messageId: string, emoji: string) => {
+  // Handle reaction; choosing your current reaction again removes it
+  const handleReaction = useCallback(async (message: any, emoji: string) => {
     try {
-      await ChatEncryptionService.toggleReaction(params.chatId, messageId, emoji);
+      const current = (message.reactions || []).find((reaction: { emoji: string; userIds: string[] }) =>
+        reaction.userIds.includes(user?.uid || '')
+      );
+      if (current?.emoji === emoji) {
+        await ChatEncryptionService.getInstance().removeReaction(params.chatId, message.id);
+      } else {
+        await ChatEncryptionService.getInstance().sendReaction(params.chatId, message.id, emoji);
+      }
     } catch (error) {
-      logger.error('Failed to add reaction:', error);
+      logger.error('Failed to update reaction:', error);
     }
-  }, [params.chatId]);
+  }, [params.chatId, user?.uid]);
   
   // Handle typing
   const handleTyping = useCallback((text: string) => {
@@ -212,6 +258,130 @@ export default function ChatDetailScreen() {
     }
   }, [params.chatId, participantIds, isInitialized, initializeChat, withErrorHandling]);
 
+  // Follow the chat's disappearing message timer
+  useEffect(() => {
+    if (!params.chatId) return;
+
+    const unsubscribe = getFirebaseDb()
+      .collection('chats')
+      .doc(params.chatId)
+      .onSnapshot(
+        (snapshot) => setDisappearingSeconds(snapshot.data()?.disappearingMessagesSeconds || 0),
+        (error) => logger.error('Failed to load disappearing message timer:', error)
+      );
+
+    return () => unsubscribe();
+  }, [params.chatId]);
+
+  // Hide disappearing messages the moment they expire, then purge them from this device
+  useEffect(() => {
+    const nextExpiry = messages.reduce<number | undefined>((next, message: any) => {
+      if (!message.expiresAt || message.expiresAt <= now) return next;
+      return next === undefined ? message.expiresAt : Math.min(next, message.expiresAt);
+    }, undefined);
+    if (nextExpiry === undefined) return;
+
+    // Timers this long aren't reliable, so check again in a while instead
+    const timer = setTimeout(() => {
+      setNow(Date.now());
+      getMessageSyncService().purgeExpiredMessages();
+    }, Math.min(nextExpiry - now, 60 * 60 * 1000));
+
+    return () => clearTimeout(timer);
+  }, [messages, now]);
+
+  // Follow the group's polls and sign-up sheets, which are sent with its sender keys
+  useEffect(() => {
+    if (!params.chatId || !isGroupChat) return;
+
+    const unsubscribe = GroupE2EEService.getInstance().subscribeToPolls(params.chatId, setPolls);
+    return () => unsubscribe();
+  }, [params.chatId, isGroupChat]);
+
+  // Names for poll results, loaded once there's a poll to show them on
+  useEffect(() => {
+    if (polls.length === 0 || Object.keys(memberNames).length > 0) return;
+
+    TypingService.getInstance().getTypingUserNames(participantIds).then((names) => {
+      setMemberNames(Object.fromEntries(participantIds.map((id, index) => [id, names[index]])));
+    });
+  }, [polls.length, participantIds, memberNames]);
+
+  const visibleMessages = useMemo(() => {
+    const getMillis = (timestamp: any) =>
+      typeof timestamp === 'number' ? timestamp : timestamp?.toMillis?.() ?? 0;
+    const pollMessages = polls.map(({ id, state }) => ({
+      id,
+      type: 'poll',
+      senderId: state.creatorId,
+      timestamp: state.createdAt,
+      poll: state,
+    }));
+
+    return [
+      ...messages.filter((message: any) => !message.expiresAt || message.expiresAt > now),
+      ...pollMessages,
+    ].sort((a: any, b: any) => getMillis(a.timestamp) - getMillis(b.timestamp));
+  }, [messages, polls, now]);
+
+  const handleSendPoll = useCallback(async (poll: Poll) => {
+    setShowPollComposer(false);
+    try {
+      await GroupE2EEService.getInstance().sendPoll(params.chatId, poll);
+    } catch (error) {
+      handleError(error);
+    }
+  }, [params.chatId, handleError]);
+
+  const handlePollVote = useCallback(async (pollId: string, optionIds: string[]) => {
+    try {
+      await GroupE2EEService.getInstance().votePoll(params.chatId, pollId, optionIds);
+    } catch (error) {
+      handleError(error);
+    }
+  }, [params.chatId, handleError]);
+
+  const handlePollClose = useCallback((pollId: string) => {
+    Alert.alert(
+      'End Poll',
+      'No one will be able to vote or sign up after this.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'End',
+          onPress: async () => {
+            try {
+              await GroupE2EEService.getInstance().closePoll(params.chatId, pollId);
+            } catch (error) {
+              handleError(error);
+            }
+          }
+        }
+      ]
+    );
+  }, [params.chatId, handleError]);
+
+  // Turn a finished poll into an event for the chat's members, then point the poll at it
+  const handleCreateEventFromPoll = useCallback(async (pollId: string, state: PollState, results: PollResults) => {
+    try {
+      const details = getPollEventDetails(state, results, (id) => memberNames[id] || 'Someone');
+      const eventId = await createEventMobile({
+        ...details,
+        isVirtual: false,
+        privacy: 'invite_only',
+        allowGuestPlusOne: false,
+        showGuestList: true,
+        requireRsvp: true,
+        invitedMemberIds: participantIds.filter(id => id !== user?.uid),
+      });
+
+      await GroupE2EEService.getInstance().closePoll(params.chatId, pollId, eventId);
+      router.push({ pathname: '/(screens)/eventDetail', params: { eventId } });
+    } catch (error) {
+      handleError(error);
+    }
+  }, [params.chatId, participantIds, user?.uid, memberNames, router, handleError]);
+
   // Fetch verification status for direct chats
   useEffect(() => {
     if (!user?.uid || participantIds.length !== 1) return;
@@ -293,6 +463,42 @@ export default function ChatDetailScreen() {
       setShowMessageActions(true);
     };
     
+    if (item.type === 'poll') {
+      return (
+        <View style={[styles.messageContainer, isOwnMessage ? styles.ownMessage : styles.otherMessage]}>
+          <PollCard
+            state={item.poll}
+            currentUserId={user?.uid || ''}
+            getName={(id) => memberNames[id] || 'Someone'}
+            onVote={(optionIds) => handlePollVote(item.id, optionIds)}
+            onClose={() => handlePollClose(item.id)}
+            onCreateEvent={(results) => handleCreateEventFromPoll(item.id, item.poll, results)}
+            onOpenEvent={(eventId) => router.push({ pathname: '/(screens)/eventDetail', params: { eventId } })}
+          />
+        </View>
+      );
+    }
+    
+    if (item.type === 'system') {
+      return (
+        <View style={styles.systemMessage}>
+          <Text style={[styles.systemMessageText, { color: textColor }]}>{item.text}</Text>
+        </View>
+      );
+    }
+    
+    if (item.deletedForEveryone) {
+      return (
+        <View style={[styles.messageContainer, isOwnMessage ? styles.ownMessage : styles.otherMessage]}>
+          <View style={[styles.messageBubble, styles.deletedBubble, { borderColor }]}>
+            <Text style={[styles.deletedText, { color: textColor }]}>
+              {isOwnMessage ? 'You deleted this message' : 'This message was deleted'}
+            </Text>
+          </View>
+        </View>
+      );
+    }
+    
     return (
       <TouchableOpacity
         onLongPress={handleLongPress}
@@ -307,6 +513,19 @@ export default function ChatDetailScreen() {
           isOwnMessage ? styles.ownMessageBubble : styles.otherMessageBubble,
           { backgroundColor: isOwnMessage ? Colors.light.primary : borderColor }
         ]}>
+          {item.replyTo && (
+            <View style={[
+              styles.replyQuote,
+              { borderLeftColor: isOwnMessage ? 'rgba(255,255,255,0.7)' : Colors.light.primary }
+            ]}>
+              <Text
+                style={[styles.replyQuoteText, { color: isOwnMessage ? 'rgba(255,255,255,0.85)' : textColor }]}
+                numberOfLines={2}
+              >
+                {item.replyTo.preview}
+              </Text>
+            </View>
+          )}
           {item.type === 'text' ? (
             <Text style={[
               styles.messageText,
@@ -338,7 +557,16 @@ export default function ChatDetailScreen() {
               { color: isOwnMessage ? 'rgba(255,255,255,0.7)' : 'gray' }
             ]}>
               {new Date(item.timestamp).toLocaleTimeString()}
+              {item.editedAt ? ' · edited' : ''}
             </Text>
+            {item.expiresAt && (
+              <Ionicons
+                name="timer-outline"
+                size={12}
+                color={isOwnMessage ? 'rgba(255,255,255,0.7)' : 'gray'}
+                style={styles.disappearingIcon}
+              />
+            )}
             <MessageEncryptionIndicator encrypted={item.encrypted} />
             <MessageStatusIndicator
               status={item.status || 'sent'}
@@ -352,7 +580,7 @@ export default function ChatDetailScreen() {
           {item.reactions && item.reactions.length > 0 && (
             <MessageReactions
               reactions={item.reactions}
-              onReact={(emoji) => handleReaction(item.id, emoji)}
+              onReact={(emoji) => handleReaction(item, emoji)}
               currentUserId={user?.uid || ''}
             />
           )}
@@ -363,14 +591,26 @@ export default function ChatDetailScreen() {
           onPress={(event) => {
             const { pageX, pageY } = event.nativeEvent;
             setReactionPickerPosition({ x: pageX, y: pageY });
-            setReactionMessageId(item.id);
+            setReactionMessage(item);
             setShowReactionPicker(true);
           }}
           style={styles.reactionTouchArea}
         />
       </TouchableOpacity>
     );
-  }, [user, textColor, borderColor, handleReaction, markAsRead, participantIds.length]);
+  }, [
+    user,
+    textColor,
+    borderColor,
+    handleReaction,
+    markAsRead,
+    participantIds.length,
+    memberNames,
+    handlePollVote,
+    handlePollClose,
+    handleCreateEventFromPoll,
+    router,
+  ]);
 
   if (isLoading && !isInitialized) {
     return (
@@ -405,7 +645,12 @@ export default function ChatDetailScreen() {
       <SafeAreaView style={[styles.container, { backgroundColor }]}>
         <ChatHeader
           title={params.chatTitle || 'Encrypted Chat'}
-          subtitle={isGroupChat ? `${participantIds.length + 1} members` : undefined}
+          subtitle={[
+            isGroupChat ? `${participantIds.length + 1} members` : undefined,
+            disappearingSeconds
+              ? `Disappearing messages: ${getDisappearingTimerLabel(disappearingSeconds)}`
+              : undefined,
+          ].filter(Boolean).join(' · ') || undefined}
           isOnline={true}
           verificationStatus={verificationStatus}
           onBackPress={() => router.back()}
@@ -478,7 +723,7 @@ export default function ChatDetailScreen() {
 
           <FlashList
             ref={messageListRef}
-            data={messages}
+            data={visibleMessages}
             renderItem={renderMessage}
             keyExtractor={(item) => item.id}
             estimatedItemSize={80}
@@ -493,6 +738,18 @@ export default function ChatDetailScreen() {
             isVisible={typingUsers.length > 0}
           />
 
+          {!showVoiceRecorder && replyingTo && (
+            <View style={[styles.replyBar, { borderTopColor: borderColor }]}>
+              <Ionicons name="arrow-undo" size={18} color={Colors.light.primary} />
+              <Text style={[styles.replyBarText, { color: textColor }]} numberOfLines={1}>
+                {replyingTo.preview}
+              </Text>
+              <TouchableOpacity onPress={() => setReplyingTo(null)}>
+                <Ionicons name="close" size={20} color={textColor} />
+              </TouchableOpacity>
+            </View>
+          )}
+
           {!showVoiceRecorder && (
             <View style={[styles.inputContainer, { borderTopColor: borderColor }]}>
             {editingMessage ? (
@@ -519,6 +776,14 @@ export default function ChatDetailScreen() {
                 >
                   <Ionicons name="attach" size={24} color={textColor} />
                 </TouchableOpacity>
+                {isGroupChat && (
+                  <TouchableOpacity 
+                    onPress={() => setShowPollComposer(true)}
+                    style={styles.attachButton}
+                  >
+                    <Ionicons name="bar-chart-outline" size={24} color={textColor} />
+                  </TouchableOpacity>
+                )}
               </>
             )}
             
@@ -576,16 +841,22 @@ export default function ChatDetailScreen() {
           onClose={() => setShowMediaGallery(false)}
         />
         
+        <PollComposer
+          visible={showPollComposer}
+          onSubmit={handleSendPoll}
+          onClose={() => setShowPollComposer(false)}
+        />
+        
         <ReactionPicker
           visible={showReactionPicker}
           onSelect={(emoji) => {
-            if (reactionMessageId) {
-              handleReaction(reactionMessageId, emoji);
+            if (reactionMessage) {
+              handleReaction(reactionMessage, emoji);
             }
           }}
           onClose={() => {
             setShowReactionPicker(false);
-            setReactionMessageId(null);
+            setReactionMessage(null);
             setReactionPickerPosition(undefined);
           }}
           anchorPosition={reactionPickerPosition}
@@ -677,6 +948,49 @@ const styles = StyleSheet.create({
   sendButton: {
     padding: 10,
   },
+  replyQuote: {
+    borderLeftWidth: 3,
+    paddingLeft: 8,
+    marginBottom: 6,
+  },
+  replyQuoteText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  replyBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+  },
+  replyBarText: {
+    flex: 1,
+    marginHorizontal: 10,
+    fontSize: 14,
+  },
+  deletedBubble: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+  },
+  deletedText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    opacity: 0.7,
+  },
+  systemMessage: {
+    alignSelf: 'center',
+    marginVertical: 8,
+    paddingHorizontal: 16,
+  },
+  systemMessageText: {
+    fontSize: 12,
+    textAlign: 'center',
+    opacity: 0.6,
+  },
+  disappearingIcon: {
+    marginLeft: 4,
+  },
   reactionTouchArea: {
     position: 'absolute',
     top: 0,
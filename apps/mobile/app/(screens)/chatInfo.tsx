@@ -19,6 +19,10 @@ import Avatar from '../../components/ui/Avatar';
 import { callFirebaseFunction } from '../../src/lib/errorUtils';
 import { ChatNotificationService } from '../../src/services/ChatNotificationService';
 import { getFirebaseDb } from '../../src/lib/firebase';
+import {
+  DISAPPEARING_MESSAGE_OPTIONS,
+  getDisappearingTimerLabel,
+} from '../../src/services/encryption/DisappearingMessages';
 import { format } from 'date-fns';
 import { logger } from '../../src/services/LoggingService';
 
@@ -45,6 +49,7 @@ interface ChatDetails {
   members: ChatMember[];
   messageCount: number;
   mediaCount: number;
+  disappearingMessagesSeconds?: number;
 }
 
 export default function ChatInfoScreen() {
@@ -209,6 +214,40 @@ export default function ChatInfoScreen() {
     );
   }, [params.chatId, loadChatDetails]);
 
+  // Disappearing messages; in groups only admins can change the timer
+  const handleDisappearingMessages = useCallback(() => {
+    if (chatDetails?.type === 'group' && !isAdmin) {
+      Alert.alert('Disappearing Messages', 'Only group admins can change this setting');
+      return;
+    }
+
+    Alert.alert(
+      'Disappearing Messages',
+      'New messages will be deleted from every device after the time you choose.',
+      [
+        ...DISAPPEARING_MESSAGE_OPTIONS.map(option => ({
+          text: option.label,
+          onPress: async () => {
+            try {
+              await callFirebaseFunction('updateChatSettings', {
+                chatId: params.chatId,
+                settings: { disappearingMessagesSeconds: option.seconds },
+              });
+              setChatDetails(prev => prev ? {
+                ...prev,
+                disappearingMessagesSeconds: option.seconds
+              } : null);
+            } catch (error) {
+              logger.error('Failed to update disappearing messages:', error);
+              Alert.alert('Error', 'Failed to update disappearing messages');
+            }
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  }, [params.chatId, chatDetails?.type, isAdmin]);
+
   // Edit group info
   const handleEditGroupInfo = useCallback(() => {
     // TODO: Navigate to edit group screen
@@ -338,6 +377,18 @@ export default function ChatInfoScreen() {
               trackColor={{ false: borderColor, true: Colors.light.primary }}
             />
           </View>
+
+          <TouchableOpacity
+            style={styles.actionRow}
+            onPress={handleDisappearingMessages}
+          >
+            <Ionicons name="timer-outline" size={24} color={Colors.light.primary} />
+            <Text style={[styles.actionText, { color: textColor }]}>Disappearing Messages</Text>
+            <Text style={[styles.infoValue, { color: textColor + '80' }]}>
+              {getDisappearingTimerLabel(chatDetails.disappearingMessagesSeconds)}
+            </Text>
+            <Ionicons name="chevron-forward" size={20} color={borderColor} />
+          </TouchableOpacity>
         </View>
 
         {/* Chat Info */}
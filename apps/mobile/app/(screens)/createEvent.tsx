@@ -16,7 +16,17 @@ import { Ionicons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { useRouter, useNavigation, useLocalSearchParams, usePathname, router as expoRouter } from 'expo-router';
 import * as ImagePicker from 'expo-image-picker';
 import { getFirebaseAuth } from '../../src/lib/firebase';
-import { createEventMobile } from '../../src/lib/eventUtils';
+import {
+  createEventMobile,
+  getEventDetailsMobile,
+  updateEventMobile,
+  buildRecurrenceRule,
+  parseRecurrenceRule,
+  Event,
+  EventRecurrence,
+  RecurrenceEditScope,
+  RecurrenceFrequency,
+} from '../../src/lib/eventUtils';
 import { useImageUpload } from '../../hooks/useImageUpload';
 import { showErrorAlert } from '../../src/lib/errorUtils';
 import { ErrorBoundary } from '../../components/ui/ErrorBoundary';
@@ -30,6 +40,7 @@ import { sanitizeUserInput, sanitizeUrl } from '../../src/lib/xssSanitization';
 import FullScreenDatePicker from '../../components/ui/FullScreenDatePicker';
 import TimePickerModal from '../../components/ui/TimePickerModal';
 import MediaGallery, { MediaItem } from '../../components/ui/MediaGallery';
+import AnimatedActionSheet, { ActionSheetAction } from '../../components/ui/AnimatedActionSheet';
 import { Colors } from '../../constants/Colors'; // Import Colors for dynastyGreen
 import { logger } from '../../src/services/LoggingService';
 
@@ -74,6 +85,9 @@ interface NewEventData {
   // Invite settings
   inviteType: 'all' | 'select';
   selectedMembers: string[]; // Array of user IDs
+
+  // Repeat settings (null when the event does not repeat)
+  recurrenceFrequency: RecurrenceFrequency | null;
   
   // Old fields to be reviewed/removed if not mapped
   // visibility: 'Public' | 'Private' | 'Friends Only'; // Replaced by new 'privacy' and inviteType
@@ -88,6 +102,21 @@ interface FamilyMember {
   profilePicture: string | null;
 }
 
+const REPEAT_OPTIONS: { label: string; frequency: RecurrenceFrequency | null }[] = [
+  { label: 'Does not repeat', frequency: null },
+  { label: 'Daily', frequency: 'DAILY' },
+  { label: 'Weekly', frequency: 'WEEKLY' },
+  { label: 'Monthly', frequency: 'MONTHLY' },
+  { label: 'Yearly', frequency: 'YEARLY' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shift a YYYY-MM-DD date string by a number of days
+const shiftDateString = (date: string, days: number): string => {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().split('T')[0];
+};
+
 const CreateEventScreen = () => {
   const router = useRouter();
   const navigation = useNavigation();
@@ -107,6 +136,9 @@ const CreateEventScreen = () => {
     prefillDate?: string, 
     prefillStartTime?: string, 
     prefillEndTime?: string,
+    eventId?: string, // Set with editMode when editing an existing event
+    editMode?: string,
+    occurrenceDate?: string, // Set when editing from one occurrence of a recurring event
   }>();
   const currentPath = usePathname();
 
@@ -139,6 +171,7 @@ const CreateEventScreen = () => {
     photos: [], // Initialize as empty MediaItem array
     inviteType: 'all',
     selectedMembers: [],
+    recurrenceFrequency: null,
   });
 
   const [_isCreatingEvent, setIsCreatingEvent] = useState<boolean>(false);
@@ -149,10 +182,71 @@ const CreateEventScreen = () => {
   // Initialize Firebase Auth
   const auth = getFirebaseAuth();
 
+  // MARK: - Edit Mode
+  const isEditing = params.editMode === 'true' && !!params.eventId;
+  const [seriesRecurrence, setSeriesRecurrence] = useState<EventRecurrence | null>(null);
+  const [seriesOffsetDays, setSeriesOffsetDays] = useState(0); // Series start relative to the edited occurrence
+  const [initialPhotoUris, setInitialPhotoUris] = useState<string[]>([]);
+  const [isRepeatSheetVisible, setRepeatSheetVisible] = useState(false);
+  const [isScopeSheetVisible, setScopeSheetVisible] = useState(false);
+  const seriesFrequency = seriesRecurrence ? parseRecurrenceRule(seriesRecurrence.rrule).frequency : null;
+  const recurrenceChanged = newEvent.recurrenceFrequency !== seriesFrequency;
+
+  useEffect(() => {
+    if (!isEditing) return;
+    const loadEventForEditing = withErrorHandling(async () => {
+      const details = await getEventDetailsMobile(params.eventId!, params.occurrenceDate);
+      if (!details) {
+        showErrorAlert({ code: "not-found", message: "This event could not be found." }, "Event Not Found");
+        router.back();
+        return;
+      }
+
+      const eventDate = new Date(details.eventDate);
+      setNewEvent(prev => ({
+        ...prev,
+        title: details.title,
+        description: details.description || '',
+        eventDate,
+        endDate: details.endDate ? new Date(details.endDate) : eventDate,
+        isMultiDay: !!details.endDate && details.endDate !== details.eventDate,
+        startTime: details.startTime || prev.startTime,
+        endTime: details.endTime || prev.endTime,
+        timezone: details.timezone || prev.timezone,
+        location: details.location?.address || '',
+        selectedLocation: details.location || null,
+        isVirtual: details.isVirtual,
+        virtualLink: details.virtualLink || '',
+        dressCode: details.dresscode || '',
+        whatToBring: details.whatToBring || '',
+        privacy: details.privacy,
+        allowGuestPlusOne: details.allowGuestPlusOne,
+        showGuestList: details.showGuestList,
+        requireRsvp: details.requireRsvp,
+        rsvpDeadline: details.rsvpDeadline ? new Date(details.rsvpDeadline) : null,
+        photos: (details.coverPhotoUrls || []).map(uri => ({ uri, type: 'image' as const })),
+        inviteType: 'select',
+        selectedMembers: details.invitedMemberIds || [],
+        recurrenceFrequency: details.recurrence ? parseRecurrenceRule(details.recurrence.rrule).frequency : null,
+      }));
+      setInitialPhotoUris(details.coverPhotoUrls || []);
+      setSeriesRecurrence(details.recurrence || null);
+
+      // Whole-series edits made from an occurrence are shifted back onto the series start
+      if (details.recurrence && params.occurrenceDate) {
+        const series = await getEventDetailsMobile(params.eventId!);
+        if (series) {
+          setSeriesOffsetDays(Math.round((Date.parse(series.eventDate) - Date.parse(params.occurrenceDate)) / DAY_MS));
+        }
+      }
+    });
+    loadEventForEditing();
+  }, [isEditing, params.eventId, params.occurrenceDate]);
+
   // MARK: - Navigation Setup
   useEffect(() => {
     navigation.setOptions({
-      title: 'Create Event', // Set the header title
+      title: isEditing ? 'Edit Event' : 'Create Event', // Set the header title
       headerBackTitleVisible: false, // Should be redundant if headerLeft is used, but good practice
       headerStyle: { backgroundColor: '#FFFFFF' }, 
       headerTintColor: dynastyGreen, 
@@ -163,7 +257,7 @@ const CreateEventScreen = () => {
         </TouchableOpacity>
       ),
     });
-  }, [navigation, router]);
+  }, [navigation, router, isEditing]);
 
   // Use the image upload hook - this might need to be replaced or heavily adapted
   // for multiple uploads and to align with web's `uploadMedia` utility.
@@ -461,7 +555,7 @@ const CreateEventScreen = () => {
     return finalMediaUris; 
   };
 
-  const handleCreateEvent = withErrorHandling(async () => {
+  const handleCreateEvent = withErrorHandling(async (editScope: RecurrenceEditScope = 'all') => {
     reset();
     if (!auth.currentUser) { 
       // Use showErrorAlert for consistency
@@ -531,8 +625,7 @@ const CreateEventScreen = () => {
         return date.toISOString().split('T')[0];
       };
 
-      // Use the eventUtils function to create the event with sanitized inputs
-      const eventId = await createEventMobile({
+      const eventPayload = {
         title: sanitizeUserInput(newEvent.title, { maxLength: 200, trim: true }),
         description: sanitizeUserInput(newEvent.description, { maxLength: 2000, trim: true }),
         eventDate: formatDateToYYYYMMDD(newEvent.eventDate) || '',
@@ -559,7 +652,16 @@ const CreateEventScreen = () => {
             ? familyMembers.map(member => member.id)
             : newEvent.selectedMembers,
         coverPhotoStoragePaths: allCoverMediaUrls.filter(url => typeof url === 'string'),
-      });
+        recurrence: newEvent.recurrenceFrequency ? { rrule: buildRecurrenceRule(newEvent.recurrenceFrequency) } : undefined,
+      };
+
+      if (isEditing) {
+        await saveEventChanges(eventPayload, editScope);
+        return;
+      }
+
+      // Use the eventUtils function to create the event with sanitized inputs
+      const eventId = await createEventMobile(eventPayload);
 
       if (eventId) {
         Alert.alert('Event Created', 'Your event has been successfully created!');
@@ -585,6 +687,115 @@ const CreateEventScreen = () => {
     }
   });
 
+  // Sends the edited fields for the chosen scope; single occurrences only take their own date, time and place
+  const saveEventChanges = async (
+    eventPayload: Partial<Event> & Pick<Event, 'eventDate'>,
+    editScope: RecurrenceEditScope
+  ) => {
+    const { recurrence: _recurrence, coverPhotoStoragePaths, ...fields } = eventPayload;
+    let updates: Partial<Event>;
+
+    if (seriesRecurrence && editScope === 'this') {
+      updates = {
+        title: fields.title,
+        description: fields.description,
+        eventDate: fields.eventDate,
+        endDate: fields.endDate,
+        startTime: fields.startTime,
+        endTime: fields.endTime,
+        location: fields.location,
+        isVirtual: fields.isVirtual,
+        virtualLink: fields.virtualLink,
+      };
+    } else {
+      updates = { ...fields };
+      const photoUris = newEvent.photos.map(photo => photo.uri);
+      if (photoUris.join('|') !== initialPhotoUris.join('|')) {
+        updates.coverPhotoStoragePaths = coverPhotoStoragePaths;
+      }
+      if (editScope === 'all' && seriesOffsetDays !== 0) {
+        updates.eventDate = shiftDateString(fields.eventDate, seriesOffsetDays);
+        updates.endDate = fields.endDate ? shiftDateString(fields.endDate, seriesOffsetDays) : fields.endDate;
+      }
+      if (recurrenceChanged) {
+        if (newEvent.recurrenceFrequency) {
+          const current = seriesRecurrence ? parseRecurrenceRule(seriesRecurrence.rrule) : null;
+          updates.recurrence = {
+            rrule: buildRecurrenceRule(newEvent.recurrenceFrequency, current?.interval, current?.until),
+            ...(seriesRecurrence?.exdates ? { exdates: seriesRecurrence.exdates } : {}),
+          };
+        } else {
+          updates.isRecurring = false;
+        }
+      }
+    }
+
+    const updatedEventId = await updateEventMobile(
+      params.eventId!,
+      updates,
+      seriesRecurrence ? { editScope, occurrenceDate: params.occurrenceDate } : undefined
+    );
+    if (updatedEventId) {
+      Alert.alert('Event Updated', 'Your changes have been saved.');
+      router.back();
+    } else {
+      showErrorAlert({ code: "unknown", message: "Event update failed. Please try again." }, "Update Failed");
+    }
+  };
+
+  const handleSavePress = () => {
+    if (isEditing && seriesRecurrence) {
+      setScopeSheetVisible(true);
+      return;
+    }
+    handleCreateEvent();
+  };
+
+  const chooseEditScope = (editScope: RecurrenceEditScope) => {
+    setScopeSheetVisible(false);
+    handleCreateEvent(editScope);
+  };
+
+  const editScopeActions: ActionSheetAction[] = [
+    // A changed repeat rule cannot apply to a single occurrence
+    ...(params.occurrenceDate && !recurrenceChanged ? [{
+      title: 'This event',
+      icon: 'calendar-outline' as const,
+      onPress: () => chooseEditScope('this'),
+    }] : []),
+    ...(params.occurrenceDate ? [{
+      title: 'This and following events',
+      icon: 'play-forward-outline' as const,
+      onPress: () => chooseEditScope('following'),
+    }] : []),
+    {
+      title: 'All events',
+      icon: 'albums-outline',
+      onPress: () => chooseEditScope('all'),
+    },
+    {
+      title: 'Cancel',
+      style: 'cancel',
+      onPress: () => setScopeSheetVisible(false),
+    },
+  ];
+
+  const repeatActions: ActionSheetAction[] = [
+    ...REPEAT_OPTIONS.map(option => ({
+      title: option.label,
+      icon: (newEvent.recurrenceFrequency === option.frequency ? 'checkmark' : undefined) as ActionSheetAction['icon'],
+      onPress: () => {
+        setNewEvent(prev => ({ ...prev, recurrenceFrequency: option.frequency }));
+        setRepeatSheetVisible(false);
+      },
+    })),
+    {
+      title: 'Cancel',
+      style: 'cancel',
+      onPress: () => setRepeatSheetVisible(false),
+    },
+  ];
+
   const inputAccessoryViewID = 'uniqueInputAccessoryViewID';
 
   // NEW Date/Time Picker Logic with react-native-modal-datetime-picker
@@ -778,6 +989,19 @@ const CreateEventScreen = () => {
           
           <View style={styles.separatorThin} />
 
+          <TouchableOpacity style={styles.inputRow} onPress={() => setRepeatSheetVisible(true)}>
+            <MaterialCommunityIcons name="calendar-sync" size={22} color={styles.inputIcon.color} style={styles.inputIcon} />
+            <Text style={styles.inputLabel}>Repeat</Text>
+            <View style={styles.valueContainer}>
+              <Text style={styles.inputTextValue}>
+                {REPEAT_OPTIONS.find(option => option.frequency === newEvent.recurrenceFrequency)?.label}
+              </Text>
+              <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+            </View>
+          </TouchableOpacity>
+
+          <View style={styles.separatorThin} />
+
           <View style={styles.inputRow}>
             <Ionicons name="globe-outline" size={22} color={styles.inputIcon.color} style={styles.inputIcon} />
             {/* For now, just display timezone, make it pressable later for selection */}
@@ -1022,9 +1246,24 @@ const CreateEventScreen = () => {
         is24Hour={false}
       />
 
+      <AnimatedActionSheet
+        isVisible={isRepeatSheetVisible}
+        onClose={() => setRepeatSheetVisible(false)}
+        actions={repeatActions}
+        title="Repeat"
+      />
+
+      <AnimatedActionSheet
+        isVisible={isScopeSheetVisible}
+        onClose={() => setScopeSheetVisible(false)}
+        actions={editScopeActions}
+        title="Save changes"
+        message="This is a repeating event. Which events should change?"
+      />
+
       <View style={styles.createButtonContainerOuter}>
-        <TouchableOpacity style={styles.createButton} onPress={handleCreateEvent}>
-            <Text style={styles.createButtonText}>Create Event</Text>
+        <TouchableOpacity style={styles.createButton} onPress={handleSavePress}>
+            <Text style={styles.createButtonText}>{isEditing ? 'Save Changes' : 'Create Event'}</Text>
         </TouchableOpacity>
       </View>
       
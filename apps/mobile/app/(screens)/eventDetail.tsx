@@ -13,7 +13,7 @@ import { Typography } from '@/constants/Typography';
 import { Spacing, BorderRadius, Shadows } from '@/constants/Spacing';
 import { commonHeaderOptions } from '@/constants/headerConfig';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { getEventDetailsMobile, EventDetails as MobileEventDetails, addCommentToEventMobile, deleteEventCommentMobile, RsvpStatus , deleteEventMobile, rsvpToEventMobile } from '@src/lib/eventUtils';
+import { getEventDetailsMobile, EventDetails as MobileEventDetails, addCommentToEventMobile, deleteEventCommentMobile, RsvpStatus , deleteEventMobile, rsvpToEventMobile, describeRecurrence } from '@src/lib/eventUtils';
 import { formatDate, formatTimeAgo, toDate } from '@src/lib/dateUtils';
 import { useAuth } from '@/src/contexts/AuthContext';
 import AnimatedActionSheet, { ActionSheetAction } from '@/components/ui/AnimatedActionSheet';
@@ -30,8 +30,9 @@ import { logger } from '../../src/services/LoggingService';
 const EventDetailScreen = () => {
   const router = useRouter();
   const navigation = useNavigation();
-  const params = useLocalSearchParams<{ eventId: string }>();
+  const params = useLocalSearchParams<{ eventId: string; occurrenceDate?: string }>();
   const eventId = params.eventId;
+  const occurrenceDate = params.occurrenceDate; // Set when opening one occurrence of a recurring event
   const colorScheme = useColorScheme();
   const { user } = useAuth();
   const { handleError, withErrorHandling, isError, reset } = useErrorHandler({
@@ -77,7 +78,7 @@ const EventDetailScreen = () => {
         try {
           logger.debug(`[EventDetailScreen] Fetching details for event: ${eventId}`);
           // Use the utility function from eventUtils
-          const details = await getEventDetailsMobile(eventId);
+          const details = await getEventDetailsMobile(eventId, occurrenceDate);
           if (details) {
             logger.debug('[EventDetailScreen] Event details fetched:', details);
             setEventDetails(details);
@@ -149,7 +150,7 @@ const EventDetailScreen = () => {
       setIsLoading(false);
       navigation.setOptions({ title: 'Error' });
     }
-  }, [eventId, navigation, router, user, scheme, handleError, handleShareEventInternal, reset, withErrorHandling]);
+  }, [eventId, occurrenceDate, navigation, router, user, scheme, handleError, handleShareEventInternal, reset, withErrorHandling]);
 
   const handleShareEventInternal = withErrorHandling(async () => {
     reset();
@@ -180,7 +181,7 @@ const EventDetailScreen = () => {
     if (!eventDetails) return;
     router.push({
       pathname: '/(screens)/createEvent',
-      params: { eventId: eventDetails.id, editMode: 'true' },
+      params: { eventId: eventDetails.id, editMode: 'true', occurrenceDate: eventDetails.occurrenceDate },
     });
     setActionSheetVisible(false);
   };
@@ -363,7 +364,7 @@ const EventDetailScreen = () => {
     
     // Otherwise, proceed with RSVP directly
     try {
-      const success = await rsvpToEventMobile(eventDetails.id, status);
+      const success = await rsvpToEventMobile(eventDetails.id, status, false, undefined, eventDetails.occurrenceDate);
       if (success) {
         setEventDetails(prev => prev ? {...prev, userStatus: status} : null);
         const statusMessage = status === 'accepted' ? "You're going to this event!" :
@@ -392,7 +393,8 @@ const EventDetailScreen = () => {
         eventDetails.id, 
         'accepted', 
         includePlusOne,
-        includePlusOne ? plusOneName.trim() || undefined : undefined
+        includePlusOne ? plusOneName.trim() || undefined : undefined,
+        eventDetails.occurrenceDate
       );
       
       if (success) {
@@ -614,6 +616,13 @@ const EventDetailScreen = () => {
                 <ThemedText variant="bodyMedium" style={styles.infoText}>{formattedDate} at {formattedTime}</ThemedText>
               </View>
 
+              {eventDetails.recurrence && (
+                <View style={styles.infoRow}>
+                  <Ionicons name="repeat-outline" size={20} color={Colors[scheme].icon.primary} style={styles.infoIcon}/>
+                  <ThemedText variant="bodyMedium" style={styles.infoText}>{describeRecurrence(eventDetails.recurrence)}</ThemedText>
+                </View>
+              )}
+
               {eventDetails.location && (
                 <TouchableOpacity onPress={handleOpenMap} style={styles.infoRow}>
                   <Ionicons name="location-outline" size={20} color={Colors[scheme].icon.primary} style={styles.infoIcon}/>
@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Linking,
+} from 'react-native';
+import { useNavigation } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import Screen from '../../components/ui/Screen';
+import Button from '../../components/ui/Button';
+import Checkbox from '../../components/ui/Checkbox';
+import { ErrorBoundary } from '../../components/ui/ErrorBoundary';
+import { Colors } from '../../constants/Colors';
+import { commonHeaderOptions } from '../../constants/headerConfig';
+import { useAuth } from '../../src/contexts/AuthContext';
+import { useErrorHandler } from '../../hooks/useErrorHandler';
+import { ErrorSeverity } from '../../src/lib/ErrorHandlingService';
+import {
+  fetchUserStoriesMobile,
+  getHistoryBookMobile,
+  getHistoryBooksMobile,
+  requestHistoryBookMobile,
+} from '../../src/lib/storyUtils';
+import type { HistoryBook, Story } from '../../src/lib/storyUtils';
+
+// How often to check on a book while it is being generated
+const HISTORY_BOOK_POLL_INTERVAL_MS = 2000;
+
+const HistoryBookScreen = () => {
+  const navigation = useNavigation();
+  const { user } = useAuth();
+  const { handleError, withErrorHandling } = useErrorHandler({
+    severity: ErrorSeverity.ERROR,
+    title: 'History Book Error',
+    trackCurrentScreen: true,
+  });
+
+  const [stories, setStories] = useState<Story[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [title, setTitle] = useState('Our Family History');
+  const [includeFamilyTree, setIncludeFamilyTree] = useState(true);
+  const [includeTimeline, setIncludeTimeline] = useState(true);
+  const [book, setBook] = useState<HistoryBook | null>(null);
+  const [recentBooks, setRecentBooks] = useState<HistoryBook[]>([]);
+  const [isLoadingStories, setIsLoadingStories] = useState(true);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  useEffect(() => {
+    navigation.setOptions({
+      ...commonHeaderOptions,
+      title: 'Print History Book',
+    });
+  }, [navigation]);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    const loadStories = withErrorHandling(async () => {
+      try {
+        const userStories = await fetchUserStoriesMobile(user.uid);
+        setStories(userStories);
+        setSelectedIds(new Set(userStories.map((story) => story.id)));
+        const books = await getHistoryBooksMobile();
+        setRecentBooks(books.filter((recent) => recent.status === 'completed'));
+      } finally {
+        setIsLoadingStories(false);
+      }
+    }, { functionName: 'loadStories' });
+    loadStories().catch(() => {
+      // Error already handled by withErrorHandling
+    });
+  }, [user?.uid, withErrorHandling]);
+
+  // Poll until the book is finished
+  const bookId = book?.id;
+  const bookDone = book?.status === 'completed' || book?.status === 'failed';
+  useEffect(() => {
+    if (!bookId || bookDone) return;
+    const interval = setInterval(() => {
+      getHistoryBookMobile(bookId)
+        .then(setBook)
+        .catch((error) => handleError(error, { functionName: 'pollHistoryBook', bookId }));
+    }, HISTORY_BOOK_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [bookId, bookDone, handleError]);
+
+  const toggleStory = (storyId: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(storyId);
+    } else {
+      next.delete(storyId);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleGenerate = withErrorHandling(async () => {
+    setIsRequesting(true);
+    try {
+      const newBookId = await requestHistoryBookMobile({
+        title: title.trim(),
+        storyIds: stories.filter((story) => selectedIds.has(story.id)).map((story) => story.id),
+        includeFamilyTree,
+        includeTimeline,
+      });
+      setBook(await getHistoryBookMobile(newBookId));
+    } finally {
+      setIsRequesting(false);
+    }
+  }, { functionName: 'handleGenerate' });
+
+  const openDownload = (url: string) => {
+    Linking.openURL(url).catch((error) => handleError(error, { functionName: 'openDownload' }));
+  };
+
+  const allSelected = stories.length > 0 && selectedIds.size === stories.length;
+
+  return (
+    <ErrorBoundary screenName="HistoryBookScreen">
+      <Screen safeArea>
+        {book ? (
+          <View style={styles.progressContainer}>
+            <Ionicons name="book-outline" size={56} color={Colors.dynastyGreen} />
+            <Text style={styles.bookTitle}>{book.title}</Text>
+            {book.status === 'failed' ? (
+              <Text style={styles.errorText}>{book.error}</Text>
+            ) : (
+              <>
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${book.progress}%` }]} />
+                </View>
+                <Text style={styles.stageText}>
+                  {book.stage}
+                  {book.status === 'completed' && book.pageCount ? ` (${book.pageCount} pages)` : ''}
+                </Text>
+              </>
+            )}
+            {book.downloadUrl && (
+              <Button
+                title="Download PDF"
+                leftIcon="download-outline"
+                onPress={() => openDownload(book.downloadUrl!)}
+                style={styles.actionButton}
+              />
+            )}
+            <Button title="Done" variant="text" onPress={() => setBook(null)} />
+          </View>
+        ) : isLoadingStories ? (
+          <View style={styles.progressContainer}>
+            <ActivityIndicator size="large" color={Colors.dynastyGreen} />
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text style={styles.label}>Title</Text>
+            <TextInput
+              style={styles.input}
+              value={title}
+              maxLength={120}
+              onChangeText={setTitle}
+              placeholder="Book title"
+            />
+
+            <View style={styles.optionRow}>
+              <Checkbox value={includeFamilyTree} onValueChange={setIncludeFamilyTree} />
+              <Text style={styles.optionText}>Family tree chart</Text>
+            </View>
+            <View style={styles.optionRow}>
+              <Checkbox value={includeTimeline} onValueChange={setIncludeTimeline} />
+              <Text style={styles.optionText}>Timeline</Text>
+            </View>
+
+            <View style={styles.sectionHeader}>
+              <Text style={styles.label}>Stories ({selectedIds.size} of {stories.length})</Text>
+              {stories.length > 0 && (
+                <TouchableOpacity
+                  onPress={() =>
+                    setSelectedIds(allSelected ? new Set() : new Set(stories.map((story) => story.id)))
+                  }
+                >
+                  <Text style={styles.linkText}>{allSelected ? 'Clear all' : 'Select all'}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {stories.length === 0 && (
+              <Text style={styles.emptyText}>Write a story first to include it in your book.</Text>
+            )}
+            {stories.map((story) => (
+              <View key={story.id} style={styles.optionRow}>
+                <Checkbox
+                  value={selectedIds.has(story.id)}
+                  onValueChange={(checked) => toggleStory(story.id, checked)}
+                />
+                <View style={styles.storyText}>
+                  <Text style={styles.optionText}>{story.title || 'Untitled story'}</Text>
+                  {story.subtitle ? <Text style={styles.subtitleText}>{story.subtitle}</Text> : null}
+                </View>
+              </View>
+            ))}
+
+            <Button
+              title="Create Book"
+              leftIcon="print-outline"
+              onPress={handleGenerate}
+              isLoading={isRequesting}
+              isDisabled={isRequesting || selectedIds.size === 0 || !title.trim()}
+              style={styles.actionButton}
+            />
+
+            {recentBooks.length > 0 && (
+              <>
+                <Text style={[styles.label, styles.recentLabel]}>Recent books</Text>
+                {recentBooks.map((recent) => (
+                  <View key={recent.id} style={styles.recentRow}>
+                    <Ionicons name="book-outline" size={18} color="#555" />
+                    <Text style={styles.recentTitle} numberOfLines={1}>{recent.title}</Text>
+                    {recent.downloadUrl && (
+                      <TouchableOpacity onPress={() => openDownload(recent.downloadUrl!)}>
+                        <Text style={styles.linkText}>Download</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                ))}
+              </>
+            )}
+          </ScrollView>
+        )}
+      </Screen>
+    </ErrorBoundary>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  label: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#DDD',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 16,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#333',
+    marginLeft: 12,
+  },
+  storyText: {
+    flex: 1,
+  },
+  subtitleText: {
+    fontSize: 13,
+    color: '#777',
+    marginLeft: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    color: Colors.dynastyGreen,
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#777',
+    paddingVertical: 8,
+  },
+  actionButton: {
+    marginTop: 20,
+  },
+  recentLabel: {
+    marginTop: 24,
+  },
+  recentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  recentTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginHorizontal: 8,
+  },
+  progressContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  bookTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginVertical: 16,
+    textAlign: 'center',
+  },
+  progressTrack: {
+    width: '100%',
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#E0E0E0',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: Colors.dynastyGreen,
+  },
+  stageText: {
+    fontSize: 14,
+    color: '#555',
+    marginTop: 12,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#D32F2F',
+    textAlign: 'center',
+  },
+});
+
+export default HistoryBookScreen;
@@ -0,0 +1,330 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Ionicons } from '@expo/vector-icons';
+import QRCode from 'react-native-qrcode-svg';
+
+// UI Components
+import { Screen } from '../../components/ui/Screen';
+import Button from '../../components/ui/Button';
+
+// Services and utilities
+import DeviceLinkingService, {
+  DeviceLinkCode,
+  DeviceLinkRequest,
+} from '../../src/services/encryption/DeviceLinkingService';
+import { useErrorHandler } from '../../hooks/useErrorHandler';
+
+// Design system
+import { Colors } from '../../constants/Colors';
+import { Spacing, BorderRadius } from '../../constants/Spacing';
+import { Typography } from '../../constants/Typography';
+import { useColorScheme } from '../../hooks/useColorScheme';
+
+type Mode = 'choose' | 'show' | 'scan' | 'approving';
+
+export default function LinkDeviceScreen() {
+  const { handleError, withErrorHandling } = useErrorHandler({
+    title: 'Device Linking Error',
+  });
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme || 'light'];
+
+  const [mode, setMode] = useState<Mode>('choose');
+  const [linkRequest, setLinkRequest] = useState<DeviceLinkRequest | null>(null);
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera keeps reporting the same code while it's in view
+  const scanHandled = useRef(false);
+
+  useEffect(() => {
+    if (mode !== 'show' || !linkRequest) return;
+
+    const unsubscribe = DeviceLinkingService.waitForApproval(
+      ({ importedMessages }) => {
+        Alert.alert(
+          'Device Linked',
+          importedMessages > 0
+            ? `This device is now linked and ${importedMessages} messages were transferred.`
+            : 'This device is now linked to your account.',
+          [{ text: 'OK', onPress: () => router.back() }]
+        );
+      },
+      (error) => {
+        handleError(error, { action: 'completeDeviceLink' });
+        setMode('choose');
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [mode, linkRequest, handleError]);
+
+  useEffect(() => () => {
+    DeviceLinkingService.cancelLinkRequest();
+  }, []);
+
+  const showLinkCode = withErrorHandling(async () => {
+    const request = await DeviceLinkingService.createLinkRequest();
+    setLinkRequest(request);
+    setMode('show');
+  });
+
+  const startScanning = async () => {
+    if (!permission) return;
+
+    if (!permission.granted) {
+      const result = await requestPermission();
+      if (!result.granted) {
+        Alert.alert(
+          'Camera Permission',
+          'Camera permission is required to scan the code on your new device.'
+        );
+        return;
+      }
+    }
+
+    scanHandled.current = false;
+    setMode('scan');
+  };
+
+  const approve = withErrorHandling(async (code: DeviceLinkCode, includeHistory: boolean) => {
+    setMode('approving');
+    try {
+      await DeviceLinkingService.approveLink(code, { includeHistory });
+      Alert.alert(
+        'Device Approved',
+        'Your new device will finish setting up in a moment.',
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      setMode('choose');
+      throw error;
+    }
+  });
+
+  const handleBarCodeScanned = withErrorHandling(async ({ data }: { data: string }) => {
+    if (scanHandled.current) return;
+    scanHandled.current = true;
+    setMode('choose');
+
+    const code = DeviceLinkingService.parseLinkCode(data);
+    if (!code) {
+      Alert.alert('Not a Link Code', 'Scan the code shown on the device you want to link.');
+      return;
+    }
+
+    const pendingLink = await DeviceLinkingService.getPendingLink(code);
+    if (!pendingLink) {
+      Alert.alert(
+        'Code Expired',
+        'This code is no longer valid. Show a new code on your other device and try again.'
+      );
+      return;
+    }
+
+    Alert.alert(
+      `Link ${pendingLink.deviceName}?`,
+      'This device will get access to your encrypted messages and your contacts will see it as one of your devices. Only continue if it belongs to you.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Link Without History', onPress: () => approve(code, false) },
+        { text: 'Link and Transfer History', onPress: () => approve(code, true) },
+      ]
+    );
+  });
+
+  const renderChooser = () => (
+    <View style={styles.content}>
+      <Ionicons name="phone-portrait-outline" size={64} color={colors.primary} style={styles.icon} />
+      <Text style={[styles.title, { color: colors.text.primary }]}>
+        Link a Device
+      </Text>
+      <Text style={[styles.description, { color: colors.text.secondary }]}>
+        Set up a new phone with your encryption keys and message history from a
+        device you already use. Both devices need to be signed in to your account.
+      </Text>
+
+      <View style={styles.actions}>
+        <Button
+          title="This Is My New Device"
+          onPress={showLinkCode}
+          variant="primary"
+          leftIcon="qr-code"
+          fullWidth
+        />
+        <View style={styles.buttonSpacer} />
+        <Button
+          title="Scan Code From New Device"
+          onPress={startScanning}
+          variant="secondary"
+          leftIcon="scan"
+          fullWidth
+        />
+      </View>
+    </View>
+  );
+
+  const renderLinkCode = () => {
+    if (!linkRequest) return null;
+
+    return (
+      <View style={styles.content}>
+        <View style={[styles.qrWrapper, { backgroundColor: colors.background.primary }]}>
+          <QRCode
+            value={linkRequest.qrCode}
+            size={240}
+            backgroundColor={colors.background.primary}
+            color={colors.text.primary}
+            quietZone={10}
+          />
+        </View>
+        <Text style={[styles.description, { color: colors.text.secondary }]}>
+          On a device that's already set up, open Encryption Settings, choose
+          Link a Device and scan this code.
+        </Text>
+        <View style={styles.waiting}>
+          <ActivityIndicator color={colors.primary} />
+          <Text style={[styles.waitingText, { color: colors.text.secondary }]}>
+            Waiting for approval...
+          </Text>
+        </View>
+        <Button
+          title="Cancel"
+          onPress={() => {
+            DeviceLinkingService.cancelLinkRequest();
+            setLinkRequest(null);
+            setMode('choose');
+          }}
+          variant="secondary"
+          fullWidth
+        />
+      </View>
+    );
+  };
+
+  const renderScanner = () => (
+    <View style={StyleSheet.absoluteFillObject}>
+      <CameraView
+        style={StyleSheet.absoluteFillObject}
+        facing="back"
+        barcodeScannerSettings={{
+          barcodeTypes: ['qr'],
+        }}
+        onBarcodeScanned={handleBarCodeScanned}
+      >
+        <View style={styles.scannerOverlay}>
+          <View style={styles.scannerFrame} />
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => setMode('choose')}
+          >
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </CameraView>
+    </View>
+  );
+
+  return (
+    <Screen
+      title="Link a Device"
+      backButton
+      onBack={() => router.back()}
+    >
+      {mode === 'choose' && renderChooser()}
+      {mode === 'show' && renderLinkCode()}
+      {mode === 'approving' && (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text style={[styles.waitingText, { color: colors.text.secondary }]}>
+            Sending your keys securely...
+          </Text>
+        </View>
+      )}
+      {mode === 'scan' && renderScanner()}
+    </Screen>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    flex: 1,
+    padding: Spacing.lg,
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  icon: {
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.md,
+  },
+  title: {
+    ...Typography.styles.heading3,
+    marginBottom: Spacing.sm,
+  },
+  description: {
+    ...Typography.styles.bodyMedium,
+    textAlign: 'center',
+    marginBottom: Spacing.lg,
+  },
+  actions: {
+    alignSelf: 'stretch',
+    marginTop: Spacing.lg,
+  },
+  buttonSpacer: {
+    height: Spacing.md,
+  },
+  qrWrapper: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    marginVertical: Spacing.lg,
+  },
+  waiting: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing.xl,
+  },
+  waitingText: {
+    ...Typography.styles.caption,
+    marginLeft: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  scannerOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scannerFrame: {
+    width: 250,
+    height: 250,
+    borderWidth: 2,
+    borderColor: 'white',
+    borderRadius: BorderRadius.lg,
+  },
+  cancelButton: {
+    position: 'absolute',
+    bottom: 50,
+    backgroundColor: 'white',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.full,
+  },
+  cancelButtonText: {
+    ...Typography.styles.bodyMedium,
+    fontWeight: '600',
+    color: 'black',
+  },
+});
@@ -21,6 +21,7 @@ import { ErrorSeverity } from '../../src/lib/ErrorHandlingService';
 import { getFirebaseDb } from '../../src/lib/firebase';
 import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
 import { fetchAccessibleStoriesMobile } from '../../src/lib/storyUtils';
+import { getRelationshipMobile, RelationshipResult } from '../../src/lib/firebaseUtils';
 import { useAuth } from '../../src/contexts/AuthContext';
 import { logger } from '../../src/services/LoggingService';
 
@@ -86,6 +87,7 @@ function MemberProfileScreenContent() {
   const [activeTab, setActiveTab] = useState<ActiveTab>('stories');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [relationship, setRelationship] = useState<RelationshipResult | null>(null);
 
   const memberNameForHeader = params.memberName || profile?.name || 'Profile';
 
@@ -117,6 +119,14 @@ function MemberProfileScreenContent() {
       }
       
       const userData = userDoc.data();
+      // Duplicate members that were merged leave a redirect to the member they were merged into
+      if (userData?.mergedInto) {
+        router.replace({
+          pathname: '/(screens)/memberProfile',
+          params: { userId: userData.mergedInto, memberName: params.memberName }
+        });
+        return;
+      }
       if (userData) {
         setProfile({
           id: params.userId,
@@ -207,12 +217,35 @@ function MemberProfileScreenContent() {
     } finally {
       setIsLoading(false);
     }
-  }, { operation: 'fetchMemberData' }), [params.userId, params.memberName, user, firestoreUser, withErrorHandling, handleError]);
+  }, { operation: 'fetchMemberData' }), [params.userId, params.memberName, user, firestoreUser, router, withErrorHandling, handleError]);
 
   useEffect(() => {
     fetchMemberData();
   }, [fetchMemberData]);
 
+  // Work out how the member is related to the current user
+  useEffect(() => {
+    if (!params.userId || params.userId === user?.uid) {
+      setRelationship(null);
+      return;
+    }
+
+    getRelationshipMobile(params.userId)
+      .then(setRelationship)
+      .catch(relationshipError => {
+        logger.error('Error calculating relationship:', relationshipError);
+        setRelationship(null);
+      });
+  }, [params.userId, user?.uid]);
+
+  const handlePathStepPress = (stepId: string, stepName: string) => {
+    if (stepId === params.userId) return;
+    router.push({
+      pathname: '/(screens)/memberProfile',
+      params: { userId: stepId, memberName: stepName }
+    });
+  };
+
   const handleStoryPress = withErrorHandling(async (storyId: string) => {
     try {
       router.push({
@@ -354,6 +387,26 @@ function MemberProfileScreenContent() {
             style={styles.profilePic}
           />
           <Text style={styles.profileName}>{profile?.name || 'Loading...'}</Text>
+          {relationship?.relationship && (
+            <>
+              <Text style={styles.relationshipText}>Your {relationship.relationship}</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.relationshipPath}>
+                {relationship.path.map((step, index) => (
+                  <View key={step.id} style={styles.relationshipPathStep}>
+                    {index > 0 && (
+                      <Ionicons name="chevron-forward" size={14} color={Colors.light.textMuted} style={styles.relationshipPathArrow} />
+                    )}
+                    <TouchableOpacity onPress={() => handlePathStepPress(step.id, step.name)}>
+                      <Text style={styles.relationshipPathName}>{step.relation === 'self' ? 'You' : step.name}</Text>
+                      {step.relation !== 'self' && (
+                        <Text style={styles.relationshipPathRelation}>{step.relation}</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          )}
         </View>
 
         <View style={styles.tabContainer}>
@@ -410,6 +463,32 @@ const styles = StyleSheet.create({
     fontWeight: Fonts.weight.bold, // Use theme font weight
     color: Colors.light.text,
   },
+  relationshipText: {
+    fontSize: Fonts.size.medium,
+    color: Colors.light.textSecondary,
+    marginTop: Layout.spacing.small,
+  },
+  relationshipPath: {
+    alignItems: 'center',
+    paddingHorizontal: Layout.spacing.medium,
+    paddingTop: Layout.spacing.medium,
+  },
+  relationshipPathStep: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  relationshipPathArrow: {
+    marginHorizontal: Layout.spacing.small,
+  },
+  relationshipPathName: {
+    fontSize: Fonts.size.small,
+    fontWeight: Fonts.weight.medium,
+    color: Colors.light.text,
+  },
+  relationshipPathRelation: {
+    fontSize: Fonts.size.small,
+    color: Colors.light.textMuted,
+  },
   tabContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useLayoutEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, Switch, Alert } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Switch, Alert, TouchableOpacity } from 'react-native';
 import { useRouter, useNavigation } from 'expo-router';
 import { Colors } from '../../constants/Colors';
 import { Spacing, BorderRadius } from '../../constants/Spacing';
@@ -13,8 +13,10 @@ import { getNotificationService } from '../../src/services/NotificationService';
 import Button from '../../components/ui/Button';
 import { logger } from '../../src/services/LoggingService';
 
+type PreferenceToggleKey = Exclude<keyof NotificationPreferences, 'familyDatesLeadDays'>;
+
 interface PreferenceItem {
-  key: keyof NotificationPreferences;
+  key: PreferenceToggleKey;
   title: string;
   description: string;
   icon: string;
@@ -28,6 +30,8 @@ interface NotificationPreferences {
   messages: boolean;
   family: boolean;
   system: boolean;
+  familyDates: boolean;
+  familyDatesLeadDays: number;
 }
 
 const preferenceItems: PreferenceItem[] = [
@@ -69,6 +73,20 @@ const preferenceItems: PreferenceItem[] = [
   },
 ];
 
+const familyDatesItem: PreferenceItem = {
+  key: 'familyDates',
+  title: 'Birthdays & Anniversaries',
+  description: 'Birthdays, wedding anniversaries and remembrance days in your family tree',
+  icon: 'gift-outline',
+};
+
+const leadTimeOptions = [
+  { days: 0, label: 'On the day' },
+  { days: 1, label: '1 day before' },
+  { days: 3, label: '3 days before' },
+  { days: 7, label: '1 week before' },
+];
+
 const NotificationPreferencesScreen = () => {
   const router = useRouter();
   const navigation = useNavigation();
@@ -80,6 +98,8 @@ const NotificationPreferencesScreen = () => {
     messages: true,
     family: true,
     system: true,
+    familyDates: false,
+    familyDatesLeadDays: 1,
   });
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -131,15 +151,20 @@ const NotificationPreferencesScreen = () => {
     loadPreferences();
   }, [loadPreferences]);
 
-  const handleToggle = (key: keyof NotificationPreferences) => {
+  const handleToggle = (key: PreferenceToggleKey) => {
     const newPreferences = { ...preferences };
     
     if (key === 'enabled') {
-      // If toggling master switch, update all preferences
+      // If toggling master switch, update all notification types.
+      // Family date reminders are opt-in, so they are only ever switched off here.
       const newValue = !preferences.enabled;
-      Object.keys(newPreferences).forEach((k) => {
-        newPreferences[k as keyof NotificationPreferences] = newValue;
+      newPreferences.enabled = newValue;
+      preferenceItems.forEach((item) => {
+        newPreferences[item.key] = newValue;
       });
+      if (!newValue) {
+        newPreferences.familyDates = false;
+      }
     } else {
       // Toggle individual preference
       newPreferences[key] = !preferences[key];
@@ -155,7 +180,8 @@ const NotificationPreferencesScreen = () => {
                      !newPreferences.events && 
                      !newPreferences.messages && 
                      !newPreferences.family && 
-                     !newPreferences.system;
+                     !newPreferences.system &&
+                     !newPreferences.familyDates;
       if (allOff) {
         newPreferences.enabled = false;
       }
@@ -165,6 +191,12 @@ const NotificationPreferencesScreen = () => {
     setHasChanges(JSON.stringify(newPreferences) !== JSON.stringify(originalPreferences));
   };
 
+  const handleLeadTimeChange = (days: number) => {
+    const newPreferences = { ...preferences, familyDatesLeadDays: days };
+    setPreferences(newPreferences);
+    setHasChanges(JSON.stringify(newPreferences) !== JSON.stringify(originalPreferences));
+  };
+
   const savePreferences = withErrorHandling(async () => {
     try {
       setIsSaving(true);
@@ -282,6 +314,36 @@ const NotificationPreferencesScreen = () => {
           {preferenceItems.map(renderPreferenceItem)}
         </View>
 
+        {/* Family Dates */}
+        <View style={[styles.section, !preferences.enabled && styles.disabledSection]}>
+          <Text style={styles.sectionTitle}>Family Dates</Text>
+          {renderPreferenceItem(familyDatesItem)}
+          {preferences.familyDates && (
+            <View style={styles.leadTimeContainer}>
+              <Text style={styles.preferenceDescription}>Remind me</Text>
+              <View style={styles.leadTimeOptions}>
+                {leadTimeOptions.map((option) => {
+                  const isSelected = preferences.familyDatesLeadDays === option.days;
+                  return (
+                    <TouchableOpacity
+                      key={option.days}
+                      style={[styles.leadTimeOption, isSelected && styles.leadTimeOptionSelected]}
+                      onPress={() => handleLeadTimeChange(option.days)}
+                      disabled={!preferences.enabled}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <Text style={[styles.leadTimeOptionText, isSelected && styles.leadTimeOptionTextSelected]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </View>
+          )}
+        </View>
+
         {/* Info Section */}
         <View style={styles.infoSection}>
           <Text style={styles.infoText}>
@@ -401,6 +463,37 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.lg,
     paddingTop: Spacing.lg,
   },
+  leadTimeContainer: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.light.border.light,
+  },
+  leadTimeOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: Spacing.sm,
+  },
+  leadTimeOption: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    marginRight: Spacing.sm,
+    marginBottom: Spacing.sm,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderColor: Colors.light.border.default,
+  },
+  leadTimeOptionSelected: {
+    backgroundColor: Colors.light.primary,
+    borderColor: Colors.light.primary,
+  },
+  leadTimeOptionText: {
+    ...Typography.styles.bodySmall,
+    color: Colors.light.text.primary,
+  },
+  leadTimeOptionTextSelected: {
+    color: Colors.light.text.inverse,
+  },
 });
 
 export default NotificationPreferencesScreen;
\ No newline at end of file
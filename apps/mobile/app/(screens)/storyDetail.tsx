@@ -31,6 +31,7 @@ import ProfilePicture from '../../components/ui/ProfilePicture';
 import { formatDate, formatTimeAgo } from '../../src/lib/dateUtils';
 import Avatar from '../../components/ui/Avatar';
 import AnimatedActionSheet, { ActionSheetAction } from '../../components/ui/AnimatedActionSheet';
+import StoryRevisionsModal from '../../components/ui/StoryRevisionsModal';
 import MediaGallery from '../../components/ui/MediaGallery';
 import TaggedPeopleBadges, { PersonInfo as BadgePersonInfo } from '../../components/ui/TaggedPeopleBadges';
 import { fetchUserProfilesByIds, UserProfile } from '../../src/lib/userUtils'; // Import fetch function
@@ -110,6 +111,8 @@ const StoryDetailScreen = () => {
   const commentInputRef = useRef<TextInput>(null);
   const [isActionSheetVisible, setActionSheetVisible] = useState(false);
   const [isLoadingStory, setIsLoadingStory] = useState(true); // For overall story loading
+  const [isRevisionsVisible, setRevisionsVisible] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0); // Bumped to reload the story after restoring a revision
 
   useEffect(() => {
     if (!isError) {
@@ -237,7 +240,7 @@ const StoryDetailScreen = () => {
       loadStoryData();
     }
     return () => { isMounted = false; };
-  }, [storyId, user, firestoreUser, navigation, router]); // Removed story from dependencies to avoid re-fetch loop on setStory
+  }, [storyId, user, firestoreUser, navigation, router, reloadKey]); // Removed story from dependencies to avoid re-fetch loop on setStory
 
   const handleLikePress = withErrorHandling(async () => {
     reset();
@@ -515,6 +518,11 @@ const StoryDetailScreen = () => {
       icon: 'create-outline',
       onPress: handleEditStory,
     },
+    {
+      title: 'Version History',
+      icon: 'time-outline',
+      onPress: () => setRevisionsVisible(true),
+    },
     {
       title: 'Delete Story',
       icon: 'trash-outline',
@@ -745,6 +753,14 @@ const StoryDetailScreen = () => {
             message="Manage your story."
           />
         )}
+        {story && user?.uid === story.authorId && (
+          <StoryRevisionsModal
+            isVisible={isRevisionsVisible}
+            onClose={() => setRevisionsVisible(false)}
+            storyId={story.id}
+            onRestored={() => setReloadKey((key) => key + 1)}
+          />
+        )}
       </SafeAreaView>
     </ErrorBoundary>
   );
@@ -13,6 +13,7 @@ import { FeedCacheService } from '../../src/services/FeedCacheService';
 import Screen from '../../components/ui/Screen';
 import EmptyState from '../../components/ui/EmptyState';
 import StoryPost from '../../components/ui/StoryPost';
+import FamilyOccasionsCard from '../../components/ui/feed/FamilyOccasionsCard';
 import FloatingActionMenu, { FabMenuItemAction } from '../../components/ui/FloatingActionMenu';
 import AnimatedActionSheet from '../../components/ui/AnimatedActionSheet';
 import { Ionicons } from '@expo/vector-icons';
@@ -309,6 +310,7 @@ const FeedScreen = () => {
               />
             }
           >
+            <FamilyOccasionsCard style={styles.feedItem} />
             {feedItems.map(item => {
               if (item.type === 'story') {
                 return (
@@ -119,6 +119,13 @@ const HistoryScreen = () => {
       iconLibrary: 'Ionicons',
       onPress: () => router.push('/(screens)/createStory'),
     },
+    {
+      id: 'printBook',
+      text: 'Print History Book',
+      iconName: 'print-outline',
+      iconLibrary: 'Ionicons',
+      onPress: () => router.push('/(screens)/historyBook'),
+    },
   ];
 
   const handleStoryPress = withErrorHandling((story: Story) => {
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useRef } from 'react';
-import { StyleSheet, View, ActivityIndicator, Platform, Alert } from 'react-native';
+import { StyleSheet, View, ActivityIndicator, Platform, Alert, ScrollView, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter, useFocusEffect } from 'expo-router';
 import FloatingActionMenu, { FabMenuItemAction, FloatingActionMenuRef } from '../../components/ui/FloatingActionMenu';
@@ -33,11 +33,18 @@ import { ErrorSeverity } from '../../src/lib/ErrorHandlingService';
 import { showErrorAlert } from '../../src/lib/errorUtils';
 import { useSmartMediaUpload } from '../../hooks/useSmartMediaUpload';
 import { useEncryption } from '../../src/contexts/EncryptionContext';
-import { getVaultService, VaultItem as ServiceVaultItem } from '../../src/services/VaultService';
+import {
+  getVaultService,
+  VaultItem as ServiceVaultItem,
+  VaultAlbum,
+  VaultSmartCollection,
+  SmartCollectionRules,
+} from '../../src/services/VaultService';
 import VaultSearchBar, { VaultSearchFilters } from '../../components/ui/VaultSearchBar';
 import Checkbox from '../../components/ui/Checkbox';
 import UploadProgressBar from '../../components/ui/UploadProgressBar';
 import Button from '../../components/ui/Button';
+import VaultVersionsModal from '../../components/ui/VaultVersionsModal';
 import { logger } from '../../src/services/LoggingService';
 import { useBackgroundColor, useBorderColor } from '../../hooks/useThemeColor';
 
@@ -64,6 +71,13 @@ const getVaultFileType = (mimeType?: string | null, fileName?: string | null) =>
 type VaultFile = Extract<UIVaultItem, { type: 'file' }>;
 type VaultFolder = Extract<UIVaultItem, { type: 'folder' }>;
 
+// An album or smart collection listed in place of a folder
+type ActiveCollection = { kind: 'album' | 'collection'; id: string; name: string };
+
+// Tags are typed comma separated and stored lowercased
+const parseTags = (value?: string) =>
+  (value || '').split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+
 const VaultScreen = () => {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState<boolean>(true);
@@ -81,6 +95,11 @@ const VaultScreen = () => {
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [showUploadProgress, setShowUploadProgress] = useState(false);
+  const [versionsItem, setVersionsItem] = useState<VaultFile | null>(null);
+  const [albums, setAlbums] = useState<VaultAlbum[]>([]);
+  const [smartCollections, setSmartCollections] = useState<VaultSmartCollection[]>([]);
+  const [activeCollection, setActiveCollection] = useState<ActiveCollection | null>(null);
+  const [itemTags, setItemTags] = useState<Record<string, string[]>>({});
 
   // Initialize our error handler
   const { handleError, withErrorHandling } = useErrorHandler({
@@ -106,7 +125,11 @@ const VaultScreen = () => {
       
       let remote: ServiceVaultItem[];
       
-      if (isSearching && (searchFilters.query || searchFilters.fileTypes.length > 0)) {
+      if (activeCollection) {
+        remote = await vaultService.getCollectionItems(
+          activeCollection.kind === 'album' ? { albumId: activeCollection.id } : { collectionId: activeCollection.id }
+        );
+      } else if (isSearching && (searchFilters.query || searchFilters.fileTypes.length > 0)) {
         // Use search API when searching
         remote = await vaultService.searchItems({
           query: searchFilters.query,
@@ -157,11 +180,14 @@ const VaultScreen = () => {
             mimeType: r.mimeType,
             uri: r.downloadURL,
             isEncrypted: r.isEncrypted || false,
+            thumbnailUri: r.thumbnailUrl,
+            encryptedThumbnailItem: r.encryptedThumbnailUrl ? r : undefined,
           };
         }
         return { id: r.id, name: r.name, type: 'folder' };
       });
       setItems(uiItems);
+      setItemTags(Object.fromEntries(remote.map(r => [r.id, r.tags || []])));
       // update header display
       if (pathHistory.length > 1) {
         setCurrentPathDisplay(pathHistory.slice(1).map(p => p.name).join(' / '));
@@ -177,13 +203,28 @@ const VaultScreen = () => {
       });
     }
     setIsLoading(false);
-  }, [pathHistory, handleError, isSearching, searchFilters]);
+  }, [pathHistory, handleError, isSearching, searchFilters, activeCollection]);
+
+  const fetchCollections = useCallback(async () => {
+    try {
+      const vaultService = getVaultService();
+      const [albumList, collectionList] = await Promise.all([
+        vaultService.getAlbums(),
+        vaultService.getSmartCollections(),
+      ]);
+      setAlbums(albumList);
+      setSmartCollections(collectionList);
+    } catch (error) {
+      logger.error('Error loading albums:', error);
+    }
+  }, []);
 
   useFocusEffect(
     useCallback(() => {
       fetchItems(currentPathId);
+      fetchCollections();
       fabMenuRef.current?.close();
-    }, [currentPathId, fetchItems])
+    }, [currentPathId, fetchItems, fetchCollections])
   );
   
   const handleSearch = useCallback(() => {
@@ -517,6 +558,181 @@ const VaultScreen = () => {
     );
   };
 
+  // MARK: - Tags and Albums
+  const handleEditTags = (item: UIVaultItem) => {
+    Alert.prompt(
+      'Tags',
+      'Separate tags with commas',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Save', onPress: async (value?: string) => {
+            try {
+              await getVaultService().updateItemTags(item.id, parseTags(value));
+              fetchItems(currentPathId, true);
+            } catch (e) {
+              logger.error('Tag error:', e);
+              showErrorAlert(e, 'Tag Error');
+            }
+        }}
+      ],
+      'plain-text',
+      (itemTags[item.id] || []).join(', ')
+    );
+  };
+
+  const addToAlbum = async (albumId: string, itemIds: string[]) => {
+    try {
+      const { updatedItemIds, skippedItemIds } = await getVaultService().updateAlbumItems(albumId, itemIds);
+      Alert.alert(
+        'Added to Album',
+        `Added ${updatedItemIds.length} item(s).${skippedItemIds.length > 0 ? ' Only your own files can be added to your albums.' : ''}`
+      );
+      fetchCollections();
+    } catch (e) {
+      logger.error('Album error:', e);
+      showErrorAlert(e, 'Album Error');
+    }
+  };
+
+  const handleNewAlbum = (itemIds: string[]) => {
+    Alert.prompt(
+      'New Album',
+      'Enter a name for the album',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Create', onPress: async (name?: string) => {
+            if (!name || !name.trim()) return;
+            try {
+              await getVaultService().createAlbum(name.trim(), itemIds);
+              fetchCollections();
+            } catch (e) {
+              logger.error('Album error:', e);
+              showErrorAlert(e, 'Album Error');
+            }
+        }}
+      ],
+      'plain-text'
+    );
+  };
+
+  const handleAddToAlbum = (itemIds: string[]) => {
+    Alert.alert('Add to Album', undefined, [
+      ...albums.map(album => ({ text: album.name, onPress: () => addToAlbum(album.id, itemIds) })),
+      { text: 'New Album', onPress: () => handleNewAlbum(itemIds) },
+      { text: 'Cancel', style: 'cancel' }
+    ]);
+  };
+
+  const handleRemoveFromAlbum = async (item: UIVaultItem) => {
+    if (activeCollection?.kind !== 'album') return;
+    try {
+      await getVaultService().updateAlbumItems(activeCollection.id, [], [item.id]);
+      fetchItems(currentPathId, true);
+      fetchCollections();
+    } catch (e) {
+      logger.error('Album error:', e);
+      showErrorAlert(e, 'Album Error');
+    }
+  };
+
+  const handleBulkTag = () => {
+    if (selectedItems.size === 0) return;
+    Alert.prompt(
+      'Tag Items',
+      `Add tags to ${selectedItems.size} item(s), separated by commas`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Tag', onPress: async (value?: string) => {
+            const tags = parseTags(value);
+            if (tags.length === 0) return;
+            setIsLoading(true);
+            try {
+              const result = await getVaultService().bulkTag(Array.from(selectedItems), tags);
+              if (result.failed > 0) {
+                Alert.alert('Tagging Incomplete', `Tagged ${result.success} item(s). ${result.failed} item(s) couldn't be tagged.`);
+              }
+              exitSelectionMode();
+              fetchItems(currentPathId, true);
+            } catch (error) {
+              handleError(error, {
+                severity: ErrorSeverity.ERROR,
+                metadata: {
+                  action: 'bulkTagVaultItems',
+                  itemCount: selectedItems.size
+                }
+              });
+            } finally {
+              setIsLoading(false);
+            }
+        }}
+      ],
+      'plain-text'
+    );
+  };
+
+  // The search's file types and query become the collection's rules; the query is kept
+  // as a tag, since search matches tags as well as names
+  const handleSaveSearch = () => {
+    const rules: SmartCollectionRules = {};
+    if (searchFilters.fileTypes.length > 0) {
+      rules.fileTypes = searchFilters.fileTypes as SmartCollectionRules['fileTypes'];
+    }
+    if (searchFilters.query.trim()) rules.tags = [searchFilters.query.trim()];
+    if (Object.keys(rules).length === 0) return;
+
+    Alert.prompt(
+      'Save as Smart Collection',
+      'New files that match this search will show up in it on their own',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Save', onPress: async (name?: string) => {
+            if (!name || !name.trim()) return;
+            try {
+              await getVaultService().createSmartCollection(name.trim(), rules);
+              fetchCollections();
+            } catch (e) {
+              logger.error('Smart collection error:', e);
+              showErrorAlert(e, 'Smart Collection Error');
+            }
+        }}
+      ],
+      'plain-text',
+      searchFilters.query
+    );
+  };
+
+  const openCollection = (collection: ActiveCollection) => {
+    const isOpen = activeCollection?.kind === collection.kind && activeCollection.id === collection.id;
+    setActiveCollection(isOpen ? null : collection);
+  };
+
+  const handleDeleteCollection = (collection: ActiveCollection) => {
+    Alert.alert(
+      `Delete ${collection.kind === 'album' ? 'Album' : 'Smart Collection'}`,
+      `Delete "${collection.name}"? The files in it stay in your vault.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete', style: 'destructive', onPress: async () => {
+            try {
+              const vaultService = getVaultService();
+              if (collection.kind === 'album') {
+                await vaultService.deleteAlbum(collection.id);
+              } else {
+                await vaultService.deleteSmartCollection(collection.id);
+              }
+              if (activeCollection?.id === collection.id) setActiveCollection(null);
+              fetchCollections();
+            } catch (e) {
+              logger.error('Delete collection error:', e);
+              showErrorAlert(e, 'Delete Error');
+            }
+          }
+        }
+      ]
+    );
+  };
+
   const handleItemLongPress = (item: UIVaultItem) => {
     if (!selectionMode) {
       // Enter selection mode on long press
@@ -525,6 +741,16 @@ const VaultScreen = () => {
     } else {
       Alert.alert(item.name, undefined, [
         { text: 'Rename', onPress: () => handleRenameItem(item) },
+        ...(item.type === 'file'
+          ? [
+              { text: 'Version History', onPress: () => setVersionsItem(item as VaultFile) },
+              { text: 'Edit Tags', onPress: () => handleEditTags(item) },
+              { text: 'Add to Album', onPress: () => handleAddToAlbum([item.id]) },
+            ]
+          : []),
+        ...(activeCollection?.kind === 'album'
+          ? [{ text: 'Remove from Album', onPress: () => handleRemoveFromAlbum(item) }]
+          : []),
         { text: 'Delete', style: 'destructive', onPress: () => handleDeleteItem(item) },
         { text: 'Cancel', style: 'cancel' }
       ]);
@@ -666,7 +892,7 @@ const VaultScreen = () => {
         style={[styles.screen, { backgroundColor }]}
       >
         <AppHeader
-          title={selectionMode ? `${selectedItems.size} selected` : (pathHistory.length > 1 ? currentPathDisplay : 'Vault')}
+          title={selectionMode ? `${selectedItems.size} selected` : activeCollection ? activeCollection.name : (pathHistory.length > 1 ? currentPathDisplay : 'Vault')}
           headerLeft={selectionMode ? () => (
             <IconButton
               iconSet={IconSet.Ionicons}
@@ -679,6 +905,24 @@ const VaultScreen = () => {
           ) : (pathHistory.length > 1 ? getHeaderLeft : undefined)}
           headerRight={selectionMode ? () => (
             <View style={styles.headerActions}>
+              <IconButton
+                iconSet={IconSet.Ionicons}
+                iconName="pricetag-outline"
+                size={24}
+                color={Colors.light.text.primary}
+                onPress={handleBulkTag}
+                accessibilityLabel="Tag selected"
+                disabled={selectedItems.size === 0}
+              />
+              <IconButton
+                iconSet={IconSet.Ionicons}
+                iconName="images-outline"
+                size={24}
+                color={Colors.light.text.primary}
+                onPress={() => handleAddToAlbum(Array.from(selectedItems))}
+                accessibilityLabel="Add selected to album"
+                disabled={selectedItems.size === 0}
+              />
               <IconButton
                 iconSet={IconSet.Ionicons}
                 iconName="trash-outline"
@@ -726,6 +970,47 @@ const VaultScreen = () => {
             onSearch={handleSearch}
           />
         )}
+
+        {!selectionMode && (albums.length > 0 || smartCollections.length > 0 || isSearching) && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.collectionsBar}
+            contentContainerStyle={styles.collectionsBarContent}
+          >
+            {isSearching && (searchFilters.query || searchFilters.fileTypes.length > 0) && (
+              <TouchableOpacity style={[styles.collectionChip, { borderColor }]} onPress={handleSaveSearch}>
+                <Ionicons name="bookmark-outline" size={14} color={Colors.light.text.primary} />
+                <ThemedText variant="caption">Save Search</ThemedText>
+              </TouchableOpacity>
+            )}
+            {[
+              ...albums.map(album => ({ kind: 'album' as const, id: album.id, name: album.name })),
+              ...smartCollections.map(collection => ({ kind: 'collection' as const, id: collection.id, name: collection.name })),
+            ].map(collection => {
+              const isActive = activeCollection?.kind === collection.kind && activeCollection.id === collection.id;
+              return (
+                <TouchableOpacity
+                  key={`${collection.kind}-${collection.id}`}
+                  style={[
+                    styles.collectionChip,
+                    { borderColor },
+                    isActive && { backgroundColor: tertiaryBackgroundColor },
+                  ]}
+                  onPress={() => openCollection(collection)}
+                  onLongPress={() => handleDeleteCollection(collection)}
+                >
+                  <Ionicons
+                    name={collection.kind === 'album' ? 'images-outline' : 'sparkles-outline'}
+                    size={14}
+                    color={Colors.light.text.primary}
+                  />
+                  <ThemedText variant="caption">{collection.name}</ThemedText>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
         
         {selectionMode && (
           <View style={[styles.bulkActionsBar, { 
@@ -762,8 +1047,8 @@ const VaultScreen = () => {
           ) : items.length === 0 ? (
              <View style={styles.emptyStateContainer}>
                 <EmptyState 
-                    title={isSearching ? "No Results Found" : (currentPathId === null ? "Vault is Empty" : "Folder is Empty")}
-                    description={isSearching ? "Try adjusting your search or filters." : (currentPathId === null ? "Tap the '+' button to add your first file or folder." : "This folder is currently empty. Add some files!")}
+                    title={activeCollection ? "Nothing Here Yet" : isSearching ? "No Results Found" : (currentPathId === null ? "Vault is Empty" : "Folder is Empty")}
+                    description={activeCollection ? (activeCollection.kind === 'album' ? "Add files to this album from their menu." : "No files match this collection's rules yet.") : isSearching ? "Try adjusting your search or filters." : (currentPathId === null ? "Tap the '+' button to add your first file or folder." : "This folder is currently empty. Add some files!")}
                     icon={isSearching ? "search-outline" : "archive-outline"}
                     onAction={isSearching ? () => {
                       setSearchFilters({ query: '', fileTypes: [], sortBy: 'name', sortOrder: 'asc' });
@@ -794,6 +1079,13 @@ const VaultScreen = () => {
             onDismiss={() => setShowUploadProgress(false)}
           />
         )}
+
+        <VaultVersionsModal
+          isVisible={!!versionsItem}
+          onClose={() => setVersionsItem(null)}
+          item={versionsItem}
+          onRestored={() => fetchItems(currentPathId, true)}
+        />
       </Screen>
     </ErrorBoundary>
   );
@@ -840,6 +1132,23 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: Spacing.sm,
   },
+  collectionsBar: {
+    flexGrow: 0,
+  },
+  collectionsBarContent: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    gap: Spacing.sm,
+  },
+  collectionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderWidth: 1,
+    borderRadius: BorderRadius.full,
+  },
   bulkActionsBar: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -161,6 +161,14 @@ export default function EncryptionSettingsScreen() {
             onPress={() => router.push('/(screens)/trustedDevices')}
           />
           
+          <ListItem
+            title="Link a Device"
+            subtitle="Move your keys and messages to a new device"
+            rightIcon="chevron-forward"
+            leftIcon="qr-code-outline"
+            onPress={() => router.push('/(screens)/linkDevice')}
+          />
+          
           <ListItem
             title="Manual Key Rotation"
             subtitle="Generate new encryption keys"
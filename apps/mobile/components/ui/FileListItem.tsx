@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '../../constants/Colors'; // Assuming Colors.ts exists
 import Fonts from '../../constants/Fonts'; // Assuming Fonts.ts exists
 import { Spacing, BorderRadius } from '../../constants/Spacing'; // Assuming Spacing.ts exists
+import type { VaultItem } from '../../src/services/VaultService';
 
 // Types from vault.tsx (consider moving to a shared types file)
 interface VaultItemBase {
@@ -25,6 +26,8 @@ interface VaultFile extends VaultItemBase {
   mimeType?: string;
   uri?: string;  // Added for mobile file access and sharing
   isEncrypted?: boolean; // Added for encryption status
+  thumbnailUri?: string; // Server-made preview for files that aren't end-to-end encrypted
+  encryptedThumbnailItem?: VaultItem; // Encrypted file whose client-made thumbnail is decrypted for display
 }
 
 export type VaultListItemType = VaultFolder | VaultFile;
@@ -5,6 +5,8 @@ import { Colors } from '../../constants/Colors';
 import Fonts from '../../constants/Fonts';
 import { Spacing, BorderRadius } from '../../constants/Spacing';
 import { useEncryptedPreview } from '../../hooks/useEncryptedPreview';
+import { useEncryptedThumbnail } from '../../hooks/useEncryptedThumbnail';
+import type { VaultItem } from '../../src/services/VaultService';
 
 // Types from vault.tsx
 interface VaultItemBase {
@@ -24,6 +26,8 @@ interface VaultFile extends VaultItemBase {
   mimeType?: string;
   uri?: string;
   isEncrypted?: boolean;
+  thumbnailUri?: string;
+  encryptedThumbnailItem?: VaultItem;
 }
 
 export type VaultListItemType = VaultFolder | VaultFile;
@@ -46,13 +50,21 @@ const FileListItemWithPreview: React.FC<FileListItemWithPreviewProps> = ({
   const isFolder = item.type === 'folder';
   const vaultFile = item as VaultFile;
   
-  // Use encrypted preview hook for files
-  const { previewUri, isLoading } = useEncryptedPreview(
+  // Encrypted files may carry a thumbnail made by the uploading client
+  const { thumbnailUri: decryptedThumbnailUri, isLoading: isDecryptingThumbnail } = useEncryptedThumbnail(
+    !isFolder && showPreview ? vaultFile.encryptedThumbnailItem : undefined
+  );
+  const thumbnailUri = vaultFile.thumbnailUri || decryptedThumbnailUri || undefined;
+
+  // Use encrypted preview hook for files without a server-made or decrypted thumbnail
+  const { previewUri: localPreviewUri, isLoading: isLoadingPreview } = useEncryptedPreview(
     !isFolder && showPreview ? vaultFile.id : undefined,
     !isFolder && showPreview ? vaultFile.uri : undefined,
     !isFolder && showPreview ? vaultFile.mimeType : undefined,
-    { width: 60, height: 60, quality: 0.7 }
+    { width: 60, height: 60, quality: 0.7, enabled: !thumbnailUri && !vaultFile.encryptedThumbnailItem }
   );
+  const previewUri = thumbnailUri || localPreviewUri;
+  const isLoading = isDecryptingThumbnail || isLoadingPreview;
 
   const getIconName = (): keyof typeof Ionicons.glyphMap => {
     if (isFolder) {
@@ -74,7 +86,7 @@ const FileListItemWithPreview: React.FC<FileListItemWithPreviewProps> = ({
 
   const iconColor = isFolder ? Colors.dynastyGreen : Colors.palette.neutral.medium;
   const shouldShowPreview = !isFolder && showPreview && 
-    (vaultFile.fileType === 'image' || vaultFile.fileType === 'video') && 
+    (vaultFile.fileType === 'image' || vaultFile.fileType === 'video' || !!thumbnailUri) && 
     !isLoading;
 
   return (
@@ -0,0 +1,214 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../constants/Colors';
+import { useThemeColor } from '../../hooks/useThemeColor';
+import { PollResults, PollState, tallyPoll } from '../../src/services/encryption/Polls';
+
+interface PollCardProps {
+  state: PollState;
+  currentUserId: string;
+  getName: (userId: string) => string;
+  onVote: (optionIds: string[]) => void;
+  onClose: () => void;
+  onCreateEvent: (results: PollResults) => void;
+  onOpenEvent: (eventId: string) => void;
+}
+
+export function PollCard({
+  state,
+  currentUserId,
+  getName,
+  onVote,
+  onClose,
+  onCreateEvent,
+  onOpenEvent,
+}: PollCardProps) {
+  const textColor = useThemeColor({}, 'text');
+  const borderColor = useThemeColor({}, 'border');
+
+  const results = useMemo(() => tallyPoll(state, currentUserId), [state, currentUserId]);
+  const { poll } = state;
+  const isCreator = state.creatorId === currentUserId;
+  const isSignup = poll.kind === 'signup';
+  const mostVotes = Math.max(1, ...results.options.map(result => result.count));
+
+  // Single choice polls swap the vote; everything else toggles the option
+  const handleOptionPress = (optionId: string) => {
+    const chosen = results.myOptionIds.includes(optionId);
+    if (!poll.multipleChoice && !isSignup) {
+      onVote(chosen ? [] : [optionId]);
+    } else {
+      onVote(chosen
+        ? results.myOptionIds.filter(id => id !== optionId)
+        : [...results.myOptionIds, optionId]);
+    }
+  };
+
+  const status = results.closed
+    ? 'Closed'
+    : poll.deadline
+      ? `Closes ${new Date(poll.deadline).toLocaleString()}`
+      : poll.multipleChoice || isSignup ? 'Choose any' : 'Choose one';
+
+  return (
+    <View style={[styles.card, { borderColor }]}>
+      <View style={styles.header}>
+        <Ionicons
+          name={isSignup ? 'clipboard-outline' : 'bar-chart-outline'}
+          size={16}
+          color={Colors.light.primary}
+        />
+        <Text style={[styles.kind, { color: Colors.light.primary }]}>
+          {isSignup ? 'Sign-up sheet' : 'Poll'}
+          {poll.hideVoters ? ' · Voters hidden' : ''}
+        </Text>
+      </View>
+      <Text style={[styles.question, { color: textColor }]}>{poll.question}</Text>
+
+      {results.options.map(result => {
+        const chosen = results.myOptionIds.includes(result.option.id);
+        const disabled = results.closed || (result.full && !chosen);
+        const names = result.voterIds.map(id => (id === currentUserId ? 'You' : getName(id)));
+
+        return (
+          <TouchableOpacity
+            key={result.option.id}
+            style={[styles.option, { borderColor }, chosen && styles.chosenOption]}
+            onPress={() => handleOptionPress(result.option.id)}
+            disabled={disabled}
+          >
+            <View
+              style={[
+                styles.bar,
+                { width: `${(result.count / (result.option.slots || mostVotes)) * 100}%` },
+              ]}
+            />
+            <View style={styles.optionRow}>
+              <Ionicons
+                name={chosen
+                  ? (poll.multipleChoice || isSignup ? 'checkbox' : 'radio-button-on')
+                  : (poll.multipleChoice || isSignup ? 'square-outline' : 'radio-button-off')}
+                size={18}
+                color={disabled && !chosen ? 'gray' : Colors.light.primary}
+              />
+              <Text style={[styles.optionText, { color: textColor }]}>{result.option.text}</Text>
+              <Text style={[styles.count, { color: textColor }]}>
+                {result.option.slots !== undefined ? `${result.count}/${result.option.slots}` : result.count}
+              </Text>
+            </View>
+            {names.length > 0 && (
+              <Text style={[styles.voters, { color: textColor }]} numberOfLines={2}>
+                {names.join(', ')}
+              </Text>
+            )}
+            {result.waitlistIds.length > 0 && (
+              <Text style={[styles.voters, { color: textColor }]} numberOfLines={1}>
+                Waiting: {result.waitlistIds.map(id => (id === currentUserId ? 'You' : getName(id))).join(', ')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        );
+      })}
+
+      <Text style={[styles.status, { color: textColor }]}>
+        {results.totalVoters} {results.totalVoters === 1 ? 'person' : 'people'} · {status}
+      </Text>
+
+      {state.eventId ? (
+        <TouchableOpacity style={styles.action} onPress={() => onOpenEvent(state.eventId!)}>
+          <Ionicons name="calendar" size={16} color={Colors.light.primary} />
+          <Text style={styles.actionText}>View event</Text>
+        </TouchableOpacity>
+      ) : isCreator && !results.closed ? (
+        <TouchableOpacity style={styles.action} onPress={onClose}>
+          <Ionicons name="lock-closed-outline" size={16} color={Colors.light.primary} />
+          <Text style={styles.actionText}>{isSignup ? 'Close sign-ups' : 'End poll'}</Text>
+        </TouchableOpacity>
+      ) : isCreator && results.totalVoters > 0 ? (
+        <TouchableOpacity style={styles.action} onPress={() => onCreateEvent(results)}>
+          <Ionicons name="calendar-outline" size={16} color={Colors.light.primary} />
+          <Text style={styles.actionText}>Create event</Text>
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: 280,
+    padding: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  kind: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  question: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: 10,
+    marginBottom: 6,
+    overflow: 'hidden',
+  },
+  chosenOption: {
+    borderColor: Colors.light.primary,
+  },
+  bar: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    backgroundColor: 'rgba(20, 86, 45, 0.12)',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  optionText: {
+    flex: 1,
+    fontSize: 15,
+    marginLeft: 8,
+  },
+  count: {
+    fontSize: 13,
+    opacity: 0.7,
+    marginLeft: 8,
+  },
+  voters: {
+    fontSize: 12,
+    opacity: 0.6,
+    paddingHorizontal: 10,
+    paddingBottom: 6,
+  },
+  status: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 2,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  actionText: {
+    color: Colors.light.primary,
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
@@ -0,0 +1,322 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  TextInput,
+  Switch,
+  Alert,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../constants/Colors';
+import { useThemeColor } from '../../hooks/useThemeColor';
+import { MAX_POLL_OPTIONS, Poll, PollKind, getPollError } from '../../src/services/encryption/Polls';
+
+interface PollComposerProps {
+  visible: boolean;
+  onSubmit: (poll: Poll) => void;
+  onClose: () => void;
+}
+
+interface DraftOption {
+  id: string;
+  text: string;
+  slots: string;
+}
+
+const DEADLINES = [
+  { label: 'None', hours: 0 },
+  { label: '1 day', hours: 24 },
+  { label: '3 days', hours: 72 },
+  { label: '1 week', hours: 168 },
+];
+
+let nextOptionId = 0;
+const createOption = (): DraftOption => ({ id: `option-${nextOptionId++}`, text: '', slots: '1' });
+
+export function PollComposer({ visible, onSubmit, onClose }: PollComposerProps) {
+  const [kind, setKind] = useState<PollKind>('poll');
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<DraftOption[]>(() => [createOption(), createOption()]);
+  const [multipleChoice, setMultipleChoice] = useState(false);
+  const [hideVoters, setHideVoters] = useState(false);
+  const [deadlineHours, setDeadlineHours] = useState(0);
+
+  const textColor = useThemeColor({}, 'text');
+  const backgroundColor = useThemeColor({}, 'background');
+  const borderColor = useThemeColor({}, 'border');
+
+  const isSignup = kind === 'signup';
+
+  const reset = () => {
+    setKind('poll');
+    setQuestion('');
+    setOptions([createOption(), createOption()]);
+    setMultipleChoice(false);
+    setHideVoters(false);
+    setDeadlineHours(0);
+  };
+
+  const updateOption = (id: string, changes: Partial<DraftOption>) => {
+    setOptions(prev => prev.map(option => (option.id === id ? { ...option, ...changes } : option)));
+  };
+
+  const handleSubmit = () => {
+    // Sign-up sheets let people take several items, and everyone sees who's bringing what
+    const poll: Poll = {
+      kind,
+      question: question.trim(),
+      options: options
+        .filter(option => option.text.trim())
+        .map(option => ({
+          id: option.id,
+          text: option.text.trim(),
+          ...(isSignup ? { slots: parseInt(option.slots, 10) || 1 } : {}),
+        })),
+      multipleChoice: isSignup || multipleChoice,
+      hideVoters: !isSignup && hideVoters,
+      ...(deadlineHours ? { deadline: Date.now() + deadlineHours * 60 * 60 * 1000 } : {}),
+    };
+
+    const error = getPollError(poll);
+    if (error) {
+      Alert.alert(isSignup ? 'Sign-up Sheet' : 'Poll', error);
+      return;
+    }
+
+    onSubmit(poll);
+    reset();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor }]}>
+        <View style={[styles.header, { borderBottomColor: borderColor }]}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={[styles.headerButton, { color: textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={[styles.title, { color: textColor }]}>
+            {isSignup ? 'New Sign-up Sheet' : 'New Poll'}
+          </Text>
+          <TouchableOpacity onPress={handleSubmit}>
+            <Text style={[styles.headerButton, styles.sendButton]}>Send</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={[styles.segments, { borderColor }]}>
+            {(['poll', 'signup'] as PollKind[]).map(value => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.segment, kind === value && styles.activeSegment]}
+                onPress={() => setKind(value)}
+              >
+                <Text style={[styles.segmentText, { color: kind === value ? 'white' : textColor }]}>
+                  {value === 'poll' ? 'Poll' : 'Sign-up Sheet'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={[styles.input, { color: textColor, borderColor }]}
+            value={question}
+            onChangeText={setQuestion}
+            placeholder={isSignup ? 'What do we need?' : 'Ask a question'}
+            placeholderTextColor="gray"
+            maxLength={300}
+          />
+
+          <Text style={[styles.label, { color: textColor }]}>{isSignup ? 'Items' : 'Options'}</Text>
+          {options.map((option, index) => (
+            <View key={option.id} style={styles.optionRow}>
+              <TextInput
+                style={[styles.input, styles.optionInput, { color: textColor, borderColor }]}
+                value={option.text}
+                onChangeText={text => updateOption(option.id, { text })}
+                placeholder={isSignup ? `Item ${index + 1}` : `Option ${index + 1}`}
+                placeholderTextColor="gray"
+                maxLength={100}
+              />
+              {isSignup && (
+                <TextInput
+                  style={[styles.input, styles.slotsInput, { color: textColor, borderColor }]}
+                  value={option.slots}
+                  onChangeText={slots => updateOption(option.id, { slots: slots.replace(/[^0-9]/g, '') })}
+                  keyboardType="number-pad"
+                  maxLength={2}
+                />
+              )}
+              {options.length > 1 && (
+                <TouchableOpacity
+                  onPress={() => setOptions(prev => prev.filter(({ id }) => id !== option.id))}
+                  style={styles.removeButton}
+                >
+                  <Ionicons name="remove-circle-outline" size={22} color="gray" />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          {options.length < MAX_POLL_OPTIONS && (
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setOptions(prev => [...prev, createOption()])}
+            >
+              <Ionicons name="add-circle-outline" size={20} color={Colors.light.primary} />
+              <Text style={styles.addButtonText}>{isSignup ? 'Add item' : 'Add option'}</Text>
+            </TouchableOpacity>
+          )}
+          {isSignup && (
+            <Text style={[styles.hint, { color: textColor }]}>
+              The number next to each item is how many people it needs.
+            </Text>
+          )}
+
+          {!isSignup && (
+            <>
+              <View style={styles.switchRow}>
+                <Text style={[styles.switchLabel, { color: textColor }]}>Allow multiple answers</Text>
+                <Switch value={multipleChoice} onValueChange={setMultipleChoice} />
+              </View>
+              <View style={styles.switchRow}>
+                <Text style={[styles.switchLabel, { color: textColor }]}>Hide who voted for what</Text>
+                <Switch value={hideVoters} onValueChange={setHideVoters} />
+              </View>
+            </>
+          )}
+
+          <Text style={[styles.label, { color: textColor }]}>Deadline</Text>
+          <View style={styles.deadlines}>
+            {DEADLINES.map(({ label, hours }) => (
+              <TouchableOpacity
+                key={label}
+                style={[styles.chip, { borderColor }, deadlineHours === hours && styles.activeSegment]}
+                onPress={() => setDeadlineHours(hours)}
+              >
+                <Text style={{ color: deadlineHours === hours ? 'white' : textColor }}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 15,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    fontSize: 16,
+  },
+  sendButton: {
+    color: Colors.light.primary,
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 15,
+  },
+  segments: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 10,
+    overflow: 'hidden',
+    marginBottom: 15,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  activeSegment: {
+    backgroundColor: Colors.light.primary,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 10,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    opacity: 0.7,
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  optionInput: {
+    flex: 1,
+  },
+  slotsInput: {
+    width: 52,
+    marginLeft: 8,
+    textAlign: 'center',
+  },
+  removeButton: {
+    padding: 6,
+    marginBottom: 10,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  addButtonText: {
+    color: Colors.light.primary,
+    fontSize: 15,
+    marginLeft: 6,
+  },
+  hint: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+  },
+  switchLabel: {
+    fontSize: 15,
+  },
+  deadlines: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+});
@@ -0,0 +1,354 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '../../constants/Colors';
+import Button from './Button';
+import { formatTimeAgo } from '../../src/lib/dateUtils';
+import {
+  getStoryRevisionMobile,
+  getStoryRevisionsMobile,
+  restoreStoryRevisionMobile,
+} from '../../src/lib/storyUtils';
+import type { StoryBlockChangeKind, StoryRevision, StoryRevisionSummary } from '../../src/lib/storyUtils';
+import { logger } from '../../src/services/LoggingService';
+
+const REVISIONS_PAGE_SIZE = 20;
+
+const CHANGE_COLORS: Record<StoryBlockChangeKind, { background: string; text: string }> = {
+  added: { background: '#E6F4EA', text: '#1E7B34' },
+  modified: { background: '#FFF4E0', text: '#9A6200' },
+  moved: { background: '#E3F0FD', text: '#1A5FB4' },
+  removed: { background: '#FDE7E7', text: '#B3261E' },
+};
+
+interface StoryRevisionsModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  storyId: string;
+  onRestored: () => void;
+}
+
+// Text blocks are stored as limited HTML; previews only need the words
+const toPlainText = (html: string) => html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+const StoryRevisionsModal: React.FC<StoryRevisionsModalProps> = ({ isVisible, onClose, storyId, onRestored }) => {
+  const [revisions, setRevisions] = useState<StoryRevisionSummary[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [selected, setSelected] = useState<StoryRevision | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    setSelected(null);
+    setIsLoading(true);
+    getStoryRevisionsMobile(storyId, { limit: REVISIONS_PAGE_SIZE })
+      .then((result) => {
+        setRevisions(result.revisions);
+        setHasMore(result.hasMore);
+      })
+      .catch((error) => logger.error('Failed to load story revisions', error))
+      .finally(() => setIsLoading(false));
+  }, [isVisible, storyId]);
+
+  const loadMore = async () => {
+    const last = revisions[revisions.length - 1];
+    if (!last) return;
+    setIsLoading(true);
+    try {
+      const result = await getStoryRevisionsMobile(storyId, {
+        limit: REVISIONS_PAGE_SIZE,
+        startAfterRevision: last.revisionNumber,
+      });
+      setRevisions([...revisions, ...result.revisions]);
+      setHasMore(result.hasMore);
+    } catch (error) {
+      logger.error('Failed to load older story revisions', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openRevision = async (revisionId: string) => {
+    setIsLoading(true);
+    try {
+      setSelected(await getStoryRevisionMobile(storyId, revisionId));
+    } catch (error) {
+      logger.error('Failed to load story revision', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const restoreSelected = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      const restored = await restoreStoryRevisionMobile(storyId, selected.id);
+      Alert.alert(
+        restored ? 'Version Restored' : 'Nothing to Restore',
+        restored
+          ? `Your story now matches revision ${selected.revisionNumber}.`
+          : 'Your story already matches this version.'
+      );
+      onClose();
+      onRestored();
+    } catch (error) {
+      logger.error('Failed to restore story revision', error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const confirmRestore = () => {
+    if (!selected) return;
+    Alert.alert(
+      `Restore revision ${selected.revisionNumber}?`,
+      "The story's title, date, location, people and content will be replaced with this version. The current version stays in the history.",
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', onPress: restoreSelected },
+      ]
+    );
+  };
+
+  const latestRevisionNumber = revisions[0]?.revisionNumber;
+  const removedCount = selected?.blockChanges.filter((change) => change.kind === 'removed').length || 0;
+
+  const renderChangeBadge = (kind: StoryBlockChangeKind) => (
+    <View style={[styles.badge, { backgroundColor: CHANGE_COLORS[kind].background }]}>
+      <Text style={[styles.badgeText, { color: CHANGE_COLORS[kind].text }]}>{kind}</Text>
+    </View>
+  );
+
+  return (
+    <Modal visible={isVisible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          {selected ? (
+            <TouchableOpacity onPress={() => setSelected(null)} style={styles.headerButton}>
+              <Ionicons name="chevron-back" size={24} color={Colors.dynastyGreen} />
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.headerButton} />
+          )}
+          <Text style={styles.headerTitle}>{selected ? `Revision ${selected.revisionNumber}` : 'Story History'}</Text>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {selected ? (
+            <>
+              <Text style={styles.metaText}>
+                {selected.editor.displayName} · {formatTimeAgo(selected.editedAt)}
+              </Text>
+              <Text style={styles.summaryText}>{selected.summary}</Text>
+
+              <View style={styles.preview}>
+                <Text style={styles.previewTitle}>{selected.content.title}</Text>
+                {selected.content.subtitle ? (
+                  <Text style={styles.previewSubtitle}>{selected.content.subtitle}</Text>
+                ) : null}
+                {selected.content.blocks.map((block) => {
+                  const change = selected.blockChanges.find((item) => item.localId === block.localId);
+                  const fileCount = Array.isArray(block.data) ? block.data.length : 1;
+                  return (
+                    <View key={block.localId} style={styles.block}>
+                      {change && renderChangeBadge(change.kind)}
+                      {block.type === 'text' && typeof block.data === 'string' ? (
+                        <Text style={styles.blockText}>{toPlainText(block.data)}</Text>
+                      ) : (
+                        <Text style={styles.mediaText}>
+                          {fileCount} {block.type} file{fileCount === 1 ? '' : 's'}
+                        </Text>
+                      )}
+                    </View>
+                  );
+                })}
+                {removedCount > 0 && (
+                  <Text style={styles.removedText}>
+                    {removedCount} block{removedCount === 1 ? ' was' : 's were'} removed in this revision.
+                  </Text>
+                )}
+              </View>
+
+              {selected.revisionNumber !== latestRevisionNumber && (
+                <Button
+                  title="Restore this version"
+                  leftIcon="refresh-outline"
+                  onPress={confirmRestore}
+                  isLoading={isRestoring}
+                  isDisabled={isRestoring}
+                  style={styles.restoreButton}
+                />
+              )}
+            </>
+          ) : (
+            <>
+              {revisions.map((revision) => (
+                <TouchableOpacity
+                  key={revision.id}
+                  style={styles.revisionRow}
+                  onPress={() => openRevision(revision.id)}
+                  disabled={isLoading}
+                >
+                  <View style={styles.revisionHeader}>
+                    <Text style={styles.revisionTitle}>Revision {revision.revisionNumber}</Text>
+                    {revision.revisionNumber === latestRevisionNumber && (
+                      <Text style={styles.currentLabel}>Current</Text>
+                    )}
+                  </View>
+                  <Text style={styles.summaryText}>{revision.summary}</Text>
+                  <Text style={styles.metaText}>
+                    {revision.editor.displayName} · {formatTimeAgo(revision.editedAt)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              {!isLoading && revisions.length === 0 && (
+                <Text style={styles.emptyText}>No history has been recorded for this story yet.</Text>
+              )}
+              {hasMore && !isLoading && (
+                <Button title="Load older versions" variant="outline" onPress={loadMore} />
+              )}
+            </>
+          )}
+          {isLoading && <ActivityIndicator style={styles.loader} color={Colors.dynastyGreen} />}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerButton: {
+    width: 32,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#333',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  revisionRow: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  revisionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  currentLabel: {
+    fontSize: 12,
+    color: Colors.dynastyGreen,
+    fontWeight: '600',
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#444',
+    marginTop: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#777',
+    marginTop: 4,
+  },
+  preview: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 16,
+  },
+  previewTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#222',
+  },
+  previewSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  block: {
+    marginTop: 12,
+  },
+  blockText: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  mediaText: {
+    fontSize: 14,
+    color: '#777',
+    fontStyle: 'italic',
+  },
+  badge: {
+    alignSelf: 'flex-start',
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginBottom: 4,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  removedText: {
+    fontSize: 13,
+    color: '#B3261E',
+    marginTop: 12,
+  },
+  restoreButton: {
+    marginTop: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#777',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  loader: {
+    marginTop: 16,
+  },
+});
+
+export default StoryRevisionsModal;
@@ -0,0 +1,274 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Colors } from '../../constants/Colors';
+import { formatTimeAgo } from '../../src/lib/dateUtils';
+import {
+  getVaultItemVersionsMobile,
+  getVaultVersionDownloadUrlMobile,
+  restoreVaultItemVersionMobile,
+} from '../../src/lib/firebaseUtils';
+import type { VaultFileVersion, VaultFileVersions } from '../../src/lib/firebaseUtils';
+import { showErrorAlert } from '../../src/lib/errorUtils';
+import { logger } from '../../src/services/LoggingService';
+
+interface VaultVersionsModalProps {
+  isVisible: boolean;
+  onClose: () => void;
+  item: { id: string; name: string; mimeType?: string } | null;
+  onRestored: () => void;
+}
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+const VaultVersionsModal: React.FC<VaultVersionsModalProps> = ({ isVisible, onClose, item, onRestored }) => {
+  const [data, setData] = useState<VaultFileVersions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyVersionId, setBusyVersionId] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    if (!item) return;
+    setIsLoading(true);
+    try {
+      setData(await getVaultItemVersionsMobile(item.id));
+    } catch (error) {
+      logger.error('Failed to load vault file versions', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [item]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    setData(null);
+    loadVersions();
+  }, [isVisible, loadVersions]);
+
+  const openVersion = async (version: VaultFileVersion) => {
+    if (!item) return;
+    setBusyVersionId(version.id);
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        showErrorAlert({ message: 'Sharing is not available on this device.', code: 'unavailable' }, 'Sharing Error');
+        return;
+      }
+      const { downloadUrl } = await getVaultVersionDownloadUrlMobile(item.id, version.id);
+      const localPath = `${FileSystem.cacheDirectory}v${version.versionNumber}_${item.name}`;
+      const downloadResult = await FileSystem.downloadAsync(downloadUrl, localPath);
+      await Sharing.shareAsync(downloadResult.uri, {
+        mimeType: version.mimeType || 'application/octet-stream',
+        dialogTitle: `Open version ${version.versionNumber} of ${item.name}`,
+      });
+    } catch (error) {
+      logger.error('Failed to open vault file version', error);
+      showErrorAlert(error, 'Download Error');
+    } finally {
+      setBusyVersionId(null);
+    }
+  };
+
+  const restoreVersion = async (version: VaultFileVersion) => {
+    if (!item) return;
+    setBusyVersionId(version.id);
+    try {
+      await restoreVaultItemVersionMobile(item.id, version.id);
+      Alert.alert('Version Restored', `"${item.name}" now matches version ${version.versionNumber}.`);
+      onRestored();
+      await loadVersions();
+    } catch (error) {
+      logger.error('Failed to restore vault file version', error);
+      showErrorAlert(error, 'Restore Error');
+    } finally {
+      setBusyVersionId(null);
+    }
+  };
+
+  const confirmRestore = (version: VaultFileVersion) => {
+    Alert.alert(
+      `Restore version ${version.versionNumber}?`,
+      'This version becomes the current file. The current contents stay in the history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', onPress: () => restoreVersion(version) },
+      ]
+    );
+  };
+
+  const currentIsSettled = data?.current.scanStatus !== 'pending' && data?.current.scanStatus !== 'scanning';
+
+  return (
+    <Modal visible={isVisible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <View style={styles.headerButton} />
+          <Text style={styles.headerTitle}>Version History</Text>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={24} color="#333" />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.content}>
+          {data && (
+            <>
+              <View style={styles.versionRow}>
+                <View style={styles.versionHeader}>
+                  <Text style={styles.versionTitle}>Version {data.current.versionNumber}</Text>
+                  <Text style={styles.currentLabel}>Current</Text>
+                </View>
+                <Text style={styles.detailText}>
+                  {formatSize(data.current.size)}
+                  {data.current.restoredFromVersion !== null
+                    ? ` · Restored from version ${data.current.restoredFromVersion}`
+                    : ''}
+                </Text>
+                <Text style={styles.metaText}>
+                  {data.current.uploadedBy.displayName}
+                  {data.current.uploadedAt ? ` · ${formatTimeAgo(data.current.uploadedAt)}` : ''}
+                </Text>
+              </View>
+
+              <Text style={styles.sectionTitle}>
+                Previous versions ({formatSize(data.versionsSize)})
+              </Text>
+              {data.versions.map((version) => (
+                <View key={version.id} style={styles.versionRow}>
+                  <View style={styles.versionHeader}>
+                    <Text style={styles.versionTitle}>Version {version.versionNumber}</Text>
+                    {busyVersionId === version.id ? (
+                      <ActivityIndicator color={Colors.dynastyGreen} />
+                    ) : (
+                      <View style={styles.actions}>
+                        <TouchableOpacity
+                          onPress={() => openVersion(version)}
+                          disabled={busyVersionId !== null}
+                          style={styles.actionButton}
+                        >
+                          <Ionicons name="download-outline" size={22} color={Colors.dynastyGreen} />
+                        </TouchableOpacity>
+                        {data.canRestore && currentIsSettled && (
+                          <TouchableOpacity
+                            onPress={() => confirmRestore(version)}
+                            disabled={busyVersionId !== null}
+                            style={styles.actionButton}
+                          >
+                            <Ionicons name="refresh-outline" size={22} color={Colors.dynastyGreen} />
+                          </TouchableOpacity>
+                        )}
+                      </View>
+                    )}
+                  </View>
+                  <Text style={styles.detailText}>{formatSize(version.size)}</Text>
+                  <Text style={styles.metaText}>
+                    {version.uploadedBy.displayName}
+                    {version.uploadedAt ? ` · ${formatTimeAgo(version.uploadedAt)}` : ''}
+                  </Text>
+                </View>
+              ))}
+              {data.versions.length === 0 && (
+                <Text style={styles.emptyText}>No previous versions of this file yet.</Text>
+              )}
+            </>
+          )}
+          {isLoading && <ActivityIndicator style={styles.loader} color={Colors.dynastyGreen} />}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E0E0E0',
+  },
+  headerButton: {
+    width: 32,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#333',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#555',
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  versionRow: {
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  versionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  currentLabel: {
+    fontSize: 12,
+    color: Colors.dynastyGreen,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    marginLeft: 12,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#444',
+    marginTop: 4,
+  },
+  metaText: {
+    fontSize: 12,
+    color: '#777',
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#777',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  loader: {
+    marginTop: 16,
+  },
+});
+
+export default VaultVersionsModal;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, StyleProp, ViewStyle } from 'react-native';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import Card from '../Card';
+import { ThemedText } from '../../ThemedText';
+import { Spacing, BorderRadius } from '../../../constants/Spacing';
+import { useBackgroundColor, useIconColor } from '../../../hooks/useThemeColor';
+import { getUpcomingFamilyOccasionsMobile, FamilyOccasion } from '../../../src/lib/firebaseUtils';
+import { logger } from '../../../src/services/LoggingService';
+
+const OCCASION_ICONS: Record<FamilyOccasion['type'], keyof typeof Ionicons.glyphMap> = {
+  birthday: 'gift-outline',
+  anniversary: 'heart-outline',
+  memorial: 'flower-outline',
+};
+
+const describeOccasion = (occasion: FamilyOccasion): string => {
+  const years = occasion.years === 1 ? '1 year' : `${occasion.years} years`;
+  switch (occasion.type) {
+    case 'birthday':
+      return `${occasion.names[0]} turns ${occasion.years}`;
+    case 'anniversary':
+      return `${occasion.names[0]} & ${occasion.names[1]} · ${years} married`;
+    case 'memorial':
+      return `Remembering ${occasion.names[0]} · ${years}`;
+  }
+};
+
+const describeDay = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const occasionDay = new Date(year, month - 1, day);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const daysAway = Math.round((occasionDay.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+  if (daysAway === 0) return 'Today';
+  if (daysAway === 1) return 'Tomorrow';
+  return occasionDay.toLocaleDateString('en-US', { weekday: 'long' });
+};
+
+interface FamilyOccasionsCardProps {
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * FamilyOccasionsCard Component
+ * 
+ * "This week in your family" card listing upcoming birthdays, anniversaries and remembrance days.
+ * Renders nothing when there are no occasions this week.
+ */
+const FamilyOccasionsCard: React.FC<FamilyOccasionsCardProps> = ({ style }) => {
+  const router = useRouter();
+  const [occasions, setOccasions] = useState<FamilyOccasion[]>([]);
+  const iconColor = useIconColor('primary');
+  const iconBackgroundColor = useBackgroundColor('secondary');
+
+  useEffect(() => {
+    getUpcomingFamilyOccasionsMobile()
+      .then(result => setOccasions(result.occasions || []))
+      .catch(error => logger.error('FamilyOccasionsCard: Failed to load occasions:', error));
+  }, []);
+
+  if (occasions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card variant="elevated" style={style}>
+      <ThemedText variant="h5" style={styles.title}>This week in your family</ThemedText>
+      {occasions.map(occasion => (
+        <TouchableOpacity
+          key={`${occasion.type}-${occasion.memberIds.join('-')}`}
+          style={styles.occasionRow}
+          onPress={() => router.push({
+            pathname: '/(screens)/memberProfile',
+            params: { userId: occasion.memberIds[0], memberName: occasion.names[0] },
+          })}
+        >
+          <View style={[styles.iconContainer, { backgroundColor: iconBackgroundColor }]}>
+            <Ionicons name={OCCASION_ICONS[occasion.type]} size={18} color={iconColor} />
+          </View>
+          <View style={styles.occasionText}>
+            <ThemedText variant="bodyMedium" numberOfLines={1}>{describeOccasion(occasion)}</ThemedText>
+            <ThemedText variant="caption" color="secondary">{describeDay(occasion.date)}</ThemedText>
+          </View>
+        </TouchableOpacity>
+      ))}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  title: {
+    marginBottom: Spacing.sm,
+  },
+  occasionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing.sm,
+  },
+  occasionText: {
+    flex: 1,
+  },
+});
+
+export default FamilyOccasionsCard;
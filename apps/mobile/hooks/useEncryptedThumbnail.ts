@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { getVaultService, VaultItem } from '../src/services/VaultService';
+
+interface EncryptedThumbnailResult {
+  thumbnailUri: string | null;
+  isLoading: boolean;
+}
+
+/**
+ * Decrypts the client-made thumbnail of an end-to-end encrypted vault file once it's
+ * shown. Decrypted thumbnails are cached by the key cache until the vault is locked.
+ */
+export function useEncryptedThumbnail(item: VaultItem | undefined): EncryptedThumbnailResult {
+  const [thumbnailUri, setThumbnailUri] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!item?.encryptedThumbnailUrl) {
+      setThumbnailUri(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    getVaultService()
+      .getEncryptedThumbnailUri(item)
+      .then((uri) => {
+        if (!cancelled) setThumbnailUri(uri);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [item?.id, item?.encryptedThumbnail?.nonce]);
+
+  return { thumbnailUri, isLoading };
+}
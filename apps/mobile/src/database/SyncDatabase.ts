@@ -19,6 +19,8 @@ import {
 } from './schema';
 import { initializeDatabase, needsMigration } from './migrations';
 import { logger } from '../services/LoggingService';
+import { applyMessageEvent, MessageEvent, ReconciledMessage } from '../services/encryption/MessageEvents';
+import { applyPollAction, Poll, PollAction, PollState } from '../services/encryption/Polls';
 
 SQLite.enablePromise(true);
 
@@ -511,6 +513,235 @@ export class SyncDatabase {
     );
   }
   
+  /**
+   * Apply a reaction, edit or deletion to the message it targets. The server already
+   * has the event, so nothing is queued for sync.
+   * @returns false if the target isn't stored here or the event isn't allowed
+   */
+  async applyMessageEvent(
+    eventId: string,
+    event: MessageEvent,
+    senderId: string,
+    timestamp: number
+  ): Promise<boolean> {
+    const target = await this.getMessage(event.targetMessageId);
+    if (!target) return false;
+    
+    const metadata = JSON.parse(target.metadata || '{}');
+    const appliedEventIds: string[] = metadata.appliedEventIds || [];
+    if (appliedEventIds.includes(eventId)) return true;
+    
+    const updated = applyMessageEvent<ReconciledMessage>(
+      {
+        senderId: target.senderId,
+        text: target.encryptedContent,
+        reactions: metadata.reactions,
+        editHistory: metadata.editHistory,
+        editedAt: metadata.editedAt,
+        deletedForEveryone: metadata.deletedForEveryone,
+      },
+      event,
+      senderId,
+      timestamp
+    );
+    if (!updated) return false;
+    
+    await this.update('messages', {
+      encryptedContent: updated.text ?? '',
+      metadata: JSON.stringify({
+        ...metadata,
+        reactions: updated.reactions,
+        editHistory: updated.editHistory,
+        editedAt: updated.editedAt,
+        deletedForEveryone: updated.deletedForEveryone,
+        appliedEventIds: [...appliedEventIds, eventId],
+      }),
+      updatedAt: new Date().toISOString(),
+    }, { id: target.id });
+    
+    return true;
+  }
+  
+  /**
+   * Whether an event was already applied, so it isn't decrypted twice
+   */
+  async hasAppliedMessageEvent(targetMessageId: string, eventId: string): Promise<boolean> {
+    const target = await this.getMessage(targetMessageId);
+    if (!target) return false;
+    
+    const metadata = JSON.parse(target.metadata || '{}');
+    return (metadata.appliedEventIds || []).includes(eventId);
+  }
+  
+  /**
+   * Store a poll or sign-up sheet from a group chat. The server already has it, so
+   * nothing is queued for sync.
+   */
+  async savePoll(
+    id: string,
+    conversationId: string,
+    senderId: string,
+    poll: Poll,
+    timestamp: number
+  ): Promise<void> {
+    if (await this.getMessage(id)) return;
+    
+    const now = new Date().toISOString();
+    const state: PollState = { poll, creatorId: senderId, createdAt: timestamp, votes: [] };
+    
+    await this.insert('messages', {
+      id,
+      localId: id,
+      conversationId,
+      senderId,
+      encryptedContent: poll.question,
+      messageType: 'poll',
+      deliveryStatus: 'delivered',
+      metadata: JSON.stringify({ poll: state }),
+      createdAt: new Date(timestamp).toISOString(),
+      updatedAt: now,
+      lastSyncedAt: now,
+      syncVersion: 0,
+      isDirty: false,
+      isDeleted: false,
+      deviceId: this.deviceId,
+    });
+  }
+  
+  /**
+   * Apply a vote or close to the poll it targets
+   * @returns false if the poll isn't stored here or the action isn't allowed
+   */
+  async applyPollAction(
+    actionId: string,
+    action: PollAction,
+    senderId: string,
+    timestamp: number
+  ): Promise<boolean> {
+    const target = await this.getMessage(action.pollId);
+    if (!target || target.messageType !== 'poll') return false;
+    
+    const metadata = JSON.parse(target.metadata || '{}');
+    const appliedEventIds: string[] = metadata.appliedEventIds || [];
+    if (appliedEventIds.includes(actionId)) return true;
+    
+    const updated = applyPollAction(metadata.poll, action, senderId, timestamp);
+    if (!updated) return false;
+    
+    await this.update('messages', {
+      metadata: JSON.stringify({
+        ...metadata,
+        poll: updated,
+        appliedEventIds: [...appliedEventIds, actionId],
+      }),
+      updatedAt: new Date().toISOString(),
+    }, { id: target.id });
+    
+    return true;
+  }
+  
+  /**
+   * Polls and sign-up sheets in a conversation, oldest first
+   */
+  async getPolls(conversationId: string): Promise<{ id: string; state: PollState }[]> {
+    const messages = await this.getMessages(conversationId, {
+      where: { messageType: 'poll' },
+      orderBy: 'createdAt ASC',
+    });
+    
+    return messages.map(message => ({
+      id: message.id,
+      state: JSON.parse(message.metadata || '{}').poll,
+    }));
+  }
+  
+  /**
+   * Hide a message on this device only
+   */
+  async deleteMessageLocally(id: string): Promise<void> {
+    await this.executeSql(
+      'UPDATE messages SET isDeleted = 1, updatedAt = ? WHERE id = ?',
+      [new Date().toISOString(), id]
+    );
+  }
+  
+  /**
+   * Set when a disappearing message expires. An earlier expiry always wins, so a
+   * later sync can't keep a message around longer than its sender asked.
+   */
+  async setMessageExpiry(id: string, expiresAt: string): Promise<void> {
+    await this.executeSql(
+      'UPDATE messages SET expiresAt = ? WHERE id = ? AND (expiresAt IS NULL OR expiresAt > ?)',
+      [expiresAt, id, expiresAt]
+    );
+  }
+  
+  /**
+   * Delete disappearing messages past their expiry, along with any sync work queued
+   * for them
+   * @returns ids of the deleted messages
+   */
+  async purgeExpiredMessages(): Promise<string[]> {
+    const now = new Date().toISOString();
+    const result = await this.executeSql(
+      'SELECT id FROM messages WHERE expiresAt IS NOT NULL AND expiresAt <= ?',
+      [now]
+    );
+    
+    const ids: string[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      ids.push(result.rows.item(i).id);
+    }
+    if (ids.length === 0) return ids;
+    
+    const placeholders = ids.map(() => '?').join(', ');
+    await this.transaction(async (tx) => {
+      await tx.executeSql(`DELETE FROM messages WHERE id IN (${placeholders})`, ids);
+      await tx.executeSql(
+        `DELETE FROM syncQueue WHERE entityType = 'message' AND entityId IN (${placeholders})`,
+        ids
+      );
+    });
+    
+    logger.info(`Purged ${ids.length} expired messages`);
+    return ids;
+  }
+  
+  /**
+   * Export the local message history, oldest first, to hand over to a newly linked device
+   */
+  async exportMessageHistory(): Promise<LocalMessage[]> {
+    await this.purgeExpiredMessages();
+    return this.query<LocalMessage>('messages', {
+      where: { isDeleted: 0 },
+      orderBy: 'createdAt ASC',
+    });
+  }
+  
+  /**
+   * Import message history from another of the user's devices. Messages already
+   * present are kept, and nothing is queued for sync since the server has them.
+   * @returns number of messages imported
+   */
+  async importMessageHistory(messages: LocalMessage[]): Promise<number> {
+    let imported = 0;
+    
+    for (const message of messages) {
+      const existing = await this.getMessage(message.id);
+      if (existing) continue;
+      
+      await this.insert('messages', {
+        ...message,
+        isDirty: false,
+        lastSyncedAt: new Date().toISOString(),
+      });
+      imported++;
+    }
+    
+    logger.info(`Imported ${imported} of ${messages.length} messages from linked device`);
+    return imported;
+  }
+  
   // Sync queue operations
   async addToSyncQueue(
     operationType: string,
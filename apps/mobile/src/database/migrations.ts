@@ -60,6 +60,18 @@ export const migrations: Migration[] = [
       await db.executeSql('DROP TABLE IF EXISTS databaseInfo');
     },
   },
+  {
+    version: 2,
+    name: 'disappearing_messages',
+    up: async (db: SQLite.SQLiteDatabase) => {
+      await db.executeSql('ALTER TABLE messages ADD COLUMN expiresAt TEXT');
+      await db.executeSql('CREATE INDEX idx_messages_expires ON messages(expiresAt)');
+    },
+    down: async (db: SQLite.SQLiteDatabase) => {
+      await db.executeSql('DROP INDEX IF EXISTS idx_messages_expires');
+      await db.executeSql('ALTER TABLE messages DROP COLUMN expiresAt');
+    },
+  },
 ];
 
 export class MigrationRunner {
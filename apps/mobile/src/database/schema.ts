@@ -99,12 +99,13 @@ export interface LocalMessage extends SyncableEntity {
   recipientId?: string; // For direct messages
   recipientIds?: string; // JSON array for group messages
   encryptedContent: string;
-  messageType: 'text' | 'image' | 'video' | 'audio' | 'file';
+  messageType: 'text' | 'image' | 'video' | 'audio' | 'file' | 'poll';
   mediaUrl?: string;
   deliveryStatus: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
   readBy?: string; // JSON object with userId: timestamp
   replyToId?: string;
   metadata: string; // JSON
+  expiresAt?: string; // Disappearing messages are deleted on every device after this
 }
 
 // Sync queue for offline operations
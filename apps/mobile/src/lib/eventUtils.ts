@@ -25,6 +25,19 @@ export interface EventDaySpecificTime {
   endTime: string; // HH:mm format
 }
 
+/**
+ * Recurrence rule (RFC 5545 RRULE without the "RRULE:" prefix) and skipped dates
+ */
+export interface EventRecurrence {
+  rrule: string; // e.g. "FREQ=WEEKLY;INTERVAL=2"
+  exdates?: string[]; // YYYY-MM-DD dates skipped by the series
+}
+
+/**
+ * Which occurrences an edit to a recurring event applies to
+ */
+export type RecurrenceEditScope = "this" | "following" | "all";
+
 /**
  * Core event data interface
  */
@@ -54,6 +67,9 @@ export interface Event {
   additionalInfo?: string | null;
   invitedMemberIds?: string[]; // User IDs explicitly invited
   familyTreeId?: string | null; // If privacy is 'family_tree'
+  recurrence?: EventRecurrence | null;
+  isRecurring?: boolean;
+  occurrenceDate?: string; // YYYY-MM-DD, set on expanded occurrences of recurring events
   createdAt?: { seconds: number; nanoseconds: number }; // Firestore Timestamp
   updatedAt?: { seconds: number; nanoseconds: number }; // Firestore Timestamp
 }
@@ -129,6 +145,7 @@ export const createEventMobile = async (eventData: {
   invitedMemberIds?: string[];
   familyTreeId?: string;
   coverPhotoStoragePaths?: string[];
+  recurrence?: EventRecurrence;
 }): Promise<string> => {
   try {
     const functionsInstance = getFirebaseFunctions();
@@ -154,11 +171,11 @@ export const createEventMobile = async (eventData: {
 /**
  * Fetch full details for a specific event
  */
-export const getEventDetailsMobile = async (eventId: string): Promise<EventDetails | null> => {
+export const getEventDetailsMobile = async (eventId: string, occurrenceDate?: string): Promise<EventDetails | null> => {
   try {
     const functionsInstance = getFirebaseFunctions();
     const functionRef = httpsCallable(functionsInstance, 'getEventDetails');
-    const res = await functionRef({ eventId });
+    const res = await functionRef({ eventId, occurrenceDate });
     
     const data = res.data as { event: EventDetails };
     return data.event || null;
@@ -168,7 +185,8 @@ export const getEventDetailsMobile = async (eventId: string): Promise<EventDetai
       title: 'Event Details Error',
       metadata: {
         action: 'getEventDetails',
-        eventId
+        eventId,
+        occurrenceDate
       }
     });
     throw error;
@@ -176,19 +194,23 @@ export const getEventDetailsMobile = async (eventId: string): Promise<EventDetai
 };
 
 /**
- * Update an existing event
+ * Update an existing event. For recurring events, `scope` selects whether the
+ * edit applies to one occurrence, that occurrence and the ones after it, or the
+ * whole series.
+ * @returns The ID of the updated event, which is a new series when splitting
  */
 export const updateEventMobile = async (
   eventId: string,
-  updates: Partial<Event>
-): Promise<boolean> => {
+  updates: Partial<Event>,
+  scope?: { editScope: RecurrenceEditScope; occurrenceDate?: string }
+): Promise<string | null> => {
   try {
     const functionsInstance = getFirebaseFunctions();
     const functionRef = httpsCallable(functionsInstance, 'updateEvent');
-    const res = await functionRef({ eventId, ...updates });
+    const res = await functionRef({ eventId, ...updates, ...scope });
     
-    const data = res.data as { success: boolean };
-    return data.success;
+    const data = res.data as { success: boolean; eventId?: string };
+    return data.success ? data.eventId || eventId : null;
   } catch (error) {
     errorHandler.handleFirebaseError(error, {
       severity: ErrorSeverity.ERROR,
@@ -196,7 +218,8 @@ export const updateEventMobile = async (
       metadata: {
         action: 'updateEvent',
         eventId,
-        updateFields: Object.keys(updates)
+        updateFields: Object.keys(updates),
+        editScope: scope?.editScope
       }
     });
     throw error;
@@ -234,7 +257,8 @@ export const rsvpToEventMobile = async (
   eventId: string,
   status: RsvpStatus,
   plusOne: boolean = false,
-  plusOneName?: string
+  plusOneName?: string,
+  occurrenceDate?: string
 ): Promise<boolean> => {
   try {
     const functionsInstance = getFirebaseFunctions();
@@ -243,7 +267,8 @@ export const rsvpToEventMobile = async (
       eventId,
       status,
       plusOne,
-      plusOneName
+      plusOneName,
+      occurrenceDate
     });
     
     const data = res.data as { success: boolean };
@@ -572,3 +597,53 @@ export const eventToCalendarEvent = (event: Event | EventDetails): {
     notes: event.description
   };
 };
+
+/**
+ * Supported repeat frequencies for recurring events
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+const RECURRENCE_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+/**
+ * Build an RRULE string for a simple repeating event
+ * @param until Optional last date of the series (YYYY-MM-DD)
+ */
+export const buildRecurrenceRule = (frequency: RecurrenceFrequency, interval: number = 1, until?: string | null): string => {
+  const parts = [`FREQ=${frequency}`];
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+  if (until) parts.push(`UNTIL=${until.replace(/-/g, '')}`);
+  return parts.join(';');
+};
+
+/**
+ * Read the frequency, interval and end date back out of an RRULE string
+ */
+export const parseRecurrenceRule = (rrule: string): {
+  frequency: RecurrenceFrequency | null;
+  interval: number;
+  until: string | null;
+} => {
+  const parts = Object.fromEntries(
+    rrule.split(';').map(part => part.split('=') as [string, string])
+  );
+  const frequency = parts.FREQ in RECURRENCE_UNITS ? parts.FREQ as RecurrenceFrequency : null;
+  const until = parts.UNTIL ? parts.UNTIL.replace(/^(\d{4})(\d{2})(\d{2}).*$/, '$1-$2-$3') : null;
+  return { frequency, interval: parseInt(parts.INTERVAL, 10) || 1, until };
+};
+
+/**
+ * Human readable summary of a recurrence, e.g. "Repeats every 2 weeks"
+ */
+export const describeRecurrence = (recurrence: EventRecurrence): string => {
+  const { frequency, interval, until } = parseRecurrenceRule(recurrence.rrule);
+  if (!frequency) return 'Repeats';
+  const unit = RECURRENCE_UNITS[frequency];
+  const every = interval > 1 ? `every ${interval} ${unit}s` : `every ${unit}`;
+  return until ? `Repeats ${every} until ${formatDate(until, 'MMM d, yyyy', until)}` : `Repeats ${every}`;
+};
@@ -232,6 +232,99 @@ export const deleteFamilyMemberMobile = async (
   }
 };
 
+// Birthdays, wedding anniversaries and remembrance days in the user's family tree
+export interface FamilyOccasion {
+  type: 'birthday' | 'anniversary' | 'memorial';
+  date: string; // YYYY-MM-DD
+  memberIds: string[];
+  names: string[];
+  years: number; // Age, years married or years since passing
+}
+
+export const getUpcomingFamilyOccasionsMobile = async (): Promise<{ occasions: FamilyOccasion[] }> => {
+  try {
+    const result = await callFirebaseFunction<any, { occasions: FamilyOccasion[] }>('getUpcomingFamilyOccasions', {});
+    return result;
+  } catch (error) {
+    logger.error("Error fetching upcoming family occasions:", error);
+    throw error;
+  }
+};
+
+// How one family tree member is related to another, with the path through the tree
+export interface RelationshipPathStep {
+  id: string;
+  name: string;
+  relation: 'self' | 'parent' | 'child' | 'spouse'; // How this member relates to the previous step
+}
+
+export interface RelationshipResult {
+  relationship: string | null;
+  isBloodRelated: boolean;
+  path: RelationshipPathStep[];
+}
+
+export const getRelationshipMobile = async (toUserId: string, fromUserId?: string): Promise<RelationshipResult> => {
+  try {
+    const result = await callFirebaseFunction<any, RelationshipResult>('getRelationship', { toUserId, fromUserId });
+    return result;
+  } catch (error) {
+    logger.error("Error calculating relationship:", error);
+    throw error;
+  }
+};
+
+export interface DuplicateMemberCandidate {
+  memberIds: [string, string];
+  names: [string, string];
+  score: number;
+  reasons: string[];
+}
+
+export interface MemberMergeResult {
+  dryRun: boolean;
+  conflicts?: Array<{ field: string; sourceValue: unknown; targetValue: unknown }>;
+  updatedFields?: string[];
+  referenceCount: number;
+  mergeId?: string;
+  targetMemberId?: string;
+  undoExpiresAt?: string;
+}
+
+export const findDuplicateMembersMobile = async (familyTreeId: string): Promise<DuplicateMemberCandidate[]> => {
+  try {
+    const result = await callFirebaseFunction<any, { candidates: DuplicateMemberCandidate[] }>('findDuplicateMembers', { familyTreeId });
+    return result.candidates;
+  } catch (error) {
+    logger.error("Error finding duplicate members:", error);
+    throw error;
+  }
+};
+
+export const mergeFamilyMembersMobile = async (data: {
+  familyTreeId: string;
+  sourceMemberId: string;
+  targetMemberId: string;
+  dryRun: boolean;
+  fieldChoices?: Record<string, 'source' | 'target'>;
+}): Promise<MemberMergeResult> => {
+  try {
+    return await callFirebaseFunction<any, MemberMergeResult>('mergeFamilyMembers', data);
+  } catch (error) {
+    logger.error("Error merging family members:", error);
+    throw error;
+  }
+};
+
+export const undoMemberMergeMobile = async (mergeId: string): Promise<{ success: boolean }> => {
+  try {
+    return await callFirebaseFunction<any, { success: boolean }>('undoMemberMerge', { mergeId });
+  } catch (error) {
+    logger.error("Error undoing member merge:", error);
+    throw error;
+  }
+};
+
 // MARK: - Vault Types (already defined, ensure it matches)
 export interface VaultItem {
   id: string;
@@ -311,6 +404,7 @@ export const createVaultFolderMobile = async (
  */
 export const addVaultFileMobile = async (
   payload: {
+    itemId?: string; // Item pre-created by the upload URL or upload session call
     name: string;
     parentId: string | null;
     storagePath: string; // Path in GCS where the file was uploaded
@@ -378,6 +472,183 @@ export const deleteVaultItemMobile = async (
   }
 };
 
+export interface VaultFileVersion {
+  id: string;
+  versionNumber: number;
+  size: number;
+  mimeType: string | null;
+  checksum: string | null;
+  isEncrypted: boolean;
+  uploadedBy: { id: string; displayName: string };
+  uploadedAt: string | null;
+  archivedAt: string;
+  restoredFromVersion: number | null;
+}
+
+export interface VaultFileVersions {
+  current: {
+    versionNumber: number;
+    size: number;
+    mimeType: string | null;
+    uploadedBy: { id: string; displayName: string };
+    uploadedAt: string | null;
+    restoredFromVersion: number | null;
+    scanStatus: "pending" | "scanning" | "clean" | "infected" | "error" | null;
+  };
+  versions: VaultFileVersion[];
+  versionsSize: number;
+  canRestore: boolean;
+}
+
+/**
+ * List the current and previous versions of a vault file
+ */
+export const getVaultItemVersionsMobile = async (itemId: string): Promise<VaultFileVersions> => {
+  try {
+    return await callFirebaseFunction<any, VaultFileVersions>('getVaultItemVersions', { itemId });
+  } catch (error) {
+    logger.error("Error fetching vault file versions:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get a download URL for a previous version of a vault file
+ */
+export const getVaultVersionDownloadUrlMobile = async (
+  itemId: string,
+  versionId: string
+): Promise<{ downloadUrl: string; versionNumber: number; isEncrypted: boolean }> => {
+  try {
+    return await callFirebaseFunction<any, { downloadUrl: string; versionNumber: number; isEncrypted: boolean }>('getVaultVersionDownloadUrl', { itemId, versionId });
+  } catch (error) {
+    logger.error("Error getting vault version download URL:", error);
+    throw error;
+  }
+};
+
+/**
+ * Make a previous version the current contents of a vault file
+ */
+export const restoreVaultItemVersionMobile = async (
+  itemId: string,
+  versionId: string
+): Promise<{ success: boolean; versionNumber: number; restoredFromVersion: number }> => {
+  try {
+    return await callFirebaseFunction<any, { success: boolean; versionNumber: number; restoredFromVersion: number }>('restoreVaultItemVersion', { itemId, versionId });
+  } catch (error) {
+    logger.error("Error restoring vault file version:", error);
+    throw error;
+  }
+};
+
+export interface VaultUploadPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface VaultUploadSession {
+  uploadId: string;
+  itemId: string;
+  storagePath: string;
+  status: "active" | "completed" | "aborted" | "expired";
+  fileName: string;
+  fileSize: number;
+  partSize: number;
+  partCount: number;
+  completedParts: VaultUploadPart[];
+  missingParts: number[];
+  expiresAt: number;
+}
+
+/**
+ * Start a resumable multipart upload to the vault
+ */
+export const createVaultUploadSessionMobile = async (payload: {
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  parentId: string | null;
+  isEncrypted?: boolean;
+}): Promise<{ uploadId: string; itemId: string; storagePath: string; partSize: number; partCount: number; expiresAt: number }> => {
+  try {
+    return await callFirebaseFunction<any, { uploadId: string; itemId: string; storagePath: string; partSize: number; partCount: number; expiresAt: number }>('createVaultUploadSession', payload);
+  } catch (error) {
+    logger.error("Error creating vault upload session:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get the acknowledged and missing parts of a vault upload session
+ */
+export const getVaultUploadSessionMobile = async (uploadId: string): Promise<VaultUploadSession> => {
+  try {
+    return await callFirebaseFunction<any, VaultUploadSession>('getVaultUploadSession', { uploadId });
+  } catch (error) {
+    logger.error("Error fetching vault upload session:", error);
+    throw error;
+  }
+};
+
+/**
+ * Get presigned URLs for up to 100 parts of a vault upload session
+ */
+export const getVaultUploadPartUrlsMobile = async (
+  uploadId: string,
+  partNumbers: number[]
+): Promise<{ parts: { partNumber: number; signedUrl: string }[]; expiresAt: number }> => {
+  try {
+    return await callFirebaseFunction<any, { parts: { partNumber: number; signedUrl: string }[]; expiresAt: number }>('getVaultUploadPartUrls', { uploadId, partNumbers });
+  } catch (error) {
+    logger.error("Error getting vault upload part URLs:", error);
+    throw error;
+  }
+};
+
+/**
+ * Record uploaded parts so an interrupted upload resumes after them
+ */
+export const reportVaultUploadPartsMobile = async (
+  uploadId: string,
+  parts: VaultUploadPart[]
+): Promise<{ success: boolean; completedParts: number[] }> => {
+  try {
+    return await callFirebaseFunction<any, { success: boolean; completedParts: number[] }>('reportVaultUploadParts', { uploadId, parts });
+  } catch (error) {
+    logger.error("Error reporting vault upload parts:", error);
+    throw error;
+  }
+};
+
+/**
+ * Assemble the uploaded parts once every part has been acknowledged
+ */
+export const completeVaultFileUploadMobile = async (
+  uploadId: string,
+  itemId: string,
+  parts: VaultUploadPart[]
+): Promise<{ success: boolean }> => {
+  try {
+    return await callFirebaseFunction<any, { success: boolean }>('completeVaultFileUpload', { uploadId, itemId, parts });
+  } catch (error) {
+    logger.error("Error completing vault file upload:", error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel a vault upload session and discard its uploaded parts
+ */
+export const abortVaultUploadSessionMobile = async (uploadId: string): Promise<{ success: boolean }> => {
+  try {
+    return await callFirebaseFunction<any, { success: boolean }>('abortVaultUploadSession', { uploadId });
+  } catch (error) {
+    logger.error("Error aborting vault upload session:", error);
+    throw error;
+  }
+};
+
 // MARK: - Event Functions (Mobile Client - to use new events-service)
 
 // Corresponds to EnrichedEventData on server, but client might not need all fields
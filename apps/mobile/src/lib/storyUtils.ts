@@ -194,6 +194,119 @@ export const deleteStoryMobile = async (
   }
 };
 
+export type StoryBlockChangeKind = 'added' | 'removed' | 'modified' | 'moved';
+
+export interface StoryRevisionSummary {
+  id: string;
+  storyId: string;
+  revisionNumber: number;
+  editedBy: string;
+  editedAt: string;
+  editor: { id: string; displayName: string; profilePicture?: string };
+  changedFields: string[];
+  blockChanges: {
+    localId: string;
+    type: StoryBlock['type'];
+    kind: StoryBlockChangeKind;
+    index: number;
+    previousIndex?: number;
+  }[];
+  summary: string;
+  restoredFrom: number | null;
+}
+
+export interface StoryRevision extends StoryRevisionSummary {
+  content: {
+    title: string;
+    subtitle: string | null;
+    eventDate: string | null;
+    location: { lat: number; lng: number; address: string } | null;
+    coverImageURL: string | null;
+    peopleInvolved: string[];
+    blocks: StoryBlock[];
+  };
+}
+
+/**
+ * List a story's revisions, newest first
+ */
+export const getStoryRevisionsMobile = async (
+  storyId: string,
+  options: { limit?: number; startAfterRevision?: number } = {}
+): Promise<{ revisions: StoryRevisionSummary[]; hasMore: boolean }> => {
+  try {
+    const functionsInstance = getFirebaseFunctions();
+    const functionRef = httpsCallable(functionsInstance, 'getStoryRevisions');
+    const res = await functionRef({ storyId, ...options });
+    return res.data as { revisions: StoryRevisionSummary[]; hasMore: boolean };
+  } catch (error) {
+    errorHandler.handleFirebaseError(error, {
+      severity: ErrorSeverity.ERROR,
+      title: 'Story History Error',
+      metadata: {
+        action: 'getStoryRevisions',
+        storyId
+      }
+    });
+    throw error;
+  }
+};
+
+/**
+ * Get a single revision with its full content
+ */
+export const getStoryRevisionMobile = async (
+  storyId: string,
+  revisionId: string
+): Promise<StoryRevision> => {
+  try {
+    const functionsInstance = getFirebaseFunctions();
+    const functionRef = httpsCallable(functionsInstance, 'getStoryRevision');
+    const res = await functionRef({ storyId, revisionId });
+    const data = res.data as { revision: StoryRevision };
+    return data.revision;
+  } catch (error) {
+    errorHandler.handleFirebaseError(error, {
+      severity: ErrorSeverity.ERROR,
+      title: 'Story History Error',
+      metadata: {
+        action: 'getStoryRevision',
+        storyId,
+        revisionId
+      }
+    });
+    throw error;
+  }
+};
+
+/**
+ * Restore a story to a past revision
+ * @returns false if the story already matched the revision
+ */
+export const restoreStoryRevisionMobile = async (
+  storyId: string,
+  revisionId: string
+): Promise<boolean> => {
+  try {
+    const functionsInstance = getFirebaseFunctions();
+    const functionRef = httpsCallable(functionsInstance, 'restoreStoryRevision');
+    const res = await functionRef({ storyId, revisionId });
+    const data = res.data as { restored: boolean };
+    return data.restored;
+  } catch (error) {
+    errorHandler.handleFirebaseError(error, {
+      severity: ErrorSeverity.ERROR,
+      title: 'Story Restore Error',
+      metadata: {
+        action: 'restoreStoryRevision',
+        storyId,
+        revisionId
+      }
+    });
+    throw error;
+  }
+};
+
 /**
  * Toggle like on a story with optimistic update
  */
@@ -398,4 +511,94 @@ export const getCommentLikesMobile = async (
     });
     return [];
   }
-}; 
\ No newline at end of file
+}; 
+
+export interface HistoryBook {
+  id: string;
+  title: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  progress: number; // 0-100
+  stage: string;
+  storyCount: number;
+  pageCount: number | null;
+  error: string | null;
+  createdAt: string | null;
+  downloadUrl?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Start generating a printable History Book PDF
+ * @returns the new book ID
+ */
+export const requestHistoryBookMobile = async (options: {
+  title: string;
+  subtitle?: string;
+  storyIds: string[];
+  includeFamilyTree?: boolean;
+  includeTimeline?: boolean;
+}): Promise<string> => {
+  try {
+    const functionsInstance = getFirebaseFunctions();
+    const functionRef = httpsCallable(functionsInstance, 'requestHistoryBook');
+    const res = await functionRef(options);
+    const data = res.data as { bookId: string };
+    return data.bookId;
+  } catch (error) {
+    errorHandler.handleFirebaseError(error, {
+      severity: ErrorSeverity.ERROR,
+      title: 'History Book Error',
+      metadata: {
+        action: 'requestHistoryBook',
+        storyCount: options.storyIds.length
+      }
+    });
+    throw error;
+  }
+};
+
+/**
+ * Get the progress of a History Book, including its download link once completed
+ */
+export const getHistoryBookMobile = async (bookId: string): Promise<HistoryBook> => {
+  try {
+    const functionsInstance = getFirebaseFunctions();
+    const functionRef = httpsCallable(functionsInstance, 'getHistoryBook');
+    const res = await functionRef({ bookId });
+    return res.data as HistoryBook;
+  } catch (error) {
+    errorHandler.handleFirebaseError(error, {
+      severity: ErrorSeverity.WARNING,
+      title: 'History Book Error',
+      metadata: {
+        action: 'getHistoryBook',
+        bookId
+      },
+      showAlert: false
+    });
+    throw error;
+  }
+};
+
+/**
+ * Get the user's most recent History Books
+ */
+export const getHistoryBooksMobile = async (): Promise<HistoryBook[]> => {
+  try {
+    const functionsInstance = getFirebaseFunctions();
+    const functionRef = httpsCallable(functionsInstance, 'getHistoryBooks');
+    const res = await functionRef({});
+    const data = res.data as { books?: HistoryBook[] };
+    return data.books || [];
+  } catch (error) {
+    errorHandler.handleFirebaseError(error, {
+      severity: ErrorSeverity.WARNING,
+      title: 'History Book Error',
+      metadata: {
+        action: 'getHistoryBooks'
+      },
+      showAlert: false
+    });
+    return [];
+  }
+};
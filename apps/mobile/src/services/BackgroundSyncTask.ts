@@ -140,7 +140,11 @@ export class BackgroundSyncTask {
         logger.debug(`[BackgroundSync] Cleaned ${cleaned} expired media items`);
       }
 
-      // 4. Get sync statistics
+      // 4. Delete disappearing messages that expired while the app was closed
+      logger.debug('[BackgroundSync] Purging expired messages...');
+      await syncService.purgeExpiredMessages();
+
+      // 5. Get sync statistics
       const stats = await sqliteDb.getDatabaseStats();
       logger.debug('[BackgroundSync] Sync complete. Stats:', stats);
 
@@ -2,9 +2,35 @@ import { FirebaseStorageTypes } from '@react-native-firebase/storage';
 import { getErrorMessage } from '../lib/errorUtils';
 import { getFirebaseStorage } from '../lib/firebase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { Buffer } from 'buffer';
 import { logger } from './LoggingService';
+import {
+  VaultUploadPart,
+  abortVaultUploadSessionMobile,
+  addVaultFileMobile,
+  completeVaultFileUploadMobile,
+  createVaultUploadSessionMobile,
+  getVaultUploadPartUrlsMobile,
+  getVaultUploadSessionMobile,
+  reportVaultUploadPartsMobile,
+} from '../lib/firebaseUtils';
 
 // Types
+export interface VaultUploadTarget {
+  parentId: string | null;
+  fileName: string;
+  isEncrypted?: boolean;
+  // Filled in once the server has created the upload session
+  uploadId?: string;
+  itemId?: string;
+  storagePath?: string;
+  partSize?: number;
+  partCount?: number;
+  // Parts the server acknowledged; a resumed upload starts after these
+  completedParts?: VaultUploadPart[];
+}
+
 export interface UploadItem {
   id: string;
   localUri: string;
@@ -23,6 +49,8 @@ export interface UploadItem {
   updatedAt: Date;
   uploadStartedAt?: Date;
   uploadCompletedAt?: Date;
+  // Set for vault uploads, which go through a resumable multipart session instead of Firebase Storage
+  vault?: VaultUploadTarget;
 }
 
 export interface QueueStats {
@@ -62,6 +90,7 @@ export class MediaUploadQueue implements IMediaUploadQueue {
   private static instance: MediaUploadQueue;
   private queue: Map<string, UploadItem> = new Map();
   private activeUploads: Map<string, FirebaseStorageTypes.Task> = new Map();
+  private activeVaultUploads: Map<string, AbortController> = new Map();
   private isProcessing = false;
   private config: UploadConfig = {
     maxConcurrentUploads: 3,
@@ -139,7 +168,7 @@ export class MediaUploadQueue implements IMediaUploadQueue {
         }
         
         // Check current active uploads
-        const activeCount = this.activeUploads.size;
+        const activeCount = this.activeUploads.size + this.activeVaultUploads.size;
         if (activeCount >= this.config.maxConcurrentUploads) {
           logger.debug(`[MediaUploadQueue] Max concurrent uploads reached (${activeCount}/${this.config.maxConcurrentUploads})`);
           await new Promise(resolve => setTimeout(resolve, 1000));
@@ -209,6 +238,21 @@ export class MediaUploadQueue implements IMediaUploadQueue {
     logger.debug(`[MediaUploadQueue] Pausing upload: ${uploadId}`);
     
     try {
+      const vaultUpload = this.activeVaultUploads.get(uploadId);
+      if (vaultUpload) {
+        // Stops after the current part; resuming continues from the last acknowledged part
+        vaultUpload.abort();
+        this.activeVaultUploads.delete(uploadId);
+
+        const upload = this.queue.get(uploadId);
+        if (upload) {
+          upload.status = 'paused';
+          upload.updatedAt = new Date();
+          await this.saveQueueToStorage();
+        }
+        return;
+      }
+
       const uploadTask = this.activeUploads.get(uploadId);
       if (uploadTask) {
         await uploadTask.pause();
@@ -268,6 +312,20 @@ export class MediaUploadQueue implements IMediaUploadQueue {
         await uploadTask.cancel();
         this.activeUploads.delete(uploadId);
       }
+
+      const vaultUpload = this.activeVaultUploads.get(uploadId);
+      if (vaultUpload) {
+        vaultUpload.abort();
+        this.activeVaultUploads.delete(uploadId);
+      }
+
+      // Discard the parts already uploaded to the vault
+      const upload = this.queue.get(uploadId);
+      if (upload?.vault?.uploadId && upload.status !== 'completed') {
+        await abortVaultUploadSessionMobile(upload.vault.uploadId).catch(error => {
+          logger.warn('[MediaUploadQueue] Error aborting vault upload session:', getErrorMessage(error));
+        });
+      }
       
       this.queue.delete(uploadId);
       await this.saveQueueToStorage();
@@ -323,6 +381,13 @@ export class MediaUploadQueue implements IMediaUploadQueue {
       upload.status = 'uploading';
       upload.uploadStartedAt = new Date();
       upload.updatedAt = new Date();
+
+      if (upload.vault) {
+        const abortController = new AbortController();
+        this.activeVaultUploads.set(upload.id, abortController);
+        this.runVaultUpload(upload, abortController.signal);
+        return;
+      }
       
       const storage = getFirebaseStorage();
       const reference = storage.ref(upload.destinationPath);
@@ -395,6 +460,148 @@ export class MediaUploadQueue implements IMediaUploadQueue {
     }
   }
 
+  /**
+   * Uploads a file to the vault in parts. Every part is reported to the server and saved
+   * locally as it lands, so a paused, failed or interrupted upload resumes from the last
+   * acknowledged part instead of starting over.
+   */
+  private async runVaultUpload(upload: UploadItem, signal: AbortSignal): Promise<void> {
+    const vault = upload.vault!;
+
+    try {
+      // Continue the existing session when the server still has it
+      if (vault.uploadId) {
+        const session = await getVaultUploadSessionMobile(vault.uploadId);
+        if (session.status === 'active') {
+          vault.completedParts = session.completedParts;
+        } else {
+          logger.debug(`[MediaUploadQueue] Vault upload session for ${upload.id} is ${session.status}, starting over`);
+          delete vault.uploadId;
+        }
+      }
+
+      if (!vault.uploadId) {
+        const session = await createVaultUploadSessionMobile({
+          fileName: vault.fileName,
+          mimeType: upload.mimeType,
+          fileSize: upload.size,
+          parentId: vault.parentId,
+          isEncrypted: vault.isEncrypted,
+        });
+        vault.uploadId = session.uploadId;
+        vault.itemId = session.itemId;
+        vault.storagePath = session.storagePath;
+        vault.partSize = session.partSize;
+        vault.partCount = session.partCount;
+        vault.completedParts = [];
+      }
+
+      const uploadId = vault.uploadId;
+      const partSize = vault.partSize!;
+      const completedParts = vault.completedParts || [];
+      const acknowledged = new Set(completedParts.map(part => part.partNumber));
+      const missing: number[] = [];
+      for (let partNumber = 1; partNumber <= vault.partCount!; partNumber++) {
+        if (!acknowledged.has(partNumber)) missing.push(partNumber);
+      }
+
+      this.updateVaultProgress(upload, completedParts);
+      await this.saveQueueToStorage();
+
+      // Part URLs are requested in batches of up to 100
+      for (let offset = 0; offset < missing.length; offset += 100) {
+        const { parts } = await getVaultUploadPartUrlsMobile(uploadId, missing.slice(offset, offset + 100));
+
+        for (const { partNumber, signedUrl } of parts) {
+          if (signal.aborted) return;
+
+          const start = (partNumber - 1) * partSize;
+          const chunkBase64 = await FileSystem.readAsStringAsync(upload.localUri, {
+            encoding: FileSystem.EncodingType.Base64,
+            position: start,
+            length: Math.min(partSize, upload.size - start),
+          });
+
+          const response = await fetch(signedUrl, {
+            method: 'PUT',
+            body: Buffer.from(chunkBase64, 'base64'),
+            signal,
+          });
+
+          const etag = response.headers.get('ETag');
+          if (!response.ok || !etag) {
+            throw new Error(`Failed to upload part ${partNumber}: ${response.status}`);
+          }
+
+          await reportVaultUploadPartsMobile(uploadId, [{ partNumber, etag }]);
+          completedParts.push({ partNumber, etag });
+          vault.completedParts = completedParts;
+          this.updateVaultProgress(upload, completedParts);
+          await this.saveQueueToStorage();
+        }
+      }
+
+      await completeVaultFileUploadMobile(uploadId, vault.itemId!, completedParts);
+      const result = await addVaultFileMobile({
+        itemId: vault.itemId,
+        name: vault.fileName,
+        parentId: vault.parentId,
+        storagePath: vault.storagePath!,
+        fileType: this.getVaultFileType(upload.mimeType),
+        size: upload.size,
+        mimeType: upload.mimeType,
+        isEncrypted: vault.isEncrypted,
+      });
+
+      upload.status = 'completed';
+      upload.progress = 100;
+      upload.remoteUrl = result.downloadURL;
+      upload.uploadCompletedAt = new Date();
+      upload.updatedAt = new Date();
+
+      logger.debug(`[MediaUploadQueue] Vault upload ${upload.id} completed`);
+    } catch (error) {
+      // Pausing or canceling aborts the request in flight; that isn't a failure
+      if (signal.aborted) return;
+
+      logger.error(`[MediaUploadQueue] Vault upload ${upload.id} failed:`, getErrorMessage(error));
+      upload.status = 'failed';
+      upload.error = getErrorMessage(error);
+      upload.updatedAt = new Date();
+    } finally {
+      if (!signal.aborted) {
+        this.activeVaultUploads.delete(upload.id);
+        await this.saveQueueToStorage();
+
+        // Continue processing queue
+        if (!this.isProcessing) {
+          this.processQueue();
+        }
+      }
+    }
+  }
+
+  private updateVaultProgress(upload: UploadItem, completedParts: VaultUploadPart[]): void {
+    const partSize = upload.vault?.partSize || upload.size;
+    const uploadedBytes = completedParts.reduce(
+      (sum, part) => sum + Math.min(partSize, upload.size - (part.partNumber - 1) * partSize),
+      0
+    );
+    upload.progress = upload.size > 0 ? Math.round((uploadedBytes / upload.size) * 100) : 0;
+    upload.updatedAt = new Date();
+
+    logger.debug(`[MediaUploadQueue] Upload ${upload.id} progress: ${upload.progress}%`);
+  }
+
+  private getVaultFileType(mimeType: string): 'image' | 'video' | 'audio' | 'document' | 'other' {
+    const type = mimeType.toLowerCase();
+    if (type.startsWith('image/')) return 'image';
+    if (type.startsWith('video/')) return 'video';
+    if (type.startsWith('audio/')) return 'audio';
+    if (type.includes('pdf') || type.includes('document') || type.includes('text')) return 'document';
+    return 'other';
+  }
+
   private getPendingUploads(): UploadItem[] {
     return Array.from(this.queue.values())
       .filter(item => item.status === 'pending')
@@ -45,7 +45,7 @@ class MessageOptimizationService {
         // Only load non-expired messages
         const now = Date.now();
         Object.entries(parsed).forEach(([key, value]: [string, any]) => {
-          if (now - value.cachedAt < this.cacheExpiryTime) {
+          if (now - value.cachedAt < this.cacheExpiryTime && !this.hasDisappeared(value, now)) {
             this.messageCache[key] = value;
           }
         });
@@ -103,10 +103,44 @@ class MessageOptimizationService {
           delete this.messageCache[key];
         }
       });
+      this.removeDisappearedMessages();
       this.saveCache();
     }, 5 * 60 * 1000); // Clean up every 5 minutes
   }
 
+  /**
+   * Whether a disappearing message is past its expiry
+   */
+  private hasDisappeared(message: Message, now: number = Date.now()): boolean {
+    return message.expiresAt !== undefined && message.expiresAt <= now;
+  }
+
+  /**
+   * Drop disappearing messages past their expiry, including preloaded media
+   */
+  removeDisappearedMessages() {
+    const now = Date.now();
+    const expiredIds = Object.keys(this.messageCache).filter(key =>
+      this.hasDisappeared(this.messageCache[key], now)
+    );
+    if (expiredIds.length > 0) {
+      this.removeMessages(expiredIds);
+    }
+  }
+
+  /**
+   * Remove messages from every cache, e.g. once they were purged from the database
+   */
+  removeMessages(messageIds: string[]) {
+    messageIds.forEach(id => {
+      delete this.messageCache[id];
+      this.mediaCache.delete(id);
+      this.pendingDecryptions.delete(`decrypt_${id}`);
+    });
+    this.preloadQueue = this.preloadQueue.filter(id => !messageIds.includes(id));
+    this.saveCache();
+  }
+
   /**
    * Cache a decrypted message
    */
@@ -125,7 +159,7 @@ class MessageOptimizationService {
     const cached = this.messageCache[messageId];
     if (cached) {
       const now = Date.now();
-      if (now - cached.cachedAt < this.cacheExpiryTime) {
+      if (now - cached.cachedAt < this.cacheExpiryTime && !this.hasDisappeared(cached, now)) {
         return cached;
       } else {
         delete this.messageCache[messageId];
@@ -225,6 +259,7 @@ class MessageOptimizationService {
 
           const decrypted = await decryptPromise;
           this.pendingDecryptions.delete(pendingKey);
+          if (this.hasDisappeared(decrypted)) return;
           
           // Cache the result
           this.cacheMessage(decrypted);
@@ -5,8 +5,11 @@ import { getErrorMessage } from '../lib/errorUtils';
 import { getFirebaseDb } from '../lib/firebase';
 import { SyncDatabase } from '../database/SyncDatabase';
 import { LocalMessage, SyncQueueItem } from '../database/schema';
-import { ChatEncryptionService } from './encryption/ChatEncryptionService';
+import { ChatEncryptionService, EncryptedMessageData } from './encryption/ChatEncryptionService';
+import { isMessageEventType } from './encryption/MessageEvents';
 import { KeyRotationService } from './encryption/KeyRotationService';
+import { EncryptedSearchService } from './encryption/EncryptedSearchService';
+import MessageOptimizationService from './MessageOptimizationService';
 import NetInfo from '@react-native-community/netinfo';
 import DeviceInfo from 'react-native-device-info';
 import { logger } from './LoggingService';
@@ -32,6 +35,11 @@ export interface Message {
   conversationType?: 'direct' | 'group';
   updatedAt?: FirebaseFirestoreTypes.Timestamp;
   keyRotationVersion?: string;
+  // Set on reactions, edits and deletions
+  targetMessageId?: string;
+  deletedForEveryone?: boolean;
+  // When the server purges a disappearing message
+  expiresAt?: FirebaseFirestoreTypes.Timestamp;
 }
 
 export interface Conversation {
@@ -81,6 +89,7 @@ export interface IMessageSyncService {
   retryFailedMessages(conversationId?: string): Promise<void>;
   syncConversations(userId: string): Promise<void>;
   rotateEncryptionKeys(userId: string): Promise<void>;
+  purgeExpiredMessages(): Promise<void>;
 }
 
 // Implementation
@@ -116,6 +125,7 @@ export class MessageSyncService implements IMessageSyncService {
       const sqliteDb = SyncDatabase.getInstance();
       await sqliteDb.open();
       const deviceId = DeviceInfo.getUniqueId();
+      await this.purgeExpiredMessages();
       
       // 1. Get local messages since timestamp
       const localMessages = await this.getLocalMessagesSince(conversationId, since);
@@ -146,9 +156,25 @@ export class MessageSyncService implements IMessageSyncService {
       // 3. Process and decrypt messages
       const messagesToStore: LocalMessage[] = [];
       const conflicts: MessageConflict[] = [];
+      const messageEvents: Message[] = [];
+      
+      const now = Date.now();
       
       for (const remoteMsg of remoteMessages) {
+        // Reactions, edits and deletions change other messages rather than being stored
+        if (isMessageEventType(remoteMsg.type)) {
+          messageEvents.push(remoteMsg);
+          continue;
+        }
+        
+        // Disappearing messages the server hasn't purged yet
+        if (remoteMsg.expiresAt && remoteMsg.expiresAt.toMillis() <= now) {
+          continue;
+        }
+        
         const localMsg = localMessageMap.get(remoteMsg.id);
+        // Keep what events already changed on the stored copy
+        const localMetadata = localMsg ? JSON.parse(localMsg.metadata || '{}') : {};
         
         // Check for conflicts
         if (localMsg) {
@@ -184,20 +210,27 @@ export class MessageSyncService implements IMessageSyncService {
           senderId: remoteMsg.senderId,
           recipientId: remoteMsg.recipientId,
           recipientIds: remoteMsg.type === 'group' ? JSON.stringify(remoteMsg.recipientId) : undefined,
-          encryptedContent: decryptedContent || remoteMsg.encryptedContent || '',
+          encryptedContent: remoteMsg.deletedForEveryone
+            ? ''
+            : localMetadata.editedAt
+              ? localMsg!.encryptedContent
+              : decryptedContent || remoteMsg.encryptedContent || '',
           messageType: remoteMsg.type,
           mediaUrl: remoteMsg.mediaUrl,
           deliveryStatus: remoteMsg.deliveryStatus,
           readBy: JSON.stringify(remoteMsg.readBy || {}),
           replyToId: undefined,
-          metadata: JSON.stringify({}),
+          metadata: JSON.stringify(
+            remoteMsg.deletedForEveryone ? { ...localMetadata, deletedForEveryone: true } : localMetadata
+          ),
           createdAt: remoteMsg.timestamp.toDate().toISOString(),
           updatedAt: remoteMsg.timestamp.toDate().toISOString(),
           lastSyncedAt: new Date().toISOString(),
           syncVersion: 1,
           isDirty: false,
-          isDeleted: false,
-          deviceId
+          isDeleted: localMsg?.isDeleted || false,
+          deviceId,
+          expiresAt: this.getEarliestExpiry(localMsg?.expiresAt, remoteMsg.expiresAt)
         };
         
         messagesToStore.push(localMessage);
@@ -207,6 +240,7 @@ export class MessageSyncService implements IMessageSyncService {
       for (const conflict of conflicts) {
         const resolved = await this.resolveMessageConflicts(conflict);
         const localResolved = this.convertToLocalMessage(resolved, deviceId);
+        localResolved.metadata = localMessageMap.get(conflict.messageId)?.metadata || localResolved.metadata;
         messagesToStore.push(localResolved);
       }
       
@@ -215,14 +249,24 @@ export class MessageSyncService implements IMessageSyncService {
         await this.storeMessagesInSQLite(messagesToStore);
       }
       
-      // 6. Update delivery statuses for sent messages
+      // 6. Apply events oldest first, now that the messages they target are stored
+      if (messageEvents.length > 0) {
+        const encryptionService = ChatEncryptionService.getInstance();
+        messageEvents.sort((a, b) => a.timestamp.toMillis() - b.timestamp.toMillis());
+        for (const event of messageEvents) {
+          await encryptionService.receiveMessageEvent(event as unknown as EncryptedMessageData);
+        }
+      }
+      
+      // 7. Update delivery statuses for sent messages
       await this.updateDeliveryStatuses(conversationId);
       
-      // 7. Update conversation cache
+      // 8. Update conversation cache
       const conversation = this.conversationCache.get(conversationId);
-      if (conversation && remoteMessages.length > 0) {
-        conversation.lastMessage = remoteMessages[0];
-        conversation.lastActivity = remoteMessages[0].timestamp;
+      const lastMessage = remoteMessages.find(message => !isMessageEventType(message.type));
+      if (conversation && lastMessage) {
+        conversation.lastMessage = lastMessage;
+        conversation.lastActivity = lastMessage.timestamp;
       }
       
     } catch (error) {
@@ -775,6 +819,28 @@ export class MessageSyncService implements IMessageSyncService {
     }
   }
 
+  /**
+   * Delete disappearing messages past their expiry from the database, the decrypted
+   * message cache and the search index
+   */
+  async purgeExpiredMessages(): Promise<void> {
+    try {
+      const sqliteDb = SyncDatabase.getInstance();
+      await sqliteDb.open();
+      const expiredIds = await sqliteDb.purgeExpiredMessages();
+      
+      MessageOptimizationService.removeMessages(expiredIds);
+      MessageOptimizationService.removeDisappearedMessages();
+      
+      const searchService = EncryptedSearchService.getInstance();
+      for (const id of expiredIds) {
+        await searchService.deleteFromIndex(id);
+      }
+    } catch (error) {
+      logger.error('[MessageSyncService] Error purging expired messages:', getErrorMessage(error));
+    }
+  }
+
   private async processMessageQueue(): Promise<void> {
     const netInfo = await NetInfo.fetch();
     if (!netInfo.isConnected) {
@@ -928,6 +994,12 @@ export class MessageSyncService implements IMessageSyncService {
   }
   
   private hasConflict(local: LocalMessage, remote: Message): boolean {
+    // Content changed by an edit or deletion isn't a conflict
+    const metadata = JSON.parse(local.metadata || '{}');
+    if (metadata.editedAt || metadata.deletedForEveryone || remote.deletedForEveryone) {
+      return local.deliveryStatus !== remote.deliveryStatus;
+    }
+    
     // Check if messages have conflicting content or status
     return local.encryptedContent !== remote.content ||
            local.deliveryStatus !== remote.deliveryStatus;
@@ -980,6 +1052,16 @@ export class MessageSyncService implements IMessageSyncService {
     };
   }
   
+  // Expiry as stored in SQLite; the earlier of the local and server times wins
+  private getEarliestExpiry(
+    local: string | undefined,
+    remote: FirebaseFirestoreTypes.Timestamp | undefined
+  ): string | undefined {
+    const remoteIso = remote?.toDate().toISOString();
+    if (!local || !remoteIso) return local || remoteIso;
+    return local < remoteIso ? local : remoteIso;
+  }
+
   private parseResultSet(result: any): LocalMessage[] {
     const messages: LocalMessage[] = [];
     for (let i = 0; i < result.rows.length; i++) {
@@ -45,8 +45,22 @@ interface NotificationPreferences {
   messages: boolean;
   family: boolean;
   system: boolean;
+  familyDates: boolean; // Birthday, anniversary and remembrance-day reminders (opt-in)
+  familyDatesLeadDays: number; // Days before the date to send the reminder
 }
 
+const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: true,
+  stories: true,
+  comments: true,
+  events: true,
+  messages: true,
+  family: true,
+  system: true,
+  familyDates: false,
+  familyDatesLeadDays: 1,
+};
+
 const STORAGE_KEYS = {
   FCM_TOKEN: 'fcm_token',
   NOTIFICATION_PREFS: 'notification_preferences',
@@ -524,30 +538,15 @@ export class NotificationService {
     try {
       const prefs = await AsyncStorage.getItem(STORAGE_KEYS.NOTIFICATION_PREFS);
       if (prefs) {
-        return JSON.parse(prefs);
+        // Fill in preferences added since these were saved
+        return { ...DEFAULT_NOTIFICATION_PREFERENCES, ...JSON.parse(prefs) };
       }
       
       // Default preferences
-      return {
-        enabled: true,
-        stories: true,
-        comments: true,
-        events: true,
-        messages: true,
-        family: true,
-        system: true,
-      };
+      return DEFAULT_NOTIFICATION_PREFERENCES;
     } catch (error) {
       logger.error('[NotificationService] Failed to get preferences:', error);
-      return {
-        enabled: true,
-        stories: true,
-        comments: true,
-        events: true,
-        messages: true,
-        family: true,
-        system: true,
-      };
+      return DEFAULT_NOTIFICATION_PREFERENCES;
     }
   }
 
@@ -1,6 +1,7 @@
 import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as FileSystem from 'expo-file-system';
+import * as ImageManipulator from 'expo-image-manipulator';
 import { 
   callFirebaseFunction, 
   normalizeError,
@@ -12,6 +13,7 @@ import NetInfo from '@react-native-community/netinfo';
 import { logger } from './LoggingService';
 import { VaultCryptoService } from './encryption/VaultCryptoService';
 import { VaultKeyManager } from './encryption/VaultKeyManager';
+import { getKeyCacheService } from './encryption/KeyCacheService';
 import { BiometricVaultAccess, 
   VaultSetupOptions, 
   VaultAccessResult,
@@ -86,6 +88,7 @@ const VAULT_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
 const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
 const STREAMING_THRESHOLD = 10 * 1024 * 1024; // 10MB - Use streaming for files larger than this
 const MAX_RETRY_ATTEMPTS = 3;
+const THUMBNAIL_SIZE = 256; // Width of encrypted thumbnails, in pixels
 
 // Types
 export interface VaultItem {
@@ -116,6 +119,9 @@ export interface VaultItem {
     encryptedFileUrl?: string;
   };
   thumbnailUrl?: string;
+  // Thumbnail of an encrypted file, encrypted with the file's key by the uploading client
+  encryptedThumbnail?: { nonce: string; size: number };
+  encryptedThumbnailUrl?: string;
   metadata?: Record<string, any>;
   createdAt: FirebaseFirestoreTypes.Timestamp;
   updatedAt: FirebaseFirestoreTypes.Timestamp;
@@ -126,6 +132,40 @@ export interface VaultItem {
     canRead?: string[];
     canWrite?: string[];
   };
+  // Tags are stored lowercased; peopleTags hold the ids of the family members an item shows
+  tags?: string[];
+  peopleTags?: string[];
+  albumIds?: string[];
+}
+
+export interface VaultAlbum {
+  id: string;
+  name: string;
+  description: string | null;
+  coverItemId: string | null;
+  itemCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Every rule set has to match. Dates are milliseconds since the epoch and sizes are bytes.
+export interface SmartCollectionRules {
+  fileTypes?: Array<'image' | 'video' | 'audio' | 'document' | 'other'>;
+  createdAfter?: number;
+  createdBefore?: number;
+  peopleTagged?: string[];
+  uploadedBy?: string[];
+  minSize?: number;
+  maxSize?: number;
+  tags?: string[];
+}
+
+export interface VaultSmartCollection {
+  id: string;
+  name: string;
+  rules: SmartCollectionRules;
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface EncryptedVaultUploadResult {
@@ -310,6 +350,8 @@ export class VaultService {
       this.vaultMasterKey = null;
     }
     this.currentUserId = null;
+    // Decrypted thumbnails must not outlive the unlocked vault
+    getKeyCacheService().clearThumbnails();
     logger.info('[VaultService] Vault locked');
   }
 
@@ -709,6 +751,16 @@ export class VaultService {
           }
         });
 
+        // 4. STORE AN ENCRYPTED THUMBNAIL FOR LIST VIEWS
+        if (mimeType.startsWith('image/')) {
+          await this.storeEncryptedThumbnail(
+            (result.data as VaultItem).id || fileId,
+            uri,
+            fileKey,
+            encryptionMetadata
+          );
+        }
+
         // Update upload queue
         this.uploadQueue.set(uploadId, {
           ...this.uploadQueue.get(uploadId),
@@ -759,6 +811,79 @@ export class VaultService {
     }
   }
 
+  /**
+   * Make a small thumbnail of an image, encrypt it with the file's key and register it
+   * as a sidecar of the item. The file is already stored, so failures only leave the
+   * item with a generic icon.
+   */
+  private async storeEncryptedThumbnail(
+    itemId: string,
+    uri: string,
+    fileKey: Uint8Array,
+    encryptionMetadata: any
+  ): Promise<void> {
+    try {
+      const thumbnail = await ImageManipulator.manipulateAsync(
+        uri,
+        [{ resize: { width: THUMBNAIL_SIZE } }],
+        { compress: 0.7, format: ImageManipulator.SaveFormat.JPEG }
+      );
+      const thumbnailData = await FileSystem.readAsStringAsync(thumbnail.uri, {
+        encoding: FileSystem.EncodingType.Base64
+      });
+      await FileSystem.deleteAsync(thumbnail.uri, { idempotent: true });
+
+      const { encrypted, nonce } = await this.cryptoService.encryptThumbnail(
+        new Uint8Array(Buffer.from(thumbnailData, 'base64')),
+        fileKey
+      );
+
+      const result = await callFirebaseFunction('storeVaultItemEncryptionMetadata', {
+        itemId,
+        encryptionMetadata,
+        thumbnail: { nonce, size: encrypted.length }
+      });
+
+      await this.uploadEncryptedChunk(encrypted, result.data.thumbnailUploadUrl);
+    } catch (error) {
+      logger.error('[VaultService] Failed to store encrypted thumbnail:', error);
+    }
+  }
+
+  /**
+   * Decrypted thumbnail of an encrypted file as a data URI, or null when it has none.
+   * Thumbnails are cached in memory until the vault is locked.
+   */
+  async getEncryptedThumbnailUri(item: VaultItem): Promise<string | null> {
+    const { encryptedThumbnail, encryptedThumbnailUrl } = item;
+    if (!item.isEncrypted || !encryptedThumbnail || !encryptedThumbnailUrl || !this.vaultMasterKey) {
+      return null;
+    }
+
+    try {
+      return await getKeyCacheService().getOrDecryptThumbnail(
+        `${item.id}:${encryptedThumbnail.nonce}`,
+        async () => {
+          const response = await fetch(encryptedThumbnailUrl);
+          if (!response.ok) {
+            throw new Error(`Failed to download thumbnail: ${response.status}`);
+          }
+          const encrypted = new Uint8Array(await response.arrayBuffer());
+
+          const thumbnail = await this.cryptoService.decryptThumbnail(
+            encrypted,
+            encryptedThumbnail.nonce,
+            await this.getFileKeyForAccess(item)
+          );
+          return `data:image/jpeg;base64,${Buffer.from(thumbnail).toString('base64')}`;
+        }
+      );
+    } catch (error) {
+      logger.error('[VaultService] Failed to decrypt thumbnail:', error);
+      return null;
+    }
+  }
+
   /**
    * Upload encrypted chunk to storage
    */
@@ -1737,7 +1862,128 @@ export class VaultService {
     return this.searchService.getSearchStats(this.currentUserId);
   }
 
+  // MARK: - Tags, Albums and Smart Collections
+
+  async updateItemTags(itemId: string, tags: string[], peopleTags?: string[]): Promise<string[]> {
+    try {
+      const result = await callFirebaseFunction('updateVaultItemTags', { itemId, tags, peopleTags });
+      await this.clearAllCaches();
+      return result.data.tags as string[];
+    } catch (error) {
+      logger.error('[VaultService] Error updating tags:', error);
+      throw error;
+    }
+  }
+
+  async getAlbums(): Promise<VaultAlbum[]> {
+    try {
+      const result = await callFirebaseFunction('getVaultAlbums', {});
+      return result.data.albums as VaultAlbum[];
+    } catch (error) {
+      logger.error('[VaultService] Error fetching albums:', error);
+      throw error;
+    }
+  }
+
+  async createAlbum(name: string, itemIds: string[] = []): Promise<VaultAlbum> {
+    try {
+      const result = await callFirebaseFunction('createVaultAlbum', { name, itemIds });
+      await this.clearAllCaches();
+      return result.data.album as VaultAlbum;
+    } catch (error) {
+      logger.error('[VaultService] Error creating album:', error);
+      throw error;
+    }
+  }
+
+  async deleteAlbum(albumId: string): Promise<void> {
+    try {
+      await callFirebaseFunction('deleteVaultAlbum', { albumId });
+      await this.clearAllCaches();
+    } catch (error) {
+      logger.error('[VaultService] Error deleting album:', error);
+      throw error;
+    }
+  }
+
+  // Only the user's own items can be in their albums; the rest come back as skipped
+  async updateAlbumItems(
+    albumId: string,
+    addItemIds: string[] = [],
+    removeItemIds: string[] = []
+  ): Promise<{ updatedItemIds: string[]; skippedItemIds: string[] }> {
+    try {
+      const result = await callFirebaseFunction('updateVaultAlbumItems', { albumId, addItemIds, removeItemIds });
+      await this.clearAllCaches();
+      return {
+        updatedItemIds: result.data.updatedItemIds as string[],
+        skippedItemIds: result.data.skippedItemIds as string[],
+      };
+    } catch (error) {
+      logger.error('[VaultService] Error updating album items:', error);
+      throw error;
+    }
+  }
+
+  async getSmartCollections(): Promise<VaultSmartCollection[]> {
+    try {
+      const result = await callFirebaseFunction('getVaultSmartCollections', {});
+      return result.data.collections as VaultSmartCollection[];
+    } catch (error) {
+      logger.error('[VaultService] Error fetching smart collections:', error);
+      throw error;
+    }
+  }
+
+  async createSmartCollection(name: string, rules: SmartCollectionRules): Promise<VaultSmartCollection> {
+    try {
+      const result = await callFirebaseFunction('createVaultSmartCollection', { name, rules });
+      return result.data.collection as VaultSmartCollection;
+    } catch (error) {
+      logger.error('[VaultService] Error creating smart collection:', error);
+      throw error;
+    }
+  }
+
+  async deleteSmartCollection(collectionId: string): Promise<void> {
+    try {
+      await callFirebaseFunction('deleteVaultSmartCollection', { collectionId });
+    } catch (error) {
+      logger.error('[VaultService] Error deleting smart collection:', error);
+      throw error;
+    }
+  }
+
+  // The files in an album, or the files a smart collection's rules currently match
+  async getCollectionItems(source: { albumId: string } | { collectionId: string }): Promise<VaultItem[]> {
+    try {
+      const result = await callFirebaseFunction('searchVaultItems', { ...source, limit: 100 });
+      return (result.data.items as VaultItem[]).filter(item => item.type === 'file');
+    } catch (error) {
+      logger.error('[VaultService] Error fetching collection items:', error);
+      throw error;
+    }
+  }
+
   // Bulk operations
+  async bulkTag(itemIds: string[], addTags: string[], removeTags: string[] = []): Promise<{ success: number; failed: number }> {
+    try {
+      const result = await callFirebaseFunction('executeBulkVaultOperation', {
+        operation: 'tag',
+        itemIds,
+        metadata: { addTags, removeTags },
+      });
+      await this.clearAllCaches();
+      return {
+        success: (result.data.successfulItems as string[]).length,
+        failed: (result.data.failedItems as unknown[]).length,
+      };
+    } catch (error) {
+      logger.error('[VaultService] Error tagging items:', error);
+      throw error;
+    }
+  }
+
   async bulkDelete(itemIds: string[]): Promise<{ success: number; failed: number }> {
     let success = 0;
     let failed = 0;
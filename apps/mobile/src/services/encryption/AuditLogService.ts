@@ -24,6 +24,8 @@ export enum AuditEventType {
   ENCRYPTION_KEY_RESTORED = 'encryption.key_restored',
   DEVICE_REGISTERED = 'encryption.device_registered',
   DEVICE_REMOVED = 'encryption.device_removed',
+  DEVICE_LINKED = 'encryption.device_linked',
+  DEVICE_LINK_APPROVED = 'encryption.device_link_approved',
   
   // File Events
   FILE_UPLOADED = 'file.uploaded',
@@ -10,9 +10,17 @@ import { Buffer } from '@craftzdog/react-native-buffer';
 import NetInfo from '@react-native-community/netinfo';
 import { logger } from '../LoggingService';
 import { sanitizeUserInput, sanitizeFilename } from '../../lib/xssSanitization';
+import { SyncDatabase } from '../../database/SyncDatabase';
+import {
+  MessageEdit,
+  MessageEvent,
+  MessageEventType,
+  MessageReply,
+  isMessageEventType,
+} from './MessageEvents';
 
 // Signal Protocol imports
-import { LibsignalService } from './libsignal/LibsignalService';
+import { LibsignalService, MessagePayload } from './libsignal/LibsignalService';
 import { KeyDistributionService } from './libsignal/services/KeyDistributionService';
 import { SignalProtocolStore } from './libsignal/stores/SignalProtocolStore';
 import { KeyGenerationService } from './libsignal/services/KeyGenerationService';
@@ -33,6 +41,8 @@ export interface Chat {
   createdAt: Timestamp;
   lastMessageAt: Timestamp;
   encryptionEnabled: boolean;
+  // Disappearing message timer in seconds, unset or 0 when off
+  disappearingMessagesSeconds?: number;
 }
 
 export interface MessageReaction {
@@ -45,8 +55,8 @@ export interface Message {
   chatId: string;
   senderId: string;
   timestamp: Timestamp;
-  type: 'text' | 'media' | 'file' | 'voice';
-  // For text messages
+  type: 'text' | 'media' | 'file' | 'voice' | 'system';
+  // For text and system messages
   text?: string;
   // For media/file messages
   media?: EncryptedFile;
@@ -61,6 +71,14 @@ export interface Message {
   status?: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
   // Reactions
   reactions?: MessageReaction[];
+  // Quoted message this one replies to
+  replyTo?: MessageReply;
+  // Earlier versions, oldest first, if the message was edited
+  editHistory?: MessageEdit[];
+  editedAt?: number;
+  deletedForEveryone?: boolean;
+  // Disappearing messages are deleted on every device after this
+  expiresAt?: number;
 }
 
 export interface EncryptedMessageData {
@@ -68,7 +86,11 @@ export interface EncryptedMessageData {
   chatId: string;
   senderId: string;
   timestamp: Timestamp;
-  type: 'text' | 'media' | 'file' | 'voice';
+  type: 'text' | 'media' | 'file' | 'voice' | 'system' | MessageEventType;
+  // Message a reaction, edit or deletion applies to
+  targetMessageId?: string;
+  // Plaintext of system messages, which the server posts
+  text?: string;
   
   // Signal Protocol metadata
   signalMetadata: {
@@ -90,10 +112,11 @@ export interface EncryptedMessageData {
     mac: string;
   };
   
-  // For media messages
+  // For media messages; the file key travels in the Signal payload
   media?: {
     encryptedUrl: string;
-    encryptedKeys: {
+    // Keys of messages sent before payloads were encrypted per device
+    encryptedKeys?: {
       [recipientId: string]: string; // Base64 encrypted key for each recipient
     };
     metadata: {
@@ -109,6 +132,10 @@ export interface EncryptedMessageData {
   duration?: number; // in seconds
   delivered: string[];
   read: string[];
+  // Set by the server once the sender deleted the message for everyone
+  deletedForEveryone?: boolean;
+  // When the server purges a disappearing message
+  expiresAt?: Timestamp;
 }
 
 export interface DecryptedMessage extends Message {
@@ -247,7 +274,7 @@ export class ChatEncryptionService {
   /**
    * Send an encrypted text message
    */
-  async sendTextMessage(chatId: string, text: string): Promise<void> {
+  async sendTextMessage(chatId: string, text: string, options: { replyTo?: MessageReply } = {}): Promise<void> {
     try {
       if (!this.currentUserId) {
         throw new Error('User not authenticated');
@@ -280,7 +307,13 @@ export class ChatEncryptionService {
       const recipients = chat.participants.filter(id => id !== this.currentUserId);
 
       // Send using Signal Protocol
-      await this.sendWithSignalProtocol(chatId, sanitizedText, recipients);
+      await this.sendWithSignalProtocol(
+        chatId,
+        sanitizedText,
+        recipients,
+        options.replyTo,
+        chat.disappearingMessagesSeconds
+      );
     } catch (error) {
       logger.error('Failed to send text message:', error);
       throw error;
@@ -293,55 +326,29 @@ export class ChatEncryptionService {
   private async sendWithSignalProtocol(
     chatId: string,
     text: string,
-    recipients: string[]
+    recipients: string[],
+    replyTo?: MessageReply,
+    expiresIn?: number
   ): Promise<void> {
     if (!this.currentUserId) {
       throw new Error('User not authenticated');
     }
 
     const startTime = Date.now();
-    const messageRef = this.db.collection('messages').doc();
+    const messageRef = this.db.collection('chats').doc(chatId).collection('messages').doc();
     const metadata = {
       chatId,
       senderId: this.currentUserId,
       timestamp: Date.now()
     };
 
-    // Encrypt message for all recipients
-    const signalMetadata: any = {
-      senderDeviceId: 1, // Default device ID
-      recipients: {}
-    };
-
-    for (const recipientId of recipients) {
-      try {
-        // Get recipient's Signal bundle
-        const _bundle = await this.getUserSignalBundle(recipientId); // eslint-disable-line @typescript-eslint/no-unused-vars
-        
-        // Encrypt message for this recipient
-        const encrypted = await this.libsignalService.encryptMessage(
-          recipientId,
-          Buffer.from(JSON.stringify({ text, metadata }))
-        );
-        
-        // Store encrypted payload
-        if (!signalMetadata.recipients[recipientId]) {
-          signalMetadata.recipients[recipientId] = {};
-        }
-        
-        signalMetadata.recipients[recipientId]['1'] = {
-          encryptedPayload: encrypted.toString('base64'),
-          messageType: 3 // Whisper message type
-        };
-      } catch (error) {
-        logger.error(`Failed to encrypt for ${recipientId}:`, error);
-        // Continue with other recipients
-      }
-    }
-
-    if (Object.keys(signalMetadata.recipients).length === 0) {
-      throw new Error('Failed to encrypt message for any recipient');
-    }
+    // Encrypt message for every device of every recipient
+    const signalMetadata = await this.encryptForDevices(recipients, {
+      text,
+      metadata,
+      replyTo,
+      expiresIn: expiresIn || undefined
+    });
 
     // Encrypt metadata
     const encryptedMetadata = await MetadataEncryptionService.getInstance().encryptMetadata(metadata);
@@ -359,20 +366,18 @@ export class ChatEncryptionService {
       read: []
     };
 
+    // The onMessageCreated trigger updates the chat and notifies the other participants
     await messageRef.set(messageData);
 
-    // Update chat last message
-    await this.db.collection('chats').doc(chatId).update({
-      lastMessageAt: FirebaseFirestoreTypes.FieldValue.serverTimestamp()
-    });
-
-    // Index message for search (fire and forget)
-    EncryptedSearchService.getInstance().indexMessage(
-      messageRef.id,
-      chatId,
-      text,
-      metadata
-    ).catch(error => logger.error('Failed to index message:', error));
+    // Index message for search (fire and forget); disappearing messages aren't kept
+    if (!expiresIn) {
+      EncryptedSearchService.getInstance().indexMessage(
+        messageRef.id,
+        chatId,
+        text,
+        metadata
+      ).catch(error => logger.error('Failed to index message:', error));
+    }
 
     logger.debug('Message sent with Signal Protocol');
     
@@ -427,30 +432,12 @@ export class ChatEncryptionService {
         chatId
       );
 
-      // Encrypt the file key for each recipient using Signal Protocol
-      const encryptedKeys: { [recipientId: string]: string } = {};
-      
-      for (const recipientId of recipients) {
-        try {
-          // Get recipient's Signal bundle
-          await this.getUserSignalBundle(recipientId);
-          
-          // Encrypt the file key for this recipient
-          const encrypted = await this.libsignalService.encryptMessage(
-            recipientId,
-            Buffer.from(encryptedFile.encryptionKey)
-          );
-          
-          encryptedKeys[recipientId] = encrypted.toString('base64');
-        } catch (error) {
-          logger.error(`Failed to encrypt file key for ${recipientId}:`, error);
-          // Continue with other recipients
-        }
-      }
-
-      if (Object.keys(encryptedKeys).length === 0) {
-        throw new Error('Failed to encrypt file key for any recipient');
-      }
+      // Send the file key to every device of every recipient using Signal Protocol
+      const signalMetadata = await this.encryptForDevices(recipients, {
+        type: 'media',
+        media: { encryptionKey: encryptedFile.encryptedKey },
+        expiresIn: chat.disappearingMessagesSeconds || undefined
+      });
 
       // Determine message type based on mimeType
       let messageType: 'media' | 'file' | 'voice' = 'file';
@@ -467,13 +454,9 @@ export class ChatEncryptionService {
         senderId: this.currentUserId,
         timestamp: FirebaseFirestoreTypes.FieldValue.serverTimestamp() as any,
         type: messageType,
-        signalMetadata: {
-          senderDeviceId: 1,
-          recipients: {} // Empty for media messages, keys are in media.encryptedKeys
-        },
+        signalMetadata,
         media: {
           encryptedUrl: encryptedFile.encryptedUrl,
-          encryptedKeys,
           metadata: encryptedFile.metadata
         },
         delivered: [],
@@ -484,31 +467,90 @@ export class ChatEncryptionService {
         messageData.duration = duration;
       }
 
-      // Save to Firestore
-      await this.db.collection('messages').doc(messageData.id).set(messageData);
-
-      // Update chat last message
-      await this.db.collection('chats').doc(chatId).update({
-        lastMessageAt: FirebaseFirestoreTypes.FieldValue.serverTimestamp()
-      });
+      // Save to Firestore; the onMessageCreated trigger updates the chat and notifies
+      // the other participants
+      await this.db
+        .collection('chats')
+        .doc(chatId)
+        .collection('messages')
+        .doc(messageData.id)
+        .set(messageData);
 
       logger.debug(`Encrypted ${messageType} message sent`);
-      
-      // Send push notifications (fire and forget)
-      callFirebaseFunction('sendMessageNotification', {
-        chatId,
-        senderId: this.currentUserId,
-        recipientIds: recipients,
-        messageType,
-        fileName: sanitizedFileName
-      }).catch(error => logger.error('Failed to send notification:', error));
-      
     } catch (error) {
       logger.error('Failed to send media message:', error);
       throw error;
     }
   }
 
+  /**
+   * Encrypt a payload for each device of the recipients and for our own other devices,
+   * such as a linked web app
+   */
+  private async encryptForDevices(
+    recipients: string[],
+    payload: MessagePayload
+  ): Promise<EncryptedMessageData['signalMetadata']> {
+    const senderDeviceId = this.libsignalService.getDeviceId();
+    if (!this.currentUserId || senderDeviceId === undefined) {
+      throw new Error('Signal Protocol not initialized');
+    }
+
+    const signalMetadata: EncryptedMessageData['signalMetadata'] = {
+      senderDeviceId,
+      recipients: {}
+    };
+
+    for (const userId of [...recipients, this.currentUserId]) {
+      try {
+        const deviceMessages = await this.libsignalService.sendMessage(userId, payload);
+        signalMetadata.recipients[userId] = {};
+        for (const { deviceId, encrypted } of deviceMessages) {
+          signalMetadata.recipients[userId][deviceId.toString()] = {
+            encryptedPayload: encrypted.body,
+            messageType: encrypted.type
+          };
+        }
+      } catch (error) {
+        // Having no other devices of our own is the common case
+        if (userId !== this.currentUserId) {
+          logger.error(`Failed to encrypt for ${userId}:`, error);
+        }
+        // Continue with other recipients
+      }
+    }
+
+    if (!recipients.some(id => signalMetadata.recipients[id])) {
+      throw new Error('Failed to encrypt message for any recipient');
+    }
+
+    return signalMetadata;
+  }
+
+  /**
+   * Decrypt the payload sent to this device
+   */
+  private async decryptForDevice(encryptedMessage: EncryptedMessageData): Promise<MessagePayload> {
+    const userPayloads = encryptedMessage.signalMetadata?.recipients[this.currentUserId!];
+    if (!userPayloads) {
+      throw new Error('No encrypted payload found for current user');
+    }
+
+    const deviceId = this.libsignalService.getDeviceId();
+    const devicePayload = deviceId !== undefined ? userPayloads[deviceId.toString()] : undefined;
+    if (!devicePayload) {
+      throw new Error('No encrypted payload found for current device');
+    }
+
+    const senderDeviceId = encryptedMessage.signalMetadata.senderDeviceId;
+    return this.libsignalService.receiveMessage(encryptedMessage.senderId, senderDeviceId, {
+      type: devicePayload.messageType,
+      body: devicePayload.encryptedPayload,
+      timestamp: Date.now(),
+      deviceId: senderDeviceId
+    });
+  }
+
   /**
    * Decrypt a message
    */
@@ -553,38 +595,35 @@ export class ChatEncryptionService {
       decryptionTime: Date.now()
     };
 
+    // System messages come from the server in plaintext
+    if (encryptedMessage.type === 'system') {
+      decryptedContent.text = encryptedMessage.text;
+      decryptedContent.encrypted = false;
+      return decryptedContent;
+    }
+
+    // Nothing is left to decrypt once the sender deleted the message
+    if (encryptedMessage.deletedForEveryone) {
+      decryptedContent.deletedForEveryone = true;
+      return decryptedContent;
+    }
+
     // Decrypt text content if this is a text message
-    if (encryptedMessage.type === 'text' && encryptedMessage.signalMetadata) {
+    let payload: MessagePayload | undefined;
+    if (encryptedMessage.signalMetadata && Object.keys(encryptedMessage.signalMetadata.recipients).length > 0) {
       try {
-        // Find encrypted payload for current user and device
-        const userPayloads = encryptedMessage.signalMetadata.recipients[this.currentUserId];
-        if (!userPayloads) {
-          throw new Error('No encrypted payload found for current user');
-        }
-        
-        // Get payload for default device (device ID 1)
-        const devicePayload = userPayloads['1'];
-        if (!devicePayload) {
-          throw new Error('No encrypted payload found for current device');
-        }
-        
-        // Decrypt the message
-        const decryptedBuffer = await this.libsignalService.decryptMessage(
-          encryptedMessage.senderId,
-          Buffer.from(devicePayload.encryptedPayload, 'base64')
-        );
-        
-        const decryptedData = JSON.parse(decryptedBuffer.toString());
-        decryptedContent.text = decryptedData.text;
+        payload = await this.decryptForDevice(encryptedMessage);
+        decryptedContent.text = payload.text;
+        decryptedContent.replyTo = payload.replyTo;
       } catch (error) {
-        logger.error('Failed to decrypt text content:', error);
+        logger.error('Failed to decrypt message content:', error);
         decryptedContent.decryptionErrors = ['Failed to decrypt message content'];
       }
     }
 
     // Handle media messages
     if (encryptedMessage.media && encryptedMessage.type !== 'text') {
-      await this.decryptMediaMessage(encryptedMessage, decryptedContent);
+      await this.decryptMediaMessage(encryptedMessage, decryptedContent, payload);
     }
 
     // Decrypt metadata if available
@@ -605,33 +644,93 @@ export class ChatEncryptionService {
       decryptedContent.duration = encryptedMessage.duration;
     }
 
+    await this.mergeMessageEvents(decryptedContent);
+    await this.recordMessageExpiry(decryptedContent, payload?.expiresIn, encryptedMessage.expiresAt);
+
     return decryptedContent;
   }
 
+  /**
+   * Work out when a disappearing message expires and store it, so the local copy is
+   * purged on time. The timer in the encrypted payload is the sender's; the server's
+   * purge time only ever makes it earlier.
+   */
+  private async recordMessageExpiry(
+    message: DecryptedMessage,
+    expiresIn: number | undefined,
+    serverExpiresAt: Timestamp | undefined
+  ): Promise<void> {
+    const sentAt = message.timestamp?.toMillis?.() ?? Date.now();
+    const expiries = [
+      expiresIn ? sentAt + expiresIn * 1000 : undefined,
+      serverExpiresAt?.toMillis?.(),
+    ].filter((expiry): expiry is number => expiry !== undefined);
+    if (expiries.length === 0) return;
+
+    message.expiresAt = Math.min(...expiries);
+
+    try {
+      const database = SyncDatabase.getInstance();
+      await database.open();
+      await database.setMessageExpiry(message.id, new Date(message.expiresAt).toISOString());
+    } catch (error) {
+      logger.error('Failed to record message expiry:', error);
+    }
+  }
+
+  /**
+   * Bring in the reactions, edits and deletion already applied to the stored copy
+   */
+  private async mergeMessageEvents(message: DecryptedMessage): Promise<void> {
+    try {
+      const database = SyncDatabase.getInstance();
+      await database.open();
+      const stored = await database.getMessage(message.id);
+      if (!stored) return;
+
+      const metadata = JSON.parse(stored.metadata || '{}');
+      message.reactions = metadata.reactions || message.reactions;
+      if (metadata.deletedForEveryone) {
+        message.deletedForEveryone = true;
+        message.text = undefined;
+        message.media = undefined;
+      } else if (metadata.editedAt) {
+        message.text = stored.encryptedContent;
+        message.editHistory = metadata.editHistory;
+        message.editedAt = metadata.editedAt;
+      }
+    } catch (error) {
+      logger.error('Failed to merge message events:', error);
+    }
+  }
+
 
   /**
    * Decrypt media message content
    */
   private async decryptMediaMessage(
     encryptedMessage: EncryptedMessageData,
-    decryptedContent: DecryptedMessage
+    decryptedContent: DecryptedMessage,
+    payload?: MessagePayload
   ): Promise<void> {
     if (!encryptedMessage.media || !this.currentUserId) {
       return;
     }
 
     try {
-      // Get the encrypted file key for current user
-      const encryptedKeyData = encryptedMessage.media.encryptedKeys[this.currentUserId];
-      if (!encryptedKeyData) {
-        throw new Error('No encrypted key found for current user');
-      }
+      // Get the file key sent to this device, or the legacy per-user key
+      let fileKey = payload?.media?.encryptionKey;
+      if (!fileKey) {
+        const encryptedKeyData = encryptedMessage.media.encryptedKeys?.[this.currentUserId];
+        if (!encryptedKeyData) {
+          throw new Error('No encrypted key found for current user');
+        }
 
-      // Decrypt the file key using Signal Protocol
-      const fileKey = await this.libsignalService.decryptMessage(
-        encryptedMessage.senderId,
-        Buffer.from(encryptedKeyData, 'base64')
-      ).then(buffer => buffer.toString());
+        fileKey = await this.libsignalService.decryptMessage(
+          encryptedMessage.senderId,
+          Buffer.from(encryptedKeyData, 'base64')
+        ).then(buffer => buffer.toString());
+      }
 
       // Prepare decrypted media info
       decryptedContent.media = {
@@ -647,17 +746,16 @@ export class ChatEncryptionService {
   }
 
   /**
-   * Mark message as delivered
+   * Mark message as delivered. Messages can't be changed by clients, so receipts go
+   * through the updateMessageDelivery function.
    */
-  async markAsDelivered(messageId: string): Promise<void> {
+  async markAsDelivered(chatId: string, messageId: string): Promise<void> {
     try {
       if (!this.currentUserId) {
         throw new Error('User not authenticated');
       }
 
-      await this.db.collection('messages').doc(messageId).update({
-        delivered: FirebaseFirestoreTypes.FieldValue.arrayUnion(this.currentUserId)
-      });
+      await callFirebaseFunction('updateMessageDelivery', { chatId, messageId, status: 'delivered' });
 
       logger.debug(`Message ${messageId} marked as delivered`);
     } catch (error) {
@@ -668,15 +766,13 @@ export class ChatEncryptionService {
   /**
    * Mark message as read
    */
-  async markAsRead(messageId: string): Promise<void> {
+  async markAsRead(chatId: string, messageId: string): Promise<void> {
     try {
       if (!this.currentUserId) {
         throw new Error('User not authenticated');
       }
 
-      await this.db.collection('messages').doc(messageId).update({
-        read: FirebaseFirestoreTypes.FieldValue.arrayUnion(this.currentUserId)
-      });
+      await callFirebaseFunction('updateMessageDelivery', { chatId, messageId, status: 'read' });
 
       logger.debug(`Message ${messageId} marked as read`);
     } catch (error) {
@@ -685,111 +781,146 @@ export class ChatEncryptionService {
   }
 
   /**
-   * Add reaction to message
+   * React to a message. Each participant has one reaction per message, so this
+   * replaces any earlier one.
    */
-  async addReaction(messageId: string, emoji: string): Promise<void> {
-    try {
-      if (!this.currentUserId) {
-        throw new Error('User not authenticated');
-      }
+  async sendReaction(chatId: string, messageId: string, emoji: string): Promise<void> {
+    await this.sendMessageEvent(chatId, { type: 'reaction', targetMessageId: messageId, emoji });
+  }
 
-      const messageRef = this.db.collection('messages').doc(messageId);
-      
-      await this.db.runTransaction(async (transaction) => {
-        const messageDoc = await transaction.get(messageRef);
-        if (!messageDoc.exists) {
-          throw new Error('Message not found');
-        }
+  async removeReaction(chatId: string, messageId: string): Promise<void> {
+    await this.sendMessageEvent(chatId, { type: 'reaction', targetMessageId: messageId, remove: true });
+  }
 
-        const reactions = messageDoc.data()?.reactions || [];
-        const existingReaction = reactions.find((r: MessageReaction) => r.emoji === emoji);
+  /**
+   * Replace the text of one of our messages. Other devices keep the earlier versions.
+   */
+  async editMessage(chatId: string, messageId: string, text: string): Promise<void> {
+    const sanitizedText = sanitizeUserInput(text, { maxLength: 5000, trim: true });
+    if (!sanitizedText) {
+      throw new Error('Message cannot be empty');
+    }
 
-        if (existingReaction) {
-          // Add user to existing reaction
-          if (!existingReaction.userIds.includes(this.currentUserId!)) {
-            existingReaction.userIds.push(this.currentUserId!);
-          }
-        } else {
-          // Create new reaction
-          reactions.push({
-            emoji,
-            userIds: [this.currentUserId!]
-          });
-        }
+    await this.sendMessageEvent(chatId, { type: 'edit', targetMessageId: messageId, text: sanitizedText });
+  }
 
-        transaction.update(messageRef, { reactions });
-      });
+  /**
+   * Delete one of our messages for every participant. The server also drops the
+   * message's ciphertext.
+   */
+  async deleteMessageForEveryone(chatId: string, messageId: string): Promise<void> {
+    await this.sendMessageEvent(chatId, { type: 'delete', targetMessageId: messageId });
+  }
 
-      logger.debug(`Added reaction ${emoji} to message ${messageId}`);
+  /**
+   * Hide a message on this device only
+   */
+  async deleteMessage(messageId: string): Promise<void> {
+    try {
+      const database = SyncDatabase.getInstance();
+      await database.open();
+      await database.deleteMessageLocally(messageId);
+
+      logger.debug(`Message ${messageId} deleted on this device`);
     } catch (error) {
-      logger.error('Failed to add reaction:', error);
+      logger.error('Failed to delete message:', error);
       throw error;
     }
   }
 
   /**
-   * Remove reaction from message
+   * Send a reaction, edit or deletion as its own encrypted message
    */
-  async removeReaction(messageId: string, emoji: string): Promise<void> {
+  private async sendMessageEvent(chatId: string, event: MessageEvent): Promise<void> {
     try {
       if (!this.currentUserId) {
         throw new Error('User not authenticated');
       }
 
-      const messageRef = this.db.collection('messages').doc(messageId);
-      
-      await this.db.runTransaction(async (transaction) => {
-        const messageDoc = await transaction.get(messageRef);
-        if (!messageDoc.exists) {
-          throw new Error('Message not found');
-        }
+      const chatDoc = await this.db.collection('chats').doc(chatId).get();
+      if (!chatDoc.exists) {
+        throw new Error('Chat not found');
+      }
 
-        let reactions = messageDoc.data()?.reactions || [];
-        const reactionIndex = reactions.findIndex((r: MessageReaction) => r.emoji === emoji);
-
-        if (reactionIndex !== -1) {
-          const reaction = reactions[reactionIndex];
-          const userIndex = reaction.userIds.indexOf(this.currentUserId!);
-          
-          if (userIndex !== -1) {
-            reaction.userIds.splice(userIndex, 1);
-            
-            // Remove reaction if no users left
-            if (reaction.userIds.length === 0) {
-              reactions.splice(reactionIndex, 1);
-            }
-          }
-        }
+      const chat = chatDoc.data() as Chat;
+      const recipients = chat.participants.filter(id => id !== this.currentUserId);
+      const messageRef = this.db.collection('chats').doc(chatId).collection('messages').doc();
 
-        transaction.update(messageRef, { reactions });
-      });
+      const signalMetadata = await this.encryptForDevices(recipients, { type: 'event', event });
 
-      logger.debug(`Removed reaction ${emoji} from message ${messageId}`);
+      const messageData: EncryptedMessageData = {
+        id: messageRef.id,
+        chatId,
+        senderId: this.currentUserId,
+        timestamp: FirebaseFirestoreTypes.FieldValue.serverTimestamp() as any,
+        type: event.type,
+        targetMessageId: event.targetMessageId,
+        signalMetadata,
+        delivered: [],
+        read: []
+      };
+
+      await messageRef.set(messageData);
+
+      // This device can't decrypt its own events, so apply them right away
+      await this.applyMessageEvent(messageRef.id, event, this.currentUserId, Date.now());
+
+      logger.debug(`Sent ${event.type} for message ${event.targetMessageId}`);
     } catch (error) {
-      logger.error('Failed to remove reaction:', error);
+      logger.error(`Failed to send ${event.type}:`, error);
       throw error;
     }
   }
 
   /**
-   * Delete message (soft delete)
+   * Decrypt a reaction, edit or deletion and apply it to the stored message
+   * @returns the event, or null if it was already applied or couldn't be decrypted
    */
-  async deleteMessage(messageId: string): Promise<void> {
+  async receiveMessageEvent(encryptedMessage: EncryptedMessageData): Promise<MessageEvent | null> {
+    if (!isMessageEventType(encryptedMessage.type)) {
+      throw new Error(`Not a message event: ${encryptedMessage.type}`);
+    }
+
     try {
-      if (!this.currentUserId) {
-        throw new Error('User not authenticated');
+      const database = SyncDatabase.getInstance();
+      await database.open();
+      if (
+        encryptedMessage.targetMessageId &&
+        await database.hasAppliedMessageEvent(encryptedMessage.targetMessageId, encryptedMessage.id)
+      ) {
+        return null;
       }
 
-      // For now, just mark as deleted for the current user
-      // In a real implementation, you might want to handle this differently
-      await this.db.collection('messages').doc(messageId).update({
-        [`deletedBy.${this.currentUserId}`]: FirebaseFirestoreTypes.FieldValue.serverTimestamp()
-      });
+      const payload = await this.decryptForDevice(encryptedMessage);
+      const event = payload.event;
+      if (
+        !event ||
+        event.type !== encryptedMessage.type ||
+        event.targetMessageId !== encryptedMessage.targetMessageId
+      ) {
+        throw new Error('Message event does not match its envelope');
+      }
 
-      logger.debug(`Message ${messageId} marked as deleted`);
+      const timestamp = encryptedMessage.timestamp?.toMillis?.() ?? Date.now();
+      await this.applyMessageEvent(encryptedMessage.id, event, encryptedMessage.senderId, timestamp);
+      return event;
     } catch (error) {
-      logger.error('Failed to delete message:', error);
-      throw error;
+      logger.error('Failed to receive message event:', error);
+      return null;
+    }
+  }
+
+  private async applyMessageEvent(
+    eventId: string,
+    event: MessageEvent,
+    senderId: string,
+    timestamp: number
+  ): Promise<void> {
+    const database = SyncDatabase.getInstance();
+    await database.open();
+    const applied = await database.applyMessageEvent(eventId, event, senderId, timestamp);
+    if (!applied) {
+      logger.debug(`Message event for ${event.targetMessageId} was not applied locally`);
     }
   }
 
@@ -798,7 +929,7 @@ export class ChatEncryptionService {
    */
   async searchMessages(chatId: string, query: string): Promise<Message[]> {
     try {
-      const results = await EncryptedSearchService.getInstance().searchMessages(chatId, query);
+      const results = await EncryptedSearchService.getInstance().searchMessages(query, chatId);
       
       // Decrypt the search results
       const decryptedMessages: Message[] = [];
@@ -806,9 +937,14 @@ export class ChatEncryptionService {
       for (const result of results) {
         try {
           // Fetch the full encrypted message
-          const messageDoc = await this.db.collection('messages').doc(result.messageId).get();
+          const messageDoc = await this.db
+            .collection('chats')
+            .doc(result.chatId)
+            .collection('messages')
+            .doc(result.messageId)
+            .get();
           if (messageDoc.exists) {
-            const encryptedMessage = messageDoc.data() as EncryptedMessageData;
+            const encryptedMessage = { ...messageDoc.data(), id: messageDoc.id } as EncryptedMessageData;
             const decrypted = await this.decryptMessage(encryptedMessage);
             decryptedMessages.push(decrypted);
           }
@@ -0,0 +1,382 @@
+import { Platform } from 'react-native';
+import * as Device from 'expo-device';
+import { Buffer } from '@craftzdog/react-native-buffer';
+import { randomBytes, createCipheriv, createDecipheriv, createHmac } from 'react-native-quick-crypto';
+import { PrivateKey, PublicKey } from '@signalapp/libsignal-client';
+import { callFirebaseFunction } from '../../lib/errorUtils';
+import { getFirebaseAuth, getFirebaseDb, getFirebaseStorage } from '../../lib/firebase';
+import { SyncDatabase } from '../../database/SyncDatabase';
+import { LocalMessage } from '../../database/schema';
+import { LibsignalService } from './libsignal/LibsignalService';
+import MultiDeviceService from './MultiDeviceService';
+import { AuditLogService, AuditEventType } from './AuditLogService';
+import { logger } from '../LoggingService';
+
+const QR_PREFIX = 'dynasty-link:';
+const QR_VERSION = 1;
+const ENVELOPE_INFO = 'Dynasty Device Link v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Contents of the QR code a new device shows. The secret never reaches the server, so
+ * only a device that scanned the code can derive the key the envelope is sealed with.
+ */
+export interface DeviceLinkCode {
+  linkId: string;
+  publicKey: string;
+  secret: string;
+}
+
+interface HistoryArchive {
+  path: string;
+  key: string;
+  messageCount: number;
+}
+
+/**
+ * What an existing device hands over to the device it links
+ */
+interface ProvisioningMessage {
+  userId: string;
+  identityKeyPair: string;
+  linkedFromDeviceId: string;
+  history?: HistoryArchive;
+}
+
+export interface DeviceLinkRequest {
+  linkId: string;
+  qrCode: string;
+  expiresAt: number;
+}
+
+export interface PendingDeviceLink {
+  linkId: string;
+  deviceName: string;
+  platform: string;
+  expiresAt: number;
+}
+
+export interface DeviceLinkResult {
+  importedMessages: number;
+}
+
+interface PendingRequest {
+  linkId: string;
+  privateKey: PrivateKey;
+  secret: Buffer;
+}
+
+/**
+ * Links a new device to the account from a device that already has it set up. The
+ * new device shows a QR code, an existing device scans it and sends the account's
+ * identity key and message history over a channel the server can't read.
+ */
+export class DeviceLinkingService {
+  private static instance: DeviceLinkingService;
+  private pendingRequest?: PendingRequest;
+
+  private constructor() {}
+
+  static getInstance(): DeviceLinkingService {
+    if (!DeviceLinkingService.instance) {
+      DeviceLinkingService.instance = new DeviceLinkingService();
+    }
+    return DeviceLinkingService.instance;
+  }
+
+  // MARK: - New device
+
+  /**
+   * Start linking this device and get the QR code to show
+   */
+  async createLinkRequest(): Promise<DeviceLinkRequest> {
+    const privateKey = PrivateKey.generate();
+    const secret = Buffer.from(randomBytes(32));
+
+    const { linkId, expiresAt } = await callFirebaseFunction('createDeviceLink', {
+      deviceName: Device.deviceName || `${Device.modelName || Platform.OS} Device`,
+      platform: Platform.OS,
+    });
+
+    this.pendingRequest = { linkId, privateKey, secret };
+
+    const code: DeviceLinkCode = {
+      linkId,
+      publicKey: Buffer.from(privateKey.getPublicKey().serialize()).toString('base64'),
+      secret: secret.toString('base64'),
+    };
+
+    return {
+      linkId,
+      qrCode: `${QR_PREFIX}${JSON.stringify({ v: QR_VERSION, ...code })}`,
+      expiresAt,
+    };
+  }
+
+  /**
+   * Wait for an existing device to approve the link, then set this device up with the
+   * account identity and history
+   * @returns unsubscribe function
+   */
+  waitForApproval(
+    onLinked: (result: DeviceLinkResult) => void,
+    onError: (error: Error) => void
+  ): () => void {
+    const request = this.pendingRequest;
+    if (!request) {
+      throw new Error('No device link in progress');
+    }
+
+    const userId = this.getCurrentUserId();
+    let handled = false;
+
+    const unsubscribe = getFirebaseDb()
+      .collection('users')
+      .doc(userId)
+      .collection('deviceLinks')
+      .doc(request.linkId)
+      .onSnapshot(
+        (snapshot) => {
+          const link = snapshot.data();
+          if (handled || !link || link.status !== 'approved') return;
+          handled = true;
+          unsubscribe();
+
+          this.completeLink(request, link.ephemeralPublicKey, link.envelope)
+            .then(onLinked)
+            .catch(onError);
+        },
+        (error) => onError(error)
+      );
+
+    return unsubscribe;
+  }
+
+  /**
+   * Stop linking this device. The server deletes any message history already sent
+   * for the link.
+   */
+  async cancelLinkRequest(): Promise<void> {
+    const request = this.pendingRequest;
+    this.pendingRequest = undefined;
+    if (!request) return;
+
+    try {
+      await callFirebaseFunction('cancelDeviceLink', { linkId: request.linkId });
+    } catch (error) {
+      // The link expires soon either way
+      logger.warn('Failed to cancel device link:', error);
+    }
+  }
+
+  private async completeLink(
+    request: PendingRequest,
+    ephemeralPublicKey: string,
+    envelope: string
+  ): Promise<DeviceLinkResult> {
+    try {
+      const theirKey = PublicKey.deserialize(Buffer.from(ephemeralPublicKey, 'base64'));
+      const key = this.deriveEnvelopeKey(request.privateKey.agree(theirKey), request.secret);
+      const message: ProvisioningMessage = JSON.parse(
+        this.decrypt(key, Buffer.from(envelope, 'base64'), request.linkId).toString('utf8')
+      );
+
+      if (message.userId !== this.getCurrentUserId()) {
+        throw new Error('Device link is for a different account');
+      }
+
+      await LibsignalService.getInstance().adoptLinkedIdentity(message.identityKeyPair);
+      await MultiDeviceService.registerDevice(request.linkId);
+
+      let importedMessages = 0;
+      if (message.history) {
+        importedMessages = await this.importHistory(message.history, request.linkId);
+      }
+
+      await AuditLogService.getInstance().logEvent(
+        AuditEventType.DEVICE_LINKED,
+        'Device linked to account',
+        { metadata: { linkedFrom: message.linkedFromDeviceId, importedMessages } }
+      );
+
+      this.pendingRequest = undefined;
+      return { importedMessages };
+    } catch (error) {
+      logger.error('Failed to complete device link:', error);
+      throw error;
+    }
+  }
+
+  private async importHistory(history: HistoryArchive, linkId: string): Promise<number> {
+    const storageRef = getFirebaseStorage().ref(history.path);
+
+    try {
+      const response = await fetch(await storageRef.getDownloadURL());
+      const archive = Buffer.from(await response.arrayBuffer());
+      const messages: LocalMessage[] = JSON.parse(
+        this.decrypt(Buffer.from(history.key, 'base64'), archive, linkId).toString('utf8')
+      );
+
+      const database = SyncDatabase.getInstance();
+      await database.open();
+      return await database.importMessageHistory(messages);
+    } catch (error) {
+      // The device is linked either way; history is a convenience
+      logger.error('Failed to import message history:', error);
+      return 0;
+    } finally {
+      storageRef.delete().catch((error: unknown) => {
+        logger.warn('Failed to delete history archive:', error);
+      });
+    }
+  }
+
+  // MARK: - Existing device
+
+  /**
+   * Read a scanned QR code
+   * @returns null if it isn't a device link code
+   */
+  parseLinkCode(data: string): DeviceLinkCode | null {
+    if (!data.startsWith(QR_PREFIX)) return null;
+
+    try {
+      const code = JSON.parse(data.slice(QR_PREFIX.length));
+      if (code.v !== QR_VERSION || !code.linkId || !code.publicKey || !code.secret) {
+        return null;
+      }
+      return { linkId: code.linkId, publicKey: code.publicKey, secret: code.secret };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Details of the device asking to be linked, to confirm with the user
+   */
+  async getPendingLink(code: DeviceLinkCode): Promise<PendingDeviceLink | null> {
+    const snapshot = await getFirebaseDb()
+      .collection('users')
+      .doc(this.getCurrentUserId())
+      .collection('deviceLinks')
+      .doc(code.linkId)
+      .get();
+
+    const link = snapshot.data();
+    if (!link || link.status !== 'pending' || link.expiresAt.toMillis() < Date.now()) {
+      return null;
+    }
+
+    return {
+      linkId: code.linkId,
+      deviceName: link.deviceName,
+      platform: link.platform,
+      expiresAt: link.expiresAt.toMillis(),
+    };
+  }
+
+  /**
+   * Send this account's identity, and optionally the message history, to the new device
+   */
+  async approveLink(code: DeviceLinkCode, options: { includeHistory: boolean }): Promise<void> {
+    try {
+      const userId = this.getCurrentUserId();
+      const deviceId = MultiDeviceService.getCurrentDeviceId();
+      if (!deviceId) {
+        throw new Error('This device is not registered');
+      }
+
+      const message: ProvisioningMessage = {
+        userId,
+        identityKeyPair: await LibsignalService.getInstance().exportIdentityKeyPair(),
+        linkedFromDeviceId: deviceId,
+      };
+
+      if (options.includeHistory) {
+        message.history = await this.uploadHistory(userId, code.linkId);
+      }
+
+      const ephemeralKey = PrivateKey.generate();
+      const theirKey = PublicKey.deserialize(Buffer.from(code.publicKey, 'base64'));
+      const key = this.deriveEnvelopeKey(ephemeralKey.agree(theirKey), Buffer.from(code.secret, 'base64'));
+      const envelope = this.encrypt(key, Buffer.from(JSON.stringify(message), 'utf8'), code.linkId);
+
+      await callFirebaseFunction('approveDeviceLink', {
+        linkId: code.linkId,
+        deviceId,
+        ephemeralPublicKey: Buffer.from(ephemeralKey.getPublicKey().serialize()).toString('base64'),
+        envelope: envelope.toString('base64'),
+      });
+
+      await AuditLogService.getInstance().logEvent(
+        AuditEventType.DEVICE_LINK_APPROVED,
+        'Approved linking a new device',
+        { metadata: { linkId: code.linkId, includeHistory: options.includeHistory } }
+      );
+    } catch (error) {
+      logger.error('Failed to approve device link:', error);
+      throw error;
+    }
+  }
+
+  private async uploadHistory(userId: string, linkId: string): Promise<HistoryArchive> {
+    const database = SyncDatabase.getInstance();
+    await database.open();
+    const messages = await database.exportMessageHistory();
+
+    // The archive has its own key so the envelope stays small
+    const key = Buffer.from(randomBytes(32));
+    const archive = this.encrypt(key, Buffer.from(JSON.stringify(messages), 'utf8'), linkId);
+
+    const path = `encrypted-backups/${userId}/device-link-${linkId}`;
+    await getFirebaseStorage().ref(path).put(new Uint8Array(archive), {
+      contentType: 'application/octet-stream',
+    });
+
+    return { path, key: key.toString('base64'), messageCount: messages.length };
+  }
+
+  // MARK: - Crypto
+
+  /**
+   * HKDF-SHA256 over the ephemeral agreement, salted with the QR code secret
+   */
+  private deriveEnvelopeKey(sharedSecret: Uint8Array, secret: Buffer): Buffer {
+    const prk = createHmac('sha256', secret).update(Buffer.from(sharedSecret)).digest();
+    return Buffer.from(
+      createHmac('sha256', prk)
+        .update(Buffer.concat([Buffer.from(ENVELOPE_INFO, 'utf8'), Buffer.from([1])]))
+        .digest()
+    );
+  }
+
+  // Sealed data is iv, ciphertext and tag; the link ID is bound as associated data
+  private encrypt(key: Buffer, plaintext: Buffer, linkId: string): Buffer {
+    const iv = Buffer.from(randomBytes(IV_LENGTH));
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(linkId, 'utf8'));
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, ciphertext, Buffer.from(cipher.getAuthTag())]);
+  }
+
+  private decrypt(key: Buffer, sealed: Buffer, linkId: string): Buffer {
+    const iv = sealed.subarray(0, IV_LENGTH);
+    const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+    const ciphertext = sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH);
+
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAAD(Buffer.from(linkId, 'utf8'));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  private getCurrentUserId(): string {
+    const userId = getFirebaseAuth().currentUser?.uid;
+    if (!userId) throw new Error('User not authenticated');
+    return userId;
+  }
+}
+
+export default DeviceLinkingService.getInstance();
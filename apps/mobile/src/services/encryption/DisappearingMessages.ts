@@ -0,0 +1,17 @@
+/**
+ * Timers a chat can set for disappearing messages, in seconds; the same ones
+ * updateChatSettings accepts. 0 turns the timer off.
+ */
+export const DISAPPEARING_MESSAGE_OPTIONS: { seconds: number; label: string }[] = [
+  { seconds: 0, label: 'Off' },
+  { seconds: 3600, label: '1 hour' },
+  { seconds: 28800, label: '8 hours' },
+  { seconds: 86400, label: '1 day' },
+  { seconds: 604800, label: '1 week' },
+  { seconds: 2419200, label: '4 weeks' },
+];
+
+export function getDisappearingTimerLabel(seconds: number | undefined): string {
+  const option = DISAPPEARING_MESSAGE_OPTIONS.find(candidate => candidate.seconds === (seconds || 0));
+  return option?.label || 'Off';
+}
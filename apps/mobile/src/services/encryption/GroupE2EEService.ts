@@ -6,6 +6,9 @@ import { E2EEService } from './E2EEService';
 import { getFirebaseDb, getFirebaseAuth } from '../../lib/firebase';
 import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
 import { logger } from '../LoggingService';
+import { SyncDatabase } from '../../database/SyncDatabase';
+import { MessageEvent, isMessageEventType } from './MessageEvents';
+import { Poll, PollAction, PollState, getPollError, isPollAction } from './Polls';
 
 type Timestamp = FirebaseFirestoreTypes.Timestamp;
 
@@ -274,7 +277,9 @@ export default class GroupE2EEService {
       .collection('messages').doc(groupMessage.id)
       .set({
         ...groupMessage,
-        encryptedPayloads: Object.fromEntries(encryptedPayloads)
+        encryptedPayloads: Object.fromEntries(encryptedPayloads),
+        // Polls go by the server's clock, which the sender can't set
+        timestamp: FirebaseFirestoreTypes.FieldValue.serverTimestamp() as any
       });
 
     // Advance chain key
@@ -333,9 +338,192 @@ export default class GroupE2EEService {
       throw new Error('Invalid message signature');
     }
 
+    // Reactions, edits and deletions change an earlier message
+    const event: MessageEvent | undefined = payload.metadata?.event;
+    if (event && isMessageEventType(event.type)) {
+      if (payload.senderId !== message.senderId) {
+        throw new Error('Message event sender mismatch');
+      }
+
+      const database = SyncDatabase.getInstance();
+      await database.open();
+      await database.applyMessageEvent(message.id, event, message.senderId, payload.timestamp);
+    }
+
+    // Polls and sign-up sheets, and the votes on them. Deadlines and closes are checked
+    // against when the server received the message, not the time the sender put in it.
+    const poll: Poll | undefined = payload.metadata?.poll;
+    const pollAction: PollAction | undefined = payload.metadata?.pollAction;
+    if (poll || isPollAction(pollAction)) {
+      if (payload.senderId !== message.senderId) {
+        throw new Error('Poll sender mismatch');
+      }
+      if (!message.timestamp) {
+        throw new Error('Poll message has no server timestamp');
+      }
+      const receivedAt = message.timestamp.toMillis();
+
+      const database = SyncDatabase.getInstance();
+      await database.open();
+      if (poll && !getPollError(poll)) {
+        await database.savePoll(message.id, message.groupId, message.senderId, poll, receivedAt);
+      } else if (isPollAction(pollAction)) {
+        await database.applyPollAction(message.id, pollAction, message.senderId, receivedAt);
+      }
+    }
+
+    // Disappearing messages carry their timer in the signed payload
+    const expiresIn: number | undefined = payload.metadata?.expiresIn;
+    if (expiresIn) {
+      const database = SyncDatabase.getInstance();
+      await database.open();
+      await database.setMessageExpiry(
+        message.id,
+        new Date(payload.timestamp + expiresIn * 1000).toISOString()
+      );
+    }
+
     return payload;
   }
 
+  /**
+   * Send a reaction, edit or deletion to the group, encrypted like any other message
+   */
+  async sendGroupMessageEvent(groupId: string, event: MessageEvent): Promise<string> {
+    const auth = getFirebaseAuth();
+    const currentUserId = auth.currentUser?.uid;
+    if (!currentUserId) throw new Error('User not authenticated');
+
+    const messageId = await this.sendGroupMessage(groupId, '', { event });
+
+    // Our own copy isn't decrypted here, so apply the event right away
+    const database = SyncDatabase.getInstance();
+    await database.open();
+    await database.applyMessageEvent(messageId, event, currentUserId, Date.now());
+
+    return messageId;
+  }
+
+  /**
+   * Send a poll or sign-up sheet to the group
+   */
+  async sendPoll(groupId: string, poll: Poll): Promise<string> {
+    const auth = getFirebaseAuth();
+    const currentUserId = auth.currentUser?.uid;
+    if (!currentUserId) throw new Error('User not authenticated');
+
+    const error = getPollError(poll);
+    if (error) throw new Error(error);
+
+    const messageId = await this.sendGroupMessage(groupId, poll.question, { poll });
+    const receivedAt = await this.getServerTimestamp(groupId, messageId);
+
+    // Our own copy isn't decrypted here, so store it right away
+    const database = SyncDatabase.getInstance();
+    await database.open();
+    await database.savePoll(messageId, groupId, currentUserId, poll, receivedAt);
+
+    return messageId;
+  }
+
+  /**
+   * Vote in a poll or sign up for items, replacing any earlier vote. No options
+   * takes the vote back.
+   */
+  async votePoll(groupId: string, pollId: string, optionIds: string[]): Promise<void> {
+    await this.sendPollAction(groupId, { type: 'vote', pollId, optionIds });
+  }
+
+  /**
+   * Stop a poll we created from taking votes, optionally recording the event it became
+   */
+  async closePoll(groupId: string, pollId: string, eventId?: string): Promise<void> {
+    await this.sendPollAction(groupId, { type: 'close', pollId, eventId });
+  }
+
+  private async sendPollAction(groupId: string, action: PollAction): Promise<void> {
+    const auth = getFirebaseAuth();
+    const currentUserId = auth.currentUser?.uid;
+    if (!currentUserId) throw new Error('User not authenticated');
+
+    const messageId = await this.sendGroupMessage(groupId, '', { pollAction: action });
+    const receivedAt = await this.getServerTimestamp(groupId, messageId);
+
+    const database = SyncDatabase.getInstance();
+    await database.open();
+    const applied = await database.applyPollAction(messageId, action, currentUserId, receivedAt);
+    if (!applied) {
+      logger.debug(`Poll ${action.type} for ${action.pollId} was not applied locally`);
+    }
+  }
+
+  /**
+   * When the server received one of our group messages, once the write is acknowledged.
+   * Our own polls and votes are applied with it rather than this device's clock, so
+   * every device checks them against the same deadline.
+   */
+  private async getServerTimestamp(groupId: string, messageId: string): Promise<number> {
+    const doc = await getFirebaseDb()
+      .collection('groups')
+      .doc(groupId)
+      .collection('messages')
+      .doc(messageId)
+      .get();
+
+    const timestamp: Timestamp | null | undefined = doc.data()?.timestamp;
+    if (!timestamp) throw new Error('Poll message has no server timestamp');
+    return timestamp.toMillis();
+  }
+
+  /**
+   * Follow the polls and sign-up sheets in a group. New polls and votes are decrypted
+   * as they arrive, and the callback gets every poll stored on this device.
+   * @returns unsubscribe function
+   */
+  subscribeToPolls(
+    groupId: string,
+    onPolls: (polls: { id: string; state: PollState }[]) => void
+  ): () => void {
+    const database = SyncDatabase.getInstance();
+    // Messages are decrypted in order so votes land after the poll they're for
+    let processing = Promise.resolve();
+
+    return getFirebaseDb()
+      .collection('groups')
+      .doc(groupId)
+      .collection('messages')
+      .orderBy('timestamp', 'asc')
+      .onSnapshot(
+        (snapshot) => {
+          const added = snapshot.docChanges().filter(change => change.type === 'added');
+
+          processing = processing.then(async () => {
+            await database.open();
+
+            for (const { doc } of added) {
+              // Polls already stored here don't need decrypting again, and our own
+              // messages are applied by the send once the server has stamped their time
+              if (doc.metadata.hasPendingWrites || await database.getMessage(doc.id)) continue;
+
+              const data = doc.data();
+              try {
+                await this.decryptGroupMessage({
+                  ...data,
+                  id: doc.id,
+                  encryptedPayloads: new Map(Object.entries(data.encryptedPayloads || {})),
+                } as GroupMessage);
+              } catch (error) {
+                logger.warn(`Failed to decrypt group message ${doc.id}:`, error);
+              }
+            }
+
+            onPolls(await database.getPolls(groupId));
+          }).catch(error => logger.error('Failed to update polls:', error));
+        },
+        (error) => logger.error('Failed to subscribe to polls:', error)
+      );
+  }
+
   /**
    * Add a new member to the group
    */
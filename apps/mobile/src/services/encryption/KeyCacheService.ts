@@ -1,6 +1,7 @@
 /**
  * Key Cache Service for React Native
- * Caches derived PBKDF2 keys to avoid repeated expensive derivations
+ * Caches derived PBKDF2 keys to avoid repeated expensive derivations, and the decrypted
+ * thumbnails of encrypted vault files so lists don't decrypt them on every render
  */
 
 import QuickCrypto from 'react-native-quick-crypto';
@@ -16,6 +17,10 @@ export class KeyCacheService {
   private cache = new Map<string, CachedKey>();
   private readonly TTL = 30 * 60 * 1000; // 30 minutes
   private readonly MAX_CACHE_SIZE = 10; // Maximum number of cached keys
+  // Decrypted thumbnails as data URIs, kept in least recently used order
+  private thumbnailCache = new Map<string, string>();
+  private pendingThumbnails = new Map<string, Promise<string>>();
+  private readonly MAX_THUMBNAIL_CACHE_SIZE = 200;
   private cleanupTimer: NodeJS.Timeout | null = null;
 
   private constructor() {
@@ -64,6 +69,48 @@ export class KeyCacheService {
     return key;
   }
 
+  /**
+   * Get or decrypt a thumbnail with caching. Concurrent requests for the same thumbnail
+   * share one decryption, and the least recently used thumbnails are dropped once the
+   * cache is full.
+   */
+  async getOrDecryptThumbnail(
+    cacheKey: string,
+    decryptFunction: () => Promise<string>
+  ): Promise<string> {
+    const cached = this.thumbnailCache.get(cacheKey);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.thumbnailCache.delete(cacheKey);
+      this.thumbnailCache.set(cacheKey, cached);
+      return cached;
+    }
+
+    const pending = this.pendingThumbnails.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const decryption = decryptFunction()
+      .then((uri) => {
+        this.addThumbnailToCache(cacheKey, uri);
+        return uri;
+      })
+      .finally(() => {
+        this.pendingThumbnails.delete(cacheKey);
+      });
+
+    this.pendingThumbnails.set(cacheKey, decryption);
+    return decryption;
+  }
+
+  /**
+   * Drop all decrypted thumbnails, e.g. when the vault is locked
+   */
+  clearThumbnails(): void {
+    this.thumbnailCache.clear();
+  }
+
   /**
    * Clear specific key from cache
    */
@@ -77,6 +124,7 @@ export class KeyCacheService {
    */
   clearAll(): void {
     this.cache.clear();
+    this.clearThumbnails();
   }
 
   /**
@@ -98,6 +146,7 @@ export class KeyCacheService {
     size: number;
     hits: number;
     totalAccessCount: number;
+    thumbnails: number;
   } {
     let totalAccessCount = 0;
     for (const cached of this.cache.values()) {
@@ -107,7 +156,8 @@ export class KeyCacheService {
     return {
       size: this.cache.size,
       hits: totalAccessCount,
-      totalAccessCount
+      totalAccessCount,
+      thumbnails: this.thumbnailCache.size
     };
   }
 
@@ -153,6 +203,20 @@ export class KeyCacheService {
     });
   }
 
+  /**
+   * Add a decrypted thumbnail to the cache, dropping the least recently used when full
+   */
+  private addThumbnailToCache(cacheKey: string, uri: string): void {
+    if (this.thumbnailCache.size >= this.MAX_THUMBNAIL_CACHE_SIZE) {
+      const oldestKey = this.thumbnailCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.thumbnailCache.delete(oldestKey);
+      }
+    }
+
+    this.thumbnailCache.set(cacheKey, uri);
+  }
+
   /**
    * Start periodic cleanup timer
    */
@@ -177,6 +241,7 @@ export class KeyCacheService {
       this.cleanupTimer = null;
     }
     this.cache.clear();
+    this.clearThumbnails();
     KeyCacheService.instance = null;
   }
 }
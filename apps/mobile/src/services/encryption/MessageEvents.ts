@@ -0,0 +1,118 @@
+import type { MessageReaction } from './ChatEncryptionService';
+
+/**
+ * Reactions, edits and deletions are sent as their own encrypted messages that point at
+ * the message they change. The server only learns the event type and the target, and
+ * each device folds the events into the messages it has decrypted.
+ */
+export type MessageEventType = 'reaction' | 'edit' | 'delete';
+
+export const MESSAGE_EVENT_TYPES: MessageEventType[] = ['reaction', 'edit', 'delete'];
+
+export interface MessageEvent {
+  type: MessageEventType;
+  targetMessageId: string;
+  // Reactions; each user has at most one, so a new emoji replaces the old one
+  emoji?: string;
+  remove?: boolean;
+  // Edits
+  text?: string;
+}
+
+/**
+ * Quoted message, copied into the reply so it shows even if the original isn't loaded
+ */
+export interface MessageReply {
+  messageId: string;
+  senderId: string;
+  preview: string;
+}
+
+/**
+ * An earlier version of an edited message
+ */
+export interface MessageEdit {
+  text: string;
+  replacedAt: number;
+}
+
+/**
+ * The parts of a message that events change
+ */
+export interface ReconciledMessage {
+  senderId: string;
+  text?: string;
+  reactions?: MessageReaction[];
+  editHistory?: MessageEdit[];
+  editedAt?: number;
+  deletedForEveryone?: boolean;
+}
+
+// Longest quote kept in a reply
+const REPLY_PREVIEW_LENGTH = 100;
+
+export function isMessageEventType(type: string | undefined): type is MessageEventType {
+  return MESSAGE_EVENT_TYPES.includes(type as MessageEventType);
+}
+
+export function createReplyPreview(text: string | undefined, fallback: string): string {
+  if (!text) return fallback;
+  return text.length > REPLY_PREVIEW_LENGTH ? `${text.slice(0, REPLY_PREVIEW_LENGTH)}…` : text;
+}
+
+/**
+ * Apply an event to the message it targets
+ * @returns the updated message, or null if the event isn't allowed to change it
+ */
+export function applyMessageEvent<T extends ReconciledMessage>(
+  message: T,
+  event: MessageEvent,
+  senderId: string,
+  timestamp: number
+): T | null {
+  if (message.deletedForEveryone) return null;
+
+  switch (event.type) {
+    case 'reaction': {
+      const reactions = (message.reactions || [])
+        .map(reaction => ({ ...reaction, userIds: reaction.userIds.filter(id => id !== senderId) }))
+        .filter(reaction => reaction.userIds.length > 0);
+
+      if (!event.remove && event.emoji) {
+        const existing = reactions.find(reaction => reaction.emoji === event.emoji);
+        if (existing) {
+          existing.userIds.push(senderId);
+        } else {
+          reactions.push({ emoji: event.emoji, userIds: [senderId] });
+        }
+      }
+      return { ...message, reactions };
+    }
+
+    case 'edit': {
+      // Only the author can edit, and a late edit must not undo a newer one
+      if (senderId !== message.senderId || event.text === undefined) return null;
+      if (message.editedAt && message.editedAt >= timestamp) return null;
+
+      const editHistory = [...(message.editHistory || [])];
+      if (message.text !== undefined) {
+        editHistory.push({ text: message.text, replacedAt: timestamp });
+      }
+      return { ...message, text: event.text, editHistory, editedAt: timestamp };
+    }
+
+    case 'delete': {
+      if (senderId !== message.senderId) return null;
+      return {
+        ...message,
+        text: undefined,
+        reactions: [],
+        editHistory: [],
+        deletedForEveryone: true,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
@@ -2,10 +2,10 @@ import * as SecureStore from 'expo-secure-store';
 import * as Device from 'expo-device';
 import { Platform } from 'react-native';
 import { Buffer } from '@craftzdog/react-native-buffer';
-import { randomBytes, createHmac, createHash } from 'react-native-quick-crypto';
+import { randomBytes, createHash } from 'react-native-quick-crypto';
 import { callFirebaseFunction } from '../../lib/errorUtils';
 import { LibsignalService } from './libsignal/LibsignalService';
-import { KeyPair, EncryptedMessage } from './index';
+import { EncryptedMessage } from './index';
 import { logger } from '../LoggingService';
 import { getFirebaseAuth } from '../../lib/firebase';
 
@@ -41,8 +41,6 @@ interface DeviceSession {
 const DEVICE_PREFIX = 'e2e_device_';
 const DEVICE_ID_KEY = `${DEVICE_PREFIX}id`;
 const DEVICE_SESSIONS_KEY = `${DEVICE_PREFIX}sessions`;
-const PRE_KEY_PREFIX = `${DEVICE_PREFIX}prekey_`;
-const SIGNED_PRE_KEY = `${DEVICE_PREFIX}signed_prekey`;
 
 export class MultiDeviceService {
   private static instance: MultiDeviceService;
@@ -92,48 +90,30 @@ export class MultiDeviceService {
   }
 
   /**
-   * Register current device
+   * Register current device under the account's Signal identity. Its keys are
+   * published by LibsignalService; this records the device itself.
+   * @param linkId Device link this device was provisioned through, if any
    */
-  async registerDevice(): Promise<void> {
+  async registerDevice(linkId?: string): Promise<void> {
     if (!this.deviceId) throw new Error('Device ID not initialized');
 
     try {
       logger.debug('Registering device...');
       
-      // Generate device-specific identity key
-      const identityKeyPair = await LibsignalService.getInstance().generateKeyPair();
+      const libsignalService = LibsignalService.getInstance();
+      const identityKeyPair = await libsignalService.getIdentityKeyPair();
+      if (!identityKeyPair) throw new Error('Signal Protocol not initialized');
       
-      // Generate signed pre-key
-      const signedPreKey = await this.generateSignedPreKey(identityKeyPair.privateKey);
-      
-      // Generate one-time pre-keys
-      const oneTimePreKeys = await this.generateOneTimePreKeys(100);
-      
-      // Store keys locally
-      await this.storeDeviceKeys(identityKeyPair, signedPreKey, oneTimePreKeys);
-      
-      // Upload to Firebase
-      const deviceInfo: DeviceInfo = {
+      await callFirebaseFunction('registerDevice', {
         deviceId: this.deviceId,
         deviceName: await this.getDeviceName(),
-        deviceType: Platform.OS as 'ios' | 'android',
-        identityKey: identityKeyPair.publicKey,
-        signedPreKey: {
-          keyId: signedPreKey.keyId,
-          publicKey: signedPreKey.publicKey,
-          signature: signedPreKey.signature,
-          timestamp: signedPreKey.timestamp,
+        devicePublicKey: identityKeyPair.publicKey,
+        deviceInfo: {
+          platform: Platform.OS,
+          signalDeviceId: libsignalService.getDeviceId(),
         },
-        oneTimePreKeys: oneTimePreKeys.map(key => ({
-          keyId: key.keyId,
-          publicKey: key.publicKey,
-        })),
-        registrationId: await this.generateRegistrationId(),
-        registeredAt: Date.now(),
-        lastSeenAt: Date.now(),
-      };
-      
-      await callFirebaseFunction('registerDevice', deviceInfo);
+        ...(linkId ? { linkId } : {}),
+      });
       
       logger.debug('Device registered successfully');
     } catch (error) {
@@ -285,83 +265,6 @@ export class MultiDeviceService {
     return `${Device.modelName || Platform.OS} Device`;
   }
 
-  /**
-   * Generate registration ID
-   */
-  private async generateRegistrationId(): Promise<number> {
-    const bytes = randomBytes(4);
-    return bytes.readUInt32BE(0) & 0x7fffffff; // Ensure positive number
-  }
-
-  /**
-   * Generate signed pre-key
-   */
-  private async generateSignedPreKey(identityPrivateKey: string): Promise<SignedPreKey> {
-    const keyPair = await LibsignalService.getInstance().generateKeyPair();
-    const keyId = Math.floor(Math.random() * 0xFFFFFF);
-    
-    // Sign the public key
-    const signature = await this.signPublicKey(keyPair.publicKey, identityPrivateKey);
-    
-    return {
-      keyId,
-      publicKey: keyPair.publicKey,
-      signature: signature.toString('base64'),
-      timestamp: Date.now(),
-    };
-  }
-
-  /**
-   * Generate one-time pre-keys
-   */
-  private async generateOneTimePreKeys(count: number): Promise<PreKey[]> {
-    const keys: PreKey[] = [];
-    const startId = Math.floor(Math.random() * 0xFFFFFF);
-    
-    for (let i = 0; i < count; i++) {
-      const keyPair = await LibsignalService.getInstance().generateKeyPair();
-      keys.push({
-        keyId: startId + i,
-        publicKey: keyPair.publicKey,
-      });
-      
-      // Store private key locally
-      await SecureStore.setItemAsync(
-        `${PRE_KEY_PREFIX}${startId + i}`,
-        keyPair.privateKey
-      );
-    }
-    
-    return keys;
-  }
-
-  /**
-   * Sign public key
-   */
-  private async signPublicKey(publicKey: string, privateKey: string): Promise<Buffer> {
-    // Create signature using HMAC for now
-    const hmac = createHmac('sha256', privateKey);
-    hmac.update(Buffer.from(publicKey, 'base64'));
-    return hmac.digest();
-  }
-
-  /**
-   * Store device keys locally
-   */
-  private async storeDeviceKeys(
-    identityKeyPair: KeyPair,
-    signedPreKey: SignedPreKey,
-    oneTimePreKeys: PreKey[]
-  ): Promise<void> {
-    // Store identity key
-    await LibsignalService.getInstance().restoreKeyPair(identityKeyPair);
-    
-    // Store signed pre-key
-    await SecureStore.setItemAsync(SIGNED_PRE_KEY, JSON.stringify(signedPreKey));
-    
-    // One-time pre-keys are already stored in generateOneTimePreKeys
-  }
-
   /**
    * Check if device is registered
    */
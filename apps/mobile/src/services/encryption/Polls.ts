@@ -0,0 +1,213 @@
+/**
+ * Polls and sign-up sheets are group messages like any other, and votes are encrypted
+ * control messages that point at the poll. The server sees neither the question nor
+ * the answers; each device tallies the votes it has decrypted.
+ */
+export type PollKind = 'poll' | 'signup';
+
+export interface PollOption {
+  id: string;
+  text: string;
+  // Sign-up sheets; how many people an item needs
+  slots?: number;
+}
+
+export interface Poll {
+  kind: PollKind;
+  question: string;
+  options: PollOption[];
+  multipleChoice: boolean;
+  // Hide who picked what. Votes still come from a known sender whom every member's
+  // device can see, so this only changes what the tally shows; it isn't anonymity.
+  hideVoters: boolean;
+  deadline?: number;
+}
+
+export type PollAction =
+  | { type: 'vote'; pollId: string; optionIds: string[] }
+  | { type: 'close'; pollId: string; eventId?: string };
+
+export interface PollVote {
+  voterId: string;
+  optionIds: string[];
+  votedAt: number;
+}
+
+/**
+ * A poll with the votes applied to it so far
+ */
+export interface PollState {
+  poll: Poll;
+  creatorId: string;
+  createdAt: number;
+  // Latest vote of each voter; an empty vote is a retracted one
+  votes: PollVote[];
+  closedAt?: number;
+  // Event the poll was turned into
+  eventId?: string;
+}
+
+export interface PollOptionResult {
+  option: PollOption;
+  count: number;
+  // Empty for polls that hide voters
+  voterIds: string[];
+  // Sign-up sheets; people past the slots wait in line, in the order they signed up
+  waitlistIds: string[];
+  full: boolean;
+}
+
+export interface PollResults {
+  options: PollOptionResult[];
+  totalVoters: number;
+  myOptionIds: string[];
+  // Options with the most votes, if anyone voted
+  leadingOptionIds: string[];
+  closed: boolean;
+}
+
+export const MAX_POLL_OPTIONS = 12;
+export const MAX_POLL_SLOTS = 50;
+
+export function isPollAction(action: { type?: string; pollId?: string } | undefined): action is PollAction {
+  return !!action?.pollId && (action.type === 'vote' || action.type === 'close');
+}
+
+/**
+ * Check a poll before it's sent or after it's received
+ * @returns why the poll isn't valid, or null if it is
+ */
+export function getPollError(poll: Poll): string | null {
+  if (!poll.question.trim()) return 'Add a question';
+  if (poll.options.length < (poll.kind === 'signup' ? 1 : 2)) {
+    return poll.kind === 'signup' ? 'Add at least one item' : 'Add at least two options';
+  }
+  if (poll.options.length > MAX_POLL_OPTIONS) return `Use at most ${MAX_POLL_OPTIONS} options`;
+  if (poll.options.some(option => !option.text.trim())) return 'Options cannot be empty';
+  if (new Set(poll.options.map(option => option.id)).size !== poll.options.length) {
+    return 'Options must be unique';
+  }
+  if (poll.options.some(option =>
+    option.slots !== undefined && (!Number.isInteger(option.slots) || option.slots < 1 || option.slots > MAX_POLL_SLOTS)
+  )) {
+    return `Items need between 1 and ${MAX_POLL_SLOTS} people`;
+  }
+  return null;
+}
+
+export function isPollClosed(state: PollState, now: number = Date.now()): boolean {
+  return state.closedAt !== undefined || (state.poll.deadline !== undefined && state.poll.deadline <= now);
+}
+
+/**
+ * Apply a vote or close to the poll it targets
+ * @returns the updated poll, or null if the action isn't allowed to change it
+ */
+export function applyPollAction(
+  state: PollState,
+  action: PollAction,
+  senderId: string,
+  timestamp: number
+): PollState | null {
+  switch (action.type) {
+    case 'vote': {
+      // Votes count until the poll closes, wherever they are in the queue
+      if (state.closedAt !== undefined && timestamp > state.closedAt) return null;
+      if (state.poll.deadline !== undefined && timestamp > state.poll.deadline) return null;
+
+      const optionIds = [...new Set(action.optionIds)];
+      if (!state.poll.multipleChoice && optionIds.length > 1) return null;
+      if (optionIds.some(id => !state.poll.options.some(option => option.id === id))) return null;
+
+      // A late-arriving older vote must not replace a newer one
+      const previous = state.votes.find(vote => vote.voterId === senderId);
+      if (previous && previous.votedAt > timestamp) return null;
+
+      return {
+        ...state,
+        votes: [
+          ...state.votes.filter(vote => vote.voterId !== senderId),
+          { voterId: senderId, optionIds, votedAt: timestamp },
+        ],
+      };
+    }
+
+    case 'close': {
+      if (senderId !== state.creatorId) return null;
+      return {
+        ...state,
+        closedAt: Math.min(state.closedAt ?? timestamp, timestamp),
+        eventId: action.eventId || state.eventId,
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Count the votes. Sign-up slots go to whoever signed up first.
+ */
+export function tallyPoll(state: PollState, currentUserId: string, now: number = Date.now()): PollResults {
+  // A vote can arrive before the close it came after
+  const cutoff = Math.min(state.closedAt ?? Infinity, state.poll.deadline ?? Infinity);
+  const votes = state.votes
+    .filter(vote => vote.optionIds.length > 0 && vote.votedAt <= cutoff)
+    .sort((a, b) => a.votedAt - b.votedAt || a.voterId.localeCompare(b.voterId));
+
+  const options = state.poll.options.map(option => {
+    const voterIds = votes.filter(vote => vote.optionIds.includes(option.id)).map(vote => vote.voterId);
+    const taken = option.slots !== undefined ? voterIds.slice(0, option.slots) : voterIds;
+    const waitlistIds = option.slots !== undefined ? voterIds.slice(option.slots) : [];
+
+    return {
+      option,
+      count: taken.length,
+      voterIds: state.poll.hideVoters ? [] : taken,
+      waitlistIds: state.poll.hideVoters ? [] : waitlistIds,
+      full: option.slots !== undefined && taken.length >= option.slots,
+    };
+  });
+
+  const mostVotes = Math.max(0, ...options.map(result => result.count));
+
+  return {
+    options,
+    totalVoters: votes.length,
+    myOptionIds: votes.find(vote => vote.voterId === currentUserId)?.optionIds || [],
+    leadingOptionIds: mostVotes > 0
+      ? options.filter(result => result.count === mostVotes).map(result => result.option.id)
+      : [],
+    closed: isPollClosed(state, now),
+  };
+}
+
+/**
+ * Event details for a finished poll. A poll's winning option becomes the event's
+ * date if it reads as one; a sign-up sheet becomes the list of what to bring.
+ */
+export function getPollEventDetails(
+  state: PollState,
+  results: PollResults,
+  getName: (userId: string) => string
+): { title: string; description: string; eventDate: string; whatToBring?: string } {
+  const leading = results.options.filter(result => results.leadingOptionIds.includes(result.option.id));
+  const winnerDate = leading.length === 1 ? Date.parse(leading[0].option.text) : NaN;
+  const eventDate = new Date(Number.isNaN(winnerDate) ? state.poll.deadline ?? Date.now() : winnerDate);
+
+  const lines = results.options.map(result => {
+    const names = result.voterIds.map(getName).join(', ');
+    const count = result.option.slots !== undefined ? `${result.count}/${result.option.slots}` : `${result.count}`;
+    return `${result.option.text} (${count})${names ? `: ${names}` : ''}`;
+  });
+
+  return {
+    title: state.poll.question,
+    description: state.poll.kind === 'poll'
+      ? ['Decided in a family poll.', ...lines].join('\n')
+      : 'Organized with a family sign-up sheet.',
+    eventDate: eventDate.toISOString().split('T')[0],
+    whatToBring: state.poll.kind === 'signup' ? lines.join('\n') : undefined,
+  };
+}
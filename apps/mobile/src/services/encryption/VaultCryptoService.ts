@@ -378,6 +378,49 @@ export class VaultCryptoService {
     }
   }
 
+  /**
+   * Encrypt a thumbnail with the key of the file it previews. Uses secretbox like the
+   * web app, so thumbnails made on either client open on the other.
+   */
+  async encryptThumbnail(thumbnail: Uint8Array, fileKey: Uint8Array): Promise<{
+    encrypted: Uint8Array;
+    nonce: string;
+  }> {
+    await this.ensureSodiumReady();
+
+    try {
+      const nonce = this.sodium.randombytes_buf(this.sodium.crypto_secretbox_NONCEBYTES);
+      const encrypted = this.sodium.crypto_secretbox_easy(thumbnail, nonce, fileKey);
+
+      return { encrypted, nonce: Buffer.from(nonce).toString('base64') };
+    } catch (error) {
+      logger.error('VaultCryptoService: Failed to encrypt thumbnail:', error);
+      throw new Error('Failed to encrypt thumbnail');
+    }
+  }
+
+  /**
+   * Decrypt a thumbnail made by encryptThumbnail
+   */
+  async decryptThumbnail(
+    encrypted: Uint8Array,
+    nonce: string,
+    fileKey: Uint8Array
+  ): Promise<Uint8Array> {
+    await this.ensureSodiumReady();
+
+    try {
+      return this.sodium.crypto_secretbox_open_easy(
+        encrypted,
+        new Uint8Array(Buffer.from(nonce, 'base64')),
+        fileKey
+      );
+    } catch (error) {
+      logger.error('VaultCryptoService: Failed to decrypt thumbnail:', error);
+      throw new Error('Failed to decrypt thumbnail');
+    }
+  }
+
   /**
    * Generate deterministic hash for searchable encryption
    */
@@ -0,0 +1,149 @@
+import { DeviceLinkingService, DeviceLinkCode, DeviceLinkResult } from '../DeviceLinkingService';
+import { LibsignalService } from '../libsignal/LibsignalService';
+import MultiDeviceService from '../MultiDeviceService';
+import { getFirebaseDb } from '../../../lib/firebase';
+import { callFirebaseFunction } from '../../../lib/errorUtils';
+
+jest.mock('expo-device', () => ({ deviceName: 'New Phone', modelName: 'Pixel 9' }));
+jest.mock('../../../lib/firebase', () => ({
+  getFirebaseAuth: jest.fn(() => ({ currentUser: { uid: 'user-1' } })),
+  getFirebaseDb: jest.fn(),
+  getFirebaseStorage: jest.fn(),
+}));
+jest.mock('../../../lib/errorUtils', () => ({
+  callFirebaseFunction: jest.fn(),
+}));
+jest.mock('../libsignal/LibsignalService', () => ({
+  LibsignalService: {
+    getInstance: jest.fn(),
+  },
+}));
+jest.mock('../MultiDeviceService', () => ({
+  __esModule: true,
+  default: {
+    getCurrentDeviceId: jest.fn(() => 'existing-device'),
+    registerDevice: jest.fn(),
+  },
+}));
+jest.mock('../AuditLogService', () => ({
+  AuditLogService: {
+    getInstance: jest.fn(() => ({ logEvent: jest.fn() })),
+  },
+  AuditEventType: {
+    DEVICE_LINKED: 'encryption.device_linked',
+    DEVICE_LINK_APPROVED: 'encryption.device_link_approved',
+  },
+}));
+jest.mock('../../../database/SyncDatabase', () => ({
+  SyncDatabase: {
+    getInstance: jest.fn(),
+  },
+}));
+jest.mock('../../LoggingService', () => ({
+  logger: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const LINK_ID = 'link_1760900000000_0123456789abcdef';
+
+describe('DeviceLinkingService', () => {
+  const service = DeviceLinkingService.getInstance();
+  const mockCallFunction = callFirebaseFunction as jest.Mock;
+  const libsignal = {
+    exportIdentityKeyPair: jest.fn(),
+    adoptLinkedIdentity: jest.fn(),
+  };
+  let deliverLink: (snapshot: { data: () => unknown }) => void;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockCallFunction.mockImplementation(async (name: string) =>
+      name === 'createDeviceLink'
+        ? { linkId: LINK_ID, expiresAt: Date.now() + 10 * 60 * 1000 }
+        : { success: true }
+    );
+    libsignal.exportIdentityKeyPair.mockResolvedValue('account-identity-key-pair');
+    (LibsignalService.getInstance as jest.Mock).mockReturnValue(libsignal);
+
+    // The new device watches its link document for the approval
+    const linkDoc = {
+      onSnapshot: jest.fn((onNext: typeof deliverLink) => {
+        deliverLink = onNext;
+        return jest.fn();
+      }),
+    };
+    (getFirebaseDb as jest.Mock).mockReturnValue({
+      collection: () => ({ doc: () => ({ collection: () => ({ doc: () => linkDoc }) }) }),
+    });
+  });
+
+  // Approve from an existing device, then hand the approval to the waiting new device
+  const approveAndComplete = async (code: DeviceLinkCode): Promise<DeviceLinkResult> => {
+    await service.approveLink(code, { includeHistory: false });
+    const [, approval] = mockCallFunction.mock.calls.find(([name]) => name === 'approveDeviceLink')!;
+
+    return new Promise((resolve, reject) => {
+      service.waitForApproval(resolve, reject);
+      deliverLink({
+        data: () => ({
+          status: 'approved',
+          ephemeralPublicKey: approval.ephemeralPublicKey,
+          envelope: approval.envelope,
+        }),
+      });
+    });
+  };
+
+  it('should hand the account identity to the device that showed the code', async () => {
+    const request = await service.createLinkRequest();
+    const code = service.parseLinkCode(request.qrCode)!;
+
+    const result = await approveAndComplete(code);
+
+    expect(result).toEqual({ importedMessages: 0 });
+    expect(libsignal.adoptLinkedIdentity).toHaveBeenCalledWith('account-identity-key-pair');
+    expect(MultiDeviceService.registerDevice).toHaveBeenCalledWith(LINK_ID);
+  });
+
+  it('should keep the identity out of the envelope the server stores', async () => {
+    const request = await service.createLinkRequest();
+
+    await service.approveLink(service.parseLinkCode(request.qrCode)!, { includeHistory: false });
+
+    const [, approval] = mockCallFunction.mock.calls.find(([name]) => name === 'approveDeviceLink')!;
+    expect(approval.linkId).toBe(LINK_ID);
+    expect(Buffer.from(approval.envelope, 'base64').toString('utf8')).not.toContain('account-identity-key-pair');
+  });
+
+  it('should reject an envelope sealed for a different link', async () => {
+    const request = await service.createLinkRequest();
+    const code = service.parseLinkCode(request.qrCode)!;
+
+    await expect(approveAndComplete({ ...code, linkId: 'link_1760900000000_fedcba9876543210' }))
+      .rejects.toThrow();
+
+    expect(libsignal.adoptLinkedIdentity).not.toHaveBeenCalled();
+    expect(MultiDeviceService.registerDevice).not.toHaveBeenCalled();
+  });
+
+  it('should only read its own QR codes', () => {
+    expect(service.parseLinkCode('https://mydynastyapp.com')).toBeNull();
+    expect(service.parseLinkCode('dynasty-link:{"v":2,"linkId":"a","publicKey":"b","secret":"c"}')).toBeNull();
+    expect(service.parseLinkCode('dynasty-link:not json')).toBeNull();
+  });
+
+  it('should cancel the link on the server', async () => {
+    await service.createLinkRequest();
+
+    await service.cancelLinkRequest();
+    await service.cancelLinkRequest();
+
+    expect(mockCallFunction).toHaveBeenCalledWith('cancelDeviceLink', { linkId: LINK_ID });
+    expect(mockCallFunction.mock.calls.filter(([name]) => name === 'cancelDeviceLink')).toHaveLength(1);
+  });
+});
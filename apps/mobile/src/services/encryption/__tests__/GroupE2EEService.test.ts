@@ -0,0 +1,93 @@
+import GroupE2EEService from '../GroupE2EEService';
+import { Poll } from '../Polls';
+import { getFirebaseDb } from '../../../lib/firebase';
+import { SyncDatabase } from '../../../database/SyncDatabase';
+
+jest.mock('react-native-get-random-values', () => ({}));
+jest.mock('@react-native-firebase/firestore', () => ({
+  FirebaseFirestoreTypes: {
+    FieldValue: { serverTimestamp: jest.fn(() => 'server-timestamp') },
+  },
+}));
+jest.mock('../E2EEService', () => ({
+  E2EEService: { getInstance: jest.fn() },
+}));
+jest.mock('../../../lib/firebase', () => ({
+  getFirebaseAuth: jest.fn(() => ({ currentUser: { uid: 'user-1' } })),
+  getFirebaseDb: jest.fn(),
+}));
+jest.mock('../../../database/SyncDatabase', () => ({
+  SyncDatabase: {
+    getInstance: jest.fn(),
+  },
+}));
+jest.mock('../../LoggingService', () => ({
+  logger: {
+    error: jest.fn(),
+    warn: jest.fn(),
+    info: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const GROUP_ID = 'group-1';
+const MESSAGE_ID = 'message-1';
+// When the server received the message, well after this device's clock says
+const RECEIVED_AT = Date.now() + 60 * 60 * 1000;
+
+const POLL: Poll = {
+  kind: 'poll',
+  question: 'Where should we meet?',
+  options: [
+    { id: 'a', text: 'The lake' },
+    { id: 'b', text: 'Grandma\'s' },
+  ],
+  multipleChoice: false,
+  hideVoters: false,
+};
+
+describe('GroupE2EEService polls', () => {
+  const service = GroupE2EEService.getInstance();
+  const database = {
+    open: jest.fn(),
+    savePoll: jest.fn(),
+    applyPollAction: jest.fn(async () => true),
+  };
+  const messageDoc = {
+    get: jest.fn(async () => ({ data: () => ({ timestamp: { toMillis: () => RECEIVED_AT } }) })),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    jest.spyOn(service, 'sendGroupMessage').mockResolvedValue(MESSAGE_ID);
+    (SyncDatabase.getInstance as jest.Mock).mockReturnValue(database);
+    (getFirebaseDb as jest.Mock).mockReturnValue({
+      collection: () => ({ doc: () => ({ collection: () => ({ doc: () => messageDoc }) }) }),
+    });
+  });
+
+  it('should store our own poll at the time the server received it', async () => {
+    await service.sendPoll(GROUP_ID, POLL);
+
+    expect(database.savePoll).toHaveBeenCalledWith(MESSAGE_ID, GROUP_ID, 'user-1', POLL, RECEIVED_AT);
+  });
+
+  it('should apply our own vote at the time the server received it', async () => {
+    await service.votePoll(GROUP_ID, 'poll-1', ['a']);
+
+    expect(database.applyPollAction).toHaveBeenCalledWith(
+      MESSAGE_ID,
+      { type: 'vote', pollId: 'poll-1', optionIds: ['a'] },
+      'user-1',
+      RECEIVED_AT
+    );
+  });
+
+  it('should not apply a vote the server never stamped', async () => {
+    messageDoc.get.mockResolvedValueOnce({ data: () => ({ timestamp: null }) } as never);
+
+    await expect(service.votePoll(GROUP_ID, 'poll-1', ['a'])).rejects.toThrow();
+    expect(database.applyPollAction).not.toHaveBeenCalled();
+  });
+});
@@ -6,6 +6,7 @@ export { default as MediaEncryptionService } from './MediaEncryptionService';
 export { ChatEncryptionService } from './ChatEncryptionService';
 export { default as KeyRotationService } from './KeyRotationService';
 export { default as MultiDeviceService } from './MultiDeviceService';
+export { default as DeviceLinkingService } from './DeviceLinkingService';
 export { default as GroupE2EEService } from './GroupE2EEService';
 export { default as KeyBackupService } from './KeyBackupService';
 export { default as DoubleRatchetService } from './DoubleRatchetService';
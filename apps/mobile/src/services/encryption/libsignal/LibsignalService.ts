@@ -4,7 +4,10 @@ import { KeyDistributionService, PreKeyBundle } from './services/KeyDistribution
 import { SessionService, EncryptedMessage } from './services/SessionService';
 import { getFirebaseAuth } from '../../../lib/firebase';
 import { logger } from '../../LoggingService';
+import { IdentityKeyPair } from '@signalapp/libsignal-client';
+import { Buffer } from '@craftzdog/react-native-buffer';
 import * as QuickCrypto from 'react-native-quick-crypto';
+import type { MessageEvent, MessageReply } from '../MessageEvents';
 
 // Feature flag service (to be implemented)
 // import { FeatureFlagService } from '../../FeatureFlagService';
@@ -12,7 +15,16 @@ import * as QuickCrypto from 'react-native-quick-crypto';
 export interface MessagePayload {
   text?: string;
   metadata?: any;
-  type?: 'text' | 'media' | 'system';
+  type?: 'text' | 'media' | 'system' | 'event';
+  // Key of an attachment, which is encrypted separately
+  media?: {
+    encryptionKey: string;
+  };
+  replyTo?: MessageReply;
+  // Reaction, edit or deletion of an earlier message
+  event?: MessageEvent;
+  // Disappearing message timer in seconds, counted from when the message was sent
+  expiresIn?: number;
 }
 
 export interface DeviceMessage {
@@ -118,8 +130,9 @@ export class LibsignalService {
     try {
       logger.debug(`Sending message to ${recipientId}`);
       
-      // Get recipient's devices
-      const devices = await this.keyDistribution.getRecipientDevices(recipientId);
+      // Get recipient's devices; messages to our own account go to our other devices
+      const devices = (await this.keyDistribution.getRecipientDevices(recipientId))
+        .filter(device => recipientId !== this.userId || device.id !== this.deviceId);
       
       if (devices.length === 0) {
         throw new Error(`No Signal-enabled devices found for ${recipientId}`);
@@ -213,6 +226,50 @@ export class LibsignalService {
     }
   }
   
+  /**
+   * Device ID this device publishes its keys and sends messages under
+   */
+  getDeviceId(): number | undefined {
+    return this.deviceId;
+  }
+
+  /**
+   * Serialized identity key pair, handed to a device being linked to this account
+   */
+  async exportIdentityKeyPair(): Promise<string> {
+    await this.ensureInitialized();
+    const identityKeyPair = await this.store.getIdentityKeyPair();
+    return Buffer.from(identityKeyPair.serialize()).toString('base64');
+  }
+
+  /**
+   * Replace this device's identity with the account identity from an existing device.
+   * Linked devices share one identity key, so contacts' safety numbers and verification
+   * carry over. The device keeps its own device ID and gets fresh prekeys signed by the
+   * shared identity.
+   */
+  async adoptLinkedIdentity(serializedIdentityKeyPair: string): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      const identityKeyPair = IdentityKeyPair.deserialize(
+        Buffer.from(serializedIdentityKeyPair, 'base64')
+      );
+
+      // Sessions and prekeys belong to the identity being replaced
+      await this.store.clearAllSessions();
+      await this.store.clearAllPreKeys();
+      await this.store.storeIdentityKeyPair(identityKeyPair);
+
+      await this.keyDistribution.publishKeys();
+
+      logger.info(`Adopted linked identity on device ${this.deviceId}`);
+    } catch (error) {
+      logger.error('Failed to adopt linked identity:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get statistics about keys and sessions
    */
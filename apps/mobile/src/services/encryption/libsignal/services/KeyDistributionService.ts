@@ -1,4 +1,5 @@
 import { getFirebaseDb, getFirebaseAuth } from '../../../../lib/firebase';
+import { callFirebaseFunction } from '../../../../lib/errorUtils';
 import { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
 import { KeyGenerationService } from './KeyGenerationService';
 import { SignalProtocolStore } from '../stores/SignalProtocolStore';
@@ -32,6 +33,29 @@ interface DeviceDocument {
   };
 }
 
+// Device listed by the getUserSignalDevices function; linked devices such as the web app
+// only publish their keys there
+interface PublishedSignalDevice {
+  deviceId: number;
+  registrationId: number;
+  identityKey: string;
+  isPrimary: boolean;
+}
+
+// Bundle returned by the getUserSignalBundle function
+interface PublishedSignalBundle {
+  registrationId: number;
+  deviceId: number;
+  identityKey: string;
+  signedPreKey: {
+    keyId: number;
+    publicKey: string;
+    signature: string;
+    timestamp: number;
+  };
+  preKey: { keyId: number; publicKey: string } | null;
+}
+
 export interface PreKeyBundle {
   registrationId: number;
   deviceId: number;
@@ -146,6 +170,20 @@ export class KeyDistributionService {
           'capabilities.signalProtocol': true,
           'capabilities.protocolVersion': 'signal_v1'
         });
+
+      // Publish through the Signal key functions too, where linked devices look for keys
+      await callFirebaseFunction('publishSignalKeys', {
+        identityKey: deviceData.identityKey,
+        signedPreKey: {
+          id: deviceData.signedPreKey.keyId,
+          publicKey: deviceData.signedPreKey.publicKey,
+          signature: deviceData.signedPreKey.signature,
+          timestamp: deviceData.signedPreKey.timestamp
+        },
+        preKeys: deviceData.preKeys.map(pk => ({ id: pk.keyId, publicKey: pk.publicKey })),
+        registrationId,
+        deviceId: registrationId
+      });
       
       logger.info('Keys published successfully');
     } catch (error) {
@@ -170,7 +208,8 @@ export class KeyDistributionService {
         .get();
       
       if (!deviceDoc.exists) {
-        throw new Error(`Device not found: ${userId}:${deviceId}`);
+        // Linked devices publish their keys through the Signal key functions only
+        return await this.fetchPublishedPreKeyBundle(userId, deviceId);
       }
       
       const data = deviceDoc.data() as DeviceDocument;
@@ -224,7 +263,7 @@ export class KeyDistributionService {
         .where('capabilities.signalProtocol', '==', true)
         .get();
       
-      return devicesSnapshot.docs.map(doc => {
+      const devices = devicesSnapshot.docs.map(doc => {
         const data = doc.data() as DeviceDocument;
         return {
           id: data.deviceId,
@@ -234,6 +273,26 @@ export class KeyDistributionService {
           supportsSignalProtocol: data.capabilities.signalProtocol
         };
       });
+
+      // Add linked devices, which only publish through the Signal key functions
+      const { devices: published } = await callFirebaseFunction<
+        { userId: string },
+        { devices: PublishedSignalDevice[] }
+      >('getUserSignalDevices', { userId });
+
+      for (const device of published) {
+        if (!devices.some(d => d.id === device.deviceId)) {
+          devices.push({
+            id: device.deviceId,
+            name: undefined,
+            type: device.isPrimary ? 'primary' : 'linked',
+            lastSeen: new Date(),
+            supportsSignalProtocol: true
+          });
+        }
+      }
+
+      return devices;
     } catch (error) {
       logger.error(`Failed to get devices for ${userId}:`, error);
       return [];
@@ -398,6 +457,24 @@ export class KeyDistributionService {
   }
   
   // Helper methods
+
+  private async fetchPublishedPreKeyBundle(userId: string, deviceId: number): Promise<PreKeyBundle> {
+    const bundle = await callFirebaseFunction<
+      { userId: string; deviceId: number },
+      PublishedSignalBundle
+    >('getUserSignalBundle', { userId, deviceId });
+
+    return {
+      registrationId: bundle.registrationId,
+      deviceId: bundle.deviceId,
+      preKeyId: bundle.preKey?.keyId,
+      preKey: bundle.preKey?.publicKey,
+      signedPreKeyId: bundle.signedPreKey.keyId,
+      signedPreKey: bundle.signedPreKey.publicKey,
+      signedPreKeySignature: bundle.signedPreKey.signature,
+      identityKey: bundle.identityKey
+    };
+  }
   
   private async getDeviceName(): Promise<string> {
     try {
@@ -145,7 +145,8 @@ const nextConfig = {
               "img-src 'self' data: blob: https://*.googleusercontent.com https://firebasestorage.googleapis.com https://storage.googleapis.com https://*.firebaseapp.com https://*.cloudflarestorage.com https://*.r2.cloudflarestorage.com https://*.r2.dev https://react-circle-flags.pages.dev",
               "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
               "font-src 'self' https://fonts.gstatic.com data:",
-              "frame-src 'self' https://vercel.live",
+              "frame-src 'self' blob: https://vercel.live",
+              "media-src 'self' blob:",
               "object-src 'none'",
               "base-uri 'self'",
               "form-action 'self'",
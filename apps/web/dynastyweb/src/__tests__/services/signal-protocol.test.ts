@@ -0,0 +1,453 @@
+/**
+ * Signal Protocol in the browser, checked against libsignal. The keys and messages below
+ * were made with @signalapp/libsignal-client 0.72.1, the last release that still starts
+ * sessions without Kyber prekeys, and libsignal decrypted the browser messages pinned here.
+ */
+jest.mock('libsodium-wrappers-sumo', () => jest.requireActual('libsodium-wrappers-sumo'));
+jest.mock('@/services/encryption/signal/SignalCrypto', () => {
+  const actual = jest.requireActual('@/services/encryption/signal/SignalCrypto');
+  return { ...actual, generateKeyPair: jest.fn(actual.generateKeyPair) };
+});
+
+import { webcrypto } from 'crypto';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import sodium from 'libsodium-wrappers-sumo';
+import {
+  calculateAgreement,
+  calculateSignature,
+  generateKeyPair,
+  hkdf,
+  serializePublicKey,
+  signalCryptoReady,
+  verifySignature,
+  type SignalKeyPair,
+} from '@/services/encryption/signal/SignalCrypto';
+import {
+  SignalMessageType,
+  parsePreKeySignalMessage,
+  parseSignalMessage,
+  serializeSignalMessageBody,
+} from '@/services/encryption/signal/SignalMessages';
+import {
+  SessionCipher,
+  UntrustedIdentityError,
+  type PreKeyBundle,
+} from '@/services/encryption/signal/SessionCipher';
+import { SignalProtocolStore, type LocalIdentity } from '@/services/encryption/signal/SignalProtocolStore';
+
+// jsdom has neither WebCrypto nor structuredClone; sessions only hold plain objects and bytes
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+const clone = (value: unknown): unknown => {
+  if (value instanceof Uint8Array) return value.slice();
+  if (Array.isArray(value)) return value.map(clone);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, clone(item)]));
+  }
+  return value;
+};
+Object.defineProperty(globalThis, 'structuredClone', { value: clone, configurable: true });
+
+const mockGenerateKeyPair = generateKeyPair as jest.MockedFunction<typeof generateKeyPair>;
+
+const bytes = (hex: string) => Uint8Array.from(hex.match(/../g) || [], (byte) => parseInt(byte, 16));
+const keyPair = (privateKey: string, publicKey: string): SignalKeyPair => ({
+  privateKey: bytes(privateKey),
+  publicKey: bytes(publicKey),
+});
+
+// Bob's keys are libsignal's, and libsignal's Alice started a session with them
+const BOB = {
+  registrationId: 1234,
+  identity: keyPair(
+    'd068f823245f002d79690e349dd22f844a9cbddf18910db4936a495ef851cd7d',
+    '0550b5d9ac5747a82c1cb65c3a6eaa7d98e3491cb4a5e571ff44294d95b7a46c73'
+  ),
+  signedPreKey: keyPair(
+    '00dc21e731906a1bd7a20f3e9d1a0df50d327393ee36ef5a5009ac0a5c00f67d',
+    '056e71eef39d3b98f09b8a74789f18f0e39035246da86f8bd0c1870daa6523ec4a'
+  ),
+  signedPreKeySignature: '6a1bad9bc42490b9485104c7add6f786cca5d26920a5761ad2cfbc0875a12a37' +
+    '902ab5ab46f81b809734704877a1fb2d36a6f378a8d70b43d2b15bf1e3cec28b',
+  preKey: keyPair(
+    '98c0d42253c1c15c08dca5867a65a5780fe55cb07fa5181205e10d5d605f3556',
+    '05ef67a7b9822d7d7bce92b461c6961f9de19b33311d0d2b07847482513c2b1f00'
+  ),
+  // Ratchet key of Bob's reply
+  ratchetKey: keyPair(
+    'e02173493d6b334964ff14b3f046d505cf661bbcc198967e370bc815a3335c57',
+    '057ab5f9c6e7fd5c5e6582047b06f71bcef5890232ab2b139ec228b98f86c65528'
+  ),
+};
+
+const FROM_LIBSIGNAL = {
+  registrationId: 4321,
+  identityKey: '0549e4c7b7ff4c347e6c9f2c1f110f4c71fc1296e8675f25ed59e379e4712ce403',
+  baseKey: '05793e843dc2392321e145d5887a57953ddf486c50b8ac9f1e122577539c92d77c',
+  // "Hello from the phone", then "Are you there?"
+  messages: [
+    '340807122105793e843dc2392321e145d5887a57953ddf486c50b8ac9f1e122577539c92d77c1a210549e4c7b7ff' +
+      '4c347e6c9f2c1f110f4c71fc1296e8675f25ed59e379e4712ce4032252340a2105e976444a3947f5156a84d148' +
+      'dc27c01908bb8a92d7ba98d45b883781784c9725100018002220b0b881e85efc2fb7c9335a464cbc258ecfc1f8' +
+      '0be0fa3bbba55c94e5a20fa3d0cc3a2f4cd166679f28e1213009',
+    '340807122105793e843dc2392321e145d5887a57953ddf486c50b8ac9f1e122577539c92d77c1a210549e4c7b7ff' +
+      '4c347e6c9f2c1f110f4c71fc1296e8675f25ed59e379e4712ce4032242340a2105e976444a3947f5156a84d148' +
+      'dc27c01908bb8a92d7ba98d45b883781784c97251001180022107df5d2d7b91d99e8719f9efa994f41d5d921a3' +
+      '0b537af02b28e1213009',
+  ],
+  // Bob's "Hello from the browser", which libsignal decrypted
+  reply: '330a21057ab5f9c6e7fd5c5e6582047b06f71bcef5890232ab2b139ec228b98f86c65528100018002220a10dbe4f' +
+    '3d64782b83c741e699b3f9fe53d7e30b83daf500ad0986142d39b1321947498cf0239336',
+};
+
+// Carol is libsignal's; the browser's Alice started a session with her bundle
+const CAROL_BUNDLE = {
+  registrationId: 5678,
+  deviceId: 1,
+  identityKey: '0507678ff515a08313140234ee903a3e5cf1764722da66230653b9748cf5338327',
+  signedPreKeyId: 3,
+  signedPreKey: '058e7b5cc70ceb51a0c1ddc24e0cd176df4797a811d73c68c6035a7095602d874b',
+  signedPreKeySignature: 'c3db8587617b253dadc78c5dc753cf34e1d9ba12d380b1541e98496ecf81b0ef' +
+    '777e40b887ade59c221bf7f6f40965569997fe697ac1fe6e66e0e36c66606302',
+  preKeyId: 4,
+  preKey: '0549b812fe8c884de82c08ff8b33e067ced0d214e400027ee92ae6f3b7b5977529',
+};
+
+const TO_LIBSIGNAL = {
+  identity: keyPair(
+    '382b6fe6078543c4818ff52b1fded3a5e88f3dd41942c575804c0a96c1fa6454',
+    '050910eedab6236a697139070923e89118c686b31cee060f87c662532891c8da59'
+  ),
+  baseKey: keyPair(
+    'f007abc80f9abda7e7feb0b6124af3b29b79409336e96bb05721e9480779e168',
+    '05c29fcbf13dc7f701cb1ec9542bfed39c3fb8e30280d56bcff443aef31d7d3d60'
+  ),
+  sendingRatchetKey: keyPair(
+    '68a7db0ac75d46df1ae2a0635f64de0edda0e70ed0267943e5fe0f4251434f7d',
+    '0593893c3ff6fd7ef844feb4f23f7e109439577b6b3f62fd203cbb2caf7048a814'
+  ),
+  // Alice's "Hello from the browser", which libsignal decrypted
+  message: '330804122105c29fcbf13dc7f701cb1ec9542bfed39c3fb8e30280d56bcff443aef31d7d3d601a21050910eedab6' +
+    '236a697139070923e89118c686b31cee060f87c662532891c8da592252330a210593893c3ff6fd7ef844feb4f23f7e' +
+    '109439577b6b3f62fd203cbb2caf7048a81410001800222094cfca11f2fd00f4690551aadebba8e3ced6c344de44b3' +
+    '785bd0b372d89aa0507b9596034d95151628e1213003',
+  // Carol's "Hello from the phone"
+  reply: '340a21058f41cdeebf9bf246770506f426a8c53edd3864611005be3c29973d590c955231100018002220617cafb7' +
+    'fbdc35860e1c2421d7dc4b74dac5b9f2b2851e1c37751f2b29e0816daf386996d628a2e5',
+};
+
+const LIBSIGNAL_SIGNATURE = {
+  publicKey: CAROL_BUNDLE.identityKey,
+  message: 'signed by the phone',
+  signature: '2e6a71b524783c8db4dc4756d020998e8921b880e5de7a570981f50081992cba' +
+    'af85a534b0e4bd147786a56b4c9b6f8ea927283f57ddd208051a154db3bb9e00',
+};
+
+const createIdentity = (
+  userId: string,
+  registrationId: number,
+  identityKeyPair: SignalKeyPair = generateKeyPair()
+): LocalIdentity => ({
+  userId,
+  deviceId: 1,
+  registrationId,
+  identityKeyPair,
+  signedPreKeyId: 1,
+  signedPreKeyCreatedAt: Date.now(),
+  nextPreKeyId: 1,
+});
+
+const createStore = async (identity: LocalIdentity): Promise<SignalProtocolStore> => {
+  const store = new SignalProtocolStore(identity.userId);
+  await store.saveLocalIdentity(identity);
+  return store;
+};
+
+// Bob with the keys libsignal's Alice used
+const createBob = async () => {
+  const identity = { ...createIdentity('bob', BOB.registrationId, BOB.identity), signedPreKeyId: 9, nextPreKeyId: 8 };
+  const store = await createStore(identity);
+  await store.saveSignedPreKey({
+    keyId: 9,
+    keyPair: BOB.signedPreKey,
+    signature: bytes(BOB.signedPreKeySignature),
+    timestamp: Date.now(),
+  });
+  await store.savePreKeys([{ keyId: 7, keyPair: BOB.preKey }]);
+  return { identity, store };
+};
+
+const BOB_BUNDLE: PreKeyBundle = {
+  registrationId: BOB.registrationId,
+  deviceId: 1,
+  identityKey: BOB.identity.publicKey,
+  signedPreKeyId: 9,
+  signedPreKey: BOB.signedPreKey.publicKey,
+  signedPreKeySignature: bytes(BOB.signedPreKeySignature),
+};
+
+// A bundle published by a browser
+const createBundle = async (identity: LocalIdentity, store: SignalProtocolStore): Promise<PreKeyBundle> => {
+  const signedPreKey = generateKeyPair();
+  const preKey = generateKeyPair();
+  const signature = calculateSignature(identity.identityKeyPair.privateKey, signedPreKey.publicKey);
+  await store.saveSignedPreKey({ keyId: 1, keyPair: signedPreKey, signature, timestamp: Date.now() });
+  await store.savePreKeys([{ keyId: 1, keyPair: preKey }]);
+  return {
+    registrationId: identity.registrationId,
+    deviceId: identity.deviceId,
+    identityKey: identity.identityKeyPair.publicKey,
+    signedPreKeyId: 1,
+    signedPreKey: signedPreKey.publicKey,
+    signedPreKeySignature: signature,
+    preKeyId: 1,
+    preKey: preKey.publicKey,
+  };
+};
+
+// The jest setup's TextEncoder is Node's, and libsodium doesn't take its Uint8Arrays
+const utf8 = (value: string) => Uint8Array.from(sodium.from_string(value));
+const text = (value: Uint8Array) => sodium.to_string(value);
+
+describe('Signal Protocol', () => {
+  beforeAll(async () => {
+    await signalCryptoReady();
+  });
+
+  beforeEach(() => {
+    // A fresh database for each test, in place of the IndexedDB stub from the jest setup
+    Object.assign(globalThis, { indexedDB: new IDBFactory(), IDBKeyRange });
+  });
+
+  describe('SignalCrypto', () => {
+    test('agrees on the RFC 7748 X25519 shared secret', () => {
+      const alicePrivate = bytes('77076d0a7318a57d3c16c17251b26645df4c2f87ebc0992ab177fba51db92c2a');
+      const bobPrivate = bytes('5dab087e624a8a4b79e17f8b83800ee66f3bb1292618b6fd1c2f8b27ff88e0eb');
+      const alicePublic = serializePublicKey(bytes('8520f0098930a754748b7ddcb43ef75a0dbf3a0d26381af4eba4a98eaa9b4e6a'));
+      const bobPublic = serializePublicKey(bytes('de9edb7d7b7dc1b4d35b61c2ece435373f8343c85b78674dadfc7e146f882b4f'));
+      const sharedSecret = '4a5d9d5ba4ce2de1728e3bf480350f25e07e21c947d19e3376f09b3c1e161742';
+
+      expect(sodium.to_hex(calculateAgreement(bobPublic, alicePrivate))).toBe(sharedSecret);
+      expect(sodium.to_hex(calculateAgreement(alicePublic, bobPrivate))).toBe(sharedSecret);
+    });
+
+    test('derives the RFC 5869 HKDF-SHA256 output without a salt', async () => {
+      const output = await hkdf(new Uint8Array(22).fill(0x0b), null, '', 42);
+
+      expect(sodium.to_hex(output)).toBe(
+        '8da4e775a563c18f715f802a063c5a31b8a11f5c5ee1879ec3454e5f3c738d2d9d201395faa4b61a96c8'
+      );
+    });
+
+    test('verifies XEdDSA signatures made by libsignal', () => {
+      const publicKey = bytes(LIBSIGNAL_SIGNATURE.publicKey);
+      const signature = bytes(LIBSIGNAL_SIGNATURE.signature);
+
+      expect(verifySignature(publicKey, utf8(LIBSIGNAL_SIGNATURE.message), signature)).toBe(true);
+      expect(verifySignature(publicKey, utf8('signed by someone else'), signature)).toBe(false);
+    });
+
+    test('verifies its own signatures and rejects tampered ones', () => {
+      const { privateKey, publicKey } = generateKeyPair();
+      const message = utf8('signed by the browser');
+      const signature = calculateSignature(privateKey, message);
+      const tampered = signature.slice();
+      tampered[10] ^= 0x01;
+
+      expect(verifySignature(publicKey, message, signature)).toBe(true);
+      expect(verifySignature(publicKey, message, tampered)).toBe(false);
+      expect(verifySignature(generateKeyPair().publicKey, message, signature)).toBe(false);
+    });
+  });
+
+  describe('SignalMessages', () => {
+    test('parses the PreKeySignalMessages libsignal sends', () => {
+      const messages = FROM_LIBSIGNAL.messages.map((message) => parsePreKeySignalMessage(bytes(message)));
+
+      messages.forEach((message, index) => {
+        expect(message).toMatchObject({
+          registrationId: FROM_LIBSIGNAL.registrationId,
+          preKeyId: 7,
+          signedPreKeyId: 9,
+        });
+        expect(sodium.to_hex(message.baseKey)).toBe(FROM_LIBSIGNAL.baseKey);
+        expect(sodium.to_hex(message.identityKey)).toBe(FROM_LIBSIGNAL.identityKey);
+        expect(parseSignalMessage(message.message)).toMatchObject({ counter: index, previousCounter: 0 });
+      });
+    });
+
+    test('reads back the SignalMessages it writes', () => {
+      const message = {
+        ratchetKey: generateKeyPair().publicKey,
+        counter: 300,
+        previousCounter: 2,
+        ciphertext: sodium.randombytes_buf(48),
+      };
+      const mac = sodium.randombytes_buf(8);
+
+      const parsed = parseSignalMessage(new Uint8Array([...serializeSignalMessageBody(message), ...mac]));
+
+      expect(parsed.counter).toBe(300);
+      expect(parsed.previousCounter).toBe(2);
+      expect(sodium.to_hex(parsed.ratchetKey)).toBe(sodium.to_hex(message.ratchetKey));
+      expect(sodium.to_hex(parsed.ciphertext)).toBe(sodium.to_hex(message.ciphertext));
+      expect(sodium.to_hex(parsed.mac)).toBe(sodium.to_hex(mac));
+    });
+
+    test('rejects messages of other versions', () => {
+      const message = bytes(FROM_LIBSIGNAL.messages[0]);
+      message[0] = 0x22;
+
+      expect(() => parsePreKeySignalMessage(message)).toThrow('Unsupported Signal message version');
+    });
+  });
+
+  describe('SignalProtocolStore', () => {
+    test('trusts the first identity key of a device and no other', async () => {
+      const store = new SignalProtocolStore('bob');
+      const identityKey = generateKeyPair().publicKey;
+      const changedKey = generateKeyPair().publicKey;
+
+      await expect(store.isTrustedIdentity('alice.1', identityKey)).resolves.toBe(true);
+      await store.saveRemoteIdentity('alice.1', identityKey);
+
+      await expect(store.isTrustedIdentity('alice.1', identityKey)).resolves.toBe(true);
+      await expect(store.isTrustedIdentity('alice.1', changedKey)).resolves.toBe(false);
+      await expect(store.isTrustedIdentity('alice.2', changedKey)).resolves.toBe(true);
+    });
+
+    test('keeps the records of each user apart', async () => {
+      const bob = await createStore(createIdentity('bob', 1));
+      const carol = await createStore(createIdentity('carol', 2));
+      await bob.savePreKeys([{ keyId: 1, keyPair: generateKeyPair() }]);
+      await carol.savePreKeys([{ keyId: 1, keyPair: generateKeyPair() }]);
+
+      await bob.clear();
+
+      await expect(bob.getLocalIdentity()).resolves.toBeNull();
+      await expect(bob.getPreKey(1)).resolves.toBeNull();
+      await expect(carol.getLocalIdentity()).resolves.toMatchObject({ userId: 'carol' });
+      await expect(carol.getPreKey(1)).resolves.not.toBeNull();
+    });
+  });
+
+  describe('SessionCipher', () => {
+    test('decrypts a session libsignal started, in any order', async () => {
+      const { identity, store } = await createBob();
+      const cipher = new SessionCipher(store, identity, 'alice.1');
+
+      await expect(cipher.decryptPreKeySignalMessage(bytes(FROM_LIBSIGNAL.messages[1])).then(text))
+        .resolves.toBe('Are you there?');
+      await expect(cipher.decryptPreKeySignalMessage(bytes(FROM_LIBSIGNAL.messages[0])).then(text))
+        .resolves.toBe('Hello from the phone');
+
+      await expect(store.getPreKey(7)).resolves.toBeNull();
+      await expect(cipher.decryptPreKeySignalMessage(bytes(FROM_LIBSIGNAL.messages[0])))
+        .rejects.toThrow('Duplicate message');
+    });
+
+    test('replies the way libsignal expects', async () => {
+      const { identity, store } = await createBob();
+      const cipher = new SessionCipher(store, identity, 'alice.1');
+      mockGenerateKeyPair.mockReturnValueOnce(BOB.ratchetKey);
+
+      await cipher.decryptPreKeySignalMessage(bytes(FROM_LIBSIGNAL.messages[0]));
+      const reply = await cipher.encrypt(utf8('Hello from the browser'));
+
+      expect(reply.type).toBe(SignalMessageType.Whisper);
+      expect(sodium.to_hex(reply.body)).toBe(FROM_LIBSIGNAL.reply);
+    });
+
+    test('starts a session with a libsignal bundle', async () => {
+      const identity = createIdentity('alice', FROM_LIBSIGNAL.registrationId, TO_LIBSIGNAL.identity);
+      const store = await createStore(identity);
+      const cipher = new SessionCipher(store, identity, 'carol.1');
+      mockGenerateKeyPair
+        .mockReturnValueOnce(TO_LIBSIGNAL.baseKey)
+        .mockReturnValueOnce(TO_LIBSIGNAL.sendingRatchetKey);
+
+      await cipher.processPreKeyBundle({
+        ...CAROL_BUNDLE,
+        identityKey: bytes(CAROL_BUNDLE.identityKey),
+        signedPreKey: bytes(CAROL_BUNDLE.signedPreKey),
+        signedPreKeySignature: bytes(CAROL_BUNDLE.signedPreKeySignature),
+        preKey: bytes(CAROL_BUNDLE.preKey),
+      });
+      const message = await cipher.encrypt(utf8('Hello from the browser'));
+
+      expect(message.type).toBe(SignalMessageType.PreKey);
+      expect(sodium.to_hex(message.body)).toBe(TO_LIBSIGNAL.message);
+      await expect(cipher.decryptSignalMessage(bytes(TO_LIBSIGNAL.reply)).then(text))
+        .resolves.toBe('Hello from the phone');
+
+      // Carol has the session now, so the prekey exchange isn't repeated
+      await expect(cipher.encrypt(utf8('See you soon'))).resolves.toMatchObject({
+        type: SignalMessageType.Whisper,
+      });
+    });
+
+    test('keeps a conversation going between two browsers', async () => {
+      const aliceIdentity = createIdentity('alice', 1);
+      const bobIdentity = createIdentity('bob', 2);
+      const aliceStore = await createStore(aliceIdentity);
+      const bobStore = await createStore(bobIdentity);
+      const alice = new SessionCipher(aliceStore, aliceIdentity, 'bob.1');
+      const bob = new SessionCipher(bobStore, bobIdentity, 'alice.1');
+
+      await alice.processPreKeyBundle(await createBundle(bobIdentity, bobStore));
+      const first = await alice.encrypt(utf8('first'));
+      await expect(bob.decryptPreKeySignalMessage(first.body).then(text)).resolves.toBe('first');
+
+      const replies = [];
+      for (const reply of ['one', 'two', 'three']) {
+        replies.push(await bob.encrypt(utf8(reply)));
+      }
+      // Skipped messages can still be read when they turn up later
+      await expect(alice.decryptSignalMessage(replies[2].body).then(text)).resolves.toBe('three');
+      await expect(alice.decryptSignalMessage(replies[0].body).then(text)).resolves.toBe('one');
+      await expect(alice.decryptSignalMessage(replies[1].body).then(text)).resolves.toBe('two');
+
+      const next = await alice.encrypt(utf8('after the ratchet'));
+      expect(next.type).toBe(SignalMessageType.Whisper);
+      await expect(bob.decryptSignalMessage(next.body).then(text)).resolves.toBe('after the ratchet');
+
+      const tampered = next.body.slice();
+      tampered[tampered.length - 1] ^= 0x01;
+      await expect(bob.decryptSignalMessage(tampered)).rejects.toThrow();
+    });
+
+    test('holds messages from a changed identity key until it is accepted', async () => {
+      const { identity, store } = await createBob();
+      const cipher = new SessionCipher(store, identity, 'alice.1');
+      await cipher.decryptPreKeySignalMessage(bytes(FROM_LIBSIGNAL.messages[0]));
+
+      // Alice reinstalls, or someone else claims to be her
+      const newIdentity = createIdentity('alice', FROM_LIBSIGNAL.registrationId);
+      const newCipher = new SessionCipher(await createStore(newIdentity), newIdentity, 'bob.1');
+      await newCipher.processPreKeyBundle(BOB_BUNDLE);
+      const message = await newCipher.encrypt(utf8('It is me, on a new phone'));
+
+      const error = await cipher.decryptPreKeySignalMessage(message.body).catch((caught) => caught);
+      expect(error).toBeInstanceOf(UntrustedIdentityError);
+      expect(error.address).toBe('alice.1');
+      expect(sodium.to_hex(error.identityKey)).toBe(sodium.to_hex(newIdentity.identityKeyPair.publicKey));
+
+      await store.saveRemoteIdentity('alice.1', newIdentity.identityKeyPair.publicKey);
+      await expect(cipher.decryptPreKeySignalMessage(message.body).then(text))
+        .resolves.toBe('It is me, on a new phone');
+    });
+
+    test('refuses to start a session with a changed identity key', async () => {
+      const identity = createIdentity('alice', 1);
+      const store = await createStore(identity);
+      const cipher = new SessionCipher(store, identity, 'bob.1');
+      await cipher.processPreKeyBundle(BOB_BUNDLE);
+
+      const bobIdentity = createIdentity('bob', BOB.registrationId);
+      const changedBundle = await createBundle(bobIdentity, await createStore(bobIdentity));
+
+      await expect(cipher.processPreKeyBundle(changedBundle)).rejects.toBeInstanceOf(UntrustedIdentityError);
+      await store.saveRemoteIdentity('bob.1', bobIdentity.identityKeyPair.publicKey);
+      await expect(cipher.processPreKeyBundle(changedBundle)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Share link keys: the file key travels in the link's URL fragment, so these use the
+ * real libsodium rather than the stub from the jest setup.
+ */
+jest.mock('libsodium-wrappers-sumo', () => jest.requireActual('libsodium-wrappers-sumo'));
+
+import sodium from 'libsodium-wrappers-sumo';
+import { WebVaultCryptoService } from '@/services/encryption/VaultCryptoService';
+
+const SHARE_LINK = 'https://mydynastyapp.com/vault/share/abc123';
+
+describe('WebVaultCryptoService share keys', () => {
+  let cryptoService: WebVaultCryptoService;
+  let masterKey: Uint8Array;
+
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  beforeEach(() => {
+    cryptoService = WebVaultCryptoService.getInstance();
+    masterKey = sodium.crypto_kdf_keygen();
+  });
+
+  describe('deriveFileKey', () => {
+    test('derives the same key for the same file', () => {
+      const first = cryptoService.deriveFileKey(masterKey, 'file-1');
+      const second = cryptoService.deriveFileKey(masterKey, 'file-1');
+
+      expect(first).toHaveLength(sodium.crypto_secretstream_xchacha20poly1305_KEYBYTES);
+      expect(sodium.to_hex(first)).toBe(sodium.to_hex(second));
+    });
+
+    test('derives different keys for different files and master keys', () => {
+      const key = sodium.to_hex(cryptoService.deriveFileKey(masterKey, 'file-1'));
+
+      expect(sodium.to_hex(cryptoService.deriveFileKey(masterKey, 'file-2'))).not.toBe(key);
+      expect(sodium.to_hex(cryptoService.deriveFileKey(sodium.crypto_kdf_keygen(), 'file-1'))).not.toBe(key);
+    });
+  });
+
+  describe('addShareKeyToLink', () => {
+    test('puts the key in the fragment so it can be read back', async () => {
+      const fileKey = cryptoService.deriveFileKey(masterKey, 'file-1');
+
+      const link = await cryptoService.addShareKeyToLink(SHARE_LINK, fileKey);
+      const url = new URL(link);
+
+      expect(`${url.origin}${url.pathname}`).toBe(SHARE_LINK);
+      expect(url.search).toBe('');
+      const key = await cryptoService.getShareKeyFromFragment(url.hash);
+      expect(key && sodium.to_hex(key)).toBe(sodium.to_hex(fileKey));
+    });
+
+    test('replaces a fragment the link already has', async () => {
+      const fileKey = cryptoService.deriveFileKey(masterKey, 'file-1');
+
+      const link = await cryptoService.addShareKeyToLink(`${SHARE_LINK}#key=old`, fileKey);
+
+      expect(link.split('#')).toHaveLength(2);
+      expect(link.startsWith(`${SHARE_LINK}#key=`)).toBe(true);
+    });
+  });
+
+  describe('getShareKeyFromFragment', () => {
+    test('returns null without a key', async () => {
+      await expect(cryptoService.getShareKeyFromFragment('')).resolves.toBeNull();
+      await expect(cryptoService.getShareKeyFromFragment('#other=1')).resolves.toBeNull();
+    });
+
+    test('returns null for a key that is malformed or the wrong length', async () => {
+      const shortKey = sodium.to_base64(new Uint8Array(16), sodium.base64_variants.URLSAFE_NO_PADDING);
+
+      await expect(cryptoService.getShareKeyFromFragment('#key=not*base64')).resolves.toBeNull();
+      await expect(cryptoService.getShareKeyFromFragment(`#key=${shortKey}`)).resolves.toBeNull();
+    });
+  });
+});
@@ -24,6 +24,7 @@ import { doc, deleteDoc } from "firebase/firestore"
 import { db } from "@/lib/firebase"
 import { deleteUser } from "firebase/auth"
 import { ChangePasswordDialog } from "@/components/ChangePasswordDialog"
+import { CalendarFeedSettings } from "@/components/CalendarFeedSettings"
 import { SettingsManager, type PrivacySettings } from "@/utils/settingsManager"
 
 export default function PrivacySecurityPage() {
@@ -225,6 +226,9 @@ export default function PrivacySecurityPage() {
           </div>
         </div>
 
+        {/* Calendar subscription section */}
+        <CalendarFeedSettings />
+
         {/* Security section */}
         <div className="space-y-4">
           <h2 className="text-lg font-medium border-b pb-2">Security</h2>
@@ -0,0 +1,115 @@
+"use client";
+
+import { use, useEffect, useRef } from "react";
+import Link from "next/link";
+import { ChevronLeft, Lock, ShieldAlert, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import MessageBubble from "@/components/chat/MessageBubble";
+import MessageComposer from "@/components/chat/MessageComposer";
+import { useAuth } from "@/context/AuthContext";
+import { useChatThread } from "@/hooks/useChat";
+import { getDisappearingTimerLabel } from "@/services/ChatService";
+
+export default function ChatThreadPage({ params }: { params: Promise<{ chatId: string }> }) {
+  const { chatId } = use(params);
+  const { currentUser } = useAuth();
+  const {
+    chat,
+    messages,
+    typingUserIds,
+    identityChanges,
+    loading,
+    error,
+    sendText,
+    sendAttachment,
+    notifyTyping,
+    acceptIdentityChange,
+  } = useChatThread(chatId, currentUser?.uid);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length, typingUserIds.length]);
+
+  const recipientCount = chat ? chat.participants.length - 1 : 0;
+  const typingNames = typingUserIds.map((userId) => chat?.participantNames[userId] || "Someone");
+
+  return (
+    <div className="container mx-auto px-0 md:px-6 max-w-3xl flex flex-col h-[calc(100vh-4rem)]">
+      <div className="flex items-center gap-2 py-4 px-4 border-b">
+        <Link href="/chat">
+          <Button variant="ghost" size="icon">
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+        </Link>
+        <div className="min-w-0">
+          <h1 className="text-lg font-semibold truncate">{chat?.name || "Chat"}</h1>
+          <p className="flex items-center gap-1 text-xs text-gray-500">
+            <Lock className="h-3 w-3" />
+            End-to-end encrypted
+            {chat?.disappearingMessagesSeconds && (
+              <>
+                <Timer className="h-3 w-3 ml-2" />
+                Disappearing messages: {getDisappearingTimerLabel(chat.disappearingMessagesSeconds)}
+              </>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {identityChanges.map((memberId) => (
+        <div
+          key={memberId}
+          className="flex items-center justify-between gap-3 border-b bg-amber-50 px-4 py-2 text-sm text-amber-900"
+        >
+          <span className="flex items-center gap-2">
+            <ShieldAlert className="h-4 w-4 shrink-0" />
+            {chat?.participantNames[memberId] || "A family member"}&apos;s safety number changed. Messages
+            to and from their new device are held until you accept it.
+          </span>
+          <Button size="sm" variant="outline" onClick={() => acceptIdentityChange(memberId)}>
+            Accept
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex-1 overflow-y-auto flex flex-col gap-3 p-4">
+        {error ? (
+          <p className="text-center text-red-600 py-12">{error}</p>
+        ) : loading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin h-6 w-6 border-t-2 border-[#0A5C36] border-r-2 rounded-full"></div>
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No messages yet</p>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.senderId === currentUser?.uid;
+            return (
+              <MessageBubble
+                key={message.id}
+                message={message}
+                isOwn={isOwn}
+                senderName={chat?.type === "group" && !isOwn ? chat.participantNames[message.senderId] : undefined}
+                recipientCount={recipientCount}
+              />
+            );
+          })
+        )}
+        {typingNames.length > 0 && (
+          <p className="text-sm text-gray-500 italic">
+            {typingNames.join(", ")} {typingNames.length === 1 ? "is" : "are"} typing…
+          </p>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <MessageComposer
+        disabled={loading || !!error}
+        onSendText={sendText}
+        onSendAttachment={sendAttachment}
+        onTyping={notifyTyping}
+      />
+    </div>
+  );
+}
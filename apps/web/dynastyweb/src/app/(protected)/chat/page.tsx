@@ -0,0 +1,50 @@
+"use client";
+
+import Link from "next/link";
+import { ChevronLeft, Lock, MessageCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import ConversationList from "@/components/chat/ConversationList";
+import { useAuth } from "@/context/AuthContext";
+import { useChats } from "@/hooks/useChat";
+
+export default function ChatPage() {
+  const { currentUser } = useAuth();
+  const { chats, loading, error } = useChats(currentUser?.uid);
+
+  return (
+    <div className="container mx-auto py-8 px-4 md:px-6 max-w-3xl">
+      <div className="flex items-center mb-2 mt-6">
+        <span className="text-2xl font-bold">
+          <Link href="/feed" className="mr-4">
+            <Button variant="ghost" size="icon">
+              <ChevronLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          Messages
+        </span>
+      </div>
+      <p className="flex items-center gap-1 text-sm text-gray-500 mb-6">
+        <Lock className="h-3.5 w-3.5" />
+        Messages are end-to-end encrypted and shared with your phone
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin h-6 w-6 border-t-2 border-[#0A5C36] border-r-2 rounded-full"></div>
+        </div>
+      ) : error ? (
+        <p className="text-center text-red-600 py-12">{error}</p>
+      ) : chats.length === 0 ? (
+        <div className="text-center py-12">
+          <MessageCircle className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+          <h3 className="text-lg font-medium">No conversations</h3>
+          <p className="text-gray-500">
+            Start a conversation with your family from the Dynasty app
+          </p>
+        </div>
+      ) : (
+        <ConversationList chats={chats} />
+      )}
+    </div>
+  );
+}
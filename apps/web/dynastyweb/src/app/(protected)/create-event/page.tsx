@@ -24,7 +24,8 @@ import { useAuth } from "@/context/AuthContext"
 import { useToast } from "@/components/ui/use-toast"
 import { uploadEventCoverPhoto } from "@/utils/mediaUtils"
 import { getFamilyManagementData } from "@/utils/functionUtils"
-import { createEvent } from "@/utils/eventUtils"
+import { createEvent, buildRecurrenceRule, RecurrenceOptions } from "@/utils/eventUtils"
+import { RecurrencePicker } from "@/components/RecurrencePicker"
 
 export default function CreateEventPage() {
   const router = useRouter()
@@ -59,6 +60,7 @@ export default function CreateEventPage() {
   const [isMultiDay, setIsMultiDay] = useState(false)
   const [startTime, setStartTime] = useState("12:00")
   const [endTime, setEndTime] = useState("14:00")
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions | null>(null)
   const [timezone, setTimezone] = useState(
     Intl.DateTimeFormat().resolvedOptions().timeZone || "America/New_York"
   )
@@ -419,6 +421,7 @@ export default function CreateEventPage() {
         rsvpDeadline: formattedRsvpDeadline,
         invitedMemberIds: inviteType === "all" ? familyMembers.map(member => member.id) : selectedMembers,
         coverPhotoStoragePaths: coverPhotoStoragePaths, // Support up to 5 photos/videos
+        recurrence: recurrence ? { rrule: buildRecurrenceRule(recurrence) } : undefined,
       }
 
       console.log("Submitting event data to Firebase...");
@@ -487,6 +490,12 @@ export default function CreateEventPage() {
               </div>
 
               {memoizedDateRangePicker}
+
+              <RecurrencePicker
+                value={recurrence}
+                onChange={setRecurrence}
+                minEndDate={`${eventDate.year}-${String(eventDate.month).padStart(2, '0')}-${String(eventDate.day).padStart(2, '0')}`}
+              />
             </div>
 
             {/* Timezone Selection - Now handled by DateRangePicker */}
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect, useRef } from "react"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -9,6 +9,7 @@ import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
 import { Separator } from "@/components/ui/separator"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { 
   X, 
   Plus, 
@@ -29,9 +30,19 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { DateSelector } from "@/components/date-selector"
 import { DateRangePicker } from "@/components/date-range-picker"
 import { LocationSearch } from "@/components/location-search"
-import { getEventDetails, updateEvent, EventData } from "@/utils/eventUtils"
+import { RecurrencePicker } from "@/components/RecurrencePicker"
+import {
+  getEventDetails,
+  updateEvent,
+  buildRecurrenceRule,
+  parseRecurrenceRule,
+  EventData,
+  EventRecurrence,
+  RecurrenceEditScope,
+  RecurrenceOptions,
+} from "@/utils/eventUtils"
 import { useAuth } from "@/context/AuthContext"
-import { parseISO } from "date-fns"
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns"
 import React from "react"
 import { useToast } from "@/components/ui/use-toast"
 import { uploadMedia, ensureAccessibleStorageUrl } from "@/utils/mediaUtils"
@@ -40,6 +51,8 @@ import Image from "next/image"
 export default function EditEventPage({ params }: { params: Promise<{ id: string }> }) {
   const unwrappedParams = React.use(params) as { id: string }
   const eventId = unwrappedParams.id
+  // Set when editing from a specific occurrence of a recurring event
+  const occurrenceDate = useSearchParams().get("occurrence") || undefined
   
   const router = useRouter()
   const { currentUser } = useAuth()
@@ -71,6 +84,14 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
   const [isVirtual, setIsVirtual] = useState(false)
   const [virtualLink, setVirtualLink] = useState("")
 
+  // Recurrence
+  const [seriesRecurrence, setSeriesRecurrence] = useState<EventRecurrence | null>(null)
+  const [recurrence, setRecurrence] = useState<RecurrenceOptions | null>(null)
+  const [recurrenceChanged, setRecurrenceChanged] = useState(false)
+  // Days between the series start and the occurrence being edited
+  const [seriesOffsetDays, setSeriesOffsetDays] = useState(0)
+  const [editScope, setEditScope] = useState<RecurrenceEditScope>(occurrenceDate ? "this" : "all")
+
   // Additional details
   const [showDressCode, setShowDressCode] = useState(false)
   const [showWhatToBring, setShowWhatToBring] = useState(false)
@@ -109,7 +130,7 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
         setLoading(true)
         setError(null)
 
-        const { event } = await getEventDetails(eventId)
+        const { event } = await getEventDetails(eventId, occurrenceDate)
 
         // Verify user is the event creator
         if (event.hostId !== currentUser?.uid) {
@@ -154,6 +175,16 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
           }
         }
 
+        // Set recurrence
+        if (event.recurrence) {
+          setSeriesRecurrence(event.recurrence)
+          setRecurrence(parseRecurrenceRule(event.recurrence.rrule))
+          if (occurrenceDate) {
+            const { event: series } = await getEventDetails(eventId)
+            setSeriesOffsetDays(differenceInCalendarDays(parseISO(series.eventDate), parseISO(event.eventDate)))
+          }
+        }
+
         // Set location
         if (event.isVirtual) {
           setIsVirtual(true)
@@ -209,7 +240,7 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
     }
 
     loadEventData()
-  }, [eventId, currentUser?.uid, router, isMultiDay])
+  }, [eventId, occurrenceDate, currentUser?.uid, router, isMultiDay])
 
   // Handle location selection
   const handleLocationSelect = (location: { address: string; lat: number; lng: number }) => {
@@ -267,6 +298,11 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
     }
   }
 
+  const handleRecurrenceChange = (value: RecurrenceOptions | null) => {
+    setRecurrence(value)
+    setRecurrenceChanged(true)
+  }
+
   // Handle timezone change specifically
   const handleTimezoneChange = (newTimezone: string) => {
     setTimezone(newTimezone)
@@ -380,16 +416,61 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
         coverPhotoUrls: allPhotos,
       }
 
+      // Editing all events from an occurrence moves the series by the same number of days
+      if (seriesOffsetDays !== 0 && editScope === "all") {
+        const shiftDate = (date: string) => format(addDays(parseISO(date), seriesOffsetDays), "yyyy-MM-dd")
+        eventData.eventDate = shiftDate(formattedStartDate)
+        eventData.endDate = formattedEndDate ? shiftDate(formattedEndDate) : undefined
+        if (eventData.daySpecificTimes) {
+          eventData.daySpecificTimes = Object.fromEntries(
+            Object.entries(eventData.daySpecificTimes).map(([date, times]) => [shiftDate(date), times])
+          )
+        }
+      }
+
+      // Repeat settings apply to the series, and only change when edited
+      if (recurrenceChanged && editScope !== "this") {
+        if (recurrence) {
+          eventData.recurrence = { rrule: buildRecurrenceRule(recurrence), exdates: seriesRecurrence?.exdates }
+        } else {
+          eventData.isRecurring = false
+        }
+      }
+
+      // A single occurrence only keeps its own date, time, location and details
+      const isSingleOccurrence = !!seriesRecurrence && editScope === "this"
+      const updateData: Partial<EventData> = isSingleOccurrence
+        ? {
+            title,
+            eventDate: formattedStartDate,
+            endDate: formattedEndDate || undefined,
+            startTime,
+            endTime,
+            location: isVirtual ? null : selectedLocation,
+            virtualLink: isVirtual ? virtualLink : null,
+            isVirtual,
+            description,
+          }
+        : eventData
+
       // Update the event
-      await updateEvent(eventId, eventData);
+      const result = await updateEvent(
+        eventId,
+        updateData,
+        seriesRecurrence ? { editScope, occurrenceDate } : undefined
+      );
       
       toast({
         title: "Success",
         description: "Event updated successfully!"
       })
       
-      // Force a complete page reload to ensure we get the latest data
-      window.location.href = `/events/${eventId}`
+      // Force a complete page reload to ensure we get the latest data.
+      // Editing this and following occurrences continues the series as a new event.
+      const updatedEventId = result.eventId || eventId
+      window.location.href = isSingleOccurrence
+        ? `/events/${updatedEventId}?occurrence=${occurrenceDate}`
+        : `/events/${updatedEventId}`
     } catch (error) {
       console.error("Error updating event:", error)
       toast({
@@ -450,6 +531,34 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
         <h1 className="text-2xl font-bold text-gray-900 mb-6 pb-4 border-b">Edit Event</h1>
 
         <form onSubmit={handleSubmit} className="space-y-8">
+          {/* Recurring event edit scope */}
+          {seriesRecurrence && (
+            <div className="space-y-3 p-4 bg-green-50 rounded-lg">
+              <Label className="text-sm font-medium text-gray-700">
+                This is a recurring event. Apply changes to:
+              </Label>
+              <RadioGroup value={editScope} onValueChange={(value) => setEditScope(value as RecurrenceEditScope)}>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="this" id="scope-this" disabled={!occurrenceDate} />
+                  <Label htmlFor="scope-this">This event</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="following" id="scope-following" disabled={!occurrenceDate} />
+                  <Label htmlFor="scope-following">This and following events</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="all" id="scope-all" />
+                  <Label htmlFor="scope-all">All events</Label>
+                </div>
+              </RadioGroup>
+              {editScope === "this" && (
+                <p className="text-xs text-gray-500">
+                  Photos, privacy and RSVP settings can only be changed for the whole series.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Event Basics Section */}
           <div className="space-y-4">
             <h2 className="text-xl font-semibold text-gray-800 flex items-center">
@@ -496,6 +605,14 @@ export default function EditEventPage({ params }: { params: Promise<{ id: string
                 onDaySpecificTimesChange={setDaySpecificTimes}
                 initialDaySpecificTimes={daySpecificTimes}
               />
+
+              {editScope !== "this" && (
+                <RecurrencePicker
+                  value={recurrence}
+                  onChange={handleRecurrenceChange}
+                  minEndDate={`${eventDate.year}-${String(eventDate.month).padStart(2, '0')}-${String(eventDate.day).padStart(2, '0')}`}
+                />
+              )}
             </div>
 
             {/* Location */}
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect, use } from "react"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -21,10 +21,11 @@ import {
   // Video,
   Loader2,
   CalendarPlus,
-  Shirt
+  Shirt,
+  Repeat
 } from "lucide-react"
 import { format, isPast, parseISO } from "date-fns"
-import { getEventDetails, updateEventRsvp, EventData, downloadEventCalendar } from "@/utils/eventUtils"
+import { getEventDetails, updateEventRsvp, EventData, downloadEventCalendar, describeRecurrence } from "@/utils/eventUtils"
 import { ensureAccessibleStorageUrl } from "@/utils/mediaUtils"
 import { useAuth } from "@/context/AuthContext"
 import DynastyCarousel from "@/components/DynastyCarousel"
@@ -42,6 +43,9 @@ export default function EventDetailsPage({ params }: { params: Promise<{ id: str
   
   // Unwrap params Promise to access id
   const { id } = use(params)
+  // Set when viewing a specific occurrence of a recurring event
+  const occurrenceDate = useSearchParams().get("occurrence") || undefined
+  const editPath = occurrenceDate ? `/events/${id}/edit?occurrence=${occurrenceDate}` : `/events/${id}/edit`
 
   // Format time for display
   const formatTime = (timeString?: string) => {
@@ -85,7 +89,7 @@ export default function EventDetailsPage({ params }: { params: Promise<{ id: str
           return
         }
 
-        const { event: eventData } = await getEventDetails(id)
+        const { event: eventData } = await getEventDetails(id, occurrenceDate)
         
         setEvent(eventData)
         setUserStatus(eventData.userStatus || "invited")
@@ -98,7 +102,7 @@ export default function EventDetailsPage({ params }: { params: Promise<{ id: str
     }
 
     fetchEventDetails()
-  }, [id, currentUser, refreshKey])
+  }, [id, occurrenceDate, currentUser, refreshKey])
 
   // Add effect to refresh data when component is focused 
   useEffect(() => {
@@ -121,7 +125,7 @@ export default function EventDetailsPage({ params }: { params: Promise<{ id: str
       setSubmittingRsvp(true)
       
       // Call the Firebase function to update the RSVP status
-      await updateEventRsvp(event.id, status)
+      await updateEventRsvp(event.id, status, occurrenceDate)
       
       // Update the local state
       setUserStatus(status === 'yes' ? 'going' : status)
@@ -276,6 +280,13 @@ export default function EventDetailsPage({ params }: { params: Promise<{ id: str
                     )}
                   </>
                 )}
+
+                {event.recurrence && (
+                  <div className="flex items-start mb-1">
+                    <Repeat className="h-4 w-4 text-gray-500 mr-2 mt-0.5 flex-shrink-0" />
+                    <span className="text-gray-700">{describeRecurrence(event.recurrence)}</span>
+                  </div>
+                )}
                 
                 {/* Location display */}
                 {event.isVirtual ? (
@@ -360,7 +371,7 @@ export default function EventDetailsPage({ params }: { params: Promise<{ id: str
                     <Button
                       variant="outline"
                       className="text-[#0A5C36] border-[#0A5C36] hover:bg-green-50 flex-1 sm:flex-none"
-                      onClick={() => router.push(`/events/${event.id}/edit`)}
+                      onClick={() => router.push(editPath)}
                     >
                       <Edit className="mr-2 h-4 w-4" />
                       Edit Event
@@ -502,7 +513,7 @@ export default function EventDetailsPage({ params }: { params: Promise<{ id: str
                   {(event.attendees || []).filter(a => a.status === "going" || a.status === "yes").length} people going
                 </h2>
                 {isCreator && (
-                  <Button variant="outline" className="text-[#0A5C36] border-[#0A5C36] hover:bg-green-50 w-full sm:w-auto" onClick={() => router.push(`/events/${event.id}/edit`)}>
+                  <Button variant="outline" className="text-[#0A5C36] border-[#0A5C36] hover:bg-green-50 w-full sm:w-auto" onClick={() => router.push(editPath)}>
                     <Users className="mr-2 h-4 w-4" />
                     Invite More
                   </Button>
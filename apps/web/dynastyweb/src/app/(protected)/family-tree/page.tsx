@@ -8,7 +8,18 @@ import { useSearchParams } from 'next/navigation';
 import calcTree from "relatives-tree";
 import type { Node, ExtNode, Connector } from 'relatives-tree/lib/types';
 import { getFamilyTreeData, createFamilyMember, deleteFamilyMember, updateFamilyMember } from "@/utils/functionUtils";
+import type { ParentLinkType, SpouseStatus } from "@/utils/functionUtils";
+import {
+  getConnectorRelation,
+  describeSpouseRelationship,
+  PARENT_LINK_LABELS,
+  SPOUSE_STATUS_LABELS,
+  type FamilyTreeLinkedNode,
+} from "@/utils/familyTreeUtils";
 import FamilyNode from '@/components/FamilyNode';
+import { GedcomImportDialog } from '@/components/GedcomImportDialog';
+import { GedcomExportDialog } from '@/components/GedcomExportDialog';
+import { MergeDuplicatesDialog } from '@/components/MergeDuplicatesDialog';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import { Spinner } from '@/components/ui/spinner';
 import { Button } from '@/components/ui/button';
@@ -28,7 +39,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Minus, Plus, Settings, MoreVertical } from 'lucide-react';
+import { Minus, Plus, Settings, MoreVertical, Upload, Download, GitMerge } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -69,6 +80,10 @@ interface AddMemberFormData {
   connectToChildren?: boolean;
   connectToSpouse?: boolean;
   connectToExistingParent?: boolean;
+  parentLinkType?: ParentLinkType;
+  spouseStatus?: SpouseStatus;
+  relationshipStartDate?: string; // YYYY-MM-DD
+  relationshipEndDate?: string; // YYYY-MM-DD
 }
 
 // Custom node type that extends the base Node type
@@ -102,6 +117,9 @@ export default function FamilyTreePage() {
   const [isViewSheetOpen, setIsViewSheetOpen] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
   const [isFamilyManagementOpen, setIsFamilyManagementOpen] = useState(false);
+  const [isGedcomImportOpen, setIsGedcomImportOpen] = useState(false);
+  const [isGedcomExportOpen, setIsGedcomExportOpen] = useState(false);
+  const [isMergeDuplicatesOpen, setIsMergeDuplicatesOpen] = useState(false);
   const [familyTreeData, setFamilyTreeData] = useState<{
     id: string;
     ownerUserID: string;
@@ -131,6 +149,10 @@ export default function FamilyTreePage() {
     connectToChildren: true,
     connectToSpouse: true,
     connectToExistingParent: true,
+    parentLinkType: 'biological',
+    spouseStatus: 'married',
+    relationshipStartDate: '',
+    relationshipEndDate: '',
   });
   const [viewFormData, setViewFormData] = useState<AddMemberFormData>({
     firstName: '',
@@ -201,6 +223,14 @@ export default function FamilyTreePage() {
     [treeData, rootNode]
   );
 
+  // Lets connectors be matched to the spouses and children they join
+  const nodesByPosition = useMemo(
+    () => new Map(
+      treeLayout.nodes.map((node) => [`${node.left},${node.top}`, node as FamilyTreeLinkedNode])
+    ),
+    [treeLayout.nodes]
+  );
+
   // Track window dimensions for viewport calculations
   const [windowDimensions, setWindowDimensions] = useState(() => {
     if (typeof window !== 'undefined') {
@@ -732,6 +762,14 @@ export default function FamilyTreePage() {
           connectToChildren: formData.connectToChildren,
           connectToSpouse: formData.connectToSpouse,
           connectToExistingParent: formData.connectToExistingParent,
+          parentLinkType: relationType === 'spouse' ? undefined : formData.parentLinkType,
+          spouseRelationship: relationType === 'spouse'
+            ? {
+                status: formData.spouseStatus || 'married',
+                startDate: formData.relationshipStartDate || null,
+                endDate: formData.relationshipEndDate || null,
+              }
+            : undefined,
         }
       );
 
@@ -754,6 +792,10 @@ export default function FamilyTreePage() {
         connectToChildren: true,
         connectToSpouse: true,
         connectToExistingParent: true,
+        parentLinkType: 'biological',
+        spouseStatus: 'married',
+        relationshipStartDate: '',
+        relationshipEndDate: '',
       });
       setSelectedNode(null);
       setRelationType(null);
@@ -1220,6 +1262,9 @@ export default function FamilyTreePage() {
     );
   }
 
+  const canManageTree = firestoreUser?.isAdmin ||
+    (familyTreeData && (currentUser.uid === familyTreeData.ownerUserID || familyTreeData.adminUserIDs.includes(currentUser.uid)));
+
   return (
     <ProtectedRoute>
       <main className="family-tree-container w-screen min-h-screen pt-20 flex items-center justify-center overflow-hidden relative">
@@ -1236,9 +1281,9 @@ export default function FamilyTreePage() {
           />
         )}
         
-        {/* Admin Settings Button - only visible to admins */}
-        {(firestoreUser?.isAdmin || (familyTreeData && (currentUser.uid === familyTreeData.ownerUserID || familyTreeData.adminUserIDs.includes(currentUser.uid)))) && (
-          <div className="fixed top-20 left-4 z-10 py-4">
+        <div className="fixed top-20 left-4 z-10 py-4 flex flex-col items-start gap-2">
+          {/* Admin Settings Buttons - only visible to admins */}
+          {canManageTree && (
             <Button 
               variant="outline" 
               onClick={() => setIsFamilyManagementOpen(true)}
@@ -1247,7 +1292,59 @@ export default function FamilyTreePage() {
               <Settings className="h-4 w-4" />
               <span className="hidden sm:inline">Family Management</span>
             </Button>
-          </div>
+          )}
+          {canManageTree && firestoreUser?.familyTreeId && (
+            <Button
+              variant="outline"
+              onClick={() => setIsGedcomImportOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              <span className="hidden sm:inline">Import GEDCOM</span>
+            </Button>
+          )}
+          {canManageTree && firestoreUser?.familyTreeId && (
+            <Button
+              variant="outline"
+              onClick={() => setIsMergeDuplicatesOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <GitMerge className="h-4 w-4" />
+              <span className="hidden sm:inline">Merge Duplicates</span>
+            </Button>
+          )}
+          {firestoreUser?.familyTreeId && (
+            <Button
+              variant="outline"
+              onClick={() => setIsGedcomExportOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <Download className="h-4 w-4" />
+              <span className="hidden sm:inline">Export GEDCOM</span>
+            </Button>
+          )}
+        </div>
+
+        {firestoreUser?.familyTreeId && (
+          <>
+            <GedcomImportDialog
+              open={isGedcomImportOpen}
+              onOpenChange={setIsGedcomImportOpen}
+              familyTreeId={firestoreUser.familyTreeId}
+              onImported={() => void fetchFamilyTreeData()}
+            />
+            <GedcomExportDialog
+              open={isGedcomExportOpen}
+              onOpenChange={setIsGedcomExportOpen}
+              familyTreeId={firestoreUser.familyTreeId}
+            />
+            <MergeDuplicatesDialog
+              open={isMergeDuplicatesOpen}
+              onOpenChange={setIsMergeDuplicatesOpen}
+              familyTreeId={firestoreUser.familyTreeId}
+              onMerged={() => void fetchFamilyTreeData()}
+            />
+          </>
         )}
         
         {/* Zoom Controls */}
@@ -1463,6 +1560,79 @@ export default function FamilyTreePage() {
                   tabIndex={8}
                 />
               </div>
+              {relationType && relationType !== 'spouse' && (
+                <div className="grid grid-cols-1 sm:grid-cols-4 items-start sm:items-center gap-2 sm:gap-4">
+                  <Label className="sm:text-right flex items-center sm:justify-end text-gray-600 text-sm">
+                    Relationship
+                  </Label>
+                  <Select
+                    value={formData.parentLinkType}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, parentLinkType: value as ParentLinkType }))}
+                  >
+                    <SelectTrigger className="col-span-1 sm:col-span-3 border-[#0A5C36]/20 focus:ring-[#0A5C36]/20">
+                      <SelectValue placeholder="Select relationship" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(PARENT_LINK_LABELS) as ParentLinkType[]).map((linkType) => (
+                        <SelectItem key={linkType} value={linkType}>
+                          {PARENT_LINK_LABELS[linkType]} {relationType}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {relationType === 'spouse' && (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-4 items-start sm:items-center gap-2 sm:gap-4">
+                    <Label className="sm:text-right flex items-center sm:justify-end text-gray-600 text-sm">
+                      Status
+                    </Label>
+                    <Select
+                      value={formData.spouseStatus}
+                      onValueChange={(value) => setFormData(prev => ({ ...prev, spouseStatus: value as SpouseStatus }))}
+                    >
+                      <SelectTrigger className="col-span-1 sm:col-span-3 border-[#0A5C36]/20 focus:ring-[#0A5C36]/20">
+                        <SelectValue placeholder="Select status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SPOUSE_STATUS_LABELS) as SpouseStatus[]).map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {SPOUSE_STATUS_LABELS[status]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-4 items-start sm:items-center gap-2 sm:gap-4">
+                    <Label htmlFor="relationshipStartDate" className="sm:text-right flex items-center sm:justify-end text-gray-600 text-sm">
+                      {formData.spouseStatus === 'partner' ? 'Together since' : 'Married on'}
+                    </Label>
+                    <Input
+                      id="relationshipStartDate"
+                      type="date"
+                      className="col-span-1 sm:col-span-3 border-[#0A5C36]/20 focus:ring-[#0A5C36]/20 focus:border-[#0A5C36]"
+                      value={formData.relationshipStartDate}
+                      onChange={(e) => setFormData(prev => ({ ...prev, relationshipStartDate: e.target.value }))}
+                    />
+                  </div>
+                  {formData.spouseStatus !== 'married' && (
+                    <div className="grid grid-cols-1 sm:grid-cols-4 items-start sm:items-center gap-2 sm:gap-4">
+                      <Label htmlFor="relationshipEndDate" className="sm:text-right flex items-center sm:justify-end text-gray-600 text-sm">
+                        Ended on
+                      </Label>
+                      <Input
+                        id="relationshipEndDate"
+                        type="date"
+                        min={formData.relationshipStartDate || undefined}
+                        className="col-span-1 sm:col-span-3 border-[#0A5C36]/20 focus:ring-[#0A5C36]/20 focus:border-[#0A5C36]"
+                        value={formData.relationshipEndDate}
+                        onChange={(e) => setFormData(prev => ({ ...prev, relationshipEndDate: e.target.value }))}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
               {relationType === 'spouse' && (selectedNode?.children?.length ?? 0) > 0 && (
                 <div className="grid grid-cols-1 sm:grid-cols-4 items-start sm:items-center gap-2 sm:gap-4 mt-2">
                   <Label htmlFor="connectToChildren" className="sm:text-right flex items-center sm:justify-end text-gray-600 text-sm">
@@ -1987,14 +2157,43 @@ export default function FamilyTreePage() {
                     const endX = x2 * WIDTH - (WIDTH / 2);
                     const endY = y2 * HEIGHT - (HEIGHT / 2.5);
 
+                    // Ended marriages and partnerships are dashed and labelled; children
+                    // without a biological parent link get a dotted drop line
+                    const relation = getConnectorRelation(connector, nodesByPosition);
+                    const spouseStatus = relation?.kind === 'spouse' ? relation.relationship.status || 'married' : null;
+                    const isNonBiologicalChild = relation?.kind === 'child' &&
+                      relation.linkTypes.length > 0 &&
+                      !relation.linkTypes.includes('biological');
+                    let strokeDasharray: string | undefined;
+                    if (spouseStatus === 'divorced' || spouseStatus === 'widowed') {
+                      strokeDasharray = '6 4';
+                    } else if (spouseStatus === 'partner' || isNonBiologicalChild) {
+                      strokeDasharray = '2 3';
+                    }
+                    const showLabel = relation?.kind === 'spouse' &&
+                      (spouseStatus !== 'married' || !!relation.relationship.startDate);
+
                     return (
-                      <path
-                        key={`connector-${index}`}
-                        d={`M ${startX} ${startY} L ${endX} ${endY}`}
-                        stroke="#94a3b8"
-                        strokeWidth="1"
-                        fill="none"
-                      />
+                      <g key={`connector-${index}`}>
+                        <path
+                          d={`M ${startX} ${startY} L ${endX} ${endY}`}
+                          stroke="#94a3b8"
+                          strokeWidth="1"
+                          strokeDasharray={strokeDasharray}
+                          fill="none"
+                        />
+                        {showLabel && relation?.kind === 'spouse' && (
+                          <text
+                            x={(startX + endX) / 2}
+                            y={startY - 6}
+                            textAnchor="middle"
+                            fontSize="10"
+                            fill="#64748b"
+                          >
+                            {describeSpouseRelationship(relation.relationship)}
+                          </text>
+                        )}
+                      </g>
                     );
                   })}
                 </svg>
@@ -2029,7 +2228,7 @@ export default function FamilyTreePage() {
                   }}
                 >
                   <FamilyNode
-                    node={node}
+                    node={node as FamilyTreeLinkedNode}
                     isSelected={selectedNode?.id === node.id}
                     style={{
                       width: WIDTH - 20,
@@ -10,6 +10,7 @@ import { StoryCard } from "@/components/Story"
 import { Spinner } from "@/components/ui/spinner"
 import { EventData } from "@/utils/eventUtils"
 import { EventFeedCard } from "@/components/EventFeedCard"
+import { FamilyOccasionsCard } from "@/components/FamilyOccasionsCard"
 import { useFeedData } from "@/hooks/useFeedData"
 import { useInView } from 'react-intersection-observer'
 
@@ -118,6 +119,8 @@ export default function FeedPage() {
           </div>
         </div>
 
+        <FamilyOccasionsCard />
+
         {feedItems.length > 0 ? (
           <div className="space-y-6">
             {feedItems.map((item) => (
@@ -130,7 +133,8 @@ export default function FeedPage() {
                 )}
                 {item.type === 'event' && (
                   <EventFeedCard 
-                    id={item.id}
+                    id={(item.data as EventData).id}
+                    occurrenceDate={(item.data as EventData).occurrenceDate}
                     title={(item.data as EventData).title}
                     date={(item.data as EventData).eventDate}
                     endDate={(item.data as EventData).endDate}
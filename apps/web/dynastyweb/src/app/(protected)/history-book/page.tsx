@@ -3,12 +3,13 @@
 import { useState, useEffect } from "react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
-import { PenSquare, Book } from "lucide-react"
+import { PenSquare, Book, Printer } from "lucide-react"
 import { useAuth } from "@/context/AuthContext"
 import { type Story } from "@/utils/storyUtils"
 import { StoryCard } from "@/components/Story"
 import { getUserStories } from "@/utils/functionUtils"
 import { Spinner } from "@/components/ui/spinner"
+import { HistoryBookDialog } from "@/components/HistoryBookDialog"
 
 // Define the enriched story type that includes author and tagged people
 type EnrichedStory = Story & {
@@ -28,6 +29,7 @@ export default function HistoryBookPage() {
   const [stories, setStories] = useState<EnrichedStory[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [isBookDialogOpen, setIsBookDialogOpen] = useState(false)
 
   useEffect(() => {
     let mounted = true;
@@ -146,14 +148,28 @@ export default function HistoryBookPage() {
       <main className="container py-6 pb-6 flex-grow">
         <div className="flex justify-between my-6 items-center mb-6">
           <h1 className="text-2xl font-bold text-[#000000]">My History Book</h1>
-          <Link href="/create-story">
-            <Button className="bg-[#0A5C36] hover:bg-[#0A5C36]/90 text-white">
-              <PenSquare className="mr-2 h-4 w-4" />
-              Write Story
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            {stories.length > 0 && (
+              <Button variant="outline" onClick={() => setIsBookDialogOpen(true)}>
+                <Printer className="mr-2 h-4 w-4" />
+                Print Book
+              </Button>
+            )}
+            <Link href="/create-story">
+              <Button className="bg-[#0A5C36] hover:bg-[#0A5C36]/90 text-white">
+                <PenSquare className="mr-2 h-4 w-4" />
+                Write Story
+              </Button>
+            </Link>
+          </div>
         </div>
 
+        <HistoryBookDialog
+          open={isBookDialogOpen}
+          onOpenChange={setIsBookDialogOpen}
+          stories={stories}
+        />
+
         {stories.length === 0 ? (
           <div className="text-center py-12 bg-white rounded-lg shadow-sm">
             <div className="mx-auto w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
@@ -18,11 +18,14 @@ import {
   UserPlus,
   Camera,
   FileText,
+  GitBranch,
+  ChevronRight,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { Spinner } from '@/components/ui/spinner';
 import { UserAvatar } from '@/components/ui/user-avatar';
+import type { RelationshipPathStep } from '@/utils/functionUtils';
 
 interface MemberProfile {
   id: string;
@@ -51,6 +54,18 @@ interface MemberProfile {
   };
 }
 
+interface RelationshipToMember {
+  relationship: string | null;
+  path: RelationshipPathStep[];
+}
+
+const PATH_STEP_LABELS: Record<RelationshipPathStep['relation'], string> = {
+  self: 'You',
+  parent: 'parent',
+  child: 'child',
+  spouse: 'spouse',
+};
+
 interface RelationshipInfo {
   id: string;
   displayName: string;
@@ -66,6 +81,7 @@ export default function MemberProfilePage() {
   const { toast } = useToast();
   const [profile, setProfile] = useState<MemberProfile | null>(null);
   const [relationships, setRelationships] = useState<RelationshipInfo[]>([]);
+  const [relationshipToMember, setRelationshipToMember] = useState<RelationshipToMember | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('profile');
 
@@ -98,6 +114,26 @@ export default function MemberProfilePage() {
     loadMemberProfile();
   }, [loadMemberProfile]);
 
+  useEffect(() => {
+    if (isOwnProfile) {
+      setRelationshipToMember(null);
+      return;
+    }
+
+    const loadRelationship = async () => {
+      try {
+        const { getRelationship } = await import('@/utils/functionUtils');
+        const data = await getRelationship(memberId);
+        setRelationshipToMember(data);
+      } catch (error) {
+        console.error('Error calculating relationship:', error);
+        setRelationshipToMember(null);
+      }
+    };
+
+    loadRelationship();
+  }, [memberId, isOwnProfile]);
+
   if (loading) {
     return (
       <div className="flex h-[calc(100vh-4rem)] items-center justify-center">
@@ -198,6 +234,43 @@ export default function MemberProfilePage() {
         </div>
       </Card>
 
+      {/* How You're Related */}
+      {relationshipToMember && (
+        <Card className="mb-6 p-6">
+          <h3 className="mb-2 flex items-center gap-2 text-lg font-semibold">
+            <GitBranch className="h-5 w-5 text-[#0A5C36]" />
+            How you&apos;re related
+          </h3>
+          {relationshipToMember.relationship ? (
+            <>
+              <p className="mb-4 text-gray-700">
+                {profile.displayName} is your{' '}
+                <span className="font-semibold">{relationshipToMember.relationship}</span>
+              </p>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                {relationshipToMember.path.map((step, index) => (
+                  <div key={step.id} className="flex items-center gap-2">
+                    {index > 0 && <ChevronRight className="h-4 w-4 text-gray-400" />}
+                    <button
+                      type="button"
+                      className="rounded-md bg-gray-50 px-3 py-1 text-left hover:bg-gray-100"
+                      onClick={() => router.push(`/member-profile/${step.id}`)}
+                    >
+                      <div className="font-medium">{step.name}</div>
+                      <div className="text-xs text-gray-500">{PATH_STEP_LABELS[step.relation]}</div>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">
+              No connection to {profile.displayName} has been recorded in the family tree yet.
+            </p>
+          )}
+        </Card>
+      )}
+
       {/* Content Stats */}
       <div className="mb-6 grid grid-cols-3 gap-4">
         <Card className="p-4 text-center">
@@ -22,7 +22,8 @@ import {
   X, 
   Users,
   Lock,
-  MapPin
+  MapPin,
+  History
 } from "lucide-react"
 import { format } from "date-fns"
 import MediaUpload from "@/components/MediaUpload"
@@ -33,6 +34,7 @@ import { FamilyMemberSelect } from "@/components/FamilyMemberSelect"
 import { updateStory } from "@/utils/functionUtils"
 import "react-responsive-carousel/lib/styles/carousel.min.css"
 import DynastyCarousel from "@/components/DynastyCarousel"
+import { StoryRevisionsPanel } from "@/components/StoryRevisionsPanel"
 
 type BlockType = "text" | "image" | "video" | "audio"
 type PrivacyLevel = "family" | "personal" | "custom"
@@ -73,6 +75,9 @@ export default function EditStoryPage() {
   const [taggedMembers, setTaggedMembers] = useState<string[]>([])
   const [blocks, setBlocks] = useState<Block[]>([])
   const [showLocationPicker, setShowLocationPicker] = useState(false)
+  const [showRevisions, setShowRevisions] = useState(false)
+  // Bumped after restoring a revision to reload the form from the saved story
+  const [reloadKey, setReloadKey] = useState(0)
 
   // Handle setting members to ensure current user is filtered
   const setFilteredCustomAccessMembers = useCallback((members: string[]) => {
@@ -149,7 +154,7 @@ export default function EditStoryPage() {
     }
 
     fetchStory()
-  }, [id, currentUser, router, toast, setFilteredCustomAccessMembers, setFilteredTaggedMembers])
+  }, [id, currentUser, router, toast, setFilteredCustomAccessMembers, setFilteredTaggedMembers, reloadKey])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -704,6 +709,16 @@ export default function EditStoryPage() {
             </div>
 
             <div className="flex flex-col sm:flex-row sm:justify-end gap-3 mt-8 pt-4 border-t">
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setShowRevisions(true)}
+                disabled={loading}
+                className="w-full sm:w-auto sm:mr-auto"
+              >
+                <History className="h-4 w-4 mr-2" />
+                History
+              </Button>
               <Button
                 type="button"
                 variant="outline"
@@ -724,6 +739,13 @@ export default function EditStoryPage() {
           </div>
         </form>
       </div>
+
+      <StoryRevisionsPanel
+        open={showRevisions}
+        onOpenChange={setShowRevisions}
+        storyId={id as string}
+        onRestored={() => setReloadKey((key) => key + 1)}
+      />
     </div>
   )
 } 
\ No newline at end of file
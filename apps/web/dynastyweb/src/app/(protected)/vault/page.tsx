@@ -28,6 +28,13 @@ import {
   Shield,
   AlertTriangle,
   Loader2,
+  History,
+  Link2,
+  Users,
+  TreePine,
+  Settings,
+  Tag,
+  Images,
 } from 'lucide-react';
 import { formatVaultDate } from '@/utils/dateUtils';
 import { useToast } from '@/hooks/use-toast';
@@ -38,6 +45,19 @@ import Image from 'next/image';
 import dynamic from 'next/dynamic';
 import { FixedSizeList as VirtualizedList, ListChildComponentProps } from 'react-window';
 import AutoSizer from 'react-virtualized-auto-sizer';
+import { VaultVersionsPanel } from '@/components/vault/VaultVersionsPanel';
+import { ShareLinksPanel } from '@/components/vault/ShareLinksPanel';
+import { ShareLinkManager } from '@/components/ui/ShareLinkManager';
+import { VaultSharingPanel } from '@/components/vault/VaultSharingPanel';
+import { FamilyVaultPanel } from '@/components/vault/FamilyVaultPanel';
+import { VaultTagsPanel } from '@/components/vault/VaultTagsPanel';
+import {
+  VaultCollectionsPanel,
+  type VaultCollectionSelection,
+} from '@/components/vault/VaultCollectionsPanel';
+import { useAuth } from '@/context/AuthContext';
+import { useWebVaultEncryption } from '@/hooks/useWebVaultEncryption';
+import type { FamilyVaultInfo } from '@/services/VaultSDKService';
 
 const FilePreview = dynamic(() => import('@/components/FilePreview'), { ssr: false });
 
@@ -46,6 +66,23 @@ interface BreadcrumbItem {
   name: string;
 }
 
+// "shared" browses what other members shared with the user, starting from the items
+// shared with them directly; "family" browses the family tree's shared vault
+type VaultView = 'mine' | 'shared' | 'family';
+
+const VIEW_ROOT_NAMES: Record<VaultView, string> = {
+  mine: 'My Vault',
+  shared: 'Shared with me',
+  family: 'Family tree vault',
+};
+
+// Items listed from another member's vault can't be deleted or shared on by the user
+const isOwnItem = (item: VaultItem | VaultFolder) => !item.accessLevel || item.accessLevel === 'owner';
+
+// Family vault items can be deleted by managers and by the contributors who added them
+const canDeleteItem = (item: VaultItem | VaultFolder) =>
+  isOwnItem(item) || (!!item.familyTreeId && item.accessLevel === 'write');
+
 // Scan status badge component
 function ScanStatusBadge({ scanStatus }: { scanStatus?: VaultItem['scanStatus'] }) {
   if (!scanStatus) return null;
@@ -89,13 +126,17 @@ export default function VaultPage() {
   const router = useRouter();
   const { toast } = useToast();
   const { isOnline } = useOffline();
+  const { currentUser, firestoreUser } = useAuth();
+  const familyTreeId = firestoreUser?.familyTreeId;
+  const { isUnlocked: vaultUnlocked, decryptThumbnail } = useWebVaultEncryption(currentUser?.uid || '');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [items, setItems] = useState<VaultItem[]>([]);
   const [folders, setFolders] = useState<VaultFolder[]>([]);
+  const [view, setView] = useState<VaultView>('mine');
   const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
   const [breadcrumbs, setBreadcrumbs] = useState<BreadcrumbItem[]>([
-    { id: null, name: 'My Vault' }
+    { id: null, name: VIEW_ROOT_NAMES.mine }
   ]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -113,13 +154,40 @@ export default function VaultPage() {
     type: 'file' | 'folder';
   } | null>(null);
   const [previewItem, setPreviewItem] = useState<VaultItem | null>(null);
+  const [versionsItem, setVersionsItem] = useState<VaultItem | null>(null);
+  const [shareItem, setShareItem] = useState<VaultItem | null>(null);
+  const [showShareLinks, setShowShareLinks] = useState(false);
+  const [sharingItem, setSharingItem] = useState<{
+    id: string;
+    name: string;
+    type: 'file' | 'folder';
+  } | null>(null);
+  const [familyInfo, setFamilyInfo] = useState<FamilyVaultInfo | null>(null);
+  const [showFamilyPanel, setShowFamilyPanel] = useState(false);
+  // An album or smart collection listed in place of a folder
+  const [collection, setCollection] = useState<VaultCollectionSelection | null>(null);
+  const [showCollections, setShowCollections] = useState(false);
+  const [taggingItems, setTaggingItems] = useState<VaultItem[]>([]);
+
+  // Items added in the family view go to the family tree's vault
+  const familySpaceId = view === 'family' ? familyTreeId : undefined;
+  const canAddItems =
+    view === 'mine' ||
+    (!!familyInfo?.exists && (familyInfo.role === 'contributor' || familyInfo.role === 'manager'));
 
   const loadVaultItems = useCallback(async () => {
     setLoading(true);
     try {
-      const { items: vaultItems, folders: vaultFolders } = await vaultService.getItems(
-        currentFolderId
-      );
+      const { items: vaultItems, folders: vaultFolders } = collection
+        ? {
+            items: await vaultService.getCollectionItems(
+              collection.kind === 'album' ? { albumId: collection.id } : { collectionId: collection.id }
+            ),
+            folders: [],
+          }
+        : view === 'shared' && currentFolderId === null
+          ? await vaultService.getSharedWithMeItems()
+          : await vaultService.getItems(currentFolderId, false, familySpaceId);
       setItems(vaultItems);
       setFolders(vaultFolders);
     } catch (error) {
@@ -132,12 +200,26 @@ export default function VaultPage() {
     } finally {
       setLoading(false);
     }
-  }, [currentFolderId, toast]);
+  }, [view, currentFolderId, familySpaceId, collection, toast]);
 
   useEffect(() => {
     loadVaultItems();
   }, [loadVaultItems]);
 
+  const loadFamilyInfo = useCallback(async () => {
+    if (!familySpaceId) return;
+    try {
+      setFamilyInfo(await vaultService.getFamilyVault(familySpaceId));
+    } catch (error) {
+      console.error('Error loading family vault:', error);
+    }
+  }, [familySpaceId]);
+
+  useEffect(() => {
+    setFamilyInfo(null);
+    loadFamilyInfo();
+  }, [loadFamilyInfo]);
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
@@ -166,7 +248,9 @@ export default function VaultPage() {
               updated.set(uploadId, progress);
               return updated;
             });
-          }
+          },
+          undefined,
+          { familyTreeId: familySpaceId }
         );
 
         // Remove from uploading and add to items
@@ -208,7 +292,7 @@ export default function VaultPage() {
     if (!newFolderName.trim()) return;
 
     try {
-      const folder = await vaultService.createFolder(newFolderName, currentFolderId);
+      const folder = await vaultService.createFolder(newFolderName, currentFolderId, familySpaceId);
       setFolders((prev) => [...prev, folder]);
       setShowNewFolderDialog(false);
       setNewFolderName('');
@@ -275,35 +359,54 @@ export default function VaultPage() {
     }
   };
 
-  const handleShare = async (item: VaultItem) => {
+  const handleShare = (item: VaultItem) => {
+    setShareItem(item);
+  };
+
+  const navigateToFolder = (folder: VaultFolder) => {
+    setCurrentFolderId(folder.id);
+    setBreadcrumbs((prev) => [...prev, { id: folder.id, name: folder.name }]);
+  };
+
+  const switchView = (nextView: VaultView) => {
+    setView(nextView);
+    setCollection(null);
+    setCurrentFolderId(null);
+    setBreadcrumbs([{ id: null, name: VIEW_ROOT_NAMES[nextView] }]);
+    setSelectedItems(new Set());
+  };
+
+  const openCollection = (selection: VaultCollectionSelection) => {
+    setView('mine');
+    setCollection(selection);
+    setCurrentFolderId(null);
+    setBreadcrumbs([
+      { id: null, name: VIEW_ROOT_NAMES.mine },
+      { id: `${selection.kind}:${selection.id}`, name: selection.name },
+    ]);
+    setSelectedItems(new Set());
+  };
+
+  const handleRemoveFromAlbum = async (item: VaultItem) => {
+    if (collection?.kind !== 'album') return;
     try {
-      const { shareLink } = await vaultService.shareItem(item.id, {
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-      });
-      
-      await navigator.clipboard.writeText(shareLink);
-      
-      toast({
-        title: 'Link copied',
-        description: 'Share link copied to clipboard',
-      });
+      await vaultService.updateAlbumItems(collection.id, [], [item.id]);
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
     } catch (error) {
-      console.error('Error sharing item:', error);
+      console.error('Error removing from album:', error);
       toast({
         title: 'Error',
-        description: 'Failed to create share link',
+        description: 'Failed to remove the file from the album',
         variant: 'destructive',
       });
     }
   };
 
-  const navigateToFolder = (folder: VaultFolder) => {
-    setCurrentFolderId(folder.id);
-    setBreadcrumbs((prev) => [...prev, { id: folder.id, name: folder.name }]);
-  };
-
   const navigateToBreadcrumb = (index: number) => {
     const breadcrumb = breadcrumbs[index];
+    // The album or collection crumb is always the last one
+    if (collection && index === breadcrumbs.length - 1) return;
+    setCollection(null);
     setCurrentFolderId(breadcrumb.id);
     setBreadcrumbs((prev) => prev.slice(0, index + 1));
     setSelectedItems(new Set());
@@ -382,15 +485,39 @@ export default function VaultPage() {
     }
   }, [contextMenu]);
 
+  // Encrypted files only have a thumbnail once the vault is unlocked on this device.
+  // They're decrypted as files are listed and kept until the vault is locked.
+  useEffect(() => {
+    if (!vaultUnlocked) return;
+    const pending = items.filter((item) => item.isEncrypted && item.encryptedThumbnailUrl && !item.thumbnailUrl);
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(pending.map(async (item) => [item.id, await decryptThumbnail(item)] as const)).then((results) => {
+      const thumbnails = new Map(results.filter(([, url]) => !!url));
+      if (cancelled || thumbnails.size === 0) return;
+      setItems(prev => prev.map(i =>
+        thumbnails.has(i.id) ? { ...i, thumbnailUrl: thumbnails.get(i.id) || undefined } : i
+      ));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [items, vaultUnlocked, decryptThumbnail]);
+
   // Clear selection when clicking on empty space
   const handleContainerClick = () => {
     setSelectedItems(new Set());
   };
 
+  // Files match the search by name or by one of their tags
   const filteredItems = items.filter((item) =>
-    item.name.toLowerCase().includes(searchQuery.toLowerCase())
+    item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (item.tags || []).some((tag) => tag.includes(searchQuery.toLowerCase()))
   );
 
+  const selectedOwnFiles = items.filter((item) => selectedItems.has(item.id) && isOwnItem(item));
+
   const filteredFolders = folders.filter((folder) =>
     folder.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -511,9 +638,11 @@ export default function VaultPage() {
     return <File className="h-12 w-12 text-gray-400" />;
   };
 
-  // Helper function to check if file has thumbnail
+  // Helper function to check if file has thumbnail. Videos and PDFs only have one once
+  // the server has made it, and encrypted files once their thumbnail is decrypted.
   const canShowThumbnail = (item: VaultItem) => {
-    return item.mimeType?.startsWith('image/');
+    if (item.isEncrypted) return !!item.thumbnailUrl;
+    return !!item.thumbnailUrl || item.mimeType?.startsWith('image/');
   };
 
   // State to track loading thumbnails
@@ -561,23 +690,25 @@ export default function VaultPage() {
           <div className="mt-6">
             <h1 className="text-2xl font-bold text-gray-900">Family Vault</h1>
           </div>
-          <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3 w-full sm:w-auto mt-4 md:mt-6">
-            <Button
-              onClick={() => fileInputRef.current?.click()}
-              disabled={!isOnline}
-              className="bg-[#0A5C36] hover:bg-[#0A5C36]/90 text-white"
-            >
-              <Upload className="mr-2 h-4 w-4" />
-              Upload
-            </Button>
-            <Button
-              variant="outline"
-              onClick={() => setShowNewFolderDialog(true)}
-            >
-              <FolderPlus className="mr-2 h-4 w-4" />
-              New Folder
-            </Button>
-          </div>
+          {canAddItems && (
+            <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3 w-full sm:w-auto mt-4 md:mt-6">
+              <Button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!isOnline}
+                className="bg-[#0A5C36] hover:bg-[#0A5C36]/90 text-white"
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                Upload
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowNewFolderDialog(true)}
+              >
+                <FolderPlus className="mr-2 h-4 w-4" />
+                New Folder
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Toolbar */}
@@ -587,7 +718,7 @@ export default function VaultPage() {
               <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
               <Input
                 type="text"
-                placeholder="Search files..."
+                placeholder="Search files and tags..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10 pr-4"
@@ -603,6 +734,53 @@ export default function VaultPage() {
             >
               {viewMode === 'grid' ? <List className="h-4 w-4" /> : <Grid className="h-4 w-4" />}
             </Button>
+            {selectedOwnFiles.length > 1 && (
+              <Button variant="outline" onClick={() => setTaggingItems(selectedOwnFiles)}>
+                <Tag className="mr-2 h-4 w-4" />
+                Tag {selectedOwnFiles.length} files
+              </Button>
+            )}
+            <Button
+              variant={collection ? 'default' : 'outline'}
+              onClick={() => setShowCollections(true)}
+            >
+              <Images className="mr-2 h-4 w-4" />
+              Albums
+            </Button>
+            <Button
+              variant={view === 'shared' ? 'default' : 'outline'}
+              onClick={() => switchView(view === 'shared' ? 'mine' : 'shared')}
+            >
+              <Users className="mr-2 h-4 w-4" />
+              Shared with me
+            </Button>
+            {familyTreeId && (
+              <Button
+                variant={view === 'family' ? 'default' : 'outline'}
+                onClick={() => switchView(view === 'family' ? 'mine' : 'family')}
+              >
+                <TreePine className="mr-2 h-4 w-4" />
+                Family tree
+              </Button>
+            )}
+            {view === 'family' && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setShowFamilyPanel(true)}
+                aria-label="Family vault settings"
+              >
+                <Settings className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowShareLinks(true)}
+              aria-label="Share links"
+            >
+              <Link2 className="h-4 w-4" />
+            </Button>
             <Button
               variant="outline"
               size="icon"
@@ -624,7 +802,7 @@ export default function VaultPage() {
                   onClick={() => navigateToBreadcrumb(index)}
                   className="hover:text-blue-600"
                 >
-                  {index === 0 ? <Home className="h-4 w-4" /> : crumb.name}
+                  {index === 0 && view === 'mine' ? <Home className="h-4 w-4" /> : crumb.name}
                 </button>
               </div>
             ))}
@@ -653,14 +831,30 @@ export default function VaultPage() {
             <Card className="p-8 text-center">
               <Folder className="mx-auto mb-4 h-12 w-12 text-gray-400" />
               <h3 className="mb-2 text-lg font-semibold">
-                {searchQuery ? 'No results found' : 'This folder is empty'}
+                {searchQuery
+                  ? 'No results found'
+                  : collection
+                    ? collection.kind === 'album'
+                      ? 'This album is empty'
+                      : 'No files match this collection yet'
+                  : view === 'shared' && currentFolderId === null
+                    ? 'Nothing shared with you yet'
+                    : view === 'family' && familyInfo && !familyInfo.exists
+                      ? 'The family vault isn\'t set up yet'
+                      : 'This folder is empty'}
               </h3>
               <p className="mb-4 text-sm text-gray-600">
                 {searchQuery
                   ? 'Try adjusting your search'
-                  : 'Upload files or create folders to get started'}
+                  : collection
+                    ? 'Add files from their menu in your vault'
+                  : view === 'shared'
+                    ? 'Files and folders family members share with you appear here'
+                    : view === 'family' && !canAddItems
+                      ? 'Files the family keeps together appear here'
+                      : 'Upload files or create folders to get started'}
               </p>
-              {!searchQuery && (
+              {!searchQuery && !collection && canAddItems && (
                 <Button 
                   onClick={() => fileInputRef.current?.click()} 
                   disabled={!isOnline}
@@ -686,8 +880,13 @@ export default function VaultPage() {
                     selectedItems.has(folder.id) ? 'ring-2 ring-blue-500 bg-blue-50' : ''
                   }`}>
                     <Folder className="mx-auto mb-2 h-12 w-12 text-blue-500" />
-                    <p className="truncate text-sm font-medium">{folder.name}</p>
-                    <p className="text-xs text-gray-500">{folder.itemCount} items</p>
+                    <p className="flex items-center justify-center gap-1 truncate text-sm font-medium">
+                      {folder.isShared && <Users className="h-3 w-3 flex-shrink-0 text-gray-400" />}
+                      {folder.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {folder.ownerName ? `From ${folder.ownerName}` : `${folder.itemCount} items`}
+                    </p>
                   </Card>
                 </div>
               ))}
@@ -741,7 +940,15 @@ export default function VaultPage() {
                       )}
                     </div>
                     <p className="truncate text-sm font-medium">{item.name}</p>
-                    <p className="text-xs text-gray-500">{formatFileSize(item.size || 0)}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatFileSize(item.size || 0)}
+                      {item.ownerName && ` · From ${item.ownerName}`}
+                    </p>
+                    {!!item.tags?.length && (
+                      <p className="truncate text-xs text-gray-400">
+                        {item.tags.map((tag) => `#${tag}`).join(' ')}
+                      </p>
+                    )}
                     <div className="mt-1">
                       <ScanStatusBadge scanStatus={item.scanStatus} />
                     </div>
@@ -850,27 +1057,83 @@ export default function VaultPage() {
                         <span className="ml-auto text-xs text-red-600">Blocked</span>
                       )}
                     </button>
+                    {isOwnItem(contextMenu.item) && (
+                      <button
+                        className="flex w-full items-center px-3 py-2 text-sm hover:bg-gray-100"
+                        onClick={() => {
+                          handleShare(contextMenu.item as VaultItem);
+                          setContextMenu(null);
+                        }}
+                      >
+                        <Share2 className="mr-2 h-4 w-4" />
+                        Share link
+                      </button>
+                    )}
+                    {!contextMenu.item.familyTreeId && (
+                      <button
+                        className="flex w-full items-center px-3 py-2 text-sm hover:bg-gray-100"
+                        onClick={() => {
+                          setSharingItem({
+                            id: contextMenu.item.id,
+                            name: contextMenu.item.name,
+                            type: contextMenu.type,
+                          });
+                          setContextMenu(null);
+                        }}
+                      >
+                        <Users className="mr-2 h-4 w-4" />
+                        Family access
+                      </button>
+                    )}
+                    {isOwnItem(contextMenu.item) && (
+                      <button
+                        className="flex w-full items-center px-3 py-2 text-sm hover:bg-gray-100"
+                        onClick={() => {
+                          setTaggingItems([contextMenu.item as VaultItem]);
+                          setContextMenu(null);
+                        }}
+                      >
+                        <Tag className="mr-2 h-4 w-4" />
+                        Tags & albums
+                      </button>
+                    )}
+                    {collection?.kind === 'album' && (
+                      <button
+                        className="flex w-full items-center px-3 py-2 text-sm hover:bg-gray-100"
+                        onClick={() => {
+                          handleRemoveFromAlbum(contextMenu.item as VaultItem);
+                          setContextMenu(null);
+                        }}
+                      >
+                        <Images className="mr-2 h-4 w-4" />
+                        Remove from album
+                      </button>
+                    )}
                     <button
                       className="flex w-full items-center px-3 py-2 text-sm hover:bg-gray-100"
                       onClick={() => {
-                        handleShare(contextMenu.item as VaultItem);
+                        setVersionsItem(contextMenu.item as VaultItem);
                         setContextMenu(null);
                       }}
                     >
-                      <Share2 className="mr-2 h-4 w-4" />
-                      Share
-                    </button>
-                    <div className="my-1 border-t" />
-                    <button
-                      className="flex w-full items-center px-3 py-2 text-sm text-red-600 hover:bg-gray-100"
-                      onClick={() => {
-                        handleDelete(contextMenu.item as VaultItem);
-                        setContextMenu(null);
-                      }}
-                    >
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      Delete
+                      <History className="mr-2 h-4 w-4" />
+                      Version history
                     </button>
+                    {canDeleteItem(contextMenu.item) && (
+                      <>
+                        <div className="my-1 border-t" />
+                        <button
+                          className="flex w-full items-center px-3 py-2 text-sm text-red-600 hover:bg-gray-100"
+                          onClick={() => {
+                            handleDelete(contextMenu.item as VaultItem);
+                            setContextMenu(null);
+                          }}
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </button>
+                      </>
+                    )}
                   </>
                 )}
                 {contextMenu.type === 'folder' && (
@@ -885,6 +1148,22 @@ export default function VaultPage() {
                       <Folder className="mr-2 h-4 w-4" />
                       Open
                     </button>
+                    {!contextMenu.item.familyTreeId && (
+                      <button
+                        className="flex w-full items-center px-3 py-2 text-sm hover:bg-gray-100"
+                        onClick={() => {
+                          setSharingItem({
+                            id: contextMenu.item.id,
+                            name: contextMenu.item.name,
+                            type: contextMenu.type,
+                          });
+                          setContextMenu(null);
+                        }}
+                      >
+                        <Users className="mr-2 h-4 w-4" />
+                        Family access
+                      </button>
+                    )}
                     <div className="my-1 border-t" />
                     <button
                       className="flex w-full items-center px-3 py-2 text-sm text-red-600 hover:bg-gray-100"
@@ -911,6 +1190,56 @@ export default function VaultPage() {
           onDownload={handleDownload}
           onShare={handleShare}
         />
+
+        {/* Version History Panel */}
+        <VaultVersionsPanel
+          open={!!versionsItem}
+          onOpenChange={(open) => !open && setVersionsItem(null)}
+          item={versionsItem}
+          onChanged={loadVaultItems}
+        />
+
+        {/* Share Dialog */}
+        {shareItem && (
+          <ShareLinkManager
+            item={shareItem}
+            isOpen={!!shareItem}
+            onClose={() => setShareItem(null)}
+          />
+        )}
+
+        {/* Share Links Panel */}
+        <ShareLinksPanel open={showShareLinks} onOpenChange={setShowShareLinks} />
+
+        {/* Family Access Panel */}
+        <VaultSharingPanel
+          open={!!sharingItem}
+          onOpenChange={(open) => !open && setSharingItem(null)}
+          item={sharingItem}
+          onChanged={loadVaultItems}
+        />
+
+        {/* Family Vault Panel */}
+        <FamilyVaultPanel
+          open={showFamilyPanel}
+          onOpenChange={setShowFamilyPanel}
+          info={familyInfo}
+          onChanged={loadFamilyInfo}
+        />
+
+        {/* Tags and Albums */}
+        <VaultTagsPanel
+          open={taggingItems.length > 0}
+          onOpenChange={(open) => !open && setTaggingItems([])}
+          items={taggingItems}
+          onChanged={loadVaultItems}
+        />
+
+        <VaultCollectionsPanel
+          open={showCollections}
+          onOpenChange={setShowCollections}
+          onSelect={openCollection}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,367 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Clock, Download, Eye, FileAudio, FileText, Lock, ShieldCheck, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { formatFileSize } from '@/services/VaultService';
+import { WebVaultCryptoService, type EncryptedFileMetadata } from '@/services/encryption/VaultCryptoService';
+import {
+  accessVaultShareLink,
+  getVaultShareLinkInfo,
+  type VaultShareLinkAccess,
+  type VaultShareLinkInfo,
+} from '@/utils/functionUtils';
+
+type PreviewKind = 'image' | 'video' | 'audio' | 'pdf' | null;
+
+const getPreviewKind = (mimeType: string | null): PreviewKind => {
+  if (!mimeType) return null;
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType === 'application/pdf') return 'pdf';
+  return null;
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+const describeRemaining = (remaining: number | null) => {
+  if (remaining === null) return null;
+  if (remaining === 1) return 'This link can only be opened once more.';
+  return `This link can be opened ${remaining} more times.`;
+};
+
+interface OpenedFile {
+  access: VaultShareLinkAccess;
+  // Object URL for the fetched (and, for encrypted files, decrypted) contents
+  url: string;
+}
+
+export default function VaultShareClient({ shareId }: { shareId: string }) {
+  const [info, setInfo] = useState<VaultShareLinkInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [hasShareKey, setHasShareKey] = useState(false);
+  const [password, setPassword] = useState('');
+  const [opening, setOpening] = useState(false);
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [opened, setOpened] = useState<OpenedFile | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [linkInfo, shareKey] = await Promise.all([
+          getVaultShareLinkInfo(shareId),
+          WebVaultCryptoService.getInstance().getShareKeyFromFragment(window.location.hash),
+        ]);
+        setHasShareKey(shareKey !== null);
+        setInfo(linkInfo);
+      } catch (error) {
+        setLoadError(getErrorMessage(error, 'This share link could not be loaded.'));
+      }
+    };
+
+    load();
+  }, [shareId]);
+
+  // Release the file contents when leaving the page
+  useEffect(() => {
+    return () => {
+      if (opened) URL.revokeObjectURL(opened.url);
+    };
+  }, [opened]);
+
+  const handleOpen = useCallback(async (event?: React.FormEvent) => {
+    event?.preventDefault();
+    setOpening(true);
+    setOpenError(null);
+
+    try {
+      const access = await accessVaultShareLink(shareId, password || undefined);
+
+      const response = await fetch(access.viewUrl);
+      if (!response.ok) {
+        throw new Error('Failed to load the shared file.');
+      }
+      let contents = await response.blob();
+
+      if (access.isEncrypted) {
+        const cryptoService = WebVaultCryptoService.getInstance();
+        const fileKey = await cryptoService.getShareKeyFromFragment(window.location.hash);
+        if (!fileKey || !access.encryption) {
+          throw new Error('This link is missing the key needed to decrypt the file.');
+        }
+
+        try {
+          const decrypted = await cryptoService.decryptFile(
+            new Uint8Array(await contents.arrayBuffer()),
+            new Uint8Array(access.encryption.header),
+            fileKey,
+            access.encryption.metadata as unknown as EncryptedFileMetadata
+          );
+          contents = new Blob([decrypted as Uint8Array<ArrayBuffer>], {
+            type: access.mimeType || 'application/octet-stream',
+          });
+        } catch {
+          throw new Error('The file could not be decrypted. Check that you copied the whole link.');
+        } finally {
+          cryptoService.memzero(fileKey);
+        }
+      }
+
+      setOpened({ access, url: URL.createObjectURL(contents) });
+    } catch (error) {
+      setOpenError(getErrorMessage(error, 'Failed to open the shared file.'));
+    } finally {
+      setOpening(false);
+    }
+  }, [shareId, password]);
+
+  const handleDownload = (file: OpenedFile) => {
+    const link = document.createElement('a');
+    link.href = file.url;
+    link.download = file.access.fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const renderPreview = (file: OpenedFile) => {
+    const kind = getPreviewKind(file.access.mimeType);
+
+    if (kind === 'image') {
+      return (
+        <div className="flex items-center justify-center overflow-hidden rounded-md bg-gray-100">
+          <Image
+            src={file.url}
+            alt={file.access.fileName}
+            width={800}
+            height={600}
+            className="max-h-[70vh] w-auto object-contain"
+            unoptimized
+            onContextMenu={(e) => !file.access.allowDownload && e.preventDefault()}
+          />
+        </div>
+      );
+    }
+
+    if (kind === 'video') {
+      return (
+        <video
+          controls
+          className="max-h-[70vh] w-full rounded-md bg-black"
+          src={file.url}
+          controlsList={file.access.allowDownload ? undefined : 'nodownload'}
+        >
+          Your browser does not support the video tag.
+        </video>
+      );
+    }
+
+    if (kind === 'audio') {
+      return (
+        <div className="flex flex-col items-center justify-center space-y-4 rounded-md bg-gray-100 py-10">
+          <FileAudio className="h-16 w-16 text-[#0A5C36]" />
+          <audio
+            controls
+            className="w-full max-w-md"
+            src={file.url}
+            controlsList={file.access.allowDownload ? undefined : 'nodownload'}
+          >
+            Your browser does not support the audio tag.
+          </audio>
+        </div>
+      );
+    }
+
+    if (kind === 'pdf') {
+      return <iframe src={file.url} className="h-[70vh] w-full rounded-md border" title={file.access.fileName} />;
+    }
+
+    return (
+      <div className="flex flex-col items-center justify-center rounded-md bg-gray-100 py-10 text-center">
+        <FileText className="h-16 w-16 text-gray-400" />
+        <p className="mt-2 text-sm text-gray-600">This file type can&apos;t be previewed in the browser.</p>
+      </div>
+    );
+  };
+
+  const renderUnavailable = (title: string, message: string) => (
+    <div className="text-center">
+      <XCircle className="mx-auto h-12 w-12 text-red-500" />
+      <h2 className="mt-4 text-xl font-semibold text-gray-900">{title}</h2>
+      <p className="mt-2 text-sm text-gray-600">{message}</p>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (loadError) {
+      return renderUnavailable('Link unavailable', loadError);
+    }
+
+    if (!info) {
+      return (
+        <div className="flex justify-center py-8">
+          <Spinner className="h-8 w-8" />
+        </div>
+      );
+    }
+
+    if (info.status !== 'active') {
+      return renderUnavailable('Link unavailable', `${info.message}. Ask the person who shared it for a new link.`);
+    }
+
+    if (opened) {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <h2 className="truncate text-lg font-semibold text-gray-900">{opened.access.fileName}</h2>
+              <p className="text-sm text-gray-500">{formatFileSize(opened.access.size)}</p>
+            </div>
+            {opened.access.allowDownload ? (
+              <Button onClick={() => handleDownload(opened)} className="bg-[#0A5C36] hover:bg-[#0A5C36]/90 text-white">
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+            ) : (
+              <span className="flex items-center gap-1 text-sm text-gray-500">
+                <Eye className="h-4 w-4" />
+                View only
+              </span>
+            )}
+          </div>
+          {renderPreview(opened)}
+          {opened.access.remainingAccesses !== null && (
+            <p className="text-xs text-gray-500">
+              {opened.access.remainingAccesses === 0
+                ? 'This link has now been used up. Keep this page open if you still need the file.'
+                : describeRemaining(opened.access.remainingAccesses)}
+            </p>
+          )}
+        </div>
+      );
+    }
+
+    // Password-protected links don't say what they share until the password is accepted
+    const missingKey = !info.requiresPassword && info.isEncrypted && !hasShareKey;
+    const lockedUntil = info.requiresPassword && info.lockedUntil && info.lockedUntil > Date.now()
+      ? info.lockedUntil
+      : null;
+
+    return (
+      <form onSubmit={handleOpen} className="space-y-4">
+        {info.requiresPassword ? (
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Password required</h2>
+            <p className="text-sm text-gray-500">Enter the password you were given to see the shared file.</p>
+          </div>
+        ) : (
+          <div>
+            <h2 className="truncate text-lg font-semibold text-gray-900">{info.fileName}</h2>
+            <p className="text-sm text-gray-500">{formatFileSize(info.size)}</p>
+          </div>
+        )}
+
+        <ul className="space-y-1 text-sm text-gray-600">
+          {!info.requiresPassword && info.isEncrypted && (
+            <li className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-[#0A5C36]" />
+              End-to-end encrypted. The file is decrypted in your browser.
+            </li>
+          )}
+          {!info.requiresPassword && (
+            <li className="flex items-center gap-2">
+              {info.allowDownload ? <Download className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              {info.allowDownload ? 'You can view and download this file.' : 'You can view this file but not download it.'}
+            </li>
+          )}
+          {info.expiresAt && (
+            <li className="flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              Link expires {format(new Date(info.expiresAt), 'PPp')}
+            </li>
+          )}
+          {!info.requiresPassword && info.remainingAccesses !== null && (
+            <li className="flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              {describeRemaining(info.remainingAccesses)}
+            </li>
+          )}
+        </ul>
+
+        {missingKey ? (
+          <p className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+            This link is missing the key needed to decrypt the file. Make sure you opened the
+            complete link, including everything after the #.
+          </p>
+        ) : (
+          <>
+            {info.requiresPassword && (
+              <div className="space-y-2">
+                <Label htmlFor="share-password">Password</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  autoComplete="off"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={!!lockedUntil}
+                />
+              </div>
+            )}
+
+            {lockedUntil && (
+              <p className="text-sm text-red-600">
+                Too many incorrect passwords. Try again after {format(new Date(lockedUntil), 'p')}.
+              </p>
+            )}
+            {openError && <p className="text-sm text-red-600">{openError}</p>}
+
+            <Button
+              type="submit"
+              className="w-full bg-[#0A5C36] hover:bg-[#0A5C36]/90 text-white"
+              disabled={opening || !!lockedUntil || (info.requiresPassword && !password)}
+            >
+              {opening && <Spinner className="mr-2 h-4 w-4" />}
+              Open file
+            </Button>
+          </>
+        )}
+      </form>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F9FAFB] flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className={`sm:mx-auto sm:w-full ${opened ? 'sm:max-w-3xl' : 'sm:max-w-md'}`}>
+        <Image
+          src="/dynasty.png"
+          alt="Dynasty Logo"
+          width={60}
+          height={60}
+          className="mx-auto"
+          priority
+          style={{ height: 'auto' }}
+        />
+
+        <div className="mt-8 bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {renderContent()}
+        </div>
+
+        <p className="mt-6 text-center text-sm text-gray-500">
+          Shared from a Dynasty family vault.{' '}
+          <Link href="/signup" className="font-medium text-[#0A5C36] hover:underline">
+            Create your own
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { Metadata } from 'next';
+import VaultShareClient from './VaultShareClient';
+
+export const metadata: Metadata = {
+  title: 'Shared File | Dynasty',
+  description: 'A file shared with you from a Dynasty family vault.',
+  robots: 'noindex, nofollow',
+};
+
+export default async function VaultSharePage({ params }: { params: Promise<{ shareId: string }> }) {
+  const { shareId } = await params;
+  return <VaultShareClient shareId={shareId} />;
+}
@@ -0,0 +1,170 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { CalendarDays, Copy, Loader2, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  createCalendarFeedToken,
+  getCalendarFeedStatus,
+  revokeCalendarFeedToken,
+  type CalendarFeedStatus,
+} from "@/utils/eventUtils"
+
+export function CalendarFeedSettings() {
+  const { toast } = useToast()
+  const [status, setStatus] = useState<CalendarFeedStatus | null>(null)
+  const [feedUrls, setFeedUrls] = useState<{ feedUrl: string; webcalUrl: string } | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+  const [showRevokeDialog, setShowRevokeDialog] = useState(false)
+
+  useEffect(() => {
+    getCalendarFeedStatus()
+      .then(setStatus)
+      .catch((error) => {
+        console.error("Error loading calendar feed status:", error)
+        setStatus({ active: false })
+      })
+  }, [])
+
+  const handleCreate = async () => {
+    try {
+      setIsWorking(true)
+      const result = await createCalendarFeedToken()
+      setFeedUrls({ feedUrl: result.feedUrl, webcalUrl: result.webcalUrl })
+      setStatus({ active: true, createdAt: result.createdAt, lastAccessedAt: null })
+      toast({
+        title: status?.active ? "Link Rotated" : "Link Created",
+        description: status?.active
+          ? "Your previous calendar link no longer works."
+          : "Add the link to your calendar app to subscribe.",
+      })
+    } catch (error) {
+      console.error("Error creating calendar feed link:", error)
+      toast({
+        title: "Error",
+        description: "Failed to create a calendar link. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleRevoke = async () => {
+    try {
+      setIsWorking(true)
+      await revokeCalendarFeedToken()
+      setFeedUrls(null)
+      setStatus({ active: false })
+      toast({
+        title: "Link Revoked",
+        description: "Subscribed calendars will no longer receive updates.",
+      })
+    } catch (error) {
+      console.error("Error revoking calendar feed link:", error)
+      toast({
+        title: "Error",
+        description: "Failed to revoke the calendar link. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsWorking(false)
+      setShowRevokeDialog(false)
+    }
+  }
+
+  const handleCopy = async () => {
+    if (!feedUrls) return
+    await navigator.clipboard.writeText(feedUrls.feedUrl)
+    toast({ title: "Copied", description: "Calendar link copied to clipboard." })
+  }
+
+  const description = !status
+    ? "Loading..."
+    : status.active
+      ? `Active since ${status.createdAt ? format(new Date(status.createdAt), "MMM d, yyyy") : "recently"}${
+          status.lastAccessedAt ? `, last synced ${format(new Date(status.lastAccessedAt), "MMM d, yyyy")}` : ""
+        }`
+      : "Subscribe to your family events from Google Calendar, Apple Calendar or Outlook"
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-medium border-b pb-2">Calendar Subscription</h2>
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="bg-[#F9FAFB] p-2 rounded-lg">
+            <CalendarDays className="h-5 w-5 text-[#0A5C36]" />
+          </div>
+          <div>
+            <Label className="text-base">Family Events Calendar</Label>
+            <p className="text-xs text-gray-500 mt-1">{description}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {status?.active && (
+            <Button variant="outline" onClick={() => setShowRevokeDialog(true)} disabled={isWorking}>
+              Revoke
+            </Button>
+          )}
+          <Button variant="gold" onClick={handleCreate} disabled={isWorking || !status}>
+            {isWorking ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : status?.active ? (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            ) : null}
+            {status?.active ? "New Link" : "Create Link"}
+          </Button>
+        </div>
+      </div>
+
+      {feedUrls && (
+        <div className="space-y-2 rounded-lg border p-4">
+          <p className="text-sm text-gray-600">
+            Copy this private link now, it won&apos;t be shown again. Anyone with the link can see your events.
+          </p>
+          <div className="flex gap-2">
+            <Input value={feedUrls.feedUrl} readOnly onFocus={(e) => e.target.select()} />
+            <Button variant="outline" onClick={handleCopy}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <a href={feedUrls.webcalUrl} className="inline-block text-sm font-medium text-[#0A5C36] hover:underline">
+            Open in calendar app
+          </a>
+        </div>
+      )}
+
+      <AlertDialog open={showRevokeDialog} onOpenChange={setShowRevokeDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke calendar link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Calendars subscribed with your current link will stop receiving event updates.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isWorking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRevoke} disabled={isWorking} className="bg-red-600 hover:bg-red-700">
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
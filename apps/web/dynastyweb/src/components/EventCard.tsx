@@ -66,6 +66,7 @@ export interface EventAttendee {
 
 export interface EventCardProps {
   id: string;
+  occurrenceDate?: string; // Set for occurrences of recurring events
   title: string;
   category?: string;
   date: string;
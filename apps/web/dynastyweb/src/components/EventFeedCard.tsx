@@ -15,6 +15,7 @@ import { ensureAccessibleStorageUrl } from "@/utils/mediaUtils"
 
 export function EventFeedCard({
   id,
+  occurrenceDate,
   title,
   date,
   endDate,
@@ -32,6 +33,7 @@ export function EventFeedCard({
 }: Omit<EventCardProps, 'virtualLink' | 'description' | 'onRsvpChange' | 'onDelete' | 'hideActions' | 'showDescription' | 'category'>) {
   const router = useRouter()
   const isPastEvent = isPast(parseISO(date))
+  const eventPath = occurrenceDate ? `/events/${id}?occurrence=${occurrenceDate}` : `/events/${id}`
   const [currentStatus, setCurrentStatus] = useState(userStatus)
   const [submittingRsvp, setSubmittingRsvp] = useState(false)
 
@@ -39,7 +41,7 @@ export function EventFeedCard({
   const handleRsvpChange = async (status: 'yes' | 'maybe' | 'no') => {
     try {
       setSubmittingRsvp(true)
-      await updateEventRsvp(id, status)
+      await updateEventRsvp(id, status, occurrenceDate)
       setCurrentStatus(status === 'yes' ? 'going' : status)
     } catch (error) {
       console.error("Error updating RSVP:", error)
@@ -123,7 +125,7 @@ export function EventFeedCard({
     <Card className="overflow-hidden hover:shadow-md transition-shadow mb-4 relative">
       <div 
         className="cursor-pointer"
-        onClick={() => router.push(`/events/${id}`)}
+        onClick={() => router.push(eventPath)}
       >
         {coverImage && (
           <div className="relative h-40">
@@ -272,7 +274,7 @@ export function EventFeedCard({
             <Button
               variant="outline"
               size="sm"
-              onClick={() => router.push(`/events/${id}`)}
+              onClick={() => router.push(eventPath)}
               className="text-[#0A5C36] border-[#0A5C36] hover:bg-green-50"
             >
               View Details
@@ -1,11 +1,11 @@
 import React from 'react';
-import { ExtNode } from 'relatives-tree/lib/types';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Eye } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { PARENT_LINK_LABELS, type FamilyTreeLinkedNode } from '@/utils/familyTreeUtils';
 
 interface Props {
-  node: ExtNode & {
+  node: FamilyTreeLinkedNode & {
     attributes?: {
       displayName?: string;
       imageUrl?: string;
@@ -49,6 +49,14 @@ const FamilyNode: React.FC<Props> = ({ node, style, isSelected }) => {
         .toUpperCase()
     : '?';
 
+  // Adopted, step, foster and guardian links are labelled on the node
+  const parentLinkLabels = Array.from(new Set(
+    (node.parents || [])
+      .map((parent) => parent.linkType)
+      .filter((linkType) => linkType && linkType !== 'biological')
+      .map((linkType) => PARENT_LINK_LABELS[linkType!])
+  ));
+
   // Check if the node has any hidden relatives
   const hasHiddenRelatives = node.hasSubTree && (
     (node.children?.length > 0) || 
@@ -68,6 +76,14 @@ const FamilyNode: React.FC<Props> = ({ node, style, isSelected }) => {
           <Eye className="h-3 w-3 text-gray-500" />
         </div>
       )}
+      {parentLinkLabels.length > 0 && (
+        <div
+          className="absolute -top-2 left-1/2 -translate-x-1/2 whitespace-nowrap rounded-full bg-amber-50 border border-amber-200 px-2 text-[10px] font-medium text-amber-800"
+          title={`${parentLinkLabels.join(', ')} parent link`}
+        >
+          {parentLinkLabels.join(' · ')}
+        </div>
+      )}
       <Avatar className="h-12 w-12 select-none shrink-0">
         <AvatarImage 
           src={node.attributes?.profilePicture || "/avatar.svg"} 
@@ -0,0 +1,82 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { differenceInCalendarDays, format, parseISO } from "date-fns"
+import { Cake, Flower2, Heart } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { getUpcomingFamilyOccasions, type FamilyOccasion } from "@/utils/functionUtils"
+
+const OCCASION_ICONS = {
+  birthday: Cake,
+  anniversary: Heart,
+  memorial: Flower2,
+}
+
+function describeOccasion(occasion: FamilyOccasion): string {
+  const years = occasion.years === 1 ? "1 year" : `${occasion.years} years`
+  switch (occasion.type) {
+    case "birthday":
+      return `${occasion.names[0]} turns ${occasion.years}`
+    case "anniversary":
+      return `${occasion.names[0]} & ${occasion.names[1]} · ${years} married`
+    case "memorial":
+      return `Remembering ${occasion.names[0]} · ${years}`
+  }
+}
+
+function describeDay(date: string): string {
+  const day = parseISO(date)
+  const daysAway = differenceInCalendarDays(day, new Date())
+  if (daysAway === 0) return "Today"
+  if (daysAway === 1) return "Tomorrow"
+  return format(day, "EEEE")
+}
+
+/**
+ * "This week in your family" card listing upcoming birthdays, anniversaries and remembrance days
+ */
+export function FamilyOccasionsCard() {
+  const [occasions, setOccasions] = useState<FamilyOccasion[]>([])
+
+  useEffect(() => {
+    getUpcomingFamilyOccasions()
+      .then((result) => setOccasions(result.occasions || []))
+      .catch((error) => console.error("Error loading family occasions:", error))
+  }, [])
+
+  if (occasions.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="mb-6 border-[#0A5C36]/20">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg text-[#0A5C36]">This week in your family</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3">
+          {occasions.map((occasion) => {
+            const Icon = OCCASION_ICONS[occasion.type]
+            return (
+              <li key={`${occasion.type}-${occasion.memberIds.join("-")}`} className="flex items-center gap-3">
+                <div className="flex h-9 w-9 flex-shrink-0 items-center justify-center rounded-full bg-green-50">
+                  <Icon className="h-4 w-4 text-[#0A5C36]" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <Link
+                    href={`/member-profile/${occasion.memberIds[0]}`}
+                    className="block truncate text-sm font-medium text-gray-900 hover:underline"
+                  >
+                    {describeOccasion(occasion)}
+                  </Link>
+                  <p className="text-xs text-gray-500">{describeDay(occasion.date)}</p>
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
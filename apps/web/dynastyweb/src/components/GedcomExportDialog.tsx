@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, ShieldCheck } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { exportGedcom } from '@/utils/functionUtils';
+import { useToast } from '@/hooks/use-toast';
+
+interface GedcomExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  familyTreeId: string;
+}
+
+const triggerDownload = (href: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
+
+export function GedcomExportDialog({ open, onOpenChange, familyTreeId }: GedcomExportDialogProps) {
+  const { toast } = useToast();
+  const [includeMedia, setIncludeMedia] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleExport = async () => {
+    setLoading(true);
+    try {
+      const result = await exportGedcom(familyTreeId, includeMedia);
+
+      if (result.format === 'gedzip' && result.downloadUrl) {
+        triggerDownload(result.downloadUrl, result.fileName);
+      } else if (result.content !== undefined) {
+        const url = URL.createObjectURL(new Blob([result.content], { type: 'text/plain;charset=utf-8' }));
+        triggerDownload(url, result.fileName);
+        URL.revokeObjectURL(url);
+      }
+
+      const { individuals, redacted } = result.summary;
+      toast({
+        title: 'Export Ready',
+        description: redacted > 0
+          ? `${individuals} people exported, ${redacted} private ${redacted === 1 ? 'profile was' : 'profiles were'} redacted.`
+          : `${individuals} people exported.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error exporting GEDCOM:', error);
+      toast({
+        title: 'Export Failed',
+        description: error instanceof Error ? error.message : 'Failed to export the family tree. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Export GEDCOM</DialogTitle>
+          <DialogDescription>
+            Download your family tree as a GEDCOM 7 file that can be opened in Ancestry,
+            FamilySearch and other genealogy software.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="gedcomIncludeMedia"
+              checked={includeMedia}
+              onCheckedChange={(checked) => setIncludeMedia(checked === true)}
+              disabled={loading}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="gedcomIncludeMedia">Include profile photos</Label>
+              <p className="text-sm text-gray-500">
+                Bundles the file and photos into a GEDZIP archive.
+              </p>
+            </div>
+          </div>
+
+          <p className="flex items-start gap-2 rounded-md bg-gray-50 p-3 text-sm text-gray-600">
+            <ShieldCheck className="mt-0.5 h-4 w-4 shrink-0" />
+            Living members with private profiles are exported without their names, dates or photos.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={loading}
+            className="bg-[#0A5C36] hover:bg-[#0A5C36]/90"
+          >
+            {loading ? <Spinner className="mr-2 h-4 w-4" /> : <Download className="mr-2 h-4 w-4" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, FileUp, Users } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Spinner } from '@/components/ui/spinner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  importGedcom,
+  type GedcomImportPerson,
+  type GedcomImportPlan,
+  type GedcomImportResolutions,
+} from '@/utils/functionUtils';
+import { useToast } from '@/hooks/use-toast';
+
+// Callable payloads are limited to 10MB, keep headroom for the request envelope
+const MAX_GEDCOM_FILE_SIZE = 8 * 1024 * 1024;
+
+interface GedcomImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  familyTreeId: string;
+  onImported?: () => void;
+}
+
+const STATUS_LABELS: Record<GedcomImportPerson['matchStatus'], string> = {
+  new: 'New',
+  duplicate: 'Already in tree',
+  conflict: 'Possible duplicate',
+};
+
+// Encodes the action select value as "create", "skip" or "link:<memberId>"
+const actionValue = (person: GedcomImportPerson) =>
+  person.action === 'link' && person.existingMemberId ? `link:${person.existingMemberId}` : person.action;
+
+export function GedcomImportDialog({
+  open,
+  onOpenChange,
+  familyTreeId,
+  onImported,
+}: GedcomImportDialogProps) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState('');
+  const [gedcomContent, setGedcomContent] = useState('');
+  const [plan, setPlan] = useState<GedcomImportPlan | null>(null);
+  const [resolutions, setResolutions] = useState<GedcomImportResolutions>({});
+  const [loading, setLoading] = useState(false);
+
+  const reset = () => {
+    setFileName('');
+    setGedcomContent('');
+    setPlan(null);
+    setResolutions({});
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (file.size > MAX_GEDCOM_FILE_SIZE) {
+      toast({
+        title: 'File Too Large',
+        description: 'GEDCOM files must be smaller than 8MB.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setFileName(file.name);
+    setGedcomContent(await file.text());
+    setPlan(null);
+    setResolutions({});
+  };
+
+  const runImport = async (dryRun: boolean, nextResolutions: GedcomImportResolutions) => {
+    setLoading(true);
+    try {
+      const result = await importGedcom({
+        familyTreeId,
+        gedcomContent,
+        dryRun,
+        resolutions: nextResolutions,
+      });
+
+      if (dryRun) {
+        setPlan(result.plan);
+        return;
+      }
+
+      toast({
+        title: 'Import Complete',
+        description: `${result.plan.summary.toCreate} members added and ${result.plan.summary.newRelationships} relationships created.`,
+      });
+      handleOpenChange(false);
+      onImported?.();
+    } catch (error) {
+      console.error('Error importing GEDCOM:', error);
+      toast({
+        title: dryRun ? 'Preview Failed' : 'Import Failed',
+        description: error instanceof Error ? error.message : 'Failed to import the GEDCOM file. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleActionChange = (person: GedcomImportPerson, value: string) => {
+    const nextResolutions: GedcomImportResolutions = {
+      ...resolutions,
+      [person.xref]: value.startsWith('link:')
+        ? { action: 'link', existingMemberId: value.slice('link:'.length) }
+        : { action: value as 'create' | 'skip' },
+    };
+    setResolutions(nextResolutions);
+    // Re-run the dry run so the relationship diff reflects the new decision
+    void runImport(true, nextResolutions);
+  };
+
+  const formatLifespan = (person: GedcomImportPerson) => {
+    const birth = person.dateOfBirth || person.birthDateText;
+    const death = person.dateOfDeath || person.deathDateText;
+    if (!birth && !death) return '—';
+    return `${birth || '?'} – ${death || (person.isDeceased ? '?' : '')}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import GEDCOM</DialogTitle>
+          <DialogDescription>
+            Add people and relationships from an Ancestry, FamilySearch or other genealogy export
+            (GEDCOM 5.5.1 or 7.0). You can review the changes before anything is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="gedcomFile">GEDCOM file</Label>
+            <div className="relative">
+              <FileUp className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <Input
+                id="gedcomFile"
+                type="file"
+                accept=".ged,.gedcom,text/plain"
+                onChange={handleFileChange}
+                className="pl-10"
+                disabled={loading}
+              />
+            </div>
+            {fileName && !plan && (
+              <p className="text-sm text-gray-500">{fileName} is ready to preview.</p>
+            )}
+          </div>
+
+          {plan && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">
+                  <Users className="mr-1 h-3 w-3" />
+                  {plan.summary.individuals} people in file
+                </Badge>
+                <Badge variant="secondary">{plan.summary.toCreate} to add</Badge>
+                <Badge variant="secondary">{plan.summary.toLink} already in tree</Badge>
+                <Badge variant="secondary">{plan.summary.newRelationships} new relationships</Badge>
+                {plan.summary.conflicts > 0 && (
+                  <Badge variant="destructive">{plan.summary.conflicts} possible duplicates</Badge>
+                )}
+              </div>
+
+              {plan.warnings.length > 0 && (
+                <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                  <p className="flex items-center gap-2 font-medium">
+                    <AlertTriangle className="h-4 w-4" />
+                    {plan.warnings.length} warning{plan.warnings.length === 1 ? '' : 's'}
+                  </p>
+                  <ul className="mt-1 list-disc pl-6">
+                    {plan.warnings.slice(0, 5).map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Dates</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[220px]">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.people.map((person) => (
+                    <TableRow key={person.xref}>
+                      <TableCell className="font-medium">
+                        {person.displayName || <span className="text-gray-400">Unnamed</span>}
+                        {person.placeOfBirth && (
+                          <span className="block text-xs text-gray-500">{person.placeOfBirth}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{formatLifespan(person)}</TableCell>
+                      <TableCell>
+                        <Badge variant={person.matchStatus === 'conflict' ? 'destructive' : 'outline'}>
+                          {STATUS_LABELS[person.matchStatus]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {person.candidates.length > 0 ? (
+                          <Select
+                            value={actionValue(person)}
+                            onValueChange={(value) => handleActionChange(person, value)}
+                            disabled={loading}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="create">Add as new person</SelectItem>
+                              {person.candidates.map((candidate) => (
+                                <SelectItem key={candidate.memberId} value={`link:${candidate.memberId}`}>
+                                  Same as {candidate.displayName}
+                                </SelectItem>
+                              ))}
+                              <SelectItem value="skip">Don&rsquo;t import</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-sm text-gray-600">
+                            {person.action === 'skip' ? 'Skipped' : 'Add as new person'}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          {plan ? (
+            <Button
+              onClick={() => runImport(false, resolutions)}
+              disabled={loading || plan.summary.toCreate + plan.summary.newRelationships === 0}
+              className="bg-[#0A5C36] hover:bg-[#0A5C36]/90"
+            >
+              {loading ? <Spinner className="mr-2 h-4 w-4" /> : null}
+              Import {plan.summary.toCreate} People
+            </Button>
+          ) : (
+            <Button
+              onClick={() => runImport(true, resolutions)}
+              disabled={loading || !gedcomContent}
+              className="bg-[#0A5C36] hover:bg-[#0A5C36]/90"
+            >
+              {loading ? <Spinner className="mr-2 h-4 w-4" /> : null}
+              Preview Import
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
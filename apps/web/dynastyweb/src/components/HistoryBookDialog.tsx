@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BookOpen, Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Spinner } from '@/components/ui/spinner';
+import {
+  getHistoryBook,
+  getHistoryBooks,
+  requestHistoryBook,
+  type HistoryBook,
+} from '@/utils/functionUtils';
+import { useToast } from '@/hooks/use-toast';
+
+// How often to check on a book while it is being generated
+const HISTORY_BOOK_POLL_INTERVAL_MS = 2000;
+
+interface HistoryBookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stories: Array<{ id: string; title: string; subtitle?: string }>;
+}
+
+export function HistoryBookDialog({ open, onOpenChange, stories }: HistoryBookDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('Our Family History');
+  const [subtitle, setSubtitle] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [includeFamilyTree, setIncludeFamilyTree] = useState(true);
+  const [includeTimeline, setIncludeTimeline] = useState(true);
+  const [book, setBook] = useState<HistoryBook | null>(null);
+  const [recentBooks, setRecentBooks] = useState<HistoryBook[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedIds(new Set(stories.map((story) => story.id)));
+    getHistoryBooks()
+      .then((result) => setRecentBooks(result.books.filter((recent) => recent.status === 'completed')))
+      .catch((error) => console.error('Error loading history books:', error));
+  }, [open, stories]);
+
+  // Poll until the book is finished
+  const bookId = book?.id;
+  const bookDone = book?.status === 'completed' || book?.status === 'failed';
+  useEffect(() => {
+    if (!bookId || bookDone) return;
+    const interval = setInterval(() => {
+      getHistoryBook(bookId)
+        .then(setBook)
+        .catch((error) => console.error('Error checking history book progress:', error));
+    }, HISTORY_BOOK_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [bookId, bookDone]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setBook(null);
+    onOpenChange(nextOpen);
+  };
+
+  const toggleStory = (storyId: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(storyId);
+    } else {
+      next.delete(storyId);
+    }
+    setSelectedIds(next);
+  };
+
+  const handleGenerate = async () => {
+    setLoading(true);
+    try {
+      const { bookId: newBookId } = await requestHistoryBook({
+        title: title.trim(),
+        subtitle: subtitle.trim() || undefined,
+        // Keep the page's story order; the server arranges stories by decade
+        storyIds: stories.filter((story) => selectedIds.has(story.id)).map((story) => story.id),
+        includeFamilyTree,
+        includeTimeline,
+      });
+      setBook(await getHistoryBook(newBookId));
+    } catch (error) {
+      console.error('Error requesting history book:', error);
+      toast({
+        title: 'Book Failed',
+        description: error instanceof Error ? error.message : 'Failed to start your history book. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Print History Book</DialogTitle>
+          <DialogDescription>
+            Turn your stories into a print-ready PDF with a cover, table of contents, chapters by
+            decade, a family tree chart and a timeline.
+          </DialogDescription>
+        </DialogHeader>
+
+        {book ? (
+          <div className="space-y-4 py-2">
+            <p className="font-medium">{book.title}</p>
+            {book.status === 'failed' ? (
+              <p className="text-sm text-red-600">{book.error}</p>
+            ) : (
+              <>
+                <Progress value={book.progress} />
+                <p className="text-sm text-gray-600">
+                  {book.stage}
+                  {book.status === 'completed' && book.pageCount ? ` (${book.pageCount} pages)` : ''}
+                </p>
+              </>
+            )}
+            {book.downloadUrl && (
+              <a href={book.downloadUrl} target="_blank" rel="noopener noreferrer">
+                <Button className="bg-[#0A5C36] hover:bg-[#0A5C36]/90">
+                  <Download className="mr-2 h-4 w-4" />
+                  Download PDF
+                </Button>
+              </a>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="historyBookTitle">Title</Label>
+              <Input
+                id="historyBookTitle"
+                value={title}
+                maxLength={120}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="historyBookSubtitle">Subtitle (optional)</Label>
+              <Input
+                id="historyBookSubtitle"
+                value={subtitle}
+                maxLength={200}
+                onChange={(e) => setSubtitle(e.target.value)}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="historyBookFamilyTree"
+                  checked={includeFamilyTree}
+                  onCheckedChange={(checked) => setIncludeFamilyTree(checked === true)}
+                />
+                <Label htmlFor="historyBookFamilyTree">Family tree chart</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="historyBookTimeline"
+                  checked={includeTimeline}
+                  onCheckedChange={(checked) => setIncludeTimeline(checked === true)}
+                />
+                <Label htmlFor="historyBookTimeline">Timeline</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Stories ({selectedIds.size} of {stories.length})</Label>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-[#0A5C36]"
+                  onClick={() =>
+                    setSelectedIds(
+                      selectedIds.size === stories.length ? new Set() : new Set(stories.map((story) => story.id))
+                    )
+                  }
+                >
+                  {selectedIds.size === stories.length ? 'Clear all' : 'Select all'}
+                </Button>
+              </div>
+              <div className="max-h-56 space-y-2 overflow-y-auto rounded-md border p-3">
+                {stories.map((story) => (
+                  <div key={story.id} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`historyBookStory-${story.id}`}
+                      checked={selectedIds.has(story.id)}
+                      onCheckedChange={(checked) => toggleStory(story.id, checked === true)}
+                    />
+                    <Label htmlFor={`historyBookStory-${story.id}`} className="font-normal">
+                      {story.title || 'Untitled story'}
+                      {story.subtitle && <span className="block text-xs text-gray-500">{story.subtitle}</span>}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {recentBooks.length > 0 && (
+              <div className="space-y-2">
+                <Label>Recent books</Label>
+                {recentBooks.map((recent) => (
+                  <div key={recent.id} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 text-gray-700">
+                      <BookOpen className="h-4 w-4" />
+                      {recent.title}
+                    </span>
+                    {recent.downloadUrl && (
+                      <a
+                        href={recent.downloadUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-[#0A5C36] hover:underline"
+                      >
+                        Download
+                      </a>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+            {book ? 'Close' : 'Cancel'}
+          </Button>
+          {!book && (
+            <Button
+              onClick={handleGenerate}
+              disabled={loading || selectedIds.size === 0 || !title.trim()}
+              className="bg-[#0A5C36] hover:bg-[#0A5C36]/90"
+            >
+              {loading ? <Spinner className="mr-2 h-4 w-4" /> : <BookOpen className="mr-2 h-4 w-4" />}
+              Create Book
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
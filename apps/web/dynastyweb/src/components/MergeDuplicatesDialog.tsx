@@ -0,0 +1,331 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ArrowRight, GitMerge, Undo2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Spinner } from '@/components/ui/spinner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  findDuplicateMembers,
+  mergeFamilyMembers,
+  undoMemberMerge,
+  type DuplicateMemberCandidate,
+  type MemberMergeConflict,
+  type MemberMergeFieldChoices,
+} from '@/utils/functionUtils';
+import { useToast } from '@/hooks/use-toast';
+
+interface MergeDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  familyTreeId: string;
+  onMerged?: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateMemberCandidate['reasons'][number], string> = {
+  same_name: 'Same name',
+  similar_name: 'Similar name',
+  same_birth_date: 'Same birth date',
+  same_birth_year: 'Same birth year',
+  no_birth_date: 'Birth date unknown',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  displayName: 'Display name',
+  gender: 'Gender',
+  dateOfBirth: 'Date of birth',
+  dateOfDeath: 'Date of death',
+  birthDateText: 'Birth date (as written)',
+  deathDateText: 'Death date (as written)',
+  placeOfBirth: 'Place of birth',
+  placeOfDeath: 'Place of death',
+  isDeceased: 'Deceased',
+  email: 'Email',
+  phoneNumber: 'Phone number',
+  bio: 'Bio',
+  profilePicture: 'Profile photo',
+  notes: 'Notes',
+};
+
+const formatValue = (value: unknown) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) return value.slice(0, 10);
+  if (value && typeof value === 'object') return 'Photo or details';
+  return String(value);
+};
+
+interface MergeReview {
+  candidate: DuplicateMemberCandidate;
+  keepIndex: 0 | 1;
+  conflicts: MemberMergeConflict[];
+  referenceCount: number;
+}
+
+export function MergeDuplicatesDialog({
+  open,
+  onOpenChange,
+  familyTreeId,
+  onMerged,
+}: MergeDuplicatesDialogProps) {
+  const { toast } = useToast();
+  const [candidates, setCandidates] = useState<DuplicateMemberCandidate[] | null>(null);
+  const [review, setReview] = useState<MergeReview | null>(null);
+  const [fieldChoices, setFieldChoices] = useState<MemberMergeFieldChoices>({});
+  const [lastMerge, setLastMerge] = useState<{ mergeId: string; names: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    findDuplicateMembers(familyTreeId)
+      .then((result) => setCandidates(result.candidates))
+      .catch((error) => {
+        console.error('Error finding duplicate members:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to look for duplicate members. Please try again.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [open, familyTreeId, toast]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setCandidates(null);
+      setReview(null);
+      setFieldChoices({});
+      setLastMerge(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  // The kept member is the merge target; the other record becomes a redirect to it
+  const getMergeIds = (candidate: DuplicateMemberCandidate, keepIndex: 0 | 1) => ({
+    targetMemberId: candidate.memberIds[keepIndex],
+    sourceMemberId: candidate.memberIds[keepIndex === 0 ? 1 : 0],
+  });
+
+  const startReview = async (candidate: DuplicateMemberCandidate, keepIndex: 0 | 1) => {
+    setLoading(true);
+    try {
+      const result = await mergeFamilyMembers({
+        familyTreeId,
+        ...getMergeIds(candidate, keepIndex),
+        dryRun: true,
+      });
+      setReview({
+        candidate,
+        keepIndex,
+        conflicts: result.conflicts || [],
+        referenceCount: result.referenceCount,
+      });
+      setFieldChoices({});
+    } catch (error) {
+      console.error('Error previewing member merge:', error);
+      toast({
+        title: 'Preview Failed',
+        description: error instanceof Error ? error.message : 'Failed to preview the merge. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!review) return;
+    setLoading(true);
+    try {
+      const result = await mergeFamilyMembers({
+        familyTreeId,
+        ...getMergeIds(review.candidate, review.keepIndex),
+        dryRun: false,
+        fieldChoices,
+      });
+      const mergedIds = review.candidate.memberIds;
+      setCandidates((current) =>
+        (current || []).filter((candidate) => !candidate.memberIds.some((id) => mergedIds.includes(id)))
+      );
+      setLastMerge({ mergeId: result.mergeId!, names: review.candidate.names[review.keepIndex] });
+      setReview(null);
+      toast({
+        title: 'Members Merged',
+        description: `${review.candidate.names[review.keepIndex]} now has ${result.referenceCount} combined links. You can undo this for 30 days.`,
+      });
+      onMerged?.();
+    } catch (error) {
+      console.error('Error merging members:', error);
+      toast({
+        title: 'Merge Failed',
+        description: error instanceof Error ? error.message : 'Failed to merge the members. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!lastMerge) return;
+    setLoading(true);
+    try {
+      await undoMemberMerge(lastMerge.mergeId);
+      setLastMerge(null);
+      toast({ title: 'Merge Undone', description: 'Both members have been restored.' });
+      onMerged?.();
+      setCandidates((await findDuplicateMembers(familyTreeId)).candidates);
+    } catch (error) {
+      console.error('Error undoing member merge:', error);
+      toast({
+        title: 'Undo Failed',
+        description: error instanceof Error ? error.message : 'Failed to undo the merge. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge Duplicate Members</DialogTitle>
+          <DialogDescription>
+            People added twice, for example by two relatives, can be merged into one. Their
+            relationships, story tags, event invitations and shared files are combined.
+          </DialogDescription>
+        </DialogHeader>
+
+        {lastMerge && (
+          <div className="flex items-center justify-between gap-3 rounded-md bg-gray-50 p-3 text-sm text-gray-600">
+            <span>Merged into {lastMerge.names}.</span>
+            <Button variant="outline" size="sm" onClick={handleUndo} disabled={loading}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              Undo
+            </Button>
+          </div>
+        )}
+
+        {review ? (
+          <div className="space-y-4">
+            <p className="flex items-center gap-2 text-sm font-medium">
+              {review.candidate.names[review.keepIndex === 0 ? 1 : 0]}
+              <ArrowRight className="h-4 w-4 text-gray-400" />
+              {review.candidate.names[review.keepIndex]}
+            </p>
+            <p className="text-sm text-gray-600">
+              {review.referenceCount} relationships, tags and shares will move to the kept member.
+            </p>
+
+            {review.conflicts.length > 0 ? (
+              <div className="space-y-3">
+                <p className="text-sm font-medium">These details differ. Choose which to keep:</p>
+                {review.conflicts.map((conflict) => (
+                  <div key={conflict.field} className="grid grid-cols-[140px_1fr] items-center gap-3">
+                    <span className="text-sm text-gray-600">{FIELD_LABELS[conflict.field] || conflict.field}</span>
+                    <Select
+                      value={fieldChoices[conflict.field] || 'target'}
+                      onValueChange={(value) =>
+                        setFieldChoices({ ...fieldChoices, [conflict.field]: value as 'source' | 'target' })
+                      }
+                      disabled={loading}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="target">{formatValue(conflict.targetValue)}</SelectItem>
+                        <SelectItem value="source">{formatValue(conflict.sourceValue)}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">No conflicting details were found.</p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {loading && !candidates && (
+              <div className="flex justify-center py-6">
+                <Spinner className="h-6 w-6" />
+              </div>
+            )}
+            {candidates?.length === 0 && (
+              <p className="py-6 text-center text-sm text-gray-500">No likely duplicates were found.</p>
+            )}
+            {candidates?.map((candidate) => (
+              <div key={candidate.memberIds.join(':')} className="rounded-md border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium">{candidate.names.join(' & ')}</p>
+                  <Badge variant="secondary">{Math.round(candidate.score * 100)}% match</Badge>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {candidate.reasons.map((reason) => (
+                    <Badge key={reason} variant="outline">{REASON_LABELS[reason]}</Badge>
+                  ))}
+                </div>
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {([0, 1] as const).map((keepIndex) => (
+                    <Button
+                      key={keepIndex}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => startReview(candidate, keepIndex)}
+                      disabled={loading}
+                    >
+                      <GitMerge className="mr-2 h-4 w-4" />
+                      Keep {candidate.names[keepIndex]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {review ? (
+            <>
+              <Button variant="outline" onClick={() => setReview(null)} disabled={loading}>
+                Back
+              </Button>
+              <Button
+                onClick={handleMerge}
+                disabled={loading}
+                className="bg-[#0A5C36] hover:bg-[#0A5C36]/90"
+              >
+                {loading ? <Spinner className="mr-2 h-4 w-4" /> : null}
+                Merge
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
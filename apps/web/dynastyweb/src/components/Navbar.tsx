@@ -14,7 +14,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { Settings, LogOut, Plus, BookOpen, Users, Home, PenSquare, Menu, Calendar, Lock } from "lucide-react"
+import { Settings, LogOut, Plus, BookOpen, Users, Home, PenSquare, Menu, Calendar, Lock, MessageCircle } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useAuth } from "@/context/AuthContext"
 import NotificationBell from "./NotificationBell"
@@ -45,6 +45,7 @@ export default function Navbar({ user }: NavbarProps) {
     if (pathname?.includes('/events')) return 'Events'
     if (pathname?.includes('/story')) return 'Story'
     if (pathname?.includes('/vault')) return 'Vault'
+    if (pathname?.includes('/chat')) return 'Messages'
     return 'Dynasty'
   }
 
@@ -155,6 +156,20 @@ export default function Navbar({ user }: NavbarProps) {
               pathname?.includes('/vault') ? "scale-x-100" : "scale-x-0 group-hover:scale-x-100"
             )} />
           </Link>
+          <Link
+            href="/chat"
+            className={cn(
+              "flex items-center gap-2 text-sm font-medium transition-all duration-200 relative group", 
+              pathname?.includes('/chat') ? "text-[#0A5C36]" : "text-gray-600 hover:text-[#0A5C36]"
+            )}
+          >
+            <MessageCircle className="h-4 w-4 transition-transform duration-200 group-hover:scale-110" />
+            <span>Messages</span>
+            <span className={cn(
+              "absolute -bottom-1 left-0 w-full h-0.5 bg-[#0A5C36] transition-transform duration-200 origin-left",
+              pathname?.includes('/chat') ? "scale-x-100" : "scale-x-0 group-hover:scale-x-100"
+            )} />
+          </Link>
         </div>
 
         {/* Right Side Icons */}
@@ -291,6 +306,12 @@ export default function Navbar({ user }: NavbarProps) {
                   <span>Vault</span>
                 </Link>
               </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href="/chat" className="flex items-center gap-2 cursor-pointer">
+                  <MessageCircle className="h-4 w-4" />
+                  <span>Messages</span>
+                </Link>
+              </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
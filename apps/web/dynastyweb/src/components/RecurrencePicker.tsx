@@ -0,0 +1,95 @@
+"use client"
+
+import { Repeat } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { RecurrenceFrequency, RecurrenceOptions } from "@/utils/eventUtils"
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, { label: string; unit: string }> = {
+  DAILY: { label: "Daily", unit: "day" },
+  WEEKLY: { label: "Weekly", unit: "week" },
+  MONTHLY: { label: "Monthly", unit: "month" },
+  YEARLY: { label: "Yearly", unit: "year" },
+}
+
+interface RecurrencePickerProps {
+  value: RecurrenceOptions | null
+  onChange: (value: RecurrenceOptions | null) => void
+  minEndDate?: string // YYYY-MM-DD
+  disabled?: boolean
+}
+
+export function RecurrencePicker({ value, onChange, minEndDate, disabled }: RecurrencePickerProps) {
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === "none") {
+      onChange(null)
+      return
+    }
+    onChange({ interval: 1, until: null, ...value, frequency: frequency as RecurrenceFrequency })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium text-gray-700 flex items-center">
+          <Repeat className="mr-2 h-4 w-4 text-[#0A5C36]" />
+          Repeat
+        </Label>
+        <Select value={value?.frequency || "none"} onValueChange={handleFrequencyChange} disabled={disabled}>
+          <SelectTrigger className="w-[180px] border-gray-300">
+            <SelectValue placeholder="Does not repeat" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+              <SelectItem key={frequency} value={frequency}>
+                {FREQUENCY_LABELS[frequency].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-4 bg-gray-50 rounded-lg">
+          <div className="space-y-2">
+            <Label htmlFor="recurrenceInterval" className="text-sm text-gray-600">
+              Every
+            </Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="recurrenceInterval"
+                type="number"
+                min={1}
+                max={99}
+                value={value.interval}
+                onChange={(e) => onChange({ ...value, interval: Math.max(Number(e.target.value) || 1, 1) })}
+                disabled={disabled}
+                className="w-20 border-gray-300"
+              />
+              <span className="text-sm text-gray-600">
+                {FREQUENCY_LABELS[value.frequency].unit}
+                {value.interval > 1 ? "s" : ""}
+              </span>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="recurrenceUntil" className="text-sm text-gray-600">
+              Ends on (optional)
+            </Label>
+            <Input
+              id="recurrenceUntil"
+              type="date"
+              min={minEndDate}
+              value={value.until || ""}
+              onChange={(e) => onChange({ ...value, until: e.target.value || null })}
+              disabled={disabled}
+              className="border-gray-300"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,284 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, History, RotateCcw } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import {
+  getStoryRevision,
+  getStoryRevisions,
+  restoreStoryRevision,
+  type StoryBlockChangeKind,
+  type StoryRevision,
+  type StoryRevisionSummary,
+} from '@/utils/functionUtils';
+import { useToast } from '@/hooks/use-toast';
+
+const REVISIONS_PAGE_SIZE = 20;
+
+const CHANGE_BADGE_STYLES: Record<StoryBlockChangeKind, string> = {
+  added: 'bg-green-100 text-green-800',
+  modified: 'bg-amber-100 text-amber-800',
+  moved: 'bg-blue-100 text-blue-800',
+  removed: 'bg-red-100 text-red-800',
+};
+
+interface StoryRevisionsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storyId: string;
+  onRestored: () => void;
+}
+
+// Text blocks are stored as limited HTML; previews only need the words
+const toPlainText = (html: string) => html.replace(/<[^>]+>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+
+export function StoryRevisionsPanel({ open, onOpenChange, storyId, onRestored }: StoryRevisionsPanelProps) {
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<StoryRevisionSummary[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [selected, setSelected] = useState<StoryRevision | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSelected(null);
+    setLoading(true);
+    getStoryRevisions(storyId, { limit: REVISIONS_PAGE_SIZE })
+      .then((result) => {
+        setRevisions(result.revisions);
+        setHasMore(result.hasMore);
+      })
+      .catch((error) => {
+        console.error('Error loading story revisions:', error);
+        toast({
+          title: 'Error',
+          description: 'Failed to load the story history.',
+          variant: 'destructive',
+        });
+      })
+      .finally(() => setLoading(false));
+  }, [open, storyId, toast]);
+
+  const loadMore = async () => {
+    const last = revisions[revisions.length - 1];
+    if (!last) return;
+    setLoading(true);
+    try {
+      const result = await getStoryRevisions(storyId, {
+        limit: REVISIONS_PAGE_SIZE,
+        startAfterRevision: last.revisionNumber,
+      });
+      setRevisions([...revisions, ...result.revisions]);
+      setHasMore(result.hasMore);
+    } catch (error) {
+      console.error('Error loading story revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openRevision = async (revisionId: string) => {
+    setLoading(true);
+    try {
+      const { revision } = await getStoryRevision(storyId, revisionId);
+      setSelected(revision);
+    } catch (error) {
+      console.error('Error loading story revision:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load this version.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      const { restored } = await restoreStoryRevision(storyId, selected.id);
+      toast({
+        title: restored ? 'Version Restored' : 'Nothing to Restore',
+        description: restored
+          ? `Your story now matches revision ${selected.revisionNumber}.`
+          : 'Your story already matches this version.',
+      });
+      setConfirmRestore(false);
+      onOpenChange(false);
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring story revision:', error);
+      toast({
+        title: 'Restore Failed',
+        description: error instanceof Error ? error.message : 'Failed to restore this version.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const latestRevisionNumber = revisions[0]?.revisionNumber;
+  const changeFor = (localId: string) => selected?.blockChanges.find((change) => change.localId === localId);
+  const removedCount = selected?.blockChanges.filter((change) => change.kind === 'removed').length || 0;
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Story History
+            </SheetTitle>
+            <SheetDescription>
+              Every saved change is kept. Open a version to see what changed and restore it.
+            </SheetDescription>
+          </SheetHeader>
+
+          {selected ? (
+            <div className="mt-6 space-y-4">
+              <Button variant="ghost" size="sm" className="px-0" onClick={() => setSelected(null)}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                All versions
+              </Button>
+              <div>
+                <p className="font-medium">Revision {selected.revisionNumber}</p>
+                <p className="text-sm text-gray-500">
+                  {selected.editor.displayName} &middot;{' '}
+                  {formatDistanceToNow(new Date(selected.editedAt), { addSuffix: true })}
+                </p>
+                <p className="text-sm text-gray-700 mt-1">{selected.summary}</p>
+              </div>
+
+              <div className="rounded-md border p-4 space-y-3">
+                <h3 className="text-lg font-semibold">{selected.content.title}</h3>
+                {selected.content.subtitle && <p className="text-gray-600">{selected.content.subtitle}</p>}
+                {selected.content.blocks.map((block) => {
+                  const change = changeFor(block.localId);
+                  return (
+                    <div key={block.localId} className="space-y-1">
+                      {change && (
+                        <Badge variant="outline" className={CHANGE_BADGE_STYLES[change.kind]}>
+                          {change.kind}
+                        </Badge>
+                      )}
+                      {block.type === 'text' && typeof block.data === 'string' ? (
+                        <p className="text-sm text-gray-800 whitespace-pre-wrap">{toPlainText(block.data)}</p>
+                      ) : (
+                        <p className="text-sm italic text-gray-500">
+                          {Array.isArray(block.data) ? block.data.length : 1} {block.type} file
+                          {Array.isArray(block.data) && block.data.length !== 1 ? 's' : ''}
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+                {removedCount > 0 && (
+                  <p className="text-sm text-red-700">
+                    {removedCount} block{removedCount === 1 ? ' was' : 's were'} removed in this revision.
+                  </p>
+                )}
+              </div>
+
+              {selected.revisionNumber !== latestRevisionNumber && (
+                <Button
+                  className="w-full bg-[#0A5C36] hover:bg-[#0A5C36]/90"
+                  onClick={() => setConfirmRestore(true)}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Restore this version
+                </Button>
+              )}
+            </div>
+          ) : (
+            <div className="mt-6 space-y-2">
+              {revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => openRevision(revision.id)}
+                  disabled={loading}
+                  className="w-full rounded-md border p-3 text-left hover:bg-gray-50"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">Revision {revision.revisionNumber}</span>
+                    {revision.revisionNumber === latestRevisionNumber && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-700">{revision.summary}</p>
+                  <p className="text-xs text-gray-500">
+                    {revision.editor.displayName} &middot;{' '}
+                    {formatDistanceToNow(new Date(revision.editedAt), { addSuffix: true })}
+                  </p>
+                </button>
+              ))}
+              {loading && (
+                <div className="flex justify-center py-4">
+                  <Spinner className="h-5 w-5" />
+                </div>
+              )}
+              {!loading && revisions.length === 0 && (
+                <p className="text-sm text-gray-500">No history has been recorded for this story yet.</p>
+              )}
+              {hasMore && !loading && (
+                <Button variant="outline" className="w-full" onClick={loadMore}>
+                  Load older versions
+                </Button>
+              )}
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={confirmRestore} onOpenChange={setConfirmRestore}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore revision {selected?.revisionNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The story&apos;s title, date, location, people and content will be replaced with this version.
+              The current version stays in the history, so you can switch back at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRestore();
+              }}
+              disabled={restoring}
+              className="bg-[#0A5C36] hover:bg-[#0A5C36]/90"
+            >
+              {restoring && <Spinner className="mr-2 h-4 w-4" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
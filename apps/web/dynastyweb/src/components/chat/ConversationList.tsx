@@ -0,0 +1,49 @@
+'use client';
+
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+import { Users } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { UserAvatar } from '@/components/ui/user-avatar';
+import { cn } from '@/lib/utils';
+import type { ChatSummary } from '@/services/ChatService';
+
+interface ConversationListProps {
+  chats: ChatSummary[];
+}
+
+export default function ConversationList({ chats }: ConversationListProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      {chats.map((chat) => (
+        <Link key={chat.id} href={`/chat/${chat.id}`}>
+          <Card
+            className={cn(
+              'p-4 flex items-center gap-3 hover:bg-gray-50 transition-colors',
+              chat.unread && 'border-l-4 border-l-[#0A5C36]'
+            )}
+          >
+            {chat.type === 'group' ? (
+              <div className="h-10 w-10 rounded-full bg-[#0A5C36]/10 flex items-center justify-center text-[#0A5C36]">
+                <Users className="h-5 w-5" />
+              </div>
+            ) : (
+              <UserAvatar alt={chat.name} />
+            )}
+            <div className="flex-1 min-w-0">
+              <h3 className={cn('truncate', chat.unread ? 'font-semibold' : 'font-medium')}>{chat.name}</h3>
+              {chat.type === 'group' && (
+                <p className="text-gray-500 text-sm">{chat.participants.length} members</p>
+              )}
+            </div>
+            {chat.lastMessageAt && (
+              <span className="text-gray-400 text-xs whitespace-nowrap">
+                {formatDistanceToNow(chat.lastMessageAt, { addSuffix: true })}
+              </span>
+            )}
+          </Card>
+        </Link>
+      ))}
+    </div>
+  );
+}
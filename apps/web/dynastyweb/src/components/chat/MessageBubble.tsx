@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Ban, Check, CheckCheck, Download, FileText, Loader2, Lock, Timer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { formatFileSize } from '@/services/VaultService';
+import { getChatService, type ChatAttachment, type ChatMessage } from '@/services/ChatService';
+
+interface MessageBubbleProps {
+  message: ChatMessage;
+  isOwn: boolean;
+  senderName?: string;
+  // Participants other than the sender, for read receipts
+  recipientCount: number;
+}
+
+export default function MessageBubble({ message, isOwn, senderName, recipientCount }: MessageBubbleProps) {
+  const readByAll = recipientCount > 0 && message.read.length >= recipientCount;
+  const delivered = message.delivered.length > 0 || message.read.length > 0;
+
+  if (message.type === 'system') {
+    return (
+      <p className="self-center max-w-[85%] rounded-full bg-gray-100 px-3 py-1 text-center text-xs text-gray-600">
+        {message.text}
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn('flex flex-col max-w-[75%]', isOwn ? 'self-end items-end' : 'self-start items-start')}>
+      {senderName && <span className="text-xs text-gray-500 mb-1 px-1">{senderName}</span>}
+      <div
+        className={cn(
+          'rounded-2xl px-4 py-2 break-words',
+          isOwn ? 'bg-[#0A5C36] text-white rounded-br-sm' : 'bg-gray-100 text-gray-900 rounded-bl-sm'
+        )}
+      >
+        {message.deletedForEveryone ? (
+          <span className="flex items-center gap-2 italic opacity-75">
+            <Ban className="h-3.5 w-3.5" />
+            This message was deleted
+          </span>
+        ) : message.undecryptable ? (
+          <span className="flex items-center gap-2 italic opacity-75">
+            <Lock className="h-3.5 w-3.5" />
+            This message can&apos;t be shown on this device
+          </span>
+        ) : (
+          <>
+            {message.replyTo && (
+              <p
+                className={cn(
+                  'border-l-2 pl-2 mb-1 text-sm line-clamp-2',
+                  isOwn ? 'border-white/60 text-white/80' : 'border-[#0A5C36] text-gray-600'
+                )}
+              >
+                {message.replyTo.preview}
+              </p>
+            )}
+            {message.attachment && <Attachment attachment={message.attachment} type={message.type} />}
+            {message.text && <p className="whitespace-pre-wrap">{message.text}</p>}
+          </>
+        )}
+      </div>
+      {message.reactions && message.reactions.length > 0 && (
+        <div className="flex flex-wrap gap-1 -mt-1.5 px-2">
+          {message.reactions.map((reaction) => (
+            <span
+              key={reaction.emoji}
+              className="rounded-full bg-white border border-gray-200 px-1.5 text-xs shadow-sm"
+            >
+              {reaction.emoji}
+              {reaction.userIds.length > 1 && ` ${reaction.userIds.length}`}
+            </span>
+          ))}
+        </div>
+      )}
+      <span className="flex items-center gap-1 text-[11px] text-gray-400 mt-1 px-1">
+        {format(message.timestamp, 'h:mm a')}
+        {message.expiresAt && (
+          <span title={`Disappears ${format(message.expiresAt, 'MMM d, h:mm a')}`}>
+            <Timer className="h-3 w-3" />
+          </span>
+        )}
+        {message.editedAt && !message.deletedForEveryone && <span>· edited</span>}
+        {isOwn && (readByAll ? (
+          <CheckCheck className="h-3.5 w-3.5 text-[#0A5C36]" />
+        ) : delivered ? (
+          <CheckCheck className="h-3.5 w-3.5" />
+        ) : (
+          <Check className="h-3.5 w-3.5" />
+        ))}
+      </span>
+    </div>
+  );
+}
+
+function Attachment({ attachment, type }: { attachment: ChatAttachment; type: ChatMessage['type'] }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const isImage = attachment.mimeType.startsWith('image/');
+  const isVideo = attachment.mimeType.startsWith('video/');
+  const isAudio = type === 'voice' || attachment.mimeType.startsWith('audio/');
+  const inline = isImage || isVideo || isAudio;
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const blob = await getChatService().downloadAttachment(attachment);
+      const objectUrl = URL.createObjectURL(blob);
+      setUrl(objectUrl);
+      return objectUrl;
+    } catch (error) {
+      console.error('Error decrypting attachment:', error);
+      setFailed(true);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Media is decrypted as soon as it's shown; other files wait for a click
+  useEffect(() => {
+    if (inline) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [attachment.encryptedUrl]);
+
+  useEffect(() => () => {
+    if (url) URL.revokeObjectURL(url);
+  }, [url]);
+
+  const handleDownload = async () => {
+    const objectUrl = url || await load();
+    if (!objectUrl) return;
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = attachment.fileName;
+    link.click();
+  };
+
+  if (failed) {
+    return <p className="italic opacity-75">Attachment couldn&apos;t be decrypted</p>;
+  }
+
+  if (inline && !url) {
+    return (
+      <div className="flex items-center justify-center w-48 h-32">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (isImage && url) {
+    // eslint-disable-next-line @next/next/no-img-element
+    return <img src={url} alt={attachment.fileName} className="rounded-lg max-h-80 mb-1" />;
+  }
+  if (isVideo && url) {
+    return <video src={url} controls className="rounded-lg max-h-80 mb-1" />;
+  }
+  if (isAudio && url) {
+    return <audio src={url} controls className="mb-1" />;
+  }
+
+  return (
+    <div className="flex items-center gap-3 py-1">
+      <FileText className="h-8 w-8 flex-shrink-0" />
+      <div className="min-w-0">
+        <p className="truncate text-sm font-medium">{attachment.fileName}</p>
+        <p className="text-xs opacity-75">{formatFileSize(attachment.fileSize)}</p>
+      </div>
+      <Button variant="ghost" size="icon" onClick={handleDownload} disabled={loading}>
+        {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useRef, useState, type KeyboardEvent } from 'react';
+import { Loader2, Paperclip, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+
+// Attachments go through the browser's memory to be encrypted
+const MAX_ATTACHMENT_SIZE = 100 * 1024 * 1024;
+
+interface MessageComposerProps {
+  disabled?: boolean;
+  onSendText: (text: string) => Promise<void>;
+  onSendAttachment: (file: File) => Promise<void>;
+  onTyping: () => void;
+}
+
+export default function MessageComposer({ disabled, onSendText, onSendAttachment, onTyping }: MessageComposerProps) {
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const send = async (action: () => Promise<void>) => {
+    setSending(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast({
+        title: 'Message not sent',
+        description: 'Your message couldn\'t be encrypted and sent. Please try again.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSend = async () => {
+    const trimmed = text.trim();
+    if (!trimmed || sending) return;
+    if (await send(() => onSendText(trimmed))) {
+      setText('');
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  const handleFileSelected = async (file?: File) => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast({
+        title: 'File too large',
+        description: 'Attachments can be up to 100 MB.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    await send(() => onSendAttachment(file));
+  };
+
+  return (
+    <div className="flex items-end gap-2 border-t p-3 bg-white">
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        onChange={(event) => handleFileSelected(event.target.files?.[0])}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={disabled || sending}
+        onClick={() => fileInputRef.current?.click()}
+        aria-label="Attach a file"
+      >
+        <Paperclip className="h-5 w-5" />
+      </Button>
+      <Textarea
+        value={text}
+        onChange={(event) => {
+          setText(event.target.value);
+          onTyping();
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Message"
+        rows={1}
+        disabled={disabled}
+        className="min-h-[40px] max-h-32 resize-none"
+      />
+      <Button
+        size="icon"
+        disabled={disabled || sending || !text.trim()}
+        onClick={handleSend}
+        className="bg-[#0A5C36] hover:bg-[#0A5C36]/90"
+        aria-label="Send message"
+      >
+        {sending ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
+      </Button>
+    </div>
+  );
+}
@@ -30,6 +30,7 @@ import {
   Download,
   Eye,
   EyeOff,
+  Hash,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
@@ -41,6 +42,8 @@ interface ShareLinkManagerProps {
   item: VaultItem;
   isOpen: boolean;
   onClose: () => void;
+  // Adds the file key to the link for encrypted items; resolves to null while the vault is locked
+  addShareKey?: (shareLink: string, itemId: string) => Promise<string | null>;
 }
 
 interface ShareOptions {
@@ -49,9 +52,12 @@ interface ShareOptions {
   password?: string;
   userIds?: string[];
   requireAuth: boolean;
+  oneTime: boolean;
+  // Empty for unlimited views
+  maxAccessCount: string;
 }
 
-export function ShareLinkManager({ item, isOpen, onClose }: ShareLinkManagerProps) {
+export function ShareLinkManager({ item, isOpen, onClose, addShareKey }: ShareLinkManagerProps) {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [shareLink, setShareLink] = useState<string | null>(null);
@@ -61,8 +67,16 @@ export function ShareLinkManager({ item, isOpen, onClose }: ShareLinkManagerProp
     expiresAt: addDays(new Date(), 7),
     allowDownload: true,
     requireAuth: false,
+    oneTime: false,
+    maxAccessCount: '',
   });
 
+  const maxAccessCount = options.maxAccessCount ? parseInt(options.maxAccessCount, 10) : undefined;
+  // Recipients decrypt encrypted files with a key from the link, which needs the unlocked vault
+  const cannotShareEncrypted = !!item.isEncrypted && !addShareKey;
+  const invalidAccessLimit =
+    maxAccessCount !== undefined && (!Number.isInteger(maxAccessCount) || maxAccessCount < 1 || maxAccessCount > 1000);
+
   const handleCreateShareLink = async () => {
     setLoading(true);
     try {
@@ -71,9 +85,25 @@ export function ShareLinkManager({ item, isOpen, onClose }: ShareLinkManagerProp
         allowDownload: options.allowDownload,
         password: options.password,
         userIds: options.requireAuth ? options.userIds : undefined,
+        oneTime: options.oneTime,
+        maxAccessCount: options.oneTime ? undefined : maxAccessCount,
       });
 
-      setShareLink(result.shareLink);
+      let link: string | null = result.shareLink;
+      if (item.isEncrypted) {
+        link = addShareKey ? await addShareKey(result.shareLink, item.id) : null;
+        if (!link) {
+          await vaultService.revokeShare(result.shareId);
+          toast({
+            title: 'Vault locked',
+            description: 'Unlock your vault to share encrypted files',
+            variant: 'destructive',
+          });
+          return;
+        }
+      }
+
+      setShareLink(link);
       setShareId(result.shareId);
 
       toast({
@@ -224,6 +254,11 @@ export function ShareLinkManager({ item, isOpen, onClose }: ShareLinkManagerProp
                   }
                 />
               </div>
+              {!options.allowDownload && (
+                <p className="text-xs text-gray-500">
+                  View only hides the download button. Anyone who can view the file can still save a copy.
+                </p>
+              )}
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                   <Shield className="h-4 w-4 text-gray-500" />
@@ -238,11 +273,54 @@ export function ShareLinkManager({ item, isOpen, onClose }: ShareLinkManagerProp
               </div>
             </div>
 
+            {/* Access Limit */}
+            <div className="space-y-3">
+              <Label>Access limit</Label>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Eye className="h-4 w-4 text-gray-500" />
+                  <span className="text-sm">One-time link</span>
+                </div>
+                <Switch
+                  checked={options.oneTime}
+                  onCheckedChange={(checked) =>
+                    setOptions({ ...options, oneTime: checked })
+                  }
+                />
+              </div>
+              {!options.oneTime && (
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Hash className="h-4 w-4 text-gray-500" />
+                    <Input
+                      id="maxAccessCount"
+                      type="number"
+                      min={1}
+                      max={1000}
+                      placeholder="Unlimited views"
+                      value={options.maxAccessCount}
+                      onChange={(e) =>
+                        setOptions({ ...options, maxAccessCount: e.target.value })
+                      }
+                    />
+                  </div>
+                  {invalidAccessLimit && (
+                    <p className="text-xs text-red-600">Enter a number of views between 1 and 1000</p>
+                  )}
+                </div>
+              )}
+            </div>
+
             <DialogFooter>
               <Button variant="outline" onClick={onClose}>
                 Cancel
               </Button>
-              <Button onClick={handleCreateShareLink} disabled={loading}>
+              {cannotShareEncrypted && (
+                <p className="text-xs text-red-600 sm:mr-auto">
+                  Unlock your vault to share encrypted files
+                </p>
+              )}
+              <Button onClick={handleCreateShareLink} disabled={loading || invalidAccessLimit || cannotShareEncrypted}>
                 {loading ? (
                   <>
                     <Spinner className="mr-2 h-4 w-4" />
@@ -287,6 +365,18 @@ export function ShareLinkManager({ item, isOpen, onClose }: ShareLinkManagerProp
                       Password protected
                     </div>
                   )}
+                  {!options.allowDownload && (
+                    <div className="flex items-center gap-1">
+                      <Eye className="h-3 w-3" />
+                      View only
+                    </div>
+                  )}
+                  {(options.oneTime || maxAccessCount) && (
+                    <div className="flex items-center gap-1">
+                      <Hash className="h-3 w-3" />
+                      {options.oneTime ? 'One-time' : `${maxAccessCount} views`}
+                    </div>
+                  )}
                 </div>
               </div>
             </Card>
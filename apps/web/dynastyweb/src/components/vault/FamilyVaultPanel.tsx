@@ -0,0 +1,186 @@
+'use client';
+
+import { useState } from 'react';
+import { HardDrive, Users } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import {
+  vaultSDKService as vaultService,
+  type FamilyVaultInfo,
+  type FamilyVaultRole,
+} from '@/services/VaultSDKService';
+import { formatFileSize } from '@/services/VaultService';
+import { useToast } from '@/hooks/use-toast';
+
+interface FamilyVaultPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  info: FamilyVaultInfo | null;
+  onChanged?: () => void;
+}
+
+const ROLE_LABELS: Record<FamilyVaultRole, string> = {
+  viewer: 'Viewer',
+  contributor: 'Contributor',
+  manager: 'Manager',
+};
+
+const ROLE_DESCRIPTIONS: Record<FamilyVaultRole, string> = {
+  viewer: 'You can open and download what the family keeps here.',
+  contributor: 'You can add files and folders, and change the ones you added.',
+  manager: 'You can add, change and remove anything in the family vault.',
+};
+
+export function FamilyVaultPanel({ open, onOpenChange, info, onChanged }: FamilyVaultPanelProps) {
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
+
+  const runChange = async (change: () => Promise<void>, failure: string) => {
+    setSaving(true);
+    try {
+      await change();
+      onChanged?.();
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLinkPlan = () => {
+    if (!info) return;
+    runChange(
+      () => vaultService.createFamilyVault(info.familyTreeId),
+      info.exists ? 'Failed to link your family plan.' : 'Failed to set up the family vault.'
+    );
+  };
+
+  const handleRoleChange = (userId: string, displayName: string, role: FamilyVaultRole) => {
+    if (!info) return;
+    runChange(
+      () => vaultService.updateFamilyVaultMemberRole(info.familyTreeId, userId, role),
+      `Failed to change the role of ${displayName}.`
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            {info?.treeName || 'Family tree'} vault
+          </SheetTitle>
+          <SheetDescription>
+            Files kept here belong to the family tree, so they stay when a member leaves.
+          </SheetDescription>
+        </SheetHeader>
+
+        {!info && (
+          <div className="flex justify-center py-4">
+            <Spinner className="h-5 w-5" />
+          </div>
+        )}
+
+        {info && !info.exists && (
+          <div className="mt-6 space-y-3">
+            <p className="text-sm text-gray-600">
+              {info.canManage
+                ? 'Set up a shared vault for everyone in the family tree. Its storage counts against your family plan.'
+                : 'A tree admin needs to set up the family vault before files can be added.'}
+            </p>
+            {info.canManage && (
+              <Button
+                onClick={handleLinkPlan}
+                disabled={saving}
+                className="w-full bg-[#0A5C36] hover:bg-[#0A5C36]/90 text-white"
+              >
+                {saving && <Spinner className="mr-2 h-4 w-4" />}
+                Set up family vault
+              </Button>
+            )}
+          </div>
+        )}
+
+        {info?.exists && (
+          <>
+            <div className="mt-6 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2 text-sm font-medium">
+                  <HardDrive className="h-4 w-4" />
+                  {formatFileSize(info.usedBytes || 0)} used
+                </span>
+                {info.role && <Badge variant="secondary">{ROLE_LABELS[info.role]}</Badge>}
+              </div>
+              {info.role && <p className="mt-1 text-xs text-gray-500">{ROLE_DESCRIPTIONS[info.role]}</p>}
+            </div>
+
+            {!info.planLinked && (
+              <div className="mt-4 space-y-2 rounded-md border border-amber-200 bg-amber-50 p-3">
+                <p className="text-sm text-amber-800">
+                  The family vault isn&apos;t linked to a family plan, so nothing new can be uploaded.
+                </p>
+                {info.canManage && (
+                  <Button onClick={handleLinkPlan} disabled={saving} size="sm" variant="outline">
+                    {saving && <Spinner className="mr-2 h-4 w-4" />}
+                    Link my family plan
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="mt-6 space-y-2">
+              {(info.members || []).map((member) => (
+                <div key={member.userId} className="flex items-center justify-between gap-2 rounded-md border p-3">
+                  <span className="truncate font-medium">{member.displayName}</span>
+                  {info.canManage && !member.isTreeAdmin ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) =>
+                        handleRoleChange(member.userId, member.displayName, value as FamilyVaultRole)
+                      }
+                      disabled={saving}
+                    >
+                      <SelectTrigger className="h-8 w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                        <SelectItem value="contributor">{ROLE_LABELS.contributor}</SelectItem>
+                        <SelectItem value="manager">{ROLE_LABELS.manager}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary">
+                      {member.isTreeAdmin ? 'Tree admin' : ROLE_LABELS[member.role]}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ChevronDown, ChevronUp, Download, Eye, Link2, Lock } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { vaultSDKService as vaultService } from '@/services/VaultSDKService';
+import type {
+  VaultShareAccessOutcome,
+  VaultShareLinkAnalytics,
+  VaultShareLinkStatus,
+  VaultShareLinkSummary,
+} from '@/utils/functionUtils';
+import { useToast } from '@/hooks/use-toast';
+
+interface ShareLinksPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_LABELS: Record<VaultShareLinkStatus, string> = {
+  active: 'Active',
+  expired: 'Expired',
+  exhausted: 'Used up',
+  revoked: 'Revoked',
+};
+
+const OUTCOME_LABELS: Record<VaultShareAccessOutcome, string> = {
+  granted: 'Opened',
+  invalid_password: 'Wrong password',
+  password_required: 'No password',
+  locked: 'Locked out',
+  active: 'Opened',
+  expired: 'Expired',
+  exhausted: 'Limit reached',
+  revoked: 'Revoked',
+};
+
+const formatAccessLimit = (link: VaultShareLinkSummary) => {
+  if (link.maxAccessCount === null) return `${link.accessCount} views`;
+  if (link.maxAccessCount === 1) return link.accessCount > 0 ? 'One-time, used' : 'One-time';
+  return `${link.accessCount} of ${link.maxAccessCount} views`;
+};
+
+export function ShareLinksPanel({ open, onOpenChange }: ShareLinksPanelProps) {
+  const { toast } = useToast();
+  const [data, setData] = useState<VaultShareLinkAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<VaultShareLinkSummary | null>(null);
+  const [revoking, setRevoking] = useState(false);
+
+  const loadLinks = useCallback(async () => {
+    setLoading(true);
+    try {
+      setData(await vaultService.getShareLinkAnalytics());
+    } catch (error) {
+      console.error('Error loading share links:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load your share links.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setData(null);
+    setExpandedId(null);
+    loadLinks();
+  }, [open, loadLinks]);
+
+  const handleRevoke = async () => {
+    if (!revokeTarget) return;
+    setRevoking(true);
+    try {
+      await vaultService.revokeShare(revokeTarget.shareId);
+      setRevokeTarget(null);
+      await loadLinks();
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to revoke the share link.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <Link2 className="h-5 w-5" />
+              Share Links
+            </SheetTitle>
+            <SheetDescription>
+              Your open links, with who opened them and from where in the last 30 days.
+            </SheetDescription>
+          </SheetHeader>
+
+          {data && (
+            <div className="mt-6 space-y-4">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-md border p-2">
+                  <p className="text-lg font-semibold">{data.summary.activeLinks}</p>
+                  <p className="text-xs text-gray-500">Active links</p>
+                </div>
+                <div className="rounded-md border p-2">
+                  <p className="text-lg font-semibold">{data.summary.totalAccesses}</p>
+                  <p className="text-xs text-gray-500">Views</p>
+                </div>
+                <div className="rounded-md border p-2">
+                  <p className="text-lg font-semibold">{data.summary.failedAttempts}</p>
+                  <p className="text-xs text-gray-500">Failed attempts</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {data.links.map((link) => (
+                  <div key={link.shareId} className="rounded-md border p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="truncate font-medium">{link.itemName || 'Deleted file'}</span>
+                      <Badge variant={link.status === 'active' ? 'secondary' : 'outline'}>
+                        {STATUS_LABELS[link.status]}
+                      </Badge>
+                    </div>
+                    <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                      <span className="flex items-center gap-1">
+                        {link.allowDownload ? <Download className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                        {link.allowDownload ? 'Download' : 'View only'}
+                      </span>
+                      {link.passwordProtected && (
+                        <span className="flex items-center gap-1">
+                          <Lock className="h-3 w-3" />
+                          Password
+                        </span>
+                      )}
+                      <span>{formatAccessLimit(link)}</span>
+                      {link.failedAttempts > 0 && (
+                        <span className="text-amber-600">{link.failedAttempts} failed</span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Created {formatDistanceToNow(new Date(link.createdAt), { addSuffix: true })}
+                      {link.expiresAt && ` · Expires ${format(new Date(link.expiresAt), 'PP')}`}
+                    </p>
+
+                    <div className="mt-2 flex gap-1">
+                      {link.accessLog.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedId(expandedId === link.shareId ? null : link.shareId)}
+                        >
+                          {expandedId === link.shareId ? (
+                            <ChevronUp className="mr-1 h-4 w-4" />
+                          ) : (
+                            <ChevronDown className="mr-1 h-4 w-4" />
+                          )}
+                          Access log
+                        </Button>
+                      )}
+                      {link.status === 'active' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => setRevokeTarget(link)}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+
+                    {expandedId === link.shareId && (
+                      <ul className="mt-2 space-y-1 border-t pt-2 text-xs">
+                        {link.accessLog.map((entry, index) => (
+                          <li key={`${entry.timestamp}-${index}`} className="flex justify-between gap-2">
+                            <span className="text-gray-500">{format(new Date(entry.timestamp), 'PP p')}</span>
+                            <span className="truncate text-gray-700">
+                              {[entry.ip, entry.country].filter(Boolean).join(' · ') || 'Unknown location'}
+                              {entry.signedIn && ' · Signed in'}
+                            </span>
+                            <span className={entry.outcome === 'granted' ? 'text-green-700' : 'text-red-600'}>
+                              {OUTCOME_LABELS[entry.outcome]}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                ))}
+                {data.links.length === 0 && (
+                  <p className="text-sm text-gray-500">
+                    No share links yet. Share a file to create one.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex justify-center py-4">
+              <Spinner className="h-5 w-5" />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={revokeTarget !== null} onOpenChange={(isOpen) => !isOpen && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke this share link?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone with the link for {revokeTarget?.itemName || 'this file'} will no longer be
+              able to open it. This can&apos;t be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revoking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRevoke();
+              }}
+              disabled={revoking}
+              className="bg-red-600 hover:bg-red-600/90"
+            >
+              {revoking && <Spinner className="mr-2 h-4 w-4" />}
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
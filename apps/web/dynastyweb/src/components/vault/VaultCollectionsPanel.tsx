@@ -0,0 +1,350 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Images, Sparkles, Trash2 } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { FamilyMemberSelect } from '@/components/FamilyMemberSelect';
+import {
+  vaultSDKService as vaultService,
+  type SmartCollectionRules,
+  type VaultAlbum,
+  type VaultSmartCollection,
+} from '@/services/VaultSDKService';
+import { useToast } from '@/hooks/use-toast';
+
+export interface VaultCollectionSelection {
+  kind: 'album' | 'collection';
+  id: string;
+  name: string;
+}
+
+interface VaultCollectionsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (selection: VaultCollectionSelection) => void;
+}
+
+type FileTypeRule = NonNullable<SmartCollectionRules['fileTypes']>[number];
+
+const FILE_TYPE_LABELS: Record<FileTypeRule, string> = {
+  image: 'Photos',
+  video: 'Videos',
+  audio: 'Audio',
+  document: 'Documents',
+  other: 'Other files',
+};
+
+const ANY_FILE_TYPE = 'any';
+
+const MB = 1024 * 1024;
+
+const EMPTY_RULES_FORM = {
+  name: '',
+  fileType: ANY_FILE_TYPE,
+  tags: '',
+  peopleTagged: [] as string[],
+  uploadedBy: [] as string[],
+  from: '',
+  to: '',
+  minSizeMb: '',
+  maxSizeMb: '',
+};
+
+// Turns the form into the rules the server stores, leaving out what wasn't filled in
+const toRules = (form: typeof EMPTY_RULES_FORM): SmartCollectionRules => {
+  const rules: SmartCollectionRules = {};
+  if (form.fileType !== ANY_FILE_TYPE) rules.fileTypes = [form.fileType as FileTypeRule];
+  const tags = form.tags.split(',').map((tag) => tag.trim()).filter(Boolean);
+  if (tags.length) rules.tags = tags;
+  if (form.peopleTagged.length) rules.peopleTagged = form.peopleTagged;
+  if (form.uploadedBy.length) rules.uploadedBy = form.uploadedBy;
+  if (form.from) rules.createdAfter = new Date(form.from).getTime();
+  if (form.to) rules.createdBefore = new Date(form.to).getTime() + 24 * 60 * 60 * 1000 - 1;
+  if (form.minSizeMb) rules.minSize = Math.round(Number(form.minSizeMb) * MB);
+  if (form.maxSizeMb) rules.maxSize = Math.round(Number(form.maxSizeMb) * MB);
+  return rules;
+};
+
+export function VaultCollectionsPanel({ open, onOpenChange, onSelect }: VaultCollectionsPanelProps) {
+  const { toast } = useToast();
+  const [albums, setAlbums] = useState<VaultAlbum[]>([]);
+  const [collections, setCollections] = useState<VaultSmartCollection[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newAlbumName, setNewAlbumName] = useState('');
+  const [rulesForm, setRulesForm] = useState(EMPTY_RULES_FORM);
+  const [showRulesForm, setShowRulesForm] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [albumList, collectionList] = await Promise.all([
+        vaultService.getAlbums(),
+        vaultService.getSmartCollections(),
+      ]);
+      setAlbums(albumList);
+      setCollections(collectionList);
+    } catch (error) {
+      console.error('Error loading albums:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load albums and collections.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  const runChange = async (change: () => Promise<void>, failure: string) => {
+    setSaving(true);
+    try {
+      await change();
+      await load();
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateAlbum = () => {
+    if (!newAlbumName.trim()) return;
+    runChange(async () => {
+      await vaultService.createAlbum(newAlbumName.trim());
+      setNewAlbumName('');
+    }, 'Failed to create the album.');
+  };
+
+  const handleCreateCollection = () => {
+    const rules = toRules(rulesForm);
+    if (!rulesForm.name.trim() || Object.keys(rules).length === 0) {
+      toast({
+        title: 'Add a rule',
+        description: 'Give the collection a name and at least one rule.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    runChange(async () => {
+      await vaultService.createSmartCollection(rulesForm.name.trim(), rules);
+      setRulesForm(EMPTY_RULES_FORM);
+      setShowRulesForm(false);
+    }, 'Failed to save the smart collection.');
+  };
+
+  const select = (selection: VaultCollectionSelection) => {
+    onSelect(selection);
+    onOpenChange(false);
+  };
+
+  const updateForm = (changes: Partial<typeof EMPTY_RULES_FORM>) =>
+    setRulesForm((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Images className="h-5 w-5" />
+            Albums
+          </SheetTitle>
+          <SheetDescription>
+            Albums hold the files you pick. Smart collections fill themselves with the files that match their rules.
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Spinner className="h-5 w-5" />
+          </div>
+        ) : (
+          <>
+            <div className="mt-6 space-y-2">
+              {albums.length === 0 && <p className="text-sm text-gray-500">No albums yet.</p>}
+              {albums.map((album) => (
+                <div key={album.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+                  <button
+                    className="min-w-0 flex-1 text-left"
+                    onClick={() => select({ kind: 'album', id: album.id, name: album.name })}
+                  >
+                    <p className="truncate font-medium">{album.name}</p>
+                    <p className="text-xs text-gray-500">{album.itemCount} items</p>
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={saving}
+                    onClick={() => runChange(() => vaultService.deleteAlbum(album.id), 'Failed to delete the album.')}
+                    aria-label={`Delete ${album.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="New album"
+                  value={newAlbumName}
+                  onChange={(e) => setNewAlbumName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreateAlbum()}
+                />
+                <Button onClick={handleCreateAlbum} disabled={saving || !newAlbumName.trim()} variant="outline">
+                  Create
+                </Button>
+              </div>
+            </div>
+
+            <div className="mt-8 space-y-2">
+              <h3 className="flex items-center gap-2 text-sm font-semibold">
+                <Sparkles className="h-4 w-4" />
+                Smart collections
+              </h3>
+              {collections.map((collection) => (
+                <div key={collection.id} className="flex items-center justify-between gap-2 rounded-md border p-3">
+                  <button
+                    className="min-w-0 flex-1 truncate text-left font-medium"
+                    onClick={() => select({ kind: 'collection', id: collection.id, name: collection.name })}
+                  >
+                    {collection.name}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={saving}
+                    onClick={() =>
+                      runChange(
+                        () => vaultService.deleteSmartCollection(collection.id),
+                        'Failed to delete the smart collection.'
+                      )
+                    }
+                    aria-label={`Delete ${collection.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              {showRulesForm ? (
+                <div className="space-y-3 rounded-md border p-3">
+                  <Input
+                    placeholder="Collection name"
+                    value={rulesForm.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                  />
+                  <div className="space-y-1">
+                    <Label>File type</Label>
+                    <Select value={rulesForm.fileType} onValueChange={(value) => updateForm({ fileType: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_FILE_TYPE}>Any file</SelectItem>
+                        {(Object.keys(FILE_TYPE_LABELS) as FileTypeRule[]).map((fileType) => (
+                          <SelectItem key={fileType} value={fileType}>
+                            {FILE_TYPE_LABELS[fileType]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Tagged with any of</Label>
+                    <Input
+                      placeholder="wedding, reunion"
+                      value={rulesForm.tags}
+                      onChange={(e) => updateForm({ tags: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Showing</Label>
+                    <FamilyMemberSelect
+                      selectedMembers={rulesForm.peopleTagged}
+                      onMemberSelect={(members) => updateForm({ peopleTagged: members })}
+                      placeholder="Anyone"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Uploaded by</Label>
+                    <FamilyMemberSelect
+                      selectedMembers={rulesForm.uploadedBy}
+                      onMemberSelect={(members) => updateForm({ uploadedBy: members })}
+                      placeholder="Anyone"
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label>Added from</Label>
+                      <Input type="date" value={rulesForm.from} onChange={(e) => updateForm({ from: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Added until</Label>
+                      <Input type="date" value={rulesForm.to} onChange={(e) => updateForm({ to: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>At least (MB)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={rulesForm.minSizeMb}
+                        onChange={(e) => updateForm({ minSizeMb: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>At most (MB)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={rulesForm.maxSizeMb}
+                        onChange={(e) => updateForm({ maxSizeMb: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setShowRulesForm(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleCreateCollection} disabled={saving}>
+                      {saving && <Spinner className="mr-2 h-4 w-4" />}
+                      Save collection
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button variant="outline" className="w-full" onClick={() => setShowRulesForm(true)}>
+                  New smart collection
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Folder, Users } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Spinner } from '@/components/ui/spinner';
+import { FamilyMemberSelect } from '@/components/FamilyMemberSelect';
+import { vaultSDKService as vaultService } from '@/services/VaultSDKService';
+import type {
+  VaultAccessLevel,
+  VaultItemSharingEntry,
+  VaultItemSharingInfo,
+} from '@/utils/functionUtils';
+import { useToast } from '@/hooks/use-toast';
+
+interface VaultSharingPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: { id: string; name: string; type: 'file' | 'folder' } | null;
+  onChanged?: () => void;
+}
+
+const ACCESS_LABELS: Record<VaultAccessLevel, string> = {
+  read: 'Can view',
+  write: 'Can edit',
+};
+
+export function VaultSharingPanel({ open, onOpenChange, item, onChanged }: VaultSharingPanelProps) {
+  const { toast } = useToast();
+  const [info, setInfo] = useState<VaultItemSharingInfo | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
+  const [newAccess, setNewAccess] = useState<VaultAccessLevel>('read');
+  const [revokeTarget, setRevokeTarget] = useState<VaultItemSharingEntry | null>(null);
+
+  const loadInfo = useCallback(async () => {
+    if (!item) return;
+    setLoading(true);
+    try {
+      setInfo(await vaultService.getSharingInfo(item.id));
+    } catch (error) {
+      console.error('Error loading sharing info:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load who has access.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [item, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setInfo(null);
+    setSelectedMembers([]);
+    loadInfo();
+  }, [open, loadInfo]);
+
+  const runChange = async (change: () => Promise<void>, failure: string) => {
+    setSaving(true);
+    try {
+      await change();
+      await loadInfo();
+      onChanged?.();
+    } catch (error) {
+      console.error(failure, error);
+      toast({
+        title: 'Error',
+        description: failure,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleShare = () => {
+    if (!item || selectedMembers.length === 0) return;
+    runChange(async () => {
+      await vaultService.shareWithMembers(item.id, selectedMembers, newAccess);
+      setSelectedMembers([]);
+    }, `Failed to share ${item.name}.`);
+  };
+
+  const handleAccessChange = (entry: VaultItemSharingEntry, access: VaultAccessLevel) => {
+    if (!item) return;
+    runChange(
+      () => vaultService.updateMemberAccess(item.id, entry.user.id, access),
+      `Failed to change access for ${entry.user.displayName}.`
+    );
+  };
+
+  const handleRevoke = () => {
+    if (!item || !revokeTarget) return;
+    const target = revokeTarget;
+    runChange(async () => {
+      await vaultService.revokeMemberAccess(item.id, target.user.id);
+      setRevokeTarget(null);
+    }, `Failed to remove ${target.user.displayName}.`);
+  };
+
+  const isFolder = item?.type === 'folder';
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Family access
+            </SheetTitle>
+            <SheetDescription>
+              {isFolder
+                ? `Everyone with access to ${item?.name} can also see what's added to it later.`
+                : `Family members who can open ${item?.name}.`}
+            </SheetDescription>
+          </SheetHeader>
+
+          {info?.isOwner && (
+            <div className="mt-6 space-y-2">
+              <FamilyMemberSelect selectedMembers={selectedMembers} onMemberSelect={setSelectedMembers} />
+              <div className="flex gap-2">
+                <Select value={newAccess} onValueChange={(value) => setNewAccess(value as VaultAccessLevel)}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="read">{ACCESS_LABELS.read}</SelectItem>
+                    <SelectItem value="write">{ACCESS_LABELS.write}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={handleShare}
+                  disabled={saving || selectedMembers.length === 0}
+                  className="flex-1 bg-[#0A5C36] hover:bg-[#0A5C36]/90 text-white"
+                >
+                  {saving && <Spinner className="mr-2 h-4 w-4" />}
+                  Share
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {info && (
+            <div className="mt-6 space-y-2">
+              {info.sharingInfo.map((entry) => (
+                <div key={entry.user.id} className="rounded-md border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate font-medium">{entry.user.displayName}</span>
+                    {info.isOwner && entry.explicitPermission ? (
+                      <Select
+                        value={entry.explicitPermission}
+                        onValueChange={(value) => handleAccessChange(entry, value as VaultAccessLevel)}
+                        disabled={saving}
+                      >
+                        <SelectTrigger className="h-8 w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="read">{ACCESS_LABELS.read}</SelectItem>
+                          <SelectItem value="write">{ACCESS_LABELS.write}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary">{ACCESS_LABELS[entry.permission]}</Badge>
+                    )}
+                  </div>
+
+                  {entry.inheritedFrom && (
+                    <p className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                      <Folder className="h-3 w-3" />
+                      {ACCESS_LABELS[entry.inheritedPermission || 'read']} through {entry.inheritedFrom.name}
+                    </p>
+                  )}
+                  {entry.explicitPermission && entry.permission !== entry.explicitPermission && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      The folder grants more access than this {info.itemType}.
+                    </p>
+                  )}
+
+                  {info.isOwner && entry.explicitPermission && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="mt-1 text-red-600"
+                      onClick={() => setRevokeTarget(entry)}
+                      disabled={saving}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {info.sharingInfo.length === 0 && (
+                <p className="text-sm text-gray-500">Only you can see this {info.itemType}.</p>
+              )}
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex justify-center py-4">
+              <Spinner className="h-5 w-5" />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={revokeTarget !== null} onOpenChange={(isOpen) => !isOpen && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {revokeTarget?.user.displayName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isFolder
+                ? `They will lose access to ${item?.name} and everything in it`
+                : `They will lose access to ${item?.name}`}
+              {revokeTarget?.inheritedFrom
+                ? `, but can still open it through ${revokeTarget.inheritedFrom.name}.`
+                : '.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRevoke();
+              }}
+              disabled={saving}
+              className="bg-red-600 hover:bg-red-600/90"
+            >
+              {saving && <Spinner className="mr-2 h-4 w-4" />}
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
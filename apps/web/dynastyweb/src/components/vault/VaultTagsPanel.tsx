@@ -0,0 +1,260 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Images, Tag, X } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { FamilyMemberSelect } from '@/components/FamilyMemberSelect';
+import {
+  vaultSDKService as vaultService,
+  type VaultAlbum,
+  type VaultTagCount,
+} from '@/services/VaultSDKService';
+import type { VaultItem } from '@/services/VaultService';
+import { useToast } from '@/hooks/use-toast';
+
+interface VaultTagsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // One item is edited in place; several are tagged together through a bulk operation
+  items: VaultItem[];
+  onChanged?: () => void;
+}
+
+const NEW_ALBUM = '__new__';
+
+// Tags are typed comma separated and stored lowercased
+const parseTags = (value: string) =>
+  value
+    .split(',')
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+
+export function VaultTagsPanel({ open, onOpenChange, items, onChanged }: VaultTagsPanelProps) {
+  const { toast } = useToast();
+  const [tags, setTags] = useState<string[]>([]);
+  const [removedTags, setRemovedTags] = useState<string[]>([]);
+  const [peopleTags, setPeopleTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [knownTags, setKnownTags] = useState<VaultTagCount[]>([]);
+  const [albums, setAlbums] = useState<VaultAlbum[]>([]);
+  const [albumId, setAlbumId] = useState('');
+  const [newAlbumName, setNewAlbumName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const single = items.length === 1 ? items[0] : null;
+
+  const loadOptions = useCallback(async () => {
+    try {
+      const [tagCounts, albumList] = await Promise.all([vaultService.getTags(), vaultService.getAlbums()]);
+      setKnownTags(tagCounts);
+      setAlbums(albumList);
+    } catch (error) {
+      console.error('Error loading tags and albums:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    setTags(single?.tags || []);
+    setPeopleTags(single?.peopleTags || []);
+    setRemovedTags([]);
+    setTagInput('');
+    setAlbumId('');
+    setNewAlbumName('');
+    loadOptions();
+  }, [open, single, loadOptions]);
+
+  const addTags = (value: string) => {
+    const added = parseTags(value);
+    if (added.length === 0) return;
+    setTags((prev) => Array.from(new Set([...prev, ...added])));
+    setRemovedTags((prev) => prev.filter((tag) => !added.includes(tag)));
+    setTagInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    setTags((prev) => prev.filter((t) => t !== tag));
+  };
+
+  // In bulk mode a known tag can be taken off every selected item
+  const toggleRemovedTag = (tag: string) => {
+    setRemovedTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+  };
+
+  const handleSave = async () => {
+    const pending = [...tags, ...parseTags(tagInput)];
+    setSaving(true);
+    try {
+      if (single) {
+        await vaultService.updateItemTags(single.id, Array.from(new Set(pending)), peopleTags);
+      } else if (pending.length > 0 || removedTags.length > 0) {
+        const { failedItems } = await vaultService.bulkTagItems(
+          items.map((item) => item.id),
+          pending,
+          removedTags
+        );
+        if (failedItems.length > 0) {
+          toast({
+            title: 'Some items weren\'t tagged',
+            description: `${failedItems.length} of ${items.length} items couldn't be tagged.`,
+            variant: 'destructive',
+          });
+        }
+      }
+
+      if (albumId === NEW_ALBUM && newAlbumName.trim()) {
+        await vaultService.createAlbum(newAlbumName.trim(), items.map((item) => item.id));
+      } else if (albumId && albumId !== NEW_ALBUM) {
+        const { skippedItemIds } = await vaultService.updateAlbumItems(albumId, items.map((item) => item.id));
+        if (skippedItemIds.length > 0) {
+          toast({
+            title: 'Some items weren\'t added',
+            description: 'Only your own files can be added to your albums.',
+          });
+        }
+      }
+
+      onChanged?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving tags:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save tags.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const suggestions = knownTags.filter((known) => !tags.includes(known.tag)).slice(0, 12);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            {single ? single.name : `${items.length} items`}
+          </SheetTitle>
+          <SheetDescription>
+            {single
+              ? 'Tags and the people in this file make it easier to find later.'
+              : 'Add tags to every selected item, or take tags off them.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-2">
+          <Label htmlFor="vault-tags">Tags</Label>
+          <Input
+            id="vault-tags"
+            placeholder="wedding, summer 1998"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addTags(tagInput);
+              }
+            }}
+          />
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="gap-1">
+                  {tag}
+                  <button onClick={() => removeTag(tag)} aria-label={`Remove ${tag}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {suggestions.map((known) => (
+                <Badge
+                  key={known.tag}
+                  variant={removedTags.includes(known.tag) ? 'destructive' : 'outline'}
+                  className="cursor-pointer"
+                  onClick={() => (single ? addTags(known.tag) : toggleRemovedTag(known.tag))}
+                >
+                  {known.tag} ({known.count})
+                </Badge>
+              ))}
+            </div>
+          )}
+          {!single && suggestions.length > 0 && (
+            <p className="text-xs text-gray-500">Click a tag above to take it off the selected items.</p>
+          )}
+        </div>
+
+        {single && (
+          <div className="mt-6 space-y-2">
+            <Label>People in this file</Label>
+            <FamilyMemberSelect
+              selectedMembers={peopleTags}
+              onMemberSelect={setPeopleTags}
+              placeholder="Tag family members"
+            />
+          </div>
+        )}
+
+        <div className="mt-6 space-y-2">
+          <Label className="flex items-center gap-2">
+            <Images className="h-4 w-4" />
+            Add to album
+          </Label>
+          <Select value={albumId} onValueChange={setAlbumId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose an album" />
+            </SelectTrigger>
+            <SelectContent>
+              {albums.map((album) => (
+                <SelectItem key={album.id} value={album.id}>
+                  {album.name}
+                </SelectItem>
+              ))}
+              <SelectItem value={NEW_ALBUM}>New album…</SelectItem>
+            </SelectContent>
+          </Select>
+          {albumId === NEW_ALBUM && (
+            <Input
+              placeholder="Album name"
+              value={newAlbumName}
+              onChange={(e) => setNewAlbumName(e.target.value)}
+            />
+          )}
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={saving || items.length === 0}
+          className="mt-6 w-full bg-[#0A5C36] hover:bg-[#0A5C36]/90 text-white"
+        >
+          {saving && <Spinner className="mr-2 h-4 w-4" />}
+          Save
+        </Button>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -32,6 +32,7 @@ export function VaultUploadExample() {
     isUnlocked,
     encryptFile,
     decryptFile,
+    encryptThumbnail,
     getCurrentKeyId,
     checkVaultStatus,
     progress: encryptionProgress
@@ -84,7 +85,8 @@ export function VaultUploadExample() {
           },
           {
             encrypt: encryptFile,
-            getCurrentKeyId
+            getCurrentKeyId,
+            encryptThumbnail
           }
         );
         
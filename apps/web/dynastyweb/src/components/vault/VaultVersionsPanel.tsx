@@ -0,0 +1,285 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Download, History, RotateCcw, Upload } from 'lucide-react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Spinner } from '@/components/ui/spinner';
+import { vaultService, formatFileSize } from '@/services/VaultService';
+import type { VaultItem } from '@/services/VaultService';
+import {
+  getVaultItemVersions,
+  getVaultVersionDownloadUrl,
+  restoreVaultItemVersion,
+  type VaultFileVersion,
+  type VaultFileVersions,
+} from '@/utils/functionUtils';
+import { useToast } from '@/hooks/use-toast';
+
+interface VaultVersionsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: VaultItem | null;
+  onChanged: () => void;
+}
+
+const formatWhen = (date: string | null) =>
+  date ? formatDistanceToNow(new Date(date), { addSuffix: true }) : 'Unknown date';
+
+export function VaultVersionsPanel({ open, onOpenChange, item, onChanged }: VaultVersionsPanelProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [data, setData] = useState<VaultFileVersions | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<VaultFileVersion | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    if (!item) return;
+    setLoading(true);
+    try {
+      setData(await getVaultItemVersions(item.id));
+    } catch (error) {
+      console.error('Error loading file versions:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to load the version history.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [item, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setData(null);
+    loadVersions();
+  }, [open, loadVersions]);
+
+  const handleDownload = async (version: VaultFileVersion) => {
+    if (!item) return;
+    setDownloadingId(version.id);
+    try {
+      const { downloadUrl } = await getVaultVersionDownloadUrl(item.id, version.id);
+      window.open(downloadUrl, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.error('Error downloading file version:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to download this version.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!item || !restoreTarget) return;
+    setRestoring(true);
+    try {
+      await restoreVaultItemVersion(item.id, restoreTarget.id);
+      toast({
+        title: 'Version Restored',
+        description: `${item.name} now matches version ${restoreTarget.versionNumber}.`,
+      });
+      setRestoreTarget(null);
+      onChanged();
+      await loadVersions();
+    } catch (error) {
+      console.error('Error restoring file version:', error);
+      toast({
+        title: 'Restore Failed',
+        description: error instanceof Error ? error.message : 'Failed to restore this version.',
+        variant: 'destructive',
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!item || !file) return;
+
+    setUploadProgress(0);
+    try {
+      await vaultService.uploadNewVersion(item, file, (progress) => setUploadProgress(progress.percentage));
+      toast({
+        title: 'New Version Uploaded',
+        description: 'The previous version is kept in the history. The new file is being scanned.',
+      });
+      onChanged();
+      await loadVersions();
+    } catch (error) {
+      toast({
+        title: 'Upload Failed',
+        description: error instanceof Error ? error.message : 'Failed to upload the new version.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const currentIsSettled = data?.current.scanStatus !== 'pending' && data?.current.scanStatus !== 'scanning';
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Version History
+            </SheetTitle>
+            <SheetDescription>
+              {item?.name}. Previous versions count towards your storage.
+            </SheetDescription>
+          </SheetHeader>
+
+          {data && (
+            <div className="mt-6 space-y-4">
+              <div className="rounded-md border p-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">Version {data.current.versionNumber}</span>
+                  <Badge variant="secondary">Current</Badge>
+                </div>
+                <p className="text-sm text-gray-700">
+                  {formatFileSize(data.current.size)}
+                  {data.current.restoredFromVersion !== null &&
+                    ` · Restored from version ${data.current.restoredFromVersion}`}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {data.current.uploadedBy.displayName} &middot; {formatWhen(data.current.uploadedAt)}
+                </p>
+              </div>
+
+              {data.canRestore && (
+                <>
+                  <input ref={fileInputRef} type="file" className="hidden" onChange={handleUpload} />
+                  {uploadProgress !== null ? (
+                    <Progress value={uploadProgress} className="h-2" />
+                  ) : (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      disabled={!currentIsSettled}
+                      onClick={() => fileInputRef.current?.click()}
+                    >
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload new version
+                    </Button>
+                  )}
+                </>
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">
+                  Previous versions ({formatFileSize(data.versionsSize)})
+                </p>
+                {data.versions.map((version) => (
+                  <div key={version.id} className="rounded-md border p-3">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Version {version.versionNumber}</span>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDownload(version)}
+                          disabled={downloadingId === version.id}
+                          aria-label={`Download version ${version.versionNumber}`}
+                        >
+                          {downloadingId === version.id ? (
+                            <Spinner className="h-4 w-4" />
+                          ) : (
+                            <Download className="h-4 w-4" />
+                          )}
+                        </Button>
+                        {data.canRestore && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRestoreTarget(version)}
+                            disabled={!currentIsSettled}
+                            aria-label={`Restore version ${version.versionNumber}`}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <p className="text-sm text-gray-700">{formatFileSize(version.size)}</p>
+                    <p className="text-xs text-gray-500">
+                      {version.uploadedBy.displayName} &middot; {formatWhen(version.uploadedAt)}
+                    </p>
+                  </div>
+                ))}
+                {data.versions.length === 0 && (
+                  <p className="text-sm text-gray-500">
+                    No previous versions yet. Uploading a new version keeps the current one here.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {loading && (
+            <div className="flex justify-center py-4">
+              <Spinner className="h-5 w-5" />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={restoreTarget !== null} onOpenChange={(isOpen) => !isOpen && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {restoreTarget?.versionNumber}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This version becomes the current file. The current contents stay in the history,
+              so you can switch back at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRestore();
+              }}
+              disabled={restoring}
+              className="bg-[#0A5C36] hover:bg-[#0A5C36]/90"
+            >
+              {restoring && <Spinner className="mr-2 h-4 w-4" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getChatService, type ChatMessage, type ChatSummary } from '@/services/ChatService';
+
+// Stop showing the typing indicator to others after this long without keystrokes
+const TYPING_IDLE_MS = 5000;
+
+interface UseChatsResult {
+  chats: ChatSummary[];
+  loading: boolean;
+  error: string | null;
+}
+
+interface UseChatThreadResult {
+  chat: ChatSummary | null;
+  messages: ChatMessage[];
+  typingUserIds: string[];
+  // Participants whose safety number changed
+  identityChanges: string[];
+  loading: boolean;
+  error: string | null;
+  sendText: (text: string) => Promise<void>;
+  sendAttachment: (file: File, duration?: number) => Promise<void>;
+  notifyTyping: () => void;
+  acceptIdentityChange: (memberId: string) => Promise<void>;
+}
+
+/**
+ * Set up this browser as a linked chat device before anything is encrypted or decrypted
+ */
+function useChatDevice(userId?: string) {
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    getChatService()
+      .initialize(userId)
+      .then(() => !cancelled && setReady(true))
+      .catch((err: Error) => !cancelled && setError(err.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return { ready, error };
+}
+
+export function useChats(userId?: string): UseChatsResult {
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return getChatService().subscribeToChats(
+      userId,
+      (updatedChats) => {
+        setChats(updatedChats);
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load conversations');
+        setLoading(false);
+      }
+    );
+  }, [userId]);
+
+  return { chats, loading, error };
+}
+
+export function useChatThread(chatId: string, userId?: string): UseChatThreadResult {
+  const { ready, error: deviceError } = useChatDevice(userId);
+  const [chat, setChat] = useState<ChatSummary | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const [identityChanges, setIdentityChanges] = useState<string[]>([]);
+  // Bumped to subscribe again, decrypting messages that were held back by a changed
+  // safety number
+  const [decryptAttempt, setDecryptAttempt] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const lastReadMessageId = useRef<string | undefined>(undefined);
+  // Settings changes such as the disappearing message timer are announced by a system message
+  const lastSystemMessageId = messages.filter((message) => message.type === 'system').pop()?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    getChatService()
+      .getChat(chatId, userId)
+      .then((loadedChat) => {
+        setChat(loadedChat);
+        if (!loadedChat) setError('Conversation not found');
+      })
+      .catch(() => setError('Failed to load conversation'));
+  }, [chatId, userId, lastSystemMessageId]);
+
+  useEffect(() => {
+    if (!userId || !ready) return;
+
+    return getChatService().subscribeToMessages(
+      chatId,
+      userId,
+      (updatedMessages) => {
+        setMessages(updatedMessages);
+        setIdentityChanges(getChatService().getIdentityChanges());
+        setLoading(false);
+      },
+      () => {
+        setError('Failed to load messages');
+        setLoading(false);
+      }
+    );
+  }, [chatId, userId, ready, decryptAttempt]);
+
+  useEffect(() => {
+    if (!userId) return;
+    return getChatService().subscribeToTyping(chatId, userId, setTypingUserIds);
+  }, [chatId, userId]);
+
+  // Everything on screen counts as read while the thread is open
+  useEffect(() => {
+    const latestId = messages[messages.length - 1]?.id;
+    if (!userId || !latestId || latestId === lastReadMessageId.current) return;
+    lastReadMessageId.current = latestId;
+    getChatService().markChatRead(chatId, userId, messages);
+  }, [chatId, userId, messages]);
+
+  const stopTyping = useCallback(() => {
+    if (typingTimeout.current) {
+      clearTimeout(typingTimeout.current);
+      typingTimeout.current = undefined;
+      getChatService().setTyping(chatId, false);
+    }
+  }, [chatId]);
+
+  useEffect(() => stopTyping, [stopTyping]);
+
+  const notifyTyping = useCallback(() => {
+    if (typingTimeout.current) {
+      clearTimeout(typingTimeout.current);
+    } else {
+      getChatService().setTyping(chatId, true);
+    }
+    typingTimeout.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [chatId, stopTyping]);
+
+  const sendText = useCallback(async (text: string) => {
+    if (!userId) return;
+    stopTyping();
+    await getChatService().sendTextMessage(chatId, userId, text);
+    setIdentityChanges(getChatService().getIdentityChanges());
+  }, [chatId, userId, stopTyping]);
+
+  const sendAttachment = useCallback(async (file: File, duration?: number) => {
+    if (!userId) return;
+    await getChatService().sendAttachment(chatId, userId, file, duration);
+    setIdentityChanges(getChatService().getIdentityChanges());
+  }, [chatId, userId]);
+
+  const acceptIdentityChange = useCallback(async (memberId: string) => {
+    await getChatService().acceptIdentityChange(memberId);
+    setIdentityChanges(getChatService().getIdentityChanges());
+    setDecryptAttempt((attempt) => attempt + 1);
+  }, []);
+
+  return {
+    chat,
+    messages,
+    typingUserIds,
+    identityChanges: identityChanges.filter((memberId) => chat?.participants.includes(memberId)),
+    loading: loading && !deviceError,
+    error: deviceError || error,
+    sendText,
+    sendAttachment,
+    notifyTyping,
+    acceptIdentityChange,
+  };
+}
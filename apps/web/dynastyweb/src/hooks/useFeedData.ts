@@ -62,7 +62,8 @@ export function useFeedData(userId: string, familyTreeId: string): UseFeedDataRe
         data: story
       })),
       ...events.map(event => ({
-        id: event.id,
+        // Occurrences of a recurring event share the event ID
+        id: event.occurrenceDate ? `${event.id}_${event.occurrenceDate}` : event.id,
         type: 'event' as const,
         timestamp: event.eventDate,
         data: event
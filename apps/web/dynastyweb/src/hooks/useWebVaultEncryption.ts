@@ -4,6 +4,8 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { WebVaultCryptoService, EncryptedFileMetadata } from '../services/encryption/VaultCryptoService';
 import { WebVaultKeyManager } from '../services/encryption/WebVaultKeyManager';
+import { getKeyCacheService } from '../services/encryption/KeyCacheService';
+import { createThumbnail } from '../utils/mediaUtils';
 import { errorHandler, ErrorSeverity } from '../services/ErrorHandlingService';
 
 // Types
@@ -24,6 +26,17 @@ export interface EncryptionProgress {
   processedFiles?: number;
 }
 
+export interface EncryptedThumbnailResult {
+  encrypted: Uint8Array;
+  nonce: string;
+}
+
+export interface EncryptedThumbnailSource {
+  id: string;
+  encryptedThumbnail?: { nonce: string };
+  encryptedThumbnailUrl?: string;
+}
+
 export interface WebVaultEncryptionResult {
   success: boolean;
   encryptedFile?: Uint8Array;
@@ -237,6 +250,9 @@ export function useWebVaultEncryption(userId: string) {
       // Clear session storage
       keyManager.current.clearSessionKey(userId);
 
+      // Decrypted thumbnails must not outlive the unlocked vault
+      getKeyCacheService().clearThumbnails();
+
       setState(prev => ({ ...prev, isUnlocked: false }));
     } catch (error) {
       errorHandler.handleError(error, ErrorSeverity.MEDIUM, {
@@ -369,6 +385,85 @@ export function useWebVaultEncryption(userId: string) {
     }
   }, [userId]);
 
+  // Encrypt a thumbnail of the file with its file key, or null when none can be made
+  const encryptThumbnail = useCallback(async (
+    file: File,
+    fileId: string
+  ): Promise<EncryptedThumbnailResult | null> => {
+    if (!currentMasterKey.current) {
+      return null;
+    }
+
+    try {
+      const thumbnail = await createThumbnail(file);
+      if (!thumbnail) {
+        return null;
+      }
+
+      const fileKey = cryptoService.current.deriveFileKey(currentMasterKey.current, fileId);
+      try {
+        return await cryptoService.current.encryptThumbnail(
+          new Uint8Array(await thumbnail.arrayBuffer()),
+          fileKey
+        );
+      } finally {
+        cryptoService.current.memzero(fileKey);
+      }
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.LOW, {
+        action: 'encrypt-thumbnail',
+        userId,
+        fileName: file.name
+      });
+      return null;
+    }
+  }, [userId]);
+
+  // Decrypt an item's thumbnail into an object URL, cached until the vault is locked
+  const decryptThumbnail = useCallback(async (
+    item: EncryptedThumbnailSource
+  ): Promise<string | null> => {
+    const { encryptedThumbnail, encryptedThumbnailUrl } = item;
+    if (!currentMasterKey.current || !encryptedThumbnail || !encryptedThumbnailUrl) {
+      return null;
+    }
+
+    try {
+      return await getKeyCacheService().getOrDecryptThumbnail(
+        `${item.id}:${encryptedThumbnail.nonce}`,
+        async () => {
+          const response = await fetch(encryptedThumbnailUrl);
+          if (!response.ok) {
+            throw new Error(`Failed to download thumbnail: ${response.status}`);
+          }
+          const encrypted = new Uint8Array(await response.arrayBuffer());
+
+          if (!currentMasterKey.current) {
+            throw new Error('Vault is locked');
+          }
+          const fileKey = cryptoService.current.deriveFileKey(currentMasterKey.current, item.id);
+          try {
+            const thumbnail = await cryptoService.current.decryptThumbnail(
+              encrypted,
+              encryptedThumbnail.nonce,
+              fileKey
+            );
+            return new Blob([new Uint8Array(thumbnail)], { type: 'image/jpeg' });
+          } finally {
+            cryptoService.current.memzero(fileKey);
+          }
+        }
+      );
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.LOW, {
+        action: 'decrypt-thumbnail',
+        userId,
+        itemId: item.id
+      });
+      return null;
+    }
+  }, [userId]);
+
   // Encrypt multiple files
   const encryptFiles = useCallback(async (
     files: File[],
@@ -468,6 +563,23 @@ export function useWebVaultEncryption(userId: string) {
     setState(prev => ({ ...prev, error: null }));
   }, []);
 
+  // Add a file's key to a share link so recipients can decrypt it in the browser
+  const addShareKeyToLink = useCallback(async (
+    shareLink: string,
+    fileId: string
+  ): Promise<string | null> => {
+    if (!currentMasterKey.current) {
+      return null;
+    }
+
+    const fileKey = cryptoService.current.deriveFileKey(currentMasterKey.current, fileId);
+    try {
+      return await cryptoService.current.addShareKeyToLink(shareLink, fileKey);
+    } finally {
+      cryptoService.current.memzero(fileKey);
+    }
+  }, []);
+
   // Get current encryption key ID
   const getCurrentKeyId = useCallback(async (): Promise<string> => {
     try {
@@ -495,8 +607,11 @@ export function useWebVaultEncryption(userId: string) {
     encryptFile,
     decryptFile,
     encryptFiles,
+    encryptThumbnail,
+    decryptThumbnail,
     checkVaultStatus,
     getCurrentKeyId,
+    addShareKeyToLink,
 
     // Utilities
     clearProgress,
@@ -0,0 +1,723 @@
+// Chat Service for Dynasty Web App
+// End-to-end encrypted chats shared with the mobile app. Messages are Signal Protocol
+// encrypted for every device of every participant, and attachments are encrypted with a
+// per-file key that travels inside the Signal payload.
+
+import {
+  collection,
+  doc,
+  getDoc,
+  limitToLast,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { db, functions, storage } from '@/lib/firebase';
+import { FirebaseFunctionsClient, createFirebaseClient } from '@/lib/functions-client';
+import { errorHandler, ErrorSeverity } from './ErrorHandlingService';
+import {
+  getSignalProtocolService,
+  type ChatPayload,
+  type SignalMetadata,
+} from './encryption/SignalProtocolService';
+import { fromBase64, signalCryptoReady, toBase64 } from './encryption/signal/SignalCrypto';
+
+const MESSAGE_PAGE_SIZE = 100;
+// Typing indicators older than this are stale, e.g. the other side closed the app
+const TYPING_TIMEOUT_MS = 10 * 1000;
+const AES_GCM_IV_LENGTH = 16;
+const AES_GCM_TAG_LENGTH = 16;
+// Longest wait before checking again for disappearing messages that expired
+const MAX_EXPIRY_TIMER_MS = 60 * 60 * 1000;
+
+// Disappearing message timers a chat can set, in seconds
+const DISAPPEARING_TIMER_LABELS: Record<number, string> = {
+  3600: '1 hour',
+  28800: '8 hours',
+  86400: '1 day',
+  604800: '1 week',
+  2419200: '4 weeks',
+};
+
+export type ChatMessageType = 'text' | 'media' | 'file' | 'voice' | 'system';
+
+type MessageEventType = NonNullable<ChatPayload['event']>['type'];
+
+const MESSAGE_EVENT_TYPES: string[] = ['reaction', 'edit', 'delete'] satisfies MessageEventType[];
+
+export interface ChatSummary {
+  id: string;
+  type: 'direct' | 'group';
+  name: string;
+  participants: string[];
+  participantNames: Record<string, string>;
+  lastMessageAt?: Date;
+  unread: boolean;
+  muted: boolean;
+  disappearingMessagesSeconds?: number;
+}
+
+export interface ChatAttachment {
+  encryptedUrl: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  iv: string;
+  tag: string;
+  encryptionKey: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  chatId: string;
+  senderId: string;
+  timestamp: Date;
+  type: ChatMessageType;
+  text?: string;
+  attachment?: ChatAttachment;
+  duration?: number;
+  delivered: string[];
+  read: string[];
+  // Sent before this browser was linked, or the session is broken
+  undecryptable?: boolean;
+  replyTo?: ChatPayload['replyTo'];
+  reactions?: ChatReaction[];
+  editedAt?: Date;
+  deletedForEveryone?: boolean;
+  // Disappearing messages are hidden and their plaintext deleted after this
+  expiresAt?: Date;
+}
+
+export interface ChatReaction {
+  emoji: string;
+  userIds: string[];
+}
+
+interface EncryptedMessageDoc {
+  id: string;
+  chatId: string;
+  senderId: string;
+  timestamp?: Timestamp | null;
+  type: ChatMessageType | MessageEventType;
+  // Dropped by the server when a message is deleted for everyone
+  signalMetadata?: SignalMetadata;
+  targetMessageId?: string;
+  deletedForEveryone?: boolean;
+  // Plaintext of system messages, which the server posts
+  text?: string;
+  // When the server purges a disappearing message
+  expiresAt?: Timestamp | null;
+  media?: {
+    encryptedUrl: string;
+    metadata: {
+      fileName: string;
+      fileSize: number;
+      mimeType: string;
+      iv: string;
+      tag: string;
+    };
+  };
+  duration?: number;
+  delivered?: string[];
+  read?: string[];
+}
+
+// Decrypted payloads are cached by message, or null when they can't be decrypted here
+type CachedPayload = ChatPayload | null;
+
+class ChatService {
+  private static instance: ChatService;
+  private functionsClient: FirebaseFunctionsClient;
+  private userNames = new Map<string, Promise<string>>();
+
+  private constructor() {
+    if (functions) {
+      this.functionsClient = createFirebaseClient(functions);
+    } else {
+      throw new Error('Firebase Functions not initialized');
+    }
+  }
+
+  static getInstance(): ChatService {
+    if (!ChatService.instance) {
+      ChatService.instance = new ChatService();
+    }
+    return ChatService.instance;
+  }
+
+  async initialize(userId: string): Promise<void> {
+    await getSignalProtocolService().initialize(userId);
+  }
+
+  // MARK: - Conversations
+
+  /**
+   * Listen to the user's conversations, most recently active first
+   */
+  subscribeToChats(
+    userId: string,
+    onChats: (chats: ChatSummary[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    let chatDocs: Array<{ id: string; data: Record<string, unknown> }> = [];
+    let chatRefs = new Map<string, Record<string, unknown>>();
+    let version = 0;
+
+    const publish = async () => {
+      const currentVersion = ++version;
+      const chats = await Promise.all(
+        chatDocs
+          .filter(({ id }) => chatRefs.has(id))
+          .map(({ id, data }) => this.toChatSummary(id, data, chatRefs.get(id)!, userId))
+      );
+      if (currentVersion !== version) return;
+
+      chats.sort((a, b) => (b.lastMessageAt?.getTime() ?? 0) - (a.lastMessageAt?.getTime() ?? 0));
+      onChats(chats);
+    };
+
+    const handleError = (error: Error) => {
+      errorHandler.handleError(error, ErrorSeverity.MEDIUM, {
+        action: 'subscribe-to-chats',
+      });
+      onError?.(error);
+    };
+
+    // Chat docs carry the activity, the user's references carry read state
+    const unsubscribeChats = onSnapshot(
+      query(collection(db, 'chats'), where('participants', 'array-contains', userId)),
+      (snapshot) => {
+        chatDocs = snapshot.docs.map((chatDoc) => ({ id: chatDoc.id, data: chatDoc.data() }));
+        publish();
+      },
+      handleError
+    );
+
+    const unsubscribeRefs = onSnapshot(
+      collection(db, 'users', userId, 'chats'),
+      (snapshot) => {
+        chatRefs = new Map(snapshot.docs.map((refDoc) => [refDoc.id, refDoc.data()]));
+        publish();
+      },
+      handleError
+    );
+
+    return () => {
+      unsubscribeChats();
+      unsubscribeRefs();
+    };
+  }
+
+  async getChat(chatId: string, userId: string): Promise<ChatSummary | null> {
+    const [chatDoc, refDoc] = await Promise.all([
+      getDoc(doc(db, 'chats', chatId)),
+      getDoc(doc(db, 'users', userId, 'chats', chatId)),
+    ]);
+    if (!chatDoc.exists()) return null;
+
+    return this.toChatSummary(chatId, chatDoc.data(), refDoc.data() || {}, userId);
+  }
+
+  private async toChatSummary(
+    id: string,
+    data: Record<string, unknown>,
+    chatRef: Record<string, unknown>,
+    userId: string
+  ): Promise<ChatSummary> {
+    const participants = (data.participants as string[]) || [];
+    const names = await Promise.all(participants.map((participantId) => this.getUserName(participantId)));
+    const participantNames = Object.fromEntries(participants.map((participantId, i) => [participantId, names[i]]));
+
+    const lastMessageAt = toDate(data.lastMessageAt);
+    const lastRead = toDate(chatRef.lastRead);
+    const others = participants.filter((participantId) => participantId !== userId);
+
+    return {
+      id,
+      type: data.type === 'group' ? 'group' : 'direct',
+      name: (data.name as string) || others.map((participantId) => participantNames[participantId]).join(', ') || 'Chat',
+      participants,
+      participantNames,
+      lastMessageAt,
+      unread: !!lastMessageAt && (!lastRead || lastMessageAt > lastRead),
+      muted: !!chatRef.muted,
+      disappearingMessagesSeconds: (data.disappearingMessagesSeconds as number) || undefined,
+    };
+  }
+
+  private getUserName(userId: string): Promise<string> {
+    if (!this.userNames.has(userId)) {
+      this.userNames.set(
+        userId,
+        getDoc(doc(db, 'users', userId))
+          .then((userDoc) => {
+            const data = userDoc.data();
+            return data?.displayName
+              || [data?.firstName, data?.lastName].filter(Boolean).join(' ')
+              || 'Family member';
+          })
+          .catch(() => 'Family member')
+      );
+    }
+    return this.userNames.get(userId)!;
+  }
+
+  // MARK: - Messages
+
+  /**
+   * Listen to the latest messages of a chat, decrypted for this device
+   */
+  subscribeToMessages(
+    chatId: string,
+    userId: string,
+    onMessages: (messages: ChatMessage[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const payloads = new Map<string, CachedPayload>();
+    const purged = new Set<string>();
+    // Snapshots are decrypted one at a time so ratchet steps happen in message order
+    let processing = Promise.resolve();
+    let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Disappearing messages leave the screen when they expire, not on the next snapshot
+    const emitMessages = (docs: EncryptedMessageDoc[]) => {
+      clearTimeout(expiryTimer);
+      const now = Date.now();
+      const messages = toChatMessages(docs, payloads);
+
+      for (const message of messages) {
+        if (message.expiresAt && message.expiresAt.getTime() <= now && !purged.has(message.id)) {
+          purged.add(message.id);
+          getSignalProtocolService().deleteDecryptedMessage(message.id).catch(() => undefined);
+        }
+      }
+
+      const visible = messages.filter((message) => !message.expiresAt || message.expiresAt.getTime() > now);
+      onMessages(visible);
+
+      const nextExpiry = Math.min(...visible.map((message) => message.expiresAt?.getTime() ?? Infinity));
+      if (nextExpiry !== Infinity) {
+        expiryTimer = setTimeout(() => emitMessages(docs), Math.min(nextExpiry - now, MAX_EXPIRY_TIMER_MS));
+      }
+    };
+
+    const unsubscribe = onSnapshot(
+      query(collection(db, 'chats', chatId, 'messages'), orderBy('timestamp', 'asc'), limitToLast(MESSAGE_PAGE_SIZE)),
+      (snapshot) => {
+        const docs = snapshot.docs.map((messageDoc) => ({ ...messageDoc.data(), id: messageDoc.id }) as EncryptedMessageDoc);
+
+        processing = processing.then(async () => {
+          for (const message of docs) {
+            if (!payloads.has(message.id)) {
+              payloads.set(message.id, await this.getPayload(message));
+            }
+          }
+          emitMessages(docs);
+          this.markDelivered(chatId, userId, docs);
+        });
+      },
+      (error) => {
+        errorHandler.handleError(error, ErrorSeverity.MEDIUM, {
+          action: 'subscribe-to-messages',
+          chatId,
+        });
+        onError?.(error);
+      }
+    );
+
+    return () => {
+      clearTimeout(expiryTimer);
+      unsubscribe();
+    };
+  }
+
+  private async getPayload(message: EncryptedMessageDoc): Promise<CachedPayload> {
+    if (message.deletedForEveryone || !message.signalMetadata) return null;
+
+    const signalService = getSignalProtocolService();
+    const cached = await signalService.getDecryptedMessage<CachedPayload>(message.id);
+    if (cached !== null) return cached;
+
+    try {
+      const payload = await signalService.decryptForDevice(message.senderId, message.signalMetadata);
+      if (payload) {
+        await signalService.saveDecryptedMessage(message.id, payload);
+      }
+      return payload;
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.LOW, {
+        action: 'decrypt-chat-message',
+        messageId: message.id,
+      });
+      return null;
+    }
+  }
+
+  async sendTextMessage(chatId: string, userId: string, text: string): Promise<void> {
+    await this.sendMessage(chatId, userId, 'text', { type: 'text', text });
+  }
+
+  /**
+   * Encrypt a file with a fresh AES-256-GCM key, upload it, and send the key to the chat
+   */
+  async sendAttachment(chatId: string, userId: string, file: File, duration?: number): Promise<void> {
+    await signalCryptoReady();
+    const messageId = createMessageId();
+
+    const key = crypto.getRandomValues(new Uint8Array(32));
+    const iv = crypto.getRandomValues(new Uint8Array(AES_GCM_IV_LENGTH));
+    const aesKey = await crypto.subtle.importKey('raw', key, 'AES-GCM', false, ['encrypt']);
+    const sealed = new Uint8Array(
+      await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, await file.arrayBuffer())
+    );
+    // WebCrypto appends the tag; the mobile app stores it separately
+    const ciphertext = sealed.slice(0, sealed.length - AES_GCM_TAG_LENGTH);
+    const tag = sealed.slice(sealed.length - AES_GCM_TAG_LENGTH);
+
+    const storageRef = ref(storage, `encrypted/${chatId}/${messageId}/${createMessageId()}.enc`);
+    await uploadBytes(storageRef, ciphertext, { contentType: 'application/octet-stream' });
+    const encryptedUrl = await getDownloadURL(storageRef);
+
+    const type: ChatMessageType = file.type.startsWith('image/') || file.type.startsWith('video/')
+      ? 'media'
+      : file.type.startsWith('audio/') && duration !== undefined
+        ? 'voice'
+        : 'file';
+
+    await this.sendMessage(
+      chatId,
+      userId,
+      type,
+      { type: 'media', media: { encryptionKey: toBase64(key) } },
+      {
+        messageId,
+        media: {
+          encryptedUrl,
+          metadata: {
+            fileName: file.name,
+            fileSize: file.size,
+            mimeType: file.type || 'application/octet-stream',
+            iv: toBase64(iv),
+            tag: toBase64(tag),
+          },
+        },
+        duration,
+      }
+    );
+  }
+
+  /**
+   * Download and decrypt an attachment
+   */
+  async downloadAttachment(attachment: ChatAttachment): Promise<Blob> {
+    await signalCryptoReady();
+    const response = await fetch(attachment.encryptedUrl);
+    if (!response.ok) {
+      throw new Error('Failed to download attachment');
+    }
+
+    const ciphertext = new Uint8Array(await response.arrayBuffer());
+    const sealed = new Uint8Array(ciphertext.length + AES_GCM_TAG_LENGTH);
+    sealed.set(ciphertext);
+    sealed.set(fromBase64(attachment.tag), ciphertext.length);
+
+    const aesKey = await crypto.subtle.importKey(
+      'raw',
+      new Uint8Array(fromBase64(attachment.encryptionKey)),
+      'AES-GCM',
+      false,
+      ['decrypt']
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(fromBase64(attachment.iv)) },
+      aesKey,
+      sealed
+    );
+    return new Blob([plaintext], { type: attachment.mimeType });
+  }
+
+  private async sendMessage(
+    chatId: string,
+    userId: string,
+    type: ChatMessageType,
+    payload: ChatPayload,
+    extra: { messageId?: string; media?: EncryptedMessageDoc['media']; duration?: number } = {}
+  ): Promise<void> {
+    try {
+      const chatDoc = await getDoc(doc(db, 'chats', chatId));
+      if (!chatDoc.exists()) {
+        throw new Error('Chat not found');
+      }
+
+      const participants = (chatDoc.data().participants as string[]) || [];
+      const recipients = participants.filter((participantId) => participantId !== userId);
+
+      // The chat's disappearing message timer travels inside the encrypted payload
+      const expiresIn = (chatDoc.data().disappearingMessagesSeconds as number) || undefined;
+      const sentPayload: ChatPayload = expiresIn ? { ...payload, expiresIn } : payload;
+
+      const signalService = getSignalProtocolService();
+      const signalMetadata = await signalService.encryptForDevices(recipients, sentPayload);
+
+      // A device can't encrypt to itself, so keep our own copy of the plaintext
+      const messageId = extra.messageId || createMessageId();
+      await signalService.saveDecryptedMessage(messageId, sentPayload);
+
+      const messageData: Record<string, unknown> = {
+        id: messageId,
+        chatId,
+        senderId: userId,
+        timestamp: serverTimestamp(),
+        type,
+        signalMetadata,
+        delivered: [],
+        read: [],
+      };
+      if (extra.media) {
+        messageData.media = extra.media;
+      }
+      if (extra.duration !== undefined) {
+        messageData.duration = extra.duration;
+      }
+
+      await setDoc(doc(db, 'chats', chatId, 'messages', messageId), messageData);
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.HIGH, {
+        action: 'send-chat-message',
+        chatId,
+      });
+      throw error;
+    }
+  }
+
+  // MARK: - Safety Numbers
+
+  /**
+   * Users whose safety number changed. Messages from their new keys stay hidden until
+   * the change is accepted.
+   */
+  getIdentityChanges(): string[] {
+    return getSignalProtocolService().getIdentityChanges();
+  }
+
+  async acceptIdentityChange(userId: string): Promise<void> {
+    await getSignalProtocolService().acceptIdentityChange(userId);
+  }
+
+  // MARK: - Typing and Read State
+
+  async setTyping(chatId: string, isTyping: boolean): Promise<void> {
+    try {
+      await this.functionsClient.callFunction('sendTypingNotification', { chatId, isTyping });
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.LOW, {
+        action: 'send-typing-notification',
+        chatId,
+      });
+    }
+  }
+
+  /**
+   * Listen to which other participants are typing
+   */
+  subscribeToTyping(chatId: string, userId: string, onTyping: (userIds: string[]) => void): Unsubscribe {
+    return onSnapshot(
+      collection(db, 'chats', chatId, 'typing'),
+      (snapshot) => {
+        const now = Date.now();
+        onTyping(
+          snapshot.docs
+            .filter((typingDoc) => typingDoc.id !== userId)
+            .filter((typingDoc) => {
+              const timestamp = toDate(typingDoc.data().timestamp);
+              return !!timestamp && now - timestamp.getTime() < TYPING_TIMEOUT_MS;
+            })
+            .map((typingDoc) => typingDoc.id)
+        );
+      },
+      (error) => {
+        errorHandler.handleError(error, ErrorSeverity.LOW, {
+          action: 'subscribe-to-typing',
+          chatId,
+        });
+      }
+    );
+  }
+
+  /**
+   * Mark the chat read, and send read receipts for the given messages
+   */
+  async markChatRead(chatId: string, userId: string, messages: ChatMessage[]): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'users', userId, 'chats', chatId), { lastRead: serverTimestamp() });
+
+      const unread = messages.filter((message) =>
+        message.type !== 'system' && message.senderId !== userId && !message.read.includes(userId));
+      await Promise.all(unread.map((message) => this.updateDelivery(chatId, message.id, 'read')));
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.LOW, {
+        action: 'mark-chat-read',
+        chatId,
+      });
+    }
+  }
+
+  private markDelivered(chatId: string, userId: string, messages: EncryptedMessageDoc[]): void {
+    messages
+      .filter((message) => message.type !== 'system' && message.senderId !== userId)
+      .filter((message) => !(message.delivered || []).includes(userId))
+      .forEach((message) => {
+        this.updateDelivery(chatId, message.id, 'delivered').catch((error) => {
+          errorHandler.handleError(error, ErrorSeverity.LOW, {
+            action: 'mark-message-delivered',
+            messageId: message.id,
+          });
+        });
+      });
+  }
+
+  private async updateDelivery(chatId: string, messageId: string, status: 'delivered' | 'read'): Promise<void> {
+    await this.functionsClient.callFunction('updateMessageDelivery', { chatId, messageId, status });
+  }
+}
+
+/**
+ * Decrypted messages in order, with reactions, edits and deletions folded into the
+ * messages they target
+ */
+function toChatMessages(docs: EncryptedMessageDoc[], payloads: Map<string, CachedPayload>): ChatMessage[] {
+  const messages = new Map<string, ChatMessage>();
+
+  for (const message of docs) {
+    const payload = payloads.get(message.id) ?? null;
+
+    if (MESSAGE_EVENT_TYPES.includes(message.type)) {
+      const target = messages.get(message.targetMessageId || '');
+      // The envelope names the target too, so a tampered payload can't redirect it
+      if (target && payload?.event && payload.event.targetMessageId === target.id) {
+        applyMessageEvent(target, payload.event, message.senderId, toDate(message.timestamp) || new Date());
+      }
+      continue;
+    }
+
+    messages.set(message.id, toChatMessage(message, payload));
+  }
+
+  return Array.from(messages.values());
+}
+
+function applyMessageEvent(
+  message: ChatMessage,
+  event: NonNullable<ChatPayload['event']>,
+  senderId: string,
+  timestamp: Date
+): void {
+  if (message.deletedForEveryone) return;
+
+  switch (event.type) {
+    case 'reaction': {
+      // Each user has one reaction, so a new emoji replaces the old one
+      const reactions = (message.reactions || [])
+        .map((reaction) => ({ ...reaction, userIds: reaction.userIds.filter((id) => id !== senderId) }))
+        .filter((reaction) => reaction.userIds.length > 0);
+      if (!event.remove && event.emoji) {
+        const existing = reactions.find((reaction) => reaction.emoji === event.emoji);
+        if (existing) {
+          existing.userIds.push(senderId);
+        } else {
+          reactions.push({ emoji: event.emoji, userIds: [senderId] });
+        }
+      }
+      message.reactions = reactions;
+      break;
+    }
+    case 'edit':
+      if (senderId === message.senderId && event.text !== undefined) {
+        message.text = event.text;
+        message.editedAt = timestamp;
+      }
+      break;
+    case 'delete':
+      if (senderId === message.senderId) {
+        message.text = undefined;
+        message.attachment = undefined;
+        message.reactions = undefined;
+        message.deletedForEveryone = true;
+      }
+      break;
+  }
+}
+
+function toChatMessage(message: EncryptedMessageDoc, payload: CachedPayload): ChatMessage {
+  const chatMessage: ChatMessage = {
+    id: message.id,
+    chatId: message.chatId,
+    senderId: message.senderId,
+    // Pending server timestamps read as null until the write lands
+    timestamp: toDate(message.timestamp) || new Date(),
+    type: message.type as ChatMessageType,
+    duration: message.duration,
+    delivered: message.delivered || [],
+    read: message.read || [],
+  };
+
+  if (message.type === 'system') {
+    chatMessage.text = message.text;
+    return chatMessage;
+  }
+
+  // The sender's timer counts; the server's purge time only ever makes it earlier
+  const sentAt = chatMessage.timestamp.getTime();
+  const expiries = [
+    payload?.expiresIn ? sentAt + payload.expiresIn * 1000 : undefined,
+    toDate(message.expiresAt)?.getTime(),
+  ].filter((expiry): expiry is number => expiry !== undefined);
+  if (expiries.length > 0) {
+    chatMessage.expiresAt = new Date(Math.min(...expiries));
+  }
+
+  if (message.deletedForEveryone) {
+    chatMessage.deletedForEveryone = true;
+    return chatMessage;
+  }
+
+  if (!payload) {
+    chatMessage.undecryptable = true;
+    return chatMessage;
+  }
+
+  chatMessage.text = payload.text;
+  chatMessage.replyTo = payload.replyTo;
+  if (message.media && payload.media) {
+    chatMessage.attachment = {
+      encryptedUrl: message.media.encryptedUrl,
+      ...message.media.metadata,
+      encryptionKey: payload.media.encryptionKey,
+    };
+  }
+  return chatMessage;
+}
+
+export function getDisappearingTimerLabel(seconds: number): string {
+  return DISAPPEARING_TIMER_LABELS[seconds] || `${Math.round(seconds / 3600)} hours`;
+}
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Timestamp) return value.toDate();
+  if (typeof value === 'number') return new Date(value);
+  return undefined;
+}
+
+function createMessageId(): string {
+  return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Export singleton instance getter
+export const getChatService = () => ChatService.getInstance();
@@ -4,13 +4,20 @@
  * Follows existing Dynasty patterns for error handling, caching, and user feedback
  */
 
-import { VaultApiClient, VaultApiClientConfig, VaultItem as SDKVaultItem, VaultStorageInfo as SDKVaultStorageInfo } from '@dynasty/vault-sdk';
+import { VaultApiClient, VaultApiClientConfig, VaultItem as SDKVaultItem, VaultStorageInfo as SDKVaultStorageInfo, VaultUploadPart, AccessVaultShareLinkResponse, FamilyVaultInfo, FamilyVaultRole, VaultAlbum, VaultSmartCollection, SmartCollectionRules, VaultTagCount } from '@dynasty/vault-sdk';
 import { app } from '@/lib/firebase';
 import { errorHandler, ErrorSeverity } from './ErrorHandlingService';
 import { cacheService, cacheKeys } from './CacheService';
 import { toast } from '@/components/ui/use-toast';
 import { showRateLimitedToast } from '../utils/toastRateLimiter';
 import { vaultSDKPerformanceMonitor } from './VaultSDKPerformanceMonitor';
+import {
+  getShareLinkAnalytics,
+  getVaultItemSharingInfo,
+  type VaultAccessLevel,
+  type VaultItemSharingInfo,
+  type VaultShareLinkAnalytics,
+} from '@/utils/functionUtils';
 
 // Import existing types for backward compatibility
 import type { VaultItem, VaultFolder, UploadProgress } from './VaultService';
@@ -87,26 +94,58 @@ class VaultSDKService {
     return {
       id: sdkItem.id,
       name: sdkItem.name,
-      type: 'file' as const, // SDK primarily handles files
+      type: sdkItem.type,
       mimeType: sdkItem.mimeType,
       size: sdkItem.size,
-      parentId: null, // SDK doesn't have parent concept yet
-      path: `/${sdkItem.name}`,
+      parentId: sdkItem.parentId,
+      path: sdkItem.path,
       url: sdkItem.cachedDownloadUrl,
       thumbnailUrl: sdkItem.thumbnailUrl,
       isEncrypted: !!sdkItem.isEncrypted,
+      encryptedThumbnail: sdkItem.encryptedThumbnail,
+      encryptedThumbnailUrl: sdkItem.encryptedThumbnailUrl,
       isShared: (sdkItem.sharedWith?.length || 0) > 0,
       sharedWith: sdkItem.sharedWith,
+      accessLevel: sdkItem.accessLevel,
+      ownerName: sdkItem.ownerName,
+      familyTreeId: sdkItem.familyTreeId,
       createdAt: new Date(sdkItem.createdAt),
       updatedAt: new Date(sdkItem.updatedAt),
       lastAccessedAt: undefined,
       metadata: undefined,
-      tags: [],
+      tags: sdkItem.tags || [],
+      peopleTags: sdkItem.peopleTags || [],
+      albumIds: sdkItem.albumIds || [],
       description: undefined,
       scanStatus: undefined, // SDK doesn't expose scan status yet
     };
   }
 
+  private convertSDKFolderToLegacy(sdkItem: SDKVaultItem): VaultFolder {
+    return {
+      id: sdkItem.id,
+      name: sdkItem.name,
+      parentId: sdkItem.parentId,
+      path: sdkItem.path,
+      itemCount: 0, // SDK doesn't provide this yet
+      totalSize: 0, // SDK doesn't provide this yet
+      isShared: (sdkItem.sharedWith?.length || 0) > 0,
+      accessLevel: sdkItem.accessLevel,
+      ownerName: sdkItem.ownerName,
+      familyTreeId: sdkItem.familyTreeId,
+      createdAt: new Date(sdkItem.createdAt),
+      updatedAt: new Date(sdkItem.updatedAt),
+    };
+  }
+
+  // Splits listed SDK items into the legacy files and folders lists
+  private splitSDKItems(sdkItems: SDKVaultItem[]): { items: VaultItem[]; folders: VaultFolder[] } {
+    return {
+      items: sdkItems.filter(item => item.type === 'file').map(item => this.convertSDKItemToLegacy(item)),
+      folders: sdkItems.filter(item => item.type === 'folder').map(item => this.convertSDKFolderToLegacy(item)),
+    };
+  }
+
   // Enhanced error handling following Dynasty patterns
   private handleVaultError(error: unknown, action: string, metadata?: Record<string, unknown>) {
     // Log error using Dynasty's error handler
@@ -208,7 +247,7 @@ class VaultSDKService {
 
   async uploadFile(
     file: File,
-    _parentId: string | null = null,
+    parentId: string | null = null,
     onProgress?: (progress: UploadProgress) => void,
     encryptionOptions?: {
       encrypt: (file: File, fileId: string) => Promise<{
@@ -219,11 +258,14 @@ class VaultSDKService {
         error?: string;
       }>;
       getCurrentKeyId: () => Promise<string>;
-    }
+      // Thumbnails are encrypted with the key of the item they preview
+      encryptThumbnail?: (file: File, itemId: string) => Promise<{
+        encrypted: Uint8Array;
+        nonce: string;
+      } | null>;
+    },
+    options?: { familyTreeId?: string }
   ): Promise<VaultItem> {
-    // Note: parentId not used in SDK implementation yet
-    void _parentId;
-    
     // Validate file size
     if (file.size > this.maxFileSize) {
       throw new Error(`File size exceeds maximum limit of ${this.maxFileSize / 1024 / 1024}MB`);
@@ -239,6 +281,10 @@ class VaultSDKService {
         (navigator.connection as any)?.effectiveType || 'unknown' : 'unknown'
     });
 
+    const abortController = new AbortController();
+    let resumeKey: string | null = null;
+    let sessionUploadId: string | null = null;
+
     try {
       // Show upload started toast
       showRateLimitedToast(toast, {
@@ -251,6 +297,7 @@ class VaultSDKService {
       const encryptionEnabled = await this.isEncryptionEnabled();
       let uploadData: File | Blob = file;
       let encryptionKeyId: string | null = null;
+      let fileEncryption: { header?: Uint8Array; metadata?: Record<string, unknown> } | null = null;
 
       // Handle encryption if enabled
       if (encryptionEnabled && encryptionOptions) {
@@ -265,44 +312,73 @@ class VaultSDKService {
         });
 
         encryptionKeyId = await encryptionOptions.getCurrentKeyId();
+        fileEncryption = encryptionResult;
       }
 
-      // Track upload progress
+      // Cancelling stops the current part; the session is kept so the upload can resume
       this.uploadTasks.set(uploadId, {
-        cancel: () => {
-          // SDK doesn't support cancellation yet, but we track it
-          this.uploadTasks.delete(uploadId);
-        },
+        cancel: () => abortController.abort(),
         progress: 0,
       });
 
-      // Simulate progress tracking (SDK doesn't provide real-time progress yet)
-      const progressInterval = setInterval(() => {
+      // Encrypting again produces different bytes, so only plaintext uploads can pick up
+      // parts uploaded by an earlier attempt
+      resumeKey = encryptionKeyId ? null : this.getResumableUploadKey(file, parentId, options?.familyTreeId);
+      const session = await this.resumeOrCreateUploadSession(
+        file,
+        uploadData,
+        parentId,
+        !!encryptionKeyId,
+        resumeKey,
+        options?.familyTreeId
+      );
+      sessionUploadId = session.uploadId;
+
+      const reportProgress = (parts: VaultUploadPart[]) => {
+        const bytesTransferred = parts.reduce(
+          (total, part) => total + this.getUploadPartSize(part.partNumber, session.partSize, uploadData.size),
+          0
+        );
+        const percentage = Math.round((bytesTransferred / uploadData.size) * 100);
         const task = this.uploadTasks.get(uploadId);
-        if (task && onProgress) {
-          task.progress = Math.min(task.progress + 10, 90);
-          onProgress({
-            bytesTransferred: (task.progress / 100) * uploadData.size,
-            totalBytes: uploadData.size,
-            percentage: task.progress,
-            state: 'running',
-          });
-        }
-      }, 200);
+        if (task) task.progress = percentage;
+        onProgress?.({
+          bytesTransferred,
+          totalBytes: uploadData.size,
+          percentage,
+          state: 'running',
+        });
+      };
+
+      reportProgress(session.completedParts);
+      const completedParts = await this.uploadMissingParts(
+        session,
+        uploadData,
+        abortController.signal,
+        reportProgress
+      );
+
+      await this.apiClient.completeFileUpload({
+        uploadId: session.uploadId,
+        itemId: session.itemId,
+        parts: completedParts,
+      });
+      if (resumeKey) this.clearResumableUpload(resumeKey);
 
-      // Use SDK to create the vault item
       const result = await this.apiClient.addFile({
-        itemId: uploadId, // Use upload ID as item ID
+        itemId: session.itemId,
         name: file.name,
-        storagePath: `uploads/${file.name}`,
+        storagePath: session.storagePath,
         fileType: this.getFileTypeFromMime(file.type),
-        size: file.size,
+        size: uploadData.size,
         mimeType: file.type,
         isEncrypted: !!encryptionKeyId,
       });
 
-      // Complete progress
-      clearInterval(progressInterval);
+      if (encryptionKeyId && fileEncryption && encryptionOptions) {
+        await this.storeEncryptionMetadata(file, session.itemId, encryptionKeyId, fileEncryption, encryptionOptions);
+      }
+
       this.uploadTasks.delete(uploadId);
 
       if (onProgress) {
@@ -336,6 +412,20 @@ class VaultSDKService {
     } catch (error) {
       // Clean up on error
       this.uploadTasks.delete(uploadId);
+
+      if (abortController.signal.aborted) {
+        onProgress?.({
+          bytesTransferred: 0,
+          totalBytes: file.size,
+          percentage: 0,
+          state: 'canceled',
+        });
+      }
+
+      // Encrypted uploads can't be resumed, so don't leave their parts behind
+      if (sessionUploadId && !resumeKey) {
+        this.apiClient.abortUploadSession({ uploadId: sessionUploadId }).catch(() => undefined);
+      }
       
       // End performance monitoring - failure
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -353,6 +443,173 @@ class VaultSDKService {
     }
   }
 
+  // Resumable upload helpers
+
+  private getResumableUploadKey(file: File, parentId: string | null, familyTreeId?: string): string {
+    const space = familyTreeId ? `family-${familyTreeId}:` : '';
+    return `vault-upload:${space}${parentId || 'root'}:${file.name}:${file.size}:${file.lastModified}`;
+  }
+
+  private loadResumableUpload(key: string): { uploadId: string; itemId: string } | null {
+    if (typeof window === 'undefined') return null;
+    try {
+      const saved = window.localStorage.getItem(key);
+      return saved ? JSON.parse(saved) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveResumableUpload(key: string, upload: { uploadId: string; itemId: string }) {
+    if (typeof window === 'undefined') return;
+    window.localStorage.setItem(key, JSON.stringify(upload));
+  }
+
+  private clearResumableUpload(key: string) {
+    if (typeof window === 'undefined') return;
+    window.localStorage.removeItem(key);
+  }
+
+  private getUploadPartSize(partNumber: number, partSize: number, totalSize: number): number {
+    return Math.min(partSize, totalSize - (partNumber - 1) * partSize);
+  }
+
+  /**
+   * Continues the upload session saved for this file, or starts a new one when there is
+   * none or it has expired
+   */
+  private async resumeOrCreateUploadSession(
+    file: File,
+    uploadData: Blob,
+    parentId: string | null,
+    isEncrypted: boolean,
+    resumeKey: string | null,
+    familyTreeId?: string
+  ): Promise<{
+    uploadId: string;
+    itemId: string;
+    storagePath: string;
+    partSize: number;
+    partCount: number;
+    completedParts: VaultUploadPart[];
+  }> {
+    const saved = resumeKey ? this.loadResumableUpload(resumeKey) : null;
+    if (saved) {
+      try {
+        const existing = await this.apiClient.getUploadSession({ uploadId: saved.uploadId });
+        if (existing.status === 'active' && existing.fileSize === uploadData.size) {
+          return existing;
+        }
+      } catch {
+        // The session is gone, start a new one below
+      }
+    }
+
+    const created = await this.apiClient.createUploadSession({
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      fileSize: uploadData.size,
+      parentId: parentId || undefined,
+      isEncrypted,
+      familyTreeId,
+    });
+
+    if (resumeKey) {
+      this.saveResumableUpload(resumeKey, { uploadId: created.uploadId, itemId: created.itemId });
+    }
+
+    return { ...created, completedParts: [] };
+  }
+
+  /**
+   * Uploads every part the server hasn't acknowledged yet, reporting each one as it lands
+   * so an interrupted upload resumes from the last acknowledged part
+   */
+  private async uploadMissingParts(
+    session: { uploadId: string; partSize: number; partCount: number; completedParts: VaultUploadPart[] },
+    uploadData: Blob,
+    signal: AbortSignal,
+    onPartUploaded: (parts: VaultUploadPart[]) => void
+  ): Promise<VaultUploadPart[]> {
+    const completedParts = [...session.completedParts];
+    const acknowledged = new Set(completedParts.map(part => part.partNumber));
+    const missing: number[] = [];
+    for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+      if (!acknowledged.has(partNumber)) missing.push(partNumber);
+    }
+
+    // Part URLs are requested in batches of up to 100
+    for (let offset = 0; offset < missing.length; offset += 100) {
+      const { parts } = await this.apiClient.getUploadPartUrls({
+        uploadId: session.uploadId,
+        partNumbers: missing.slice(offset, offset + 100),
+      });
+
+      for (const { partNumber, signedUrl } of parts) {
+        const start = (partNumber - 1) * session.partSize;
+        const response = await fetch(signedUrl, {
+          method: 'PUT',
+          body: uploadData.slice(start, start + session.partSize),
+          signal,
+        });
+
+        const etag = response.headers.get('ETag');
+        if (!response.ok || !etag) {
+          throw new Error(`Upload of part ${partNumber} failed with status ${response.status}`);
+        }
+
+        const part = { partNumber, etag };
+        await this.apiClient.reportUploadParts({ uploadId: session.uploadId, parts: [part] });
+        completedParts.push(part);
+        onPartUploaded(completedParts);
+      }
+    }
+
+    return completedParts;
+  }
+
+  /**
+   * Records how an uploaded file was encrypted, along with an encrypted thumbnail when the
+   * client can make one. The file is already stored, so a thumbnail that fails to upload
+   * only leaves the item with a generic icon.
+   */
+  private async storeEncryptionMetadata(
+    file: File,
+    itemId: string,
+    encryptionKeyId: string,
+    encryptionResult: { header?: Uint8Array; metadata?: Record<string, unknown> },
+    encryptionOptions: {
+      encryptThumbnail?: (file: File, itemId: string) => Promise<{ encrypted: Uint8Array; nonce: string } | null>;
+    }
+  ): Promise<void> {
+    const thumbnail = await encryptionOptions.encryptThumbnail?.(file, itemId) ?? null;
+
+    const { thumbnailUploadUrl } = await this.apiClient.storeEncryptionMetadata({
+      itemId,
+      encryptionMetadata: {
+        header: Array.from(encryptionResult.header || []),
+        metadata: encryptionResult.metadata || {},
+        encryptionKeyId,
+      },
+      ...(thumbnail ? { thumbnail: { nonce: thumbnail.nonce, size: thumbnail.encrypted.byteLength } } : {}),
+    });
+
+    if (thumbnail && thumbnailUploadUrl) {
+      try {
+        const response = await fetch(thumbnailUploadUrl, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: new Blob([new Uint8Array(thumbnail.encrypted)], { type: 'application/octet-stream' }),
+        });
+        if (!response.ok) {
+          throw new Error(`Thumbnail upload failed with status ${response.status}`);
+        }
+      } catch (error) {
+        console.warn('Failed to upload encrypted thumbnail:', error);
+      }
+    }
+  }
+
   async downloadFile(
     item: VaultItem,
     decryptionOptions?: {
@@ -492,7 +749,7 @@ class VaultSDKService {
 
   // Folder Operations
 
-  async createFolder(name: string, parentId: string | null = null): Promise<VaultFolder> {
+  async createFolder(name: string, parentId: string | null = null, familyTreeId?: string): Promise<VaultFolder> {
     const createId = `sdk-create-folder-${Date.now()}`;
     
     // Start performance monitoring
@@ -507,6 +764,7 @@ class VaultSDKService {
       const result = await this.apiClient.createFolder({
         name,
         parentFolderId: parentId || undefined,
+        familyTreeId,
       });
       
       // Show success toast
@@ -529,6 +787,7 @@ class VaultSDKService {
         name: result.name,
         parentId: result.parentId,
         path: result.path,
+        familyTreeId: result.familyTreeId,
         createdAt: new Date(result.createdAt),
         updatedAt: new Date(result.updatedAt),
         itemCount: 0, // SDK doesn't provide this yet
@@ -554,7 +813,8 @@ class VaultSDKService {
 
   async getItems(
     parentId: string | null = null,
-    includeDeleted = false
+    includeDeleted = false,
+    familyTreeId?: string
   ): Promise<{
     items: VaultItem[];
     folders: VaultFolder[];
@@ -568,7 +828,7 @@ class VaultSDKService {
       networkType: typeof window !== "undefined" && "connection" in navigator ? (navigator.connection as any)?.effectiveType || "unknown" : "unknown"
     });
 
-    const cacheKey = cacheKeys.vaultItems('current-user', parentId || 'root');
+    const cacheKey = cacheKeys.vaultItems(familyTreeId ? `family-${familyTreeId}` : 'current-user', parentId || 'root');
 
     try {
       const result = await cacheService.getOrSet(
@@ -578,15 +838,10 @@ class VaultSDKService {
           vaultSDKPerformanceMonitor.recordCacheEvent(listId, false, cacheKey);
 
           // Use SDK to get items
-          const sdkItems = await this.apiClient.getItems({});
+          const sdkItems = await this.apiClient.getItems({ parentId: parentId || undefined, familyTreeId });
           
           // Convert SDK items to legacy format
-          const items = sdkItems.items.map(item => this.convertSDKItemToLegacy(item));
-          
-          // For now, folders are empty since SDK doesn't handle folders yet
-          const folders: VaultFolder[] = [];
-
-          return { items, folders };
+          return this.splitSDKItems(sdkItems.items);
         },
         { ttl: 5 * 60 * 1000, persist: true }
       );
@@ -619,6 +874,23 @@ class VaultSDKService {
     }
   }
 
+  /**
+   * Items other members shared with the current user directly. Shared folders are opened
+   * with getItems like any other folder.
+   */
+  async getSharedWithMeItems(): Promise<{
+    items: VaultItem[];
+    folders: VaultFolder[];
+  }> {
+    try {
+      const response = await this.apiClient.getSharedWithMeItems();
+      return this.splitSDKItems(response.items);
+    } catch (error) {
+      this.handleVaultError(error, 'get-shared-with-me');
+      throw error;
+    }
+  }
+
   async searchItems(
     query: string,
     filters?: {
@@ -648,10 +920,11 @@ class VaultSDKService {
           filters.mimeType?.includes('audio') ? 'audio' :
           filters.mimeType?.includes('document') ? 'document' : 'other'
         ].filter(Boolean) as any : undefined,
+        tags: filters?.tags?.length ? filters.tags : undefined,
       });
 
       // Convert SDK items to legacy format
-      let items = result.map(item => this.convertSDKItemToLegacy(item));
+      let items = result.items.map(item => this.convertSDKItemToLegacy(item));
       
       // Apply client-side filtering
       if (filters) {
@@ -667,11 +940,6 @@ class VaultSDKService {
         if (filters.maxSize !== undefined) {
           items = items.filter(item => (item.size || 0) <= filters.maxSize!);
         }
-        if (filters.tags?.length) {
-          items = items.filter(item => 
-            filters.tags!.some(tag => item.tags?.includes(tag))
-          );
-        }
       }
       
       // End performance monitoring - success
@@ -766,11 +1034,28 @@ class VaultSDKService {
       expiresAt?: Date;
       allowDownload?: boolean;
       password?: string;
+      maxAccessCount?: number;
+      oneTime?: boolean;
     }
   ): Promise<{ shareLink: string; shareId: string }> {
     try {
+      // Without users to share with, create a public share link
       if (!options.userIds?.length) {
-        throw new Error('Must specify users to share with');
+        const result = await this.apiClient.createShareLink({
+          itemId,
+          expiresAt: options.expiresAt?.toISOString(),
+          allowDownload: options.allowDownload,
+          password: options.password || undefined,
+          maxAccessCount: options.maxAccessCount,
+          oneTime: options.oneTime,
+        });
+
+        this.invalidateCache();
+
+        return {
+          shareLink: result.shareLink,
+          shareId: result.shareId,
+        };
       }
 
       await this.apiClient.shareItem({
@@ -802,6 +1087,240 @@ class VaultSDKService {
     }
   }
 
+  async getSharingInfo(itemId: string): Promise<VaultItemSharingInfo> {
+    try {
+      return await getVaultItemSharingInfo(itemId);
+    } catch (error) {
+      this.handleVaultError(error, 'get-sharing-info', { itemId });
+      throw error;
+    }
+  }
+
+  /**
+   * Grants family members access to an item. Sharing a folder also shares everything in
+   * it, including files added later.
+   */
+  async shareWithMembers(itemId: string, userIds: string[], permission: VaultAccessLevel): Promise<void> {
+    try {
+      await this.apiClient.shareItem({ itemId, userIds, permissions: permission });
+      this.invalidateCache();
+    } catch (error) {
+      this.handleVaultError(error, 'share-with-members', {
+        itemId,
+        userCount: userIds.length,
+      });
+      throw error;
+    }
+  }
+
+  async updateMemberAccess(itemId: string, userId: string, permission: VaultAccessLevel): Promise<void> {
+    try {
+      await this.apiClient.updateItemPermissions({ itemId, userId, permissions: permission });
+      this.invalidateCache();
+    } catch (error) {
+      this.handleVaultError(error, 'update-member-access', { itemId });
+      throw error;
+    }
+  }
+
+  async revokeMemberAccess(itemId: string, userId: string): Promise<void> {
+    try {
+      await this.apiClient.revokeItemAccess({ itemId, userId });
+      this.invalidateCache();
+    } catch (error) {
+      this.handleVaultError(error, 'revoke-member-access', { itemId });
+      throw error;
+    }
+  }
+
+  // Family Vault
+
+  /**
+   * The family tree's shared vault: the current user's role, member roles and storage used.
+   * Its items are listed with getItems and the familyTreeId.
+   */
+  async getFamilyVault(familyTreeId: string): Promise<FamilyVaultInfo> {
+    try {
+      return await this.apiClient.getFamilyVault({ familyTreeId });
+    } catch (error) {
+      this.handleVaultError(error, 'get-family-vault', { familyTreeId });
+      throw error;
+    }
+  }
+
+  /**
+   * Sets up the family vault, or links it to the current user's family plan when the
+   * member whose plan it counted against has left
+   */
+  async createFamilyVault(familyTreeId: string): Promise<void> {
+    try {
+      await this.apiClient.createFamilyVault({ familyTreeId });
+      this.invalidateCache();
+    } catch (error) {
+      this.handleVaultError(error, 'create-family-vault', { familyTreeId });
+      throw error;
+    }
+  }
+
+  async updateFamilyVaultMemberRole(familyTreeId: string, userId: string, role: FamilyVaultRole): Promise<void> {
+    try {
+      await this.apiClient.updateFamilyVaultMemberRole({ familyTreeId, userId, role });
+    } catch (error) {
+      this.handleVaultError(error, 'update-family-vault-role', { familyTreeId });
+      throw error;
+    }
+  }
+
+  // Tags, Albums and Smart Collections
+
+  async updateItemTags(itemId: string, tags: string[], peopleTags?: string[]): Promise<{ tags: string[]; peopleTags: string[] }> {
+    try {
+      const result = await this.apiClient.updateItemTags({ itemId, tags, peopleTags });
+      this.invalidateCache();
+      return { tags: result.tags, peopleTags: result.peopleTags };
+    } catch (error) {
+      this.handleVaultError(error, 'update-item-tags', { itemId });
+      throw error;
+    }
+  }
+
+  /**
+   * Adds and removes tags on several items at once. Items that can't be tagged are
+   * reported back rather than failing the whole operation.
+   */
+  async bulkTagItems(
+    itemIds: string[],
+    addTags: string[],
+    removeTags: string[] = []
+  ): Promise<{ successfulItems: string[]; failedItems: Array<{ itemId: string; error: string }> }> {
+    try {
+      const result = await this.apiClient.bulkTagItems({ itemIds, addTags, removeTags });
+      this.invalidateCache();
+      return { successfulItems: result.successfulItems, failedItems: result.failedItems };
+    } catch (error) {
+      this.handleVaultError(error, 'bulk-tag-items', { count: itemIds.length });
+      throw error;
+    }
+  }
+
+  async getTags(): Promise<VaultTagCount[]> {
+    try {
+      return (await this.apiClient.getTags()).tags;
+    } catch (error) {
+      this.handleVaultError(error, 'get-tags');
+      throw error;
+    }
+  }
+
+  async getAlbums(): Promise<VaultAlbum[]> {
+    try {
+      return (await this.apiClient.getAlbums()).albums;
+    } catch (error) {
+      this.handleVaultError(error, 'get-albums');
+      throw error;
+    }
+  }
+
+  async createAlbum(name: string, itemIds?: string[], description?: string): Promise<VaultAlbum> {
+    try {
+      const { album } = await this.apiClient.createAlbum({ name, description, itemIds });
+      this.invalidateCache();
+      return album;
+    } catch (error) {
+      this.handleVaultError(error, 'create-album');
+      throw error;
+    }
+  }
+
+  async updateAlbum(albumId: string, changes: { name?: string; description?: string; coverItemId?: string }): Promise<void> {
+    try {
+      await this.apiClient.updateAlbum({ albumId, ...changes });
+    } catch (error) {
+      this.handleVaultError(error, 'update-album', { albumId });
+      throw error;
+    }
+  }
+
+  async deleteAlbum(albumId: string): Promise<void> {
+    try {
+      await this.apiClient.deleteAlbum({ albumId });
+      this.invalidateCache();
+    } catch (error) {
+      this.handleVaultError(error, 'delete-album', { albumId });
+      throw error;
+    }
+  }
+
+  /**
+   * Adds items to an album and takes others out. Only the user's own items can be in
+   * their albums; the rest are skipped.
+   */
+  async updateAlbumItems(
+    albumId: string,
+    addItemIds: string[] = [],
+    removeItemIds: string[] = []
+  ): Promise<{ updatedItemIds: string[]; skippedItemIds: string[] }> {
+    try {
+      const result = await this.apiClient.updateAlbumItems({ albumId, addItemIds, removeItemIds });
+      this.invalidateCache();
+      return { updatedItemIds: result.updatedItemIds, skippedItemIds: result.skippedItemIds };
+    } catch (error) {
+      this.handleVaultError(error, 'update-album-items', { albumId });
+      throw error;
+    }
+  }
+
+  async getSmartCollections(): Promise<VaultSmartCollection[]> {
+    try {
+      return (await this.apiClient.getSmartCollections()).collections;
+    } catch (error) {
+      this.handleVaultError(error, 'get-smart-collections');
+      throw error;
+    }
+  }
+
+  async createSmartCollection(name: string, rules: SmartCollectionRules): Promise<VaultSmartCollection> {
+    try {
+      return (await this.apiClient.createSmartCollection({ name, rules })).collection;
+    } catch (error) {
+      this.handleVaultError(error, 'create-smart-collection');
+      throw error;
+    }
+  }
+
+  async updateSmartCollection(collectionId: string, changes: { name?: string; rules?: SmartCollectionRules }): Promise<void> {
+    try {
+      await this.apiClient.updateSmartCollection({ collectionId, ...changes });
+    } catch (error) {
+      this.handleVaultError(error, 'update-smart-collection', { collectionId });
+      throw error;
+    }
+  }
+
+  async deleteSmartCollection(collectionId: string): Promise<void> {
+    try {
+      await this.apiClient.deleteSmartCollection({ collectionId });
+    } catch (error) {
+      this.handleVaultError(error, 'delete-smart-collection', { collectionId });
+      throw error;
+    }
+  }
+
+  /**
+   * The files in an album, or the files a smart collection's rules currently match
+   */
+  async getCollectionItems(source: { albumId: string } | { collectionId: string }): Promise<VaultItem[]> {
+    try {
+      const result = await this.apiClient.searchItems({ ...source, limit: 100 });
+      return result.items
+        .filter(item => item.type === 'file')
+        .map(item => this.convertSDKItemToLegacy(item));
+    } catch (error) {
+      this.handleVaultError(error, 'get-collection-items', source);
+      throw error;
+    }
+  }
+
   // Storage Information
 
   async getStorageInfo(): Promise<SDKVaultStorageInfo> {
@@ -933,7 +1452,7 @@ class VaultSDKService {
     }
   }
 
-  async getDeletedItems(): Promise<VaultItem[]> {
+  async getDeletedItems(familyTreeId?: string): Promise<VaultItem[]> {
     const deletedId = `sdk-deleted-items-${Date.now()}`;
     
     // Start performance monitoring
@@ -944,7 +1463,7 @@ class VaultSDKService {
     });
     
     try {
-      const result = await this.apiClient.getDeletedItems();
+      const result = await this.apiClient.getDeletedItems({ familyTreeId });
 
       // Convert SDK items to legacy format
       const items = result.map(item => this.convertSDKItemToLegacy(item));
@@ -1053,19 +1572,13 @@ class VaultSDKService {
     };
   }
 
-  async getShareLinkAnalytics() {
-    // Fallback to mock data for now
-    return {
-      summary: {
-        totalShareLinks: 0,
-        totalAccesses: 0,
-        activeLinks: 0,
-        passwordProtectedLinks: 0,
-      },
-      dailyAnalytics: [],
-      topAccessedItems: [],
-      recentShares: [],
-    };
+  async getShareLinkAnalytics(): Promise<VaultShareLinkAnalytics> {
+    try {
+      return await getShareLinkAnalytics();
+    } catch (error) {
+      this.handleVaultError(error, 'get-share-link-analytics');
+      throw error;
+    }
   }
 
   // Additional methods for full legacy compatibility
@@ -1128,7 +1641,7 @@ class VaultSDKService {
     }
   }
 
-  async accessShareLink(shareId: string, password?: string): Promise<VaultItem | null> {
+  async accessShareLink(shareId: string, password?: string): Promise<AccessVaultShareLinkResponse> {
     const accessId = `sdk-access-${Date.now()}-${shareId}`;
     
     // Start performance monitoring
@@ -1143,26 +1656,14 @@ class VaultSDKService {
         password,
       });
       
-      if (!result) {
-        // End performance monitoring - not found
-        vaultSDKPerformanceMonitor.endOperation(accessId, true, undefined, {
-          shareAccess: true,
-          found: false
-        });
-        return null;
-      }
-      
-      // Convert to legacy format
-      const item = this.convertSDKItemToLegacy(result);
-      
       // End performance monitoring - success
       vaultSDKPerformanceMonitor.endOperation(accessId, true, undefined, {
         shareAccess: true,
         found: true,
-        itemId: item.id
+        itemId: result.itemId
       });
 
-      return item;
+      return result;
     } catch (error) {
       // End performance monitoring - failure
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1486,6 +1987,8 @@ export const vaultSDKService = VaultSDKService.getInstance();
 // Export for testing and debugging
 export { VaultSDKService };
 
+export type { FamilyVaultInfo, FamilyVaultRole, VaultAlbum, VaultSmartCollection, SmartCollectionRules, VaultTagCount };
+
 // Export React hook wrapper following Dynasty patterns
 export function useVaultSDK() {
   const service = VaultSDKService.getInstance();
@@ -20,8 +20,17 @@ export interface VaultItem {
   url?: string;
   thumbnailUrl?: string;
   isEncrypted: boolean;
+  // Thumbnail of an encrypted file, encrypted with the file's key by the uploading client
+  encryptedThumbnail?: { nonce: string; size: number };
+  encryptedThumbnailUrl?: string;
   isShared: boolean;
   sharedWith?: string[];
+  // Access the current user has; set on items listed from the vault
+  accessLevel?: 'owner' | 'read' | 'write';
+  // Set on items other members shared with the current user
+  ownerName?: string;
+  // Set on items in a family tree's shared vault
+  familyTreeId?: string;
   createdAt: Date;
   updatedAt: Date;
   lastAccessedAt?: Date;
@@ -32,6 +41,9 @@ export interface VaultItem {
     pages?: number;
   };
   tags?: string[];
+  // Family members the item shows, and the albums it is in
+  peopleTags?: string[];
+  albumIds?: string[];
   description?: string;
   // Scan status for malware/security scanning
   scanStatus?: "pending" | "scanning" | "clean" | "infected" | "error";
@@ -53,6 +65,10 @@ export interface VaultFolder {
   path: string;
   itemCount: number;
   totalSize: number;
+  isShared?: boolean;
+  accessLevel?: 'owner' | 'read' | 'write';
+  ownerName?: string;
+  familyTreeId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -454,13 +470,17 @@ class VaultService {
         };
       }
 
+      const isEncrypted = encryptionEnabled && encryptionOptions !== undefined;
+
       // Get upload URL from backend
       const { data } = await this.functionsClient.callFunction('getVaultUploadSignedUrl', {
         fileName: file.name,
         mimeType: file.type,
         fileSize: uploadData.size,
         parentId,
-        isEncrypted: encryptionEnabled && encryptionOptions !== undefined,
+        isEncrypted,
+        // Plaintext files with identical contents share storage once the server verifies the hash
+        contentHash: isEncrypted ? undefined : await this.computeContentHash(file),
       });
 
       const { signedUrl, storagePath, itemId, storageProvider } = data as {
@@ -600,6 +620,47 @@ class VaultService {
     }
   }
 
+  // Upload new contents for an existing file. The server keeps the current
+  // contents as a previous version and scans the new upload like any other.
+  async uploadNewVersion(
+    item: VaultItem,
+    file: File,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<VaultItem> {
+    if (file.size > this.maxFileSize) {
+      throw new Error(`File size exceeds maximum limit of ${this.maxFileSize / 1024 / 1024}MB`);
+    }
+
+    try {
+      const { data } = await this.functionsClient.callFunction('updateVaultFile', {
+        itemId: item.id,
+        fileName: file.name,
+        mimeType: file.type,
+        fileSize: file.size,
+        contentHash: await this.computeContentHash(file),
+      });
+
+      const { signedUrl } = data as { signedUrl: string; itemId: string; versionNumber: number };
+
+      return await this.uploadToR2(signedUrl, file, file, item.id, item.parentId, false, null, null, onProgress);
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.HIGH, {
+        action: 'vault-upload-version',
+        fileId: item.id,
+        fileName: file.name,
+      });
+      throw error;
+    }
+  }
+
+  // Hex SHA-256 of the file contents, used by the server to deduplicate storage
+  private async computeContentHash(file: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
   // Upload file to B2 using signed URL
   private async uploadToB2(
     signedUrl: string,
@@ -1371,6 +1432,8 @@ class VaultService {
       expiresAt?: Date;
       allowDownload?: boolean;
       password?: string;
+      maxAccessCount?: number;
+      oneTime?: boolean;
     }
   ): Promise<{ shareLink: string; shareId: string }> {
     try {
@@ -1394,6 +1457,8 @@ class VaultService {
         expiresAt: options.expiresAt?.toISOString(),
         allowDownload: options.allowDownload,
         password: options.password,
+        maxAccessCount: options.maxAccessCount,
+        oneTime: options.oneTime,
       });
 
       const data = result.data as { shareLink: string; shareId: string };
@@ -1413,7 +1478,7 @@ class VaultService {
 
   async revokeShare(shareId: string): Promise<void> {
     try {
-      await this.functionsClient.callFunction('revokeVaultShare', { shareId });
+      await this.functionsClient.callFunction('revokeVaultShareLink', { shareId });
     } catch (error) {
       errorHandler.handleError(error, ErrorSeverity.LOW, {
         action: 'vault-revoke-share',
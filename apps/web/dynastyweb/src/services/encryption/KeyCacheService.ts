@@ -1,6 +1,7 @@
 /**
  * Key Cache Service for Performance Optimization
- * Caches derived PBKDF2 keys to avoid repeated expensive derivations
+ * Caches derived PBKDF2 keys to avoid repeated expensive derivations, and the decrypted
+ * thumbnails of encrypted vault files so list views don't decrypt them on every render
  */
 
 interface CachedKey {
@@ -14,6 +15,10 @@ export class KeyCacheService {
   private cache = new Map<string, CachedKey>();
   private readonly TTL = 30 * 60 * 1000; // 30 minutes
   private readonly MAX_CACHE_SIZE = 10; // Maximum number of cached keys
+  // Decrypted thumbnails as object URLs, kept in least recently used order
+  private thumbnailCache = new Map<string, string>();
+  private pendingThumbnails = new Map<string, Promise<string>>();
+  private readonly MAX_THUMBNAIL_CACHE_SIZE = 200;
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
 
   private constructor() {
@@ -59,6 +64,52 @@ export class KeyCacheService {
     return key;
   }
 
+  /**
+   * Get or decrypt a thumbnail with caching. Concurrent requests for the same thumbnail
+   * share one decryption, and the least recently used thumbnails are released once the
+   * cache is full.
+   */
+  async getOrDecryptThumbnail(
+    cacheKey: string,
+    decryptFunction: () => Promise<Blob>
+  ): Promise<string> {
+    const cached = this.thumbnailCache.get(cacheKey);
+    if (cached) {
+      // Re-insert to mark as most recently used
+      this.thumbnailCache.delete(cacheKey);
+      this.thumbnailCache.set(cacheKey, cached);
+      return cached;
+    }
+
+    const pending = this.pendingThumbnails.get(cacheKey);
+    if (pending) {
+      return pending;
+    }
+
+    const decryption = decryptFunction()
+      .then((blob) => {
+        const url = URL.createObjectURL(blob);
+        this.addThumbnailToCache(cacheKey, url);
+        return url;
+      })
+      .finally(() => {
+        this.pendingThumbnails.delete(cacheKey);
+      });
+
+    this.pendingThumbnails.set(cacheKey, decryption);
+    return decryption;
+  }
+
+  /**
+   * Release all decrypted thumbnails, e.g. when the vault is locked
+   */
+  clearThumbnails(): void {
+    for (const url of this.thumbnailCache.values()) {
+      URL.revokeObjectURL(url);
+    }
+    this.thumbnailCache.clear();
+  }
+
   /**
    * Clear specific key from cache
    */
@@ -72,6 +123,7 @@ export class KeyCacheService {
    */
   clearAll(): void {
     this.cache.clear();
+    this.clearThumbnails();
   }
 
   /**
@@ -93,6 +145,7 @@ export class KeyCacheService {
     size: number;
     hits: number;
     totalAccessCount: number;
+    thumbnails: number;
   } {
     let totalAccessCount = 0;
     for (const cached of this.cache.values()) {
@@ -102,7 +155,8 @@ export class KeyCacheService {
     return {
       size: this.cache.size,
       hits: totalAccessCount,
-      totalAccessCount
+      totalAccessCount,
+      thumbnails: this.thumbnailCache.size
     };
   }
 
@@ -153,6 +207,21 @@ export class KeyCacheService {
     });
   }
 
+  /**
+   * Add a decrypted thumbnail to the cache, releasing the least recently used when full
+   */
+  private addThumbnailToCache(cacheKey: string, url: string): void {
+    if (this.thumbnailCache.size >= this.MAX_THUMBNAIL_CACHE_SIZE) {
+      const oldestKey = this.thumbnailCache.keys().next().value;
+      if (oldestKey !== undefined) {
+        URL.revokeObjectURL(this.thumbnailCache.get(oldestKey)!);
+        this.thumbnailCache.delete(oldestKey);
+      }
+    }
+
+    this.thumbnailCache.set(cacheKey, url);
+  }
+
   /**
    * Start periodic cleanup timer
    */
@@ -177,6 +246,7 @@ export class KeyCacheService {
       this.cleanupTimer = null;
     }
     this.cache.clear();
+    this.clearThumbnails();
     KeyCacheService.instance = null;
   }
 }
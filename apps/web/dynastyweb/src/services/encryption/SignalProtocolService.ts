@@ -0,0 +1,490 @@
+// Signal Protocol Service for Dynasty Web App
+// Registers the browser as a linked Signal device of the user's account and encrypts chat
+// payloads for every device in a conversation, so messages reach phones and other
+// browsers alike
+
+import { functions } from '@/lib/firebase';
+import { FirebaseFunctionsClient, createFirebaseClient } from '@/lib/functions-client';
+import { errorHandler, ErrorSeverity } from '../ErrorHandlingService';
+import {
+  calculateSignature,
+  fromBase64,
+  generateKeyPair,
+  randomId,
+  signalCryptoReady,
+  toBase64,
+} from './signal/SignalCrypto';
+import { SignalMessageType } from './signal/SignalMessages';
+import {
+  SignalProtocolStore,
+  type LocalIdentity,
+  type StoredPreKey,
+  type StoredSignedPreKey,
+} from './signal/SignalProtocolStore';
+import { SessionCipher, UntrustedIdentityError } from './signal/SessionCipher';
+
+const PREKEY_BATCH_SIZE = 100;
+const MIN_PREKEY_COUNT = 20;
+const MAX_PREKEY_ID = 0xffffff;
+const SIGNED_PREKEY_ROTATION_MS = 7 * 24 * 60 * 60 * 1000;
+const SIGNED_PREKEY_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// Registration and device IDs share libsignal's 14 bit range; device 1 is the primary
+const MAX_REGISTRATION_ID = 16380;
+const DEVICE_LIST_TTL_MS = 60 * 1000;
+
+// Plaintext of a chat message, the same JSON the mobile app encrypts
+export interface ChatPayload {
+  text?: string;
+  metadata?: Record<string, unknown>;
+  type?: 'text' | 'media' | 'system' | 'event';
+  media?: {
+    encryptionKey: string;
+  };
+  replyTo?: {
+    messageId: string;
+    senderId: string;
+    preview: string;
+  };
+  // Reactions, edits and deletions of an earlier message
+  event?: {
+    type: 'reaction' | 'edit' | 'delete';
+    targetMessageId: string;
+    emoji?: string;
+    remove?: boolean;
+    text?: string;
+  };
+  // Disappearing message timer in seconds, counted from when the message was sent
+  expiresIn?: number;
+}
+
+export interface SignalDevicePayload {
+  encryptedPayload: string;
+  messageType: number;
+}
+
+export interface SignalMetadata {
+  senderDeviceId: number;
+  recipients: Record<string, Record<string, SignalDevicePayload>>;
+}
+
+interface PublishedSignalDevice {
+  deviceId: number;
+  registrationId: number;
+  identityKey: string;
+  isPrimary: boolean;
+}
+
+interface PublishedSignalBundle {
+  registrationId: number;
+  deviceId: number;
+  identityKey: string;
+  signedPreKey: {
+    keyId: number;
+    publicKey: string;
+    signature: string;
+    timestamp: number;
+  };
+  preKey: { keyId: number; publicKey: string } | null;
+}
+
+class SignalProtocolService {
+  private static instance: SignalProtocolService;
+  private functionsClient: FirebaseFunctionsClient;
+  private store?: SignalProtocolStore;
+  private identity?: LocalIdentity;
+  private initializing?: Promise<void>;
+  private deviceCache = new Map<string, { devices: PublishedSignalDevice[]; fetchedAt: number }>();
+  // Operations on one session must not interleave, or ratchet steps get lost
+  private sessionQueues = new Map<string, Promise<unknown>>();
+  // Changed identity keys by user, then device address. Their devices can't be used
+  // until the user accepts the new safety number.
+  private identityChanges = new Map<string, Map<string, Uint8Array>>();
+
+  private constructor() {
+    if (functions) {
+      this.functionsClient = createFirebaseClient(functions);
+    } else {
+      throw new Error('Firebase Functions not initialized');
+    }
+  }
+
+  static getInstance(): SignalProtocolService {
+    if (!SignalProtocolService.instance) {
+      SignalProtocolService.instance = new SignalProtocolService();
+    }
+    return SignalProtocolService.instance;
+  }
+
+  // MARK: - Device Registration
+
+  /**
+   * Load this browser's Signal identity, registering it as a linked device the first
+   * time the user chats here
+   */
+  async initialize(userId: string): Promise<void> {
+    if (this.identity?.userId === userId) return;
+
+    if (!this.initializing) {
+      this.initializing = this.setup(userId).finally(() => {
+        this.initializing = undefined;
+      });
+    }
+    return this.initializing;
+  }
+
+  isInitialized(): boolean {
+    return !!this.identity;
+  }
+
+  getDeviceId(): number | undefined {
+    return this.identity?.deviceId;
+  }
+
+  private async setup(userId: string): Promise<void> {
+    try {
+      await signalCryptoReady();
+
+      const store = new SignalProtocolStore(userId);
+      await store.initialize();
+
+      let identity = await store.getLocalIdentity();
+      if (identity) {
+        await this.maintainKeys(store, identity);
+      } else {
+        identity = await this.registerDevice(store, userId);
+      }
+
+      this.store = store;
+      this.identity = identity;
+      this.deviceCache.clear();
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.HIGH, {
+        action: 'initialize-signal-protocol',
+        userId,
+      });
+      throw new Error('Failed to set up encrypted chat on this device');
+    }
+  }
+
+  private async registerDevice(store: SignalProtocolStore, userId: string): Promise<LocalIdentity> {
+    const existingDevices = await this.getDevices(userId, true);
+    let deviceId: number;
+    do {
+      deviceId = randomId(MAX_REGISTRATION_ID - 1) + 2;
+    } while (existingDevices.some((device) => device.deviceId === deviceId));
+
+    const identity: LocalIdentity = {
+      userId,
+      deviceId,
+      registrationId: randomId(MAX_REGISTRATION_ID) + 1,
+      identityKeyPair: generateKeyPair(),
+      signedPreKeyId: 0,
+      signedPreKeyCreatedAt: 0,
+      nextPreKeyId: 1,
+    };
+
+    const signedPreKey = await this.createSignedPreKey(store, identity);
+    const preKeys = await this.createPreKeys(store, identity);
+    const identityKey = toBase64(identity.identityKeyPair.publicKey);
+
+    await this.functionsClient.callFunction('registerDevice', {
+      deviceId: String(deviceId),
+      deviceName: getBrowserDeviceName(),
+      devicePublicKey: identityKey,
+      deviceInfo: {
+        platform: 'web',
+        signalDeviceId: deviceId,
+      },
+    });
+
+    await this.functionsClient.callFunction('publishSignalKeys', {
+      identityKey,
+      signedPreKey: toPublishedSignedPreKey(signedPreKey),
+      preKeys: preKeys.map(toPublishedPreKey),
+      registrationId: identity.registrationId,
+      deviceId,
+    });
+
+    // Only remember the identity once the server knows it, so a failed attempt is retried
+    await store.saveLocalIdentity(identity);
+    return identity;
+  }
+
+  /**
+   * Rotate the signed prekey weekly and top up one-time prekeys as others use them
+   */
+  private async maintainKeys(store: SignalProtocolStore, identity: LocalIdentity): Promise<void> {
+    try {
+      if (Date.now() - identity.signedPreKeyCreatedAt > SIGNED_PREKEY_ROTATION_MS) {
+        const signedPreKey = await this.createSignedPreKey(store, identity);
+        await this.functionsClient.callFunction('publishSignedPreKey', {
+          signedPreKey: toPublishedSignedPreKey(signedPreKey),
+          deviceId: identity.deviceId,
+        });
+        await store.pruneSignedPreKeys(identity.signedPreKeyId, SIGNED_PREKEY_MAX_AGE_MS);
+        await store.saveLocalIdentity(identity);
+      }
+
+      const { data } = await this.functionsClient.callFunction<{ deviceId: number }, { count: number }>(
+        'getPreKeyCount',
+        { deviceId: identity.deviceId }
+      );
+      if (data.count < MIN_PREKEY_COUNT) {
+        const preKeys = await this.createPreKeys(store, identity);
+        await this.functionsClient.callFunction('publishPreKeys', {
+          preKeys: preKeys.map(toPublishedPreKey),
+          deviceId: identity.deviceId,
+        });
+        await store.saveLocalIdentity(identity);
+      }
+    } catch (error) {
+      // Existing sessions keep working with the keys already published
+      errorHandler.handleError(error, ErrorSeverity.MEDIUM, {
+        action: 'maintain-signal-keys',
+      });
+    }
+  }
+
+  private async createSignedPreKey(store: SignalProtocolStore, identity: LocalIdentity): Promise<StoredSignedPreKey> {
+    const keyPair = generateKeyPair();
+    const signedPreKey: StoredSignedPreKey = {
+      keyId: randomId(MAX_PREKEY_ID) + 1,
+      keyPair,
+      signature: calculateSignature(identity.identityKeyPair.privateKey, keyPair.publicKey),
+      timestamp: Date.now(),
+    };
+
+    await store.saveSignedPreKey(signedPreKey);
+    identity.signedPreKeyId = signedPreKey.keyId;
+    identity.signedPreKeyCreatedAt = signedPreKey.timestamp;
+    return signedPreKey;
+  }
+
+  private async createPreKeys(store: SignalProtocolStore, identity: LocalIdentity): Promise<StoredPreKey[]> {
+    const preKeys: StoredPreKey[] = [];
+    for (let i = 0; i < PREKEY_BATCH_SIZE; i++) {
+      preKeys.push({
+        keyId: ((identity.nextPreKeyId + i - 1) % MAX_PREKEY_ID) + 1,
+        keyPair: generateKeyPair(),
+      });
+    }
+
+    await store.savePreKeys(preKeys);
+    identity.nextPreKeyId = (identity.nextPreKeyId + PREKEY_BATCH_SIZE - 1) % MAX_PREKEY_ID + 1;
+    return preKeys;
+  }
+
+  // MARK: - Devices
+
+  private async getDevices(userId: string, refresh = false): Promise<PublishedSignalDevice[]> {
+    const cached = this.deviceCache.get(userId);
+    if (!refresh && cached && Date.now() - cached.fetchedAt < DEVICE_LIST_TTL_MS) {
+      return cached.devices;
+    }
+
+    const { data } = await this.functionsClient.callFunction<{ userId: string }, { devices: PublishedSignalDevice[] }>(
+      'getUserSignalDevices',
+      { userId }
+    );
+    this.deviceCache.set(userId, { devices: data.devices, fetchedAt: Date.now() });
+    return data.devices;
+  }
+
+  // MARK: - Encryption
+
+  /**
+   * Encrypt a payload for each device of the recipients and for the user's other devices
+   */
+  async encryptForDevices(recipients: string[], payload: ChatPayload): Promise<SignalMetadata> {
+    const identity = this.requireIdentity();
+    const plaintext = new TextEncoder().encode(JSON.stringify(payload));
+    const metadata: SignalMetadata = {
+      senderDeviceId: identity.deviceId,
+      recipients: {},
+    };
+
+    for (const userId of Array.from(new Set([...recipients, identity.userId]))) {
+      const devices = (await this.getDevices(userId)).filter(
+        (device) => userId !== identity.userId || device.deviceId !== identity.deviceId
+      );
+
+      for (const device of devices) {
+        try {
+          const encrypted = await this.withSession(userId, device.deviceId, async (cipher) => {
+            if (!(await cipher.hasSession())) {
+              await cipher.processPreKeyBundle(await this.fetchPreKeyBundle(userId, device.deviceId));
+            }
+            return cipher.encrypt(plaintext);
+          });
+
+          metadata.recipients[userId] = metadata.recipients[userId] || {};
+          metadata.recipients[userId][String(device.deviceId)] = {
+            encryptedPayload: toBase64(encrypted.body),
+            messageType: encrypted.type,
+          };
+        } catch (error) {
+          // The other devices still get the message
+          errorHandler.handleError(error, ErrorSeverity.MEDIUM, {
+            action: 'encrypt-for-device',
+            userId,
+            deviceId: device.deviceId,
+          });
+        }
+      }
+    }
+
+    if (!recipients.some((userId) => metadata.recipients[userId])) {
+      throw new Error('Failed to encrypt message for any recipient');
+    }
+
+    return metadata;
+  }
+
+  /**
+   * Decrypt the payload a message carries for this device
+   * @returns null when the message wasn't encrypted for this device, e.g. it was sent
+   * before the device was linked
+   */
+  async decryptForDevice(senderId: string, metadata: SignalMetadata): Promise<ChatPayload | null> {
+    const identity = this.requireIdentity();
+    const devicePayload = metadata.recipients[identity.userId]?.[String(identity.deviceId)];
+    if (!devicePayload) return null;
+
+    const body = fromBase64(devicePayload.encryptedPayload);
+    const plaintext = await this.withSession(senderId, metadata.senderDeviceId, (cipher) =>
+      devicePayload.messageType === SignalMessageType.PreKey
+        ? cipher.decryptPreKeySignalMessage(body)
+        : cipher.decryptSignalMessage(body)
+    );
+
+    return JSON.parse(new TextDecoder().decode(plaintext)) as ChatPayload;
+  }
+
+  private async fetchPreKeyBundle(userId: string, deviceId: number) {
+    const { data } = await this.functionsClient.callFunction<
+      { userId: string; deviceId: number },
+      PublishedSignalBundle
+    >('getUserSignalBundle', { userId, deviceId });
+
+    return {
+      registrationId: data.registrationId,
+      deviceId: data.deviceId,
+      identityKey: fromBase64(data.identityKey),
+      signedPreKeyId: data.signedPreKey.keyId,
+      signedPreKey: fromBase64(data.signedPreKey.publicKey),
+      signedPreKeySignature: fromBase64(data.signedPreKey.signature),
+      preKeyId: data.preKey?.keyId,
+      preKey: data.preKey ? fromBase64(data.preKey.publicKey) : undefined,
+    };
+  }
+
+  private withSession<T>(userId: string, deviceId: number, operation: (cipher: SessionCipher) => Promise<T>): Promise<T> {
+    const address = `${userId}.${deviceId}`;
+    const cipher = new SessionCipher(this.store!, this.identity!, address);
+
+    const previous = this.sessionQueues.get(address) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(() => operation(cipher))
+      .catch((error) => {
+        if (error instanceof UntrustedIdentityError) {
+          const changes = this.identityChanges.get(userId) || new Map<string, Uint8Array>();
+          changes.set(error.address, error.identityKey);
+          this.identityChanges.set(userId, changes);
+        }
+        throw error;
+      });
+    this.sessionQueues.set(address, next);
+    return next;
+  }
+
+  // MARK: - Identity Changes
+
+  /**
+   * Users with a device whose identity key changed since it was first seen
+   */
+  getIdentityChanges(): string[] {
+    return Array.from(this.identityChanges.keys());
+  }
+
+  /**
+   * Trust the new identity keys of a user's devices, after the user accepted the new
+   * safety number. Messages they hold back can be decrypted afterwards.
+   */
+  async acceptIdentityChange(userId: string): Promise<void> {
+    const changes = this.identityChanges.get(userId);
+    if (!changes || !this.store) return;
+
+    for (const [address, identityKey] of Array.from(changes.entries())) {
+      await this.store.saveRemoteIdentity(address, identityKey);
+    }
+    this.identityChanges.delete(userId);
+  }
+
+  // MARK: - Decrypted Messages
+
+  async getDecryptedMessage<T>(messageId: string): Promise<T | null> {
+    return this.store ? this.store.getMessage<T>(messageId) : null;
+  }
+
+  async saveDecryptedMessage<T>(messageId: string, message: T): Promise<void> {
+    await this.store?.saveMessage(messageId, message);
+  }
+
+  async deleteDecryptedMessage(messageId: string): Promise<void> {
+    await this.store?.removeMessage(messageId);
+  }
+
+  private requireIdentity(): LocalIdentity {
+    if (!this.identity || !this.store) {
+      throw new Error('Signal Protocol not initialized');
+    }
+    return this.identity;
+  }
+
+  /**
+   * Forget the signed in user's keys in memory, e.g. on sign out. They stay in IndexedDB
+   * so this browser remains a linked device.
+   */
+  reset(): void {
+    this.store = undefined;
+    this.identity = undefined;
+    this.deviceCache.clear();
+    this.sessionQueues.clear();
+    this.identityChanges.clear();
+  }
+}
+
+function toPublishedSignedPreKey(signedPreKey: StoredSignedPreKey) {
+  return {
+    id: signedPreKey.keyId,
+    publicKey: toBase64(signedPreKey.keyPair.publicKey),
+    signature: toBase64(signedPreKey.signature),
+    timestamp: signedPreKey.timestamp,
+  };
+}
+
+function toPublishedPreKey(preKey: StoredPreKey) {
+  return {
+    id: preKey.keyId,
+    publicKey: toBase64(preKey.keyPair.publicKey),
+  };
+}
+
+function getBrowserDeviceName(): string {
+  const userAgent = navigator.userAgent;
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+      : /Chrome\//.test(userAgent) ? 'Chrome'
+        : /Safari\//.test(userAgent) ? 'Safari'
+          : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+      : /Android/.test(userAgent) ? 'Android'
+        : /Linux/.test(userAgent) ? 'Linux'
+          : 'the web';
+  return `${browser} on ${os}`;
+}
+
+// Export singleton instance getter
+export const getSignalProtocolService = () => SignalProtocolService.getInstance();
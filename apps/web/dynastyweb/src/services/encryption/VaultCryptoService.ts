@@ -343,6 +343,52 @@ export class WebVaultCryptoService {
     }
   }
 
+  /**
+   * Encrypt a thumbnail with the key of the file it previews. Nonces are returned in
+   * standard base64, the form the vault stores alongside the thumbnail.
+   */
+  async encryptThumbnail(
+    thumbnail: Uint8Array,
+    fileKey: Uint8Array
+  ): Promise<{
+    encrypted: Uint8Array;
+    nonce: string;
+  }> {
+    await this.ensureSodiumReady();
+
+    try {
+      const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
+      const encrypted = sodium.crypto_secretbox_easy(thumbnail, nonce, fileKey);
+
+      return { encrypted, nonce: sodium.to_base64(nonce, sodium.base64_variants.ORIGINAL) };
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.HIGH, {
+        action: 'encrypt-thumbnail',
+      });
+      throw new Error('Failed to encrypt thumbnail');
+    }
+  }
+
+  /**
+   * Decrypt a thumbnail made by encryptThumbnail
+   */
+  async decryptThumbnail(encrypted: Uint8Array, nonce: string, fileKey: Uint8Array): Promise<Uint8Array> {
+    await this.ensureSodiumReady();
+
+    try {
+      return sodium.crypto_secretbox_open_easy(
+        encrypted,
+        sodium.from_base64(nonce, sodium.base64_variants.ORIGINAL),
+        fileKey
+      );
+    } catch (error) {
+      errorHandler.handleError(error, ErrorSeverity.MEDIUM, {
+        action: 'decrypt-thumbnail',
+      });
+      throw new Error('Failed to decrypt thumbnail');
+    }
+  }
+
   // MARK: - Biometric Authentication
 
   /**
@@ -510,6 +556,35 @@ export class WebVaultCryptoService {
     }
   }
 
+  // MARK: - Share Links
+
+  /**
+   * Add a file key to a public share link. The key goes in the URL fragment, which
+   * browsers never send to the server, so only people holding the link can decrypt.
+   */
+  async addShareKeyToLink(shareLink: string, fileKey: Uint8Array): Promise<string> {
+    await this.ensureSodiumReady();
+    const encodedKey = sodium.to_base64(fileKey, sodium.base64_variants.URLSAFE_NO_PADDING);
+    return `${shareLink.split('#')[0]}#key=${encodedKey}`;
+  }
+
+  /**
+   * Read the file key from a share link's URL fragment
+   * @returns The key, or null when the fragment has no valid key
+   */
+  async getShareKeyFromFragment(fragment: string): Promise<Uint8Array | null> {
+    await this.ensureSodiumReady();
+    const encodedKey = new URLSearchParams(fragment.replace(/^#/, '')).get('key');
+    if (!encodedKey) return null;
+
+    try {
+      const key = sodium.from_base64(encodedKey, sodium.base64_variants.URLSAFE_NO_PADDING);
+      return key.length === sodium.crypto_secretstream_xchacha20poly1305_KEYBYTES ? key : null;
+    } catch {
+      return null;
+    }
+  }
+
   // MARK: - Utility Functions
 
   /**
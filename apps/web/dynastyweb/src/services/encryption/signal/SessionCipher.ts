@@ -0,0 +1,385 @@
+// Signal Session Cipher for Dynasty Web App
+// X3DH session setup and the Double Ratchet, following libsignal's session logic so the
+// browser can hold sessions with the mobile app's devices
+
+import {
+  aesCbcDecrypt,
+  aesCbcEncrypt,
+  bytesEqual,
+  calculateAgreement,
+  concatBytes,
+  createChain,
+  deriveInitialKeys,
+  deriveMessageKeys,
+  generateKeyPair,
+  hmacSha256,
+  nextChainKey,
+  verifySignature,
+  type MessageKeys,
+  type SignalKeyPair,
+} from './SignalCrypto';
+import {
+  MAC_LENGTH,
+  SignalMessageType,
+  parsePreKeySignalMessage,
+  parseSignalMessage,
+  serializePreKeySignalMessage,
+  serializeSignalMessageBody,
+} from './SignalMessages';
+import type { LocalIdentity, SignalProtocolStore } from './SignalProtocolStore';
+
+// Same limits libsignal applies
+const MAX_RECEIVER_CHAINS = 5;
+const MAX_SKIPPED_MESSAGE_KEYS = 2000;
+const MAX_FORWARD_JUMPS = 25000;
+const MAX_ARCHIVED_SESSIONS = 40;
+
+// X3DH secrets start with 32 0xFF bytes to separate them from XEdDSA inputs
+const DISCONTINUITY_BYTES = new Uint8Array(32).fill(0xff);
+
+export interface PreKeyBundle {
+  registrationId: number;
+  deviceId: number;
+  identityKey: Uint8Array;
+  signedPreKeyId: number;
+  signedPreKey: Uint8Array;
+  signedPreKeySignature: Uint8Array;
+  preKeyId?: number;
+  preKey?: Uint8Array;
+}
+
+export interface CiphertextMessage {
+  type: SignalMessageType;
+  body: Uint8Array;
+}
+
+interface ChainState {
+  key: Uint8Array;
+  index: number;
+}
+
+interface ReceiverChain {
+  ratchetKey: Uint8Array;
+  chain: ChainState;
+  // Keys of messages that were skipped over and may still arrive
+  skippedKeys: MessageKeys[];
+}
+
+export interface SessionState {
+  localIdentityKey: Uint8Array;
+  remoteIdentityKey: Uint8Array;
+  remoteRegistrationId: number;
+  rootKey: Uint8Array;
+  sendingRatchetKey: SignalKeyPair;
+  sendingChain: ChainState;
+  receiverChains: ReceiverChain[];
+  previousCounter: number;
+  // Until the other side replies, messages repeat the prekey exchange
+  pendingPreKey?: {
+    preKeyId?: number;
+    signedPreKeyId: number;
+    baseKey: Uint8Array;
+  };
+  // Base key of the exchange that started the session
+  baseKey: Uint8Array;
+}
+
+// Current session first, then older ones that late messages may still use
+export interface SessionRecord {
+  sessions: SessionState[];
+}
+
+/**
+ * The remote device's identity key isn't the one seen before, e.g. the contact
+ * reinstalled the app or someone is impersonating them
+ */
+export class UntrustedIdentityError extends Error {
+  constructor(readonly address: string, readonly identityKey: Uint8Array) {
+    super(`Identity key of ${address} changed`);
+    this.name = 'UntrustedIdentityError';
+  }
+}
+
+/**
+ * Encrypts and decrypts messages for one remote device, addressed `userId.deviceId`
+ */
+export class SessionCipher {
+  constructor(
+    private store: SignalProtocolStore,
+    private identity: LocalIdentity,
+    private address: string
+  ) {}
+
+  async hasSession(): Promise<boolean> {
+    const record = await this.store.getSession(this.address);
+    return !!record && record.sessions.length > 0;
+  }
+
+  /**
+   * Start a session from the remote device's published prekey bundle
+   */
+  async processPreKeyBundle(bundle: PreKeyBundle): Promise<void> {
+    if (!verifySignature(bundle.identityKey, bundle.signedPreKey, bundle.signedPreKeySignature)) {
+      throw new Error('Invalid signed prekey signature');
+    }
+    await this.checkTrustedIdentity(bundle.identityKey);
+
+    const ourIdentity = this.identity.identityKeyPair;
+    const baseKey = generateKeyPair();
+
+    const secrets = [
+      DISCONTINUITY_BYTES,
+      calculateAgreement(bundle.signedPreKey, ourIdentity.privateKey),
+      calculateAgreement(bundle.identityKey, baseKey.privateKey),
+      calculateAgreement(bundle.signedPreKey, baseKey.privateKey),
+    ];
+    if (bundle.preKey) {
+      secrets.push(calculateAgreement(bundle.preKey, baseKey.privateKey));
+    }
+
+    const { rootKey, chainKey } = await deriveInitialKeys(concatBytes(...secrets));
+    const sendingRatchetKey = generateKeyPair();
+    const sending = await createChain(rootKey, bundle.signedPreKey, sendingRatchetKey);
+
+    await this.store.saveRemoteIdentity(this.address, bundle.identityKey);
+    await this.saveState({
+      localIdentityKey: ourIdentity.publicKey,
+      remoteIdentityKey: bundle.identityKey,
+      remoteRegistrationId: bundle.registrationId,
+      rootKey: sending.rootKey,
+      sendingRatchetKey,
+      sendingChain: { key: sending.chainKey, index: 0 },
+      receiverChains: [{
+        ratchetKey: bundle.signedPreKey,
+        chain: { key: chainKey, index: 0 },
+        skippedKeys: [],
+      }],
+      previousCounter: 0,
+      pendingPreKey: {
+        preKeyId: bundle.preKeyId,
+        signedPreKeyId: bundle.signedPreKeyId,
+        baseKey: baseKey.publicKey,
+      },
+      baseKey: baseKey.publicKey,
+    });
+  }
+
+  async encrypt(plaintext: Uint8Array): Promise<CiphertextMessage> {
+    const record = await this.store.getSession(this.address);
+    const state = record?.sessions[0];
+    if (!record || !state) {
+      throw new Error(`No session for ${this.address}`);
+    }
+
+    const keys = await deriveMessageKeys(state.sendingChain.key, state.sendingChain.index);
+    const body = serializeSignalMessageBody({
+      ratchetKey: state.sendingRatchetKey.publicKey,
+      counter: keys.counter,
+      previousCounter: state.previousCounter,
+      ciphertext: await aesCbcEncrypt(keys.cipherKey, keys.iv, plaintext),
+    });
+    const mac = await hmacSha256(keys.macKey, concatBytes(state.localIdentityKey, state.remoteIdentityKey, body));
+    const message = concatBytes(body, mac.slice(0, MAC_LENGTH));
+
+    state.sendingChain = {
+      key: await nextChainKey(state.sendingChain.key),
+      index: state.sendingChain.index + 1,
+    };
+    await this.store.saveSession(this.address, record);
+
+    if (state.pendingPreKey) {
+      return {
+        type: SignalMessageType.PreKey,
+        body: serializePreKeySignalMessage({
+          registrationId: this.identity.registrationId,
+          preKeyId: state.pendingPreKey.preKeyId,
+          signedPreKeyId: state.pendingPreKey.signedPreKeyId,
+          baseKey: state.pendingPreKey.baseKey,
+          identityKey: state.localIdentityKey,
+          message,
+        }),
+      };
+    }
+
+    return { type: SignalMessageType.Whisper, body: message };
+  }
+
+  /**
+   * Decrypt the first messages of a session the other side started
+   */
+  async decryptPreKeySignalMessage(data: Uint8Array): Promise<Uint8Array> {
+    const message = parsePreKeySignalMessage(data);
+    await this.checkTrustedIdentity(message.identityKey);
+    const record = await this.store.getSession(this.address);
+
+    // Every message before our first reply repeats the exchange
+    let state = record?.sessions.find((session) => bytesEqual(session.baseKey, message.baseKey));
+    let consumedPreKeyId: number | undefined;
+
+    if (state) {
+      state = structuredClone(state);
+    } else {
+      const signedPreKey = await this.store.getSignedPreKey(message.signedPreKeyId);
+      if (!signedPreKey) {
+        throw new Error('Message uses an unknown signed prekey');
+      }
+
+      const preKey = message.preKeyId !== undefined ? await this.store.getPreKey(message.preKeyId) : null;
+      if (message.preKeyId !== undefined && !preKey) {
+        throw new Error('Message uses an unknown prekey');
+      }
+
+      const ourIdentity = this.identity.identityKeyPair;
+      const secrets = [
+        DISCONTINUITY_BYTES,
+        calculateAgreement(message.identityKey, signedPreKey.keyPair.privateKey),
+        calculateAgreement(message.baseKey, ourIdentity.privateKey),
+        calculateAgreement(message.baseKey, signedPreKey.keyPair.privateKey),
+      ];
+      if (preKey) {
+        secrets.push(calculateAgreement(message.baseKey, preKey.keyPair.privateKey));
+      }
+
+      const { rootKey, chainKey } = await deriveInitialKeys(concatBytes(...secrets));
+      state = {
+        localIdentityKey: ourIdentity.publicKey,
+        remoteIdentityKey: message.identityKey,
+        remoteRegistrationId: message.registrationId,
+        rootKey,
+        sendingRatchetKey: signedPreKey.keyPair,
+        sendingChain: { key: chainKey, index: 0 },
+        receiverChains: [],
+        previousCounter: 0,
+        baseKey: message.baseKey,
+      };
+      consumedPreKeyId = message.preKeyId;
+    }
+
+    const plaintext = await this.decryptWithState(state, message.message);
+
+    await this.store.saveRemoteIdentity(this.address, message.identityKey);
+    await this.saveState(state);
+    if (consumedPreKeyId !== undefined) {
+      await this.store.removePreKey(consumedPreKeyId);
+    }
+
+    return plaintext;
+  }
+
+  async decryptSignalMessage(data: Uint8Array): Promise<Uint8Array> {
+    const record = await this.store.getSession(this.address);
+    if (!record || record.sessions.length === 0) {
+      throw new Error(`No session for ${this.address}`);
+    }
+
+    // Work on copies so a message that fails to decrypt leaves the sessions untouched
+    let lastError: unknown;
+    for (const session of record.sessions) {
+      const state = structuredClone(session);
+      try {
+        const plaintext = await this.decryptWithState(state, data);
+        await this.saveState(state);
+        return plaintext;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('Failed to decrypt Signal message');
+  }
+
+  private async checkTrustedIdentity(identityKey: Uint8Array): Promise<void> {
+    if (!(await this.store.isTrustedIdentity(this.address, identityKey))) {
+      throw new UntrustedIdentityError(this.address, identityKey);
+    }
+  }
+
+  // MARK: - Ratchet
+
+  private async decryptWithState(state: SessionState, data: Uint8Array): Promise<Uint8Array> {
+    const message = parseSignalMessage(data);
+    const receiverChain = await this.getOrCreateReceiverChain(state, message.ratchetKey);
+    const keys = await this.getOrCreateMessageKeys(receiverChain, message.counter);
+
+    const mac = await hmacSha256(
+      keys.macKey,
+      concatBytes(state.remoteIdentityKey, state.localIdentityKey, message.body)
+    );
+    if (!bytesEqual(mac.slice(0, MAC_LENGTH), message.mac)) {
+      throw new Error('Bad MAC');
+    }
+
+    const plaintext = await aesCbcDecrypt(keys.cipherKey, keys.iv, message.ciphertext);
+
+    // The other side has the session now, so the prekey exchange needn't be repeated
+    state.pendingPreKey = undefined;
+    return plaintext;
+  }
+
+  private async getOrCreateReceiverChain(state: SessionState, theirRatchetKey: Uint8Array): Promise<ReceiverChain> {
+    const existing = state.receiverChains.find((chain) => bytesEqual(chain.ratchetKey, theirRatchetKey));
+    if (existing) return existing;
+
+    // A new ratchet key from the other side: step the root chain twice, once for their
+    // sending chain and once for a new sending chain of ours
+    const receiving = await createChain(state.rootKey, theirRatchetKey, state.sendingRatchetKey);
+    const ourRatchetKey = generateKeyPair();
+    const sending = await createChain(receiving.rootKey, theirRatchetKey, ourRatchetKey);
+
+    const receiverChain: ReceiverChain = {
+      ratchetKey: theirRatchetKey,
+      chain: { key: receiving.chainKey, index: 0 },
+      skippedKeys: [],
+    };
+
+    state.receiverChains = [...state.receiverChains, receiverChain].slice(-MAX_RECEIVER_CHAINS);
+    state.rootKey = sending.rootKey;
+    state.previousCounter = Math.max(state.sendingChain.index, 1) - 1;
+    state.sendingRatchetKey = ourRatchetKey;
+    state.sendingChain = { key: sending.chainKey, index: 0 };
+
+    return receiverChain;
+  }
+
+  private async getOrCreateMessageKeys(receiverChain: ReceiverChain, counter: number): Promise<MessageKeys> {
+    const { chain, skippedKeys } = receiverChain;
+
+    if (chain.index > counter) {
+      const skipped = skippedKeys.findIndex((keys) => keys.counter === counter);
+      if (skipped === -1) {
+        throw new Error('Duplicate message');
+      }
+      return skippedKeys.splice(skipped, 1)[0];
+    }
+
+    if (counter - chain.index > MAX_FORWARD_JUMPS) {
+      throw new Error('Message is too far in the future');
+    }
+
+    while (chain.index < counter) {
+      skippedKeys.push(await deriveMessageKeys(chain.key, chain.index));
+      if (skippedKeys.length > MAX_SKIPPED_MESSAGE_KEYS) {
+        skippedKeys.shift();
+      }
+      chain.key = await nextChainKey(chain.key);
+      chain.index++;
+    }
+
+    const keys = await deriveMessageKeys(chain.key, chain.index);
+    chain.key = await nextChainKey(chain.key);
+    chain.index++;
+    return keys;
+  }
+
+  /**
+   * Make a session the current one, keeping the others for late messages
+   */
+  private async saveState(state: SessionState): Promise<void> {
+    const record = (await this.store.getSession(this.address)) || { sessions: [] };
+    record.sessions = [
+      state,
+      ...record.sessions.filter((session) => !bytesEqual(session.baseKey, state.baseKey)),
+    ].slice(0, MAX_ARCHIVED_SESSIONS);
+    await this.store.saveSession(this.address, record);
+  }
+}
@@ -0,0 +1,265 @@
+// Signal Protocol primitives for Dynasty Web App
+// Curve25519 keys, XEdDSA signatures and the key derivations libsignal uses, so sessions
+// made in the browser interoperate with the mobile app's libsignal sessions
+
+import sodium from 'libsodium-wrappers-sumo';
+
+// Serialized Curve25519 public keys carry a one byte type prefix
+const DJB_TYPE = 0x05;
+const PUBLIC_KEY_LENGTH = 32;
+
+// XEdDSA nonce derivation is domain separated from Ed25519 by this prefix
+const SIGNATURE_HASH_PREFIX = new Uint8Array(32).fill(0xff);
+SIGNATURE_HASH_PREFIX[0] = 0xfe;
+
+const FIELD_PRIME = (BigInt(1) << BigInt(255)) - BigInt(19);
+
+export interface SignalKeyPair {
+  // 33 byte serialized public key
+  publicKey: Uint8Array;
+  // 32 byte clamped private scalar
+  privateKey: Uint8Array;
+}
+
+export interface MessageKeys {
+  cipherKey: Uint8Array;
+  macKey: Uint8Array;
+  iv: Uint8Array;
+  counter: number;
+}
+
+export async function signalCryptoReady(): Promise<void> {
+  await sodium.ready;
+}
+
+// MARK: - Bytes
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && sodium.memcmp(a, b);
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  return sodium.to_base64(bytes, sodium.base64_variants.ORIGINAL);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return sodium.from_base64(value, sodium.base64_variants.ORIGINAL);
+}
+
+// WebCrypto only takes buffers it owns
+function buffer(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(bytes);
+}
+
+// MARK: - Curve25519
+
+export function generateKeyPair(): SignalKeyPair {
+  const privateKey = sodium.randombytes_buf(32);
+  privateKey[0] &= 248;
+  privateKey[31] &= 127;
+  privateKey[31] |= 64;
+
+  return {
+    privateKey,
+    publicKey: serializePublicKey(sodium.crypto_scalarmult_base(privateKey)),
+  };
+}
+
+export function serializePublicKey(key: Uint8Array): Uint8Array {
+  return concatBytes(new Uint8Array([DJB_TYPE]), key);
+}
+
+function unwrapPublicKey(key: Uint8Array): Uint8Array {
+  if (key.length === PUBLIC_KEY_LENGTH + 1 && key[0] === DJB_TYPE) {
+    return key.subarray(1);
+  }
+  throw new Error('Invalid Curve25519 public key');
+}
+
+export function calculateAgreement(theirPublicKey: Uint8Array, ourPrivateKey: Uint8Array): Uint8Array {
+  return sodium.crypto_scalarmult(ourPrivateKey, unwrapPublicKey(theirPublicKey));
+}
+
+// MARK: - XEdDSA
+
+/**
+ * Signs with a Curve25519 private key the way libsignal does. The Edwards public key's
+ * sign bit travels in the top bit of the signature, since the Montgomery form drops it.
+ */
+export function calculateSignature(privateKey: Uint8Array, message: Uint8Array): Uint8Array {
+  const scalar = sodium.crypto_core_ed25519_scalar_reduce(concatBytes(privateKey, new Uint8Array(32)));
+  const edPublicKey = sodium.crypto_scalarmult_ed25519_base_noclamp(scalar);
+  const signBit = edPublicKey[31] & 0x80;
+
+  const nonce = sodium.crypto_core_ed25519_scalar_reduce(
+    sodium.crypto_hash_sha512(
+      concatBytes(SIGNATURE_HASH_PREFIX, privateKey, message, sodium.randombytes_buf(64))
+    )
+  );
+  const commitment = sodium.crypto_scalarmult_ed25519_base_noclamp(nonce);
+  const challenge = sodium.crypto_core_ed25519_scalar_reduce(
+    sodium.crypto_hash_sha512(concatBytes(commitment, edPublicKey, message))
+  );
+  const response = sodium.crypto_core_ed25519_scalar_add(
+    sodium.crypto_core_ed25519_scalar_mul(challenge, scalar),
+    nonce
+  );
+
+  const signature = concatBytes(commitment, response);
+  signature[63] = (signature[63] & 0x7f) | signBit;
+  return signature;
+}
+
+export function verifySignature(publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+  if (signature.length !== 64) return false;
+
+  // Birational map from the Montgomery u-coordinate to the Edwards y-coordinate
+  const u = bytesToInteger(unwrapPublicKey(publicKey)) & ((BigInt(1) << BigInt(255)) - BigInt(1));
+  const y = (mod(u - BigInt(1)) * modInverse(mod(u + BigInt(1)))) % FIELD_PRIME;
+
+  const edPublicKey = integerToBytes(y);
+  edPublicKey[31] |= signature[63] & 0x80;
+
+  const edSignature = new Uint8Array(signature);
+  edSignature[63] &= 0x7f;
+
+  try {
+    return sodium.crypto_sign_verify_detached(edSignature, message, edPublicKey);
+  } catch {
+    return false;
+  }
+}
+
+function mod(value: bigint): bigint {
+  const result = value % FIELD_PRIME;
+  return result < BigInt(0) ? result + FIELD_PRIME : result;
+}
+
+function modInverse(value: bigint): bigint {
+  // Fermat: value^(p-2) mod p
+  let result = BigInt(1);
+  let base = value;
+  let exponent = FIELD_PRIME - BigInt(2);
+  while (exponent > BigInt(0)) {
+    if (exponent & BigInt(1)) result = (result * base) % FIELD_PRIME;
+    base = (base * base) % FIELD_PRIME;
+    exponent >>= BigInt(1);
+  }
+  return result;
+}
+
+function bytesToInteger(bytes: Uint8Array): bigint {
+  let result = BigInt(0);
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    result = (result << BigInt(8)) | BigInt(bytes[i]);
+  }
+  return result;
+}
+
+function integerToBytes(value: bigint): Uint8Array {
+  const bytes = new Uint8Array(32);
+  let remaining = value;
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = Number(remaining & BigInt(0xff));
+    remaining >>= BigInt(8);
+  }
+  return bytes;
+}
+
+// MARK: - Key Derivation
+
+export async function hmacSha256(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const hmacKey = await crypto.subtle.importKey(
+    'raw',
+    buffer(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, buffer(data)));
+}
+
+/**
+ * HKDF-SHA256; a missing salt is the RFC 5869 default of zero bytes
+ */
+export async function hkdf(
+  input: Uint8Array,
+  salt: Uint8Array | null,
+  info: string,
+  length: number
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', buffer(input), 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: buffer(salt || new Uint8Array(32)),
+      info: new TextEncoder().encode(info),
+    },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Root and first chain key of a new session, from the X3DH shared secrets
+ */
+export async function deriveInitialKeys(secrets: Uint8Array): Promise<{ rootKey: Uint8Array; chainKey: Uint8Array }> {
+  const derived = await hkdf(secrets, null, 'WhisperText', 64);
+  return { rootKey: derived.slice(0, 32), chainKey: derived.slice(32) };
+}
+
+/**
+ * One step of the Diffie-Hellman ratchet
+ */
+export async function createChain(
+  rootKey: Uint8Array,
+  theirRatchetKey: Uint8Array,
+  ourRatchetKey: SignalKeyPair
+): Promise<{ rootKey: Uint8Array; chainKey: Uint8Array }> {
+  const sharedSecret = calculateAgreement(theirRatchetKey, ourRatchetKey.privateKey);
+  const derived = await hkdf(sharedSecret, rootKey, 'WhisperRatchet', 64);
+  return { rootKey: derived.slice(0, 32), chainKey: derived.slice(32) };
+}
+
+export async function nextChainKey(chainKey: Uint8Array): Promise<Uint8Array> {
+  return hmacSha256(chainKey, new Uint8Array([0x02]));
+}
+
+export async function deriveMessageKeys(chainKey: Uint8Array, counter: number): Promise<MessageKeys> {
+  const seed = await hmacSha256(chainKey, new Uint8Array([0x01]));
+  const derived = await hkdf(seed, null, 'WhisperMessageKeys', 80);
+  return {
+    cipherKey: derived.slice(0, 32),
+    macKey: derived.slice(32, 64),
+    iv: derived.slice(64, 80),
+    counter,
+  };
+}
+
+// MARK: - Message Encryption
+
+export async function aesCbcEncrypt(key: Uint8Array, iv: Uint8Array, plaintext: Uint8Array): Promise<Uint8Array> {
+  const aesKey = await crypto.subtle.importKey('raw', buffer(key), 'AES-CBC', false, ['encrypt']);
+  return new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-CBC', iv: buffer(iv) }, aesKey, buffer(plaintext)));
+}
+
+export async function aesCbcDecrypt(key: Uint8Array, iv: Uint8Array, ciphertext: Uint8Array): Promise<Uint8Array> {
+  const aesKey = await crypto.subtle.importKey('raw', buffer(key), 'AES-CBC', false, ['decrypt']);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-CBC', iv: buffer(iv) }, aesKey, buffer(ciphertext)));
+}
+
+export function randomId(max: number): number {
+  return sodium.randombytes_uniform(max);
+}
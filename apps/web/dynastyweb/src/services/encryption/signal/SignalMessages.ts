@@ -0,0 +1,206 @@
+// Signal Protocol wire format for Dynasty Web App
+// Serializes SignalMessage and PreKeySignalMessage exactly as libsignal does: a version
+// byte followed by a protobuf body, with a truncated MAC after SignalMessages
+
+import { concatBytes } from './SignalCrypto';
+
+// Message version 3 in both nibbles: sessions without post-quantum prekeys
+export const SIGNAL_MESSAGE_VERSION = 3;
+const VERSION_BYTE = (SIGNAL_MESSAGE_VERSION << 4) | SIGNAL_MESSAGE_VERSION;
+
+export const MAC_LENGTH = 8;
+
+// Ciphertext message types, matching libsignal's CiphertextMessageType
+export enum SignalMessageType {
+  Whisper = 2,
+  PreKey = 3,
+}
+
+export interface SignalMessage {
+  ratchetKey: Uint8Array;
+  counter: number;
+  previousCounter: number;
+  ciphertext: Uint8Array;
+}
+
+export interface ParsedSignalMessage extends SignalMessage {
+  // Version byte and protobuf body the MAC covers
+  body: Uint8Array;
+  mac: Uint8Array;
+}
+
+export interface PreKeySignalMessage {
+  registrationId: number;
+  preKeyId?: number;
+  signedPreKeyId: number;
+  baseKey: Uint8Array;
+  identityKey: Uint8Array;
+  // Serialized SignalMessage carried inside
+  message: Uint8Array;
+}
+
+// MARK: - Protobuf
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_BYTES = 2;
+const WIRE_FIXED32 = 5;
+
+class ProtobufWriter {
+  private bytes: number[] = [];
+
+  private varint(value: number): void {
+    let remaining = value >>> 0;
+    while (remaining > 0x7f) {
+      this.bytes.push((remaining & 0x7f) | 0x80);
+      remaining >>>= 7;
+    }
+    this.bytes.push(remaining);
+  }
+
+  uint32(field: number, value: number): this {
+    this.varint((field << 3) | WIRE_VARINT);
+    this.varint(value);
+    return this;
+  }
+
+  bytesField(field: number, value: Uint8Array): this {
+    this.varint((field << 3) | WIRE_BYTES);
+    this.varint(value.length);
+    value.forEach((byte) => this.bytes.push(byte));
+    return this;
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+type ProtobufFields = Map<number, number | Uint8Array>;
+
+function readProtobuf(data: Uint8Array): ProtobufFields {
+  const fields: ProtobufFields = new Map();
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let shift = 0;
+    while (offset < data.length) {
+      const byte = data[offset++];
+      if (shift < 32) {
+        result |= (byte & 0x7f) << shift;
+      }
+      if ((byte & 0x80) === 0) return result >>> 0;
+      shift += 7;
+    }
+    throw new Error('Truncated protobuf varint');
+  };
+
+  while (offset < data.length) {
+    const tag = readVarint();
+    const field = tag >>> 3;
+    switch (tag & 0x07) {
+    case WIRE_VARINT:
+      fields.set(field, readVarint());
+      break;
+    case WIRE_BYTES: {
+      const length = readVarint();
+      if (offset + length > data.length) throw new Error('Truncated protobuf field');
+      fields.set(field, data.slice(offset, offset + length));
+      offset += length;
+      break;
+    }
+    case WIRE_FIXED64:
+      offset += 8;
+      break;
+    case WIRE_FIXED32:
+      offset += 4;
+      break;
+    default:
+      throw new Error('Unsupported protobuf wire type');
+    }
+  }
+
+  return fields;
+}
+
+function requireBytes(fields: ProtobufFields, field: number): Uint8Array {
+  const value = fields.get(field);
+  if (!(value instanceof Uint8Array)) throw new Error('Missing field in Signal message');
+  return value;
+}
+
+function requireNumber(fields: ProtobufFields, field: number): number {
+  const value = fields.get(field);
+  if (typeof value !== 'number') throw new Error('Missing field in Signal message');
+  return value;
+}
+
+function checkVersion(data: Uint8Array): void {
+  if (data.length === 0 || data[0] >> 4 !== SIGNAL_MESSAGE_VERSION) {
+    throw new Error('Unsupported Signal message version');
+  }
+}
+
+// MARK: - SignalMessage
+
+/**
+ * Version byte and protobuf body of a SignalMessage; the MAC is appended by the caller
+ */
+export function serializeSignalMessageBody(message: SignalMessage): Uint8Array {
+  const protobuf = new ProtobufWriter()
+    .bytesField(1, message.ratchetKey)
+    .uint32(2, message.counter)
+    .uint32(3, message.previousCounter)
+    .bytesField(4, message.ciphertext)
+    .finish();
+  return concatBytes(new Uint8Array([VERSION_BYTE]), protobuf);
+}
+
+export function parseSignalMessage(data: Uint8Array): ParsedSignalMessage {
+  checkVersion(data);
+  if (data.length <= MAC_LENGTH + 1) throw new Error('Signal message is too short');
+
+  const body = data.slice(0, data.length - MAC_LENGTH);
+  const fields = readProtobuf(body.subarray(1));
+
+  return {
+    ratchetKey: requireBytes(fields, 1),
+    counter: requireNumber(fields, 2),
+    previousCounter: (fields.get(3) as number | undefined) ?? 0,
+    ciphertext: requireBytes(fields, 4),
+    body,
+    mac: data.slice(data.length - MAC_LENGTH),
+  };
+}
+
+// MARK: - PreKeySignalMessage
+
+export function serializePreKeySignalMessage(message: PreKeySignalMessage): Uint8Array {
+  const writer = new ProtobufWriter();
+  if (message.preKeyId !== undefined) {
+    writer.uint32(1, message.preKeyId);
+  }
+  const protobuf = writer
+    .bytesField(2, message.baseKey)
+    .bytesField(3, message.identityKey)
+    .bytesField(4, message.message)
+    .uint32(5, message.registrationId)
+    .uint32(6, message.signedPreKeyId)
+    .finish();
+  return concatBytes(new Uint8Array([VERSION_BYTE]), protobuf);
+}
+
+export function parsePreKeySignalMessage(data: Uint8Array): PreKeySignalMessage {
+  checkVersion(data);
+  const fields = readProtobuf(data.subarray(1));
+
+  return {
+    registrationId: (fields.get(5) as number | undefined) ?? 0,
+    preKeyId: fields.get(1) as number | undefined,
+    signedPreKeyId: requireNumber(fields, 6),
+    baseKey: requireBytes(fields, 2),
+    identityKey: requireBytes(fields, 3),
+    message: requireBytes(fields, 4),
+  };
+}
@@ -0,0 +1,248 @@
+// Signal Protocol Store for Dynasty Web App
+// Keeps this browser's Signal identity, prekeys and sessions in IndexedDB, scoped to the
+// signed in user. Decrypted messages are kept too: a Signal message can only be
+// decrypted once, so reloading a conversation reads them from here.
+
+import { errorHandler, ErrorSeverity } from '../../ErrorHandlingService';
+import { bytesEqual, type SignalKeyPair } from './SignalCrypto';
+import type { SessionRecord } from './SessionCipher';
+
+const DB_NAME = 'DynastySignal';
+const DB_VERSION = 1;
+
+const IDENTITY_STORE = 'identity';
+const PREKEYS_STORE = 'preKeys';
+const SIGNED_PREKEYS_STORE = 'signedPreKeys';
+const SESSIONS_STORE = 'sessions';
+const REMOTE_IDENTITIES_STORE = 'remoteIdentities';
+const MESSAGES_STORE = 'messages';
+
+const ALL_STORES = [
+  IDENTITY_STORE,
+  PREKEYS_STORE,
+  SIGNED_PREKEYS_STORE,
+  SESSIONS_STORE,
+  REMOTE_IDENTITIES_STORE,
+  MESSAGES_STORE,
+];
+
+export interface LocalIdentity {
+  userId: string;
+  // Signal device ID this browser is registered under
+  deviceId: number;
+  registrationId: number;
+  identityKeyPair: SignalKeyPair;
+  signedPreKeyId: number;
+  signedPreKeyCreatedAt: number;
+  nextPreKeyId: number;
+}
+
+export interface StoredPreKey {
+  keyId: number;
+  keyPair: SignalKeyPair;
+}
+
+export interface StoredSignedPreKey {
+  keyId: number;
+  keyPair: SignalKeyPair;
+  signature: Uint8Array;
+  timestamp: number;
+}
+
+interface StoredRecord<T> {
+  id: string;
+  value: T;
+}
+
+export class SignalProtocolStore {
+  private db: IDBDatabase | null = null;
+
+  constructor(private userId: string) {}
+
+  /**
+   * Open the IndexedDB database
+   */
+  async initialize(): Promise<void> {
+    if (this.db) return;
+
+    this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => {
+        errorHandler.handleError(request.error, ErrorSeverity.CRITICAL, {
+          action: 'initialize-signal-store'
+        });
+        reject(new Error('Failed to open Signal database'));
+      };
+
+      request.onsuccess = () => resolve(request.result);
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        for (const storeName of ALL_STORES) {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: 'id' });
+          }
+        }
+      };
+    });
+  }
+
+  // MARK: - Local Identity
+
+  async getLocalIdentity(): Promise<LocalIdentity | null> {
+    return this.get<LocalIdentity>(IDENTITY_STORE, 'identity');
+  }
+
+  async saveLocalIdentity(identity: LocalIdentity): Promise<void> {
+    await this.put(IDENTITY_STORE, 'identity', identity);
+  }
+
+  // MARK: - PreKeys
+
+  async getPreKey(keyId: number): Promise<StoredPreKey | null> {
+    return this.get<StoredPreKey>(PREKEYS_STORE, String(keyId));
+  }
+
+  async savePreKeys(preKeys: StoredPreKey[]): Promise<void> {
+    await Promise.all(preKeys.map((preKey) => this.put(PREKEYS_STORE, String(preKey.keyId), preKey)));
+  }
+
+  async removePreKey(keyId: number): Promise<void> {
+    await this.remove(PREKEYS_STORE, String(keyId));
+  }
+
+  async getSignedPreKey(keyId: number): Promise<StoredSignedPreKey | null> {
+    return this.get<StoredSignedPreKey>(SIGNED_PREKEYS_STORE, String(keyId));
+  }
+
+  async saveSignedPreKey(signedPreKey: StoredSignedPreKey): Promise<void> {
+    await this.put(SIGNED_PREKEYS_STORE, String(signedPreKey.keyId), signedPreKey);
+  }
+
+  /**
+   * Drop signed prekeys older than `maxAge`, except the current one. Messages that
+   * started a session against an older key can't arrive after this long.
+   */
+  async pruneSignedPreKeys(currentKeyId: number, maxAge: number): Promise<void> {
+    const records = await this.getAll<StoredSignedPreKey>(SIGNED_PREKEYS_STORE);
+    const cutoff = Date.now() - maxAge;
+    await Promise.all(
+      records
+        .filter(({ value }) => value.keyId !== currentKeyId && value.timestamp < cutoff)
+        .map(({ value }) => this.remove(SIGNED_PREKEYS_STORE, String(value.keyId)))
+    );
+  }
+
+  // MARK: - Sessions
+
+  async getSession(address: string): Promise<SessionRecord | null> {
+    return this.get<SessionRecord>(SESSIONS_STORE, address);
+  }
+
+  async saveSession(address: string, record: SessionRecord): Promise<void> {
+    await this.put(SESSIONS_STORE, address, record);
+  }
+
+  /**
+   * Whether a remote device's identity key can be used without asking the user. The
+   * first key seen for a device is trusted; a different one later is not, as with
+   * libsignal, until the user accepts the new safety number.
+   */
+  async isTrustedIdentity(address: string, identityKey: Uint8Array): Promise<boolean> {
+    const existing = await this.get<Uint8Array>(REMOTE_IDENTITIES_STORE, address);
+    return !existing || bytesEqual(existing, identityKey);
+  }
+
+  /**
+   * Remember the identity key of a remote device, replacing any earlier one. Only for
+   * trusted keys, or keys the user has accepted.
+   */
+  async saveRemoteIdentity(address: string, identityKey: Uint8Array): Promise<void> {
+    await this.put(REMOTE_IDENTITIES_STORE, address, identityKey);
+  }
+
+  // MARK: - Decrypted Messages
+
+  async getMessage<T>(messageId: string): Promise<T | null> {
+    return this.get<T>(MESSAGES_STORE, messageId);
+  }
+
+  async saveMessage<T>(messageId: string, payload: T): Promise<void> {
+    await this.put(MESSAGES_STORE, messageId, payload);
+  }
+
+  async removeMessage(messageId: string): Promise<void> {
+    await this.remove(MESSAGES_STORE, messageId);
+  }
+
+  /**
+   * Delete everything stored for this user, e.g. when the device is unlinked
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+    const range = this.userRange();
+    await this.transaction(ALL_STORES, 'readwrite', (transaction) => {
+      ALL_STORES.forEach((storeName) => transaction.objectStore(storeName).delete(range));
+    });
+  }
+
+  // MARK: - IndexedDB Helpers
+
+  private key(id: string): string {
+    return `${this.userId}:${id}`;
+  }
+
+  private userRange(): IDBKeyRange {
+    return IDBKeyRange.bound(`${this.userId}:`, `${this.userId}:\uffff`);
+  }
+
+  private async get<T>(storeName: string, id: string): Promise<T | null> {
+    await this.initialize();
+    const record = await this.request<StoredRecord<T> | undefined>(storeName, 'readonly', (store) =>
+      store.get(this.key(id))
+    );
+    return record ? record.value : null;
+  }
+
+  private async getAll<T>(storeName: string): Promise<StoredRecord<T>[]> {
+    await this.initialize();
+    const range = this.userRange();
+    return this.request<StoredRecord<T>[]>(storeName, 'readonly', (store) => store.getAll(range));
+  }
+
+  private async put<T>(storeName: string, id: string, value: T): Promise<void> {
+    await this.initialize();
+    await this.request(storeName, 'readwrite', (store) => store.put({ id: this.key(id), value }));
+  }
+
+  private async remove(storeName: string, id: string): Promise<void> {
+    await this.initialize();
+    await this.request(storeName, 'readwrite', (store) => store.delete(this.key(id)));
+  }
+
+  private request<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = operation(this.db!.transaction([storeName], mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private transaction(
+    storeNames: string[],
+    mode: IDBTransactionMode,
+    operation: (transaction: IDBTransaction) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(storeNames, mode);
+      operation(transaction);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
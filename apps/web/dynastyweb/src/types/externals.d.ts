@@ -51,5 +51,16 @@ declare const jest: {
 declare module 'libsodium-wrappers-sumo' {
   import sodium from 'libsodium-wrappers';
   export * from 'libsodium-wrappers';
-  export default sodium;
+
+  // Sumo-only functions used for Signal Protocol signatures
+  interface SumoFunctions {
+    crypto_core_ed25519_scalar_add(x: Uint8Array, y: Uint8Array): Uint8Array;
+    crypto_core_ed25519_scalar_mul(x: Uint8Array, y: Uint8Array): Uint8Array;
+    crypto_core_ed25519_scalar_reduce(scalar: Uint8Array): Uint8Array;
+    crypto_hash_sha512(message: Uint8Array): Uint8Array;
+    crypto_scalarmult_ed25519_base_noclamp(scalar: Uint8Array): Uint8Array;
+  }
+
+  const sumo: typeof sodium & SumoFunctions;
+  export default sumo;
 } 
\ No newline at end of file
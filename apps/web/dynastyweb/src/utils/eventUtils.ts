@@ -1,5 +1,6 @@
 import { Timestamp } from "firebase/firestore"
 import { createEvents, EventAttributes } from 'ics'
+import { format, parseISO } from 'date-fns'
 import { functions } from '@/lib/firebase';
 import { FirebaseFunctionsClient, createFirebaseClient } from '@/lib/functions-client'
 
@@ -54,6 +55,9 @@ export interface EventData {
   coverPhotoStoragePaths?: string[];
   coverPhotoUrls?: string[];
   category?: string; // Added to match the data structure we need
+  recurrence?: EventRecurrence | null;
+  isRecurring?: boolean;
+  occurrenceDate?: string; // Original date of this occurrence when the event repeats
   createdAt?: Timestamp | Date | string; // Proper type
   updatedAt?: Timestamp | Date | string; // Proper type
   host?: {
@@ -168,9 +172,9 @@ export async function getAllEvents() {
 /**
  * Fetch details for a specific event
  */
-export async function getEventDetails(eventId: string) {
+export async function getEventDetails(eventId: string, occurrenceDate?: string) {
   try {
-    const result = await getFunctionsClient().callFunction('getEventDetailsApi', { eventId });
+    const result = await getFunctionsClient().callFunction('getEventDetailsApi', { eventId, occurrenceDate });
     
     const data = result.data as { event: EventData };
     if (!data || !data.event) {
@@ -192,9 +196,9 @@ export async function getEventDetails(eventId: string) {
 /**
  * Update RSVP status for an event
  */
-export async function updateEventRsvp(eventId: string, status: 'yes' | 'maybe' | 'no') {
+export async function updateEventRsvp(eventId: string, status: 'yes' | 'maybe' | 'no', occurrenceDate?: string) {
   try {
-    const result = await getFunctionsClient().callFunction('updateEventRsvpApi', { eventId, status });
+    const result = await getFunctionsClient().callFunction('updateEventRsvpApi', { eventId, status, occurrenceDate });
     
     return result.data as { success: boolean };
   } catch (error) {
@@ -272,6 +276,7 @@ export async function createEvent(eventData: {
   rsvpDeadline?: string | null;
   invitedMemberIds: string[];
   coverPhotoStoragePaths?: string[]; // Support up to 5 photos/videos
+  recurrence?: EventRecurrence | null;
 }) {
   try {
     const result = await getFunctionsClient().callFunction('createEvent', eventData);
@@ -283,12 +288,20 @@ export async function createEvent(eventData: {
 }
 
 /**
- * Update an existing event
+ * Update an existing event. For recurring events, the scope decides whether the
+ * changes apply to one occurrence, this and following occurrences, or the whole series.
  */
-export async function updateEvent(eventId: string, eventData: Partial<EventData>) {
+export async function updateEvent(
+  eventId: string,
+  eventData: Partial<EventData>,
+  scope?: { editScope: RecurrenceEditScope; occurrenceDate?: string }
+) {
   try {
+    // A single occurrence only takes the fields it overrides
+    const isSingleOccurrence = scope?.editScope === 'this';
+
     // Make sure timezone is explicitly included in the update
-    if (!eventData.timezone) {
+    if (!eventData.timezone && !isSingleOccurrence) {
       console.warn('No timezone provided for event update, using browser timezone');
       eventData.timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
     }
@@ -305,7 +318,8 @@ export async function updateEvent(eventId: string, eventData: Partial<EventData>
     // Create a copy of the data to ensure it's not modified by reference
     const dataToSend = {
       eventId,
-      eventData: {
+      ...scope,
+      eventData: isSingleOccurrence ? eventData : {
         ...eventData,
         // Ensure timezone is explicitly set in the payload
         timezone: eventData.timezone,
@@ -327,7 +341,7 @@ export async function updateEvent(eventId: string, eventData: Partial<EventData>
     
     const result = await getFunctionsClient().callFunction('updateEvent', dataToSend);
     
-    return result.data as { success: boolean };
+    return result.data as { success: boolean; eventId?: string };
   } catch (error) {
     console.error(`Error updating event ${eventId}:`, error);
     throw error;
@@ -515,4 +529,111 @@ export const downloadEventCalendar = async (event: EventData) => {
     console.error('Failed to download calendar event:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+// MARK: - Calendar Feed Subscription
+
+export interface CalendarFeedStatus {
+  active: boolean;
+  createdAt?: string;
+  lastAccessedAt?: string | null;
+}
+
+/**
+ * Get whether the current user has an active calendar feed subscription link
+ */
+export async function getCalendarFeedStatus() {
+  const result = await getFunctionsClient().callFunction('getCalendarFeedStatus', {});
+  return result.data as CalendarFeedStatus;
+}
+
+/**
+ * Create a new calendar feed link, replacing any existing one.
+ * The link is only returned once, so it must be shown to the user immediately.
+ */
+export async function createCalendarFeedToken() {
+  const result = await getFunctionsClient().callFunction('createCalendarFeedToken', {});
+  return result.data as { feedUrl: string; webcalUrl: string; createdAt: string };
+}
+
+/**
+ * Revoke the current user's calendar feed link
+ */
+export async function revokeCalendarFeedToken() {
+  const result = await getFunctionsClient().callFunction('revokeCalendarFeedToken', {});
+  return result.data as { success: boolean; revokedCount: number };
+}
+
+// MARK: - Recurring Events
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RecurrenceEditScope = 'this' | 'following' | 'all';
+
+export interface EventRecurrence {
+  rrule: string; // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;INTERVAL=2"
+  exdates?: string[]; // YYYY-MM-DD occurrences removed from the series
+}
+
+export interface RecurrenceOptions {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  until?: string | null; // YYYY-MM-DD of the last possible occurrence
+}
+
+const RECURRENCE_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+/**
+ * Builds an RRULE from simple repeat options. Weekly, monthly and yearly events
+ * repeat on the weekday or date of their first occurrence.
+ */
+export function buildRecurrenceRule(options: RecurrenceOptions): string {
+  const parts = [`FREQ=${options.frequency}`];
+  if (options.interval > 1) {
+    parts.push(`INTERVAL=${options.interval}`);
+  }
+  if (options.until) {
+    parts.push(`UNTIL=${options.until.replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+}
+
+/**
+ * Reads simple repeat options from an RRULE, or null if the rule can't be parsed
+ */
+export function parseRecurrenceRule(rrule: string): RecurrenceOptions | null {
+  const parts = Object.fromEntries(
+    rrule.replace(/^RRULE:/i, '').split(';').map(part => part.split('=') as [string, string])
+  );
+  if (!(parts.FREQ in RECURRENCE_UNITS)) {
+    return null;
+  }
+
+  const until = parts.UNTIL?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return {
+    frequency: parts.FREQ as RecurrenceFrequency,
+    interval: Math.max(Number(parts.INTERVAL) || 1, 1),
+    until: until ? `${until[1]}-${until[2]}-${until[3]}` : null,
+  };
+}
+
+/**
+ * Describes a repeat rule for display, e.g. "Repeats every 2 weeks until Sep 1, 2025"
+ */
+export function describeRecurrence(recurrence: EventRecurrence): string {
+  const options = parseRecurrenceRule(recurrence.rrule);
+  if (!options) {
+    return 'Repeats';
+  }
+
+  const unit = RECURRENCE_UNITS[options.frequency];
+  let description = options.interval > 1 ? `Repeats every ${options.interval} ${unit}s` : `Repeats every ${unit}`;
+  if (options.until) {
+    description += ` until ${format(parseISO(options.until), 'MMM d, yyyy')}`;
+  }
+  return description;
+}
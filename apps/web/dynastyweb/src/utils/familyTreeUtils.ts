@@ -12,6 +12,8 @@ import {
   FieldValue
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import type { Connector, ExtNode, Relation } from 'relatives-tree/lib/types';
+import type { ParentLinkType, SpouseRelationshipDetails, SpouseStatus } from '@/utils/functionUtils';
 
 // MARK: - Types
 export interface FamilyTree {
@@ -260,4 +262,72 @@ export const getUserFamilyTreeId = async (userId: string): Promise<string | null
     console.error('Error getting user family tree:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+}; 
+// MARK: - Relationship Display
+
+// Tree nodes from getFamilyTreeData carry link details alongside the relatives-tree relation type
+export type FamilyTreeLinkedNode = Omit<ExtNode, 'parents' | 'spouses'> & {
+  parents: ReadonlyArray<Relation & { linkType?: ParentLinkType }>;
+  spouses: ReadonlyArray<Relation & Partial<SpouseRelationshipDetails>>;
+};
+
+export const PARENT_LINK_LABELS: Record<ParentLinkType, string> = {
+  biological: 'Biological',
+  adoptive: 'Adopted',
+  step: 'Step',
+  foster: 'Foster',
+  guardian: 'Guardian',
+};
+
+export const SPOUSE_STATUS_LABELS: Record<SpouseStatus, string> = {
+  married: 'Married',
+  divorced: 'Divorced',
+  widowed: 'Widowed',
+  partner: 'Partners',
+};
+
+/**
+ * Describes a marriage or partnership, e.g. "Divorced · 1980–2001"
+ * @param relationship - The spouse relationship details
+ * @returns A short label with the status and years
+ */
+export const describeSpouseRelationship = (relationship: Partial<SpouseRelationshipDetails>): string => {
+  const label = SPOUSE_STATUS_LABELS[relationship.status || 'married'];
+  const startYear = relationship.startDate?.slice(0, 4);
+  const endYear = relationship.endDate?.slice(0, 4);
+  if (!startYear && !endYear) return label;
+  return `${label} · ${startYear || '?'}${endYear ? `–${endYear}` : ''}`;
+};
+
+/**
+ * Works out which relationship a relatives-tree connector draws so it can be styled.
+ * Couple lines run between the centres of two spouses on the same row, and each
+ * child has a short drop line ending at the top of its node.
+ * @param connector - The connector in relatives-tree units
+ * @param nodesByPosition - Tree nodes keyed by "left,top"
+ * @returns The spouse relationship or child link drawn by the connector, if any
+ */
+export const getConnectorRelation = (
+  connector: Connector,
+  nodesByPosition: Map<string, FamilyTreeLinkedNode>
+):
+  | { kind: 'spouse'; relationship: Partial<SpouseRelationshipDetails> }
+  | { kind: 'child'; linkTypes: ParentLinkType[] }
+  | null => {
+  const [x1, y1, x2, y2] = connector;
+
+  if (y1 === y2 && x2 > x1) {
+    const left = nodesByPosition.get(`${x1 - 1},${y1 - 1}`);
+    const right = nodesByPosition.get(`${x2 - 1},${y2 - 1}`);
+    const spouse = left?.spouses.find((relation) => relation.id === right?.id);
+    return spouse ? { kind: 'spouse', relationship: spouse } : null;
+  }
+
+  if (x1 === x2 && y2 > y1) {
+    const child = nodesByPosition.get(`${x2 - 1},${y2}`);
+    if (!child) return null;
+    return { kind: 'child', linkTypes: child.parents.map((parent) => parent.linkType || 'biological') };
+  }
+
+  return null;
+};
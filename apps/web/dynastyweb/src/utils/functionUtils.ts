@@ -35,6 +35,17 @@ type EnrichedStory = Story & {
 
 // MARK: - Family Tree Functions
 
+// How a child is linked to a parent; missing links are biological
+export type ParentLinkType = 'biological' | 'adoptive' | 'step' | 'foster' | 'guardian';
+
+export type SpouseStatus = 'married' | 'divorced' | 'widowed' | 'partner';
+
+export interface SpouseRelationshipDetails {
+  status: SpouseStatus;
+  startDate?: string | null; // YYYY-MM-DD
+  endDate?: string | null; // YYYY-MM-DD
+}
+
 export const getFamilyTreeData = async (userId: string) => {
   const result = await getFunctionsClient().callFunction('getFamilyTreeData', { userId });
   return result.data as { treeNodes: Node[] };
@@ -49,12 +60,174 @@ export const updateFamilyRelationships = async (
     removeChildren?: string[];
     addSpouses?: string[];
     removeSpouses?: string[];
+    parentLinkTypes?: Record<string, ParentLinkType>;
+    spouseRelationships?: Record<string, SpouseRelationshipDetails>;
   }
 ) => {
   const result = await getFunctionsClient().callFunction('updateFamilyRelationships', { userId, updates });
   return result.data as { success: boolean };
 };
 
+export interface RelationshipPathStep {
+  id: string;
+  name: string;
+  relation: 'self' | 'parent' | 'child' | 'spouse'; // How this member relates to the previous step
+}
+
+export const getRelationship = async (toUserId: string, fromUserId?: string) => {
+  const result = await getFunctionsClient().callFunction('getRelationship', { toUserId, fromUserId });
+  return result.data as {
+    relationship: string | null;
+    isBloodRelated: boolean;
+    path: RelationshipPathStep[];
+  };
+};
+
+export interface GedcomImportPerson {
+  xref: string;
+  firstName: string;
+  lastName: string;
+  displayName: string;
+  gender: 'male' | 'female' | 'other';
+  dateOfBirth?: string;
+  dateOfDeath?: string;
+  birthDateText?: string;
+  deathDateText?: string;
+  placeOfBirth?: string;
+  placeOfDeath?: string;
+  isDeceased: boolean;
+  matchStatus: 'new' | 'duplicate' | 'conflict';
+  action: 'create' | 'link' | 'skip';
+  existingMemberId?: string;
+  candidates: Array<{
+    memberId: string;
+    displayName: string;
+    reason: 'name_and_birth_date' | 'name_only' | 'name_birth_date_mismatch';
+  }>;
+}
+
+export interface GedcomImportPlan {
+  version: string;
+  people: GedcomImportPerson[];
+  relationships: Array<{
+    type: 'parent_child' | 'spouse';
+    fromXref: string;
+    toXref: string;
+    alreadyExists: boolean;
+  }>;
+  warnings: string[];
+  summary: {
+    individuals: number;
+    families: number;
+    toCreate: number;
+    toLink: number;
+    toSkip: number;
+    conflicts: number;
+    newRelationships: number;
+  };
+}
+
+export type GedcomImportResolutions = Record<
+  string,
+  { action: 'create' | 'link' | 'skip'; existingMemberId?: string }
+>;
+
+export const importGedcom = async (data: {
+  familyTreeId: string;
+  gedcomContent: string;
+  dryRun: boolean;
+  resolutions?: GedcomImportResolutions;
+}) => {
+  const result = await getFunctionsClient().callFunction('importGedcom', data, { timeout: 180000 });
+  return result.data as {
+    dryRun: boolean;
+    plan: GedcomImportPlan;
+    importId?: string;
+    createdMemberIds?: string[];
+  };
+};
+
+export interface GedcomExportSummary {
+  individuals: number;
+  families: number;
+  stories: number;
+  media: number;
+  redacted: number;
+}
+
+export const exportGedcom = async (familyTreeId: string, includeMedia: boolean = false) => {
+  const result = await getFunctionsClient().callFunction(
+    'exportGedcom',
+    { familyTreeId, includeMedia },
+    { timeout: 300000 }
+  );
+  return result.data as {
+    format: 'gedcom' | 'gedzip';
+    fileName: string;
+    content?: string;
+    downloadUrl?: string;
+    expiresAt?: string;
+    summary: GedcomExportSummary;
+  };
+};
+
+export interface DuplicateMemberCandidate {
+  memberIds: [string, string];
+  names: [string, string];
+  score: number;
+  reasons: Array<'same_name' | 'similar_name' | 'same_birth_date' | 'same_birth_year' | 'no_birth_date'>;
+}
+
+export interface MemberMergeConflict {
+  field: string;
+  sourceValue: unknown;
+  targetValue: unknown;
+}
+
+export type MemberMergeFieldChoices = Record<string, 'source' | 'target'>;
+
+export const findDuplicateMembers = async (familyTreeId: string) => {
+  const result = await getFunctionsClient().callFunction('findDuplicateMembers', { familyTreeId });
+  return result.data as { candidates: DuplicateMemberCandidate[] };
+};
+
+export const mergeFamilyMembers = async (data: {
+  familyTreeId: string;
+  sourceMemberId: string;
+  targetMemberId: string;
+  dryRun: boolean;
+  fieldChoices?: MemberMergeFieldChoices;
+}) => {
+  const result = await getFunctionsClient().callFunction('mergeFamilyMembers', data, { timeout: 180000 });
+  return result.data as {
+    dryRun: boolean;
+    conflicts?: MemberMergeConflict[];
+    updatedFields?: string[];
+    referenceCount: number;
+    mergeId?: string;
+    targetMemberId?: string;
+    undoExpiresAt?: string;
+  };
+};
+
+export const undoMemberMerge = async (mergeId: string) => {
+  const result = await getFunctionsClient().callFunction('undoMemberMerge', { mergeId }, { timeout: 180000 });
+  return result.data as { success: boolean; sourceMemberId: string; targetMemberId: string };
+};
+
+export interface FamilyOccasion {
+  type: 'birthday' | 'anniversary' | 'memorial';
+  date: string; // YYYY-MM-DD
+  memberIds: string[];
+  names: string[];
+  years: number; // Age, years married or years since passing
+}
+
+export const getUpcomingFamilyOccasions = async () => {
+  const result = await getFunctionsClient().callFunction('getUpcomingFamilyOccasions', {});
+  return result.data as { occasions: FamilyOccasion[] };
+};
+
 // MARK: - Stories Functions
 
 export const getAccessibleStories = async (userId: string, familyTreeId: string) => {
@@ -130,6 +303,96 @@ export const deleteStory = async (storyId: string, userId: string) => {
   return result.data as { success: boolean };
 };
 
+export type StoryBlockChangeKind = 'added' | 'removed' | 'modified' | 'moved';
+
+export interface StoryRevisionSummary {
+  id: string;
+  storyId: string;
+  revisionNumber: number;
+  editedBy: string;
+  editedAt: string;
+  editor: { id: string; displayName: string; profilePicture?: string };
+  changedFields: string[];
+  blockChanges: Array<{
+    localId: string;
+    type: 'text' | 'image' | 'video' | 'audio';
+    kind: StoryBlockChangeKind;
+    index: number;
+    previousIndex?: number;
+  }>;
+  summary: string;
+  restoredFrom: number | null;
+}
+
+export interface StoryRevision extends StoryRevisionSummary {
+  content: {
+    title: string;
+    subtitle: string | null;
+    eventDate: string | null;
+    location: { lat: number; lng: number; address: string } | null;
+    coverImageURL: string | null;
+    peopleInvolved: string[];
+    blocks: Array<{
+      type: 'text' | 'image' | 'video' | 'audio';
+      data: string | string[];
+      localId: string;
+    }>;
+  };
+}
+
+export const getStoryRevisions = async (
+  storyId: string,
+  options: { limit?: number; startAfterRevision?: number } = {}
+) => {
+  const result = await getFunctionsClient().callFunction('getStoryRevisions', { storyId, ...options });
+  return result.data as { revisions: StoryRevisionSummary[]; hasMore: boolean };
+};
+
+export const getStoryRevision = async (storyId: string, revisionId: string) => {
+  const result = await getFunctionsClient().callFunction('getStoryRevision', { storyId, revisionId });
+  return result.data as { revision: StoryRevision };
+};
+
+export const restoreStoryRevision = async (storyId: string, revisionId: string) => {
+  const result = await getFunctionsClient().callFunction('restoreStoryRevision', { storyId, revisionId });
+  return result.data as { story: EnrichedStory; restored: boolean };
+};
+
+export interface HistoryBook {
+  id: string;
+  title: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  progress: number; // 0-100
+  stage: string;
+  storyCount: number;
+  pageCount: number | null;
+  error: string | null;
+  createdAt: string | null;
+  downloadUrl?: string;
+  expiresAt?: string;
+}
+
+export const requestHistoryBook = async (data: {
+  title: string;
+  subtitle?: string;
+  storyIds: string[];
+  includeFamilyTree: boolean;
+  includeTimeline: boolean;
+}) => {
+  const result = await getFunctionsClient().callFunction('requestHistoryBook', data);
+  return result.data as { bookId: string };
+};
+
+export const getHistoryBook = async (bookId: string) => {
+  const result = await getFunctionsClient().callFunction('getHistoryBook', { bookId });
+  return result.data as HistoryBook;
+};
+
+export const getHistoryBooks = async () => {
+  const result = await getFunctionsClient().callFunction('getHistoryBooks', {});
+  return result.data as { books: HistoryBook[] };
+};
+
 export const createFamilyMember = async (
   userData: {
     firstName: string;
@@ -148,6 +411,8 @@ export const createFamilyMember = async (
     connectToChildren?: boolean;
     connectToSpouse?: boolean;
     connectToExistingParent?: boolean;
+    parentLinkType?: ParentLinkType;
+    spouseRelationship?: SpouseRelationshipDetails;
   }
 ) => {
   const result = await getFunctionsClient().callFunction('createFamilyMember', { userData, relationType, selectedNodeId, options });
@@ -498,4 +763,208 @@ export async function getMemberProfile(userId: string) {
       relationship: string;
     }>;
   };
-} 
\ No newline at end of file
+} 
+
+// MARK: - Vault Functions
+
+export interface VaultFileVersionUploader {
+  id: string;
+  displayName: string;
+}
+
+export interface VaultFileVersion {
+  id: string;
+  versionNumber: number;
+  size: number;
+  mimeType: string | null;
+  checksum: string | null;
+  isEncrypted: boolean;
+  uploadedBy: VaultFileVersionUploader;
+  uploadedAt: string | null;
+  archivedAt: string;
+  restoredFromVersion: number | null;
+}
+
+export interface VaultFileVersions {
+  current: {
+    versionNumber: number;
+    size: number;
+    mimeType: string | null;
+    uploadedBy: VaultFileVersionUploader;
+    uploadedAt: string | null;
+    restoredFromVersion: number | null;
+    scanStatus: 'pending' | 'scanning' | 'clean' | 'infected' | 'error' | null;
+  };
+  versions: VaultFileVersion[];
+  versionsSize: number;
+  canRestore: boolean;
+}
+
+export const getVaultItemVersions = async (itemId: string) => {
+  const result = await getFunctionsClient().callFunction('getVaultItemVersions', { itemId });
+  return result.data as VaultFileVersions;
+};
+
+export const getVaultVersionDownloadUrl = async (itemId: string, versionId: string) => {
+  const result = await getFunctionsClient().callFunction('getVaultVersionDownloadUrl', { itemId, versionId });
+  return result.data as { downloadUrl: string; versionNumber: number; isEncrypted: boolean };
+};
+
+export const restoreVaultItemVersion = async (itemId: string, versionId: string) => {
+  const result = await getFunctionsClient().callFunction('restoreVaultItemVersion', { itemId, versionId });
+  return result.data as { success: boolean; itemId: string; versionNumber: number; restoredFromVersion: number };
+};
+
+export type VaultShareLinkStatus = 'active' | 'expired' | 'exhausted' | 'revoked';
+
+export type VaultShareAccessOutcome =
+  | 'granted'
+  | 'invalid_password'
+  | 'password_required'
+  | 'locked'
+  | VaultShareLinkStatus;
+
+export interface VaultShareAccessLogEntry {
+  timestamp: number;
+  outcome: VaultShareAccessOutcome;
+  // Masked to the network, e.g. 203.0.113.0
+  ip: string | null;
+  country: string | null;
+  userAgent: string | null;
+  signedIn: boolean;
+}
+
+export interface VaultShareLinkSummary {
+  shareId: string;
+  itemId: string;
+  itemName: string | null;
+  status: VaultShareLinkStatus;
+  allowDownload: boolean;
+  passwordProtected: boolean;
+  accessCount: number;
+  maxAccessCount: number | null;
+  remainingAccesses: number | null;
+  failedAttempts: number;
+  createdAt: number;
+  expiresAt: number | null;
+  revokedAt: number | null;
+  lastAccessedAt: number | null;
+  accessLog: VaultShareAccessLogEntry[];
+}
+
+export interface VaultShareLinkAnalytics {
+  summary: {
+    totalShareLinks: number;
+    totalAccesses: number;
+    failedAttempts: number;
+    activeLinks: number;
+    passwordProtectedLinks: number;
+  };
+  dailyAnalytics: Array<{
+    date: string;
+    created: number;
+    accessed: number;
+    failed: number;
+    uniqueAccessors: number;
+  }>;
+  topAccessedItems: Array<{
+    itemId: string;
+    accessCount: number;
+  }>;
+  links: VaultShareLinkSummary[];
+  recentShares: Array<{
+    shareId: string;
+    itemId: string;
+    createdAt: Date;
+    accessCount: number;
+    expiresAt?: Date;
+  }>;
+}
+
+export const getShareLinkAnalytics = async () => {
+  const result = await getFunctionsClient().callFunction('getShareLinkAnalytics', {});
+  return result.data as VaultShareLinkAnalytics;
+};
+
+export const revokeVaultShareLink = async (shareId: string) => {
+  const result = await getFunctionsClient().callFunction('revokeVaultShareLink', { shareId });
+  return result.data as { success: boolean };
+};
+
+export type VaultShareLinkInfo =
+  | { status: Exclude<VaultShareLinkStatus, 'active'>; message: string }
+  // Password-protected links describe the file only once the password is accepted
+  | {
+      status: 'active';
+      requiresPassword: true;
+      expiresAt: number | null;
+      lockedUntil: number | null;
+    }
+  | {
+      status: 'active';
+      requiresPassword: false;
+      fileName: string;
+      mimeType: string | null;
+      fileType: 'image' | 'video' | 'audio' | 'document' | 'other';
+      size: number;
+      isEncrypted: boolean;
+      allowDownload: boolean;
+      expiresAt: number | null;
+      remainingAccesses: number | null;
+    };
+
+export interface VaultShareLinkAccess {
+  viewUrl: string;
+  // Only set for links that allow downloading
+  downloadUrl: string | null;
+  allowDownload: boolean;
+  itemId: string;
+  fileName: string;
+  mimeType: string | null;
+  size: number;
+  isEncrypted: boolean;
+  // Secretstream header and chunk metadata; the key itself only travels in the link's URL fragment
+  encryption: { header: number[]; metadata: Record<string, unknown> } | null;
+  remainingAccesses: number | null;
+}
+
+export const getVaultShareLinkInfo = async (shareId: string) => {
+  const result = await getFunctionsClient().callFunction('getVaultShareLinkInfo', { shareId });
+  return result.data as VaultShareLinkInfo;
+};
+
+export const accessVaultShareLink = async (shareId: string, password?: string) => {
+  const result = await getFunctionsClient().callFunction('accessVaultShareLink', { shareId, password });
+  return result.data as VaultShareLinkAccess;
+};
+
+export type VaultAccessLevel = 'read' | 'write';
+
+export interface VaultItemSharingEntry {
+  user: {
+    id: string;
+    displayName: string;
+    email?: string;
+    profilePicture?: string;
+  };
+  // Effective access: the higher of the item's own grant and what its folder grants
+  permission: VaultAccessLevel;
+  explicitPermission: VaultAccessLevel | null;
+  inheritedPermission: VaultAccessLevel | null;
+  // Nearest folder the inherited access was granted on
+  inheritedFrom: { id: string; name: string } | null;
+}
+
+export interface VaultItemSharingInfo {
+  itemId: string;
+  itemName: string;
+  itemType: 'file' | 'folder';
+  isOwner: boolean;
+  sharingInfo: VaultItemSharingEntry[];
+  totalShared: number;
+}
+
+export const getVaultItemSharingInfo = async (itemId: string) => {
+  const result = await getFunctionsClient().callFunction('getVaultItemSharingInfo', { itemId });
+  return result.data as VaultItemSharingInfo;
+};
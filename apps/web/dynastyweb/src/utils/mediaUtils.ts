@@ -105,6 +105,70 @@ export const compressVideo = async (file: File): Promise<Blob> => {
   });
 };
 
+/**
+ * Creates a small JPEG thumbnail of an image, or of a frame near the start of a video
+ * - Longest side is at most 256px
+ * - Resolves to null for files the browser can't draw
+ */
+export const createThumbnail = async (file: File): Promise<Blob | null> => {
+  const maxDimension = 256;
+  const isVideo = file.type.startsWith('video/');
+  if (!isVideo && !file.type.startsWith('image/')) {
+    return null;
+  }
+
+  const objectUrl = URL.createObjectURL(file);
+
+  try {
+    // 1) Load something drawable
+    const source = await new Promise<HTMLImageElement | HTMLVideoElement | null>((resolve) => {
+      if (isVideo) {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.preload = 'metadata';
+        video.onloadeddata = () => {
+          // Skip past the first second, which is often black
+          video.currentTime = Math.min(1, video.duration / 2 || 0);
+        };
+        video.onseeked = () => resolve(video);
+        video.onerror = () => resolve(null);
+        video.src = objectUrl;
+      } else {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => resolve(null);
+        img.src = objectUrl;
+      }
+    });
+
+    if (!source) {
+      return null;
+    }
+
+    // 2) Scale the longest side down to the thumbnail size
+    const width = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+    const height = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+    if (!width || !height) {
+      return null;
+    }
+    const ratio = Math.min(1, maxDimension / Math.max(width, height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return null;
+    }
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    // 3) Convert to JPEG with 70% quality
+    return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
 /**
  * Compresses audio using the Web Audio API
  */
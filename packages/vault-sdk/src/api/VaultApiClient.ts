@@ -18,22 +18,52 @@ import {
   ShareVaultItemRequest,
   UpdateVaultItemPermissionsRequest,
   CreateVaultShareLinkRequest,
+  CreateVaultShareLinkResponse,
   GetVaultUploadSignedUrlRequest,
   GetVaultUploadSignedUrlResponse,
   GetVaultDownloadUrlRequest,
   GetVaultDownloadUrlResponse,
+  UpdateVaultFileRequest,
+  UpdateVaultFileResponse,
   SearchVaultItemsRequest,
   VaultStorageInfo,
   VaultEncryptionStatus,
   VaultItem,
   VaultItems,
-  VaultShareLink,
   RestoreVaultItemRequest,
   GetVaultAuditLogsRequest,
   GetVaultAuditLogsResponse,
   AccessVaultShareLinkRequest,
+  AccessVaultShareLinkResponse,
   GetVaultSystemStatsRequest,
   GetVaultSystemStatsResponse,
+  CreateVaultUploadSessionRequest,
+  CreateVaultUploadSessionResponse,
+  GetVaultUploadSessionRequest,
+  VaultUploadSession,
+  GetVaultUploadPartUrlsRequest,
+  GetVaultUploadPartUrlsResponse,
+  ReportVaultUploadPartsRequest,
+  ReportVaultUploadPartsResponse,
+  CompleteVaultFileUploadRequest,
+  AbortVaultUploadSessionRequest,
+  GetFamilyVaultRequest,
+  FamilyVaultInfo,
+  CreateFamilyVaultRequest,
+  UpdateFamilyVaultMemberRoleRequest,
+  FamilyVaultRole,
+  UpdateVaultItemTagsRequest,
+  VaultTagCount,
+  VaultAlbum,
+  CreateVaultAlbumRequest,
+  UpdateVaultAlbumRequest,
+  UpdateVaultAlbumItemsRequest,
+  UpdateVaultAlbumItemsResponse,
+  VaultSmartCollection,
+  CreateVaultSmartCollectionRequest,
+  UpdateVaultSmartCollectionRequest,
+  VaultBulkTagRequest,
+  VaultBulkResult,
 } from '../types/Vault';
 
 import { 
@@ -185,10 +215,11 @@ export class VaultApiClient {
   }
 
   /**
-   * Updates file content
+   * Gets a signed URL for uploading new file content. The current content is kept
+   * as a previous version; call addFile with the item ID once the upload finishes.
    */
-  updateFile(data: { itemId: string; fileData: string; fileName: string }, options?: ApiCallOptions): Promise<VaultItem> {
-    return createFunctionCaller<{ itemId: string; fileData: string; fileName: string }, VaultItem>(
+  updateFile(data: UpdateVaultFileRequest, options?: ApiCallOptions): Promise<UpdateVaultFileResponse> {
+    return createFunctionCaller<UpdateVaultFileRequest, UpdateVaultFileResponse>(
       this.functions,
       'updateVaultFile',
       undefined,
@@ -197,10 +228,58 @@ export class VaultApiClient {
   }
 
   /**
-   * Completes multipart file upload
+   * Starts a resumable multipart upload to the staging bucket
    */
-  completeFileUpload(data: { uploadId: string; itemId: string; parts: any[] }, options?: ApiCallOptions): Promise<VaultItem> {
-    return createFunctionCaller<{ uploadId: string; itemId: string; parts: any[] }, VaultItem>(
+  createUploadSession(data: CreateVaultUploadSessionRequest, options?: ApiCallOptions): Promise<CreateVaultUploadSessionResponse> {
+    return createFunctionCaller<CreateVaultUploadSessionRequest, CreateVaultUploadSessionResponse>(
+      this.functions,
+      'createVaultUploadSession',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Gets the acknowledged and missing parts of an upload session
+   */
+  getUploadSession(data: GetVaultUploadSessionRequest, options?: ApiCallOptions): Promise<VaultUploadSession> {
+    return createFunctionCaller<GetVaultUploadSessionRequest, VaultUploadSession>(
+      this.functions,
+      'getVaultUploadSession',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Gets presigned URLs for up to 100 parts of an upload session
+   */
+  getUploadPartUrls(data: GetVaultUploadPartUrlsRequest, options?: ApiCallOptions): Promise<GetVaultUploadPartUrlsResponse> {
+    return createFunctionCaller<GetVaultUploadPartUrlsRequest, GetVaultUploadPartUrlsResponse>(
+      this.functions,
+      'getVaultUploadPartUrls',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Records uploaded parts so an interrupted upload can resume after them
+   */
+  reportUploadParts(data: ReportVaultUploadPartsRequest, options?: ApiCallOptions): Promise<ReportVaultUploadPartsResponse> {
+    return createFunctionCaller<ReportVaultUploadPartsRequest, ReportVaultUploadPartsResponse>(
+      this.functions,
+      'reportVaultUploadParts',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Completes multipart file upload. Call addFile with the item ID afterwards.
+   */
+  completeFileUpload(data: CompleteVaultFileUploadRequest, options?: ApiCallOptions): Promise<{ success: boolean }> {
+    return createFunctionCaller<CompleteVaultFileUploadRequest, { success: boolean }>(
       this.functions,
       'completeVaultFileUpload',
       undefined,
@@ -208,6 +287,18 @@ export class VaultApiClient {
     )(data, options);
   }
 
+  /**
+   * Aborts an upload session and discards its uploaded parts
+   */
+  abortUploadSession(data: AbortVaultUploadSessionRequest, options?: ApiCallOptions): Promise<{ success: boolean }> {
+    return createFunctionCaller<AbortVaultUploadSessionRequest, { success: boolean }>(
+      this.functions,
+      'abortVaultUploadSession',
+      undefined,
+      false
+    )(data, options);
+  }
+
   // ============================
   // VAULT BROWSING
   // ============================
@@ -225,10 +316,23 @@ export class VaultApiClient {
   }
 
   /**
-   * Gets deleted vault items (trash)
+   * Lists the items other users shared with the current user directly. The contents of a
+   * shared folder are listed with getItems.
    */
-  getDeletedItems(data: {} = {}, options?: ApiCallOptions): Promise<VaultItems> {
-    return createFunctionCaller<{}, VaultItems>(
+  getSharedWithMeItems(options?: ApiCallOptions): Promise<GetVaultItemsResponse> {
+    return createFunctionCaller<{}, GetVaultItemsResponse>(
+      this.functions,
+      'getSharedWithMeVaultItems',
+      undefined,
+      false
+    )({}, options);
+  }
+
+  /**
+   * Gets deleted vault items (trash), or the trash of a family vault for its managers
+   */
+  getDeletedItems(data: { familyTreeId?: string } = {}, options?: ApiCallOptions): Promise<VaultItems> {
+    return createFunctionCaller<{ familyTreeId?: string }, VaultItems>(
       this.functions,
       'getDeletedVaultItems',
       undefined,
@@ -237,10 +341,10 @@ export class VaultApiClient {
   }
 
   /**
-   * Searches vault items
+   * Searches vault items by name or tag, or lists an album or smart collection
    */
-  searchItems(data: SearchVaultItemsRequest, options?: ApiCallOptions): Promise<VaultItems> {
-    return createFunctionCaller<SearchVaultItemsRequest, VaultItems>(
+  searchItems(data: SearchVaultItemsRequest, options?: ApiCallOptions): Promise<GetVaultItemsResponse> {
+    return createFunctionCaller<SearchVaultItemsRequest, GetVaultItemsResponse>(
       this.functions,
       'searchVaultItems',
       undefined,
@@ -355,8 +459,8 @@ export class VaultApiClient {
   /**
    * Creates a public share link for a vault item
    */
-  createShareLink(data: CreateVaultShareLinkRequest, options?: ApiCallOptions): Promise<VaultShareLink> {
-    return createFunctionCaller<CreateVaultShareLinkRequest, VaultShareLink>(
+  createShareLink(data: CreateVaultShareLinkRequest, options?: ApiCallOptions): Promise<CreateVaultShareLinkResponse> {
+    return createFunctionCaller<CreateVaultShareLinkRequest, CreateVaultShareLinkResponse>(
       this.functions,
       'createVaultShareLink',
       undefined,
@@ -367,8 +471,8 @@ export class VaultApiClient {
   /**
    * Accesses a vault item via share link
    */
-  accessShareLink(data: AccessVaultShareLinkRequest, options?: ApiCallOptions): Promise<VaultItem> {
-    return createFunctionCaller<AccessVaultShareLinkRequest, VaultItem>(
+  accessShareLink(data: AccessVaultShareLinkRequest, options?: ApiCallOptions): Promise<AccessVaultShareLinkResponse> {
+    return createFunctionCaller<AccessVaultShareLinkRequest, AccessVaultShareLinkResponse>(
       this.functions,
       'accessVaultShareLink',
       undefined,
@@ -388,6 +492,208 @@ export class VaultApiClient {
     )(data, options);
   }
 
+  // ============================
+  // FAMILY VAULT
+  // ============================
+
+  /**
+   * Gets a family tree's shared vault: the caller's role, member roles and storage used.
+   * Items are listed with getItems and a familyTreeId.
+   */
+  getFamilyVault(data: GetFamilyVaultRequest, options?: ApiCallOptions): Promise<FamilyVaultInfo> {
+    return createFunctionCaller<GetFamilyVaultRequest, FamilyVaultInfo>(
+      this.functions,
+      'getFamilyVault',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Creates a family tree's shared vault, or links it to the caller's family plan. Tree admins only.
+   */
+  createFamilyVault(data: CreateFamilyVaultRequest, options?: ApiCallOptions): Promise<{ success: boolean; familyTreeId: string }> {
+    return createFunctionCaller<CreateFamilyVaultRequest, { success: boolean; familyTreeId: string }>(
+      this.functions,
+      'createFamilyVault',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Changes a member's role in a family vault. Tree admins only.
+   */
+  updateFamilyVaultMemberRole(
+    data: UpdateFamilyVaultMemberRoleRequest,
+    options?: ApiCallOptions
+  ): Promise<{ success: boolean; role: FamilyVaultRole }> {
+    return createFunctionCaller<UpdateFamilyVaultMemberRoleRequest, { success: boolean; role: FamilyVaultRole }>(
+      this.functions,
+      'updateFamilyVaultMemberRole',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  // ============================
+  // TAGS, ALBUMS & SMART COLLECTIONS
+  // ============================
+
+  /**
+   * Sets the tags and people tags of an item
+   */
+  updateItemTags(
+    data: UpdateVaultItemTagsRequest,
+    options?: ApiCallOptions
+  ): Promise<{ success: boolean; tags: string[]; peopleTags: string[] }> {
+    return createFunctionCaller<UpdateVaultItemTagsRequest, { success: boolean; tags: string[]; peopleTags: string[] }>(
+      this.functions,
+      'updateVaultItemTags',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Adds and removes tags on many items at once
+   */
+  bulkTagItems(data: VaultBulkTagRequest, options?: ApiCallOptions): Promise<VaultBulkResult> {
+    return createFunctionCaller<{ operation: 'tag'; itemIds: string[]; metadata: Omit<VaultBulkTagRequest, 'itemIds'> }, VaultBulkResult>(
+      this.functions,
+      'executeBulkVaultOperation',
+      undefined,
+      false
+    )({
+      operation: 'tag',
+      itemIds: data.itemIds,
+      metadata: { addTags: data.addTags, removeTags: data.removeTags },
+    }, options);
+  }
+
+  /**
+   * Gets the tags in use in the caller's vault, with how many items carry each
+   */
+  getTags(data: {} = {}, options?: ApiCallOptions): Promise<{ tags: VaultTagCount[] }> {
+    return createFunctionCaller<{}, { tags: VaultTagCount[] }>(
+      this.functions,
+      'getVaultTags',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Gets the caller's albums. Their items are listed with searchItems and an albumId.
+   */
+  getAlbums(data: {} = {}, options?: ApiCallOptions): Promise<{ albums: VaultAlbum[] }> {
+    return createFunctionCaller<{}, { albums: VaultAlbum[] }>(
+      this.functions,
+      'getVaultAlbums',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Creates an album, optionally with some items in it
+   */
+  createAlbum(data: CreateVaultAlbumRequest, options?: ApiCallOptions): Promise<{ album: VaultAlbum }> {
+    return createFunctionCaller<CreateVaultAlbumRequest, { album: VaultAlbum }>(
+      this.functions,
+      'createVaultAlbum',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Renames an album, or changes its description or cover
+   */
+  updateAlbum(data: UpdateVaultAlbumRequest, options?: ApiCallOptions): Promise<{ success: boolean }> {
+    return createFunctionCaller<UpdateVaultAlbumRequest, { success: boolean }>(
+      this.functions,
+      'updateVaultAlbum',
+      z.object({ success: z.boolean() }),
+      false
+    )(data, options);
+  }
+
+  /**
+   * Deletes an album. Its items stay in the vault.
+   */
+  deleteAlbum(data: { albumId: string }, options?: ApiCallOptions): Promise<{ success: boolean }> {
+    return createFunctionCaller<{ albumId: string }, { success: boolean }>(
+      this.functions,
+      'deleteVaultAlbum',
+      z.object({ success: z.boolean() }),
+      false
+    )(data, options);
+  }
+
+  /**
+   * Adds items to an album and takes others out
+   */
+  updateAlbumItems(data: UpdateVaultAlbumItemsRequest, options?: ApiCallOptions): Promise<UpdateVaultAlbumItemsResponse> {
+    return createFunctionCaller<UpdateVaultAlbumItemsRequest, UpdateVaultAlbumItemsResponse>(
+      this.functions,
+      'updateVaultAlbumItems',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Gets the caller's smart collections. Their items are listed with searchItems and a collectionId.
+   */
+  getSmartCollections(data: {} = {}, options?: ApiCallOptions): Promise<{ collections: VaultSmartCollection[] }> {
+    return createFunctionCaller<{}, { collections: VaultSmartCollection[] }>(
+      this.functions,
+      'getVaultSmartCollections',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Saves a smart collection
+   */
+  createSmartCollection(
+    data: CreateVaultSmartCollectionRequest,
+    options?: ApiCallOptions
+  ): Promise<{ collection: VaultSmartCollection }> {
+    return createFunctionCaller<CreateVaultSmartCollectionRequest, { collection: VaultSmartCollection }>(
+      this.functions,
+      'createVaultSmartCollection',
+      undefined,
+      false
+    )(data, options);
+  }
+
+  /**
+   * Renames a smart collection or replaces its rules
+   */
+  updateSmartCollection(data: UpdateVaultSmartCollectionRequest, options?: ApiCallOptions): Promise<{ success: boolean }> {
+    return createFunctionCaller<UpdateVaultSmartCollectionRequest, { success: boolean }>(
+      this.functions,
+      'updateVaultSmartCollection',
+      z.object({ success: z.boolean() }),
+      false
+    )(data, options);
+  }
+
+  /**
+   * Deletes a smart collection
+   */
+  deleteSmartCollection(data: { collectionId: string }, options?: ApiCallOptions): Promise<{ success: boolean }> {
+    return createFunctionCaller<{ collectionId: string }, { success: boolean }>(
+      this.functions,
+      'deleteVaultSmartCollection',
+      z.object({ success: z.boolean() }),
+      false
+    )(data, options);
+  }
+
   // ============================
   // ENCRYPTION
   // ============================
@@ -405,13 +711,20 @@ export class VaultApiClient {
   }
 
   /**
-   * Stores encryption metadata for a vault item
+   * Stores encryption metadata for a vault item. Registering an encrypted thumbnail
+   * returns the URL to upload it to.
    */
-  storeEncryptionMetadata(data: { itemId: string; encryptionMetadata: any }, options?: ApiCallOptions): Promise<{ success: boolean }> {
-    return createFunctionCaller<{ itemId: string; encryptionMetadata: any }, { success: boolean }>(
+  storeEncryptionMetadata(
+    data: { itemId: string; encryptionMetadata: any; thumbnail?: { nonce: string; size: number } },
+    options?: ApiCallOptions
+  ): Promise<{ success: boolean; thumbnailUploadUrl?: string | undefined }> {
+    return createFunctionCaller<
+      { itemId: string; encryptionMetadata: any; thumbnail?: { nonce: string; size: number } },
+      { success: boolean; thumbnailUploadUrl?: string | undefined }
+    >(
       this.functions,
       'storeVaultItemEncryptionMetadata',
-      z.object({ success: z.boolean() }),
+      z.object({ success: z.boolean(), thumbnailUploadUrl: z.string().optional() }),
       false
     )(data, options);
   }
@@ -27,7 +27,7 @@ export const vaultQueryKeys = {
   all: ['vault'] as const,
   items: (parentId?: string) => ['vault', 'items', parentId] as const,
   item: (itemId: string) => ['vault', 'item', itemId] as const,
-  search: (query: string, parentId?: string) => ['vault', 'search', query, parentId] as const,
+  search: (request: SearchVaultItemsRequest) => ['vault', 'search', request] as const,
   deletedItems: () => ['vault', 'deleted'] as const,
   storageInfo: () => ['vault', 'storage'] as const,
   encryptionStatus: () => ['vault', 'encryption'] as const,
@@ -142,19 +142,19 @@ export function useVault(config: UseVaultConfig, errorHandler?: VaultErrorHandle
   };
 
   /**
-   * Searches vault items
+   * Searches vault items by name or tag, or lists an album or smart collection
    */
   const useVaultSearch = (
     request: SearchVaultItemsRequest,
-    options?: VaultQueryOptions<VaultItems>
+    options?: VaultQueryOptions<GetVaultItemsResponse>
   ) => {
     return useQuery({
-      queryKey: vaultQueryKeys.search(request.query || '', request.parentId),
+      queryKey: vaultQueryKeys.search(request),
       queryFn: withVaultErrorHandling(
         () => apiClient.searchItems(request),
         'searchVaultItems'
       ),
-      enabled: !!request.query && request.query.length > 0,
+      enabled: !!request.query || !!request.tags?.length || !!request.albumId || !!request.collectionId,
       staleTime: 30 * 1000, // 30 seconds
       gcTime: 2 * 60 * 1000, // 2 minutes
       ...options,
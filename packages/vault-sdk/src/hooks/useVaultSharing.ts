@@ -5,6 +5,8 @@ import {
   type ShareVaultItemRequest,
   type UpdateVaultItemPermissionsRequest,
   type CreateVaultShareLinkRequest,
+  type CreateVaultShareLinkResponse,
+  type AccessVaultShareLinkResponse,
   type VaultShareLink,
   type VaultItem,
   VaultError,
@@ -141,7 +143,7 @@ export function useVaultSharing(
    */
   const useCreateShareLink = () => {
     return useMutation<
-      VaultShareLink,
+      CreateVaultShareLinkResponse,
       VaultError,
       CreateVaultShareLinkRequest
     >({
@@ -149,14 +151,9 @@ export function useVaultSharing(
         (request: CreateVaultShareLinkRequest) => apiClient.createShareLink(request),
         'createVaultShareLink'
       ),
-      onSuccess: (data, variables) => {
-        // Update share links cache
-        queryClient.setQueryData(
-          vaultSharingQueryKeys.shareLinks(variables.itemId),
-          (oldData: VaultShareLink[] | undefined) => {
-            return oldData ? [...oldData, data] : [data];
-          }
-        );
+      onSuccess: (_data, variables) => {
+        // Refetch share links so the new link shows with its server-side state
+        queryClient.invalidateQueries({ queryKey: vaultSharingQueryKeys.shareLinks(variables.itemId) });
         
         // Invalidate the item to show it has share links
         queryClient.invalidateQueries({ queryKey: vaultQueryKeys.item(variables.itemId) });
@@ -172,7 +169,7 @@ export function useVaultSharing(
    */
   const useAccessShareLink = () => {
     return useMutation<
-      VaultItem,
+      AccessVaultShareLinkResponse,
       VaultError,
       { shareId: string; password?: string }
     >({
@@ -222,9 +219,8 @@ export function useVaultSharing(
       queryKey: vaultSharingQueryKeys.sharedWithMe(),
       queryFn: withVaultErrorHandling(
         async () => {
-          // Note: This would need to be implemented in the API client
-          // For now, return empty array
-          return [] as VaultItem[];
+          const response = await apiClient.getSharedWithMeItems();
+          return response.items;
         },
         'getSharedWithMe'
       ),
@@ -42,6 +42,7 @@ export const VaultShareLinkSchema = z.object({
   accessCount: z.number(),
   maxAccessCount: z.number().nullable(),
   lastAccessedAt: z.string().optional(),
+  revokedAt: z.string().nullable().optional(),
 });
 
 // File scanning results schema
@@ -59,6 +60,12 @@ export const VaultQuarantineInfoSchema = z.object({
   scanResults: VaultScanResultsSchema.optional(),
 });
 
+// Users granted read and write access to a vault item
+export const VaultPermissionGrantsSchema = z.object({
+  canRead: z.array(z.string()).optional(),
+  canWrite: z.array(z.string()).optional(),
+});
+
 // Main vault item schema
 export const VaultItemSchema = z.object({
   id: z.string(),
@@ -83,13 +90,24 @@ export const VaultItemSchema = z.object({
   encryptedBy: z.string().optional(),
   encryptionMetadata: VaultEncryptionMetadataSchema.optional(),
   
-  // Sharing & permissions
+  // Sharing & permissions. permissions holds the effective grants: those made on the item
+  // itself (explicitPermissions) plus those inherited from its folder (inheritedPermissions)
   sharedWith: z.array(z.string()).optional(),
-  permissions: z.object({
-    canRead: z.array(z.string()).optional(),
-    canWrite: z.array(z.string()).optional(),
-  }).optional(),
+  permissions: VaultPermissionGrantsSchema.optional(),
+  explicitPermissions: VaultPermissionGrantsSchema.optional(),
+  inheritedPermissions: VaultPermissionGrantsSchema.optional(),
   accessLevel: z.enum(['owner', 'read', 'write']).optional(),
+  // Display name of the owner, set on items shared with the current user
+  ownerName: z.string().optional(),
+  // Set on items in a family vault, which belong to the family tree rather than a member
+  familyTreeId: z.string().optional(),
+  uploadedBy: z.string().optional(),
+  createdBy: z.string().optional(),
+  
+  // Organizing. Tags are stored lowercased; peopleTags name the family members an item shows
+  tags: z.array(z.string()).optional(),
+  peopleTags: z.array(z.string()).optional(),
+  albumIds: z.array(z.string()).optional(),
   
   // Cloud storage
   storageProvider: VaultStorageProviderSchema.optional(),
@@ -110,6 +128,14 @@ export const VaultItemSchema = z.object({
   cachedDownloadUrl: z.string().optional(),
   cachedDownloadUrlExpiry: z.string().optional(),
   thumbnailUrl: z.string().optional(),
+  // Signed URLs of server-made thumbnails, keyed by their longest edge in pixels
+  thumbnailUrls: z.record(z.string()).optional(),
+  // Client-made thumbnail of an encrypted file, encrypted with the file's key
+  encryptedThumbnail: z.object({
+    nonce: z.string(),
+    size: z.number(),
+  }).passthrough().optional(),
+  encryptedThumbnailUrl: z.string().optional(),
 });
 
 // Array of vault items schema
@@ -120,6 +146,7 @@ export const CreateVaultFolderRequestSchema = z.object({
   name: z.string().min(1).max(100),
   description: z.string().max(500).optional(),
   parentFolderId: z.string().optional(),
+  familyTreeId: z.string().optional(),
 });
 
 export const AddVaultFileRequestSchema = z.object({
@@ -136,12 +163,17 @@ export const AddVaultFileRequestSchema = z.object({
 export const GetVaultItemsRequestSchema = z.object({
   parentId: z.string().optional(),
   includeDeleted: z.boolean().optional(),
+  familyTreeId: z.string().optional(),
 });
 
+export const FamilyVaultRoleSchema = z.enum(['viewer', 'contributor', 'manager']);
+
 export const GetVaultItemsResponseSchema = z.object({
   items: VaultItemsSchema,
   totalCount: z.number().optional(),
   hasMore: z.boolean().optional(),
+  // The caller's role, when listing a family vault
+  familyRole: FamilyVaultRoleSchema.nullable().optional(),
 });
 
 export const RenameVaultItemRequestSchema = z.object({
@@ -176,6 +208,16 @@ export const CreateVaultShareLinkRequestSchema = z.object({
   expiresAt: z.string().optional(),
   allowDownload: z.boolean().optional(),
   password: z.string().max(100).optional(),
+  // Number of times the link can be opened; oneTime is shorthand for 1
+  maxAccessCount: z.number().int().min(1).max(1000).optional(),
+  oneTime: z.boolean().optional(),
+});
+
+export const CreateVaultShareLinkResponseSchema = z.object({
+  shareId: z.string(),
+  shareLink: z.string(),
+  allowDownload: z.boolean(),
+  maxAccessCount: z.number().nullable(),
 });
 
 export const GetVaultUploadSignedUrlRequestSchema = z.object({
@@ -184,6 +226,8 @@ export const GetVaultUploadSignedUrlRequestSchema = z.object({
   fileSize: z.number().positive(),
   parentId: z.string().optional(),
   isEncrypted: z.boolean().optional(),
+  contentHash: z.string().regex(/^[a-f0-9]{64}$/).optional(),
+  familyTreeId: z.string().optional(),
 });
 
 export const GetVaultUploadSignedUrlResponseSchema = z.object({
@@ -203,6 +247,24 @@ export const GetVaultDownloadUrlResponseSchema = z.object({
   expires: z.string(),
 });
 
+export const UpdateVaultFileRequestSchema = z.object({
+  itemId: z.string(),
+  fileName: z.string().min(1).max(255),
+  mimeType: z.string().max(100),
+  fileSize: z.number().positive(),
+  checksum: z.string().max(128).optional(),
+  contentHash: z.string().regex(/^[a-f0-9]{64}$/).optional(),
+  isEncrypted: z.boolean().optional(),
+});
+
+export const UpdateVaultFileResponseSchema = z.object({
+  signedUrl: z.string(),
+  storagePath: z.string(),
+  itemId: z.string(),
+  versionNumber: z.number(),
+  isEncrypted: z.boolean(),
+});
+
 export const SearchVaultItemsRequestSchema = z.object({
   query: z.string().max(100).optional(),
   fileTypes: z.array(VaultFileTypeSchema).max(10).optional(),
@@ -211,6 +273,10 @@ export const SearchVaultItemsRequestSchema = z.object({
   sortBy: VaultSortBySchema.optional(),
   sortOrder: VaultSortOrderSchema.optional(),
   limit: z.number().positive().max(100).optional(),
+  // Items carrying every one of these tags
+  tags: z.array(z.string().max(40)).max(20).optional(),
+  albumId: z.string().optional(),
+  collectionId: z.string().optional(),
 });
 
 export const VaultStorageInfoSchema = z.object({
@@ -255,10 +321,13 @@ export type DeleteVaultItemRequest = z.infer<typeof DeleteVaultItemRequestSchema
 export type ShareVaultItemRequest = z.infer<typeof ShareVaultItemRequestSchema>;
 export type UpdateVaultItemPermissionsRequest = z.infer<typeof UpdateVaultItemPermissionsRequestSchema>;
 export type CreateVaultShareLinkRequest = z.infer<typeof CreateVaultShareLinkRequestSchema>;
+export type CreateVaultShareLinkResponse = z.infer<typeof CreateVaultShareLinkResponseSchema>;
 export type GetVaultUploadSignedUrlRequest = z.infer<typeof GetVaultUploadSignedUrlRequestSchema>;
 export type GetVaultUploadSignedUrlResponse = z.infer<typeof GetVaultUploadSignedUrlResponseSchema>;
 export type GetVaultDownloadUrlRequest = z.infer<typeof GetVaultDownloadUrlRequestSchema>;
 export type GetVaultDownloadUrlResponse = z.infer<typeof GetVaultDownloadUrlResponseSchema>;
+export type UpdateVaultFileRequest = z.infer<typeof UpdateVaultFileRequestSchema>;
+export type UpdateVaultFileResponse = z.infer<typeof UpdateVaultFileResponseSchema>;
 export type SearchVaultItemsRequest = z.infer<typeof SearchVaultItemsRequestSchema>;
 export type VaultStorageInfo = z.infer<typeof VaultStorageInfoSchema>;
 export type VaultEncryptionStatus = z.infer<typeof VaultEncryptionStatusSchema>;
@@ -296,6 +365,23 @@ export const AccessVaultShareLinkRequestSchema = z.object({
   password: z.string().optional(),
 });
 
+export const AccessVaultShareLinkResponseSchema = z.object({
+  viewUrl: z.string(),
+  downloadUrl: z.string().nullable(),
+  allowDownload: z.boolean(),
+  itemId: z.string(),
+  fileName: z.string(),
+  mimeType: z.string().nullable(),
+  size: z.number(),
+  isEncrypted: z.boolean(),
+  // The decryption key is never sent; it travels in the share link's URL fragment
+  encryption: z.object({
+    header: z.array(z.number()),
+    metadata: z.record(z.unknown()),
+  }).nullable(),
+  remainingAccesses: z.number().nullable(),
+});
+
 export const RevokeVaultItemAccessRequestSchema = z.object({
   itemId: z.string(),
   userId: z.string(),
@@ -325,16 +411,253 @@ export const PermanentlyDeleteVaultItemsRequestSchema = z.object({
   confirmDelete: z.boolean(),
 });
 
+// Resumable upload schemas
+export const VaultUploadPartSchema = z.object({
+  partNumber: z.number().int().positive(),
+  etag: z.string().min(1).max(200),
+});
+
+export const VaultUploadSessionStatusSchema = z.enum(['active', 'completed', 'aborted', 'expired']);
+
+export const CreateVaultUploadSessionRequestSchema = GetVaultUploadSignedUrlRequestSchema;
+
+export const CreateVaultUploadSessionResponseSchema = z.object({
+  uploadId: z.string(),
+  itemId: z.string(),
+  storagePath: z.string(),
+  partSize: z.number(),
+  partCount: z.number(),
+  expiresAt: z.number(),
+});
+
+export const GetVaultUploadSessionRequestSchema = z.object({
+  uploadId: z.string(),
+});
+
+export const VaultUploadSessionSchema = z.object({
+  uploadId: z.string(),
+  itemId: z.string(),
+  storagePath: z.string(),
+  status: VaultUploadSessionStatusSchema,
+  fileName: z.string(),
+  fileSize: z.number(),
+  partSize: z.number(),
+  partCount: z.number(),
+  completedParts: z.array(VaultUploadPartSchema),
+  missingParts: z.array(z.number()),
+  expiresAt: z.number(),
+});
+
+export const GetVaultUploadPartUrlsRequestSchema = z.object({
+  uploadId: z.string(),
+  partNumbers: z.array(z.number().int().positive()).min(1).max(100),
+});
+
+export const GetVaultUploadPartUrlsResponseSchema = z.object({
+  parts: z.array(z.object({
+    partNumber: z.number(),
+    signedUrl: z.string(),
+  })),
+  expiresAt: z.number(),
+});
+
+export const ReportVaultUploadPartsRequestSchema = z.object({
+  uploadId: z.string(),
+  parts: z.array(VaultUploadPartSchema).min(1).max(100),
+});
+
+export const ReportVaultUploadPartsResponseSchema = z.object({
+  success: z.boolean(),
+  completedParts: z.array(z.number()),
+});
+
+export const CompleteVaultFileUploadRequestSchema = z.object({
+  uploadId: z.string(),
+  itemId: z.string(),
+  parts: z.array(VaultUploadPartSchema).max(10000).optional(),
+  contentHash: z.string().regex(/^[a-f0-9]{64}$/).optional(),
+});
+
+export const AbortVaultUploadSessionRequestSchema = z.object({
+  uploadId: z.string(),
+});
+
+// Family vault schemas
+export const FamilyVaultMemberSchema = z.object({
+  userId: z.string(),
+  displayName: z.string(),
+  role: FamilyVaultRoleSchema,
+  isTreeAdmin: z.boolean(),
+});
+
+export const GetFamilyVaultRequestSchema = z.object({
+  familyTreeId: z.string(),
+});
+
+// Before the vault is created only familyTreeId, treeName, exists, canManage and role are set
+export const FamilyVaultInfoSchema = z.object({
+  familyTreeId: z.string(),
+  treeName: z.string(),
+  exists: z.boolean(),
+  canManage: z.boolean(),
+  role: FamilyVaultRoleSchema.nullable(),
+  defaultRole: FamilyVaultRoleSchema.optional(),
+  planLinked: z.boolean().optional(),
+  usedBytes: z.number().optional(),
+  members: z.array(FamilyVaultMemberSchema).optional(),
+});
+
+export const CreateFamilyVaultRequestSchema = z.object({
+  familyTreeId: z.string(),
+  defaultRole: FamilyVaultRoleSchema.optional(),
+});
+
+export const UpdateFamilyVaultMemberRoleRequestSchema = z.object({
+  familyTreeId: z.string(),
+  userId: z.string(),
+  role: FamilyVaultRoleSchema,
+});
+
+// Tag, album and smart collection schemas
+export const UpdateVaultItemTagsRequestSchema = z.object({
+  itemId: z.string(),
+  tags: z.array(z.string().max(40)).max(20).optional(),
+  peopleTags: z.array(z.string()).max(20).optional(),
+});
+
+export const VaultTagCountSchema = z.object({
+  tag: z.string(),
+  count: z.number(),
+});
+
+export const VaultAlbumSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  coverItemId: z.string().nullable(),
+  itemCount: z.number(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const CreateVaultAlbumRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  itemIds: z.array(z.string()).max(100).optional(),
+});
+
+export const UpdateVaultAlbumRequestSchema = z.object({
+  albumId: z.string(),
+  name: z.string().min(1).max(100).optional(),
+  // An empty description clears it
+  description: z.string().max(500).optional(),
+  coverItemId: z.string().optional(),
+});
+
+export const UpdateVaultAlbumItemsRequestSchema = z.object({
+  albumId: z.string(),
+  addItemIds: z.array(z.string()).max(100).optional(),
+  removeItemIds: z.array(z.string()).max(100).optional(),
+});
+
+export const UpdateVaultAlbumItemsResponseSchema = z.object({
+  success: z.boolean(),
+  updatedItemIds: z.array(z.string()),
+  skippedItemIds: z.array(z.string()),
+});
+
+// Every rule set has to match; a rule listing several values matches any one of them.
+// Dates are milliseconds since the epoch and sizes are bytes.
+export const SmartCollectionRulesSchema = z.object({
+  fileTypes: z.array(VaultFileTypeSchema).max(10).optional(),
+  createdAfter: z.number().optional(),
+  createdBefore: z.number().optional(),
+  peopleTagged: z.array(z.string()).max(10).optional(),
+  uploadedBy: z.array(z.string()).max(10).optional(),
+  minSize: z.number().min(0).optional(),
+  maxSize: z.number().min(0).optional(),
+  tags: z.array(z.string().max(40)).max(10).optional(),
+});
+
+export const VaultSmartCollectionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  rules: SmartCollectionRulesSchema,
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const CreateVaultSmartCollectionRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  rules: SmartCollectionRulesSchema,
+});
+
+export const UpdateVaultSmartCollectionRequestSchema = z.object({
+  collectionId: z.string(),
+  name: z.string().min(1).max(100).optional(),
+  rules: SmartCollectionRulesSchema.optional(),
+});
+
+// Bulk operations run by executeBulkVaultOperation
+export const VaultBulkTagRequestSchema = z.object({
+  itemIds: z.array(z.string()).min(1).max(100),
+  addTags: z.array(z.string().max(40)).max(20).optional(),
+  removeTags: z.array(z.string().max(40)).max(20).optional(),
+});
+
+export const VaultBulkResultSchema = z.object({
+  success: z.boolean(),
+  totalItems: z.number(),
+  successfulItems: z.array(z.string()),
+  failedItems: z.array(z.object({
+    itemId: z.string(),
+    error: z.string(),
+  })),
+  operationId: z.string(),
+});
+
 // Additional TypeScript types
 export type RestoreVaultItemRequest = z.infer<typeof RestoreVaultItemRequestSchema>;
 export type GetVaultAuditLogsRequest = z.infer<typeof GetVaultAuditLogsRequestSchema>;
 export type VaultAuditLog = z.infer<typeof VaultAuditLogSchema>;
 export type GetVaultAuditLogsResponse = z.infer<typeof GetVaultAuditLogsResponseSchema>;
 export type AccessVaultShareLinkRequest = z.infer<typeof AccessVaultShareLinkRequestSchema>;
+export type AccessVaultShareLinkResponse = z.infer<typeof AccessVaultShareLinkResponseSchema>;
 export type RevokeVaultItemAccessRequest = z.infer<typeof RevokeVaultItemAccessRequestSchema>;
 export type GetVaultSystemStatsRequest = z.infer<typeof GetVaultSystemStatsRequestSchema>;
 export type GetVaultSystemStatsResponse = z.infer<typeof GetVaultSystemStatsResponseSchema>;
 export type PermanentlyDeleteVaultItemsRequest = z.infer<typeof PermanentlyDeleteVaultItemsRequestSchema>;
+export type VaultUploadPart = z.infer<typeof VaultUploadPartSchema>;
+export type VaultUploadSessionStatus = z.infer<typeof VaultUploadSessionStatusSchema>;
+export type CreateVaultUploadSessionRequest = z.infer<typeof CreateVaultUploadSessionRequestSchema>;
+export type CreateVaultUploadSessionResponse = z.infer<typeof CreateVaultUploadSessionResponseSchema>;
+export type GetVaultUploadSessionRequest = z.infer<typeof GetVaultUploadSessionRequestSchema>;
+export type VaultUploadSession = z.infer<typeof VaultUploadSessionSchema>;
+export type GetVaultUploadPartUrlsRequest = z.infer<typeof GetVaultUploadPartUrlsRequestSchema>;
+export type GetVaultUploadPartUrlsResponse = z.infer<typeof GetVaultUploadPartUrlsResponseSchema>;
+export type ReportVaultUploadPartsRequest = z.infer<typeof ReportVaultUploadPartsRequestSchema>;
+export type ReportVaultUploadPartsResponse = z.infer<typeof ReportVaultUploadPartsResponseSchema>;
+export type CompleteVaultFileUploadRequest = z.infer<typeof CompleteVaultFileUploadRequestSchema>;
+export type AbortVaultUploadSessionRequest = z.infer<typeof AbortVaultUploadSessionRequestSchema>;
+export type FamilyVaultRole = z.infer<typeof FamilyVaultRoleSchema>;
+export type FamilyVaultMember = z.infer<typeof FamilyVaultMemberSchema>;
+export type GetFamilyVaultRequest = z.infer<typeof GetFamilyVaultRequestSchema>;
+export type FamilyVaultInfo = z.infer<typeof FamilyVaultInfoSchema>;
+export type CreateFamilyVaultRequest = z.infer<typeof CreateFamilyVaultRequestSchema>;
+export type UpdateFamilyVaultMemberRoleRequest = z.infer<typeof UpdateFamilyVaultMemberRoleRequestSchema>;
+export type UpdateVaultItemTagsRequest = z.infer<typeof UpdateVaultItemTagsRequestSchema>;
+export type VaultTagCount = z.infer<typeof VaultTagCountSchema>;
+export type VaultAlbum = z.infer<typeof VaultAlbumSchema>;
+export type CreateVaultAlbumRequest = z.infer<typeof CreateVaultAlbumRequestSchema>;
+export type UpdateVaultAlbumRequest = z.infer<typeof UpdateVaultAlbumRequestSchema>;
+export type UpdateVaultAlbumItemsRequest = z.infer<typeof UpdateVaultAlbumItemsRequestSchema>;
+export type UpdateVaultAlbumItemsResponse = z.infer<typeof UpdateVaultAlbumItemsResponseSchema>;
+export type SmartCollectionRules = z.infer<typeof SmartCollectionRulesSchema>;
+export type VaultSmartCollection = z.infer<typeof VaultSmartCollectionSchema>;
+export type CreateVaultSmartCollectionRequest = z.infer<typeof CreateVaultSmartCollectionRequestSchema>;
+export type UpdateVaultSmartCollectionRequest = z.infer<typeof UpdateVaultSmartCollectionRequestSchema>;
+export type VaultBulkTagRequest = z.infer<typeof VaultBulkTagRequestSchema>;
+export type VaultBulkResult = z.infer<typeof VaultBulkResultSchema>;
 
 // Error types
 export enum VaultErrorCode {
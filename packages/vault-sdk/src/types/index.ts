@@ -12,6 +12,7 @@ export type {
   VaultErrorSeverity,
   VaultEncryptionMetadata,
   VaultShareLink,
+  CreateVaultShareLinkResponse,
   GetVaultItemsRequest,
   GetVaultItemsResponse,
   CreateVaultFolderRequest,
@@ -23,6 +24,7 @@ export type {
   VaultAuditLog,
   GetVaultAuditLogsResponse,
   AccessVaultShareLinkRequest,
+  AccessVaultShareLinkResponse,
   RevokeVaultItemAccessRequest,
   GetVaultSystemStatsRequest,
   GetVaultSystemStatsResponse,